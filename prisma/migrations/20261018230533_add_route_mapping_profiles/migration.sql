@@ -0,0 +1,28 @@
+-- Migration: Add saved column-mapping profiles for route spreadsheet import.
+-- Each profile maps spreadsheet headers (with fixed-column fallbacks) to
+-- ParsedStop fields so exports with different layouts can be uploaded.
+
+-- CreateTable
+CREATE TABLE "route_mapping_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "mapping" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "route_mapping_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "route_mapping_profiles_name_key" ON "route_mapping_profiles"("name");
+
+-- CreateIndex
+CREATE INDEX "route_mapping_profiles_isDefault_idx" ON "route_mapping_profiles"("isDefault");
+
+-- CreateIndex
+CREATE INDEX "route_mapping_profiles_isDeleted_idx" ON "route_mapping_profiles"("isDeleted");
@@ -0,0 +1,46 @@
+-- Migration: Keep route upload source files and a change log per upload so
+-- an upload can be re-downloaded and rolled back. Each change row records a
+-- route or stop the upload created, updated or deleted, with a snapshot of
+-- its prior state.
+
+-- AlterEnum
+ALTER TYPE "UploadStatus" ADD VALUE 'ROLLED_BACK';
+
+-- CreateEnum
+CREATE TYPE "RouteUploadEntityType" AS ENUM ('ROUTE', 'STOP');
+
+-- CreateEnum
+CREATE TYPE "RouteUploadChangeType" AS ENUM ('CREATED', 'UPDATED', 'DELETED');
+
+-- AlterTable
+ALTER TABLE "route_uploads" ADD COLUMN "storedFilePath" TEXT,
+ADD COLUMN "fileSize" INTEGER,
+ADD COLUMN "checksum" TEXT,
+ADD COLUMN "rolledBackAt" TIMESTAMP(3),
+ADD COLUMN "rolledBackBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "route_upload_changes" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "routeId" TEXT NOT NULL,
+    "stopId" TEXT,
+    "entityType" "RouteUploadEntityType" NOT NULL,
+    "changeType" "RouteUploadChangeType" NOT NULL,
+    "snapshot" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "route_upload_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "route_upload_changes_uploadId_idx" ON "route_upload_changes"("uploadId");
+
+-- CreateIndex
+CREATE INDEX "route_upload_changes_routeId_idx" ON "route_upload_changes"("routeId");
+
+-- CreateIndex
+CREATE INDEX "route_upload_changes_stopId_idx" ON "route_upload_changes"("stopId");
+
+-- AddForeignKey
+ALTER TABLE "route_upload_changes" ADD CONSTRAINT "route_upload_changes_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "route_uploads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Migration: Add driver aliases for route import. Each alias maps a spelling
+-- of a driver name seen in uploads (stored normalized) to a driver account.
+
+-- CreateTable
+CREATE TABLE "driver_aliases" (
+    "id" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "rawName" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "driver_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "driver_aliases_alias_key" ON "driver_aliases"("alias");
+
+-- CreateIndex
+CREATE INDEX "driver_aliases_driverId_idx" ON "driver_aliases"("driverId");
+
+-- CreateIndex
+CREATE INDEX "driver_aliases_isDeleted_idx" ON "driver_aliases"("isDeleted");
+
+-- AddForeignKey
+ALTER TABLE "driver_aliases" ADD CONSTRAINT "driver_aliases_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
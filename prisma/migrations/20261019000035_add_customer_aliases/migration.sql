@@ -0,0 +1,5 @@
+-- Migration: Add customer name aliases. Route import stores spellings an
+-- admin confirmed as this customer so they link automatically next time.
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,68 @@
+-- Migration: Add recurring route templates. A template holds the driver,
+-- weekdays and ordered customers of a standing route; routes generated from
+-- it point back at it through routes.templateId.
+
+-- CreateTable
+CREATE TABLE "route_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "routeNumber" TEXT NOT NULL,
+    "driverId" TEXT,
+    "weekdays" INTEGER[],
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "route_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "route_template_stops" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "initialDriverNotes" TEXT,
+    "isCOD" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "route_template_stops_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN "templateId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "route_templates_routeNumber_idx" ON "route_templates"("routeNumber");
+
+-- CreateIndex
+CREATE INDEX "route_templates_driverId_idx" ON "route_templates"("driverId");
+
+-- CreateIndex
+CREATE INDEX "route_templates_isDeleted_idx" ON "route_templates"("isDeleted");
+
+-- CreateIndex
+CREATE INDEX "route_template_stops_templateId_idx" ON "route_template_stops"("templateId");
+
+-- CreateIndex
+CREATE INDEX "route_template_stops_customerId_idx" ON "route_template_stops"("customerId");
+
+-- CreateIndex
+CREATE INDEX "routes_templateId_idx" ON "routes"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "route_templates" ADD CONSTRAINT "route_templates_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "route_template_stops" ADD CONSTRAINT "route_template_stops_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "route_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "route_template_stops" ADD CONSTRAINT "route_template_stops_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "routes" ADD CONSTRAINT "routes_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "route_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
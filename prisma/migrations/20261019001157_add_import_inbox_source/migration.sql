@@ -0,0 +1,9 @@
+-- Migration: Record where route uploads and document intake batches came
+-- from, so files picked up from the watched import folder ("INBOX") can be
+-- told apart from ones uploaded by hand ("MANUAL").
+
+-- AlterTable
+ALTER TABLE "route_uploads" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'MANUAL';
+
+-- AlterTable
+ALTER TABLE "document_intake_batches" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'MANUAL';
@@ -0,0 +1,36 @@
+-- Migration: Add geocoded coordinates to customers, with a status and the
+-- provider that placed the pin, plus a cache of geocoder answers keyed by
+-- normalized address.
+
+-- CreateEnum
+CREATE TYPE "GeocodeStatus" AS ENUM ('PENDING', 'OK', 'SUSPICIOUS', 'FAILED', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "geocodeStatus" "GeocodeStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "geocodeSource" TEXT,
+ADD COLUMN "geocodedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "geocode_cache" (
+    "id" TEXT NOT NULL,
+    "addressKey" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "precision" TEXT,
+    "formattedAddress" TEXT,
+    "partialMatch" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geocode_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customers_geocodeStatus_idx" ON "customers"("geocodeStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "geocode_cache_addressKey_key" ON "geocode_cache"("addressKey");
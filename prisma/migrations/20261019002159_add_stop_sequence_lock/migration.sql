@@ -0,0 +1,5 @@
+-- Migration: Let admins lock a stop's position so sequence optimization
+-- works around it.
+
+-- AlterTable
+ALTER TABLE "stops" ADD COLUMN "sequenceLocked" BOOLEAN NOT NULL DEFAULT false;
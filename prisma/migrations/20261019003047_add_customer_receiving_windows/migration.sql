@@ -0,0 +1,25 @@
+-- Migration: Add receiving hours to customers: time windows per weekday,
+-- weekdays they're closed and dock notes for drivers.
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "closedWeekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN "dockNotes" TEXT;
+
+-- CreateTable
+CREATE TABLE "customer_receiving_windows" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "opensAt" TEXT NOT NULL,
+    "closesAt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_receiving_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_receiving_windows_customerId_idx" ON "customer_receiving_windows"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "customer_receiving_windows" ADD CONSTRAINT "customer_receiving_windows_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
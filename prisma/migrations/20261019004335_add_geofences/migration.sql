@@ -0,0 +1,41 @@
+-- Migration: Add geofences around customer delivery points: an optional
+-- per-customer radius and the entry/exit events recorded from driver GPS.
+
+-- CreateEnum
+CREATE TYPE "GeofenceEventType" AS ENUM ('ENTERED', 'EXITED');
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "geofenceRadiusMeters" INTEGER;
+
+-- CreateTable
+CREATE TABLE "geofence_events" (
+    "id" TEXT NOT NULL,
+    "stopId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "type" "GeofenceEventType" NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "distanceMeters" DOUBLE PRECISION NOT NULL,
+    "radiusMeters" INTEGER NOT NULL,
+    "pointSource" TEXT NOT NULL,
+    "autoArrived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofence_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "geofence_events_stopId_idx" ON "geofence_events"("stopId");
+
+-- CreateIndex
+CREATE INDEX "geofence_events_driverId_idx" ON "geofence_events"("driverId");
+
+-- CreateIndex
+CREATE INDEX "geofence_events_createdAt_idx" ON "geofence_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "geofence_events" ADD CONSTRAINT "geofence_events_stopId_fkey" FOREIGN KEY ("stopId") REFERENCES "stops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_events" ADD CONSTRAINT "geofence_events_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- Migration: Add stop status events, a proof-of-location history of every
+-- stop status change with the driver's GPS fix.
+
+-- CreateTable
+CREATE TABLE "stop_status_events" (
+    "id" TEXT NOT NULL,
+    "stopId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "fromStatus" "StopStatus" NOT NULL,
+    "toStatus" "StopStatus" NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "accuracy" DOUBLE PRECISION,
+    "distanceMeters" DOUBLE PRECISION,
+    "pointSource" TEXT,
+    "flagged" BOOLEAN NOT NULL DEFAULT false,
+    "automatic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stop_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stop_status_events_stopId_idx" ON "stop_status_events"("stopId");
+
+-- CreateIndex
+CREATE INDEX "stop_status_events_driverId_idx" ON "stop_status_events"("driverId");
+
+-- CreateIndex
+CREATE INDEX "stop_status_events_flagged_idx" ON "stop_status_events"("flagged");
+
+-- AddForeignKey
+ALTER TABLE "stop_status_events" ADD CONSTRAINT "stop_status_events_stopId_fkey" FOREIGN KEY ("stopId") REFERENCES "stops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stop_status_events" ADD CONSTRAINT "stop_status_events_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
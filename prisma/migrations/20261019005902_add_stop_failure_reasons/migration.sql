@@ -0,0 +1,39 @@
+-- Migration: Add failure reasons for stops the driver couldn't deliver: a
+-- managed list of reason codes, seeded with the common ones, and the reason,
+-- notes and photo evidence on the stop.
+
+-- AlterTable
+ALTER TABLE "stops" ADD COLUMN "failureReasonId" TEXT,
+ADD COLUMN "failureNotes" TEXT,
+ADD COLUMN "failurePhotoUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "failedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "stop_failure_reasons" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "requiresPhoto" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stop_failure_reasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stop_failure_reasons_code_key" ON "stop_failure_reasons"("code");
+
+-- CreateIndex
+CREATE INDEX "stops_failureReasonId_idx" ON "stops"("failureReasonId");
+
+-- AddForeignKey
+ALTER TABLE "stops" ADD CONSTRAINT "stops_failureReasonId_fkey" FOREIGN KEY ("failureReasonId") REFERENCES "stop_failure_reasons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- SeedData
+INSERT INTO "stop_failure_reasons" ("id", "code", "label", "sortOrder", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'CLOSED', 'Business closed', 1, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'REFUSED', 'Delivery refused', 2, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'NO_RECEIVER', 'No one to receive', 3, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'ACCESS_PROBLEM', 'Access problem', 4, CURRENT_TIMESTAMP);
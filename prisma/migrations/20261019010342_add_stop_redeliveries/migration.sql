@@ -0,0 +1,11 @@
+-- Migration: Link a rescheduled stop back to the failed or undelivered stop
+-- it retries, so the invoice, documents and history can follow it.
+
+-- AlterTable
+ALTER TABLE "stops" ADD COLUMN "redeliveryOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stops_redeliveryOfId_idx" ON "stops"("redeliveryOfId");
+
+-- AddForeignKey
+ALTER TABLE "stops" ADD CONSTRAINT "stops_redeliveryOfId_fkey" FOREIGN KEY ("redeliveryOfId") REFERENCES "stops"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- Migration: Order lines per stop (product, ordered quantity, unit, price)
+-- with the quantity the driver delivered, so shortages can be reported.
+
+-- CreateTable
+CREATE TABLE "stop_order_lines" (
+    "id" TEXT NOT NULL,
+    "stopId" TEXT NOT NULL,
+    "productId" TEXT,
+    "sku" TEXT,
+    "description" TEXT NOT NULL,
+    "unit" TEXT,
+    "orderedQty" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION,
+    "deliveredQty" INTEGER,
+    "shortReason" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "stop_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stop_order_lines_stopId_idx" ON "stop_order_lines"("stopId");
+
+-- CreateIndex
+CREATE INDEX "stop_order_lines_productId_idx" ON "stop_order_lines"("productId");
+
+-- AddForeignKey
+ALTER TABLE "stop_order_lines" ADD CONSTRAINT "stop_order_lines_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stop_order_lines" ADD CONSTRAINT "stop_order_lines_stopId_fkey" FOREIGN KEY ("stopId") REFERENCES "stops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
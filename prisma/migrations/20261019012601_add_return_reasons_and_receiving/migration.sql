@@ -0,0 +1,47 @@
+-- Migration: Managed return reason codes, seeded with the codes drivers have
+-- been using, photos on returns, and warehouse receiving of returned goods
+-- (quantity and condition confirmed by staff).
+
+-- CreateEnum
+CREATE TYPE "ReturnCondition" AS ENUM ('GOOD', 'DAMAGED', 'UNSELLABLE');
+
+-- AlterTable
+ALTER TABLE "returns" ADD COLUMN "photoUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "receivedQty" INTEGER,
+ADD COLUMN "receivedCondition" "ReturnCondition",
+ADD COLUMN "receivingNotes" TEXT,
+ADD COLUMN "receivedAt" TIMESTAMP(3),
+ADD COLUMN "receivedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "return_reasons" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "requiresPhoto" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_reasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_reasons_code_key" ON "return_reasons"("code");
+
+-- CreateIndex
+CREATE INDEX "returns_receivedAt_idx" ON "returns"("receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "returns" ADD CONSTRAINT "returns_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- SeedData
+INSERT INTO "return_reasons" ("id", "code", "label", "description", "requiresPhoto", "sortOrder", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'DAMAGED', 'Damaged', 'Item arrived or was found damaged', true, 1, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'EXPIRED', 'Expired', 'Past its use-by date', true, 2, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'WRONG_ITEM', 'Wrong item', 'Not what the customer ordered', false, 3, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'CUSTOMER_REFUSED', 'Customer refused', 'Customer didn''t accept the item', false, 4, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'QUALITY_ISSUE', 'Quality issue', 'Item doesn''t meet quality standards', true, 5, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'OTHER', 'Other', NULL, false, 6, CURRENT_TIMESTAMP);
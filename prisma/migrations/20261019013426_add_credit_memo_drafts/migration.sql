@@ -0,0 +1,44 @@
+-- Migration: Draft credit memos from a stop's received returns. Drafts have
+-- lines per returned item, are approved by an admin and then issued with a
+-- number and document. Existing credit memos are already issued.
+
+-- CreateEnum
+CREATE TYPE "CreditMemoStatus" AS ENUM ('DRAFT', 'APPROVED', 'ISSUED');
+
+-- AlterTable
+ALTER TABLE "credit_memos" ALTER COLUMN "creditMemoNumber" DROP NOT NULL,
+ADD COLUMN "status" "CreditMemoStatus" NOT NULL DEFAULT 'ISSUED',
+ADD COLUMN "approvedAt" TIMESTAMP(3),
+ADD COLUMN "approvedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "credit_memo_lines" (
+    "id" TEXT NOT NULL,
+    "creditMemoId" TEXT NOT NULL,
+    "returnId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_memo_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_memos_status_idx" ON "credit_memos"("status");
+
+-- CreateIndex
+CREATE INDEX "credit_memo_lines_creditMemoId_idx" ON "credit_memo_lines"("creditMemoId");
+
+-- CreateIndex
+CREATE INDEX "credit_memo_lines_returnId_idx" ON "credit_memo_lines"("returnId");
+
+-- AddForeignKey
+ALTER TABLE "credit_memos" ADD CONSTRAINT "credit_memos_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_memo_lines" ADD CONSTRAINT "credit_memo_lines_creditMemoId_fkey" FOREIGN KEY ("creditMemoId") REFERENCES "credit_memos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_memo_lines" ADD CONSTRAINT "credit_memo_lines_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "returns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
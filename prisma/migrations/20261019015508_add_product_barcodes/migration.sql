@@ -0,0 +1,21 @@
+-- Migration: Barcodes (UPC, EAN, case codes) on products, several per
+-- product, so drivers can scan items instead of searching for them.
+
+-- CreateTable
+CREATE TABLE "product_barcodes" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_barcodes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_barcodes_code_key" ON "product_barcodes"("code");
+
+-- CreateIndex
+CREATE INDEX "product_barcodes_productId_idx" ON "product_barcodes"("productId");
+
+-- AddForeignKey
+ALTER TABLE "product_barcodes" ADD CONSTRAINT "product_barcodes_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- Migration: End-of-day settlement of the cash and checks a driver hands in,
+-- reconciled against the day's COD stops and recorded payments. Settled
+-- stops point at their settlement, which locks their payments.
+
+-- CreateEnum
+CREATE TYPE "SettlementStatus" AS ENUM ('OPEN', 'DRIVER_SIGNED', 'SETTLED');
+
+-- AlterTable
+ALTER TABLE "stops" ADD COLUMN "settlementId" TEXT;
+
+-- CreateTable
+CREATE TABLE "driver_settlements" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "status" "SettlementStatus" NOT NULL DEFAULT 'OPEN',
+    "countedCash" DOUBLE PRECISION,
+    "checkCount" INTEGER,
+    "notes" TEXT,
+    "expectedCod" DOUBLE PRECISION,
+    "codCollected" DOUBLE PRECISION,
+    "cashCollected" DOUBLE PRECISION,
+    "checkCollected" DOUBLE PRECISION,
+    "cardCollected" DOUBLE PRECISION,
+    "checksRecorded" INTEGER,
+    "cashBackAmount" DOUBLE PRECISION,
+    "driverSignedAt" TIMESTAMP(3),
+    "officeSignedAt" TIMESTAMP(3),
+    "officeSignedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "driver_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "driver_settlements_driverId_date_key" ON "driver_settlements"("driverId", "date");
+
+-- CreateIndex
+CREATE INDEX "driver_settlements_date_idx" ON "driver_settlements"("date");
+
+-- CreateIndex
+CREATE INDEX "driver_settlements_status_idx" ON "driver_settlements"("status");
+
+-- CreateIndex
+CREATE INDEX "stops_settlementId_idx" ON "stops"("settlementId");
+
+-- AddForeignKey
+ALTER TABLE "stops" ADD CONSTRAINT "stops_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "driver_settlements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "driver_settlements" ADD CONSTRAINT "driver_settlements_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "driver_settlements" ADD CONSTRAINT "driver_settlements_officeSignedById_fkey" FOREIGN KEY ("officeSignedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -99,6 +99,56 @@ app.prepare().then(() => {
       console.error("> Overdue End-of-Day check failed:", err);
     }
   }, 15 * 60 * 1000);
+
+  // Pick up route spreadsheets and invoice PDFs dropped into the watched
+  // import folder. Off unless IMPORT_INBOX_DIR is set; see
+  // src/lib/importInbox.ts for how files are handled.
+  if (process.env.IMPORT_INBOX_DIR) {
+    const inboxPollSeconds = parseInt(process.env.IMPORT_INBOX_POLL_SECONDS) || 120;
+    console.log(
+      `> Watching import folder ${process.env.IMPORT_INBOX_DIR} every ${inboxPollSeconds}s`
+    );
+
+    setInterval(async () => {
+      try {
+        const response = await fetch(
+          `http://localhost:${port}/api/internal/process-import-inbox`,
+          { method: "POST" }
+        );
+        const data = await response.json();
+        if (data.files && data.files.length > 0) {
+          console.log(
+            `> Import inbox run complete: processed=${data.processed}, failed=${data.failed}`
+          );
+        }
+      } catch (err) {
+        console.error("> Import inbox run failed:", err);
+      }
+    }, inboxPollSeconds * 1000);
+  }
+
+  // Geocode new customers and customers whose address changed. Off unless
+  // a geocoder is configured; see src/lib/geocoding.ts.
+  if (process.env.GOOGLE_GEOCODING_API_KEY || process.env.GEOCODER_FILE) {
+    const geocodePollSeconds = parseInt(process.env.GEOCODE_BACKFILL_POLL_SECONDS) || 300;
+
+    setInterval(async () => {
+      try {
+        const response = await fetch(
+          `http://localhost:${port}/api/internal/geocode-backfill`,
+          { method: "POST" }
+        );
+        const data = await response.json();
+        if (data.attempted > 0) {
+          console.log(
+            `> Geocode backfill complete: attempted=${data.attempted}, errors=${data.errors.length}`
+          );
+        }
+      } catch (err) {
+        console.error("> Geocode backfill failed:", err);
+      }
+    }, geocodePollSeconds * 1000);
+  }
 });
 
 // Export Socket.IO event emitter functions from src/lib/socket.js
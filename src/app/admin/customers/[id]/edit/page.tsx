@@ -3,6 +3,10 @@
 import { useState, useEffect, use } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import ReceivingHoursEditor, {
+  ReceivingHoursValue,
+} from "@/components/admin/customers/ReceivingHoursEditor";
+import type { ReceivingWindow } from "@/utils/receivingHours";
 
 interface Customer {
   id: string;
@@ -14,6 +18,10 @@ interface Customer {
   groupCode: string | null;
   paymentTerms: string | null;
   deliveryInstructions: string | null;
+  geofenceRadiusMeters: number | null;
+  closedWeekdays: number[];
+  dockNotes: string | null;
+  receivingWindows: ReceivingWindow[];
 }
 
 export default function EditCustomerPage({
@@ -35,6 +43,12 @@ export default function EditCustomerPage({
     groupCode: "",
     paymentTerms: "COD",
     deliveryInstructions: "",
+    geofenceRadiusMeters: "",
+  });
+  const [receivingHours, setReceivingHours] = useState<ReceivingHoursValue>({
+    windows: [],
+    closedWeekdays: [],
+    dockNotes: "",
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -75,6 +89,21 @@ export default function EditCustomerPage({
           groupCode: data.customer.groupCode || "",
           paymentTerms: data.customer.paymentTerms || "COD",
           deliveryInstructions: data.customer.deliveryInstructions || "",
+          geofenceRadiusMeters:
+            data.customer.geofenceRadiusMeters != null
+              ? String(data.customer.geofenceRadiusMeters)
+              : "",
+        });
+        setReceivingHours({
+          windows: (data.customer.receivingWindows || []).map(
+            (window: ReceivingWindow) => ({
+              weekday: window.weekday,
+              opensAt: window.opensAt,
+              closesAt: window.closesAt,
+            })
+          ),
+          closedWeekdays: data.customer.closedWeekdays || [],
+          dockNotes: data.customer.dockNotes || "",
         });
       } catch (err) {
         setError(err instanceof Error ? err.message : "An error occurred");
@@ -123,11 +152,12 @@ export default function EditCustomerPage({
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, receivingHours }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to update customer");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to update customer");
       }
 
       setSuccess(true);
@@ -397,6 +427,30 @@ export default function EditCustomerPage({
                   />
                 </div>
 
+                <div>
+                  <label
+                    htmlFor="geofenceRadiusMeters"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Geofence Radius (meters)
+                  </label>
+                  <input
+                    type="number"
+                    id="geofenceRadiusMeters"
+                    name="geofenceRadiusMeters"
+                    value={formData.geofenceRadiusMeters}
+                    onChange={handleChange}
+                    min={25}
+                    max={1000}
+                    step={1}
+                    placeholder="Default"
+                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-500/50"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    How close a driver must be to the delivery point to count as there. Leave blank for the default.
+                  </p>
+                </div>
+
                 <div className="md:col-span-2">
                   <label
                     htmlFor="deliveryInstructions"
@@ -433,6 +487,16 @@ export default function EditCustomerPage({
                 </div>
               </div>
 
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Receiving Hours
+                </h3>
+                <ReceivingHoursEditor
+                  value={receivingHours}
+                  onChange={setReceivingHours}
+                />
+              </div>
+
               <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
                 <Link
                   href={`/admin/customers/${customerId}`}
@@ -16,6 +16,16 @@ interface Customer {
   updatedAt: string;
 }
 
+interface RedeliveryLink {
+  id: string;
+  status: string;
+  route: {
+    id: string;
+    routeNumber: string | null;
+    date: string;
+  };
+}
+
 interface Stop {
   id: string;
   sequence: number;
@@ -25,6 +35,8 @@ interface Stop {
     routeNumber: string | null;
     date: string;
   };
+  redeliveryOf: RedeliveryLink | null;
+  redeliveries: RedeliveryLink[];
 }
 
 interface Document {
@@ -753,6 +765,27 @@ export default function CustomerDetailPage({
                             >
                               {stop.status.replace("_", " ")}
                             </span>
+                            {stop.redeliveryOf && (
+                              <Link
+                                href={`/admin/stops/${stop.redeliveryOf.id}`}
+                                className="block mt-1 text-xs text-blue-600 hover:text-blue-900"
+                              >
+                                Redelivery of route{" "}
+                                {stop.redeliveryOf.route.routeNumber || "N/A"} (
+                                {formatDate(stop.redeliveryOf.route.date)})
+                              </Link>
+                            )}
+                            {stop.redeliveries?.map((redelivery) => (
+                              <Link
+                                key={redelivery.id}
+                                href={`/admin/stops/${redelivery.id}`}
+                                className="block mt-1 text-xs text-blue-600 hover:text-blue-900"
+                              >
+                                Rescheduled to route{" "}
+                                {redelivery.route.routeNumber || "N/A"} (
+                                {formatDate(redelivery.route.date)})
+                              </Link>
+                            ))}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <Link
@@ -0,0 +1,482 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import TableActions from "@/components/ui/TableActions";
+import StatusBadge from "@/components/ui/StatusBadge";
+import Pagination from "@/components/ui/Pagination";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import {
+  generateCoordinateMapLink,
+  generateSingleAddressMapLink,
+} from "@/utils/googleMapsUtils";
+
+type GeocodeStatus = "PENDING" | "OK" | "SUSPICIOUS" | "FAILED" | "MANUAL";
+
+interface GeocodedCustomer {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  geocodeStatus: GeocodeStatus;
+  geocodeSource: string | null;
+  geocodedAt: string | null;
+}
+
+const STATUS_TABS: { status: GeocodeStatus; label: string }[] = [
+  { status: "SUSPICIOUS", label: "Suspicious" },
+  { status: "FAILED", label: "Failed" },
+  { status: "PENDING", label: "Pending" },
+  { status: "MANUAL", label: "Fixed by Hand" },
+  { status: "OK", label: "OK" },
+];
+
+const STATUS_VARIANTS = {
+  PENDING: "default",
+  OK: "success",
+  SUSPICIOUS: "warning",
+  FAILED: "danger",
+  MANUAL: "primary",
+} as const;
+
+export default function CustomerGeocodingPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [status, setStatus] = useState<GeocodeStatus>("SUSPICIOUS");
+  const [customers, setCustomers] = useState<GeocodedCustomer[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<GeocodeStatus, number>>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [geocoderConfigured, setGeocoderConfigured] = useState(true);
+  const [search, setSearch] = useState("");
+  const [limit, setLimit] = useState(25);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [backfilling, setBackfilling] = useState(false);
+  const [pinning, setPinning] = useState<GeocodedCustomer | null>(null);
+  const [pinInput, setPinInput] = useState("");
+  const [pinError, setPinError] = useState("");
+  const [pinSaving, setPinSaving] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchCustomers();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated, status, search, limit, offset]);
+
+  const fetchCustomers = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const params = new URLSearchParams({
+        status,
+        limit: String(limit),
+        offset: String(offset),
+      });
+      if (search) params.set("search", search);
+
+      const response = await fetch(`/api/admin/customers/geocoding?${params}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch customer pins");
+      }
+
+      const data = await response.json();
+      setCustomers(data.customers);
+      setTotalCount(data.totalCount);
+      setCounts(data.counts);
+      setGeocoderConfigured(data.geocoderConfigured);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runBackfill = async () => {
+    if (!token) return;
+
+    setBackfilling(true);
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await fetch("/api/admin/customers/geocoding/backfill", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to geocode customers");
+      }
+
+      setNotice(
+        data.errors.length > 0
+          ? `${data.message}; ${data.errors.length} could not be looked up and stay pending`
+          : data.message
+      );
+      await fetchCustomers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
+  const retry = async (customer: GeocodedCustomer) => {
+    if (!token) return;
+
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customer.id}/geocode`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to geocode customer");
+      }
+
+      setNotice(
+        `${customer.name}: ${data.status}${data.reasons.length > 0 ? ` (${data.reasons.join("; ")})` : ""}`
+      );
+      await fetchCustomers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const updatePin = async (customer: GeocodedCustomer, body: object) => {
+    if (!token) return;
+
+    const response = await fetch(`/api/admin/customers/${customer.id}/geocode`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || "Failed to update pin");
+    }
+  };
+
+  const accept = async (customer: GeocodedCustomer) => {
+    setError("");
+    setNotice("");
+    try {
+      await updatePin(customer, { accept: true });
+      await fetchCustomers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const openPin = (customer: GeocodedCustomer) => {
+    setPinInput(
+      customer.latitude !== null && customer.longitude !== null
+        ? `${customer.latitude}, ${customer.longitude}`
+        : ""
+    );
+    setPinError("");
+    setPinning(customer);
+  };
+
+  const savePin = async () => {
+    if (!pinning) return;
+
+    // "lat, lng" as copied from Google Maps
+    const [latitude, longitude] = pinInput.split(",").map((part) => parseFloat(part.trim()));
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      setPinError('Enter the coordinates as "latitude, longitude"');
+      return;
+    }
+
+    setPinSaving(true);
+    setPinError("");
+    try {
+      await updatePin(pinning, { latitude, longitude });
+      setPinning(null);
+      await fetchCustomers();
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPinSaving(false);
+    }
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading customer pins..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Customer Map Pins</h1>
+        <div className="flex gap-4">
+          <button
+            onClick={runBackfill}
+            disabled={backfilling || !geocoderConfigured}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {backfilling ? "Geocoding..." : "Geocode Pending Now"}
+          </button>
+          <button
+            onClick={() => router.back()}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            &larr; Back
+          </button>
+        </div>
+      </div>
+
+      {!geocoderConfigured && (
+        <div className="bg-primary-orange/10 border border-primary-orange/30 text-primary-orange px-4 py-3 rounded-lg">
+          No geocoder is configured, so new customers stay pending. Set
+          GOOGLE_GEOCODING_API_KEY (or GEOCODER_FILE for a file of known
+          addresses) on the server. Pins can still be placed by hand.
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-primary-green/10 border border-primary-green/30 text-primary-green px-4 py-3 rounded-lg flex justify-between">
+          <span>{notice}</span>
+          <button onClick={() => setNotice("")} className="text-sm font-medium">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.status}
+                onClick={() => {
+                  setStatus(tab.status);
+                  setOffset(0);
+                }}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  status === tab.status
+                    ? "bg-gray-800 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {tab.label} ({counts[tab.status] ?? 0})
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-mono-500 mt-2">
+            Suspicious pins were only placed roughly, matched part of the
+            address or fall outside the service area. Check each on the map,
+            then accept it or paste the right coordinates.
+          </p>
+        </div>
+
+        <div className="p-6">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setOffset(0);
+            }}
+            placeholder="Search by name or address"
+            className="w-full sm:w-80 border border-gray-300 rounded-md px-3 py-2 text-sm mb-4"
+          />
+
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          <EnhancedTable
+            data={customers}
+            keyField="id"
+            isLoading={loading}
+            emptyState={
+              <div className="text-center py-8 text-gray-500">
+                No customers in this list.
+              </div>
+            }
+            columns={[
+              {
+                header: "Customer",
+                accessor: (customer) => (
+                  <div>
+                    <div className="font-medium">{customer.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {customer.address || "No address"}
+                    </div>
+                  </div>
+                ),
+              },
+              {
+                header: "Pin",
+                accessor: (customer) =>
+                  customer.latitude !== null && customer.longitude !== null ? (
+                    <a
+                      href={generateCoordinateMapLink(customer.latitude, customer.longitude)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-blue hover:underline"
+                    >
+                      {customer.latitude.toFixed(5)}, {customer.longitude.toFixed(5)}
+                    </a>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  ),
+              },
+              {
+                header: "Status",
+                accessor: (customer) => (
+                  <div>
+                    <StatusBadge
+                      status={customer.geocodeStatus}
+                      variant={STATUS_VARIANTS[customer.geocodeStatus]}
+                    />
+                    {customer.geocodeSource && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {customer.geocodeSource}
+                        {customer.geocodedAt &&
+                          ` · ${new Date(customer.geocodedAt).toLocaleDateString()}`}
+                      </div>
+                    )}
+                  </div>
+                ),
+              },
+              {
+                header: "Actions",
+                accessor: (customer) => (
+                  <TableActions
+                    actions={[
+                      ...(customer.geocodeStatus === "SUSPICIOUS"
+                        ? [
+                            {
+                              label: "Accept",
+                              onClick: () => accept(customer),
+                              variant: "primary" as const,
+                            },
+                          ]
+                        : []),
+                      {
+                        label: "Set Pin",
+                        onClick: () => openPin(customer),
+                      },
+                      ...(geocoderConfigured && customer.address
+                        ? [
+                            {
+                              label: "Retry",
+                              onClick: () => retry(customer),
+                            },
+                          ]
+                        : []),
+                    ]}
+                  />
+                ),
+                align: "right",
+              },
+            ]}
+            striped
+            stickyHeader
+          />
+
+          <Pagination
+            totalItems={totalCount}
+            itemsPerPage={limit}
+            currentPage={Math.floor(offset / limit) + 1}
+            onPageChange={(page) => setOffset((page - 1) * limit)}
+            onItemsPerPageChange={(value) => {
+              setLimit(value);
+              setOffset(0);
+            }}
+            itemsPerPageOptions={[10, 25, 50, 100]}
+            className="mt-4"
+          />
+        </div>
+      </div>
+
+      {/* Set Pin Dialog */}
+      {pinning && (
+        <div className="fixed inset-0 bg-gray-600/50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900">Set Pin for {pinning.name}</h3>
+            <p className="mt-2 text-sm text-gray-500">
+              Find the delivery entrance on{" "}
+              <a
+                href={generateSingleAddressMapLink(pinning.address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary-blue hover:underline"
+              >
+                Google Maps
+              </a>
+              , right-click it and copy the coordinates here.
+            </p>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Latitude, longitude
+              </label>
+              <input
+                type="text"
+                value={pinInput}
+                onChange={(e) => setPinInput(e.target.value)}
+                placeholder="34.05223, -118.24368"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+
+            {pinError && <div className="mt-3 text-sm text-red-600">{pinError}</div>}
+
+            <div className="flex justify-end gap-3 mt-5">
+              <button
+                onClick={() => setPinning(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={savePin}
+                disabled={pinSaving || !pinInput.trim()}
+                className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pinSaving ? "Saving..." : "Save Pin"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
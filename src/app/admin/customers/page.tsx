@@ -354,6 +354,12 @@ export default function CustomersPage() {
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <h1 className="text-2xl font-medium text-gray-900">Customers</h1>
           <div className="flex flex-col sm:flex-row gap-3">
+            <Link
+              href="/admin/customers/geocoding"
+              className="flex items-center justify-center text-primary-blue hover:text-blue-700 transition duration-200 font-medium py-2 px-4 border border-primary-blue rounded-lg hover:bg-blue-50"
+            >
+              Map Pins
+            </Link>
             <Link
               href="/admin/customers/create"
               className="bg-gray-800 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg transition duration-200 text-center"
@@ -151,6 +151,7 @@ export default function DocumentIntakePage() {
     matchedCount: number;
     unmatchedCount: number;
     createdAt: string;
+    source: string;
     user: { fullName: string | null; username: string } | null;
     logs: HistoryLog[];
   }
@@ -847,6 +848,7 @@ export default function DocumentIntakePage() {
                       </p>
                       <p className="text-xs text-gray-500">
                         {batch.user?.fullName || batch.user?.username || 'Unknown'} ·
+                        {batch.source === 'INBOX' && ' import folder ·'}
                         {' '}{batch.totalFiles} file{batch.totalFiles === 1 ? '' : 's'}
                       </p>
                     </div>
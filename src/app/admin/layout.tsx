@@ -5,6 +5,7 @@ import { useRouter, usePathname } from "next/navigation";
 import TodaysRoutesSidebar from "@/components/admin/TodaysRoutesSidebar";
 import NavItem from "@/components/admin/NavItem";
 import NavGroup from "@/components/admin/NavGroup";
+import GeofenceAlerts from "@/components/admin/GeofenceAlerts";
 
 export default function AdminLayout({
   children,
@@ -21,13 +22,15 @@ export default function AdminLayout({
 
   // Determine which nav group (if any) contains the current route.
   const getGroupForPathname = (path: string): string | null => {
-    if (path.startsWith("/admin/routes")) return "routes-operations";
+    if (path.startsWith("/admin/routes") || path.startsWith("/admin/returns"))
+      return "routes-operations";
     if (path.startsWith("/admin/customers") || path.startsWith("/admin/products"))
       return "customers-products";
     if (
       path.startsWith("/admin/vehicles") ||
       path === "/admin/drivers/locations" ||
-      path === "/admin/kpis"
+      path === "/admin/kpis" ||
+      path === "/admin/settlements"
     )
       return "fleet-drivers";
     if (
@@ -370,6 +373,132 @@ export default function AdminLayout({
                   />
                 )}
 
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/routes/templates"
+                    label="Route Templates"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/routes/calendar"
+                    label="Route Calendar"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/routes/failure-reasons"
+                    label="Failed Stop Reasons"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/routes/redeliveries"
+                    label="Redeliveries"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/returns"
+                    label="Return Receiving"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/returns/credit-memos"
+                    label="Credit Memos"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z"
+                      />
+                    }
+                  />
+                )}
+
+                {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
+                  <NavItem
+                    href="/admin/returns/reasons"
+                    label="Return Reasons"
+                    color="green"
+                    indent
+                    onNavigate={() => setSidebarOpen(false)}
+                    icon={
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                      />
+                    }
+                  />
+                )}
+
                 {/* Only show Driver Route Maps menu item for ADMIN and SUPER_ADMIN users */}
                 {(userRole === "ADMIN" || userRole === "SUPER_ADMIN") && (
                   <NavItem
@@ -436,6 +565,21 @@ export default function AdminLayout({
                     />
                   }
                 />
+                <NavItem
+                  href="/admin/customers/geocoding"
+                  label="Map Pins"
+                  color="orange"
+                  indent
+                  onNavigate={() => setSidebarOpen(false)}
+                  icon={
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z"
+                    />
+                  }
+                />
                 <NavItem
                   href="/admin/products"
                   label="Products"
@@ -530,6 +674,20 @@ export default function AdminLayout({
                     />
                   }
                 />
+                <NavItem
+                  href="/admin/settlements"
+                  label="Driver Settlements"
+                  color="cyan"
+                  onNavigate={() => setSidebarOpen(false)}
+                  icon={
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={1.5}
+                      d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z"
+                    />
+                  }
+                />
               </NavGroup>
 
               <li className="pt-2 mt-1 border-t border-gray-800" aria-hidden="true" />
@@ -705,6 +863,7 @@ export default function AdminLayout({
         <main className="flex-1 p-4 md:p-8 overflow-auto bg-mono-50 h-screen">
           {children}
         </main>
+        <GeofenceAlerts />
       </div>
     </div>
   );
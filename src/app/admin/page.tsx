@@ -56,6 +56,22 @@ interface ActiveDriverDetails {
   drivers: Driver[];
 }
 
+interface FailedStop {
+  id: string;
+  customerNameFromUpload: string | null;
+  failedAt: string | null;
+  failureNotes: string | null;
+  customer: { name: string };
+  failureReason: { code: string; label: string } | null;
+  route: { id: string; routeNumber: string | null };
+}
+
+interface FailureStats {
+  total: number;
+  byReason: { code: string; label: string; count: number }[];
+  stops: FailedStop[];
+}
+
 export default function AdminDashboard() {
   // Use the Admin auth hook (allows both ADMIN and SUPER_ADMIN)
   const { token, userRole, isLoading: authLoading, isAuthenticated } = useAdminAuth();
@@ -84,6 +100,11 @@ export default function AdminDashboard() {
       count: 0,
       drivers: [],
     });
+  const [failureStats, setFailureStats] = useState<FailureStats>({
+    total: 0,
+    byReason: [],
+    stops: [],
+  });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const router = useRouter();
@@ -154,6 +175,10 @@ export default function AdminDashboard() {
       if (data.activeDriverDetails) {
         setActiveDriverDetails(data.activeDriverDetails);
       }
+
+      if (data.failureStats) {
+        setFailureStats(data.failureStats);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
       console.error("Error fetching dashboard data:", err);
@@ -414,6 +439,18 @@ export default function AdminDashboard() {
                       {stopStats.todayByStatus["COMPLETED"] || 0}
                     </p>
                   </div>
+                  <div className="bg-white p-3 rounded-md shadow-sm">
+                    <p className="text-sm text-gray-500">Failed</p>
+                    <p className="text-xl font-bold text-red-600">
+                      {stopStats.todayByStatus["FAILED"] || 0}
+                    </p>
+                  </div>
+                  <div className="bg-white p-3 rounded-md shadow-sm">
+                    <p className="text-sm text-gray-500">Cancelled</p>
+                    <p className="text-xl font-bold text-gray-600">
+                      {stopStats.todayByStatus["CANCELLED"] || 0}
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -481,6 +518,66 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      {/* Failed Stops Today */}
+      {failureStats.total > 0 && (
+        <div className="bg-white rounded-xl shadow-card overflow-hidden">
+          <div className="px-6 py-4 border-b border-mono-200 flex justify-between items-center">
+            <h2 className="text-lg font-medium text-mono-800">
+              Failed Stops Today
+            </h2>
+            <div className="flex gap-4">
+              <Link
+                href="/admin/routes/redeliveries"
+                className="text-primary-blue hover:text-blue-700 text-sm font-medium"
+              >
+                Redeliveries
+              </Link>
+              <Link
+                href="/admin/routes/failure-reasons"
+                className="text-primary-blue hover:text-blue-700 text-sm font-medium"
+              >
+                Manage Reasons
+              </Link>
+            </div>
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap gap-3">
+              {failureStats.byReason.map((reason) => (
+                <div
+                  key={reason.code}
+                  className="bg-red-50 border border-red-200 px-4 py-2 rounded-lg"
+                >
+                  <p className="text-sm text-red-700">{reason.label}</p>
+                  <p className="text-xl font-bold text-red-800">{reason.count}</p>
+                </div>
+              ))}
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {failureStats.stops.map((stop) => (
+                <li key={stop.id} className="py-2 flex justify-between items-center">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {stop.customer?.name || stop.customerNameFromUpload}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {stop.failureReason?.label || "No reason given"}
+                      {stop.route.routeNumber && ` · Route ${stop.route.routeNumber}`}
+                      {stop.failureNotes && ` · ${stop.failureNotes}`}
+                    </p>
+                  </div>
+                  <Link
+                    href={`/admin/stops/${stop.id}`}
+                    className="text-primary-blue hover:text-blue-700 text-sm font-medium"
+                  >
+                    View
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Chart and Actions Row */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Today's Routes - Replacing the Number of Returns section */}
@@ -10,6 +10,7 @@ interface Product {
   sku: string;
   description: string | null;
   unit: string | null;
+  barcodes: { code: string }[];
   createdAt: string;
   updatedAt: string;
 }
@@ -168,6 +169,16 @@ export default function ProductDetailPage({
               </h3>
               <p className="text-gray-900">{product.unit || "N/A"}</p>
             </div>
+            <div className="md:col-span-2">
+              <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">
+                Barcodes
+              </h3>
+              <p className="text-gray-900">
+                {product.barcodes.length > 0
+                  ? product.barcodes.map((barcode) => barcode.code).join(", ")
+                  : "No barcodes"}
+              </p>
+            </div>
             <div className="md:col-span-2">
               <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">
                 Description
@@ -363,6 +363,10 @@ export default function ProductUploadPage() {
                       <li>
                         Your file should have columns for: Product Name, SKU, Unit, and Description.
                       </li>
+                      <li>
+                        An optional Barcodes column takes one or more UPC/EAN codes separated by
+                        semicolons. Format it as text so leading zeros are kept.
+                      </li>
                       <li>
                         If a product with the same SKU already exists, it will be updated.
                       </li>
@@ -0,0 +1,488 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import StatusBadge from "@/components/ui/StatusBadge";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import { creditMemoLineAmount, creditMemoTotal } from "@/utils/creditMemos";
+
+type Filter = "open" | "issued";
+
+interface CreditMemoLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number | null;
+  return: { id: string; reasonCode: string; quantity: number; receivedCondition: string | null } | null;
+}
+
+interface CreditMemo {
+  id: string;
+  status: "DRAFT" | "APPROVED" | "ISSUED";
+  creditMemoNumber: string | null;
+  creditMemoAmount: number;
+  approvedAt: string | null;
+  createdAt: string;
+  lines: CreditMemoLine[];
+  approvedBy: { username: string; fullName: string | null } | null;
+  document: { id: string; title: string; filePath: string } | null;
+  stop: {
+    id: string;
+    quickbooksInvoiceNum: string | null;
+    customer: { name: string };
+    route: { id: string; routeNumber: string | null; date: string };
+  };
+}
+
+interface LineDraft {
+  quantity: string;
+  unitPrice: string;
+}
+
+const STATUS_VARIANTS = { DRAFT: "warning", APPROVED: "primary", ISSUED: "success" } as const;
+
+const formatRouteDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    timeZone: "America/Los_Angeles",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const lineDraftsFor = (memos: CreditMemo[]): Record<string, LineDraft> =>
+  Object.fromEntries(
+    memos.flatMap((memo) =>
+      memo.lines.map((line) => [
+        line.id,
+        {
+          quantity: String(line.quantity),
+          unitPrice: line.unitPrice === null ? "" : String(line.unitPrice),
+        },
+      ])
+    )
+  );
+
+const draftLine = (draft: LineDraft | undefined, line: CreditMemoLine) => ({
+  quantity: parseInt(draft?.quantity ?? "", 10) || 0,
+  unitPrice: !draft ? line.unitPrice : draft.unitPrice === "" ? null : parseFloat(draft.unitPrice),
+});
+
+export default function CreditMemosPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [filter, setFilter] = useState<Filter>("open");
+  const [memos, setMemos] = useState<CreditMemo[]>([]);
+  const [lineDrafts, setLineDrafts] = useState<Record<string, LineDraft>>({});
+  const [memoNumbers, setMemoNumbers] = useState<Record<string, string>>({});
+  const [memoFiles, setMemoFiles] = useState<Record<string, File | null>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchMemos();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated, filter]);
+
+  const fetchMemos = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/credit-memos?status=${filter}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch credit memos");
+      }
+
+      const data = await response.json();
+      setMemos(data.creditMemos);
+      setLineDrafts(lineDraftsFor(data.creditMemos));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run an action on a memo, then reload the list
+  const act = async (memo: CreditMemo, action: () => Promise<Response>, message: string) => {
+    setBusy(memo.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update the credit memo");
+      }
+      setSuccess(message);
+      await fetchMemos();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveLines = (memo: CreditMemo) =>
+    act(
+      memo,
+      () =>
+        fetch(`/api/admin/credit-memos/${memo.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            lines: memo.lines.map((line) => ({
+              lineId: line.id,
+              quantity: parseInt(lineDrafts[line.id].quantity, 10),
+              unitPrice: lineDrafts[line.id].unitPrice,
+            })),
+          }),
+        }),
+      `Saved the credit memo for ${memo.stop.customer.name}`
+    );
+
+  const approve = (memo: CreditMemo) =>
+    act(
+      memo,
+      () =>
+        fetch(`/api/admin/credit-memos/${memo.id}/approve`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      `Approved the credit memo for ${memo.stop.customer.name}`
+    );
+
+  const discard = (memo: CreditMemo) => {
+    if (!confirm(`Discard the credit memo for ${memo.stop.customer.name}?`)) return;
+    act(
+      memo,
+      () =>
+        fetch(`/api/admin/credit-memos/${memo.id}`, {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      `Discarded the credit memo for ${memo.stop.customer.name}`
+    );
+  };
+
+  const issue = (memo: CreditMemo) => {
+    const file = memoFiles[memo.id];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("creditMemoNumber", memoNumbers[memo.id] || "");
+    formData.append("file", file);
+    act(
+      memo,
+      () =>
+        fetch(`/api/admin/credit-memos/${memo.id}/issue`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+          body: formData,
+        }),
+      `Issued credit memo ${memoNumbers[memo.id]} for ${memo.stop.customer.name}`
+    );
+  };
+
+  // Draft edits that haven't been saved yet
+  const isEdited = (memo: CreditMemo) =>
+    memo.lines.some((line) => {
+      const draft = draftLine(lineDrafts[line.id], line);
+      return draft.quantity !== line.quantity || draft.unitPrice !== line.unitPrice;
+    });
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading credit memos..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Credit Memos</h1>
+        <button
+          onClick={() => router.back()}
+          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+        >
+          &larr; Back
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Drafted From Returns</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            A draft is created once every return on a stop has been received at the
+            warehouse. Check the quantities and prices, approve it, then issue it with the
+            credit memo number and document.
+          </p>
+        </div>
+
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8 px-6">
+            {(
+              [
+                { value: "open", label: "To Review" },
+                { value: "issued", label: "Issued" },
+              ] as const
+            ).map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  filter === value
+                    ? "border-blue-500 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {success}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading credit memos...</div>
+          ) : memos.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              {filter === "open" ? "No credit memos waiting for review." : "No credit memos issued yet."}
+            </div>
+          ) : (
+            memos.map((memo) => {
+              const editable = memo.status === "DRAFT";
+              const total = editable
+                ? creditMemoTotal(memo.lines.map((line) => draftLine(lineDrafts[line.id], line)))
+                : memo.creditMemoAmount;
+
+              return (
+                <div key={memo.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="px-4 py-3 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <Link
+                        href={`/admin/stops/${memo.stop.id}`}
+                        className="font-medium text-primary-blue hover:text-blue-700"
+                      >
+                        {memo.stop.customer.name}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        Route {memo.stop.route.routeNumber || "N/A"} &middot;{" "}
+                        {formatRouteDate(memo.stop.route.date)}
+                        {memo.stop.quickbooksInvoiceNum &&
+                          ` · Invoice ${memo.stop.quickbooksInvoiceNum}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-semibold text-purple-900">${total.toFixed(2)}</span>
+                      <StatusBadge status={memo.status} variant={STATUS_VARIANTS[memo.status]} />
+                    </div>
+                  </div>
+
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        {["Item", "Qty", "Unit Price", "Amount"].map((heading) => (
+                          <th
+                            key={heading}
+                            className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {memo.lines.map((line) => {
+                        const draft = lineDrafts[line.id];
+                        const current = editable ? draftLine(draft, line) : line;
+                        return (
+                          <tr key={line.id}>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {line.description}
+                              {line.return && (
+                                <div className="text-xs text-gray-500">
+                                  {line.return.reasonCode}
+                                  {line.return.receivedCondition &&
+                                    ` · ${line.return.receivedCondition.toLowerCase()}`}
+                                  {line.return.quantity !== line.quantity &&
+                                    ` · driver logged ${line.return.quantity}`}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              {editable ? (
+                                <input
+                                  type="number"
+                                  min={1}
+                                  aria-label={`Quantity for ${line.description}`}
+                                  value={draft?.quantity ?? ""}
+                                  onChange={(e) =>
+                                    setLineDrafts({
+                                      ...lineDrafts,
+                                      [line.id]: { ...draft, quantity: e.target.value },
+                                    })
+                                  }
+                                  className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                                />
+                              ) : (
+                                line.quantity
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              {editable ? (
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step="0.01"
+                                  placeholder="Enter price"
+                                  aria-label={`Unit price for ${line.description}`}
+                                  value={draft?.unitPrice ?? ""}
+                                  onChange={(e) =>
+                                    setLineDrafts({
+                                      ...lineDrafts,
+                                      [line.id]: { ...draft, unitPrice: e.target.value },
+                                    })
+                                  }
+                                  className={`w-28 border rounded-md px-2 py-1 text-sm ${
+                                    draft?.unitPrice === "" ? "border-orange-400 bg-orange-50" : "border-gray-300"
+                                  }`}
+                                />
+                              ) : line.unitPrice !== null ? (
+                                `$${line.unitPrice.toFixed(2)}`
+                              ) : (
+                                "—"
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              ${creditMemoLineAmount(current).toFixed(2)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  <div className="px-4 py-3 border-t border-gray-200 flex flex-wrap items-center justify-end gap-2">
+                    {memo.status === "DRAFT" && (
+                      <>
+                        <button
+                          onClick={() => discard(memo)}
+                          disabled={busy !== null}
+                          className="px-3 py-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Discard
+                        </button>
+                        <button
+                          onClick={() => saveLines(memo)}
+                          disabled={busy !== null || !isEdited(memo)}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => approve(memo)}
+                          disabled={busy !== null || isEdited(memo)}
+                          title={isEdited(memo) ? "Save your changes first" : undefined}
+                          className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {busy === memo.id ? "Saving..." : "Approve"}
+                        </button>
+                      </>
+                    )}
+
+                    {memo.status === "APPROVED" && (
+                      <>
+                        <span className="text-xs text-gray-500 mr-auto">
+                          Approved
+                          {memo.approvedBy && ` by ${memo.approvedBy.fullName || memo.approvedBy.username}`}
+                        </span>
+                        <button
+                          onClick={() => discard(memo)}
+                          disabled={busy !== null}
+                          className="px-3 py-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Discard
+                        </button>
+                        <input
+                          type="text"
+                          placeholder="Credit memo #"
+                          value={memoNumbers[memo.id] || ""}
+                          onChange={(e) => setMemoNumbers({ ...memoNumbers, [memo.id]: e.target.value })}
+                          className="w-36 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        />
+                        <input
+                          type="file"
+                          accept="application/pdf,image/jpeg,image/png"
+                          aria-label="Credit memo document"
+                          onChange={(e) =>
+                            setMemoFiles({ ...memoFiles, [memo.id]: e.target.files?.[0] || null })
+                          }
+                          className="text-sm text-gray-700 max-w-[14rem]"
+                        />
+                        <button
+                          onClick={() => issue(memo)}
+                          disabled={busy !== null || !memoNumbers[memo.id]?.trim() || !memoFiles[memo.id]}
+                          className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {busy === memo.id ? "Issuing..." : "Issue"}
+                        </button>
+                      </>
+                    )}
+
+                    {memo.status === "ISSUED" && (
+                      <span className="text-sm text-gray-700">
+                        Credit Memo #{memo.creditMemoNumber}
+                        {memo.document && (
+                          <a
+                            href={memo.document.filePath}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-3 text-primary-blue hover:text-blue-700"
+                          >
+                            View document
+                          </a>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import { RETURN_CONDITION_LABELS } from "@/utils/returnReceiving";
+
+type Filter = "pending" | "received" | "all";
+type Condition = keyof typeof RETURN_CONDITION_LABELS;
+
+interface ReturnedItem {
+  id: string;
+  orderItemIdentifier: string;
+  productDescription: string | null;
+  quantity: number;
+  reasonCode: string;
+  warehouseLocation: string | null;
+  photoUrls: string[];
+  createdAt: string;
+  receivedQty: number | null;
+  receivedCondition: Condition | null;
+  receivingNotes: string | null;
+  receivedAt: string | null;
+  product: { id: string; name: string; sku: string; unit: string | null } | null;
+  receivedBy: { username: string; fullName: string | null } | null;
+  stop: {
+    id: string;
+    customerNameFromUpload: string | null;
+    driverNameFromUpload: string | null;
+    customer: { name: string };
+    route: { id: string; routeNumber: string | null; date: string };
+  };
+}
+
+interface Receipt {
+  receivedQty: string;
+  receivedCondition: Condition;
+  warehouseLocation: string;
+  receivingNotes: string;
+}
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: "pending", label: "Waiting" },
+  { value: "received", label: "Received" },
+  { value: "all", label: "All" },
+];
+
+const formatRouteDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    timeZone: "America/Los_Angeles",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+// Unreceived items start at what the driver logged
+const receiptFor = (item: ReturnedItem): Receipt => ({
+  receivedQty: String(item.receivedQty ?? item.quantity),
+  receivedCondition: item.receivedCondition ?? "GOOD",
+  warehouseLocation: item.warehouseLocation || "",
+  receivingNotes: item.receivingNotes || "",
+});
+
+const itemName = (item: ReturnedItem) =>
+  item.product?.name || item.productDescription || item.orderItemIdentifier;
+
+export default function ReturnReceivingPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [filter, setFilter] = useState<Filter>("pending");
+  const [items, setItems] = useState<ReturnedItem[]>([]);
+  const [receipts, setReceipts] = useState<Record<string, Receipt>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [saving, setSaving] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchReturns();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated, filter]);
+
+  const fetchReturns = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/returns?status=${filter}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch returns");
+      }
+
+      const data = await response.json();
+      setItems(data.returns);
+      setReceipts(
+        Object.fromEntries(data.returns.map((item: ReturnedItem) => [item.id, receiptFor(item)]))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateReceipt = (id: string, changes: Partial<Receipt>) => {
+    setReceipts({ ...receipts, [id]: { ...receipts[id], ...changes } });
+  };
+
+  const receive = async (item: ReturnedItem) => {
+    const receipt = receipts[item.id];
+    if (!token || !receipt) return;
+
+    setSaving(item.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`/api/admin/returns/${item.id}/receive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          receivedQty: parseInt(receipt.receivedQty, 10),
+          receivedCondition: receipt.receivedCondition,
+          warehouseLocation: receipt.warehouseLocation,
+          receivingNotes: receipt.receivingNotes,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to receive the return");
+      }
+
+      setSuccess(
+        `Received ${data.return.receivedQty} of ${itemName(item)}` +
+          (data.creditMemo
+            ? ` - drafted a $${data.creditMemo.creditMemoAmount.toFixed(2)} credit memo for ${item.stop.customer.name}`
+            : "")
+      );
+      await fetchReturns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const isDiscrepancy = (item: ReturnedItem) => {
+    const counted = parseInt(receipts[item.id]?.receivedQty ?? "", 10);
+    return !isNaN(counted) && counted !== item.quantity;
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading returns..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Return Receiving</h1>
+        <div className="flex gap-4">
+          <Link
+            href="/admin/returns/reasons"
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            Return Reasons
+          </Link>
+          <button
+            onClick={() => router.back()}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            &larr; Back
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Returned Items</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            Count each item the drivers brought back, record its condition and where it
+            was put away. Counts that don&apos;t match what the driver logged are highlighted.
+          </p>
+        </div>
+
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8 px-6">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  filter === value
+                    ? "border-blue-500 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-4">
+              {success}
+            </div>
+          )}
+
+          <EnhancedTable
+            data={items}
+            keyField="id"
+            isLoading={loading}
+            emptyState={
+              <div className="text-center py-8 text-gray-500">
+                {filter === "pending" ? "No returns are waiting to be received." : "No returns found."}
+              </div>
+            }
+            columns={[
+              {
+                header: "Item",
+                accessor: (item) => (
+                  <div>
+                    <div className="font-medium">{itemName(item)}</div>
+                    <div className="text-xs text-gray-500">
+                      {item.product?.sku || item.orderItemIdentifier}
+                    </div>
+                    {item.photoUrls.length > 0 && (
+                      <div className="flex gap-2 mt-1">
+                        {item.photoUrls.map((url, index) => (
+                          <a
+                            key={url}
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-primary-blue hover:text-blue-700"
+                          >
+                            Photo {index + 1}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ),
+              },
+              {
+                header: "Customer / Route",
+                accessor: (item) => (
+                  <div>
+                    <Link
+                      href={`/admin/stops/${item.stop.id}`}
+                      className="text-primary-blue hover:text-blue-700"
+                    >
+                      {item.stop.customer.name}
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      {item.stop.route.routeNumber || "N/A"} &middot;{" "}
+                      {formatRouteDate(item.stop.route.date)}
+                      {item.stop.driverNameFromUpload && ` · ${item.stop.driverNameFromUpload}`}
+                    </div>
+                  </div>
+                ),
+              },
+              {
+                header: "Driver Logged",
+                accessor: (item) => (
+                  <div>
+                    <div>{item.quantity}</div>
+                    <div className="text-xs text-gray-500">{item.reasonCode}</div>
+                  </div>
+                ),
+              },
+              {
+                header: "Received",
+                accessor: (item) => {
+                  const receipt = receipts[item.id];
+                  if (!receipt) return null;
+                  return (
+                    <div className="space-y-2 min-w-[16rem]">
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          min={0}
+                          aria-label="Received quantity"
+                          value={receipt.receivedQty}
+                          onChange={(e) => updateReceipt(item.id, { receivedQty: e.target.value })}
+                          className={`w-20 border rounded-md px-2 py-1 text-sm ${
+                            isDiscrepancy(item) ? "border-orange-400 bg-orange-50" : "border-gray-300"
+                          }`}
+                        />
+                        <select
+                          aria-label="Condition"
+                          value={receipt.receivedCondition}
+                          onChange={(e) =>
+                            updateReceipt(item.id, { receivedCondition: e.target.value as Condition })
+                          }
+                          className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                          {Object.entries(RETURN_CONDITION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {isDiscrepancy(item) && (
+                        <div className="text-xs font-medium text-orange-700">
+                          Driver logged {item.quantity}
+                        </div>
+                      )}
+                      <input
+                        type="text"
+                        placeholder="Warehouse location"
+                        value={receipt.warehouseLocation}
+                        onChange={(e) => updateReceipt(item.id, { warehouseLocation: e.target.value })}
+                        className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      />
+                      <input
+                        type="text"
+                        placeholder="Notes (optional)"
+                        value={receipt.receivingNotes}
+                        onChange={(e) => updateReceipt(item.id, { receivingNotes: e.target.value })}
+                        className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      />
+                    </div>
+                  );
+                },
+              },
+              {
+                header: "",
+                accessor: (item) => (
+                  <div className="flex flex-col items-end gap-1">
+                    <button
+                      onClick={() => receive(item)}
+                      disabled={saving !== null || receipts[item.id]?.receivedQty === ""}
+                      className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving === item.id ? "Saving..." : item.receivedAt ? "Update" : "Confirm"}
+                    </button>
+                    {item.receivedAt && (
+                      <div className="text-xs text-gray-500 text-right">
+                        Received {new Date(item.receivedAt).toLocaleDateString()}
+                        {item.receivedBy &&
+                          ` by ${item.receivedBy.fullName || item.receivedBy.username}`}
+                      </div>
+                    )}
+                  </div>
+                ),
+                align: "right",
+              },
+            ]}
+            striped
+            stickyHeader
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
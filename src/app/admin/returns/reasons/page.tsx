@@ -0,0 +1,345 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import TableActions from "@/components/ui/TableActions";
+import StatusBadge from "@/components/ui/StatusBadge";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+
+interface ReturnReason {
+  id: string;
+  code: string;
+  label: string;
+  description: string | null;
+  requiresPhoto: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  returnCount: number;
+}
+
+interface ReasonForm {
+  code: string;
+  label: string;
+  description: string;
+  requiresPhoto: boolean;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: ReasonForm = {
+  code: "",
+  label: "",
+  description: "",
+  requiresPhoto: false,
+  sortOrder: "0",
+};
+
+export default function ReturnReasonsPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [reasons, setReasons] = useState<ReturnReason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // undefined = closed, null = adding a new reason
+  const [editing, setEditing] = useState<ReturnReason | null | undefined>(undefined);
+  const [form, setForm] = useState<ReasonForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState("");
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchReasons();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated]);
+
+  const fetchReasons = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/return-reasons", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch return reasons");
+      }
+
+      const data = await response.json();
+      setReasons(data.reasons);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (reason: ReturnReason | null) => {
+    setForm(
+      reason
+        ? {
+            code: reason.code,
+            label: reason.label,
+            description: reason.description || "",
+            requiresPhoto: reason.requiresPhoto,
+            sortOrder: String(reason.sortOrder),
+          }
+        : EMPTY_FORM
+    );
+    setFormError("");
+    setEditing(reason);
+  };
+
+  const saveReason = async (reason: ReturnReason | null, body: Record<string, unknown>) => {
+    const response = await fetch(
+      reason ? `/api/admin/return-reasons/${reason.id}` : "/api/admin/return-reasons",
+      {
+        method: reason ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || "Failed to save return reason");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || editing === undefined) return;
+
+    setSaving(true);
+    setFormError("");
+
+    try {
+      await saveReason(editing, {
+        ...(editing ? {} : { code: form.code }),
+        label: form.label,
+        description: form.description,
+        requiresPhoto: form.requiresPhoto,
+        sortOrder: parseInt(form.sortOrder, 10) || 0,
+      });
+      setEditing(undefined);
+      await fetchReasons();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (reason: ReturnReason) => {
+    if (!token) return;
+
+    setError("");
+    try {
+      await saveReason(reason, { isActive: !reason.isActive });
+      await fetchReasons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading return reasons..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Return Reasons</h1>
+        <div className="flex gap-4">
+          <button
+            onClick={() => openForm(null)}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            New Reason
+          </button>
+          <button
+            onClick={() => router.back()}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            &larr; Back
+          </button>
+        </div>
+      </div>
+
+      {editing !== undefined && (
+        <div className="bg-white rounded-xl shadow-card overflow-hidden">
+          <div className="px-6 py-4 border-b border-mono-200">
+            <h2 className="text-lg font-medium text-mono-800">
+              {editing ? `Edit ${editing.label}` : "New Reason"}
+            </h2>
+          </div>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  disabled={!!editing}
+                  placeholder="e.g. DAMAGED"
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                <input
+                  type="text"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="Shown to drivers"
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={form.sortOrder}
+                  onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+                placeholder="When drivers should use this reason"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.requiresPhoto}
+                onChange={(e) => setForm({ ...form, requiresPhoto: e.target.checked })}
+              />
+              Drivers must attach a photo
+            </label>
+
+            {formError && <div className="text-sm text-red-600">{formError}</div>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setEditing(undefined)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Reasons</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            The reasons a driver can pick for each returned item.
+            Deactivated reasons stay on the returns that used them.
+          </p>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          <EnhancedTable
+            data={reasons}
+            keyField="id"
+            isLoading={loading}
+            emptyState={
+              <div className="text-center py-8 text-gray-500">No return reasons yet.</div>
+            }
+            columns={[
+              {
+                header: "Reason",
+                accessor: (reason) => (
+                  <div>
+                    <div className="font-medium">{reason.label}</div>
+                    <div className="text-xs text-gray-500">{reason.code}</div>
+                    {reason.description && (
+                      <div className="text-xs text-gray-500 mt-1">{reason.description}</div>
+                    )}
+                  </div>
+                ),
+              },
+              {
+                header: "Photo",
+                accessor: (reason) => (reason.requiresPhoto ? "Required" : "Optional"),
+              },
+              {
+                header: "Returns",
+                accessor: (reason) => reason.returnCount,
+              },
+              {
+                header: "Status",
+                accessor: (reason) => (
+                  <StatusBadge
+                    status={reason.isActive ? "ACTIVE" : "INACTIVE"}
+                    variant={reason.isActive ? undefined : "default"}
+                  />
+                ),
+              },
+              {
+                header: "Actions",
+                accessor: (reason) => (
+                  <TableActions
+                    actions={[
+                      {
+                        label: "Edit",
+                        onClick: () => openForm(reason),
+                      },
+                      {
+                        label: reason.isActive ? "Deactivate" : "Activate",
+                        onClick: () => toggleActive(reason),
+                        variant: reason.isActive ? ("danger" as const) : ("primary" as const),
+                      },
+                    ]}
+                  />
+                ),
+                align: "right",
+              },
+            ]}
+            striped
+            stickyHeader
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, use } from "react";
+import React, { useState, useEffect, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useSocket } from "@/contexts/SocketContext";
@@ -28,6 +28,11 @@ import { useRouteDetails } from "@/hooks/useRouteDetails";
 import RouteSummary from "@/components/admin/routes/RouteSummary";
 import AddStopModal from "@/components/admin/routes/AddStopModal";
 import DeleteRouteDialog from "@/components/admin/routes/DeleteRouteDialog";
+import DuplicateRouteModal from "@/components/admin/routes/DuplicateRouteModal";
+import ReceivingWindowFlag from "@/components/admin/routes/ReceivingWindowFlag";
+import StopEtaLabel from "@/components/admin/routes/StopEtaLabel";
+import type { RouteEtaProjection, StopEta } from "@/lib/stopEtas";
+import { SocketEvents } from "@/lib/socketClient";
 import SearchableSelect from "@/components/ui/SearchableSelect";
 
 import { exportRoute, generateImageReport, generateImagePDF, deleteRoute } from "@/services/routeOperations";
@@ -121,6 +126,7 @@ export default function RouteDetailPage({
 
   const [groupByDriver, setGroupByDriver] = useState(true); // State to toggle grouping by driver
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showDuplicateModal, setShowDuplicateModal] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [deleteError, setDeleteError] = useState("");
   const [deleteWarning, setDeleteWarning] = useState<{
@@ -184,6 +190,12 @@ export default function RouteDetailPage({
   const [tempPaymentTermsOther, setTempPaymentTermsOther] = useState<string>("");
   const [savingPaymentTerms, setSavingPaymentTerms] = useState(false);
 
+  // Projected arrivals (with receiving-window verdicts) for remaining stops, by stop id
+  const [stopEtas, setStopEtas] = useState<Record<string, StopEta>>({});
+  const [flaggedWindowCount, setFlaggedWindowCount] = useState(0);
+  const [etaRefreshKey, setEtaRefreshKey] = useState(0);
+  const lastEtaRefreshRef = useRef(0);
+
   const router = useRouter();
 
   // Drag and Drop Sensors
@@ -196,7 +208,7 @@ export default function RouteDetailPage({
   );
 
   // Initialize socket connection
-  const { isConnected, joinRoom, error: socketError, reconnect } = useSocket();
+  const { isConnected, joinRoom, subscribe, error: socketError, reconnect } = useSocket();
 
   // Use the fetchRouteDetails from the hook
 
@@ -279,6 +291,63 @@ export default function RouteDetailPage({
     }
   };
 
+  // Re-project ETAs whenever the stop order or statuses change
+  const stopSignature = route?.stops
+    ?.map((stop: Stop) => `${stop.id}:${stop.sequence}:${stop.status}`)
+    .join(",");
+
+  useEffect(() => {
+    if (!token || !stopSignature) return;
+
+    const fetchStopEtas = async () => {
+      lastEtaRefreshRef.current = Date.now();
+      try {
+        const response = await fetch(`/api/admin/routes/${routeId}/etas`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch stop ETAs");
+        }
+
+        const data: RouteEtaProjection = await response.json();
+        const etaMap: Record<string, StopEta> = {};
+        data.stops.forEach((eta) => {
+          etaMap[eta.stopId] = eta;
+        });
+        setStopEtas(etaMap);
+        setFlaggedWindowCount(data.flagged);
+      } catch (error) {
+        console.error("Error fetching stop ETAs:", error);
+      }
+    };
+
+    fetchStopEtas();
+  }, [token, routeId, stopSignature, etaRefreshKey]);
+
+  // ETAs also move with the clock and with drivers' positions
+  useEffect(() => {
+    const interval = setInterval(() => setEtaRefreshKey((key) => key + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const unsubscribe = subscribe(SocketEvents.DRIVER_LOCATION_UPDATED, () => {
+      // Location updates arrive often; re-project at most every 15 seconds
+      if (Date.now() - lastEtaRefreshRef.current >= 15000) {
+        setEtaRefreshKey((key) => key + 1);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [isConnected, subscribe]);
+
   // Use optimized route details hook for real-time updates
   const { route: optimizedRoute } = useOptimizedRouteDetails(routeId, route);
 
@@ -1005,6 +1074,7 @@ export default function RouteDetailPage({
                 </span>
               )}
             </div>
+            <ReceivingWindowFlag check={stopEtas[stop.id]} />
           </div>
         </td>
         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -1052,6 +1122,7 @@ export default function RouteDetailPage({
           >
             {stop.status.replace("_", " ")}
           </span>
+          <StopEtaLabel eta={stopEtas[stop.id]} />
         </td>
         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
           {editingPaymentTerms === stop.id ? (
@@ -1418,6 +1489,25 @@ export default function RouteDetailPage({
                   </svg>
                   Edit Route
                 </Link>
+                <button
+                  onClick={() => setShowDuplicateModal(true)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  <svg
+                    className="h-4 w-4 mr-2"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                    />
+                  </svg>
+                  Duplicate
+                </button>
                 <button
                   onClick={() => handleExportRoute('csv')}
                   disabled={exporting}
@@ -1629,6 +1719,19 @@ export default function RouteDetailPage({
           {/* Route Summary */}
           <RouteSummary route={route} getStopsGroupedByDriver={getStopsGroupedByDriver} />
 
+          {flaggedWindowCount > 0 && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-md">
+              <p className="text-sm text-red-700">
+                {flaggedWindowCount === 1
+                  ? "1 stop will probably be missed"
+                  : `${flaggedWindowCount} stops will probably be missed`}{" "}
+                — the projected arrival is after the customer stops receiving, or
+                they&apos;re closed that day. Consider moving these stops earlier in
+                the sequence.
+              </p>
+            </div>
+          )}
+
           {/* Stops List */}
           <div className="bg-white rounded-xl shadow-md overflow-hidden">
             <div className="px-6 py-4 bg-gray-900 text-white flex justify-between items-center">
@@ -1956,6 +2059,7 @@ export default function RouteDetailPage({
                                     </span>
                                   )}
                                 </div>
+                                <ReceivingWindowFlag check={stopEtas[stop.id]} />
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
@@ -2000,6 +2104,7 @@ export default function RouteDetailPage({
                               >
                                 {stop.status.replace("_", " ")}
                               </span>
+                              <StopEtaLabel eta={stopEtas[stop.id]} />
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="flex flex-col">
@@ -2177,6 +2282,17 @@ export default function RouteDetailPage({
         onHandleForceDelete={handleForceDelete}
       />
 
+      {/* Duplicate Route */}
+      <DuplicateRouteModal
+        show={showDuplicateModal}
+        route={route}
+        onClose={() => setShowDuplicateModal(false)}
+        onDuplicated={(newRouteId) => {
+          setShowDuplicateModal(false);
+          router.push(`/admin/routes/${newRouteId}`);
+        }}
+      />
+
       {/* Generate PDF Report - type selection prompt */}
       {showPdfReportPrompt && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100] p-4">
@@ -0,0 +1,476 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+  DndContext,
+  DragEndEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import { getPSTDateString } from "@/lib/timezone";
+import type { CalendarDriver, CalendarEntry } from "@/lib/routeCalendar";
+
+type View = "week" | "month";
+
+interface CalendarRow {
+  key: string;
+  label: string;
+  // Where entries dropped on this row go; undefined rows can't take drops
+  driverId?: string | null;
+}
+
+interface PendingMove {
+  entry: CalendarEntry;
+  toDate: string;
+  toDriverId?: string | null;
+  toLabel: string;
+  conflicts: string[];
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: "bg-yellow-50 border-yellow-300 text-yellow-900",
+  IN_PROGRESS: "bg-blue-50 border-blue-300 text-blue-900",
+  COMPLETED: "bg-green-50 border-green-300 text-green-900",
+  CANCELLED: "bg-red-50 border-red-300 text-red-900 line-through",
+};
+
+const UNASSIGNED_ROW = "unassigned";
+
+// Calendar arithmetic on YYYY-MM-DD strings, in UTC so DST can't shift a day
+const addDays = (date: string, days: number) => {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+};
+
+function visibleRange(anchor: string, view: View): { from: string; to: string } {
+  if (view === "week") {
+    // Weeks start on Monday
+    const weekday = new Date(`${anchor}T00:00:00.000Z`).getUTCDay();
+    const from = addDays(anchor, -((weekday + 6) % 7));
+    return { from, to: addDays(from, 6) };
+  }
+  const from = `${anchor.slice(0, 7)}-01`;
+  const nextMonth = new Date(`${from}T00:00:00.000Z`);
+  nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+  return { from, to: addDays(nextMonth.toISOString().slice(0, 10), -1) };
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00.000Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const entryKey = (entry: CalendarEntry) => `${entry.routeId}|${entry.driverName ?? ""}`;
+
+const rowKeyFor = (entry: CalendarEntry) =>
+  entry.driverId ?? (entry.driverName ? `name:${entry.driverName}` : UNASSIGNED_ROW);
+
+function EntryCard({ entry }: { entry: CalendarEntry }) {
+  const movable = entry.status === "PENDING";
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: entryKey(entry),
+    data: { entry },
+    disabled: !movable,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      className={`border rounded-md px-2 py-1 text-xs mb-1 ${
+        STATUS_COLORS[entry.status] || "bg-gray-50 border-gray-300"
+      } ${movable ? "cursor-grab" : "cursor-default"} ${
+        isDragging ? "opacity-75 shadow-lg relative z-10" : ""
+      }`}
+    >
+      <Link
+        href={`/admin/routes/${entry.routeId}`}
+        className="font-semibold hover:underline"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        Route {entry.routeNumber || "N/A"}
+      </Link>
+      <div>
+        {entry.completedStops}/{entry.stopCount} stops &middot; {formatAmount(entry.totalAmount)}
+      </div>
+    </div>
+  );
+}
+
+function DayCell({
+  row,
+  date,
+  entries,
+  isToday,
+}: {
+  row: CalendarRow;
+  date: string;
+  entries: CalendarEntry[];
+  isToday: boolean;
+}) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${row.key}|${date}`,
+    data: { row, date },
+    disabled: row.driverId === undefined,
+  });
+
+  return (
+    <td
+      ref={setNodeRef}
+      className={`align-top border border-gray-200 p-1 min-w-[8rem] h-16 ${
+        isOver ? "bg-blue-100" : isToday ? "bg-blue-50/40" : ""
+      }`}
+    >
+      {entries.map((entry) => (
+        <EntryCard key={entryKey(entry)} entry={entry} />
+      ))}
+    </td>
+  );
+}
+
+export default function RouteCalendarPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+  const router = useRouter();
+
+  const today = getPSTDateString();
+  const [view, setView] = useState<View>("week");
+  const [anchor, setAnchor] = useState(today);
+  const [days, setDays] = useState<string[]>([]);
+  const [drivers, setDrivers] = useState<CalendarDriver[]>([]);
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  );
+
+  const { from, to } = visibleRange(anchor, view);
+
+  const fetchCalendar = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/routes/calendar?from=${from}&to=${to}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch the route calendar");
+      }
+
+      const data = await response.json();
+      setDays(data.days);
+      setDrivers(data.drivers);
+      setEntries(data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [token, from, to]);
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchCalendar();
+    }
+  }, [token, isAuthenticated, fetchCalendar]);
+
+  const rows = useMemo<CalendarRow[]>(() => {
+    const result: CalendarRow[] = drivers.map((driver) => ({
+      key: driver.id,
+      label: driver.fullName || driver.username,
+      driverId: driver.id,
+    }));
+    // Driver names on stops that don't match an account
+    const unknownNames = new Set(
+      entries.filter((entry) => !entry.driverId && entry.driverName).map((entry) => entry.driverName as string)
+    );
+    unknownNames.forEach((name) =>
+      result.push({ key: `name:${name}`, label: `${name} (no account)` })
+    );
+    result.push({ key: UNASSIGNED_ROW, label: "Unassigned", driverId: null });
+    return result;
+  }, [drivers, entries]);
+
+  const cellEntries = useMemo(() => {
+    const cells = new Map<string, CalendarEntry[]>();
+    entries.forEach((entry) => {
+      const key = `${rowKeyFor(entry)}|${entry.date}`;
+      cells.set(key, [...(cells.get(key) || []), entry]);
+    });
+    return cells;
+  }, [entries]);
+
+  const requestMove = async (move: PendingMove, confirm: boolean) => {
+    const response = await fetch(`/api/admin/routes/${move.entry.routeId}/move`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        fromDriverName: move.entry.driverName,
+        toDate: move.toDate,
+        ...(move.toDriverId !== undefined ? { toDriverId: move.toDriverId } : {}),
+        confirm,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || "Failed to move the route");
+    }
+    return data;
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const entry = event.active.data.current?.entry as CalendarEntry | undefined;
+    const target = event.over?.data.current as { row: CalendarRow; date: string } | undefined;
+    if (!entry || !target || !token) return;
+
+    const driverChanged = target.row.key !== rowKeyFor(entry);
+    if (!driverChanged && target.date === entry.date) return;
+
+    const move: PendingMove = {
+      entry,
+      toDate: target.date,
+      toDriverId: driverChanged ? target.row.driverId : undefined,
+      toLabel: `${formatDay(target.date)}${driverChanged ? `, ${target.row.label}` : ""}`,
+      conflicts: [],
+    };
+
+    setError("");
+    try {
+      const preview = await requestMove(move, false);
+      setPendingMove({ ...move, conflicts: preview.conflicts });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove) return;
+
+    setSaving(true);
+    try {
+      await requestMove(pendingMove, true);
+      setPendingMove(null);
+      await fetchCalendar();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setPendingMove(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const step = (direction: number) => {
+    if (view === "week") {
+      setAnchor(addDays(anchor, direction * 7));
+    } else {
+      const month = new Date(`${anchor.slice(0, 7)}-01T00:00:00.000Z`);
+      month.setUTCMonth(month.getUTCMonth() + direction);
+      setAnchor(month.toISOString().slice(0, 10));
+    }
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading route calendar..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Route Calendar</h1>
+        <button
+          onClick={() => router.back()}
+          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+        >
+          &larr; Back
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => step(-1)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+            >
+              &larr;
+            </button>
+            <button
+              onClick={() => setAnchor(today)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => step(1)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+            >
+              &rarr;
+            </button>
+            <span className="ml-2 text-sm font-medium text-gray-700">
+              {formatDay(from)} &ndash; {formatDay(to)}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {(["week", "month"] as View[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  view === option ? "bg-gray-800 text-white" : "border border-gray-300 text-gray-700"
+                }`}
+              >
+                {option === "week" ? "Week" : "Month"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-mono-500 mb-4">
+            Drag a pending route to another day or driver. Dragging moves the whole
+            route to the new day, and only that driver&apos;s stops to the new driver.
+          </p>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : (
+            <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-sm">
+                  <thead>
+                    <tr>
+                      <th className="sticky left-0 bg-white border border-gray-200 px-2 py-1 text-left font-medium text-gray-600">
+                        Driver
+                      </th>
+                      {days.map((day) => (
+                        <th
+                          key={day}
+                          className={`border border-gray-200 px-2 py-1 text-left font-medium whitespace-nowrap ${
+                            day === today ? "text-primary-blue" : "text-gray-600"
+                          }`}
+                        >
+                          {formatDay(day)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.key}>
+                        <td className="sticky left-0 bg-white border border-gray-200 px-2 py-1 font-medium text-gray-800 whitespace-nowrap align-top">
+                          {row.label}
+                        </td>
+                        {days.map((day) => (
+                          <DayCell
+                            key={day}
+                            row={row}
+                            date={day}
+                            entries={cellEntries.get(`${row.key}|${day}`) || []}
+                            isToday={day === today}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </DndContext>
+          )}
+
+          <div className="flex flex-wrap gap-3 mt-4 text-xs">
+            {Object.entries(STATUS_COLORS).map(([status, classes]) => (
+              <span key={status} className={`border rounded-md px-2 py-1 ${classes}`}>
+                {status.replace("_", " ")}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {pendingMove && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Move route {pendingMove.entry.routeNumber || "N/A"}?
+            </h3>
+            <p className="text-sm text-gray-700">
+              {pendingMove.entry.driverName || "Unassigned"}&apos;s {pendingMove.entry.stopCount}{" "}
+              stop(s) on {formatDay(pendingMove.entry.date)} move to {pendingMove.toLabel}.
+            </p>
+            {pendingMove.conflicts.length > 0 ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <p className="text-sm font-medium text-yellow-800 mb-1">Conflicts</p>
+                <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1">
+                  {pendingMove.conflicts.map((conflict) => (
+                    <li key={conflict}>{conflict}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-sm text-green-700">No conflicts found.</p>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setPendingMove(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmMove}
+                disabled={saving}
+                className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50"
+              >
+                {saving ? "Saving..." : pendingMove.conflicts.length > 0 ? "Move Anyway" : "Move"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
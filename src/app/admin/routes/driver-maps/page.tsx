@@ -22,6 +22,7 @@ import {
   arrayMove,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import type { StopOrderProposal } from "@/lib/stopSequencing";
 
 interface Driver {
   id: string;
@@ -41,6 +42,7 @@ interface Stop {
   address: string | null;
   driverNameFromUpload: string | null;
   status: string;
+  sequenceLocked: boolean;
   customer: Customer;
 }
 
@@ -67,6 +69,8 @@ export default function DriverRouteMapsPage() {
   // Per-driver-group stop order, keyed by `${routeId}::${driverKey}`
   const [groupStops, setGroupStops] = useState<Record<string, Stop[]>>({});
   const [groupErrors, setGroupErrors] = useState<Record<string, string>>({});
+  const [proposals, setProposals] = useState<Record<string, StopOrderProposal>>({});
+  const [optimizing, setOptimizing] = useState<string | null>(null);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -197,26 +201,104 @@ export default function DriverRouteMapsPage() {
     setGroupStops((prev) => ({ ...prev, [groupKey]: reordered }));
     setGroupErrors((prev) => ({ ...prev, [groupKey]: "" }));
 
+    try {
+      await saveStopOrder(routeId, reordered.map((s) => s.id));
+      dismissProposal(groupKey);
+    } catch (err) {
+      // Revert on failure
+      setGroupStops((prev) => ({ ...prev, [groupKey]: previousStops }));
+      setGroupErrors((prev) => ({
+        ...prev,
+        [groupKey]: err instanceof Error ? err.message : "Failed to reorder stops",
+      }));
+    }
+  };
+
+  const saveStopOrder = async (routeId: string, stopIds: string[]) => {
+    const response = await fetch(
+      `/api/admin/routes/${routeId}/reorder-driver-stops`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ stopIds }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || "Failed to reorder stops");
+    }
+  };
+
+  const handleOptimize = async (routeId: string, driverKey: string) => {
+    const groupKey = `${routeId}::${driverKey}`;
+    const currentStops = groupStops[groupKey] || [];
+
+    setOptimizing(groupKey);
+    setGroupErrors((prev) => ({ ...prev, [groupKey]: "" }));
+
     try {
       const response = await fetch(
-        `/api/admin/routes/${routeId}/reorder-driver-stops`,
+        `/api/admin/routes/${routeId}/optimize-driver-stops`,
         {
-          method: "PATCH",
+          method: "POST",
           headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
           },
-          body: JSON.stringify({ stopIds: reordered.map((s) => s.id) }),
+          body: JSON.stringify({
+            stopIds: currentStops.map((s) => s.id),
+            driverId: drivers.find((d) => d.username === driverKey)?.id,
+          }),
         }
       );
 
+      const data = await response.json();
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to reorder stops");
+        throw new Error(data.message || "Failed to optimize stops");
       }
+
+      setProposals((prev) => ({ ...prev, [groupKey]: data }));
+    } catch (err) {
+      setGroupErrors((prev) => ({
+        ...prev,
+        [groupKey]: err instanceof Error ? err.message : "Failed to optimize stops",
+      }));
+    } finally {
+      setOptimizing(null);
+    }
+  };
+
+  const dismissProposal = (groupKey: string) => {
+    setProposals((prev) => {
+      const next = { ...prev };
+      delete next[groupKey];
+      return next;
+    });
+  };
+
+  const handleAcceptProposal = async (routeId: string, driverKey: string) => {
+    const groupKey = `${routeId}::${driverKey}`;
+    const proposal = proposals[groupKey];
+    const currentStops = groupStops[groupKey] || [];
+    if (!proposal) return;
+
+    setGroupErrors((prev) => ({ ...prev, [groupKey]: "" }));
+
+    try {
+      await saveStopOrder(routeId, proposal.stopIds);
+      const byId = new Map(currentStops.map((s) => [s.id, s]));
+      setGroupStops((prev) => ({
+        ...prev,
+        [groupKey]: proposal.stopIds
+          .map((stopId) => byId.get(stopId))
+          .filter((s): s is Stop => !!s),
+      }));
+      dismissProposal(groupKey);
     } catch (err) {
-      // Revert on failure
-      setGroupStops((prev) => ({ ...prev, [groupKey]: previousStops }));
       setGroupErrors((prev) => ({
         ...prev,
         [groupKey]: err instanceof Error ? err.message : "Failed to reorder stops",
@@ -224,6 +306,40 @@ export default function DriverRouteMapsPage() {
     }
   };
 
+  const handleToggleLock = async (groupKey: string, stop: Stop) => {
+    setGroupErrors((prev) => ({ ...prev, [groupKey]: "" }));
+
+    try {
+      const response = await fetch(`/api/admin/stops/${stop.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ sequenceLocked: !stop.sequenceLocked }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update stop");
+      }
+
+      setGroupStops((prev) => ({
+        ...prev,
+        [groupKey]: (prev[groupKey] || []).map((s) =>
+          s.id === stop.id ? { ...s, sequenceLocked: !stop.sequenceLocked } : s
+        ),
+      }));
+      // The lock changes what a proposal would be
+      dismissProposal(groupKey);
+    } catch (err) {
+      setGroupErrors((prev) => ({
+        ...prev,
+        [groupKey]: err instanceof Error ? err.message : "Failed to update stop",
+      }));
+    }
+  };
+
   if (authLoading) {
     return <AuthLoadingSpinner />;
   }
@@ -294,14 +410,31 @@ export default function DriverRouteMapsPage() {
                               ({stops.length} stop{stops.length !== 1 ? "s" : ""})
                             </span>
                           </h3>
-                          <button
-                            onClick={() => handleOpenMap(stops)}
-                            className="inline-flex items-center px-4 py-2 bg-black text-white text-sm font-medium rounded-md hover:bg-gray-800 transition-colors"
-                          >
-                            Open Full Route in Google Maps
-                          </button>
+                          <div className="flex flex-wrap gap-2">
+                            <button
+                              onClick={() => handleOptimize(route.id, driverKey)}
+                              disabled={optimizing === groupKey}
+                              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+                            >
+                              {optimizing === groupKey ? "Optimizing..." : "Optimize Order"}
+                            </button>
+                            <button
+                              onClick={() => handleOpenMap(stops)}
+                              className="inline-flex items-center px-4 py-2 bg-black text-white text-sm font-medium rounded-md hover:bg-gray-800 transition-colors"
+                            >
+                              Open Full Route in Google Maps
+                            </button>
+                          </div>
                         </div>
 
+                        {proposals[groupKey] && (
+                          <ProposalPanel
+                            proposal={proposals[groupKey]}
+                            onAccept={() => handleAcceptProposal(route.id, driverKey)}
+                            onDismiss={() => dismissProposal(groupKey)}
+                          />
+                        )}
+
                         <DndContext
                           sensors={sensors}
                           collisionDetection={closestCenter}
@@ -319,6 +452,7 @@ export default function DriverRouteMapsPage() {
                                   key={stop.id}
                                   stop={stop}
                                   position={index + 1}
+                                  onToggleLock={() => handleToggleLock(groupKey, stop)}
                                 />
                               ))}
                             </div>
@@ -343,12 +477,90 @@ export default function DriverRouteMapsPage() {
   );
 }
 
+const HELD_LABELS: Record<NonNullable<StopOrderProposal["stops"][number]["heldBecause"]>, string> = {
+  locked: "locked",
+  visited: "already visited",
+  unlocated: "no location",
+};
+
+function ProposalPanel({
+  proposal,
+  onAccept,
+  onDismiss,
+}: {
+  proposal: StopOrderProposal;
+  onAccept: () => void;
+  onDismiss: () => void;
+}) {
+  const unchanged = proposal.stops.every((s) => s.position === s.previousPosition);
+  const saved = proposal.beforeKm - proposal.afterKm;
+
+  return (
+    <div className="mb-4 rounded-md border border-blue-200 bg-blue-50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="text-sm text-gray-800">
+          <p className="font-medium">
+            {unchanged
+              ? "The current order is already the shortest found."
+              : `${proposal.beforeKm.toFixed(1)} km → ${proposal.afterKm.toFixed(1)} km (${saved.toFixed(1)} km shorter)`}
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            Straight-line distance from{" "}
+            {proposal.start
+              ? proposal.start.kind === "driver"
+                ? "the driver's last position"
+                : "the depot"
+              : "the first stop"}
+            .
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onDismiss}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Discard
+          </button>
+          {!unchanged && (
+            <button
+              onClick={onAccept}
+              className="px-3 py-1.5 bg-black text-white rounded-md text-sm font-medium hover:bg-gray-800"
+            >
+              Accept Order
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!unchanged && (
+        <ol className="mt-3 space-y-1 text-sm">
+          {proposal.stops.map((s) => (
+            <li key={s.id} className="flex gap-2">
+              <span className="w-6 text-right text-gray-500">{s.position}.</span>
+              <span className="flex-1 truncate text-gray-900">{s.customerName}</span>
+              <span className="text-xs text-gray-500">
+                {s.heldBecause
+                  ? HELD_LABELS[s.heldBecause]
+                  : s.previousPosition !== s.position
+                    ? `was ${s.previousPosition}`
+                    : ""}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 function SortableStopRow({
   stop,
   position,
+  onToggleLock,
 }: {
   stop: Stop;
   position: number;
+  onToggleLock: () => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
     useSortable({ id: stop.id });
@@ -387,6 +599,26 @@ function SortableStopRow({
           {stop.address || stop.customer?.address || "No address"}
         </div>
       </div>
+      <button
+        onClick={onToggleLock}
+        title={stop.sequenceLocked ? "Unlock position" : "Lock position when optimizing"}
+        className={`p-1 rounded hover:bg-gray-100 ${
+          stop.sequenceLocked ? "text-gray-900" : "text-gray-300"
+        }`}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d={
+              stop.sequenceLocked
+                ? "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                : "M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z"
+            }
+          />
+        </svg>
+      </button>
     </div>
   );
 }
@@ -211,6 +211,24 @@ export default function RoutesPage() {
             >
               Upload Route
             </Link>
+            <Link
+              href="/admin/routes/uploads"
+              className="text-primary-blue hover:text-blue-700 font-medium py-2 px-4 border border-primary-blue rounded-lg hover:bg-blue-50 transition duration-200 text-center"
+            >
+              Upload History
+            </Link>
+            <Link
+              href="/admin/routes/templates"
+              className="text-primary-blue hover:text-blue-700 font-medium py-2 px-4 border border-primary-blue rounded-lg hover:bg-blue-50 transition duration-200 text-center"
+            >
+              Templates
+            </Link>
+            <Link
+              href="/admin/routes/calendar"
+              className="text-primary-blue hover:text-blue-700 font-medium py-2 px-4 border border-primary-blue rounded-lg hover:bg-blue-50 transition duration-200 text-center"
+            >
+              Calendar
+            </Link>
             <button
               onClick={() => router.push("/admin")}
               className="flex items-center justify-center text-primary-blue hover:text-blue-700 transition duration-200 font-medium py-2 px-4 border border-primary-blue rounded-lg hover:bg-blue-50"
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import StatusBadge from "@/components/ui/StatusBadge";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+
+interface Driver {
+  id: string;
+  username: string;
+  fullName: string | null;
+}
+
+interface QueuedStop {
+  id: string;
+  status: string;
+  customerNameFromUpload: string | null;
+  quickbooksInvoiceNum: string | null;
+  failureNotes: string | null;
+  customer: { id: string; name: string; address: string };
+  failureReason: { code: string; label: string } | null;
+  route: { id: string; routeNumber: string | null; date: string; driver: Driver | null };
+}
+
+interface TargetRoute {
+  id: string;
+  routeNumber: string | null;
+  date: string;
+  driver: Driver | null;
+}
+
+const formatRouteDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    timeZone: "America/Los_Angeles",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const driverName = (driver: Driver | null) =>
+  driver ? driver.fullName || driver.username : "Unassigned";
+
+export default function RedeliveriesPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [stops, setStops] = useState<QueuedStop[]>([]);
+  const [routes, setRoutes] = useState<TargetRoute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  // Target route picked for each queued stop
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [scheduling, setScheduling] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchQueue();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated]);
+
+  const fetchQueue = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/redeliveries", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch the redelivery queue");
+      }
+
+      const data = await response.json();
+      setStops(data.stops);
+      setRoutes(data.routes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reschedule = async (stop: QueuedStop) => {
+    const routeId = targets[stop.id];
+    if (!token || !routeId) return;
+
+    setScheduling(stop.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`/api/admin/stops/${stop.id}/redeliver`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ routeId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to schedule the redelivery");
+      }
+
+      setSuccess(
+        `${stop.customer.name} rescheduled to route ${data.stop.route.routeNumber || "N/A"} on ${formatRouteDate(data.stop.route.date)}`
+      );
+      await fetchQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setScheduling(null);
+    }
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading redelivery queue..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Redeliveries</h1>
+        <button
+          onClick={() => router.back()}
+          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+        >
+          &larr; Back
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Waiting for Redelivery</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            Failed stops, and stops left undelivered on a past route. Rescheduling adds
+            the stop to the end of the chosen route with the same invoice and documents.
+          </p>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-4">
+              {success}
+            </div>
+          )}
+
+          <EnhancedTable
+            data={stops}
+            keyField="id"
+            isLoading={loading}
+            emptyState={
+              <div className="text-center py-8 text-gray-500">Nothing is waiting for redelivery.</div>
+            }
+            columns={[
+              {
+                header: "Customer",
+                accessor: (stop) => (
+                  <div>
+                    <Link
+                      href={`/admin/stops/${stop.id}`}
+                      className="font-medium text-primary-blue hover:text-blue-700"
+                    >
+                      {stop.customer.name}
+                    </Link>
+                    {stop.quickbooksInvoiceNum && (
+                      <div className="text-xs text-gray-500">
+                        Invoice {stop.quickbooksInvoiceNum}
+                      </div>
+                    )}
+                  </div>
+                ),
+              },
+              {
+                header: "Original Route",
+                accessor: (stop) => (
+                  <div>
+                    <div>
+                      {stop.route.routeNumber || "N/A"} &middot; {formatRouteDate(stop.route.date)}
+                    </div>
+                    <div className="text-xs text-gray-500">{driverName(stop.route.driver)}</div>
+                  </div>
+                ),
+              },
+              {
+                header: "Why",
+                accessor: (stop) => (
+                  <div>
+                    <StatusBadge status={stop.status} />
+                    <div className="text-xs text-gray-500 mt-1">
+                      {stop.status === "FAILED"
+                        ? stop.failureReason?.label || "No reason given"
+                        : "Not delivered"}
+                      {stop.failureNotes && ` · ${stop.failureNotes}`}
+                    </div>
+                  </div>
+                ),
+              },
+              {
+                header: "Reschedule To",
+                accessor: (stop) => (
+                  <div className="flex items-center justify-end gap-2">
+                    <select
+                      value={targets[stop.id] || ""}
+                      onChange={(e) => setTargets({ ...targets, [stop.id]: e.target.value })}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="">Select a route</option>
+                      {routes.map((route) => (
+                        <option key={route.id} value={route.id}>
+                          {formatRouteDate(route.date)} · {route.routeNumber || "N/A"} ·{" "}
+                          {driverName(route.driver)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => reschedule(stop)}
+                      disabled={!targets[stop.id] || scheduling !== null}
+                      className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {scheduling === stop.id ? "Scheduling..." : "Reschedule"}
+                    </button>
+                  </div>
+                ),
+                align: "right",
+              },
+            ]}
+            striped
+            stickyHeader
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import TableActions from "@/components/ui/TableActions";
+import StatusBadge from "@/components/ui/StatusBadge";
+import RouteTemplateForm, {
+  WEEKDAY_LABELS,
+  type RouteTemplateDetail,
+} from "@/components/admin/routes/RouteTemplateForm";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import type { RouteGenerationResult } from "@/lib/routeTemplates";
+
+interface RouteTemplateEntry extends RouteTemplateDetail {
+  _count: { routes: number };
+}
+
+// YYYY-MM-DD in the browser's time zone
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+export default function RouteTemplatesPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [templates, setTemplates] = useState<RouteTemplateEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // undefined = closed, null = creating a new template
+  const [editing, setEditing] = useState<RouteTemplateDetail | null | undefined>(undefined);
+  const [generating, setGenerating] = useState<RouteTemplateEntry | null>(null);
+  const [generateFrom, setGenerateFrom] = useState("");
+  const [generateTo, setGenerateTo] = useState("");
+  const [generateLoading, setGenerateLoading] = useState(false);
+  const [generateError, setGenerateError] = useState("");
+  const [generateResult, setGenerateResult] = useState<
+    (RouteGenerationResult & { message: string }) | null
+  >(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchTemplates();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated]);
+
+  const fetchTemplates = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/routes/templates", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch route templates");
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (template: RouteTemplateEntry) => {
+    if (!token) return;
+    if (!confirm(`Delete the template "${template.name}"? Routes already generated from it stay.`)) {
+      return;
+    }
+
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/routes/templates/${template.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to delete route template");
+      }
+
+      await fetchTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const openGenerate = (template: RouteTemplateEntry) => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const weekOut = new Date(tomorrow);
+    weekOut.setDate(weekOut.getDate() + 6);
+
+    setGenerateFrom(toDateInput(tomorrow));
+    setGenerateTo(toDateInput(weekOut));
+    setGenerateError("");
+    setGenerating(template);
+  };
+
+  const confirmGenerate = async () => {
+    if (!token || !generating) return;
+
+    setGenerateLoading(true);
+    setGenerateError("");
+
+    try {
+      const response = await fetch(`/api/admin/routes/templates/${generating.id}/generate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ from: generateFrom, to: generateTo }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to generate routes");
+      }
+
+      setGenerateResult(data);
+      setGenerating(null);
+      await fetchTemplates();
+    } catch (err) {
+      setGenerateError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setGenerateLoading(false);
+    }
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading route templates..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Route Templates</h1>
+        <div className="flex gap-4">
+          <button
+            onClick={() => setEditing(null)}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            New Template
+          </button>
+          <Link
+            href="/admin/routes/upload"
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            Upload Route
+          </Link>
+          <button
+            onClick={() => router.back()}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            &larr; Back
+          </button>
+        </div>
+      </div>
+
+      {generateResult && (
+        <div className="bg-primary-green/10 border border-primary-green/30 text-primary-green px-4 py-3 rounded-lg">
+          <div className="flex justify-between">
+            <p className="font-medium">{generateResult.message}</p>
+            <button onClick={() => setGenerateResult(null)} className="text-sm font-medium">
+              Dismiss
+            </button>
+          </div>
+          {generateResult.created.length > 0 && (
+            <p className="text-sm mt-1">
+              Created:{" "}
+              {generateResult.created.map((route, index) => (
+                <span key={route.routeId}>
+                  {index > 0 && ", "}
+                  <Link href={`/admin/routes/${route.routeId}`} className="underline">
+                    {route.date}
+                  </Link>
+                </span>
+              ))}
+            </p>
+          )}
+          {generateResult.skipped.length > 0 && (
+            <ul className="list-disc pl-5 mt-2 text-sm text-primary-orange">
+              {generateResult.skipped.map((skip) => (
+                <li key={skip.date}>
+                  {skip.date}: {skip.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <div className="bg-white rounded-xl shadow-card overflow-hidden">
+          <div className="px-6 py-4 border-b border-mono-200">
+            <h2 className="text-lg font-medium text-mono-800">
+              {editing ? `Edit ${editing.name}` : "New Template"}
+            </h2>
+          </div>
+          <div className="p-6">
+            <RouteTemplateForm
+              key={editing?.id ?? "new"}
+              template={editing}
+              token={token}
+              onSaved={() => {
+                setEditing(undefined);
+                fetchTemplates();
+              }}
+              onCancel={() => setEditing(undefined)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Templates</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            Standing weekly routes. Generate a date range to create the routes
+            ahead of time; a later upload for the same route number and day
+            merges into them and fills in the invoice numbers.
+          </p>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          <EnhancedTable
+            data={templates}
+            keyField="id"
+            isLoading={loading}
+            emptyState={
+              <div className="text-center py-8 text-gray-500">
+                No route templates yet.
+              </div>
+            }
+            columns={[
+              {
+                header: "Template",
+                accessor: (template) => (
+                  <div>
+                    <div className="font-medium">{template.name}</div>
+                    <div className="text-xs text-gray-500">Route {template.routeNumber}</div>
+                  </div>
+                ),
+              },
+              {
+                header: "Driver",
+                accessor: (template) =>
+                  template.driver ? (
+                    template.driver.fullName || template.driver.username
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  ),
+              },
+              {
+                header: "Runs On",
+                accessor: (template) =>
+                  template.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", "),
+              },
+              {
+                header: "Stops",
+                accessor: (template) => (
+                  <div>
+                    <div>{template.stops.length}</div>
+                    <div className="text-xs text-gray-500">
+                      {template._count.routes} route{template._count.routes === 1 ? "" : "s"} generated
+                    </div>
+                  </div>
+                ),
+              },
+              {
+                header: "Status",
+                accessor: (template) => (
+                  <StatusBadge
+                    status={template.isActive ? "ACTIVE" : "INACTIVE"}
+                    variant={template.isActive ? undefined : "default"}
+                  />
+                ),
+              },
+              {
+                header: "Actions",
+                accessor: (template) => (
+                  <TableActions
+                    actions={[
+                      ...(template.isActive
+                        ? [
+                            {
+                              label: "Generate",
+                              onClick: () => openGenerate(template),
+                              variant: "primary" as const,
+                            },
+                          ]
+                        : []),
+                      {
+                        label: "Edit",
+                        onClick: () => setEditing(template),
+                      },
+                      {
+                        label: "Delete",
+                        onClick: () => handleDelete(template),
+                        variant: "danger" as const,
+                      },
+                    ]}
+                  />
+                ),
+                align: "right",
+              },
+            ]}
+            striped
+            stickyHeader
+          />
+        </div>
+      </div>
+
+      {/* Generate Routes Dialog */}
+      {generating && (
+        <div className="fixed inset-0 bg-gray-600/50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900">Generate Routes</h3>
+            <p className="mt-2 text-sm text-gray-500">
+              Create route {generating.routeNumber} for every{" "}
+              {generating.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", ")} in the range.
+              Days that already have this route are skipped.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={generateFrom}
+                  onChange={(e) => setGenerateFrom(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={generateTo}
+                  onChange={(e) => setGenerateTo(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+            </div>
+
+            {generateError && (
+              <div className="mt-3 text-sm text-red-600">{generateError}</div>
+            )}
+
+            <div className="flex justify-end gap-3 mt-5">
+              <button
+                onClick={() => setGenerating(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmGenerate}
+                disabled={generateLoading || !generateFrom || !generateTo}
+                className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {generateLoading ? "Generating..." : "Generate"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,38 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
-import ColumnMappingModal from "@/components/ColumnMappingModal";
+import ColumnMappingModal, { MappingProfileSummary } from "@/components/ColumnMappingModal";
+import { ROUTE_FILE_EXTENSIONS } from "@/lib/routeFileFormats";
+import DetectedRoutesTable, {
+  DetectedRoutePreview,
+  RouteUploadAction,
+} from "@/components/admin/routes/DetectedRoutesTable";
+import RouteDiffView from "@/components/admin/routes/RouteDiffView";
+import DriverNameResolution from "@/components/admin/routes/DriverNameResolution";
+import CustomerMatchReview from "@/components/admin/routes/CustomerMatchReview";
+import type { RouteDiff } from "@/lib/routeDiff";
+import type { RouteParseIssue } from "@/lib/routeParser";
+import type { DriverNameResolution as ResolvedDriverName } from "@/lib/driverAliases";
+import type { CustomerMatch } from "@/lib/customerMatching";
+
+interface AppliedMappingProfile {
+  id: string | null;
+  name: string;
+  autoDetected: boolean;
+}
+
+interface UploadSource {
+  format: "xlsx" | "csv" | "json";
+  encoding?: string;
+  delimiter?: string;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "comma",
+  ";": "semicolon",
+  "\t": "tab",
+  "|": "pipe",
+};
 
 interface UploadResult {
   message: string;
@@ -12,24 +43,56 @@ interface UploadResult {
   // driverName removed as requested
   stopCount?: number;
   warnings?: string[];
+  issues?: RouteParseIssue[];
   rowsProcessed?: number;
   rowsSucceeded?: number;
   rowsFailed?: number;
   isUpdate?: boolean;
   unmatchedDriverNames?: string[];
+  // Matched stops left untouched because the driver had already worked them
+  protectedStopCount?: number;
+  routes?: {
+    key: string;
+    routeId: string;
+    routeNumber: string | null;
+    date: string;
+    stopCount: number;
+    isUpdate: boolean;
+  }[];
 }
 
 interface PreviewResult {
-  message: string;
+  message?: string;
   routeNumber?: string;
   date?: string;
   stopCount?: number;
   sampleStops?: any[];
   driverSummary?: Record<string, number>;
   warnings?: string[];
+  issues?: RouteParseIssue[];
   rowsProcessed?: number;
   rowsSucceeded?: number;
   rowsFailed?: number;
+  mappingProfile?: AppliedMappingProfile;
+  source?: UploadSource;
+  hasConflict?: boolean;
+  existingRoute?: DetectedRoutePreview["conflict"];
+  diff?: RouteDiff | null;
+  // How each driver name in the file maps to a driver account
+  driverNames?: ResolvedDriverName[];
+  // Existing customers each customer name links to, or needs review against
+  customerMatches?: CustomerMatch[];
+}
+
+interface ConflictCheckResult {
+  hasConflict: boolean;
+  existingRoute: DetectedRoutePreview["conflict"];
+  newRoute: Partial<PreviewResult>;
+  parseResult: Partial<PreviewResult>;
+  routes?: DetectedRoutePreview[];
+  diff?: RouteDiff | null;
+  driverNames?: ResolvedDriverName[];
+  customerMatches?: CustomerMatch[];
 }
 
 export default function RouteUploadPage() {
@@ -50,7 +113,116 @@ export default function RouteUploadPage() {
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [uploadAction, setUploadAction] = useState<'create' | 'update' | null>(null);
   const [downloadingTemplate, setDownloadingTemplate] = useState(false);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfileSummary[]>([]);
+  const [builtInProfile, setBuiltInProfile] = useState<MappingProfileSummary | null>(null);
+  // "" = auto-detect from the header row
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  // Routes found in the file; the table is shown when there's more than one
+  const [detectedRoutes, setDetectedRoutes] = useState<DetectedRoutePreview[]>([]);
+  const [selectedRouteKeys, setSelectedRouteKeys] = useState<string[]>([]);
+  const [routeActions, setRouteActions] = useState<Record<string, RouteUploadAction>>({});
+  // Leave stops the driver has already worked untouched on re-upload
+  const [protectDriverProgress, setProtectDriverProgress] = useState(true);
+  // Row-level problems from the last parse, for the annotated download
+  const [issueCount, setIssueCount] = useState(0);
+  const [downloadingAnnotated, setDownloadingAnnotated] = useState(false);
   const router = useRouter();
+  const isMultiRoute = detectedRoutes.length > 1;
+  const replaceBlocked =
+    protectDriverProgress && (preview?.diff?.summary.withProgress ?? 0) > 0;
+
+  const fetchMappingProfiles = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/admin/routes/mapping-profiles", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setMappingProfiles(data.profiles || []);
+      setBuiltInProfile(data.builtIn || null);
+    } catch (err) {
+      console.error("Failed to load column mapping profiles:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchMappingProfiles();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated]);
+
+  // Keep the selection valid when a profile is deleted
+  useEffect(() => {
+    if (
+      selectedProfileId &&
+      selectedProfileId !== builtInProfile?.id &&
+      !mappingProfiles.some((p) => p.id === selectedProfileId)
+    ) {
+      setSelectedProfileId("");
+    }
+  }, [mappingProfiles, builtInProfile, selectedProfileId]);
+
+  const buildFormData = (action?: string) => {
+    const formData = new FormData();
+    formData.append("file", file as File);
+    if (selectedProfileId) {
+      formData.append("profileId", selectedProfileId);
+    }
+    if (action) {
+      formData.append("action", action);
+    }
+    if (!protectDriverProgress) {
+      formData.append("protectDriverProgress", "false");
+    }
+    if (isMultiRoute) {
+      formData.append(
+        "routes",
+        JSON.stringify(
+          detectedRoutes
+            .filter((route) => selectedRouteKeys.includes(route.key))
+            .map((route) => ({
+              key: route.key,
+              // Routes without a conflict are simply created
+              action: route.conflict ? routeActions[route.key] || "update" : null,
+            }))
+        )
+      );
+    }
+    return formData;
+  };
+
+  const resetDetectedRoutes = () => {
+    setDetectedRoutes([]);
+    setSelectedRouteKeys([]);
+    setRouteActions({});
+  };
+
+  // Store the conflict-check response as the preview. Multi-route files
+  // resolve conflicts per route in the table instead of the dialog.
+  const applyConflictData = (conflictData: ConflictCheckResult) => {
+    const routes: DetectedRoutePreview[] = conflictData.routes || [];
+    setDetectedRoutes(routes);
+    setSelectedRouteKeys(routes.map((route) => route.key));
+    setRouteActions({});
+
+    setConflictDetected(conflictData.hasConflict && routes.length <= 1);
+    setExistingRoute(conflictData.existingRoute);
+    setPreview({
+      ...conflictData.newRoute,
+      ...conflictData.parseResult,
+      hasConflict: conflictData.hasConflict,
+      existingRoute: conflictData.existingRoute,
+      diff: conflictData.diff ?? null,
+      driverNames: conflictData.driverNames ?? [],
+      customerMatches: conflictData.customerMatches ?? [],
+    });
+    setIssueCount(conflictData.parseResult.issues?.length ?? 0);
+    setShowPreview(true);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -63,12 +235,14 @@ export default function RouteUploadPage() {
       setExistingRoute(null);
       setShowConfirmDialog(false);
       setUploadAction(null);
+      setIssueCount(0);
+      resetDetectedRoutes();
     }
   };
 
   const handlePreview = async () => {
     if (!file) {
-      setError("Please select an Excel file to preview");
+      setError("Please select a route file to preview");
       return;
     }
 
@@ -78,9 +252,9 @@ export default function RouteUploadPage() {
     }
 
     // Check file extension
-    const fileExtension = file.name.split(".").pop()?.toLowerCase();
-    if (fileExtension !== "xlsx" && fileExtension !== "xls") {
-      setError("Please upload a valid Excel file (.xlsx or .xls)");
+    const fileExtension = `.${file.name.split(".").pop()?.toLowerCase()}`;
+    if (!ROUTE_FILE_EXTENSIONS.includes(fileExtension)) {
+      setError("Please upload a valid route file (.xlsx, .xls, .csv or .json)");
       return;
     }
 
@@ -88,8 +262,7 @@ export default function RouteUploadPage() {
     setError("");
 
     try {
-      const formData = new FormData();
-      formData.append("file", file);
+      const formData = buildFormData();
 
       // Check for conflicts first
       const conflictResponse = await fetch("/api/admin/routes/check-conflict", {
@@ -103,6 +276,7 @@ export default function RouteUploadPage() {
       const conflictData = await conflictResponse.json();
 
       if (!conflictResponse.ok) {
+        setIssueCount(conflictData.issues?.length ?? 0);
         throw new Error(
           conflictData.message ||
             (conflictData.errors && conflictData.errors.length > 0
@@ -111,18 +285,8 @@ export default function RouteUploadPage() {
         );
       }
 
-      // Set conflict information
-      setConflictDetected(conflictData.hasConflict);
-      setExistingRoute(conflictData.existingRoute);
-
-      // Set preview data
-      setPreview({
-        ...conflictData.newRoute,
-        ...conflictData.parseResult,
-        hasConflict: conflictData.hasConflict,
-        existingRoute: conflictData.existingRoute,
-      });
-      setShowPreview(true);
+      // Set conflict information and preview data
+      applyConflictData(conflictData);
 
       // Don't automatically show the dialog - let user click "Resolve Conflict" button
     } catch (err: unknown) {
@@ -138,7 +302,7 @@ export default function RouteUploadPage() {
     if (e) e.preventDefault();
 
     if (!file) {
-      setError("Please select an Excel file to upload");
+      setError("Please select a route file to upload");
       return;
     }
 
@@ -148,20 +312,21 @@ export default function RouteUploadPage() {
     }
 
     // Check file extension
-    const fileExtension = file.name.split(".").pop()?.toLowerCase();
-    if (fileExtension !== "xlsx" && fileExtension !== "xls") {
-      setError("Please upload a valid Excel file (.xlsx or .xls)");
+    const fileExtension = `.${file.name.split(".").pop()?.toLowerCase()}`;
+    if (!ROUTE_FILE_EXTENSIONS.includes(fileExtension)) {
+      setError("Please upload a valid route file (.xlsx, .xls, .csv or .json)");
       return;
     }
 
-    // If no action is specified (direct upload), check for conflicts first
-    if (!action) {
+    // If no action is specified (direct upload), check for conflicts first.
+    // A previewed multi-route file already has its conflicts resolved per
+    // route in the table.
+    if (!action && !(isMultiRoute && showPreview)) {
       setLoading(true);
       setError("");
 
       try {
-        const formData = new FormData();
-        formData.append("file", file);
+        const formData = buildFormData();
 
         // Check for conflicts first
         const conflictResponse = await fetch("/api/admin/routes/check-conflict", {
@@ -175,6 +340,7 @@ export default function RouteUploadPage() {
         const conflictData = await conflictResponse.json();
 
         if (!conflictResponse.ok) {
+          setIssueCount(conflictData.issues?.length ?? 0);
           throw new Error(
             conflictData.message ||
               (conflictData.errors && conflictData.errors.length > 0
@@ -183,17 +349,17 @@ export default function RouteUploadPage() {
           );
         }
 
+        // Several routes in the file: show them so the admin can pick
+        // which to commit
+        if ((conflictData.routes || []).length > 1) {
+          applyConflictData(conflictData);
+          setLoading(false);
+          return;
+        }
+
         // If there's a conflict, show the dialog and stop here
         if (conflictData.hasConflict) {
-          setConflictDetected(true);
-          setExistingRoute(conflictData.existingRoute);
-          setPreview({
-            ...conflictData.newRoute,
-            ...conflictData.parseResult,
-            hasConflict: conflictData.hasConflict,
-            existingRoute: conflictData.existingRoute,
-          });
-          setShowPreview(true);
+          applyConflictData(conflictData);
           setShowConfirmDialog(true);
           setLoading(false);
           return;
@@ -209,16 +375,17 @@ export default function RouteUploadPage() {
       }
     }
 
+    if (isMultiRoute && selectedRouteKeys.length === 0) {
+      setError("Select at least one route to upload");
+      return;
+    }
+
     setLoading(true);
     setError("");
     setShowConfirmDialog(false);
 
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      if (action) {
-        formData.append("action", action);
-      }
+      const formData = buildFormData(action);
 
       const response = await fetch("/api/admin/routes/upload", {
         method: "POST",
@@ -229,6 +396,7 @@ export default function RouteUploadPage() {
       });
 
       const data = await response.json();
+      setIssueCount(data.issues?.length ?? 0);
 
       if (!response.ok) {
         throw new Error(
@@ -312,6 +480,57 @@ export default function RouteUploadPage() {
     }
   };
 
+  // Re-parse the selected file and download it with its problems marked
+  const handleDownloadAnnotated = async () => {
+    if (!file || !token) return;
+
+    setDownloadingAnnotated(true);
+
+    try {
+      const response = await fetch("/api/admin/routes/annotated", {
+        method: "POST",
+        body: buildFormData(),
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to build the annotated file");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${file.name.replace(/\.[^.]+$/, "")}-issues.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to build the annotated file";
+      setError(errorMessage);
+    } finally {
+      setDownloadingAnnotated(false);
+    }
+  };
+
+  const annotatedDownloadButton = issueCount > 0 && file && (
+    <button
+      type="button"
+      onClick={handleDownloadAnnotated}
+      disabled={downloadingAnnotated}
+      className="mt-2 text-sm font-medium underline hover:no-underline disabled:opacity-50"
+    >
+      {downloadingAnnotated
+        ? "Preparing file..."
+        : `Download annotated file (${issueCount} issue${issueCount === 1 ? "" : "s"} marked)`}
+    </button>
+  );
+
   // Show loading spinner while checking authentication
   if (authLoading) {
     return <AuthLoadingSpinner message="Loading upload page..." />;
@@ -336,19 +555,31 @@ export default function RouteUploadPage() {
 
       <div className="bg-white rounded-xl shadow-card overflow-hidden">
         <div className="px-6 py-4 border-b border-mono-200 flex justify-between items-center">
-          <h2 className="text-lg font-medium text-mono-800">Excel Upload</h2>
-          <button
-            onClick={() => setIsModalOpen(true)}
-            className="text-primary-blue hover:text-blue-700 text-sm font-medium"
-          >
-            View Column Mapping
-          </button>
+          <h2 className="text-lg font-medium text-mono-800">Route File Upload</h2>
+          <div className="flex gap-4">
+            <button
+              onClick={() => router.push("/admin/routes/uploads")}
+              className="text-primary-blue hover:text-blue-700 text-sm font-medium"
+            >
+              Upload History
+            </button>
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="text-primary-blue hover:text-blue-700 text-sm font-medium"
+            >
+              View Column Mapping
+            </button>
+          </div>
         </div>
 
         {/* Column Mapping Modal */}
         <ColumnMappingModal
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
+          token={token}
+          builtIn={builtInProfile}
+          profiles={mappingProfiles}
+          onProfilesChanged={fetchMappingProfiles}
         />
         <div className="p-6">
           {success ? (
@@ -370,21 +601,49 @@ export default function RouteUploadPage() {
                     />
                   </svg>
                   <p className="font-medium">
-                    {result?.isUpdate
+                    {result?.routes && result.routes.length > 1
+                      ? `${result.routes.length} routes saved successfully!`
+                      : result?.isUpdate
                       ? "Route updated successfully!"
                       : "Route uploaded successfully!"}
                   </p>
                 </div>
-                <div className="ml-7">
-                  <p className="text-sm">
-                    <span className="font-medium">Route Number:</span>{" "}
-                    {result?.routeNumber || "N/A"}
-                    <br />
-                    {/* Driver line removed as requested */}
-                    <span className="font-medium">Stops:</span>{" "}
-                    {result?.stopCount || 0}
+                {result?.routes && result.routes.length > 1 ? (
+                  <ul className="ml-7 text-sm space-y-1">
+                    {result.routes.map((route) => (
+                      <li key={route.key}>
+                        <a
+                          href={`/admin/routes/${route.routeId}`}
+                          className="font-medium underline"
+                        >
+                          Route {route.routeNumber || "N/A"}
+                        </a>{" "}
+                        — {new Date(route.date).toLocaleDateString()},{" "}
+                        {route.stopCount} stops
+                        {route.isUpdate ? " (updated)" : " (new)"}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="ml-7">
+                    <p className="text-sm">
+                      <span className="font-medium">Route Number:</span>{" "}
+                      {result?.routeNumber || "N/A"}
+                      <br />
+                      {/* Driver line removed as requested */}
+                      <span className="font-medium">Stops:</span>{" "}
+                      {result?.stopCount || 0}
+                    </p>
+                  </div>
+                )}
+                {!!result?.protectedStopCount && (
+                  <p className="ml-7 mt-1 text-sm">
+                    {result.protectedStopCount} stop
+                    {result.protectedStopCount === 1 ? " was" : "s were"} left
+                    unchanged because the driver had already worked{" "}
+                    {result.protectedStopCount === 1 ? "it" : "them"}.
                   </p>
-                </div>
+                )}
               </div>
 
               {result?.warnings && result.warnings.length > 0 && (
@@ -411,6 +670,7 @@ export default function RouteUploadPage() {
                       <li key={index}>{warning}</li>
                     ))}
                   </ul>
+                  <div className="pl-7">{annotatedDownloadButton}</div>
                 </div>
               )}
 
@@ -506,14 +766,19 @@ export default function RouteUploadPage() {
                       d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
                     />
                   </svg>
-                  <span>{error}</span>
+                  <div>
+                    <span>{error}</span>
+                    {annotatedDownloadButton && (
+                      <div>{annotatedDownloadButton}</div>
+                    )}
+                  </div>
                 </div>
               )}
 
               <div className="mb-6">
                 <div className="flex justify-between items-center mb-2">
                   <label className="block text-mono-800 text-sm font-medium">
-                    Upload Excel File
+                    Upload Route File
                   </label>
                   <button
                     type="button"
@@ -541,7 +806,7 @@ export default function RouteUploadPage() {
                 <div className="border-2 border-dashed border-mono-300 hover:border-primary-blue rounded-lg p-8 text-center transition-colors duration-200">
                   <input
                     type="file"
-                    accept=".xlsx,.xls"
+                    accept={ROUTE_FILE_EXTENSIONS.join(",")}
                     onChange={handleFileChange}
                     className="hidden"
                     id="file-upload"
@@ -596,11 +861,60 @@ export default function RouteUploadPage() {
                     )}
                   </label>
                   <p className="text-xs text-mono-500 mt-4">
-                    Only Excel files (.xlsx, .xls) are supported
+                    Excel (.xlsx, .xls), CSV (.csv) and JSON (.json) files
+                    are supported
                   </p>
                 </div>
               </div>
 
+              <div className="mb-6">
+                <label
+                  htmlFor="mapping-profile"
+                  className="block text-mono-800 text-sm font-medium mb-2"
+                >
+                  Column Mapping
+                </label>
+                <select
+                  id="mapping-profile"
+                  value={selectedProfileId}
+                  onChange={(e) => {
+                    setSelectedProfileId(e.target.value);
+                    setPreview(null);
+                    setShowPreview(false);
+                    resetDetectedRoutes();
+                  }}
+                  className="w-full border border-mono-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-blue/30"
+                >
+                  <option value="">Auto-detect from header row</option>
+                  {builtInProfile && (
+                    <option value={builtInProfile.id}>{builtInProfile.name}</option>
+                  )}
+                  {mappingProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-6">
+                <label className="flex items-center text-sm text-mono-800">
+                  <input
+                    type="checkbox"
+                    checked={protectDriverProgress}
+                    onChange={(e) => setProtectDriverProgress(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Protect stops with driver progress
+                </label>
+                <p className="text-xs text-mono-500 mt-1 ml-6">
+                  When re-uploading an existing route, stops the driver has
+                  already started, completed, photographed or taken payments
+                  or returns on are left untouched, and the route cannot be
+                  replaced.
+                </p>
+              </div>
+
               <div className="bg-primary-blue/5 p-5 rounded-lg mb-6">
                 <div className="flex items-start">
                   <svg
@@ -623,8 +937,18 @@ export default function RouteUploadPage() {
                     </h3>
                     <ul className="text-sm text-mono-700 space-y-2 list-disc pl-5">
                       <li>
-                        Make sure the Excel file follows the format of the
-                        sample file.
+                        Make sure the Excel or CSV file follows the format of
+                        the sample file, or pick a saved column mapping
+                        profile that matches it.
+                      </li>
+                      <li>
+                        CSV files may use comma, semicolon, tab or pipe
+                        delimiters; UTF-8 and Windows-1252 encodings are
+                        detected automatically.
+                      </li>
+                      <li>
+                        JSON files use fixed keys (routeNumber, date, stops)
+                        and ignore the column mapping.
                       </li>
                       <li>
                         The driver name must match an existing driver in the
@@ -644,6 +968,11 @@ export default function RouteUploadPage() {
                         existing route, you'll be asked to choose whether to update
                         the existing route or create a new one.
                       </li>
+                      <li>
+                        The preview lists what a re-upload would change on the
+                        existing route: added and missing stops, resequencing,
+                        and changed invoice numbers or amounts.
+                      </li>
                     </ul>
                   </div>
                 </div>
@@ -679,9 +1008,53 @@ export default function RouteUploadPage() {
                         A route with number <strong>{existingRoute.routeNumber}</strong> already exists.
                         You'll need to choose whether to update the existing route or create a new one.
                       </p>
+                      {preview.diff && (
+                        <div className="mt-3">
+                          <RouteDiffView
+                            diff={preview.diff}
+                            protectDriverProgress={protectDriverProgress}
+                            action="update"
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
 
+                  {isMultiRoute && (
+                    <DetectedRoutesTable
+                      routes={detectedRoutes}
+                      selectedKeys={selectedRouteKeys}
+                      onSelectionChange={setSelectedRouteKeys}
+                      actions={routeActions}
+                      onActionChange={(key, action) =>
+                        setRouteActions((prev) => ({ ...prev, [key]: action }))
+                      }
+                      protectDriverProgress={protectDriverProgress}
+                    />
+                  )}
+
+                  {preview.driverNames && (
+                    <DriverNameResolution
+                      names={preview.driverNames}
+                      token={token}
+                      onAliasesChanged={handlePreview}
+                    />
+                  )}
+
+                  {preview.customerMatches && (
+                    <CustomerMatchReview
+                      matches={preview.customerMatches}
+                      token={token}
+                      onAliasesChanged={handlePreview}
+                    />
+                  )}
+
+                  {isMultiRoute && (
+                    <h4 className="text-md font-medium text-gray-800 mb-2">
+                      First route
+                    </h4>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                     <div className="bg-white p-3 rounded-md shadow-sm">
                       <p className="text-sm text-gray-500 font-medium">
@@ -719,6 +1092,31 @@ export default function RouteUploadPage() {
                         {preview.rowsProcessed || 0} successful
                       </p>
                     </div>
+
+                    {preview.mappingProfile && (
+                      <div className="bg-white p-3 rounded-md shadow-sm md:col-span-2">
+                        <p className="text-sm text-gray-500 font-medium">
+                          Column Mapping
+                        </p>
+                        <p className="text-lg font-semibold">
+                          {preview.mappingProfile.name}
+                          {preview.mappingProfile.autoDetected && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                              (auto-detected)
+                            </span>
+                          )}
+                        </p>
+                        {preview.source && preview.source.format !== "xlsx" && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {preview.source.format.toUpperCase()}
+                            {preview.source.encoding &&
+                              ` · ${preview.source.encoding}`}
+                            {preview.source.delimiter &&
+                              ` · ${DELIMITER_LABELS[preview.source.delimiter] || preview.source.delimiter}-delimited`}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* Driver Summary */}
@@ -817,6 +1215,7 @@ export default function RouteUploadPage() {
                                 <li key={index}>{warning}</li>
                               ))}
                             </ul>
+                            {annotatedDownloadButton}
                           </div>
                         </div>
                       </div>
@@ -891,6 +1290,8 @@ export default function RouteUploadPage() {
                         </svg>
                         Uploading...
                       </div>
+                    ) : isMultiRoute ? (
+                      `Upload ${selectedRouteKeys.length} Selected Route${selectedRouteKeys.length === 1 ? "" : "s"}`
                     ) : (
                       "Upload Route"
                     )}
@@ -973,6 +1374,17 @@ export default function RouteUploadPage() {
                     </div>
                   </div>
                 </div>
+
+                {preview?.diff && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Changes to the Existing Route</h4>
+                    <RouteDiffView
+                      diff={preview.diff}
+                      protectDriverProgress={protectDriverProgress}
+                      action="update"
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-col sm:flex-row gap-3">
@@ -986,7 +1398,7 @@ export default function RouteUploadPage() {
 
                 <button
                   onClick={() => handleSubmit(undefined, 'create')}
-                  disabled={loading}
+                  disabled={loading || replaceBlocked}
                   className="flex-1 bg-green-600 hover:bg-green-700 text-white font-medium py-3 px-4 rounded-lg transition duration-200 disabled:opacity-50"
                 >
                   {loading ? 'Creating...' : 'Create New Route'}
@@ -1004,6 +1416,11 @@ export default function RouteUploadPage() {
               <div className="mt-4 text-sm text-gray-600">
                 <p><strong>Update Existing Route:</strong> Intelligently merges new data with existing stops. Updates existing stops and adds new ones while preserving completed deliveries.</p>
                 <p><strong>Create New Route:</strong> Deletes the old route completely and creates a fresh one with the same route number.</p>
+                {replaceBlocked && (
+                  <p className="mt-1 text-purple-700">
+                    The existing route has stops with driver progress. Turn off driver-progress protection to replace it.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,437 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import EnhancedTable from "@/components/ui/EnhancedTable";
+import TableActions from "@/components/ui/TableActions";
+import Pagination from "@/components/ui/Pagination";
+import StatusBadge from "@/components/ui/StatusBadge";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+
+interface RouteUploadEntry {
+  id: string;
+  originalFileName: string;
+  uploadedAt: string;
+  uploadedBy: string;
+  source: string;
+  status: string;
+  errorMessage: string | null;
+  rowsProcessed: number;
+  rowsSucceeded: number;
+  rowsFailed: number;
+  fileSize: number | null;
+  hasFile: boolean;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+  changes: {
+    routes: {
+      routeId: string;
+      routeNumber: string | null;
+      changeType: "CREATED" | "UPDATED" | "DELETED";
+    }[];
+    stopsCreated: number;
+    stopsUpdated: number;
+    stopsDeleted: number;
+  };
+}
+
+interface RollbackResult {
+  message: string;
+  stopsRemoved: number;
+  stopsRestored: number;
+  routesRemoved: number;
+  routesRestored: number;
+  skipped: {
+    routeId: string;
+    stopId: string | null;
+    customerName: string | null;
+    reason: string;
+  }[];
+}
+
+const ROUTE_CHANGE_LABELS = {
+  CREATED: "created",
+  UPDATED: "merged",
+  DELETED: "replaced",
+};
+
+export default function RouteUploadHistoryPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [uploads, setUploads] = useState<RouteUploadEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [totalCount, setTotalCount] = useState(0);
+  const [limit, setLimit] = useState(25);
+  const [offset, setOffset] = useState(0);
+  const [uploadToRollBack, setUploadToRollBack] = useState<RouteUploadEntry | null>(null);
+  const [rollbackLoading, setRollbackLoading] = useState(false);
+  const [rollbackError, setRollbackError] = useState("");
+  const [rollbackResult, setRollbackResult] = useState<RollbackResult | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated) {
+      fetchUploads();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated, limit, offset]);
+
+  const fetchUploads = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/routes/uploads?limit=${limit}&offset=${offset}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch uploads");
+      }
+
+      const data = await response.json();
+      setUploads(data.uploads);
+      setTotalCount(data.totalCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async (upload: RouteUploadEntry) => {
+    if (!token) return;
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/routes/uploads/${upload.id}/file`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to download file");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = upload.originalFileName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download file");
+    }
+  };
+
+  const confirmRollback = async () => {
+    if (!token || !uploadToRollBack) return;
+
+    setRollbackLoading(true);
+    setRollbackError("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/routes/uploads/${uploadToRollBack.id}/rollback`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const later = (data.laterUploads || [])
+          .map((upload: { originalFileName: string }) => upload.originalFileName)
+          .join(", ");
+        throw new Error(
+          later ? `${data.message} (${later})` : data.message || "Failed to roll back upload"
+        );
+      }
+
+      setRollbackResult(data);
+      setUploadToRollBack(null);
+      await fetchUploads();
+    } catch (err) {
+      setRollbackError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setRollbackLoading(false);
+    }
+  };
+
+  const canRollBack = (upload: RouteUploadEntry) =>
+    !upload.rolledBackAt && upload.changes.routes.length > 0;
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading upload history..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Route Upload History</h1>
+        <div className="flex gap-4">
+          <Link
+            href="/admin/routes/upload"
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            Upload Route
+          </Link>
+          <button
+            onClick={() => router.back()}
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+          >
+            &larr; Back
+          </button>
+        </div>
+      </div>
+
+      {rollbackResult && (
+        <div className="bg-primary-green/10 border border-primary-green/30 text-primary-green px-4 py-3 rounded-lg">
+          <div className="flex justify-between">
+            <p className="font-medium">{rollbackResult.message}</p>
+            <button
+              onClick={() => setRollbackResult(null)}
+              className="text-sm font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+          <p className="text-sm mt-1">
+            {rollbackResult.stopsRemoved} stops removed, {rollbackResult.stopsRestored} stops
+            restored, {rollbackResult.routesRemoved} routes removed,{" "}
+            {rollbackResult.routesRestored} routes restored.
+          </p>
+          {rollbackResult.skipped.length > 0 && (
+            <ul className="list-disc pl-5 mt-2 text-sm text-primary-orange">
+              {rollbackResult.skipped.map((skip, index) => (
+                <li key={index}>
+                  {skip.customerName ? `${skip.customerName}: ` : ""}
+                  {skip.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200">
+          <h2 className="text-lg font-medium text-mono-800">Uploads</h2>
+          <p className="text-sm text-mono-500 mt-1">
+            Re-download the original file, or roll a bad upload back. Rolling
+            back leaves stops the driver has worked since the upload untouched.
+          </p>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-col min-h-[400px]">
+            <div className="flex-grow">
+              <EnhancedTable
+                data={uploads}
+                keyField="id"
+                isLoading={loading}
+                emptyState={
+                  <div className="text-center py-8 text-gray-500">
+                    No route uploads yet.
+                  </div>
+                }
+                columns={[
+                  {
+                    header: "Uploaded",
+                    accessor: (upload) => (
+                      <div>
+                        <div>{new Date(upload.uploadedAt).toLocaleString()}</div>
+                        <div className="text-xs text-gray-500">
+                          {upload.uploadedBy}
+                          {upload.source === "INBOX" && " · import folder"}
+                        </div>
+                      </div>
+                    ),
+                  },
+                  {
+                    header: "File",
+                    accessor: (upload) => (
+                      <div>
+                        <div className="font-medium">{upload.originalFileName}</div>
+                        <div className="text-xs text-gray-500">
+                          {upload.rowsSucceeded} of {upload.rowsProcessed} rows
+                          {upload.fileSize !== null &&
+                            ` · ${(upload.fileSize / 1024).toFixed(1)} KB`}
+                        </div>
+                      </div>
+                    ),
+                  },
+                  {
+                    header: "Status",
+                    accessor: (upload) => (
+                      <div>
+                        <StatusBadge
+                          status={upload.status}
+                          variant={
+                            upload.status === "ROLLED_BACK"
+                              ? "default"
+                              : upload.status === "FAILED"
+                              ? "danger"
+                              : undefined
+                          }
+                        />
+                        {upload.rolledBackAt && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {new Date(upload.rolledBackAt).toLocaleString()}
+                            {upload.rolledBackBy && ` by ${upload.rolledBackBy}`}
+                          </div>
+                        )}
+                        {upload.status === "FAILED" && upload.errorMessage && (
+                          <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={upload.errorMessage}>
+                            {upload.errorMessage}
+                          </div>
+                        )}
+                      </div>
+                    ),
+                  },
+                  {
+                    header: "Changes",
+                    accessor: (upload) =>
+                      upload.changes.routes.length === 0 ? (
+                        <span className="text-gray-400">—</span>
+                      ) : (
+                        <div className="text-sm">
+                          {upload.changes.routes.map((route) => (
+                            <div key={`${route.routeId}-${route.changeType}`}>
+                              Route {route.routeNumber || "N/A"}{" "}
+                              <span className="text-gray-500">
+                                ({ROUTE_CHANGE_LABELS[route.changeType]})
+                              </span>
+                            </div>
+                          ))}
+                          <div className="text-xs text-gray-500">
+                            {upload.changes.stopsCreated} stops added,{" "}
+                            {upload.changes.stopsUpdated} updated
+                            {upload.changes.stopsDeleted > 0 &&
+                              `, ${upload.changes.stopsDeleted} replaced`}
+                          </div>
+                        </div>
+                      ),
+                  },
+                  {
+                    header: "Actions",
+                    accessor: (upload) => (
+                      <TableActions
+                        actions={[
+                          ...(upload.hasFile
+                            ? [
+                                {
+                                  label: "Download",
+                                  onClick: () => handleDownload(upload),
+                                  variant: "primary" as const,
+                                },
+                              ]
+                            : []),
+                          ...(canRollBack(upload)
+                            ? [
+                                {
+                                  label: "Roll Back",
+                                  onClick: () => {
+                                    setRollbackError("");
+                                    setUploadToRollBack(upload);
+                                  },
+                                  variant: "danger" as const,
+                                },
+                              ]
+                            : []),
+                        ]}
+                      />
+                    ),
+                    align: "right",
+                  },
+                ]}
+                striped
+                stickyHeader
+              />
+            </div>
+
+            <Pagination
+              totalItems={totalCount}
+              itemsPerPage={limit}
+              currentPage={Math.floor(offset / limit) + 1}
+              onPageChange={(page) => setOffset((page - 1) * limit)}
+              onItemsPerPageChange={(newLimit) => {
+                setLimit(newLimit);
+                setOffset(0);
+              }}
+              itemsPerPageOptions={[10, 25, 50, 100]}
+              className="mt-4"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Rollback Confirmation Dialog */}
+      {uploadToRollBack && (
+        <div className="fixed inset-0 bg-gray-600/50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900">Roll Back Upload</h3>
+            <p className="mt-2 text-sm text-gray-500">
+              Roll back <strong>{uploadToRollBack.originalFileName}</strong>? Stops it
+              added are removed, stops it updated get their previous values back, and
+              routes it replaced are restored. Stops the driver has worked since the
+              upload are left as they are.
+            </p>
+
+            {rollbackError && (
+              <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                {rollbackError}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                onClick={() => setUploadToRollBack(null)}
+                disabled={rollbackLoading}
+                className="px-4 py-2 bg-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-300 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmRollback}
+                disabled={rollbackLoading}
+                className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+              >
+                {rollbackLoading ? "Rolling Back..." : "Roll Back"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import StatusBadge from "@/components/ui/StatusBadge";
+import { useAdminAuth, AuthLoadingSpinner, AccessDenied } from "@/hooks/useAuth";
+import { getPSTDateString } from "@/lib/timezone";
+import {
+  SETTLEMENT_STATUS_LABELS,
+  SettlementStatusValue,
+  SettlementTotals,
+  expectedCash,
+  settlementVariances,
+} from "@/utils/settlements";
+
+interface SettlementStop {
+  id: string;
+  sequence: number;
+  routeNumber: string | null;
+  customerName: string | null;
+  invoiceNumber: string | null;
+  isCOD: boolean;
+  amount: number | null;
+  payments: { amount: number; method: string }[];
+}
+
+interface Settlement {
+  id: string;
+  status: SettlementStatusValue;
+  countedCash: number | null;
+  checkCount: number | null;
+  notes: string | null;
+  driverSignedAt: string | null;
+  officeSignedAt: string | null;
+  officeSignedBy: { username: string; fullName: string | null } | null;
+}
+
+interface DriverDay {
+  driver: { id: string; username: string; fullName: string | null };
+  settlement: Settlement | null;
+  totals: SettlementTotals;
+  stops: SettlementStop[];
+}
+
+interface HandInDraft {
+  countedCash: string;
+  checkCount: string;
+  notes: string;
+}
+
+const STATUS_VARIANTS = { OPEN: "warning", DRIVER_SIGNED: "primary", SETTLED: "success" } as const;
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Show a variance with its sign, highlighting anything not zero
+function Variance({ value, format }: { value: number | null; format: (value: number) => string }) {
+  if (value === null) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const label = value > 0 ? `+${format(value)}` : value < 0 ? `-${format(-value)}` : format(0);
+  return (
+    <span className={value === 0 ? "text-green-700" : "text-red-600 font-semibold"}>{label}</span>
+  );
+}
+
+const handInDraftsFor = (days: DriverDay[]): Record<string, HandInDraft> =>
+  Object.fromEntries(
+    days.map((day) => [
+      day.driver.id,
+      {
+        countedCash: day.settlement?.countedCash?.toString() ?? "",
+        checkCount: day.settlement?.checkCount?.toString() ?? "",
+        notes: day.settlement?.notes ?? "",
+      },
+    ])
+  );
+
+export default function SettlementsPage() {
+  const { token, isLoading: authLoading, isAuthenticated } = useAdminAuth();
+
+  const [date, setDate] = useState(getPSTDateString());
+  const [days, setDays] = useState<DriverDay[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, HandInDraft>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (token && isAuthenticated && date) {
+      fetchSettlements();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, isAuthenticated, date]);
+
+  const fetchSettlements = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/settlements?date=${date}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to fetch settlements");
+      }
+
+      const data = await response.json();
+      setDays(data.settlements);
+      setDrafts(handInDraftsFor(data.settlements));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run an action for a driver, then reload the day
+  const act = async (day: DriverDay, action: () => Promise<Response>, message: string) => {
+    setBusy(day.driver.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update the settlement");
+      }
+      setSuccess(message);
+      await fetchSettlements();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const driverName = (day: DriverDay) => day.driver.fullName || day.driver.username;
+
+  const saveHandIn = (day: DriverDay) =>
+    act(
+      day,
+      () =>
+        fetch("/api/admin/settlements", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ driverId: day.driver.id, date, ...drafts[day.driver.id] }),
+        }),
+      `Recorded ${driverName(day)}'s hand-in - the driver signs it from their settlement screen`
+    );
+
+  const signOff = (day: DriverDay) => {
+    if (!day.settlement) return;
+    if (!confirm(`Sign off ${driverName(day)}'s settlement? The day's payments will be locked.`)) return;
+    const settlementId = day.settlement.id;
+    act(
+      day,
+      () =>
+        fetch(`/api/admin/settlements/${settlementId}/sign-off`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      `Settled ${driverName(day)}'s day`
+    );
+  };
+
+  // Variances against the count being entered, before it's saved
+  const draftVariances = (day: DriverDay) => {
+    const draft = drafts[day.driver.id];
+    return settlementVariances(day.totals, {
+      countedCash: draft?.countedCash ? parseFloat(draft.countedCash) : null,
+      checkCount: draft?.checkCount ? parseInt(draft.checkCount, 10) : null,
+    });
+  };
+
+  if (authLoading) {
+    return <AuthLoadingSpinner message="Loading settlements..." />;
+  }
+
+  if (!authLoading && !isAuthenticated) {
+    return <AccessDenied title="Access Denied" message="Admin access required" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-medium text-black">Driver Settlements</h1>
+        <button
+          onClick={() => router.back()}
+          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium"
+        >
+          &larr; Back
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden">
+        <div className="px-6 py-4 border-b border-mono-200 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-mono-800">End-of-Day Cash and Checks</h2>
+            <p className="text-sm text-mono-500 mt-1">
+              Count what each driver hands in against their COD stops and recorded payments.
+              Once the driver has signed the count, sign it off to lock the day&apos;s payments.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="settlement-date" className="block text-sm font-medium text-gray-700 mb-1">
+              Date
+            </label>
+            <input
+              id="settlement-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {success}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading settlements...</div>
+          ) : days.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No drivers had stops on this day.</div>
+          ) : (
+            days.map((day) => {
+              const status = day.settlement?.status ?? "OPEN";
+              const settled = status === "SETTLED";
+              const draft = drafts[day.driver.id];
+              const variances = settled
+                ? settlementVariances(day.totals, {
+                    countedCash: day.settlement?.countedCash ?? null,
+                    checkCount: day.settlement?.checkCount ?? null,
+                  })
+                : draftVariances(day);
+
+              return (
+                <div key={day.driver.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="px-4 py-3 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">{driverName(day)}</div>
+                      <div className="text-xs text-gray-500">
+                        {day.stops.length} stop{day.stops.length !== 1 ? "s" : ""} &middot;{" "}
+                        {day.stops.filter((stop) => stop.isCOD).length} COD
+                      </div>
+                    </div>
+                    <StatusBadge status={SETTLEMENT_STATUS_LABELS[status]} variant={STATUS_VARIANTS[status]} />
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 px-4 py-4 text-sm">
+                    <div>
+                      <div className="text-xs text-gray-500 uppercase">COD expected</div>
+                      <div className="font-medium">{money(day.totals.expectedCod)}</div>
+                      <div className="text-xs text-gray-500">
+                        Collected {money(day.totals.codCollected)} ·{" "}
+                        <Variance value={variances.cod} format={money} />
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500 uppercase">Cash</div>
+                      <div className="font-medium">{money(day.totals.cashCollected)}</div>
+                      {day.totals.cashBackAmount > 0 && (
+                        <div className="text-xs text-gray-500">
+                          + {money(day.totals.cashBackAmount)} fuel card cash back
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500 uppercase">Checks</div>
+                      <div className="font-medium">{money(day.totals.checkCollected)}</div>
+                      <div className="text-xs text-gray-500">
+                        {day.totals.checksRecorded} recorded
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500 uppercase">Credit card</div>
+                      <div className="font-medium">{money(day.totals.cardCollected)}</div>
+                    </div>
+                  </div>
+
+                  <div className="px-4 py-3 border-t border-gray-200 flex flex-wrap items-end gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-500 uppercase mb-1">
+                        Counted cash (expected {money(expectedCash(day.totals))})
+                      </label>
+                      {settled ? (
+                        <div className="text-sm font-medium">{money(day.settlement?.countedCash ?? 0)}</div>
+                      ) : (
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          aria-label={`Counted cash for ${driverName(day)}`}
+                          value={draft?.countedCash ?? ""}
+                          onChange={(e) =>
+                            setDrafts({ ...drafts, [day.driver.id]: { ...draft, countedCash: e.target.value } })
+                          }
+                          className="w-32 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        />
+                      )}
+                      <div className="text-xs mt-1">
+                        <Variance value={variances.cash} format={money} />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 uppercase mb-1">
+                        Checks handed in ({day.totals.checksRecorded} recorded)
+                      </label>
+                      {settled ? (
+                        <div className="text-sm font-medium">{day.settlement?.checkCount ?? 0}</div>
+                      ) : (
+                        <input
+                          type="number"
+                          min={0}
+                          aria-label={`Checks handed in by ${driverName(day)}`}
+                          value={draft?.checkCount ?? ""}
+                          onChange={(e) =>
+                            setDrafts({ ...drafts, [day.driver.id]: { ...draft, checkCount: e.target.value } })
+                          }
+                          className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        />
+                      )}
+                      <div className="text-xs mt-1">
+                        <Variance value={variances.checks} format={String} />
+                      </div>
+                    </div>
+                    <div className="flex-1 min-w-[12rem]">
+                      <label className="block text-xs text-gray-500 uppercase mb-1">Notes</label>
+                      {settled ? (
+                        <div className="text-sm text-gray-700">{day.settlement?.notes || "—"}</div>
+                      ) : (
+                        <input
+                          type="text"
+                          aria-label={`Settlement notes for ${driverName(day)}`}
+                          value={draft?.notes ?? ""}
+                          onChange={(e) =>
+                            setDrafts({ ...drafts, [day.driver.id]: { ...draft, notes: e.target.value } })
+                          }
+                          className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        />
+                      )}
+                    </div>
+                    {!settled && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => saveHandIn(day)}
+                          disabled={busy !== null || !draft?.countedCash || !draft?.checkCount}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {busy === day.driver.id ? "Saving..." : "Record Count"}
+                        </button>
+                        <button
+                          onClick={() => signOff(day)}
+                          disabled={busy !== null || status !== "DRIVER_SIGNED"}
+                          title={status !== "DRIVER_SIGNED" ? "The driver has to sign the count first" : undefined}
+                          className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Office Sign-Off
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500 flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                      {day.settlement?.driverSignedAt
+                        ? `Driver signed ${new Date(day.settlement.driverSignedAt).toLocaleString()}`
+                        : "Driver hasn't signed"}
+                      {day.settlement?.officeSignedAt &&
+                        ` · Office signed ${new Date(day.settlement.officeSignedAt).toLocaleString()} by ${
+                          day.settlement.officeSignedBy?.fullName || day.settlement.officeSignedBy?.username
+                        }`}
+                    </span>
+                    <button
+                      onClick={() => setExpanded(expanded === day.driver.id ? null : day.driver.id)}
+                      className="text-primary-blue hover:text-blue-700 font-medium"
+                    >
+                      {expanded === day.driver.id ? "Hide stops" : "Show stops"}
+                    </button>
+                  </div>
+
+                  {expanded === day.driver.id && (
+                    <table className="min-w-full divide-y divide-gray-200 border-t border-gray-200">
+                      <thead>
+                        <tr>
+                          {["Stop", "Customer", "Invoice", "COD Amount", "Payments"].map((heading) => (
+                            <th
+                              key={heading}
+                              className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              {heading}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {day.stops.map((stop) => (
+                          <tr key={stop.id}>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              Route {stop.routeNumber || "N/A"} #{stop.sequence}
+                            </td>
+                            <td className="px-4 py-2 text-sm">
+                              <Link
+                                href={`/admin/stops/${stop.id}`}
+                                className="text-primary-blue hover:text-blue-700"
+                              >
+                                {stop.customerName || "Unknown"}
+                              </Link>
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">{stop.invoiceNumber || "—"}</td>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              {stop.isCOD ? money(stop.amount ?? 0) : "—"}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">
+                              {stop.payments.length > 0
+                                ? stop.payments
+                                    .map((payment) => `${payment.method} ${money(payment.amount)}`)
+                                    .join(", ")
+                                : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
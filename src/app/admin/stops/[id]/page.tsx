@@ -10,6 +10,12 @@ import WebSocketErrorAlert from "@/components/ui/WebSocketErrorAlert";
 import { formatDriverNotes } from "@/utils/notesFormatter";
 import DocumentPreview from "@/components/admin/DocumentPreview";
 import SearchableSelect from "@/components/ui/SearchableSelect";
+import StopLocationHistory, {
+  StopStatusEventRow,
+} from "@/components/admin/stops/StopLocationHistory";
+import StopOrderLines from "@/components/admin/stops/StopOrderLines";
+import type { StopStatus } from "@prisma/client";
+import { allowedTransitions, STOP_STATUS_LABELS } from "@/utils/stopStatus";
 
 interface Document {
   id: string;
@@ -78,6 +84,25 @@ interface Stop {
   updatedAt: string;
   _lastUpdated?: string;
   payments: Payment[];
+  statusEvents?: StopStatusEventRow[];
+  failureReason?: { code: string; label: string } | null;
+  failureNotes?: string | null;
+  failurePhotoUrls?: string[];
+  failedAt?: string | null;
+  redeliveryOf?: RedeliveryLink | null;
+  redeliveries?: RedeliveryLink[];
+}
+
+interface RedeliveryLink {
+  id: string;
+  status: string;
+  route: { id: string; routeNumber: string | null; date: string };
+}
+
+interface FailureReasonOption {
+  code: string;
+  label: string;
+  isActive: boolean;
 }
 
 interface Customer {
@@ -127,6 +152,9 @@ interface ReturnItem {
   reasonCode: string;
   orderItemIdentifier?: string;
   productDescription?: string;
+  receivedQty: number | null;
+  warehouseLocation: string | null;
+  receivedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -154,6 +182,9 @@ export default function StopDetailPage({
     isCOD: false,
     amount: 0,
   });
+  const [failureReasons, setFailureReasons] = useState<FailureReasonOption[]>([]);
+  const [failureReasonCode, setFailureReasonCode] = useState("");
+  const [failureNotes, setFailureNotes] = useState("");
   const [sendingEmail, setSendingEmail] = useState(false);
   const [emailSuccess, setEmailSuccess] = useState("");
   const [emailError, setEmailError] = useState("");
@@ -166,6 +197,9 @@ export default function StopDetailPage({
   const [returns, setReturns] = useState<ReturnItem[]>([]);
   const [loadingReturns, setLoadingReturns] = useState(false);
   const [returnsError, setReturnsError] = useState("");
+  const [draftingCreditMemo, setDraftingCreditMemo] = useState(false);
+  const [creditMemoMessage, setCreditMemoMessage] = useState("");
+  const [creditMemoError, setCreditMemoError] = useState("");
 
   // Driver reassignment state
   const [drivers, setDrivers] = useState<any[]>([]);
@@ -348,6 +382,39 @@ export default function StopDetailPage({
     }
   };
 
+  // Draft a credit memo from the stop's received returns
+  const handleDraftCreditMemo = async () => {
+    setDraftingCreditMemo(true);
+    setCreditMemoError("");
+    setCreditMemoMessage("");
+
+    try {
+      const token = localStorage.getItem("token") || sessionStorage.getItem("token");
+      if (!token) {
+        router.push("/login");
+        return;
+      }
+
+      const response = await fetch(`/api/admin/stops/${stopId}/credit-memos`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to draft a credit memo");
+      }
+
+      setCreditMemoMessage(`Drafted a $${data.creditMemoAmount.toFixed(2)} credit memo for review`);
+    } catch (err) {
+      setCreditMemoError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setDraftingCreditMemo(false);
+    }
+  };
+
   // Update QuickBooks invoice number function
   const handleUpdateQuickBooks = async () => {
     if (!stop) return;
@@ -402,6 +469,27 @@ export default function StopDetailPage({
     fetchDrivers();
   }, [stopId, fetchStopDetails, fetchReturns]);
 
+  // Load the failure reasons the first time the stop is edited
+  useEffect(() => {
+    if (!editMode || failureReasons.length > 0) return;
+
+    const token = localStorage.getItem("token") || sessionStorage.getItem("token");
+    if (!token) return;
+
+    fetch("/api/admin/stop-failure-reasons", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) {
+          setFailureReasons(
+            data.reasons.filter((reason: FailureReasonOption) => reason.isActive)
+          );
+        }
+      })
+      .catch((err) => console.error("Error fetching failure reasons:", err));
+  }, [editMode, failureReasons.length]);
+
   // Use optimized admin stop details hook for real-time updates
   const { stop: optimizedStop } = useOptimizedAdminStopDetails(stopId, stop);
 
@@ -629,7 +717,12 @@ export default function StopDetailPage({
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          ...(formData.status === "FAILED" && stop?.status !== "FAILED"
+            ? { failure: { reasonCode: failureReasonCode, notes: failureNotes } }
+            : {}),
+        }),
       });
 
       if (!response.ok) {
@@ -959,14 +1052,59 @@ export default function StopDetailPage({
                       }
                       className="w-full rounded-lg border-mono-300 shadow-sm focus:border-primary-blue focus:ring focus:ring-primary-blue/30"
                     >
-                      <option value="PENDING">Pending</option>
-                      <option value="ON_THE_WAY">On The Way</option>
-                      <option value="ARRIVED">Arrived</option>
-                      <option value="COMPLETED">Completed</option>
-                      <option value="FAILED">Failed</option>
+                      {[
+                        stop.status as StopStatus,
+                        ...allowedTransitions(stop.status as StopStatus, "admin"),
+                      ].map((status) => (
+                        <option key={status} value={status}>
+                          {STOP_STATUS_LABELS[status]}
+                        </option>
+                      ))}
                     </select>
                   </div>
 
+                  {formData.status === "FAILED" && stop.status !== "FAILED" && (
+                    <>
+                      <div>
+                        <label
+                          htmlFor="failureReason"
+                          className="block text-sm font-medium text-gray-700 mb-1"
+                        >
+                          Failure Reason
+                        </label>
+                        <select
+                          id="failureReason"
+                          value={failureReasonCode}
+                          onChange={(e) => setFailureReasonCode(e.target.value)}
+                          className="w-full rounded-lg border-mono-300 shadow-sm focus:border-primary-blue focus:ring focus:ring-primary-blue/30"
+                        >
+                          <option value="">Select a reason</option>
+                          {failureReasons.map((reason) => (
+                            <option key={reason.code} value={reason.code}>
+                              {reason.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label
+                          htmlFor="failureNotes"
+                          className="block text-sm font-medium text-gray-700 mb-1"
+                        >
+                          Failure Notes
+                        </label>
+                        <input
+                          type="text"
+                          id="failureNotes"
+                          value={failureNotes}
+                          onChange={(e) => setFailureNotes(e.target.value)}
+                          className="w-full rounded-lg border-mono-300 shadow-sm focus:border-primary-blue focus:ring focus:ring-primary-blue/30"
+                        />
+                      </div>
+                    </>
+                  )}
+
                   <div>
                     <label
                       htmlFor="amount"
@@ -1146,6 +1284,79 @@ export default function StopDetailPage({
                     </p>
                   </div>
 
+                  {/* Failure */}
+                  {stop.status === "FAILED" && (
+                    <div className="col-span-2">
+                      <h3 className="text-sm font-medium text-gray-500">
+                        Not Delivered
+                      </h3>
+                      <div className="mt-1 bg-red-50 border border-red-200 rounded-lg p-3 space-y-2">
+                        <p className="text-sm font-medium text-red-800">
+                          {stop.failureReason?.label || "No reason recorded"}
+                          {stop.failedAt && (
+                            <span className="font-normal text-red-700">
+                              {" "}&middot; {formatDate(stop.failedAt)}
+                            </span>
+                          )}
+                        </p>
+                        {stop.failureNotes && (
+                          <p className="text-sm text-red-700">{stop.failureNotes}</p>
+                        )}
+                        {stop.failurePhotoUrls && stop.failurePhotoUrls.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {stop.failurePhotoUrls.map((url) => (
+                              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img
+                                  src={url}
+                                  alt="Failure evidence"
+                                  className="h-20 w-20 object-cover rounded"
+                                />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Redelivery */}
+                  {(stop.redeliveryOf || (stop.redeliveries && stop.redeliveries.length > 0)) && (
+                    <div className="col-span-2">
+                      <h3 className="text-sm font-medium text-gray-500">
+                        Redelivery
+                      </h3>
+                      <div className="mt-1 space-y-1">
+                        {stop.redeliveryOf && (
+                          <p className="text-sm text-gray-900">
+                            Redelivery of the stop on{" "}
+                            <Link
+                              href={`/admin/stops/${stop.redeliveryOf.id}`}
+                              className="text-primary-blue hover:text-blue-700"
+                            >
+                              route {stop.redeliveryOf.route.routeNumber || "N/A"},{" "}
+                              {new Date(stop.redeliveryOf.route.date).toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })}
+                            </Link>{" "}
+                            ({STOP_STATUS_LABELS[stop.redeliveryOf.status as StopStatus]})
+                          </p>
+                        )}
+                        {stop.redeliveries?.map((redelivery) => (
+                          <p key={redelivery.id} className="text-sm text-gray-900">
+                            Rescheduled to{" "}
+                            <Link
+                              href={`/admin/stops/${redelivery.id}`}
+                              className="text-primary-blue hover:text-blue-700"
+                            >
+                              route {redelivery.route.routeNumber || "N/A"},{" "}
+                              {new Date(redelivery.route.date).toLocaleDateString("en-US", { timeZone: "America/Los_Angeles" })}
+                            </Link>{" "}
+                            ({STOP_STATUS_LABELS[redelivery.status as StopStatus]})
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Delivery Times */}
                   {(stop.arrivalTime || stop.completionTime) && (
                     <div className="col-span-2">
@@ -1370,12 +1581,40 @@ export default function StopDetailPage({
             )}
           </div>
 
+          {/* Location History */}
+          <StopLocationHistory events={stop.statusEvents || []} />
+
+          {/* Order Lines */}
+          <StopOrderLines stopId={stop.id} />
+
           {/* Returns */}
           <div className="bg-white rounded-xl shadow-md overflow-hidden mt-6">
-            <div className="px-6 py-4 border-b border-mono-200">
+            <div className="px-6 py-4 border-b border-mono-200 flex items-center justify-between">
               <h2 className="text-lg font-medium text-mono-800">Returns</h2>
+              {returns.length > 0 && returns.every((returnItem) => returnItem.receivedAt) && (
+                <button
+                  onClick={handleDraftCreditMemo}
+                  disabled={draftingCreditMemo}
+                  className="text-sm text-primary-blue hover:text-blue-700 font-medium disabled:opacity-50"
+                >
+                  {draftingCreditMemo ? "Drafting..." : "Draft Credit Memo"}
+                </button>
+              )}
             </div>
             <div className="p-6">
+              {creditMemoMessage && (
+                <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-4">
+                  {creditMemoMessage} &middot;{" "}
+                  <Link href="/admin/returns/credit-memos" className="font-medium underline">
+                    Credit Memos
+                  </Link>
+                </div>
+              )}
+              {creditMemoError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                  {creditMemoError}
+                </div>
+              )}
               {loadingReturns ? (
                 <div className="flex justify-center items-center py-8">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-blue"></div>
@@ -1447,6 +1686,20 @@ export default function StopDetailPage({
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {returnItem.quantity}
+                            {returnItem.receivedAt ? (
+                              <div
+                                className={`text-xs ${
+                                  returnItem.receivedQty !== returnItem.quantity
+                                    ? "text-orange-700 font-semibold"
+                                    : "text-green-700"
+                                }`}
+                              >
+                                {returnItem.receivedQty} received
+                                {returnItem.warehouseLocation && ` · ${returnItem.warehouseLocation}`}
+                              </div>
+                            ) : (
+                              <div className="text-xs text-gray-400">Not yet received</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
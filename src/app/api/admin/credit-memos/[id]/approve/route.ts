@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { approveCreditMemo } from "@/lib/creditMemoDrafts";
+
+// POST /api/admin/credit-memos/[id]/approve - Approve a draft credit memo
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    let approved;
+    try {
+      approved = await approveCreditMemo(id, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(approved);
+  } catch (error) {
+    console.error("Error approving credit memo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
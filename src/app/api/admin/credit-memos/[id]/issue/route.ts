@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { verifyToken } from "@/lib/auth";
+import { issueCreditMemo } from "@/lib/creditMemoDrafts";
+
+const ALLOWED_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+const MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+// POST /api/admin/credit-memos/[id]/issue - Issue an approved credit memo with
+// its number and document (multipart form: creditMemoNumber, file)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const formData = await request.formData();
+    const creditMemoNumber = (formData.get("creditMemoNumber") as string | null)?.trim();
+    const file = formData.get("file") as File | null;
+
+    if (!creditMemoNumber) {
+      return NextResponse.json(
+        { message: "creditMemoNumber is required" },
+        { status: 400 }
+      );
+    }
+    if (!file) {
+      return NextResponse.json(
+        { message: "The credit memo document is required" },
+        { status: 400 }
+      );
+    }
+    if (!ALLOWED_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { message: "The credit memo document must be a PDF or an image" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_SIZE) {
+      return NextResponse.json(
+        { message: "File size too large. Maximum size is 10MB." },
+        { status: 400 }
+      );
+    }
+
+    // The document is only written once the memo is known to be approved
+    const saveDocument = async () => {
+      const uploadsDir = path.join(process.cwd(), "public", "uploads", "documents");
+      await mkdir(uploadsDir, { recursive: true });
+
+      const fileName = `${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+      await writeFile(path.join(uploadsDir, fileName), Buffer.from(await file.arrayBuffer()));
+
+      return {
+        fileName: file.name,
+        filePath: `/uploads/documents/${fileName}`,
+        fileSize: file.size,
+        mimeType: file.type,
+      };
+    };
+
+    let issued;
+    try {
+      issued = await issueCreditMemo(id, creditMemoNumber, saveDocument, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(issued);
+  } catch (error) {
+    console.error("Error issuing credit memo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import {
+  discardCreditMemo,
+  sanitizeLineChanges,
+  updateCreditMemoLines,
+} from "@/lib/creditMemoDrafts";
+
+// PATCH /api/admin/credit-memos/[id] - Change quantities and prices on a draft
+//
+// Body: { lines: { lineId: string; quantity?: number; unitPrice?: number | null }[] }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const { changes, errors } = sanitizeLineChanges(body?.lines);
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let updated;
+    try {
+      updated = await updateCreditMemoLines(id, changes);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating credit memo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/credit-memos/[id] - Discard a credit memo that hasn't been
+// issued
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+      await discardCreditMemo(id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ message: "Credit memo discarded" });
+  } catch (error) {
+    console.error("Error discarding credit memo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { CreditMemoFilter, getCreditMemos } from "@/lib/creditMemoDrafts";
+
+const FILTERS: CreditMemoFilter[] = ["open", "issued"];
+
+// GET /api/admin/credit-memos?status=open|issued - Credit memos drafted from
+// returns (open, i.e. draft or approved, by default)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status") || "open";
+    if (!FILTERS.includes(status as CreditMemoFilter)) {
+      return NextResponse.json(
+        { message: "status must be open or issued" },
+        { status: 400 }
+      );
+    }
+
+    const creditMemos = await getCreditMemos(status as CreditMemoFilter);
+
+    return NextResponse.json({ creditMemos });
+  } catch (error) {
+    console.error("Error fetching credit memos:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { acceptGeocode, geocodeCustomer, setManualPin } from "@/lib/geocoding";
+
+// POST /api/admin/customers/[id]/geocode - Geocode the customer again,
+// skipping the cache (also replaces a manual pin)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    let outcome;
+    try {
+      outcome = await geocodeCustomer(id, { bypassCache: true });
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message === "Customer not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(outcome);
+  } catch (error) {
+    console.error("Error geocoding customer:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/customers/[id]/geocode - Fix a pin by hand
+//
+// Body: { latitude: number; longitude: number } to place the pin, or
+//       { accept: true } to keep a suspicious pin as it is
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = await request.json();
+
+    try {
+      if (data.accept === true) {
+        await acceptGeocode(id);
+      } else if (typeof data.latitude === "number" && typeof data.longitude === "number") {
+        await setManualPin(id, data.latitude, data.longitude);
+      } else {
+        return NextResponse.json(
+          { message: "Send latitude and longitude, or accept: true" },
+          { status: 400 }
+        );
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message === "Customer not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ message: "Pin updated" });
+  } catch (error) {
+    console.error("Error updating customer pin:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
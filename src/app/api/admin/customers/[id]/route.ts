@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { addressChangeData } from "@/lib/geocoding";
+import { parseGeofenceRadius } from "@/lib/geofences";
+import { saveReceivingHours, sanitizeReceivingHours } from "@/lib/receivingWindows";
+import { REDELIVERY_LINK_INCLUDE } from "@/lib/redeliveries";
 import {
   verifyPasswordConfirmation,
   createPasswordConfirmationErrorResponse,
@@ -39,6 +43,11 @@ export async function GET(
         id,
         isDeleted: false,
       },
+      include: {
+        receivingWindows: {
+          orderBy: [{ weekday: "asc" }, { opensAt: "asc" }],
+        },
+      },
     });
 
     if (!customer) {
@@ -81,6 +90,7 @@ export async function GET(
             date: true,
           },
         },
+        ...REDELIVERY_LINK_INCLUDE,
       },
     });
 
@@ -177,6 +187,42 @@ export async function PATCH(
       );
     }
 
+    if (
+      data.aliases !== undefined &&
+      (!Array.isArray(data.aliases) ||
+        !data.aliases.every((alias: unknown) => typeof alias === "string"))
+    ) {
+      return NextResponse.json(
+        { message: "aliases must be an array of names" },
+        { status: 400 }
+      );
+    }
+
+    // Receiving hours are replaced as a whole when sent
+    let receivingHours = null;
+    if (data.receivingHours !== undefined) {
+      const { hours, errors } = sanitizeReceivingHours(data.receivingHours);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { message: errors.join("; ") },
+          { status: 400 }
+        );
+      }
+      receivingHours = hours;
+    }
+
+    let geofenceRadiusMeters: number | null | undefined;
+    if (data.geofenceRadiusMeters !== undefined) {
+      try {
+        geofenceRadiusMeters = parseGeofenceRadius(data.geofenceRadiusMeters);
+      } catch (error) {
+        return NextResponse.json(
+          { message: (error as Error).message },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if the customer exists
     const existingCustomer = await prisma.customer.findUnique({
       where: {
@@ -192,6 +238,11 @@ export async function PATCH(
       );
     }
 
+    if (receivingHours) {
+      const hours = receivingHours;
+      await prisma.$transaction((tx) => saveReceivingHours(id, hours, tx));
+    }
+
     // Update the customer
     const updatedCustomer = await prisma.customer.update({
       where: {
@@ -212,6 +263,19 @@ export async function PATCH(
           data.deliveryInstructions !== undefined
             ? data.deliveryInstructions
             : undefined,
+        aliases:
+          data.aliases !== undefined
+            ? Array.from(
+                new Set(
+                  (data.aliases as string[])
+                    .map((alias) => alias.trim())
+                    .filter(Boolean)
+                )
+              )
+            : undefined,
+        geofenceRadiusMeters,
+        // A new address needs a new pin
+        ...addressChangeData(existingCustomer.address, data.address),
       },
     });
 
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { addCustomerAliases } from "@/lib/customerMatching";
+
+const MAX_NAME_LENGTH = 200;
+
+// POST /api/admin/customers/aliases - Confirm upload spellings of customer
+// names; each is stored on the customer so route import links it next time.
+//
+// Body: { aliases: { name: string; customerId: string }[] }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = await request.json();
+    const entries = Array.isArray(data.aliases) ? data.aliases : null;
+
+    if (
+      !entries ||
+      entries.length === 0 ||
+      !entries.every(
+        (entry: { name?: unknown; customerId?: unknown }) =>
+          typeof entry?.name === "string" &&
+          entry.name.trim().length > 0 &&
+          entry.name.length <= MAX_NAME_LENGTH &&
+          typeof entry.customerId === "string"
+      )
+    ) {
+      return NextResponse.json(
+        {
+          message: `aliases must be a non-empty array of { name, customerId } with names of ${MAX_NAME_LENGTH} characters or fewer`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let added;
+    try {
+      added = await addCustomerAliases(entries);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ added });
+  } catch (error) {
+    console.error("Error saving customer aliases:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
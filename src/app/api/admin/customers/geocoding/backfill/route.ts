@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { backfillGeocodes } from "@/lib/geocoding";
+
+// POST /api/admin/customers/geocoding/backfill - Geocode the next batch of
+// PENDING customers now instead of waiting for the background job
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await backfillGeocodes();
+    if (!result.enabled) {
+      return NextResponse.json(
+        { message: "No geocoder configured; set GOOGLE_GEOCODING_API_KEY or GEOCODER_FILE" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: `Geocoded ${result.attempted} customer(s)`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error running geocode backfill:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
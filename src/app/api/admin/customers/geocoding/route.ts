@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GeocodeStatus } from "@prisma/client";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { getGeocoder } from "@/lib/geocoders";
+
+// GET /api/admin/customers/geocoding - Customers by pin status for the pin
+// review screen, with the number of customers in each status
+//
+// Query: status (default SUSPICIOUS), search, limit, offset
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "SUSPICIOUS";
+    const search = searchParams.get("search") || "";
+    const limit = parseInt(searchParams.get("limit") || "25");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    if (!Object.values(GeocodeStatus).includes(status as GeocodeStatus)) {
+      return NextResponse.json(
+        { message: `status must be one of ${Object.values(GeocodeStatus).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const where = {
+      isDeleted: false,
+      geocodeStatus: status as GeocodeStatus,
+      ...(search
+        ? {
+            OR: [
+              { name: { contains: search, mode: "insensitive" as const } },
+              { address: { contains: search, mode: "insensitive" as const } },
+            ],
+          }
+        : {}),
+    };
+
+    const [customers, totalCount, statusCounts] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        orderBy: { name: "asc" },
+        skip: offset,
+        take: limit,
+        select: {
+          id: true,
+          name: true,
+          address: true,
+          latitude: true,
+          longitude: true,
+          geocodeStatus: true,
+          geocodeSource: true,
+          geocodedAt: true,
+        },
+      }),
+      prisma.customer.count({ where }),
+      prisma.customer.groupBy({
+        by: ["geocodeStatus"],
+        where: { isDeleted: false },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      customers,
+      totalCount,
+      counts: Object.fromEntries(
+        statusCounts.map((entry) => [entry.geocodeStatus, entry._count._all])
+      ),
+      geocoderConfigured: getGeocoder() !== null,
+    });
+  } catch (error) {
+    console.error("Error fetching customer geocodes:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
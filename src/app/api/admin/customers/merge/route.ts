@@ -140,6 +140,19 @@ export async function POST(request: NextRequest) {
         console.log(`✅ Merged customer: ${duplicate.name} (${duplicate.id})`);
       }
 
+      // Keep the duplicates' alternate spellings so import still links them
+      const mergedAliases = Array.from(
+        new Set(duplicatesToMerge.flatMap((duplicate) => [duplicate.name, ...duplicate.aliases]))
+      ).filter(
+        (alias) => alias !== primaryCustomer.name && !primaryCustomer.aliases.includes(alias)
+      );
+      if (mergedAliases.length > 0) {
+        await tx.customer.update({
+          where: { id: primaryCustomer.id },
+          data: { aliases: { push: mergedAliases } },
+        });
+      }
+
       return {
         totalStopsMoved,
         totalDocumentsMoved,
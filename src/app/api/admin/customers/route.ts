@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { addressChangeData } from "@/lib/geocoding";
 
 // Helper function to merge additional duplicate customers within a transaction
 async function mergeAdditionalCustomersInTransaction(tx: any, existingCustomers: any[], primaryCustomerId: string) {
@@ -191,6 +192,7 @@ export async function POST(request: NextRequest) {
             groupCode: data.groupCode || existingCustomer.groupCode,
             paymentTerms: data.paymentTerms || existingCustomer.paymentTerms,
             deliveryInstructions: data.deliveryInstructions || existingCustomer.deliveryInstructions,
+            ...addressChangeData(existingCustomer.address, data.address || existingCustomer.address),
           },
         });
 
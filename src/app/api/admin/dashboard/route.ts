@@ -266,6 +266,38 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Today's failed stops and why they failed
+    const failedStops = await prisma.stop.findMany({
+      where: {
+        status: "FAILED",
+        route: {
+          date: {
+            gte: today,
+            lt: tomorrow,
+          },
+        },
+        isDeleted: false,
+      },
+      select: {
+        id: true,
+        customerNameFromUpload: true,
+        failedAt: true,
+        failureNotes: true,
+        customer: { select: { name: true } },
+        failureReason: { select: { code: true, label: true } },
+        route: { select: { id: true, routeNumber: true } },
+      },
+      orderBy: { failedAt: "desc" },
+    });
+
+    const failureCounts = new Map<string, { code: string; label: string; count: number }>();
+    failedStops.forEach((stop) => {
+      const reason = stop.failureReason || { code: "UNSPECIFIED", label: "No reason given" };
+      const entry = failureCounts.get(reason.code) || { ...reason, count: 0 };
+      entry.count += 1;
+      failureCounts.set(reason.code, entry);
+    });
+
     // Count active routes
     const activeRoutes = await prisma.route.count({
       where: {
@@ -353,6 +385,11 @@ export async function GET(request: NextRequest) {
         drivers: uniqueDrivers,
       },
       emailStats,
+      failureStats: {
+        total: failedStops.length,
+        byReason: Array.from(failureCounts.values()).sort((a, b) => b.count - a.count),
+        stops: failedStops,
+      },
     };
 
     // Create response with cache control headers
@@ -2,12 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { verifyToken } from "@/lib/auth";
 import prisma from "@/lib/db";
 import {
+  IntakeAssignment,
+  commitIntakeAssignment,
   processIntakeFile,
   searchStopsForIntake,
   searchCustomersForIntake,
 } from "@/lib/documentIntakeService";
-import { fileManager } from "@/lib/fileManager";
-import { DocumentType } from "@prisma/client";
 
 function authCheck(request: NextRequest): { adminId: string } | NextResponse {
   const authHeader = request.headers.get("authorization");
@@ -116,15 +116,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: "No assignments provided for commit." }, { status: 400 });
     }
 
-    interface Assignment {
-      fileName: string;
-      stopId: string | null;      // null = customer-only attachment
-      customerId: string;
-      docType: string;
-      referenceNumber?: string;   // invoice / credit memo / PO number
-      amount?: string;            // invoice total or credit memo amount
-    }
-    const assignments: Assignment[] = JSON.parse(assignmentsRaw);
+    const assignments: IntakeAssignment[] = JSON.parse(assignmentsRaw);
 
     const fileMap = new Map(files.map((f) => [f.name, f]));
 
@@ -137,22 +129,6 @@ export async function POST(request: NextRequest) {
     const errors: Array<{ fileName: string; error: string }> = [];
     const skippedList: Array<{ fileName: string; reason: string }> = [];
 
-    // Category mapping for organized file storage
-    const categoryFor = (docType: string): "documents" => "documents";
-    const subCategoryFor = (docType: string): string | undefined => {
-      switch (docType) {
-        case "INVOICE":
-        case "CUSTOMER_INVOICE":
-          return "invoices";
-        case "CREDIT_MEMO":
-          return "credit-memos";
-        case "STATEMENT":
-          return "statements";
-        default:
-          return undefined;
-      }
-    };
-
     for (const assignment of assignments) {
       const file = fileMap.get(assignment.fileName);
       if (!file) {
@@ -160,168 +136,14 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
-      try {
-        const buffer = Buffer.from(await file.arrayBuffer());
-
-        // uploadFile deduplicates by sha256 checksum — same bytes return the
-        // existing File record instead of creating a new one on disk.
-        const upload = await fileManager.uploadFile(
-          buffer,
-          file.name,
-          file.type || "application/octet-stream",
-          adminId,
-          {
-            category: categoryFor(assignment.docType),
-            subCategory: subCategoryFor(assignment.docType),
-          }
-        );
-
-        // Scope customerId: only customer-only attachments surface under the
-        // customer's documents list (which is also injected into every stop
-        // for that customer by /api/driver/stops/[id]/documents). Stop-level
-        // attachments must NOT set customerId, otherwise a single-stop invoice
-        // would leak into every other stop of that customer.
-        const resolvedCustomerId = assignment.stopId ? null : assignment.customerId;
-
-        let document = await prisma.document.findFirst({
-          where: {
-            filePath: upload.filePath,
-            customerId: resolvedCustomerId,
-            type: (assignment.docType as DocumentType) || "OTHER",
-            isDeleted: false,
-          },
-        });
-
-        if (!document) {
-          document = await prisma.document.create({
-            data: {
-              title: file.name,
-              description: `Batch intake — assigned by admin`,
-              type: (assignment.docType as DocumentType) || "OTHER",
-              filePath: upload.filePath,
-              fileName: upload.originalName,
-              fileSize: upload.fileSize,
-              mimeType: upload.mimeType,
-              uploadedBy: adminId,
-              customerId: resolvedCustomerId,
-            },
-          });
-        }
-
-        // Stop-level attachment: guard against duplicate link.
-        if (assignment.stopId) {
-          const existingLink = await prisma.stopDocument.findFirst({
-            where: {
-              stopId: assignment.stopId,
-              documentId: document.id,
-              isDeleted: false,
-            },
-          });
-          if (existingLink) {
-            skippedList.push({
-              fileName: assignment.fileName,
-              reason: "Already attached to this stop.",
-            });
-            skipped++;
-            await prisma.documentIntakeLog.create({
-              data: {
-                batchId: batch.id,
-                fileName: assignment.fileName,
-                fileSize: file.size,
-                status: "UNMATCHED",
-                flow: "stop",
-                docType: assignment.docType as DocumentType,
-                resolvedToId: assignment.stopId,
-                errorMessage: "Duplicate: already attached to this stop.",
-              },
-            });
-            continue;
-          }
-          await prisma.stopDocument.create({
-            data: { stopId: assignment.stopId, documentId: document.id },
-          });
-
-          // Sync reference number and amount back to the Stop record, matching
-          // the behaviour of the legacy single-file upload route.
-          const refNumber = (assignment.referenceNumber || "").trim();
-          const amountStr = (assignment.amount || "").trim();
-          const parsedAmount = amountStr !== "" ? parseFloat(amountStr) : null;
-          const hasValidAmount = parsedAmount !== null && !isNaN(parsedAmount);
-
-          if (refNumber || hasValidAmount) {
-            const stopUpdate: {
-              quickbooksInvoiceNum?: string;
-              amount?: number;
-              creditMemoNumber?: string;
-              creditMemoAmount?: number;
-            } = {};
-
-            if (assignment.docType === "INVOICE") {
-              if (refNumber) stopUpdate.quickbooksInvoiceNum = refNumber;
-              if (hasValidAmount) stopUpdate.amount = parsedAmount!;
-            } else if (assignment.docType === "CREDIT_MEMO") {
-              if (refNumber) stopUpdate.creditMemoNumber = refNumber;
-              if (hasValidAmount) stopUpdate.creditMemoAmount = parsedAmount!;
-            }
-
-            if (Object.keys(stopUpdate).length > 0) {
-              await prisma.stop.update({
-                where: { id: assignment.stopId! },
-                data: stopUpdate,
-              });
-            }
-
-            // For credit memos, also create/update the CreditMemo record
-            // (mirrors the single-file upload route behaviour).
-            if (assignment.docType === "CREDIT_MEMO" && hasValidAmount) {
-              const cmNum = refNumber || "N/A";
-              const existingCM = await prisma.creditMemo.findFirst({
-                where: { stopId: assignment.stopId!, creditMemoNumber: cmNum, isDeleted: false },
-              });
-              if (existingCM) {
-                await prisma.creditMemo.update({
-                  where: { id: existingCM.id },
-                  data: { creditMemoAmount: parsedAmount!, documentId: document.id, updatedAt: new Date() },
-                });
-              } else {
-                await prisma.creditMemo.create({
-                  data: {
-                    stopId: assignment.stopId!,
-                    creditMemoNumber: cmNum,
-                    creditMemoAmount: parsedAmount!,
-                    documentId: document.id,
-                  },
-                });
-              }
-            }
-          }
-        }
-
-        await prisma.documentIntakeLog.create({
-          data: {
-            batchId: batch.id,
-            fileName: file.name,
-            fileSize: file.size,
-            status: "MATCHED",
-            flow: assignment.stopId ? "stop" : "customer",
-            docType: assignment.docType as DocumentType,
-            resolvedToId: assignment.stopId || assignment.customerId,
-          },
-        });
-
+      const result = await commitIntakeAssignment(batch.id, assignment, file, adminId);
+      if (result.outcome === "committed") {
         committed++;
-      } catch (err: any) {
-        console.error("Commit error for", assignment.fileName, err);
-        errors.push({ fileName: assignment.fileName, error: err.message || "Unknown error" });
-        await prisma.documentIntakeLog.create({
-          data: {
-            batchId: batch.id,
-            fileName: assignment.fileName,
-            fileSize: file.size,
-            status: "UNMATCHED",
-            errorMessage: err.message,
-          },
-        });
+      } else if (result.outcome === "skipped") {
+        skippedList.push({ fileName: assignment.fileName, reason: result.reason });
+        skipped++;
+      } else {
+        errors.push({ fileName: assignment.fileName, error: result.error });
       }
     }
 
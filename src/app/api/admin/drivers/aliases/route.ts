@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { saveDriverAliases } from "@/lib/driverAliases";
+
+const MAX_NAME_LENGTH = 100;
+
+// GET /api/admin/drivers/aliases - List saved driver-name aliases used by
+// route import
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const driverId = url.searchParams.get("driverId");
+
+    const aliases = await prisma.driverAlias.findMany({
+      where: { isDeleted: false, ...(driverId ? { driverId } : {}) },
+      include: {
+        driver: { select: { id: true, username: true, fullName: true } },
+      },
+      orderBy: { rawName: "asc" },
+    });
+
+    return NextResponse.json({ aliases });
+  } catch (error) {
+    console.error("Error fetching driver aliases:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/drivers/aliases - Save upload spellings as driver aliases.
+//
+// Body: { aliases: { name: string; driverId: string }[] }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = await request.json();
+    const entries = Array.isArray(data.aliases) ? data.aliases : null;
+
+    if (
+      !entries ||
+      entries.length === 0 ||
+      !entries.every(
+        (entry: { name?: unknown; driverId?: unknown }) =>
+          typeof entry?.name === "string" &&
+          entry.name.trim().length > 0 &&
+          entry.name.length <= MAX_NAME_LENGTH &&
+          typeof entry.driverId === "string"
+      )
+    ) {
+      return NextResponse.json(
+        {
+          message: `aliases must be a non-empty array of { name, driverId } with names of ${MAX_NAME_LENGTH} characters or fewer`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let aliases;
+    try {
+      aliases = await saveDriverAliases(entries, decoded.id);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ aliases }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving driver aliases:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -34,6 +34,9 @@ export async function GET(
         id,
         isDeleted: false,
       },
+      include: {
+        barcodes: { select: { code: true }, orderBy: { createdAt: "asc" } },
+      },
     });
 
     if (!product) {
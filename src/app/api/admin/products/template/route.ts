@@ -27,6 +27,7 @@ export async function GET(request: NextRequest) {
       "SKU",
       "Description",
       "Unit",
+      "Barcodes",
     ];
 
     // Create sample data rows to show the expected format
@@ -36,18 +37,21 @@ export async function GET(request: NextRequest) {
         "SKU-001",
         "This is a sample product description",
         "Box",
+        "012345678905; 10012345678902",
       ],
       [
         "Sample Product 2",
         "SKU-002",
         "Another sample product with detailed description",
         "Case",
+        "4006381333931",
       ],
       [
         "Sample Product 3",
         "SKU-003",
         "Third sample product",
         "Each",
+        "",
       ],
       // Add empty rows for users to fill in
       ...Array(10).fill(Array(headers.length).fill("")),
@@ -64,8 +68,18 @@ export async function GET(request: NextRequest) {
       { wch: 15 },  // SKU
       { wch: 50 },  // Description
       { wch: 10 },  // Unit
+      { wch: 35 },  // Barcodes (several separated by ";")
     ];
 
+    // Keep barcodes as text so Excel doesn't drop a UPC's leading zero
+    for (let row = 1; row < worksheetData.length; row++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: headers.indexOf("Barcodes") })];
+      if (cell) {
+        cell.t = "s";
+        cell.z = "@";
+      }
+    }
+
     // Add worksheet to workbook
     XLSX.utils.book_append_sheet(workbook, worksheet, "Product Template");
 
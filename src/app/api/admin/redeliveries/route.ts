@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { getRedeliveryQueue, getRedeliveryTargetRoutes } from "@/lib/redeliveries";
+
+// GET /api/admin/redeliveries - Failed and undelivered stops waiting to be
+// rescheduled, plus the routes they can be moved onto
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const [stops, routes] = await Promise.all([
+      getRedeliveryQueue(),
+      getRedeliveryTargetRoutes(),
+    ]);
+
+    return NextResponse.json({ stops, routes });
+  } catch (error) {
+    console.error("Error fetching redelivery queue:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { sanitizeReturnReason } from "@/lib/returnReasons";
+
+// PATCH /api/admin/return-reasons/[id] - Update a return reason.
+// Reasons are deactivated rather than deleted so logged returns keep theirs.
+//
+// Body: { label?: string; description?: string | null; requiresPhoto?: boolean;
+//         isActive?: boolean; sortOrder?: number }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { reason, errors } = sanitizeReturnReason(await request.json(), {
+      creating: false,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    const existing = await prisma.returnReason.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { message: "Return reason not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await prisma.returnReason.update({
+      where: { id },
+      data: reason,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating return reason:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { sanitizeReturnReason } from "@/lib/returnReasons";
+
+// GET /api/admin/return-reasons - List return reasons with how often each is used
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const [reasons, usage] = await Promise.all([
+      prisma.returnReason.findMany({
+        orderBy: [{ isActive: "desc" }, { sortOrder: "asc" }, { label: "asc" }],
+      }),
+      prisma.return.groupBy({
+        by: ["reasonCode"],
+        where: { isDeleted: false },
+        _count: { _all: true },
+      }),
+    ]);
+    const counts = new Map(usage.map((row) => [row.reasonCode, row._count._all]));
+
+    return NextResponse.json({
+      reasons: reasons.map((reason) => ({
+        ...reason,
+        returnCount: counts.get(reason.code) ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching return reasons:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/return-reasons - Add a return reason.
+//
+// Body: { code: string; label: string; description?: string;
+//         requiresPhoto?: boolean; isActive?: boolean; sortOrder?: number }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { reason, errors } = sanitizeReturnReason(await request.json(), {
+      creating: true,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    const existing = await prisma.returnReason.findUnique({
+      where: { code: reason.code },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { message: `A return reason with code ${reason.code} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const created = await prisma.returnReason.create({
+      data: { ...reason, code: reason.code as string, label: reason.label as string },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating return reason:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { receiveReturn, sanitizeReceipt } from "@/lib/returnReceiving";
+
+// POST /api/admin/returns/[id]/receive - Confirm a returned item at the warehouse.
+// Drafts the stop's credit memo once all of its returns are received.
+//
+// Body: { receivedQty: number; receivedCondition: "GOOD" | "DAMAGED" | "UNSELLABLE";
+//         warehouseLocation?: string; receivingNotes?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { receipt, errors } = sanitizeReceipt(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = await receiveReturn(id, receipt, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ return: result.received, creditMemo: result.creditMemo });
+  } catch (error) {
+    console.error("Error receiving return:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { ReceivingFilter, getReceivingQueue } from "@/lib/returnReceiving";
+
+const FILTERS: ReceivingFilter[] = ["pending", "received", "all"];
+
+// GET /api/admin/returns?status=pending|received|all - Returns for warehouse
+// receiving (pending by default)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status") || "pending";
+    if (!FILTERS.includes(status as ReceivingFilter)) {
+      return NextResponse.json(
+        { message: "status must be pending, received or all" },
+        { status: 400 }
+      );
+    }
+
+    const returns = await getReceivingQueue(status as ReceivingFilter);
+
+    return NextResponse.json({ returns });
+  } catch (error) {
+    console.error("Error fetching returns for receiving:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { applyRouteMove, checkRouteMove, type RouteMove } from "@/lib/routeCalendar";
+
+// POST /api/admin/routes/[id]/move - Move a calendar entry to another day
+// and/or driver. Without `confirm` nothing is saved and the response lists
+// the conflicts the move would run into.
+//
+// Body: { fromDriverName: string | null; toDate?: string;
+//         toDriverId?: string | null; confirm?: boolean }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await request.json();
+
+    const move: RouteMove = {
+      routeId: id,
+      fromDriverName:
+        typeof data.fromDriverName === "string" && data.fromDriverName
+          ? data.fromDriverName
+          : null,
+      toDate: typeof data.toDate === "string" ? data.toDate : undefined,
+      toDriverId:
+        data.toDriverId === null || typeof data.toDriverId === "string"
+          ? data.toDriverId
+          : undefined,
+    };
+
+    try {
+      const conflicts = await checkRouteMove(move);
+      if (data.confirm !== true) {
+        return NextResponse.json({ conflicts, saved: false });
+      }
+
+      const result = await applyRouteMove(move);
+      return NextResponse.json({ conflicts, saved: true, ...result });
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Error moving route:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { proposeStopOrder } from "@/lib/stopSequencing";
+
+// POST /api/admin/routes/[id]/optimize-driver-stops - Propose a shorter
+// visiting order for a subset of a route's stops (e.g. one driver's stops).
+// Nothing is saved; accept the proposal by sending its stopIds to
+// reorder-driver-stops.
+//
+// Body: { stopIds: string[]; driverId?: string; start?: "driver" | "depot" }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: routeId } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { stopIds, driverId, start } = await request.json();
+    if (!Array.isArray(stopIds) || stopIds.length === 0) {
+      return NextResponse.json(
+        { message: "stopIds array is required" },
+        { status: 400 }
+      );
+    }
+    if (start !== undefined && start !== null && start !== "driver" && start !== "depot") {
+      return NextResponse.json(
+        { message: 'start must be "driver" or "depot"' },
+        { status: 400 }
+      );
+    }
+
+    let proposal;
+    try {
+      proposal = await proposeStopOrder(routeId, stopIds, { driverId, start });
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(proposal);
+  } catch (error) {
+    console.error("Error optimizing driver stops:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { duplicateRoute, sanitizeDuplicateOptions } from "@/lib/routeDuplication";
 
 // GET /api/admin/routes/[id] - Get a specific route with its stops
 export async function GET(
@@ -89,6 +90,7 @@ export async function GET(
             creditMemos: {
               where: {
                 isDeleted: false,
+                status: "ISSUED",
               },
               orderBy: {
                 createdAt: "desc",
@@ -197,6 +199,67 @@ export async function PATCH(
   }
 }
 
+// POST /api/admin/routes/[id] - Duplicate the route to another date.
+// Invoice numbers, amounts and payment flags are cleared unless the matching
+// option is false; payments, photos and status are never copied.
+//
+// Body: { date: string; clearInvoiceNumbers?: boolean; clearAmounts?: boolean;
+//         clearPaymentFlags?: boolean }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get the route ID from the URL - await the params object
+    const routeParams = await params;
+    const id = routeParams.id;
+
+    const { options, errors } = sanitizeDuplicateOptions(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = await duplicateRoute(id, options, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message === "Route not found" ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: `Route duplicated to ${options.date}`, ...result },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error duplicating route:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/admin/routes/[id] - Delete a route (soft delete)
 export async function DELETE(
   request: NextRequest,
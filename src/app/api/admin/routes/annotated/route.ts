@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseRouteFile } from "@/lib/routeParser";
+import { verifyToken } from "@/lib/auth";
+import { resolveParseOptions } from "@/lib/routeMappingProfiles";
+import { readRouteUpload } from "@/lib/routeUploadRequest";
+import { detectRouteFileFormat } from "@/lib/routeFileFormats";
+import { annotatedFileName, buildAnnotatedWorkbook } from "@/lib/routeIssueReport";
+
+// POST /api/admin/routes/annotated - Parse a route file and return it as an
+// .xlsx with its errors and warnings marked on the offending rows and cells
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const upload = await readRouteUpload(request);
+
+    if (!upload) {
+      return NextResponse.json(
+        { message: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    let parseOptions;
+    try {
+      parseOptions = await resolveParseOptions(upload.profileId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+    const parseResult = await parseRouteFile(
+      upload.buffer,
+      upload.fileName,
+      parseOptions
+    );
+
+    const workbook = buildAnnotatedWorkbook(
+      upload.buffer,
+      detectRouteFileFormat(upload.fileName, upload.buffer),
+      parseResult.issues
+    );
+
+    return new NextResponse(new Uint8Array(workbook), {
+      headers: {
+        "Content-Type":
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="${annotatedFileName(upload.fileName)}"`,
+        "X-Issue-Count": String(parseResult.issues.length),
+      },
+    });
+  } catch (error) {
+    console.error("Error building annotated route file:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
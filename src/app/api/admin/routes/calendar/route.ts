@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { getRouteCalendar } from "@/lib/routeCalendar";
+
+// GET /api/admin/routes/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD - Routes per
+// day and driver, with stop counts and totals
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    if (!from || !to) {
+      return NextResponse.json(
+        { message: "from and to are required" },
+        { status: 400 }
+      );
+    }
+
+    let calendar;
+    try {
+      calendar = await getRouteCalendar(from, to);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(calendar);
+  } catch (error) {
+    console.error("Error fetching route calendar:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
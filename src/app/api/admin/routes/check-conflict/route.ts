@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseRouteExcel } from "@/lib/routeParser";
-import prisma from "@/lib/db";
+import { parseRouteFile } from "@/lib/routeParser";
 import { verifyToken } from "@/lib/auth";
+import { resolveParseOptions } from "@/lib/routeMappingProfiles";
+import { readRouteUpload } from "@/lib/routeUploadRequest";
+import { summarizeDetectedRoutes } from "@/lib/routeConflicts";
+import { collectDriverNames, resolveDriverNames } from "@/lib/driverAliases";
+import { customerInputsFromStops, matchCustomers } from "@/lib/customerMatching";
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,22 +26,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Get the uploaded file
-    const formData = await request.formData();
-    const file = formData.get("file") as File;
+    // Get the uploaded file (multipart XLSX/CSV/JSON, or a JSON body)
+    const upload = await readRouteUpload(request);
 
-    if (!file) {
+    if (!upload) {
       return NextResponse.json(
         { message: "No file provided" },
         { status: 400 }
       );
     }
 
-    // Read the Excel file
-    const buffer = Buffer.from(await file.arrayBuffer());
-
-    // Parse the Excel file to get route information
-    const parseResult = await parseRouteExcel(buffer);
+    // Parse the route file
+    let parseOptions;
+    try {
+      parseOptions = await resolveParseOptions(upload.profileId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+    const parseResult = await parseRouteFile(
+      upload.buffer,
+      upload.fileName,
+      parseOptions
+    );
 
     if (!parseResult.success) {
       return NextResponse.json(
@@ -45,6 +58,9 @@ export async function POST(request: NextRequest) {
           message: "Failed to parse route data",
           errors: parseResult.errors,
           warnings: parseResult.warnings,
+          issues: parseResult.issues,
+          mappingProfile: parseResult.mappingProfile,
+          source: parseResult.source,
         },
         { status: 400 }
       );
@@ -59,43 +75,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if a route with the same route number AND date already exists
-    const routeDate = parseResult.route?.date;
-
-    if (!routeDate) {
-      return NextResponse.json(
-        { message: "No route date found in the file" },
-        { status: 400 }
-      );
-    }
-
-    // Normalize the route date to start of day for consistent comparison
-    const normalizedRouteDate = new Date(routeDate);
-    normalizedRouteDate.setHours(0, 0, 0, 0);
-
-    // Find existing route with same route number and date (within the same day)
-    const startOfDay = new Date(normalizedRouteDate);
-    const endOfDay = new Date(normalizedRouteDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const existingRoute = await prisma.route.findFirst({
-      where: {
-        routeNumber: routeNumber,
-        date: {
-          gte: startOfDay,
-          lte: endOfDay,
-        },
-        isDeleted: false,
-      },
-      include: {
-        _count: {
-          select: {
-            stops: true,
-          },
-        },
-      },
-    });
-
     if (!parseResult.route) {
       return NextResponse.json(
         { message: "No route data found in the file" },
@@ -103,20 +82,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check every route in the file against existing routes with the same
+    // route number AND date
+    const routes = await summarizeDetectedRoutes(
+      parseResult.routes ?? [],
+      upload.protectDriverProgress
+    );
+    const existingRoute = routes.find((r) => r.conflict)?.conflict ?? null;
+    // How each driver name in the file maps to a driver account
+    const driverNames = await resolveDriverNames(
+      collectDriverNames((parseResult.routes ?? []).map((group) => group.route))
+    );
+    // Existing customers each customer name links to, or needs review against
+    const customerMatches = await matchCustomers(
+      customerInputsFromStops((parseResult.routes ?? []).flatMap((group) => group.route.stops))
+    );
+
     const response = {
       routeNumber,
-      hasConflict: !!existingRoute,
-      existingRoute: existingRoute
-        ? {
-            id: existingRoute.id,
-            routeNumber: existingRoute.routeNumber,
-            date: existingRoute.date,
-            status: existingRoute.status,
-            stopCount: existingRoute._count.stops,
-            createdAt: existingRoute.createdAt,
-            updatedAt: existingRoute.updatedAt,
-          }
-        : null,
+      hasConflict: routes.some((r) => r.conflict),
+      existingRoute,
+      // Stop-level changes a merge into the first conflicting route would make
+      diff: routes.find((r) => r.conflict)?.diff ?? null,
       newRoute: {
         routeNumber: parseResult.route.routeNumber,
         date: parseResult.route.date,
@@ -131,7 +118,14 @@ export async function POST(request: NextRequest) {
         rowsSucceeded: parseResult.rowsSucceeded,
         rowsFailed: parseResult.rowsFailed,
         warnings: parseResult.warnings,
+        issues: parseResult.issues,
+        mappingProfile: parseResult.mappingProfile,
+        source: parseResult.source,
       },
+      // Every route found in the file, with its own conflict
+      routes,
+      driverNames,
+      customerMatches,
     };
 
     return NextResponse.json(response);
@@ -187,6 +187,8 @@ export async function GET(request: NextRequest) {
           "Invoice Number": cleanText(stop.quickbooksInvoiceNum),
           "Order Amount": formatCurrency(stop.amount),
           "Is COD": formatYesNo(stop.isCOD),
+          "Credit Memo Number": cleanText(stop.creditMemoNumber),
+          "Credit Memo Amount": formatCurrency(stop.creditMemoAmount),
 
           // === DRIVER ASSIGNMENT ===
           "Assigned Driver": cleanText(stop.driverNameFromUpload || route.driver?.fullName || route.driver?.username),
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { sanitizeColumnMapping } from "@/lib/routeColumnMapping";
+import { toMappingProfile } from "@/lib/routeMappingProfiles";
+
+const MAX_NAME_LENGTH = 100;
+
+// PUT /api/admin/routes/mapping-profiles/[id] - Update a column-mapping
+// profile. Any of name, description, isDefault and mapping may be sent.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const existing = await prisma.routeMappingProfile.findFirst({
+      where: { id, isDeleted: false },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { message: "Mapping profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const data = await request.json();
+    const updateData: Prisma.RouteMappingProfileUpdateInput = {
+      updatedBy: decoded.id,
+    };
+
+    if (data.name !== undefined) {
+      const name = typeof data.name === "string" ? data.name.trim() : "";
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json(
+          { message: `name is required and must be ${MAX_NAME_LENGTH} characters or fewer` },
+          { status: 400 }
+        );
+      }
+      if (name !== existing.name) {
+        const clash = await prisma.routeMappingProfile.findUnique({
+          where: { name },
+        });
+        if (clash) {
+          return NextResponse.json(
+            { message: `A mapping profile named "${name}" already exists` },
+            { status: 409 }
+          );
+        }
+      }
+      updateData.name = name;
+    }
+
+    if (data.description !== undefined) {
+      updateData.description =
+        typeof data.description === "string" && data.description.trim()
+          ? data.description.trim()
+          : null;
+    }
+
+    if (data.mapping !== undefined) {
+      const { mapping, errors } = sanitizeColumnMapping(data.mapping);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { message: "Invalid column mapping", errors },
+          { status: 400 }
+        );
+      }
+      updateData.mapping = mapping as unknown as Prisma.InputJsonValue;
+    }
+
+    if (data.isDefault !== undefined) {
+      updateData.isDefault = data.isDefault === true;
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      if (updateData.isDefault) {
+        await tx.routeMappingProfile.updateMany({
+          where: { isDefault: true, id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.routeMappingProfile.update({
+        where: { id },
+        data: updateData,
+      });
+    });
+
+    return NextResponse.json({
+      ...toMappingProfile(profile),
+      description: profile.description,
+    });
+  } catch (error) {
+    console.error("Error updating mapping profile:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/routes/mapping-profiles/[id] - Soft delete a profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await prisma.routeMappingProfile.updateMany({
+      where: { id, isDeleted: false },
+      data: { isDeleted: true, isDefault: false, updatedBy: decoded.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { message: "Mapping profile not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting mapping profile:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { BUILT_IN_PROFILE, sanitizeColumnMapping } from "@/lib/routeColumnMapping";
+import {
+  BUILT_IN_PROFILE_ID,
+  listMappingProfiles,
+  toMappingProfile,
+} from "@/lib/routeMappingProfiles";
+
+const MAX_NAME_LENGTH = 100;
+
+// GET /api/admin/routes/mapping-profiles - List saved column-mapping
+// profiles for route spreadsheet import, plus the built-in layout.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const rows = await listMappingProfiles();
+
+    return NextResponse.json({
+      profiles: rows.map((row) => ({
+        ...toMappingProfile(row),
+        description: row.description,
+        updatedAt: row.updatedAt,
+      })),
+      builtIn: { ...BUILT_IN_PROFILE, id: BUILT_IN_PROFILE_ID },
+    });
+  } catch (error) {
+    console.error("Error fetching mapping profiles:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/routes/mapping-profiles - Create a column-mapping profile.
+//
+// Body: { name: string; description?: string; isDefault?: boolean;
+//         mapping: { fields: { [field]: { headers: string[]; fallbackColumn?: string } };
+//                    dataStartRow?: number } }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = await request.json();
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    const description =
+      typeof data.description === "string" && data.description.trim()
+        ? data.description.trim()
+        : null;
+    const isDefault = data.isDefault === true;
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { message: `name is required and must be ${MAX_NAME_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const { mapping, errors } = sanitizeColumnMapping(data.mapping);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { message: "Invalid column mapping", errors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.routeMappingProfile.findUnique({
+      where: { name },
+    });
+
+    if (existing && !existing.isDeleted) {
+      return NextResponse.json(
+        { message: `A mapping profile named "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.routeMappingProfile.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      // Names are unique, so re-creating a deleted profile revives its row
+      if (existing) {
+        return tx.routeMappingProfile.update({
+          where: { id: existing.id },
+          data: {
+            description,
+            mapping: mapping as unknown as Prisma.InputJsonValue,
+            isDefault,
+            isDeleted: false,
+            updatedBy: decoded.id,
+          },
+        });
+      }
+
+      return tx.routeMappingProfile.create({
+        data: {
+          name,
+          description,
+          mapping: mapping as unknown as Prisma.InputJsonValue,
+          isDefault,
+          createdBy: decoded.id,
+        },
+      });
+    });
+
+    return NextResponse.json(
+      { ...toMappingProfile(profile), description: profile.description },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating mapping profile:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
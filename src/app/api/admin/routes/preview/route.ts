@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseRouteExcel } from "@/lib/routeParser";
+import { parseRouteFile } from "@/lib/routeParser";
 import { verifyToken } from "@/lib/auth";
+import { resolveParseOptions } from "@/lib/routeMappingProfiles";
+import { readRouteUpload } from "@/lib/routeUploadRequest";
+import { summarizeDetectedRoutes } from "@/lib/routeConflicts";
+import { collectDriverNames, resolveDriverNames } from "@/lib/driverAliases";
+import { customerInputsFromStops, matchCustomers } from "@/lib/customerMatching";
 
-// POST /api/admin/routes/preview - Preview route data from Excel file
+// POST /api/admin/routes/preview - Preview route data from an XLSX, CSV or JSON file
 export async function POST(request: NextRequest) {
   try {
     // Verify authentication
@@ -22,22 +27,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Get the uploaded file
-    const formData = await request.formData();
-    const file = formData.get("file") as File;
+    // Get the uploaded file (multipart XLSX/CSV/JSON, or a JSON body)
+    const upload = await readRouteUpload(request);
 
-    if (!file) {
+    if (!upload) {
       return NextResponse.json(
         { message: "No file provided" },
         { status: 400 }
       );
     }
 
-    // Read the Excel file
-    const buffer = Buffer.from(await file.arrayBuffer());
-
-    // Parse the Excel file
-    const parseResult = await parseRouteExcel(buffer);
+    // Parse the route file
+    let parseOptions;
+    try {
+      parseOptions = await resolveParseOptions(upload.profileId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+    const parseResult = await parseRouteFile(
+      upload.buffer,
+      upload.fileName,
+      parseOptions
+    );
 
     if (!parseResult.success) {
       return NextResponse.json(
@@ -45,12 +59,30 @@ export async function POST(request: NextRequest) {
           message: "Failed to parse route data",
           errors: parseResult.errors,
           warnings: parseResult.warnings,
+          issues: parseResult.issues,
+          mappingProfile: parseResult.mappingProfile,
+          source: parseResult.source,
         },
         { status: 400 }
       );
     }
 
-    // Return a preview of the route data
+    // Each route in the file with its stop count, conflict and warnings
+    const routes = await summarizeDetectedRoutes(
+      parseResult.routes ?? [],
+      upload.protectDriverProgress
+    );
+    // How each driver name in the file maps to a driver account
+    const driverNames = await resolveDriverNames(
+      collectDriverNames((parseResult.routes ?? []).map((group) => group.route))
+    );
+    // Existing customers each customer name links to, or needs review against
+    const customerMatches = await matchCustomers(
+      customerInputsFromStops((parseResult.routes ?? []).flatMap((group) => group.route.stops))
+    );
+
+    // Return a preview of the route data (top-level fields describe the
+    // first route, for single-route uploads)
     return NextResponse.json({
       message: "Route data preview generated",
       routeNumber: parseResult.route?.routeNumber,
@@ -68,9 +100,18 @@ export async function POST(request: NextRequest) {
         return acc;
       }, {} as Record<string, number>),
       warnings: parseResult.warnings,
+      issues: parseResult.issues,
       rowsProcessed: parseResult.rowsProcessed,
       rowsSucceeded: parseResult.rowsSucceeded,
       rowsFailed: parseResult.rowsFailed,
+      mappingProfile: parseResult.mappingProfile,
+      source: parseResult.source,
+      routes,
+      driverNames,
+      customerMatches,
+      // Stop-level diff for the first route, when it already exists
+      diff: routes[0]?.diff ?? null,
+      sheets: parseResult.sheets,
     });
   } catch (error) {
     console.error("Route preview error:", error);
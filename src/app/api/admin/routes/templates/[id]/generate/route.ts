@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { generateRoutesFromTemplate } from "@/lib/routeTemplates";
+
+// POST /api/admin/routes/templates/[id]/generate - Create routes from a
+// template for each of its weekdays in a date range. Days that already have
+// the template's route number are skipped and listed in the response.
+//
+// Body: { from: "YYYY-MM-DD"; to: "YYYY-MM-DD" }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = await request.json();
+    if (typeof data.from !== "string" || typeof data.to !== "string") {
+      return NextResponse.json(
+        { message: "from and to are required" },
+        { status: 400 }
+      );
+    }
+
+    let result;
+    try {
+      result = await generateRoutesFromTemplate(id, data.from, data.to, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message === "Route template not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: `Created ${result.created.length} route(s), skipped ${result.skipped.length}`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error generating routes from template:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
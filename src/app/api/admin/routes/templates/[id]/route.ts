@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import {
+  ROUTE_TEMPLATE_INCLUDE,
+  sanitizeRouteTemplate,
+  updateRouteTemplate,
+} from "@/lib/routeTemplates";
+
+// GET /api/admin/routes/templates/[id] - Get a route template with its stops
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const template = await prisma.routeTemplate.findFirst({
+      where: { id, isDeleted: false },
+      include: ROUTE_TEMPLATE_INCLUDE,
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { message: "Route template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("Error fetching route template:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/routes/templates/[id] - Replace a route template. Takes the
+// same body as POST; the stop list replaces the old one. Routes already
+// generated from the template are not changed.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const existing = await prisma.routeTemplate.findFirst({
+      where: { id, isDeleted: false },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { message: "Route template not found" },
+        { status: 404 }
+      );
+    }
+
+    const { template, errors } = sanitizeRouteTemplate(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { message: "Invalid route template", errors },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const updated = await updateRouteTemplate(id, template, decoded.id);
+      return NextResponse.json(updated);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Error updating route template:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/routes/templates/[id] - Soft delete a route template.
+// Routes generated from it stay.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await prisma.routeTemplate.updateMany({
+      where: { id, isDeleted: false },
+      data: { isDeleted: true, isActive: false, updatedBy: decoded.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { message: "Route template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting route template:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import {
+  ROUTE_TEMPLATE_INCLUDE,
+  createRouteTemplate,
+  sanitizeRouteTemplate,
+} from "@/lib/routeTemplates";
+
+// GET /api/admin/routes/templates - List recurring route templates
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const templates = await prisma.routeTemplate.findMany({
+      where: { isDeleted: false },
+      include: {
+        ...ROUTE_TEMPLATE_INCLUDE,
+        _count: { select: { routes: { where: { isDeleted: false } } } },
+      },
+      orderBy: [{ isActive: "desc" }, { routeNumber: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching route templates:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/routes/templates - Create a route template.
+//
+// Body: { name: string; routeNumber: string; driverId?: string;
+//         weekdays: number[] (0 = Sunday); notes?: string; isActive?: boolean;
+//         stops: { customerId: string; initialDriverNotes?: string; isCOD?: boolean }[] }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { template, errors } = sanitizeRouteTemplate(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { message: "Invalid route template", errors },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const created = await createRouteTemplate(template, decoded.id);
+      return NextResponse.json(created, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Error creating route template:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
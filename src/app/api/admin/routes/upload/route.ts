@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseRouteExcel, saveRouteToDatabase } from "@/lib/routeParser";
+import { parseRouteFile, saveRoutesToDatabase } from "@/lib/routeParser";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { resolveParseOptions } from "@/lib/routeMappingProfiles";
+import {
+  RouteSelection,
+  parseRouteSelection,
+  readRouteUpload,
+} from "@/lib/routeUploadRequest";
+import { detectRouteFileFormat } from "@/lib/routeFileFormats";
+import { findExistingRoute } from "@/lib/routeConflicts";
+import { loadRouteDiff } from "@/lib/routeDiff";
+import { storeRouteUploadFile } from "@/lib/routeUploadHistory";
 import { debugTimezoneConversion } from "@/lib/timezone";
 
 // Configure route settings for large file uploads (Next.js 15)
@@ -9,7 +19,16 @@ export const runtime = 'nodejs';
 export const maxDuration = 60; // 60 seconds timeout
 export const dynamic = 'force-dynamic';
 
+// The upload only counts as COMPLETED once its routes are saved
+async function markUploadFailed(uploadId: string, errorMessage: string) {
+  await prisma.routeUpload.update({
+    where: { id: uploadId },
+    data: { status: "FAILED", errorMessage, processedAt: new Date() },
+  });
+}
+
 export async function POST(request: NextRequest) {
+  let uploadId: string | null = null;
   try {
     // Verify authentication
     const authHeader = request.headers.get("authorization");
@@ -28,33 +47,53 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Get the uploaded file and action
-    const formData = await request.formData();
-    const file = formData.get("file") as File;
-    const action = formData.get("action") as string; // 'create', 'update', or null for auto-detect
+    // Get the uploaded file and action (multipart XLSX/CSV/JSON, or a JSON body)
+    const upload = await readRouteUpload(request);
 
-    if (!file) {
+    if (!upload) {
       return NextResponse.json(
         { message: "No file provided" },
         { status: 400 }
       );
     }
 
+    // Resolve the column mapping and route selection before recording the upload
+    let parseOptions;
+    let selection: RouteSelection[] | null;
+    try {
+      parseOptions = await resolveParseOptions(upload.profileId);
+      selection = parseRouteSelection(upload.routes);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
     // Create a record of the upload
     const uploadRecord = await prisma.routeUpload.create({
       data: {
-        fileName: `route_${Date.now()}.xlsx`,
-        originalFileName: file.name,
+        fileName: `route_${Date.now()}.${detectRouteFileFormat(upload.fileName, upload.buffer)}`,
+        originalFileName: upload.fileName,
         uploadedBy: decoded.id,
         status: "PROCESSING",
       },
     });
+    uploadId = uploadRecord.id;
 
-    // Read the Excel file
-    const buffer = Buffer.from(await file.arrayBuffer());
+    // Keep the source file so the upload can be re-downloaded from history
+    const storedFile = await storeRouteUploadFile(
+      uploadRecord.id,
+      upload.fileName,
+      upload.buffer
+    );
 
-    // Parse the Excel file
-    const parseResult = await parseRouteExcel(buffer);
+    // Parse the route file
+    const parseResult = await parseRouteFile(
+      upload.buffer,
+      upload.fileName,
+      parseOptions
+    );
 
     // Update the upload record with parsing results
     await prisma.routeUpload.update({
@@ -63,7 +102,8 @@ export async function POST(request: NextRequest) {
         rowsProcessed: parseResult.rowsProcessed,
         rowsSucceeded: parseResult.rowsSucceeded,
         rowsFailed: parseResult.rowsFailed,
-        status: parseResult.success ? "COMPLETED" : "FAILED",
+        ...(!parseResult.success && { status: "FAILED" }),
+        ...storedFile,
         errorMessage:
           parseResult.errors.length > 0 ? parseResult.errors.join("; ") : null,
         processedAt: new Date(),
@@ -76,48 +116,150 @@ export async function POST(request: NextRequest) {
           message: "Failed to parse route data",
           errors: parseResult.errors,
           warnings: parseResult.warnings,
+          issues: parseResult.issues,
+          mappingProfile: parseResult.mappingProfile,
+          source: parseResult.source,
         },
         { status: 400 }
       );
     }
 
-    // Save the route to the database
-    const result = await saveRouteToDatabase(
-      parseResult.route!,
+    // Pick the routes to commit: the admin's selection from the preview, or
+    // every route in the file
+    const detectedRoutes = parseResult.routes ?? [];
+    const unknownKeys = (selection ?? [])
+      .map((entry) => entry.key)
+      .filter((key) => !detectedRoutes.some((r) => r.key === key));
+    if (unknownKeys.length > 0) {
+      const message = `Routes not found in the file: ${unknownKeys.join(", ")}`;
+      await markUploadFailed(uploadRecord.id, message);
+      return NextResponse.json({ message }, { status: 400 });
+    }
+
+    const toSave = selection
+      ? selection.map((entry) => ({
+          detected: detectedRoutes.find((r) => r.key === entry.key)!,
+          action: entry.action ?? upload.action,
+        }))
+      : detectedRoutes.map((detected) => ({ detected, action: upload.action }));
+
+    if (toSave.length === 0) {
+      await markUploadFailed(uploadRecord.id, "No routes selected");
+      return NextResponse.json(
+        { message: "No routes selected" },
+        { status: 400 }
+      );
+    }
+
+    // Replacing a route throws away any work the driver has done on it, so
+    // refuse while driver-progress protection is on
+    if (upload.protectDriverProgress) {
+      const blocked = [];
+      for (const { detected, action } of toSave) {
+        if (action !== "create" || !detected.route.routeNumber) continue;
+        const existing = await findExistingRoute(
+          detected.route.routeNumber,
+          detected.route.date
+        );
+        if (!existing) continue;
+        const diff = await loadRouteDiff(existing.id, detected.route);
+        if (diff.summary.withProgress > 0) {
+          blocked.push({
+            key: detected.key,
+            routeNumber: detected.route.routeNumber,
+            existingRouteId: existing.id,
+            stopsWithProgress: diff.summary.withProgress,
+          });
+        }
+      }
+
+      if (blocked.length > 0) {
+        const message =
+          "Some routes have stops the driver has already worked. Merge into them instead, or turn off driver-progress protection to replace them.";
+        await markUploadFailed(uploadRecord.id, message);
+        return NextResponse.json({ message, blockedRoutes: blocked }, { status: 409 });
+      }
+    }
+
+    // Save the routes to the database in one transaction
+    const saved = await saveRoutesToDatabase(
+      toSave.map(({ detected, action }) => ({ route: detected.route, action })),
       decoded.id,
       uploadRecord.fileName,
-      action
+      {
+        protectDriverProgress: upload.protectDriverProgress,
+        uploadId: uploadRecord.id,
+      }
     );
 
-    const { route, isUpdate } = result;
-
-    // Debug logging for route upload completion
-    console.log(`[ROUTE UPLOAD] Route ${isUpdate ? 'updated' : 'created'} successfully:`, {
-      routeId: route.id,
-      routeNumber: route.routeNumber,
-      uploadedAt: new Date().toISOString(),
-      uploadedAtPST: new Date().toLocaleString("en-US", { timeZone: "America/Los_Angeles" })
+    await prisma.routeUpload.update({
+      where: { id: uploadRecord.id },
+      data: { status: "COMPLETED" },
     });
 
-    debugTimezoneConversion("Route Date Stored", route.date);
+    for (const { route, isUpdate } of saved) {
+      // Debug logging for route upload completion
+      console.log(`[ROUTE UPLOAD] Route ${isUpdate ? 'updated' : 'created'} successfully:`, {
+        routeId: route.id,
+        routeNumber: route.routeNumber,
+        uploadedAt: new Date().toISOString(),
+        uploadedAtPST: new Date().toLocaleString("en-US", { timeZone: "America/Los_Angeles" })
+      });
+
+      debugTimezoneConversion("Route Date Stored", route.date);
+    }
+
+    const { route, isUpdate } = saved[0];
+    const unmatchedDriverNames = Array.from(
+      new Set(saved.flatMap((result) => result.unmatchedDriverNames))
+    );
 
     return NextResponse.json({
-      message: isUpdate
-        ? "Route updated successfully"
-        : "Route uploaded and processed successfully",
+      message:
+        saved.length > 1
+          ? `${saved.length} routes saved successfully`
+          : isUpdate
+          ? "Route updated successfully"
+          : "Route uploaded and processed successfully",
+      uploadId: uploadRecord.id,
       routeId: route.id,
       routeNumber: route.routeNumber,
       // driverName removed as requested
-      stopCount: parseResult.route!.stops.length,
+      stopCount: toSave[0].detected.route.stops.length,
       warnings: parseResult.warnings,
+      issues: parseResult.issues,
       rowsProcessed: parseResult.rowsProcessed,
       rowsSucceeded: parseResult.rowsSucceeded,
       rowsFailed: parseResult.rowsFailed,
       isUpdate: isUpdate,
-      unmatchedDriverNames: result.unmatchedDriverNames,
+      unmatchedDriverNames,
+      protectedStopCount: saved.reduce(
+        (total, result) => total + result.protectedStopCount,
+        0
+      ),
+      mappingProfile: parseResult.mappingProfile,
+      source: parseResult.source,
+      // Every route committed by this upload
+      routes: saved.map((result, index) => ({
+        key: toSave[index].detected.key,
+        routeId: result.route.id,
+        routeNumber: result.route.routeNumber,
+        date: result.route.date,
+        stopCount: toSave[index].detected.route.stops.length,
+        isUpdate: result.isUpdate,
+        unmatchedDriverNames: result.unmatchedDriverNames,
+        protectedStopCount: result.protectedStopCount,
+      })),
     });
   } catch (error) {
     console.error("Route upload error:", error);
+    if (uploadId) {
+      try {
+        await markUploadFailed(uploadId, (error as Error).message);
+      } catch (updateError) {
+        console.error("Error marking route upload as failed:", updateError);
+      }
+    }
     return NextResponse.json(
       {
         message: `An error occurred during route upload: ${
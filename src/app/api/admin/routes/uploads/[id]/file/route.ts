@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { readRouteUploadFile } from "@/lib/routeUploadHistory";
+
+const CONTENT_TYPES: Record<string, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+// GET /api/admin/routes/uploads/[id]/file - Download an upload's source file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const upload = await prisma.routeUpload.findFirst({
+      where: { id, isDeleted: false },
+    });
+
+    if (!upload) {
+      return NextResponse.json({ message: "Upload not found" }, { status: 404 });
+    }
+
+    const buffer = upload.storedFilePath
+      ? await readRouteUploadFile(upload.storedFilePath)
+      : null;
+
+    if (!buffer) {
+      return NextResponse.json(
+        { message: "The source file for this upload was not kept" },
+        { status: 404 }
+      );
+    }
+
+    const extension = upload.originalFileName.split(".").pop()?.toLowerCase() || "";
+    const fileName = upload.originalFileName.replace(/"/g, "");
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[extension] || "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading route upload file:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
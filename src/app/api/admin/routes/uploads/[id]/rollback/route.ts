@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { findLaterUploads, rollbackRouteUpload } from "@/lib/routeUploadHistory";
+
+// POST /api/admin/routes/uploads/[id]/rollback - Undo an upload's route and
+// stop changes, leaving stops with driver activity untouched
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const upload = await prisma.routeUpload.findFirst({
+      where: { id, isDeleted: false },
+      include: { _count: { select: { changes: true } } },
+    });
+
+    if (!upload) {
+      return NextResponse.json({ message: "Upload not found" }, { status: 404 });
+    }
+
+    if (upload.rolledBackAt) {
+      return NextResponse.json(
+        { message: "This upload has already been rolled back" },
+        { status: 409 }
+      );
+    }
+
+    if (upload._count.changes === 0) {
+      return NextResponse.json(
+        { message: "This upload has no recorded route changes to roll back" },
+        { status: 400 }
+      );
+    }
+
+    // Rolling back under a newer upload would clobber its changes
+    const laterUploads = await findLaterUploads(id);
+    if (laterUploads.length > 0) {
+      return NextResponse.json(
+        {
+          message:
+            "Newer uploads changed the same routes. Roll those back first.",
+          laterUploads,
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await rollbackRouteUpload(id, decoded.id);
+
+    console.log(`[ROUTE UPLOAD] Upload ${id} rolled back by ${decoded.id}:`, {
+      stopsRemoved: result.stopsRemoved,
+      stopsRestored: result.stopsRestored,
+      routesRemoved: result.routesRemoved,
+      routesRestored: result.routesRestored,
+      skipped: result.skipped.length,
+    });
+
+    return NextResponse.json({
+      message:
+        result.skipped.length > 0
+          ? `Upload rolled back; ${result.skipped.length} item(s) with driver activity were left untouched`
+          : "Upload rolled back",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error rolling back route upload:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
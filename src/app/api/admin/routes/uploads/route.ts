@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { summarizeUploadChanges } from "@/lib/routeUploadHistory";
+
+// GET /api/admin/routes/uploads - List route uploads, newest first, with
+// what each one changed
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get("limit") || "25");
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+    const where = { isDeleted: false };
+
+    const uploads = await prisma.routeUpload.findMany({
+      where,
+      orderBy: { uploadedAt: "desc" },
+      take: limit,
+      skip: offset,
+    });
+    const totalCount = await prisma.routeUpload.count({ where });
+
+    const userIds = Array.from(
+      new Set(
+        uploads.flatMap((upload) =>
+          upload.rolledBackBy ? [upload.uploadedBy, upload.rolledBackBy] : [upload.uploadedBy]
+        )
+      )
+    );
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, username: true, fullName: true },
+    });
+    const userNames = new Map(
+      users.map((user) => [user.id, user.fullName || user.username])
+    );
+
+    const summaries = await summarizeUploadChanges(uploads.map((upload) => upload.id));
+
+    return NextResponse.json({
+      uploads: uploads.map((upload) => ({
+        id: upload.id,
+        originalFileName: upload.originalFileName,
+        uploadedAt: upload.uploadedAt,
+        uploadedBy: userNames.get(upload.uploadedBy) || upload.uploadedBy,
+        source: upload.source,
+        status: upload.status,
+        errorMessage: upload.errorMessage,
+        rowsProcessed: upload.rowsProcessed,
+        rowsSucceeded: upload.rowsSucceeded,
+        rowsFailed: upload.rowsFailed,
+        fileSize: upload.fileSize,
+        hasFile: !!upload.storedFilePath,
+        rolledBackAt: upload.rolledBackAt,
+        rolledBackBy: upload.rolledBackBy
+          ? userNames.get(upload.rolledBackBy) || upload.rolledBackBy
+          : null,
+        changes: summaries[upload.id],
+      })),
+      totalCount,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error("Error fetching route uploads:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { getSettlementsForDay, recordHandIn, sanitizeHandIn } from "@/lib/driverSettlements";
+import { getPSTDateString } from "@/lib/timezone";
+
+// GET /api/admin/settlements?date=YYYY-MM-DD - Each driver's settlement for the day
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const date = request.nextUrl.searchParams.get("date") || getPSTDateString();
+
+    let settlements;
+    try {
+      settlements = await getSettlementsForDay(date);
+    } catch (error) {
+      return NextResponse.json({ message: (error as Error).message }, { status: 400 });
+    }
+
+    return NextResponse.json({ date, settlements });
+  } catch (error) {
+    console.error("Error fetching settlements:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/settlements - Record the cash and checks a driver handed in
+// Body: { driverId, date, countedCash, checkCount, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body.driverId !== "string" || typeof body.date !== "string") {
+      return NextResponse.json(
+        { message: "driverId and date are required" },
+        { status: 400 }
+      );
+    }
+
+    const { handIn, errors } = sanitizeHandIn(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let settlement;
+    try {
+      settlement = await recordHandIn(body.driverId, body.date, handIn);
+    } catch (error) {
+      return NextResponse.json({ message: (error as Error).message }, { status: 400 });
+    }
+
+    return NextResponse.json(settlement);
+  } catch (error) {
+    console.error("Error recording settlement:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { sanitizeFailureReason } from "@/lib/stopFailures";
+
+// PATCH /api/admin/stop-failure-reasons/[id] - Update a failure reason.
+// Reasons are deactivated rather than deleted so failed stops keep theirs.
+//
+// Body: { label?: string; requiresPhoto?: boolean; isActive?: boolean; sortOrder?: number }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { reason, errors } = sanitizeFailureReason(await request.json(), {
+      creating: false,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    const existing = await prisma.stopFailureReason.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { message: "Failure reason not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await prisma.stopFailureReason.update({
+      where: { id },
+      data: reason,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating stop failure reason:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { sanitizeFailureReason } from "@/lib/stopFailures";
+
+// GET /api/admin/stop-failure-reasons - List failure reasons with how often each is used
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const reasons = await prisma.stopFailureReason.findMany({
+      include: {
+        _count: { select: { stops: { where: { isDeleted: false } } } },
+      },
+      orderBy: [{ isActive: "desc" }, { sortOrder: "asc" }, { label: "asc" }],
+    });
+
+    return NextResponse.json({ reasons });
+  } catch (error) {
+    console.error("Error fetching stop failure reasons:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/stop-failure-reasons - Add a failure reason.
+//
+// Body: { code: string; label: string; requiresPhoto?: boolean;
+//         isActive?: boolean; sortOrder?: number }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { reason, errors } = sanitizeFailureReason(await request.json(), {
+      creating: true,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    const existing = await prisma.stopFailureReason.findUnique({
+      where: { code: reason.code },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { message: `A failure reason with code ${reason.code} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const created = await prisma.stopFailureReason.create({
+      data: { ...reason, code: reason.code as string, label: reason.label as string },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating stop failure reason:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
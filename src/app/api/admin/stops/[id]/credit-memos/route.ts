@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { draftCreditMemoForStop } from "@/lib/creditMemoDrafts";
+
+// POST /api/admin/stops/[id]/credit-memos - Draft a credit memo for the stop's
+// received returns that aren't on one yet
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const creditMemo = await draftCreditMemoForStop(id);
+    if (!creditMemo) {
+      return NextResponse.json(
+        {
+          message:
+            "Nothing to draft: every return on the stop must be received, and received items already on a credit memo aren't drafted again",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(creditMemo, { status: 201 });
+  } catch (error) {
+    console.error("Error drafting credit memo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import {
+  deleteStopOrderLine,
+  sanitizeOrderLine,
+  updateStopOrderLine,
+} from "@/lib/stopOrderLines";
+
+// PATCH /api/admin/stops/[id]/order-lines/[lineId] - Update an order line
+//
+// Body: { sku?: string; description?: string; orderedQty?: number; unit?: string; unitPrice?: number }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lineId: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, lineId } = await params;
+
+    const { line, errors } = sanitizeOrderLine(await request.json(), {
+      partial: true,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let updated;
+    try {
+      updated = await updateStopOrderLine(id, lineId, line);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating order line:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/stops/[id]/order-lines/[lineId] - Remove an order line
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lineId: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, lineId } = await params;
+
+    try {
+      await deleteStopOrderLine(id, lineId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Order line deleted" });
+  } catch (error) {
+    console.error("Error deleting order line:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import {
+  OrderLineInput,
+  addStopOrderLine,
+  getStopOrderLines,
+  sanitizeOrderLine,
+} from "@/lib/stopOrderLines";
+
+// GET /api/admin/stops/[id]/order-lines - List a stop's order lines
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const lines = await getStopOrderLines(id);
+
+    return NextResponse.json({ lines });
+  } catch (error) {
+    console.error("Error fetching order lines:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/stops/[id]/order-lines - Add an order line to a stop. The
+// description and unit default to the product's when the SKU matches one.
+//
+// Body: { sku?: string; description?: string; orderedQty: number; unit?: string; unitPrice?: number }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { line, errors } = sanitizeOrderLine(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let created;
+    try {
+      created = await addStopOrderLine(id, line as OrderLineInput);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error adding order line:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { scheduleRedelivery } from "@/lib/redeliveries";
+
+// POST /api/admin/stops/[id]/redeliver - Reschedule a failed or undelivered
+// stop onto a future route
+//
+// Body: { routeId: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (
+      !decoded ||
+      !decoded.id ||
+      !["ADMIN", "SUPER_ADMIN"].includes(decoded.role)
+    ) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await request.json();
+    if (typeof data.routeId !== "string" || !data.routeId) {
+      return NextResponse.json({ message: "routeId is required" }, { status: 400 });
+    }
+
+    let stop;
+    try {
+      stop = await scheduleRedelivery(id, data.routeId, decoded.id);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Redelivery scheduled", stop },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error scheduling redelivery:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
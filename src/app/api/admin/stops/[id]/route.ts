@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
 import { existingUploadUrls, uploadFileExists } from "@/lib/uploadFilePaths";
+import { CLEARED_FAILURE, resolveFailure } from "@/lib/stopFailures";
+import { transitionError } from "@/utils/stopStatus";
+import { getPSTDate } from "@/lib/timezone";
+import { REDELIVERY_LINK_INCLUDE } from "@/lib/redeliveries";
 
 // GET /api/admin/stops/[id] - Get stop details
 export async function GET(
@@ -138,6 +142,26 @@ export async function GET(
             createdAt: "desc",
           },
         },
+        failureReason: {
+          select: {
+            code: true,
+            label: true,
+          },
+        },
+        ...REDELIVERY_LINK_INCLUDE,
+        statusEvents: {
+          orderBy: {
+            createdAt: "asc",
+          },
+          include: {
+            driver: {
+              select: {
+                username: true,
+                fullName: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -228,6 +252,7 @@ export async function PUT(
         id: true,
         sequence: true,
         routeId: true,
+        status: true,
       },
     });
 
@@ -235,6 +260,31 @@ export async function PUT(
       return NextResponse.json({ message: "Stop not found" }, { status: 404 });
     }
 
+    // Status changes follow the stop state machine; failing a stop needs a reason
+    let failureData = {};
+    if (data.status && data.status !== existingStop.status) {
+      const statusError = transitionError(existingStop.status, data.status, "admin");
+      if (statusError) {
+        return NextResponse.json({ message: statusError }, { status: 400 });
+      }
+
+      if (data.status === "FAILED") {
+        try {
+          failureData = {
+            ...(await resolveFailure(data.failure, "admin", existingStop.id)),
+            failedAt: getPSTDate(),
+          };
+        } catch (error) {
+          return NextResponse.json(
+            { message: (error as Error).message },
+            { status: 400 }
+          );
+        }
+      } else if (existingStop.status === "FAILED") {
+        failureData = CLEARED_FAILURE;
+      }
+    }
+
     // Handle sequence conflicts if sequence is being changed
     if (data.sequence !== undefined && data.sequence !== existingStop.sequence) {
       const oldSequence = existingStop.sequence;
@@ -328,6 +378,9 @@ export async function PUT(
         amount: data.amount !== undefined ? data.amount : undefined,
         paymentTerms: data.paymentTerms !== undefined ? data.paymentTerms : undefined,
         paymentTermsOther: data.paymentTermsOther !== undefined ? data.paymentTermsOther : undefined,
+        sequenceLocked:
+          data.sequenceLocked !== undefined ? data.sequenceLocked === true : undefined,
+        ...failureData,
       },
       include: {
         customer: true,
@@ -383,6 +436,18 @@ export async function PUT(
         payments: {
           orderBy: { createdAt: "desc" },
         },
+        failureReason: {
+          select: { code: true, label: true },
+        },
+        ...REDELIVERY_LINK_INCLUDE,
+        statusEvents: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            driver: {
+              select: { username: true, fullName: true },
+            },
+          },
+        },
       },
     });
 
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
-import { emitDriverLocationUpdate } from "@/app/api/socketio/route";
+import { evaluateGeofence, GeofenceOutcome } from "@/lib/geofences";
+import {
+  emitDriverLocationUpdate,
+  emitGeofenceAlert,
+  emitRouteStatusUpdate,
+  emitStopStatusUpdate,
+} from "@/app/api/socketio/route";
 
 // POST /api/driver/location - Update driver location
 export async function POST(request: NextRequest) {
@@ -143,9 +149,59 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Check the fix against the geofence around the stop's delivery point.
+    // A failure here shouldn't lose the location update.
+    let geofence: GeofenceOutcome | null = null;
+    try {
+      geofence = await evaluateGeofence({
+        driverId: decoded.id,
+        stopId: data.stopId,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        accuracy: data.accuracy || null,
+        timestamp: locationUpdate.timestamp,
+      });
+
+      const driverName = driver.fullName || driver.username;
+      if (geofence.autoArrived) {
+        emitStopStatusUpdate({
+          stopId: data.stopId,
+          routeId: data.routeId,
+          status: "ARRIVED",
+          driverId: decoded.id,
+          driverName,
+          customerName: stop.customer.name,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      if (geofence.routeStarted) {
+        emitRouteStatusUpdate({
+          routeId: data.routeId,
+          status: "IN_PROGRESS",
+          driverId: decoded.id,
+          driverName,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      if (geofence.alert) {
+        emitGeofenceAlert({
+          stopId: data.stopId,
+          routeId: data.routeId,
+          driverId: decoded.id,
+          driverName,
+          customerName: stop.customer.name,
+          distanceMeters: Math.round(geofence.distanceMeters || 0),
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (geofenceError) {
+      console.error("Error checking geofence:", geofenceError);
+    }
+
     return NextResponse.json({
       message: "Location updated successfully",
       locationUpdate,
+      geofence,
     });
   } catch (error) {
     console.error("Error updating driver location:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import { verifyToken } from "@/lib/auth";
+import { validateReturnReasons } from "@/lib/returnReasons";
 
 const prisma = new PrismaClient();
 
@@ -52,6 +53,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Each reason must come from the managed list, with a photo if it asks
+    // for one
+    let photoUrls: string[][];
+    try {
+      photoUrls = await validateReturnReasons(returnItems, stopId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
     // Get the driver's information first
     const driver = await prisma.user.findUnique({
       where: {
@@ -123,7 +136,7 @@ export async function POST(request: NextRequest) {
     // Create return records for each item (using the actual schema)
     const createdReturns = [];
 
-    for (const item of returnItems) {
+    for (const [index, item] of returnItems.entries()) {
       const newReturn = await prisma.return.create({
         data: {
           stopId: stopId,
@@ -131,7 +144,8 @@ export async function POST(request: NextRequest) {
           productDescription: `${item.productName || 'Product'} (${item.productCode || 'N/A'})`, // Keep for backward compatibility
           productId: item.productId, // Add this line to use the relation
           quantity: item.quantity,
-          reasonCode: item.reason || "Driver return",
+          reasonCode: item.reasonCode.trim(),
+          photoUrls: photoUrls[index],
           warehouseLocation: null,
           vendorCreditNum: null,
         },
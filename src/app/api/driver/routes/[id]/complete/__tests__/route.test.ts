@@ -0,0 +1,100 @@
+/** @jest-environment node */
+import { NextRequest } from "next/server";
+import { POST } from "../route";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+
+jest.mock("@/lib/db", () => ({
+  __esModule: true,
+  default: {
+    route: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock("@/lib/auth", () => ({
+  verifyToken: jest.fn(),
+}));
+
+jest.mock("@/app/api/socketio/route", () => ({
+  emitRouteStatusUpdate: jest.fn(),
+}));
+
+const mockedPrisma = prisma as unknown as {
+  route: { findFirst: jest.Mock; update: jest.Mock };
+  user: { findUnique: jest.Mock };
+};
+
+const mockedVerifyToken = verifyToken as jest.Mock;
+
+const ROUTE_ID = "route-1";
+const DRIVER_ID = "driver-1";
+
+function makeRequest() {
+  return new NextRequest(`http://localhost/api/driver/routes/${ROUTE_ID}/complete`, {
+    method: "POST",
+    headers: { authorization: "Bearer valid-token" },
+  });
+}
+
+function complete() {
+  return POST(makeRequest(), { params: { id: ROUTE_ID } });
+}
+
+describe("POST /api/driver/routes/[id]/complete", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedVerifyToken.mockReturnValue({ id: DRIVER_ID, username: "driver1", role: "DRIVER" });
+    mockedPrisma.route.update.mockResolvedValue({ id: ROUTE_ID, status: "COMPLETED" });
+    mockedPrisma.user.findUnique.mockResolvedValue({ username: "driver1", fullName: null });
+  });
+
+  it("completes a route whose stops are completed, failed or cancelled", async () => {
+    mockedPrisma.route.findFirst.mockResolvedValue({
+      id: ROUTE_ID,
+      stops: [
+        { id: "s1", status: "COMPLETED" },
+        { id: "s2", status: "FAILED" },
+        { id: "s3", status: "CANCELLED" },
+      ],
+    });
+
+    const response = await complete();
+
+    expect(response.status).toBe(200);
+    expect(mockedPrisma.route.update).toHaveBeenCalledWith({
+      where: { id: ROUTE_ID },
+      data: { status: "COMPLETED" },
+    });
+  });
+
+  it("refuses while a stop is still open", async () => {
+    mockedPrisma.route.findFirst.mockResolvedValue({
+      id: ROUTE_ID,
+      stops: [
+        { id: "s1", status: "FAILED" },
+        { id: "s2", status: "ARRIVED" },
+      ],
+    });
+
+    const response = await complete();
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.message).toBe("Route cannot be completed. There are 1 pending stops.");
+    expect(mockedPrisma.route.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the route isn't the driver's", async () => {
+    mockedPrisma.route.findFirst.mockResolvedValue(null);
+
+    const response = await complete();
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
 import { emitRouteStatusUpdate } from "@/app/api/socketio/route";
+import { FINISHED_STOP_STATUSES } from "@/utils/stopStatus";
 
 // POST /api/driver/routes/[id]/complete - Complete a route
 export async function POST(
@@ -64,9 +65,9 @@ export async function POST(
       );
     }
 
-    // Check if all stops are completed
+    // Check if every stop is finished (completed, failed or cancelled)
     const pendingStops = route.stops.filter(
-      (stop) => stop.status !== "COMPLETED" && stop.status !== "CANCELLED"
+      (stop) => !FINISHED_STOP_STATUSES.includes(stop.status)
     );
 
     if (pendingStops.length > 0) {
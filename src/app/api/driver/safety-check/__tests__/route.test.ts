@@ -3,6 +3,7 @@ import { NextRequest } from "next/server";
 import { POST } from "../route";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { recordStatusEvent } from "@/lib/stopStatusEvents";
 
 jest.mock("@/lib/db", () => ({
   __esModule: true,
@@ -26,6 +27,7 @@ jest.mock("@/lib/db", () => ({
     stop: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
+      update: jest.fn(),
     },
     $transaction: jest.fn(),
   },
@@ -44,15 +46,20 @@ jest.mock("@/lib/socket", () => ({
   emitStopStatusUpdate: jest.fn(),
 }));
 
+jest.mock("@/lib/stopStatusEvents", () => ({
+  recordStatusEvent: jest.fn(),
+}));
+
 const mockedPrisma = prisma as unknown as {
   route: { findUnique: jest.Mock; update: jest.Mock };
   user: { findUnique: jest.Mock };
   routeCloseoutAssignment: { findUnique: jest.Mock };
   routeCloseoutCheck: { findFirst: jest.Mock };
   safetyCheck: { findFirst: jest.Mock };
-  stop: { findMany: jest.Mock; findFirst: jest.Mock };
+  stop: { findMany: jest.Mock; findFirst: jest.Mock; update: jest.Mock };
   $transaction: jest.Mock;
 };
+const mockedRecordStatusEvent = recordStatusEvent as jest.Mock;
 
 const mockedVerifyToken = verifyToken as jest.Mock;
 
@@ -187,3 +194,39 @@ describe("POST /api/driver/safety-check - route closeout enforcement", () => {
     expect(response.status).toBe(200);
   });
 });
+
+describe("POST /api/driver/safety-check - first stop auto-start", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("starts the driver's first pending stop and records the automatic change", async () => {
+    setupBaseAssignedDriverMocks();
+    setupPassingTransaction();
+    mockedPrisma.stop.findFirst.mockResolvedValue({
+      id: "stop-1",
+      customerId: "customer-1",
+      status: "PENDING",
+      customer: { name: "Cafe One" },
+    });
+
+    const response = await POST(
+      makeRequest({ routeId: ROUTE_ID, type: "START_OF_DAY", details: {} })
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockedPrisma.stop.update).toHaveBeenCalledWith({
+      where: { id: "stop-1" },
+      data: { status: "ON_THE_WAY", onTheWayTime: expect.any(Date) },
+    });
+    expect(mockedRecordStatusEvent).toHaveBeenCalledWith({
+      stopId: "stop-1",
+      customerId: "customer-1",
+      driverId: DRIVER_ID,
+      fromStatus: "PENDING",
+      toStatus: "ON_THE_WAY",
+      fix: null,
+      automatic: true,
+    });
+  });
+});
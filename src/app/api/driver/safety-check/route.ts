@@ -3,6 +3,7 @@ import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
 import { toPSTStartOfDay, getPSTDate } from "@/lib/timezone";
 import { emitStopStatusUpdate } from "@/lib/socket";
+import { recordStatusEvent } from "@/lib/stopStatusEvents";
 
 // POST /api/driver/safety-check - Submit a safety check
 export async function POST(request: NextRequest) {
@@ -442,6 +443,20 @@ export async function POST(request: NextRequest) {
             data: { status: "ON_THE_WAY", onTheWayTime: now },
           });
 
+          try {
+            await recordStatusEvent({
+              stopId: firstStop.id,
+              customerId: firstStop.customerId,
+              driverId: decoded.id,
+              fromStatus: firstStop.status,
+              toStatus: "ON_THE_WAY",
+              fix: null,
+              automatic: true,
+            });
+          } catch (error) {
+            console.error("Error recording stop status event:", error);
+          }
+
           emitStopStatusUpdate({
             stopId: firstStop.id,
             routeId,
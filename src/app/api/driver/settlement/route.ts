@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { getDriverSettlement } from "@/lib/driverSettlements";
+import { getPSTDateString } from "@/lib/timezone";
+
+// GET /api/driver/settlement?date=YYYY-MM-DD - The driver's settlement for the day
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const date = request.nextUrl.searchParams.get("date") || getPSTDateString();
+
+    let day;
+    try {
+      day = await getDriverSettlement(decoded.id, date);
+    } catch (error) {
+      return NextResponse.json({ message: (error as Error).message }, { status: 400 });
+    }
+
+    return NextResponse.json({ date, day });
+  } catch (error) {
+    console.error("Error fetching settlement:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
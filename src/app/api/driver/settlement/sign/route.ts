@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { signSettlementAsDriver } from "@/lib/driverSettlements";
+
+// POST /api/driver/settlement/sign - Driver confirms the office's count
+// Body: { date }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (typeof body.date !== "string") {
+      return NextResponse.json({ message: "date is required" }, { status: 400 });
+    }
+
+    let settlement;
+    try {
+      settlement = await signSettlementAsDriver(decoded.id, body.date);
+    } catch (error) {
+      return NextResponse.json({ message: (error as Error).message }, { status: 400 });
+    }
+
+    return NextResponse.json(settlement);
+  } catch (error) {
+    console.error("Error signing settlement:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
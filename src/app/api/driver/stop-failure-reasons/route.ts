@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+
+// GET /api/driver/stop-failure-reasons - Reasons a driver can give for a failed stop
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const reasons = await prisma.stopFailureReason.findMany({
+      where: { isActive: true },
+      select: { code: true, label: true, requiresPhoto: true },
+      orderBy: [{ sortOrder: "asc" }, { label: "asc" }],
+    });
+
+    return NextResponse.json({ reasons });
+  } catch (error) {
+    console.error("Error fetching stop failure reasons:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
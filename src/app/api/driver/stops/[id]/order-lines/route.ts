@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import {
+  getStopOrderLines,
+  recordDeliveredQuantities,
+  sanitizeDeliveredQuantities,
+} from "@/lib/stopOrderLines";
+
+// Only the driver on the stop's route can see or record its lines
+async function findDriverStop(stopId: string, driverId: string) {
+  const driver = await prisma.user.findUnique({
+    where: { id: driverId },
+    select: { username: true, fullName: true },
+  });
+  if (!driver) return null;
+
+  return prisma.stop.findFirst({
+    where: {
+      id: stopId,
+      isDeleted: false,
+      route: {
+        OR: [
+          { driverId },
+          {
+            stops: {
+              some: {
+                OR: [
+                  {
+                    driverNameFromUpload: {
+                      equals: driver.username,
+                      mode: "insensitive",
+                    },
+                  },
+                  {
+                    driverNameFromUpload: {
+                      equals: driver.fullName || "",
+                      mode: "insensitive",
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        ],
+        isDeleted: false,
+      },
+    },
+    select: { id: true },
+  });
+}
+
+// GET /api/driver/stops/[id]/order-lines - List the stop's order lines
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!(await findDriverStop(id, decoded.id))) {
+      return NextResponse.json(
+        { message: "Stop not found or not assigned to you" },
+        { status: 404 }
+      );
+    }
+
+    const lines = await getStopOrderLines(id);
+
+    return NextResponse.json({ lines });
+  } catch (error) {
+    console.error("Error fetching order lines:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/driver/stops/[id]/order-lines - Record delivered quantities
+//
+// Body: { lines: { lineId: string; deliveredQty: number; shortReason?: string }[] }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!(await findDriverStop(id, decoded.id))) {
+      return NextResponse.json(
+        { message: "Stop not found or not assigned to you" },
+        { status: 404 }
+      );
+    }
+
+    const data = await request.json();
+    const { quantities, errors } = sanitizeDeliveredQuantities(data.lines);
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join("; ") }, { status: 400 });
+    }
+
+    let lines;
+    try {
+      lines = await recordDeliveredQuantities(id, quantities);
+    } catch (error) {
+      const message = (error as Error).message;
+      return NextResponse.json(
+        { message },
+        { status: message.endsWith("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ lines });
+  } catch (error) {
+    console.error("Error recording delivered quantities:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -121,6 +121,14 @@ export async function PATCH(
       );
     }
 
+    // The day's payments lock once its settlement is signed off
+    if (stop.settlementId) {
+      return NextResponse.json(
+        { message: "Payments for this stop have been settled and can't be changed" },
+        { status: 400 }
+      );
+    }
+
     // Handle payment creation in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Handle new format: array of payments
@@ -173,6 +173,14 @@ export async function DELETE(
       );
     }
 
+    // The day's payments lock once its settlement is signed off
+    if (payment.stop.settlementId) {
+      return NextResponse.json(
+        { message: "Payments for this stop have been settled and can't be changed" },
+        { status: 400 }
+      );
+    }
+
     // Delete the payment and update stop totals
     await prisma.$transaction(async (tx) => {
       // Delete the payment
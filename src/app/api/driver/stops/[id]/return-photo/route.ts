@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import prisma from "@/lib/db";
+import { writeFile, mkdir } from "fs/promises";
+import path from "path";
+
+// POST /api/driver/stops/[id]/return-photo - Upload a photo of a returned item.
+// Returns the URL to send with the return.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split(" ")[1];
+    const decoded = verifyToken(token) as any;
+
+    if (!decoded || !decoded.id || decoded.role !== "DRIVER") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const driver = await prisma.user.findUnique({
+      where: { id: decoded.id },
+      select: { username: true, fullName: true },
+    });
+
+    if (!driver) {
+      return NextResponse.json({ message: "Driver not found" }, { status: 404 });
+    }
+
+    // Check if the stop exists and belongs to a route assigned to the driver
+    const stop = await prisma.stop.findFirst({
+      where: {
+        id,
+        isDeleted: false,
+        route: {
+          OR: [
+            { driverId: decoded.id },
+            {
+              stops: {
+                some: {
+                  OR: [
+                    { driverNameFromUpload: driver.username },
+                    { driverNameFromUpload: driver.fullName },
+                  ],
+                },
+              },
+            },
+          ],
+          isDeleted: false,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!stop) {
+      return NextResponse.json(
+        { message: "Stop not found or not assigned to you" },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ message: "No photo provided" }, { status: 400 });
+    }
+    if (!file.type.startsWith("image/")) {
+      return NextResponse.json({ message: "The file must be an image" }, { status: 400 });
+    }
+
+    const uploadDir = path.join(process.cwd(), "public", "uploads", "returns");
+    await mkdir(uploadDir, { recursive: true });
+
+    const extension = path.extname(file.name) || ".jpg";
+    const fileName = `${stop.id}_${Date.now()}${extension}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    await writeFile(path.join(uploadDir, fileName), buffer);
+
+    return NextResponse.json({ url: `/uploads/returns/${fileName}` });
+  } catch (error) {
+    console.error("Error uploading return photo:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
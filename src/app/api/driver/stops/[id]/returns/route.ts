@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { verifyToken } from "@/lib/auth";
+import { validateReturnReasons } from "@/lib/returnReasons";
 
 // GET /api/driver/stops/[id]/returns - Get all returns for a stop
 export async function GET(
@@ -146,6 +147,17 @@ export async function POST(
       );
     }
 
+    // The reason must come from the managed list, with a photo if it asks for one
+    let photoUrls: string[];
+    try {
+      [photoUrls] = await validateReturnReasons([data], id);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
     // Create the return
     const newReturn = await prisma.return.create({
       data: {
@@ -153,7 +165,8 @@ export async function POST(
         orderItemIdentifier: data.orderItemIdentifier,
         productDescription: data.productDescription,
         quantity: data.quantity,
-        reasonCode: data.reasonCode,
+        reasonCode: data.reasonCode.trim(),
+        photoUrls,
         warehouseLocation: data.warehouseLocation,
         vendorCreditNum: data.vendorCreditNum,
       },
@@ -8,6 +8,9 @@ import {
   emitRouteStatusUpdate,
 } from "@/app/api/socketio/route";
 import { getPSTDate } from "@/lib/timezone";
+import { parseStatusFix, recordStatusEvent, StatusFix } from "@/lib/stopStatusEvents";
+import { resolveFailure } from "@/lib/stopFailures";
+import { FINISHED_STOP_STATUSES, transitionError } from "@/utils/stopStatus";
 
 // GET /api/driver/stops/[id] - Get a specific stop for the driver
 export async function GET(
@@ -83,6 +86,7 @@ export async function GET(
                 createdAt: "desc",
               },
             },
+            receivingWindows: true,
           },
         },
         route: {
@@ -115,6 +119,12 @@ export async function GET(
             createdAt: "desc",
           },
         },
+        failureReason: {
+          select: {
+            code: true,
+            label: true,
+          },
+        },
         stopDocuments: {
           where: {
             isDeleted: false,
@@ -272,12 +282,15 @@ export async function PATCH(
       updateData.completionTime = now;
     }
 
-    // Validate status if provided
-    if (
-      data.status &&
-      !["PENDING", "ON_THE_WAY", "ARRIVED", "COMPLETED"].includes(data.status)
-    ) {
-      return NextResponse.json({ message: "Invalid status" }, { status: 400 });
+    // The driver's GPS fix at the time of a status change (proof of location)
+    let fix: StatusFix | null = null;
+    try {
+      fix = parseStatusFix(data.location);
+    } catch (error) {
+      return NextResponse.json(
+        { message: (error as Error).message },
+        { status: 400 }
+      );
     }
 
     // Check if the stop exists and belongs to a route assigned to the driver
@@ -302,6 +315,13 @@ export async function PATCH(
           isDeleted: false,
         },
       },
+      include: {
+        customer: {
+          select: {
+            geofenceRadiusMeters: true,
+          },
+        },
+      },
     });
 
     if (!stop) {
@@ -311,6 +331,27 @@ export async function PATCH(
       );
     }
 
+    // Only allowed status changes, e.g. no going back from COMPLETED
+    if (data.status) {
+      const statusError = transitionError(stop.status, data.status, "driver");
+      if (statusError) {
+        return NextResponse.json({ message: statusError }, { status: 400 });
+      }
+    }
+
+    // A failed stop needs a reason, and photo evidence when the reason asks for it
+    if (data.status === "FAILED" && stop.status !== "FAILED") {
+      try {
+        Object.assign(updateData, await resolveFailure(data.failure, "driver", stop.id));
+      } catch (error) {
+        return NextResponse.json(
+          { message: (error as Error).message },
+          { status: 400 }
+        );
+      }
+      updateData.failedAt = now;
+    }
+
     // SAFETY CHECK ENFORCEMENT: Check if driver has completed safety check for this route
     const safetyCheck = await prisma.safetyCheck.findFirst({
       where: {
@@ -364,6 +405,23 @@ export async function PATCH(
       select: { signedInvoicePdfUrl: true }
     });
 
+    // Record the status change with where the driver was
+    if (data.status && data.status !== stop.status) {
+      try {
+        await recordStatusEvent({
+          stopId: stop.id,
+          customerId: stop.customerId,
+          driverId: decoded.id,
+          fromStatus: stop.status,
+          toStatus: data.status,
+          fix,
+          geofenceRadiusMeters: stop.customer.geofenceRadiusMeters,
+        });
+      } catch (error) {
+        console.error("Error recording stop status event:", error);
+      }
+    }
+
     // If status is updated, emit WebSocket event
     if (data.status && data.status !== stop.status) {
       try {
@@ -644,8 +702,11 @@ export async function PATCH(
       console.log(`[KPI DEBUG] Skipping KPI update - condition not met`);
     }
 
-    // If all stops in the route are completed, update the route status to COMPLETED
-    if (data.status === "COMPLETED" && stop.status !== "COMPLETED") {
+    // If all stops in the route are finished, update the route status to COMPLETED
+    if (
+      FINISHED_STOP_STATUSES.includes(data.status) &&
+      !FINISHED_STOP_STATUSES.includes(stop.status)
+    ) {
       // Get all stops for this route
       const routeStops = await prisma.stop.findMany({
         where: {
@@ -660,9 +721,7 @@ export async function PATCH(
       // Count pending stops (excluding the current one)
       const pendingStops = routeStops.filter(
         (s) =>
-          s.id !== stop.id &&
-          s.status !== "COMPLETED" &&
-          s.status !== "CANCELLED"
+          s.id !== stop.id && !FINISHED_STOP_STATUSES.includes(s.status)
       ).length;
 
       if (pendingStops === 0) {
@@ -725,8 +784,8 @@ export async function PATCH(
       const nextStop = routeStops.find(
         (s) =>
           s.sequence > stop.sequence &&
-          s.status !== "COMPLETED" &&
-          s.status !== "CANCELLED" &&
+          // Stops the driver already started or arrived at stay as they are
+          s.status === "PENDING" &&
           // IMPORTANT: Only auto-start stops assigned to the current driver
           (s.driverNameFromUpload === driver.username ||
            s.driverNameFromUpload === driver.fullName)
@@ -746,6 +805,20 @@ export async function PATCH(
             },
           });
 
+          try {
+            await recordStatusEvent({
+              stopId: nextStop.id,
+              customerId: nextStop.customerId,
+              driverId: decoded.id,
+              fromStatus: nextStop.status,
+              toStatus: "ON_THE_WAY",
+              fix,
+              automatic: true,
+            });
+          } catch (error) {
+            console.error("Error recording stop status event:", error);
+          }
+
           // Emit WebSocket event for the next stop status update
           try {
             // Get driver info
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getTodayEndUTC, getTodayStartUTC } from "@/lib/timezone";
+import { requireActiveShift } from "@/lib/attendanceMiddleware";
+import { StopEta, projectRouteEtas } from "@/lib/stopEtas";
+
+// GET /api/driver/stops/etas - Projected arrival times for the driver's
+// remaining stops today
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and attendance status
+    const attendanceCheck = await requireActiveShift(request);
+    if (!attendanceCheck.allowed) {
+      return NextResponse.json(
+        attendanceCheck.error,
+        { status: attendanceCheck.status || 403 }
+      );
+    }
+
+    const decoded = attendanceCheck.decoded;
+
+    const driver = await prisma.user.findUnique({
+      where: {
+        id: decoded.id,
+      },
+      select: {
+        username: true,
+        fullName: true,
+      },
+    });
+
+    if (!driver) {
+      return NextResponse.json(
+        { message: "Driver not found" },
+        { status: 404 }
+      );
+    }
+
+    // The driver's stops today, matched the same way as the stops list
+    const stops = await prisma.stop.findMany({
+      where: {
+        OR: [
+          { driverNameFromUpload: driver.username },
+          ...(driver.fullName ? [{ driverNameFromUpload: driver.fullName }] : []),
+          {
+            AND: [
+              { driverNameFromUpload: null },
+              { route: { driverId: decoded.id } },
+            ],
+          },
+        ],
+        isDeleted: false,
+        route: {
+          isDeleted: false,
+          date: {
+            gte: getTodayStartUTC(),
+            lte: getTodayEndUTC(),
+          },
+        },
+      },
+      select: {
+        id: true,
+        routeId: true,
+      },
+    });
+
+    const stopIds = new Set(stops.map((stop) => stop.id));
+    const etas: StopEta[] = [];
+    for (const routeId of new Set(stops.map((stop) => stop.routeId))) {
+      const projection = await projectRouteEtas(routeId);
+      etas.push(...projection.stops.filter((eta) => stopIds.has(eta.stopId)));
+    }
+
+    return NextResponse.json({ etas });
+  } catch (error) {
+    console.error("Error projecting driver stop ETAs:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { backfillGeocodes } from "@/lib/geocoding";
+
+// POST /api/internal/geocode-backfill
+//
+// INTERNAL USE ONLY. Like check-overdue-end-of-day, this endpoint is
+// unauthenticated and only meant to be called by the in-process poller in
+// server.js. It geocodes the next batch of customers whose pin is still
+// PENDING (new customers and customers whose address changed).
+export async function POST() {
+  try {
+    const result = await backfillGeocodes();
+
+    for (const message of result.errors) {
+      console.log(`> Geocode backfill: ${message}`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running geocode backfill:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { processImportInbox } from "@/lib/importInbox";
+
+// POST /api/internal/process-import-inbox
+//
+// INTERNAL USE ONLY. Like check-overdue-end-of-day, this endpoint is
+// unauthenticated and only meant to be called by the in-process poller in
+// server.js. It imports every route file and document waiting in the
+// watched import folder (IMPORT_INBOX_DIR) and moves each one to the
+// folder's processed/ or failed/ subfolder.
+export async function POST() {
+  try {
+    const result = await processImportInbox();
+
+    for (const file of result.files) {
+      console.log(`> Import inbox: ${file.fileName} ${file.outcome} - ${file.message}`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error processing import inbox:", error);
+    return NextResponse.json(
+      { message: `An error occurred: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
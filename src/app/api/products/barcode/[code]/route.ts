@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyToken } from "@/lib/auth";
+import { findProductByBarcode } from "@/lib/productBarcodes";
+
+// GET /api/products/barcode/[code] - Find the product a scanned barcode belongs to
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const token = request.headers.get("authorization")?.split(" ")[1];
+    if (!token) {
+      return NextResponse.json(
+        { message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { message: "Invalid or expired token" },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await params;
+    const product = await findProductByBarcode(decodeURIComponent(code));
+    if (!product) {
+      return NextResponse.json(
+        { message: "No product found for this barcode" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(product);
+  } catch (error) {
+    console.error("Error looking up barcode:", error);
+    return NextResponse.json(
+      { message: "An error occurred while looking up the barcode" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import { verifyToken } from "@/lib/auth";
+import { normalizeBarcode } from "@/utils/productBarcodes";
 
 const prisma = new PrismaClient();
 
@@ -41,6 +42,7 @@ export async function GET(request: NextRequest) {
           { name: { contains: term, mode: "insensitive" } },
           { sku: { contains: term, mode: "insensitive" } },
           { description: { contains: term, mode: "insensitive" } },
+          { barcodes: { some: { code: normalizeBarcode(term) } } },
         ],
         isDeleted: false,
       },
@@ -6,3 +6,4 @@ export const emitStopStatusUpdate = socketEmitters.emitStopStatusUpdate;
 export const emitRouteStatusUpdate = socketEmitters.emitRouteStatusUpdate;
 export const emitAdminNoteCreated = socketEmitters.emitAdminNoteCreated;
 export const emitDriverLocationUpdate = socketEmitters.emitDriverLocationUpdate;
+export const emitGeofenceAlert = socketEmitters.emitGeofenceAlert;
@@ -276,12 +276,20 @@ export default function EndOfDayCheckPage() {
         <h1 className="text-xl font-medium text-black mobile-heading">
           End-of-Day Check
         </h1>
-        <Link
-          href="/driver"
-          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium touch-manipulation tap-target px-2 py-1"
-        >
-          &larr; Back
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/driver/settlement"
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium touch-manipulation tap-target px-2 py-1"
+          >
+            Cash Settlement
+          </Link>
+          <Link
+            href="/driver"
+            className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium touch-manipulation tap-target px-2 py-1"
+          >
+            &larr; Back
+          </Link>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-card overflow-hidden mobile-card">
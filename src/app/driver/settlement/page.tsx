@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { getPSTDateString } from "@/lib/timezone";
+import {
+  SETTLEMENT_STATUS_LABELS,
+  SettlementStatusValue,
+  SettlementTotals,
+  expectedCash,
+  settlementVariances,
+} from "@/utils/settlements";
+
+interface DriverDay {
+  settlement: {
+    status: SettlementStatusValue;
+    countedCash: number | null;
+    checkCount: number | null;
+    notes: string | null;
+    driverSignedAt: string | null;
+    officeSignedAt: string | null;
+  } | null;
+  totals: SettlementTotals;
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const signed = (value: number, format: (value: number) => string) =>
+  value > 0 ? `+${format(value)}` : value < 0 ? `-${format(-value)}` : format(0);
+
+export default function DriverSettlementPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [date, setDate] = useState(getPSTDateString());
+  const [day, setDay] = useState<DriverDay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  useEffect(() => {
+    const storedToken = sessionStorage.getItem("token") || localStorage.getItem("token");
+    const userRole = sessionStorage.getItem("userRole") || localStorage.getItem("userRole");
+
+    if (!storedToken || userRole !== "DRIVER") {
+      router.push("/login");
+    } else {
+      setToken(storedToken);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    if (token && date) {
+      fetchSettlement();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, date]);
+
+  const fetchSettlement = async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/driver/settlement?date=${date}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load your settlement");
+      }
+      setDay(data.day);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sign = async () => {
+    if (!confirm("Sign to confirm the office's count of the cash and checks you handed in?")) return;
+
+    setSigning(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/driver/settlement/sign", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ date }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to sign the settlement");
+      }
+      await fetchSettlement();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const settlement = day?.settlement ?? null;
+  const counted = settlement?.countedCash !== null && settlement?.countedCash !== undefined;
+  const variances =
+    day && settlementVariances(day.totals, {
+      countedCash: settlement?.countedCash ?? null,
+      checkCount: settlement?.checkCount ?? null,
+    });
+
+  return (
+    <div className="container mx-auto px-4 py-6 mobile-spacing prevent-pull-refresh">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-xl font-medium text-black mobile-heading">Cash Settlement</h1>
+        <Link
+          href="/driver/end-of-day"
+          className="text-primary-blue hover:text-blue-700 transition duration-200 font-medium touch-manipulation tap-target px-2 py-1"
+        >
+          &larr; Back
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-card overflow-hidden mobile-card">
+        <div className="px-4 py-3 sm:px-6 sm:py-4 border-b border-mono-200 flex items-center justify-between gap-2">
+          <h2 className="text-base font-medium text-mono-800 mobile-text">
+            {settlement ? SETTLEMENT_STATUS_LABELS[settlement.status] : "Not counted yet"}
+          </h2>
+          <input
+            type="date"
+            aria-label="Settlement date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-blue"></div>
+            </div>
+          ) : !day ? (
+            <div className="text-center py-8 text-gray-500">You had no stops on this day.</div>
+          ) : (
+            <>
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <dt className="text-gray-500">COD expected</dt>
+                  <dd className="font-medium">{money(day.totals.expectedCod)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">COD collected</dt>
+                  <dd className="font-medium">{money(day.totals.codCollected)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Cash to hand in</dt>
+                  <dd className="font-medium">{money(expectedCash(day.totals))}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Checks to hand in</dt>
+                  <dd className="font-medium">
+                    {day.totals.checksRecorded} ({money(day.totals.checkCollected)})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Credit card</dt>
+                  <dd className="font-medium">{money(day.totals.cardCollected)}</dd>
+                </div>
+              </dl>
+
+              {counted && variances ? (
+                <div className="border-t border-gray-200 pt-4 space-y-2 text-sm">
+                  <h3 className="font-medium text-gray-900">Office count</h3>
+                  <p>
+                    Cash: {money(settlement?.countedCash ?? 0)}{" "}
+                    <span className={variances.cash ? "text-red-600 font-semibold" : "text-green-700"}>
+                      ({signed(variances.cash ?? 0, money)})
+                    </span>
+                  </p>
+                  <p>
+                    Checks: {settlement?.checkCount}{" "}
+                    <span className={variances.checks ? "text-red-600 font-semibold" : "text-green-700"}>
+                      ({signed(variances.checks ?? 0, String)})
+                    </span>
+                  </p>
+                  {settlement?.notes && <p className="text-gray-600">{settlement.notes}</p>}
+
+                  {settlement?.status === "OPEN" ? (
+                    <button
+                      onClick={sign}
+                      disabled={signing}
+                      className="w-full mt-2 py-3 bg-black text-white rounded-lg font-medium disabled:opacity-50 touch-manipulation"
+                    >
+                      {signing ? "Signing..." : "Sign to Confirm Count"}
+                    </button>
+                  ) : (
+                    <p className="text-gray-500">
+                      {settlement?.driverSignedAt &&
+                        `You signed ${new Date(settlement.driverSignedAt).toLocaleString()}`}
+                      {settlement?.officeSignedAt &&
+                        ` · Office signed off ${new Date(settlement.officeSignedAt).toLocaleString()}`}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="border-t border-gray-200 pt-4 text-sm text-gray-500">
+                  Hand in your cash and checks at the office. You can sign here once they&apos;ve
+                  recorded the count.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
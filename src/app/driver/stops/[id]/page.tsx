@@ -18,7 +18,11 @@ import StopHeader from "@/components/driver/stops/StopHeader";
 import CustomerInfoCard from "@/components/driver/stops/CustomerInfoCard";
 import StatusUpdateCard from "@/components/driver/stops/StatusUpdateCard";
 import PaymentModal from "@/components/driver/stops/PaymentModal";
+import FailStopModal, { FailureSubmission } from "@/components/driver/stops/FailStopModal";
+import OrderLinesCard from "@/components/driver/stops/OrderLinesCard";
 import LocationTracker from "@/components/driver/LocationTracker";
+import { locationTrackingService } from "@/services/locationTracking";
+import type { GeofenceOutcome } from "@/lib/geofences";
 
 interface Document {
   id: string;
@@ -94,6 +98,9 @@ interface Stop {
   // Stop-specific payment terms
   paymentTerms?: string | null;
   paymentTermsOther?: string | null;
+  // Set when the stop is FAILED
+  failureReason?: { code: string; label: string } | null;
+  failureNotes?: string | null;
   customer: Customer;
   route: {
     id: string;
@@ -130,6 +137,7 @@ export default function StopDetailPage({
 
   // Payment recording state
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [showFailModal, setShowFailModal] = useState(false);
   const [paymentEntries, setPaymentEntries] = useState<Array<{ amount: string, method: string, notes: string }>>([{ amount: "", method: "", notes: "" }]);
   const [savingPayment, setSavingPayment] = useState(false);
   const [paymentError, setPaymentError] = useState("");
@@ -138,6 +146,9 @@ export default function StopDetailPage({
   const [currentStep, setCurrentStep] = useState(1);
   const [completedSteps, setCompletedSteps] = useState<number[]>([]);
 
+  // Set when the driver's location puts them inside the stop's geofence
+  const [arrivalSuggested, setArrivalSuggested] = useState(false);
+
   const steps = [
     { id: 1, title: "Document Printing", icon: "📄" },
     { id: 2, title: "Returns", icon: "📦" },
@@ -461,7 +472,18 @@ export default function StopDetailPage({
     };
   }, [isConnected, stop, joinRoom]);
 
-  const updateStatus = async (newStatus: string) => {
+  const handleGeofence = useCallback(
+    (outcome: GeofenceOutcome) => {
+      if (outcome.autoArrived) {
+        fetchStopDetails();
+      } else if (outcome.suggestArrival) {
+        setArrivalSuggested(true);
+      }
+    },
+    [fetchStopDetails]
+  );
+
+  const updateStatus = async (newStatus: string, failure?: FailureSubmission) => {
     if (!token || !stop) return;
 
     setUpdatingStatus(true);
@@ -472,10 +494,23 @@ export default function StopDetailPage({
         status: string;
         arrivalTime?: string;
         completionTime?: string;
+        location?: { latitude: number; longitude: number; accuracy: number };
+        failure?: FailureSubmission;
       } = {
         status: newStatus,
+        failure,
       };
 
+      // Send where the driver is as proof of location
+      const fix = await locationTrackingService.getFix();
+      if (fix) {
+        updateData.location = {
+          latitude: fix.latitude,
+          longitude: fix.longitude,
+          accuracy: fix.accuracy,
+        };
+      }
+
       // Set arrival time if status is ARRIVED (using PST timezone)
       if (newStatus === "ARRIVED" && !stop.arrivalTime) {
         updateData.arrivalTime = getPSTDate().toISOString();
@@ -510,9 +545,9 @@ export default function StopDetailPage({
 
       const responseData = await response.json();
 
-      // If status is COMPLETED, redirect to next stop or stops page after a short delay
-      if (newStatus === "COMPLETED") {
-        console.log("Delivery completed successfully");
+      // If the stop is finished, redirect to next stop or stops page after a short delay
+      if (newStatus === "COMPLETED" || newStatus === "FAILED") {
+        console.log(`Delivery ${newStatus === "FAILED" ? "failed" : "completed"}`);
         setTimeout(() => {
           if (responseData.nextStopId) {
             console.log(`Redirecting to next stop: ${responseData.nextStopId}`);
@@ -898,8 +933,36 @@ export default function StopDetailPage({
             stopId={stop.id}
             routeId={stop.route.id}
             isActive={stop.status === "ON_THE_WAY" || stop.status === "ARRIVED"}
+            onGeofence={handleGeofence}
           />
 
+          {/* Geofence arrival prompt */}
+          {arrivalSuggested && stop.status === "ON_THE_WAY" && (
+            <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded-r-lg shadow-sm">
+              <p className="text-sm font-medium text-green-800">
+                You&apos;re at {stop.customer.name}. Mark this stop as arrived?
+              </p>
+              <div className="mt-3 flex gap-3">
+                <button
+                  onClick={() => {
+                    setArrivalSuggested(false);
+                    updateStatus("ARRIVED");
+                  }}
+                  disabled={updatingStatus}
+                  className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 touch-manipulation"
+                >
+                  Mark Arrived
+                </button>
+                <button
+                  onClick={() => setArrivalSuggested(false)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 touch-manipulation"
+                >
+                  Not Yet
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Status Update - Mobile Optimized */}
           <StatusUpdateCard
             stop={stop}
@@ -908,8 +971,18 @@ export default function StopDetailPage({
             isStatusButtonDisabled={isStatusButtonDisabled}
             updateStatus={updateStatus}
             formatDate={formatDate}
+            onFail={() => setShowFailModal(true)}
           />
 
+          {/* Order lines with delivered and short quantities */}
+          {token && (
+            <OrderLinesCard
+              stopId={stop.id}
+              token={token}
+              editable={stop.status === "ON_THE_WAY" || stop.status === "ARRIVED"}
+            />
+          )}
+
           {/* Multi-Step Delivery Process */}
           {(stop.status === "ARRIVED" || stop.status === "COMPLETED") && (
             <>
@@ -1264,6 +1337,19 @@ export default function StopDetailPage({
         </div>
       )}
 
+      {/* Failed Delivery Modal */}
+      <FailStopModal
+        show={showFailModal}
+        stopId={unwrappedParams.id}
+        token={token}
+        submitting={updatingStatus}
+        onClose={() => setShowFailModal(false)}
+        onSubmit={async (failure) => {
+          await updateStatus("FAILED", failure);
+          setShowFailModal(false);
+        }}
+      />
+
       {/* Payment Recording Modal */}
       <PaymentModal
         show={showPaymentModal}
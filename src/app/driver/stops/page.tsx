@@ -10,6 +10,8 @@ import { getPSTDateString } from "@/lib/timezone";
 import { formatDriverNotes } from "@/utils/notesFormatter";
 import GoogleMapsLink, { RouteMapLink } from "@/components/ui/GoogleMapsLink";
 import LocationTracker from "@/components/driver/LocationTracker";
+import StopEtaBadge from "@/components/driver/stops/StopEtaBadge";
+import type { StopEta } from "@/lib/stopEtas";
 
 interface Customer {
   id: string;
@@ -77,6 +79,8 @@ export default function DriverStopsPage() {
     inProgress: 0,
   });
   const [allDeliveriesCompleted, setAllDeliveriesCompleted] = useState(false);
+  const [stopEtas, setStopEtas] = useState<Record<string, StopEta>>({});
+  const [etaRefreshKey, setEtaRefreshKey] = useState(0);
   const mapRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
@@ -123,6 +127,41 @@ export default function DriverStopsPage() {
     }
   }, [token]);
 
+  // Projected arrival times, refreshed with the stops and every minute
+  useEffect(() => {
+    if (!token || stops.length === 0) return;
+
+    const fetchStopEtas = async () => {
+      try {
+        const response = await fetch("/api/driver/stops/etas", {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch stop ETAs");
+        }
+
+        const data = await response.json();
+        const etaMap: Record<string, StopEta> = {};
+        (data.etas || []).forEach((eta: StopEta) => {
+          etaMap[eta.stopId] = eta;
+        });
+        setStopEtas(etaMap);
+      } catch (error) {
+        console.error("Error fetching stop ETAs:", error);
+      }
+    };
+
+    fetchStopEtas();
+  }, [token, stops, etaRefreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setEtaRefreshKey((key) => key + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Set up WebSocket connection and event listeners
   useEffect(() => {
     if (!isConnected) return;
@@ -1114,6 +1153,7 @@ export default function DriverStopsPage() {
                   <p className="stop-address">
                     {stop.customer.address}
                   </p>
+                  <StopEtaBadge eta={stopEtas[stop.id]} className="mb-3" />
 
                   <div className="grid grid-cols-2 gap-3 text-xs text-gray-500 mb-4">
                     <div className="flex items-center">
@@ -1285,6 +1325,7 @@ export default function DriverStopsPage() {
                           <p className="customer-address-safe text-sm text-gray-500 mt-1.5">
                             {stop.customer.address}
                           </p>
+                          <StopEtaBadge eta={stopEtas[stop.id]} className="mt-1" />
                           {stop.customer.preferences && (
                             <div className="mt-3 text-xs text-green-800 flex items-start respect-boundaries">
                               <svg
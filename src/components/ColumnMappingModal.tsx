@@ -1,16 +1,118 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import {
+  ColumnMapping,
+  MappedField,
+  MAPPED_FIELDS,
+  MAPPED_FIELD_LABELS,
+  REQUIRED_FIELDS,
+  DEFAULT_DATA_START_ROW,
+} from "@/lib/routeColumnMapping";
+
+export interface MappingProfileSummary {
+  id: string;
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+  mapping: ColumnMapping;
+}
 
 interface ColumnMappingModalProps {
   isOpen: boolean;
   onClose: () => void;
+  token?: string | null;
+  // Built-in office-export layout (read-only)
+  builtIn?: MappingProfileSummary | null;
+  // Saved profiles, editable by admins
+  profiles?: MappingProfileSummary[];
+  onProfilesChanged?: () => void;
+}
+
+// Groups used to lay out the guide and the editor
+const FIELD_GROUPS: { title: string; fields: MappedField[] }[] = [
+  { title: "📋 Route Information", fields: ["routeNumber", "date", "driver", "sequence"] },
+  { title: "👥 Customer Information", fields: ["customerName", "customerGroupCode", "customerEmail", "customerAddress"] },
+  { title: "📦 Order Information", fields: ["orderNumberWeb", "quickbooksInvoiceNum", "amount", "orderLines"] },
+  {
+    title: "💳 Payment Information",
+    fields: [
+      "codFlag",
+      "paymentFlagCash",
+      "paymentFlagCheck",
+      "paymentFlagCC",
+      "paymentAmountCash",
+      "paymentAmountCheck",
+      "paymentAmountCC",
+    ],
+  },
+  { title: "📝 Notes and Remarks", fields: ["initialDriverNotes", "adminNotes", "driverRemark"] },
+  { title: "🔄 Returns", fields: ["returnFlag"] },
+];
+
+interface EditableField {
+  headers: string;
+  fallbackColumn: string;
+}
+
+interface ProfileDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  isDefault: boolean;
+  dataStartRow: string;
+  fields: Record<MappedField, EditableField>;
+}
+
+function toDraft(profile: MappingProfileSummary | null | undefined, copy: boolean): ProfileDraft {
+  const fields = {} as Record<MappedField, EditableField>;
+  for (const field of MAPPED_FIELDS) {
+    const mapped = profile?.mapping.fields[field];
+    fields[field] = {
+      headers: mapped ? mapped.headers.join(", ") : "",
+      fallbackColumn: mapped?.fallbackColumn || "",
+    };
+  }
+  return {
+    id: copy ? null : profile?.id ?? null,
+    name: copy ? (profile ? `${profile.name} (copy)` : "") : profile?.name ?? "",
+    description: copy ? "" : profile?.description || "",
+    isDefault: copy ? false : !!profile?.isDefault,
+    dataStartRow: String(profile?.mapping.dataStartRow ?? DEFAULT_DATA_START_ROW),
+    fields,
+  };
+}
+
+function describeSource(profile: MappingProfileSummary, field: MappedField): string {
+  const mapped = profile.mapping.fields[field];
+  if (!mapped) return "Not imported";
+  const parts: string[] = [];
+  if (mapped.headers.length > 0) {
+    parts.push(`Header: ${mapped.headers.map((h) => `"${h}"`).join(" or ")}`);
+  }
+  if (mapped.fallbackColumn) {
+    parts.push(
+      mapped.headers.length > 0
+        ? `else Column ${mapped.fallbackColumn}`
+        : `Column ${mapped.fallbackColumn} (Fixed)`
+    );
+  }
+  return parts.join(", ");
 }
 
 export default function ColumnMappingModal({
   isOpen,
   onClose,
+  token,
+  builtIn,
+  profiles = [],
+  onProfilesChanged,
 }: ColumnMappingModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
   // Close modal when Escape key is pressed
   useEffect(() => {
     const handleEsc = (event: KeyboardEvent) => {
@@ -22,8 +124,109 @@ export default function ColumnMappingModal({
     };
   }, [onClose]);
 
+  useEffect(() => {
+    if (!isOpen) {
+      setDraft(null);
+      setError("");
+    }
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const allProfiles = [...(builtIn ? [builtIn] : []), ...profiles];
+  const selected =
+    allProfiles.find((p) => p.id === selectedId) || allProfiles[0] || null;
+  const isBuiltIn = !!builtIn && selected?.id === builtIn.id;
+  const canManage = !!token && !!onProfilesChanged;
+
+  const updateDraftField = (field: MappedField, key: keyof EditableField, value: string) => {
+    setDraft((prev) =>
+      prev
+        ? { ...prev, fields: { ...prev.fields, [field]: { ...prev.fields[field], [key]: value } } }
+        : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft || !token) return;
+    setSaving(true);
+    setError("");
+
+    const fields: ColumnMapping["fields"] = {};
+    for (const field of MAPPED_FIELDS) {
+      const headers = draft.fields[field].headers
+        .split(",")
+        .map((h) => h.trim())
+        .filter(Boolean);
+      const fallbackColumn = draft.fields[field].fallbackColumn.trim();
+      if (headers.length > 0 || fallbackColumn) {
+        fields[field] = { headers, ...(fallbackColumn ? { fallbackColumn } : {}) };
+      }
+    }
+
+    try {
+      const response = await fetch(
+        draft.id
+          ? `/api/admin/routes/mapping-profiles/${draft.id}`
+          : "/api/admin/routes/mapping-profiles",
+        {
+          method: draft.id ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name: draft.name,
+            description: draft.description,
+            isDefault: draft.isDefault,
+            mapping: { fields, dataStartRow: parseInt(draft.dataStartRow, 10) },
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.errors && data.errors.length > 0
+            ? `${data.message}: ${data.errors.join("; ")}`
+            : data.message || "Failed to save mapping profile"
+        );
+      }
+
+      setSelectedId(data.id);
+      setDraft(null);
+      onProfilesChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save mapping profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || isBuiltIn || !token) return;
+    if (!confirm(`Delete mapping profile "${selected.name}"?`)) return;
+    setSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/routes/mapping-profiles/${selected.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete mapping profile");
+      }
+      setSelectedId(null);
+      onProfilesChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete mapping profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -36,125 +239,167 @@ export default function ColumnMappingModal({
         </div>
 
         {/* Modal panel */}
-        <div className="inline-block align-bottom bg-white rounded-xl text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+        <div className="inline-block align-bottom bg-white rounded-xl text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full">
           <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
-            <div className="sm:flex sm:items-start">
-              <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
-                <h3 className="text-lg leading-6 font-medium text-mono-800 mb-4">
-                  Excel Column Mapping Guide
-                </h3>
-                <div className="mt-2">
-                  <p className="text-sm text-mono-600 mb-3">
-                    The system maps data from your Excel file using the following column headers and fixed positions. Only these fields are currently imported and used:
-                  </p>
-                  <div className="bg-mono-50 p-4 rounded-lg">
-                    <div className="text-xs text-mono-600 mb-3">
-                      <strong>Note:</strong> The system uses header-based mapping with fallback to fixed column positions for critical fields.
-                    </div>
-
-                    <div className="space-y-4">
-                      {/* Core Route Information */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">📋 Route Information</div>
-                        <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "Route #"</div>
-                          <div className="text-xs text-mono-800">Route Number</div>
-
-                          <div className="text-xs text-mono-600">Column C (Fixed)</div>
-                          <div className="text-xs text-mono-800">Assigned Driver</div>
+            <h3 className="text-lg leading-6 font-medium text-mono-800 mb-4">
+              Excel Column Mapping
+            </h3>
 
-                          <div className="text-xs text-mono-600">Header: "S No"</div>
-                          <div className="text-xs text-mono-800">Stop Sequence</div>
-                        </div>
-                      </div>
-
-                      {/* Customer Information */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">👥 Customer Information</div>
-                        <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "Customers"</div>
-                          <div className="text-xs text-mono-800">Customer Name</div>
-
-                          <div className="text-xs text-mono-600">Header: "Customer GROUP CODE"</div>
-                          <div className="text-xs text-mono-800">Customer Group Code</div>
-
-                          <div className="text-xs text-mono-600">Header: "Customer Email"</div>
-                          <div className="text-xs text-mono-800">Customer Email</div>
-                        </div>
-                      </div>
-
-                      {/* Order Information */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">📦 Order Information</div>
-                        <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "Order # (Web)"</div>
-                          <div className="text-xs text-mono-800">Web Order Number</div>
-
-                          <div className="text-xs text-mono-600">Column AI (Fixed)</div>
-                          <div className="text-xs text-mono-800">QuickBooks Invoice #</div>
-
-                          <div className="text-xs text-mono-600">Header: "Amount"</div>
-                          <div className="text-xs text-mono-800">Order Amount</div>
-                        </div>
-                      </div>
-
-                      {/* Payment Information */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">💳 Payment Information</div>
-                        <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "COD Account/ Send Inv to Customer"</div>
-                          <div className="text-xs text-mono-800">COD Flag</div>
-
-                          <div className="text-xs text-mono-600">Header: "Cash"</div>
-                          <div className="text-xs text-mono-800">Cash Payment Flag</div>
-
-                          <div className="text-xs text-mono-600">Header: "Check"</div>
-                          <div className="text-xs text-mono-800">Check Payment Flag</div>
-
-                          <div className="text-xs text-mono-600">Header: "Credit Card"</div>
-                          <div className="text-xs text-mono-800">Credit Card Payment Flag</div>
-
-                          <div className="text-xs text-mono-600">Column AK (Fixed)</div>
-                          <div className="text-xs text-mono-800">Cash Payment Amount</div>
-
-                          <div className="text-xs text-mono-600">Column AL (Fixed)</div>
-                          <div className="text-xs text-mono-800">Check Payment Amount</div>
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded text-sm">
+                {error}
+              </div>
+            )}
 
-                          <div className="text-xs text-mono-600">Column AM (Fixed)</div>
-                          <div className="text-xs text-mono-800">Credit Card Payment Amount</div>
-                        </div>
-                      </div>
+            {/* Profile picker */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {allProfiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(profile.id);
+                    setDraft(null);
+                  }}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                    selected?.id === profile.id
+                      ? "bg-black text-white border-black"
+                      : "bg-white text-mono-700 border-mono-300 hover:border-mono-500"
+                  }`}
+                >
+                  {profile.name}
+                  {profile.isDefault && " ★"}
+                </button>
+              ))}
+              {canManage && !draft && (
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(selected, true))}
+                  className="px-3 py-1 rounded-full text-xs font-medium text-primary-blue hover:text-blue-700"
+                >
+                  + New profile from this
+                </button>
+              )}
+            </div>
 
-                      {/* Notes and Remarks */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">📝 Notes and Remarks</div>
-                        <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "NOTES to be updated at top of the INVOICE"</div>
-                          <div className="text-xs text-mono-800">Initial Driver Notes</div>
+            {draft ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="text-xs text-mono-700">
+                    Profile name
+                    <input
+                      type="text"
+                      value={draft.name}
+                      maxLength={100}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="mt-1 w-full border border-mono-300 rounded px-2 py-1 text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-mono-700">
+                    First data row
+                    <input
+                      type="number"
+                      min={2}
+                      max={100}
+                      value={draft.dataStartRow}
+                      onChange={(e) => setDraft({ ...draft, dataStartRow: e.target.value })}
+                      className="mt-1 w-full border border-mono-300 rounded px-2 py-1 text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-mono-700 sm:col-span-2">
+                    Description
+                    <input
+                      type="text"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      className="mt-1 w-full border border-mono-300 rounded px-2 py-1 text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-mono-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.isDefault}
+                      onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+                    />
+                    Prefer this profile when auto-detection is a tie
+                  </label>
+                </div>
 
-                          <div className="text-xs text-mono-600">Header: "Notes for Drivers"</div>
-                          <div className="text-xs text-mono-800">Admin Notes (Creates Admin Note)</div>
+                <p className="text-xs text-mono-600">
+                  Separate alternative header names with commas. The fixed column is only used
+                  when none of the headers is found.
+                </p>
 
-                          <div className="text-xs text-mono-600">Header: "Other Remarks"</div>
-                          <div className="text-xs text-mono-800">Driver Remarks</div>
+                {FIELD_GROUPS.map((group) => (
+                  <div key={group.title}>
+                    <div className="text-xs font-semibold text-mono-800 mb-2">{group.title}</div>
+                    <div className="space-y-2 ml-2">
+                      {group.fields.map((field) => (
+                        <div key={field} className="grid grid-cols-12 gap-2 items-center">
+                          <div className="col-span-4 text-xs text-mono-800">
+                            {MAPPED_FIELD_LABELS[field]}
+                            {REQUIRED_FIELDS.includes(field) && (
+                              <span className="text-primary-red"> *</span>
+                            )}
+                          </div>
+                          <input
+                            type="text"
+                            placeholder="Header names"
+                            value={draft.fields[field].headers}
+                            onChange={(e) => updateDraftField(field, "headers", e.target.value)}
+                            className="col-span-6 border border-mono-300 rounded px-2 py-1 text-xs"
+                          />
+                          <input
+                            type="text"
+                            placeholder="Col"
+                            maxLength={3}
+                            value={draft.fields[field].fallbackColumn}
+                            onChange={(e) =>
+                              updateDraftField(field, "fallbackColumn", e.target.value.toUpperCase())
+                            }
+                            className="col-span-2 border border-mono-300 rounded px-2 py-1 text-xs"
+                          />
                         </div>
-                      </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              selected && (
+                <div className="bg-mono-50 p-4 rounded-lg">
+                  <div className="text-xs text-mono-600 mb-3">
+                    {selected.description ||
+                      (isBuiltIn
+                        ? "The standard office export layout. Uses header-based mapping with fixed column positions for critical fields."
+                        : "Custom column mapping.")}{" "}
+                    Data starts on row {selected.mapping.dataStartRow ?? DEFAULT_DATA_START_ROW}.
+                  </div>
 
-                      {/* Returns */}
-                      <div>
-                        <div className="text-xs font-semibold text-mono-800 mb-2">🔄 Returns</div>
+                  <div className="space-y-4">
+                    {FIELD_GROUPS.map((group) => (
+                      <div key={group.title}>
+                        <div className="text-xs font-semibold text-mono-800 mb-2">{group.title}</div>
                         <div className="grid grid-cols-2 gap-2 ml-2">
-                          <div className="text-xs text-mono-600">Header: "Payments & Returns Remarks"</div>
-                          <div className="text-xs text-mono-800">Return Flag</div>
+                          {group.fields.map((field) => (
+                            <div key={field} className="contents">
+                              <div className="text-xs text-mono-600">
+                                {describeSource(selected, field)}
+                              </div>
+                              <div className="text-xs text-mono-800">
+                                {MAPPED_FIELD_LABELS[field]}
+                              </div>
+                            </div>
+                          ))}
                         </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
                 </div>
-              </div>
-            </div>
+              )
+            )}
           </div>
-          <div className="bg-mono-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+          <div className="bg-mono-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
             <button
               type="button"
               className="w-full inline-flex justify-center rounded-lg border border-transparent shadow-sm px-4 py-2 bg-black text-base font-medium text-white hover:bg-mono-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-blue sm:ml-3 sm:w-auto sm:text-sm transition duration-200"
@@ -162,6 +407,45 @@ export default function ColumnMappingModal({
             >
               Close
             </button>
+            {draft && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || !draft.name.trim()}
+                  className="w-full inline-flex justify-center rounded-lg px-4 py-2 bg-primary-blue text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 sm:w-auto"
+                >
+                  {saving ? "Saving..." : "Save Profile"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                  className="w-full inline-flex justify-center rounded-lg px-4 py-2 bg-mono-200 text-sm font-medium text-mono-800 hover:bg-mono-300 sm:w-auto"
+                >
+                  Cancel
+                </button>
+              </>
+            )}
+            {!draft && canManage && selected && !isBuiltIn && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(selected, false))}
+                  className="w-full inline-flex justify-center rounded-lg px-4 py-2 bg-mono-200 text-sm font-medium text-mono-800 hover:bg-mono-300 sm:w-auto"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={saving}
+                  className="w-full inline-flex justify-center rounded-lg px-4 py-2 text-sm font-medium text-primary-red hover:bg-red-50 sm:w-auto"
+                >
+                  Delete
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
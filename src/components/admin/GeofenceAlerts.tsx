@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSocket } from "@/contexts/SocketContext";
+import { GeofenceAlertData, SocketEvents } from "@/lib/socketClient";
+
+// Alerts raised when a driver leaves a stop's geofence without completing it
+export default function GeofenceAlerts() {
+  const { isConnected, joinRoom, subscribe } = useSocket();
+  const [alerts, setAlerts] = useState<GeofenceAlertData[]>([]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    joinRoom("admin");
+
+    const unsubscribe = subscribe(SocketEvents.GEOFENCE_ALERT, (data: GeofenceAlertData) => {
+      setAlerts((prev) => [data, ...prev.filter((alert) => alert.stopId !== data.stopId)]);
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [isConnected, joinRoom, subscribe]);
+
+  const dismiss = (stopId: string) => {
+    setAlerts((prev) => prev.filter((alert) => alert.stopId !== stopId));
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-50 space-y-3 w-80 max-w-[calc(100vw-2rem)]">
+      {alerts.map((alert) => (
+        <div
+          key={alert.stopId}
+          className="bg-white border-l-4 border-red-500 rounded-r-lg shadow-lg p-4"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm text-gray-800">
+              <span className="font-semibold">{alert.driverName}</span> left{" "}
+              <span className="font-semibold">{alert.customerName}</span> without
+              completing the stop ({alert.distanceMeters} m away)
+            </p>
+            <button
+              onClick={() => dismiss(alert.stopId)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+          <Link
+            href={`/admin/stops/${alert.stopId}`}
+            onClick={() => dismiss(alert.stopId)}
+            className="mt-2 inline-block text-sm font-medium text-red-600 hover:text-red-800"
+          >
+            View stop
+          </Link>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { ReceivingWindow, WEEKDAY_NAMES } from "@/utils/receivingHours";
+
+export interface ReceivingHoursValue {
+  windows: ReceivingWindow[];
+  closedWeekdays: number[];
+  dockNotes: string;
+}
+
+interface ReceivingHoursEditorProps {
+  value: ReceivingHoursValue;
+  onChange: (value: ReceivingHoursValue) => void;
+}
+
+const inputClass =
+  "rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-500/50 text-sm";
+
+export default function ReceivingHoursEditor({ value, onChange }: ReceivingHoursEditorProps) {
+  const updateWindows = (weekday: number, dayWindows: ReceivingWindow[]) => {
+    onChange({
+      ...value,
+      windows: [...value.windows.filter((window) => window.weekday !== weekday), ...dayWindows],
+    });
+  };
+
+  const toggleClosed = (weekday: number, closed: boolean) => {
+    onChange({
+      ...value,
+      // A closed day can't keep its windows
+      windows: closed
+        ? value.windows.filter((window) => window.weekday !== weekday)
+        : value.windows,
+      closedWeekdays: closed
+        ? [...value.closedWeekdays, weekday].sort((a, b) => a - b)
+        : value.closedWeekdays.filter((day) => day !== weekday),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Pacific time. Days without windows have no restriction; a day can have more than one
+        window (e.g. a lunch break).
+      </p>
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {WEEKDAY_NAMES.map((name, weekday) => {
+          const closed = value.closedWeekdays.includes(weekday);
+          // Kept in entry order so rows don't jump around while typing
+          const dayWindows = value.windows.filter((window) => window.weekday === weekday);
+
+          return (
+            <div key={name} className="flex flex-col sm:flex-row sm:items-start gap-2 p-3">
+              <div className="sm:w-32 flex-shrink-0 text-sm font-medium text-gray-700 pt-1.5">
+                {name}
+              </div>
+              <div className="flex-1 space-y-2">
+                {closed ? (
+                  <p className="text-sm text-red-600 pt-1.5">Closed — no deliveries</p>
+                ) : dayWindows.length === 0 ? (
+                  <p className="text-sm text-gray-400 pt-1.5">Any time</p>
+                ) : (
+                  dayWindows.map((window, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={window.opensAt}
+                        onChange={(e) =>
+                          updateWindows(
+                            weekday,
+                            dayWindows.map((w, i) => (i === index ? { ...w, opensAt: e.target.value } : w))
+                          )
+                        }
+                        className={inputClass}
+                        aria-label={`${name} opens at`}
+                      />
+                      <span className="text-gray-500 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={window.closesAt}
+                        onChange={(e) =>
+                          updateWindows(
+                            weekday,
+                            dayWindows.map((w, i) => (i === index ? { ...w, closesAt: e.target.value } : w))
+                          )
+                        }
+                        className={inputClass}
+                        aria-label={`${name} closes at`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateWindows(weekday, dayWindows.filter((_, i) => i !== index))
+                        }
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="flex items-center gap-4 sm:pt-1.5">
+                {!closed && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateWindows(weekday, [
+                        ...dayWindows,
+                        { weekday, opensAt: "08:00", closesAt: "17:00" },
+                      ])
+                    }
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Window
+                  </button>
+                )}
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={closed}
+                    onChange={(e) => toggleClosed(weekday, e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Closed
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div>
+        <label htmlFor="dockNotes" className="block text-sm font-medium text-gray-700 mb-1">
+          Dock Notes
+        </label>
+        <textarea
+          id="dockNotes"
+          value={value.dockNotes}
+          onChange={(e) => onChange({ ...value, dockNotes: e.target.value })}
+          rows={2}
+          maxLength={1000}
+          placeholder="e.g. Use the rear dock on 5th St, ring the bell"
+          className={`w-full ${inputClass}`}
+        ></textarea>
+      </div>
+    </div>
+  );
+}
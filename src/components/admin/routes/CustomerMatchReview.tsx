@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { CustomerMatch, ScoredCustomer } from "@/lib/customerMatching";
+
+interface CustomerMatchReviewProps {
+  matches: CustomerMatch[];
+  token: string | null;
+  // Called after aliases are saved, to re-run the preview
+  onAliasesChanged: () => void;
+}
+
+const describeSignals = ({ signals }: ScoredCustomer) =>
+  [
+    signals.alias ? "saved alias" : `name ${Math.round(signals.name * 100)}%`,
+    signals.groupCode !== null && (signals.groupCode ? "group code matches" : "group code differs"),
+    signals.email !== null && (signals.email ? "email matches" : "email differs"),
+    signals.address !== null && `address ${Math.round(signals.address * 100)}%`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * Customer step of the upload preview: lists customer names that were
+ * linked to a differently spelled customer, and asks the admin to confirm
+ * the uncertain ones. Confirmed spellings are saved as customer aliases.
+ */
+export default function CustomerMatchReview({
+  matches,
+  token,
+  onAliasesChanged,
+}: CustomerMatchReviewProps) {
+  // upload name → chosen customer id ("" = new customer)
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const review = matches.filter((match) => match.status === "review");
+  const linked = matches.filter(
+    (match) => match.status === "matched" && match.customer && match.customer.name !== match.name
+  );
+
+  useEffect(() => {
+    setChoices(
+      Object.fromEntries(
+        matches
+          .filter((match) => match.status === "review")
+          .map((match) => [match.name, ""])
+      )
+    );
+  }, [matches]);
+
+  if (review.length === 0 && linked.length === 0) {
+    return null;
+  }
+
+  const selectedCount = Object.values(choices).filter(Boolean).length;
+
+  const saveAliases = async () => {
+    if (!token) return;
+    setSaving(true);
+    setError("");
+    try {
+      const response = await fetch("/api/admin/customers/aliases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          aliases: Object.entries(choices)
+            .filter(([, customerId]) => customerId)
+            .map(([name, customerId]) => ({ name, customerId })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save customer aliases");
+      }
+      onAliasesChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save customer aliases");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-4">
+      <h4 className="text-md font-medium text-gray-800 mb-1">Customer Matches</h4>
+      {review.length > 0 && (
+        <p className="text-sm text-gray-600 mb-3">
+          {review.length} customer name{review.length === 1 ? " looks" : "s look"} like an
+          existing customer but the match is not certain. Confirm the right customer to link
+          it now and on future uploads, or leave it to be saved as a new customer.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              In File
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Customer
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {review.map((match) => (
+            <tr key={match.name}>
+              <td className="px-3 py-2 align-top">{match.name}</td>
+              <td className="px-3 py-2 space-y-1">
+                {match.candidates.map((candidate) => (
+                  <label key={candidate.customer.id} className="flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name={`customer-${match.name}`}
+                      checked={choices[match.name] === candidate.customer.id}
+                      onChange={() =>
+                        setChoices((prev) => ({ ...prev, [match.name]: candidate.customer.id }))
+                      }
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium">{candidate.customer.name}</span>{" "}
+                      <span className="text-xs text-gray-500">
+                        {Math.round(candidate.score * 100)}% - {describeSignals(candidate)}
+                      </span>
+                      {candidate.customer.address && (
+                        <span className="block text-xs text-gray-500">
+                          {candidate.customer.address}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name={`customer-${match.name}`}
+                    checked={!choices[match.name]}
+                    onChange={() => setChoices((prev) => ({ ...prev, [match.name]: "" }))}
+                  />
+                  <span className="text-gray-700">New customer</span>
+                </label>
+              </td>
+            </tr>
+          ))}
+          {linked.map((match) => (
+            <tr key={match.name}>
+              <td className="px-3 py-2">{match.name}</td>
+              <td className="px-3 py-2 text-gray-700">
+                {match.customer?.name}{" "}
+                <span className="text-xs text-gray-500">
+                  (linked automatically
+                  {match.candidates[0] ? `, ${describeSignals(match.candidates[0])}` : ""})
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {review.length > 0 && (
+        <button
+          type="button"
+          onClick={saveAliases}
+          disabled={saving || selectedCount === 0}
+          className="mt-3 bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : `Confirm ${selectedCount} match${selectedCount === 1 ? "" : "es"}`}
+        </button>
+      )}
+    </div>
+  );
+}
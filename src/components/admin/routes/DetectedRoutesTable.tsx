@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from "react";
+import type { RouteDiff } from "@/lib/routeDiff";
+import RouteDiffView from "./RouteDiffView";
+
+export type RouteUploadAction = "create" | "update";
+
+export interface DetectedRoutePreview {
+  key: string;
+  routeNumber: string;
+  date: string;
+  sheetNames: string[];
+  stopCount: number;
+  driverSummary: Record<string, number>;
+  warnings: string[];
+  conflict: {
+    id: string;
+    routeNumber: string | null;
+    date: string;
+    status: string;
+    stopCount: number;
+  } | null;
+  diff: RouteDiff | null;
+}
+
+interface DetectedRoutesTableProps {
+  routes: DetectedRoutePreview[];
+  selectedKeys: string[];
+  onSelectionChange: (keys: string[]) => void;
+  actions: Record<string, RouteUploadAction>;
+  onActionChange: (key: string, action: RouteUploadAction) => void;
+  protectDriverProgress: boolean;
+}
+
+/**
+ * Lists every route found in a multi-route upload so the admin can pick which
+ * ones to commit and how to handle each conflict.
+ */
+export default function DetectedRoutesTable({
+  routes,
+  selectedKeys,
+  onSelectionChange,
+  actions,
+  onActionChange,
+  protectDriverProgress,
+}: DetectedRoutesTableProps) {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const allSelected = routes.length > 0 && selectedKeys.length === routes.length;
+
+  const toggle = (key: string) => {
+    onSelectionChange(
+      selectedKeys.includes(key)
+        ? selectedKeys.filter((k) => k !== key)
+        : [...selectedKeys, key]
+    );
+  };
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-md font-medium text-gray-800 mb-2">
+        Routes in this file ({selectedKeys.length} of {routes.length} selected)
+      </h4>
+      <div className="bg-white rounded-md shadow-sm overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() =>
+                    onSelectionChange(allSelected ? [] : routes.map((r) => r.key))
+                  }
+                  aria-label="Select all routes"
+                />
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Route
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Sheet
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Stops
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Conflict
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Warnings
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {routes.map((route) => (
+              <RouteRow
+                key={route.key}
+                route={route}
+                selected={selectedKeys.includes(route.key)}
+                onToggle={() => toggle(route.key)}
+                action={actions[route.key] || "update"}
+                onActionChange={(action) => onActionChange(route.key, action)}
+                protectDriverProgress={protectDriverProgress}
+                expanded={expandedKey === route.key}
+                onToggleExpanded={() =>
+                  setExpandedKey(expandedKey === route.key ? null : route.key)
+                }
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function RouteRow({
+  route,
+  selected,
+  onToggle,
+  action,
+  onActionChange,
+  protectDriverProgress,
+  expanded,
+  onToggleExpanded,
+}: {
+  route: DetectedRoutePreview;
+  selected: boolean;
+  onToggle: () => void;
+  action: RouteUploadAction;
+  onActionChange: (action: RouteUploadAction) => void;
+  protectDriverProgress: boolean;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+}) {
+  return (
+    <>
+      <tr className={selected ? "" : "opacity-60"}>
+        <td className="px-3 py-2">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggle}
+            aria-label={`Select route ${route.routeNumber}`}
+          />
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+          {route.routeNumber || "N/A"}
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+          {new Date(route.date).toLocaleDateString()}
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+          {route.sheetNames.join(", ") || "—"}
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+          {route.stopCount}
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm">
+          {route.conflict ? (
+            <div className="flex items-center gap-2">
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                Exists ({route.conflict.stopCount} stops, {route.conflict.status})
+              </span>
+              <select
+                value={action}
+                onChange={(e) => onActionChange(e.target.value as RouteUploadAction)}
+                disabled={!selected}
+                className="border border-gray-300 rounded px-2 py-1 text-xs"
+              >
+                <option value="update">Merge into existing</option>
+                <option value="create">Replace existing</option>
+              </select>
+              {route.diff && (
+                <button
+                  type="button"
+                  onClick={onToggleExpanded}
+                  className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                >
+                  Changes {expanded ? "▲" : "▼"}
+                </button>
+              )}
+            </div>
+          ) : (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+              New
+            </span>
+          )}
+        </td>
+        <td className="px-3 py-2 whitespace-nowrap text-sm">
+          {route.warnings.length > 0 ? (
+            <button
+              type="button"
+              onClick={onToggleExpanded}
+              className="text-yellow-700 hover:text-yellow-900 font-medium"
+            >
+              {route.warnings.length} {expanded ? "▲" : "▼"}
+            </button>
+          ) : (
+            <span className="text-gray-400">0</span>
+          )}
+        </td>
+      </tr>
+      {expanded && route.warnings.length > 0 && (
+        <tr>
+          <td colSpan={7} className="px-6 py-2 bg-yellow-50">
+            <ul className="list-disc pl-5 space-y-1 text-sm text-yellow-700">
+              {route.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </td>
+        </tr>
+      )}
+      {expanded && route.diff && (
+        <tr>
+          <td colSpan={7} className="px-6 py-2 bg-gray-50">
+            <RouteDiffView
+              diff={route.diff}
+              protectDriverProgress={protectDriverProgress}
+              action={action}
+            />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { DriverAccount, DriverNameResolution as ResolvedName } from "@/lib/driverAliases";
+
+interface DriverNameResolutionProps {
+  names: ResolvedName[];
+  token: string | null;
+  // Called after aliases are saved or removed, to re-run the preview
+  onAliasesChanged: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  initials: "initials",
+  tokenOverlap: "same words",
+  editDistance: "similar spelling",
+};
+
+const driverLabel = (driver: DriverAccount) =>
+  driver.fullName ? `${driver.fullName} (${driver.username})` : driver.username;
+
+/**
+ * Resolution step of the upload preview: shows how each driver name in the
+ * file maps to a driver account, and lets the admin map unrecognized
+ * spellings to a driver. Saved choices become aliases used on every later
+ * upload.
+ */
+export default function DriverNameResolution({
+  names,
+  token,
+  onAliasesChanged,
+}: DriverNameResolutionProps) {
+  const [drivers, setDrivers] = useState<DriverAccount[]>([]);
+  // upload spelling → chosen driver id ("" = leave unmatched)
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const unmatched = names.filter((entry) => !entry.match);
+  const aliased = names.filter((entry) => entry.match?.source === "alias");
+
+  useEffect(() => {
+    if (!token || unmatched.length === 0) return;
+    fetch("/api/admin/drivers", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data) => setDrivers(Array.isArray(data) ? data : []))
+      .catch(() => setDrivers([]));
+  }, [token, unmatched.length]);
+
+  // Pre-select the best suggestion for each unmatched name
+  useEffect(() => {
+    setChoices(
+      Object.fromEntries(
+        names
+          .filter((entry) => !entry.match)
+          .map((entry) => [entry.name, entry.suggestions[0]?.driver.id ?? ""])
+      )
+    );
+  }, [names]);
+
+  if (unmatched.length === 0 && aliased.length === 0) {
+    return null;
+  }
+
+  const selectedCount = Object.values(choices).filter(Boolean).length;
+
+  const saveAliases = async () => {
+    if (!token) return;
+    setSaving(true);
+    setError("");
+    try {
+      const response = await fetch("/api/admin/drivers/aliases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          aliases: Object.entries(choices)
+            .filter(([, driverId]) => driverId)
+            .map(([name, driverId]) => ({ name, driverId })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save driver aliases");
+      }
+      onAliasesChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save driver aliases");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeAlias = async (aliasId: string) => {
+    if (!token) return;
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/drivers/aliases/${aliasId}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to remove driver alias");
+      }
+      onAliasesChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to remove driver alias");
+    }
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-4">
+      <h4 className="text-md font-medium text-gray-800 mb-1">Driver Names</h4>
+      {unmatched.length > 0 && (
+        <p className="text-sm text-gray-600 mb-3">
+          {unmatched.length} driver name{unmatched.length === 1 ? " does" : "s do"} not
+          match a driver account. Pick the driver each spelling refers to and save;
+          the same spelling will be matched automatically on future uploads.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              In File
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Driver
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {unmatched.map((entry) => (
+            <tr key={entry.name}>
+              <td className="px-3 py-2 font-mono">{entry.name}</td>
+              <td className="px-3 py-2">
+                <select
+                  value={choices[entry.name] ?? ""}
+                  onChange={(e) =>
+                    setChoices((prev) => ({ ...prev, [entry.name]: e.target.value }))
+                  }
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  <option value="">Leave unmatched</option>
+                  {entry.suggestions.length > 0 && (
+                    <optgroup label="Suggestions">
+                      {entry.suggestions.map((suggestion) => (
+                        <option key={suggestion.driver.id} value={suggestion.driver.id}>
+                          {driverLabel(suggestion.driver)} - {Math.round(suggestion.score * 100)}%,{" "}
+                          {REASON_LABELS[suggestion.reason]}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  <optgroup label="All drivers">
+                    {drivers.map((driver) => (
+                      <option key={driver.id} value={driver.id}>
+                        {driverLabel(driver)}
+                      </option>
+                    ))}
+                  </optgroup>
+                </select>
+              </td>
+            </tr>
+          ))}
+          {aliased.map((entry) => (
+            <tr key={entry.name}>
+              <td className="px-3 py-2 font-mono">{entry.name}</td>
+              <td className="px-3 py-2 text-gray-700">
+                {entry.match && driverLabel(entry.match.driver)}{" "}
+                <span className="text-xs text-gray-500">(saved alias)</span>{" "}
+                <button
+                  type="button"
+                  onClick={() => entry.match?.aliasId && removeAlias(entry.match.aliasId)}
+                  className="text-xs text-red-600 hover:text-red-800 underline"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {unmatched.length > 0 && (
+        <button
+          type="button"
+          onClick={saveAliases}
+          disabled={saving || selectedCount === 0}
+          className="mt-3 bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : `Save ${selectedCount} alias${selectedCount === 1 ? "" : "es"}`}
+        </button>
+      )}
+    </div>
+  );
+}
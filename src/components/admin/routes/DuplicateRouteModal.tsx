@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { duplicateRoute } from "@/services/routeOperations";
+import { getPSTDateString } from "@/lib/timezone";
+
+interface DuplicateRouteModalProps {
+  show: boolean;
+  route: { id: string; routeNumber: string | null } | null;
+  onClose: () => void;
+  onDuplicated: (routeId: string) => void;
+}
+
+const CLEAR_OPTIONS = [
+  { key: "clearInvoiceNumbers", label: "Clear invoice and order numbers" },
+  { key: "clearAmounts", label: "Clear amounts" },
+  { key: "clearPaymentFlags", label: "Clear payment flags" },
+] as const;
+
+type ClearOption = (typeof CLEAR_OPTIONS)[number]["key"];
+
+export default function DuplicateRouteModal({
+  show,
+  route,
+  onClose,
+  onDuplicated,
+}: DuplicateRouteModalProps) {
+  const today = getPSTDateString();
+  const [date, setDate] = useState("");
+  const [clear, setClear] = useState<Record<ClearOption, boolean>>({
+    clearInvoiceNumbers: true,
+    clearAmounts: true,
+    clearPaymentFlags: true,
+  });
+  const [duplicating, setDuplicating] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (show) {
+      setDate("");
+      setError("");
+    }
+  }, [show]);
+
+  if (!show || !route) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDuplicating(true);
+    setError("");
+
+    try {
+      const result = await duplicateRoute(route.id, { date, ...clear });
+      onDuplicated(result.routeId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Duplicate Route</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Copies route {route.routeNumber || "N/A"}&apos;s stops, order, notes and drivers
+            to a new date. Payments, photos and statuses are never copied.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="duplicateDate" className="block text-sm font-medium text-gray-700 mb-1">
+            Date
+          </label>
+          <input
+            id="duplicateDate"
+            type="date"
+            min={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          {CLEAR_OPTIONS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={clear[key]}
+                onChange={(e) => setClear({ ...clear, [key]: e.target.checked })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!date || duplicating}
+            className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {duplicating ? "Duplicating..." : "Duplicate"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import type { StopWindowCheck } from "@/lib/receivingWindows";
+import { formatTimePST } from "@/lib/timezone";
+
+interface ReceivingWindowFlagProps {
+  check?: StopWindowCheck;
+}
+
+// Shown under a stop's address when its projected arrival misses the
+// customer's receiving hours, or the driver will wait for them to open
+export default function ReceivingWindowFlag({ check }: ReceivingWindowFlagProps) {
+  if (!check) return null;
+
+  if (check.verdict === "LATE" || check.verdict === "CLOSED") {
+    return (
+      <div
+        className="mt-1 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800"
+        title={`Receiving hours: ${check.hours}`}
+      >
+        {check.verdict === "CLOSED"
+          ? "Closed on this day"
+          : `ETA ${formatTimePST(check.projectedArrival)} – after receiving (${check.hours})`}
+      </div>
+    );
+  }
+
+  if (check.verdict === "EARLY" && check.waitMinutes >= 15) {
+    return (
+      <div
+        className="mt-1 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800"
+        title={`Receiving hours: ${check.hours}`}
+      >
+        ETA {formatTimePST(check.projectedArrival)} – waits {check.waitMinutes} min to open
+      </div>
+    );
+  }
+
+  return null;
+}
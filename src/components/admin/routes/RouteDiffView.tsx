@@ -0,0 +1,133 @@
+'use client';
+
+import type { FieldChange, RouteDiff, StopDiffEntry } from "@/lib/routeDiff";
+
+const FIELD_LABELS: Record<FieldChange["field"], string> = {
+  quickbooksInvoiceNum: "Invoice #",
+  orderNumberWeb: "Order #",
+  amount: "Amount",
+  paymentAmountCash: "Cash",
+  paymentAmountCheck: "Check",
+  paymentAmountCC: "Card",
+};
+
+const KIND_STYLES: Record<StopDiffEntry["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  matched: "bg-gray-100 text-gray-700",
+};
+
+interface RouteDiffViewProps {
+  diff: RouteDiff;
+  // Current state of the protection checkbox; the diff may predate it
+  protectDriverProgress: boolean;
+  // What happens to stops that aren't in the file
+  action: "create" | "update";
+}
+
+function formatValue(field: FieldChange["field"], value: string | number | null) {
+  if (value === null || value === "") return "—";
+  if (typeof value === "number" && field !== "quickbooksInvoiceNum" && field !== "orderNumberWeb") {
+    return `$${value.toFixed(2)}`;
+  }
+  return String(value);
+}
+
+/**
+ * Stop-by-stop changes an upload would make to the live route it conflicts
+ * with: added and removed stops, resequencing, changed invoice numbers and
+ * amounts, and which stops the driver has already worked.
+ */
+export default function RouteDiffView({
+  diff,
+  protectDriverProgress,
+  action,
+}: RouteDiffViewProps) {
+  const isProtected = (entry: StopDiffEntry) =>
+    protectDriverProgress && !!entry.progress;
+  const changedEntries = diff.stops.filter(
+    (entry) =>
+      entry.kind !== "matched" || entry.resequenced || entry.changes.length > 0 || entry.progress
+  );
+
+  return (
+    <div className="bg-white rounded-md shadow-sm p-3">
+      <div className="flex flex-wrap gap-2 mb-3 text-xs font-medium">
+        <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+          {diff.summary.added} added
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+          {diff.summary.removed} {action === "update" ? "not in file (kept)" : "removed"}
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+          {diff.summary.resequenced} resequenced
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+          {diff.summary.changed} with changed invoice/amounts
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">
+          {diff.summary.withProgress} with driver progress
+        </span>
+      </div>
+
+      {protectDriverProgress && diff.summary.withProgress > 0 && (
+        <p className="text-xs text-purple-700 mb-2">
+          {action === "update"
+            ? "Stops with driver progress will be left exactly as they are."
+            : "This route can't be replaced while stops with driver progress are protected."}
+        </p>
+      )}
+
+      {changedEntries.length === 0 ? (
+        <p className="text-sm text-gray-500">No stop changes.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">Change</th>
+                <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">Sequence</th>
+                <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {changedEntries.map((entry, index) => (
+                <tr key={entry.stopId ?? `added-${index}`}>
+                  <td className="px-2 py-1 text-gray-900">{entry.customerName}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[entry.kind]}`}>
+                      {entry.kind === "removed" && action === "update" ? "not in file" : entry.kind}
+                    </span>
+                    {entry.progress && (
+                      <span
+                        className="ml-1 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                        title={`${entry.progress.paymentCount} payment(s), ${entry.progress.returnCount} return(s), ${entry.progress.photoCount} photo(s)`}
+                      >
+                        {entry.progress.status}
+                        {isProtected(entry) ? " · protected" : ""}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap text-gray-600">
+                    {entry.resequenced
+                      ? `${entry.fromSequence} → ${entry.toSequence}`
+                      : entry.toSequence ?? entry.fromSequence}
+                  </td>
+                  <td className="px-2 py-1 text-gray-600">
+                    {entry.changes.map((change) => (
+                      <div key={change.field}>
+                        {FIELD_LABELS[change.field]}: {formatValue(change.field, change.from)} →{" "}
+                        {formatValue(change.field, change.to)}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import SearchableSelect from "@/components/ui/SearchableSelect";
+
+export interface RouteTemplateDetail {
+  id: string;
+  name: string;
+  routeNumber: string;
+  driverId: string | null;
+  weekdays: number[];
+  notes: string | null;
+  isActive: boolean;
+  driver: { id: string; username: string; fullName: string | null } | null;
+  stops: {
+    id: string;
+    customerId: string;
+    sequence: number;
+    initialDriverNotes: string | null;
+    isCOD: boolean;
+    customer: { id: string; name: string; address: string };
+  }[];
+}
+
+// Indexed by JavaScript weekday, 0 = Sunday
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface Driver {
+  id: string;
+  username: string;
+  fullName: string | null;
+}
+
+interface CustomerOption {
+  id: string;
+  name: string;
+  address: string;
+}
+
+interface StopRow {
+  customerId: string;
+  customerName: string;
+  address: string;
+  initialDriverNotes: string;
+  isCOD: boolean;
+}
+
+interface RouteTemplateFormProps {
+  // null when creating a template
+  template: RouteTemplateDetail | null;
+  token: string | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Create / edit form for a recurring route template: route number, driver,
+ * weekdays and the ordered customer list with per-stop notes and COD flags.
+ */
+export default function RouteTemplateForm({
+  template,
+  token,
+  onSaved,
+  onCancel,
+}: RouteTemplateFormProps) {
+  const [name, setName] = useState(template?.name ?? "");
+  const [routeNumber, setRouteNumber] = useState(template?.routeNumber ?? "");
+  const [driverId, setDriverId] = useState(template?.driverId ?? "");
+  const [weekdays, setWeekdays] = useState<number[]>(template?.weekdays ?? []);
+  const [notes, setNotes] = useState(template?.notes ?? "");
+  const [isActive, setIsActive] = useState(template?.isActive ?? true);
+  const [stops, setStops] = useState<StopRow[]>(
+    (template?.stops ?? []).map((stop) => ({
+      customerId: stop.customerId,
+      customerName: stop.customer.name,
+      address: stop.customer.address,
+      initialDriverNotes: stop.initialDriverNotes ?? "",
+      isCOD: stop.isCOD,
+    }))
+  );
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!token) return;
+    const headers = { Authorization: `Bearer ${token}` };
+
+    fetch("/api/admin/drivers", { headers })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data) => setDrivers(Array.isArray(data) ? data : []))
+      .catch(() => setDrivers([]));
+
+    fetch("/api/admin/customers?limit=1000", { headers })
+      .then((response) => (response.ok ? response.json() : { customers: [] }))
+      .then((data) => setCustomers(Array.isArray(data.customers) ? data.customers : []))
+      .catch(() => setCustomers([]));
+  }, [token]);
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+
+  const addStop = (customerId: string) => {
+    const customer = customers.find((c) => c.id === customerId);
+    if (!customer || stops.some((stop) => stop.customerId === customerId)) return;
+    setStops((prev) => [
+      ...prev,
+      {
+        customerId: customer.id,
+        customerName: customer.name,
+        address: customer.address,
+        initialDriverNotes: "",
+        isCOD: false,
+      },
+    ]);
+  };
+
+  const updateStop = (index: number, changes: Partial<StopRow>) =>
+    setStops((prev) => prev.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+
+  const moveStop = (index: number, offset: number) =>
+    setStops((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(
+        template ? `/api/admin/routes/templates/${template.id}` : "/api/admin/routes/templates",
+        {
+          method: template ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name,
+            routeNumber,
+            driverId: driverId || null,
+            weekdays,
+            notes,
+            isActive,
+            stops: stops.map((stop) => ({
+              customerId: stop.customerId,
+              initialDriverNotes: stop.initialDriverNotes,
+              isCOD: stop.isCOD,
+            })),
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.errors?.length ? data.errors : [data.message || "Failed to save template"]);
+        return;
+      }
+      onSaved();
+    } catch (err: unknown) {
+      setErrors([err instanceof Error ? err.message : "Failed to save template"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {errors.length > 0 && (
+        <div className="bg-primary-red/10 border border-primary-red/30 text-primary-red px-4 py-3 rounded-lg text-sm">
+          <ul className="list-disc pl-5">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Template Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            placeholder="e.g. Tuesday / Thursday Valley run"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Route Number</label>
+          <input
+            type="text"
+            value={routeNumber}
+            onChange={(e) => setRouteNumber(e.target.value)}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+          <select
+            value={driverId}
+            onChange={(e) => setDriverId(e.target.value)}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">No driver</option>
+            {drivers.map((driver) => (
+              <option key={driver.id} value={driver.id}>
+                {driver.fullName || driver.username}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Runs On</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <label
+                key={label}
+                className={`px-3 py-1.5 rounded-md border text-sm cursor-pointer ${
+                  weekdays.includes(day)
+                    ? "bg-primary-blue text-white border-primary-blue"
+                    : "border-gray-300 text-gray-700"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={weekdays.includes(day)}
+                  onChange={() => toggleWeekday(day)}
+                  className="sr-only"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+        Active (inactive templates can&apos;t generate routes)
+      </label>
+
+      <div>
+        <h4 className="text-md font-medium text-gray-800 mb-2">Stops</h4>
+        <div className="mb-3">
+          <SearchableSelect
+            options={customers
+              .filter((customer) => !stops.some((stop) => stop.customerId === customer.id))
+              .map((customer) => ({
+                value: customer.id,
+                label: customer.name,
+                searchText: `${customer.name} ${customer.address}`,
+              }))}
+            value=""
+            onChange={addStop}
+            placeholder="Add a customer..."
+          />
+        </div>
+
+        {stops.length === 0 ? (
+          <p className="text-sm text-gray-500">No stops yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Driver Notes</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">COD</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {stops.map((stop, index) => (
+                <tr key={stop.customerId}>
+                  <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{stop.customerName}</div>
+                    <div className="text-xs text-gray-500">{stop.address}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={stop.initialDriverNotes}
+                      onChange={(e) => updateStop(index, { initialDriverNotes: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={stop.isCOD}
+                      onChange={(e) => updateStop(index, { isCOD: e.target.checked })}
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <button
+                      type="button"
+                      onClick={() => moveStop(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 text-gray-600 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      &uarr;
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStop(index, 1)}
+                      disabled={index === stops.length - 1}
+                      className="px-2 text-gray-600 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      &darr;
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setStops((prev) => prev.filter((_, i) => i !== index))}
+                      className="px-2 text-xs text-red-600 hover:text-red-800 underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : template ? "Save Template" : "Create Template"}
+        </button>
+      </div>
+    </form>
+  );
+}
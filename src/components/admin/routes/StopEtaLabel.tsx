@@ -0,0 +1,29 @@
+'use client';
+
+import type { StopEta, TravelBasis } from "@/lib/stopEtas";
+import { formatTimePST } from "@/lib/timezone";
+
+interface StopEtaLabelProps {
+  eta?: StopEta;
+}
+
+const BASIS_LABELS: Record<TravelBasis, string> = {
+  live: "from the driver's current position",
+  history: "from past drives between these customers",
+  distance: "from the distance between stops",
+  default: "from a typical drive",
+};
+
+// Projected arrival under a remaining stop's status
+export default function StopEtaLabel({ eta }: StopEtaLabelProps) {
+  if (!eta) return null;
+
+  return (
+    <div
+      className="mt-1 text-xs text-gray-500"
+      title={`${eta.travelMinutes} min drive ${BASIS_LABELS[eta.basis]}, about ${eta.dwellMinutes} min at the stop`}
+    >
+      ETA {formatTimePST(eta.projectedArrival)}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import StatusBadge from "@/components/ui/StatusBadge";
+import { formatTimePST } from "@/lib/timezone";
+
+export interface StopStatusEventRow {
+  id: string;
+  fromStatus: string;
+  toStatus: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  distanceMeters: number | null;
+  pointSource: string | null;
+  flagged: boolean;
+  automatic: boolean;
+  createdAt: string;
+  driver: {
+    username: string;
+    fullName: string | null;
+  };
+}
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+// Where the driver was at each status change of a stop
+export default function StopLocationHistory({ events }: { events: StopStatusEventRow[] }) {
+  const flagged = events.some((event) => event.flagged);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-mono-200 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-mono-800">Location History</h2>
+        {flagged && (
+          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+            Completed away from customer
+          </span>
+        )}
+      </div>
+      <div className="p-6">
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Driver
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Location
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    From Customer
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {events.map((event) => (
+                  <tr key={event.id} className={event.flagged ? "bg-red-50" : undefined}>
+                    <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                      {formatTimePST(event.createdAt)}
+                    </td>
+                    <td className="px-4 py-2 text-sm whitespace-nowrap">
+                      <StatusBadge status={event.toStatus} />
+                      {event.automatic && (
+                        <span className="ml-2 text-xs text-gray-500">(automatic)</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {event.driver.fullName || event.driver.username}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {event.latitude !== null && event.longitude !== null ? (
+                        <a
+                          href={`https://www.google.com/maps?q=${event.latitude},${event.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary-blue hover:underline"
+                        >
+                          {event.latitude.toFixed(5)}, {event.longitude.toFixed(5)}
+                        </a>
+                      ) : (
+                        <span className="text-gray-400">No location</span>
+                      )}
+                      {event.accuracy !== null && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (±{Math.round(event.accuracy)} m)
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      className={`px-4 py-2 text-sm whitespace-nowrap ${
+                        event.flagged ? "text-red-700 font-semibold" : "text-gray-700"
+                      }`}
+                    >
+                      {event.distanceMeters !== null ? (
+                        <span title={`Measured against the ${event.pointSource} delivery point`}>
+                          {formatDistance(event.distanceMeters)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
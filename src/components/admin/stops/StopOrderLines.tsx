@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { shortQuantity } from "@/utils/orderLines";
+
+interface OrderLine {
+  id: string;
+  productId: string | null;
+  sku: string | null;
+  description: string;
+  unit: string | null;
+  orderedQty: number;
+  unitPrice: number | null;
+  deliveredQty: number | null;
+  shortReason: string | null;
+}
+
+const EMPTY_LINE = { sku: "", description: "", orderedQty: "1", unit: "", unitPrice: "" };
+
+const getToken = () => localStorage.getItem("token") || sessionStorage.getItem("token");
+
+// A stop's order lines with what the driver delivered; shortages highlighted
+export default function StopOrderLines({ stopId }: { stopId: string }) {
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLine, setNewLine] = useState(EMPTY_LINE);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/stops/${stopId}/order-lines`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch order lines");
+      }
+      setLines(data.lines);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [stopId]);
+
+  useEffect(() => {
+    fetchLines();
+  }, [fetchLines]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/stops/${stopId}/order-lines`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify({
+          sku: newLine.sku,
+          description: newLine.description,
+          orderedQty: newLine.orderedQty,
+          unit: newLine.unit,
+          unitPrice: newLine.unitPrice,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to add order line");
+      }
+      setLines([...lines, data]);
+      setNewLine(EMPTY_LINE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (line: OrderLine) => {
+    if (!confirm(`Remove ${line.description} from this stop?`)) return;
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/stops/${stopId}/order-lines/${line.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to remove order line");
+      }
+      setLines(lines.filter((other) => other.id !== line.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const totalShort = lines.reduce((sum, line) => sum + shortQuantity(line), 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-mono-200 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-mono-800">Order Lines</h2>
+        {totalShort > 0 && (
+          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+            {totalShort} short
+          </span>
+        )}
+      </div>
+      <div className="p-6 space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading order lines...</p>
+        ) : lines.length === 0 ? (
+          <p className="text-sm text-gray-500">No order lines on this stop.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Product", "Ordered", "Unit Price", "Delivered", "Short", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => {
+                  const short = shortQuantity(line);
+                  return (
+                    <tr key={line.id} className={short > 0 ? "bg-orange-50" : undefined}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {line.description}
+                        {line.sku && line.sku !== line.description && (
+                          <div className="text-xs text-gray-500">
+                            {line.sku}
+                            {!line.productId && " (not in product list)"}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                        {line.orderedQty}
+                        {line.unit ? ` ${line.unit}` : ""}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                        {line.unitPrice !== null ? `$${line.unitPrice.toFixed(2)}` : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                        {line.deliveredQty ?? <span className="text-gray-400">Not recorded</span>}
+                      </td>
+                      <td
+                        className={`px-4 py-2 text-sm ${
+                          short > 0 ? "text-orange-700 font-semibold" : "text-gray-700"
+                        }`}
+                      >
+                        {short > 0 ? short : "—"}
+                        {short > 0 && line.shortReason && (
+                          <div className="text-xs font-normal text-gray-600">{line.shortReason}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">
+                        <button
+                          onClick={() => handleDelete(line)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+          <input
+            type="text"
+            placeholder="SKU"
+            value={newLine.sku}
+            onChange={(e) => setNewLine({ ...newLine, sku: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Description"
+            value={newLine.description}
+            onChange={(e) => setNewLine({ ...newLine, description: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm md:col-span-2"
+          />
+          <input
+            type="number"
+            min={1}
+            placeholder="Qty"
+            aria-label="Ordered quantity"
+            value={newLine.orderedQty}
+            onChange={(e) => setNewLine({ ...newLine, orderedQty: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Unit"
+            value={newLine.unit}
+            onChange={(e) => setNewLine({ ...newLine, unit: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="Price"
+              aria-label="Unit price"
+              value={newLine.unitPrice}
+              onChange={(e) => setNewLine({ ...newLine, unitPrice: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={saving || (!newLine.sku.trim() && !newLine.description.trim())}
+              className="bg-primary-blue hover:bg-blue-700 text-white text-sm font-medium py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isValidBarcode, normalizeBarcode } from "@/utils/productBarcodes";
+
+// The browser's built-in barcode reader (Chrome on Android and others).
+// Not in TypeScript's DOM types yet.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const BARCODE_FORMATS = ["upc_a", "upc_e", "ean_13", "ean_8", "code_128", "code_39", "itf"];
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [scanError, setScanError] = useState("");
+  const [typedCode, setTypedCode] = useState("");
+
+  // Keep the latest callback without restarting the camera
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+      .BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setScanError("Scanning isn't supported on this device.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const scan = async (detector: BarcodeDetectorInstance) => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode && !stopped) {
+          stopped = true;
+          onDetectedRef.current(normalizeBarcode(barcode.rawValue));
+          return;
+        }
+      } catch (error) {
+        console.error("Error reading barcode:", error);
+      }
+      timer = setTimeout(() => scan(detector), 250);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        scan(new Detector({ formats: BARCODE_FORMATS }));
+      })
+      .catch((error) => {
+        console.error("Error starting camera:", error);
+        setScanError("Couldn't start the camera.");
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  // Not a <form>: the scanner sits inside the return forms
+  const handleTypedCode = () => {
+    const code = normalizeBarcode(typedCode);
+    if (isValidBarcode(code)) {
+      onDetected(code);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      {scanError ? (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded text-sm">
+          {scanError} Type the barcode below or search for the product by name.
+        </div>
+      ) : (
+        <div className="relative bg-black rounded overflow-hidden">
+          <video ref={videoRef} className="w-full max-h-64 object-cover" muted playsInline />
+          <div className="absolute inset-x-8 top-1/2 border-t-2 border-red-500 opacity-75" />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={typedCode}
+          onChange={(e) => setTypedCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleTypedCode();
+            }
+          }}
+          placeholder="Or type the barcode number"
+          className="flex-1 p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleTypedCode}
+          disabled={!isValidBarcode(normalizeBarcode(typedCode))}
+          className="px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          Find
+        </button>
+      </div>
+
+      <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">
+        Cancel scanning
+      </button>
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { locationTrackingService, LocationData } from '@/services/locationTracking';
+import type { GeofenceOutcome } from '@/lib/geofences';
 
 interface LocationTrackerProps {
   stopId: string;
   routeId: string;
   isActive: boolean; // Only track when true (driver is actively on route)
   onLocationUpdate?: (location: LocationData) => void;
+  onGeofence?: (outcome: GeofenceOutcome) => void;
   onError?: (error: Error) => void;
 }
 
@@ -26,6 +28,7 @@ export default function LocationTracker({
   routeId,
   isActive,
   onLocationUpdate,
+  onGeofence,
   onError,
 }: LocationTrackerProps) {
   const [isTracking, setIsTracking] = useState(false);
@@ -48,6 +51,7 @@ export default function LocationTracker({
         setError(null);
         onLocationUpdate?.(location);
       },
+      onGeofence,
       onError: (err) => {
         setError(err.message);
         if (err.message.includes('denied')) {
@@ -64,7 +68,7 @@ export default function LocationTracker({
       setPermissionDenied(true);
       setError('Location permission denied');
     }
-  }, [stopId, routeId, onLocationUpdate, onError]);
+  }, [stopId, routeId, onLocationUpdate, onGeofence, onError]);
 
   // FIX #3: Use useCallback to prevent infinite re-renders (Safari fix)
   const stopTracking = useCallback(() => {
@@ -1,9 +1,18 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import LoadingSpinner from '../ui/LoadingSpinner';
+import BarcodeScanner from './BarcodeScanner';
+
+interface ReturnReasonOption {
+  code: string;
+  label: string;
+  requiresPhoto: boolean;
+}
 
 interface ReturnFormProps {
+  stopId: string;
+  token: string;
   onSubmit: (returnData: ReturnData) => Promise<void>;
   isSubmitting: boolean;
 }
@@ -15,9 +24,14 @@ export interface ReturnData {
   reasonCode: string;
   warehouseLocation: string;
   vendorCreditNum: string;
+  photoUrls: string[];
 }
 
-export default function ReturnForm({ onSubmit, isSubmitting }: ReturnFormProps) {
+export default function ReturnForm({ stopId, token, onSubmit, isSubmitting }: ReturnFormProps) {
+  const [reasons, setReasons] = useState<ReturnReasonOption[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState('');
   const [returnData, setReturnData] = useState<ReturnData>({
     orderItemIdentifier: '',
     productDescription: '',
@@ -25,8 +39,87 @@ export default function ReturnForm({ onSubmit, isSubmitting }: ReturnFormProps)
     reasonCode: '',
     warehouseLocation: '',
     vendorCreditNum: '',
+    photoUrls: [],
   });
 
+  useEffect(() => {
+    fetch('/api/driver/return-reasons', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load return reasons');
+        }
+        setReasons(data.reasons);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'An error occurred'));
+  }, [token]);
+
+  const selected = reasons.find((reason) => reason.code === returnData.reasonCode);
+  const needsPhoto = !!selected?.requiresPhoto && returnData.photoUrls.length === 0;
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError('');
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch(`/api/driver/stops/${stopId}/return-photo`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to upload photo');
+        }
+        setReturnData((prev) => ({ ...prev, photoUrls: [...prev.photoUrls, data.url] }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Fill the item from a scanned barcode; unknown codes are typed in by hand
+  const handleBarcode = async (code: string) => {
+    setScanning(false);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/products/barcode/${encodeURIComponent(code)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (response.status === 404) {
+        setError(`No product has barcode ${code} - enter the item by hand`);
+        document.getElementById('orderItemIdentifier')?.focus();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to look up barcode');
+      }
+
+      setReturnData((prev) => ({
+        ...prev,
+        orderItemIdentifier: data.sku,
+        productDescription: data.name,
+        quantity: 1,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setReturnData((prev) => ({
@@ -47,11 +140,23 @@ export default function ReturnForm({ onSubmit, isSubmitting }: ReturnFormProps)
       reasonCode: '',
       warehouseLocation: '',
       vendorCreditNum: '',
+      photoUrls: [],
     });
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      {scanning ? (
+        <BarcodeScanner onDetected={handleBarcode} onClose={() => setScanning(false)} />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setScanning(true)}
+          className="w-full py-2 px-4 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+        >
+          📷 Scan Barcode
+        </button>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label htmlFor="orderItemIdentifier" className="block text-sm font-medium text-gray-700">
@@ -109,12 +214,11 @@ export default function ReturnForm({ onSubmit, isSubmitting }: ReturnFormProps)
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           >
             <option value="">Select a reason</option>
-            <option value="DAMAGED">Damaged</option>
-            <option value="EXPIRED">Expired</option>
-            <option value="WRONG_ITEM">Wrong Item</option>
-            <option value="CUSTOMER_REFUSED">Customer Refused</option>
-            <option value="QUALITY_ISSUE">Quality Issue</option>
-            <option value="OTHER">Other</option>
+            {reasons.map((reason) => (
+              <option key={reason.code} value={reason.code}>
+                {reason.label}
+              </option>
+            ))}
           </select>
         </div>
         <div>
@@ -143,11 +247,33 @@ export default function ReturnForm({ onSubmit, isSubmitting }: ReturnFormProps)
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           />
         </div>
+        <div className="md:col-span-2">
+          <label htmlFor="returnPhotos" className="block text-sm font-medium text-gray-700">
+            Photos {selected?.requiresPhoto ? '*' : ''}
+          </label>
+          <input
+            type="file"
+            id="returnPhotos"
+            accept="image/*"
+            capture="environment"
+            multiple
+            onChange={handlePhoto}
+            disabled={uploading}
+            className="mt-1 block w-full text-sm text-gray-700"
+          />
+          {uploading && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+          {returnData.photoUrls.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {returnData.photoUrls.length} photo{returnData.photoUrls.length !== 1 ? 's' : ''} attached
+            </p>
+          )}
+        </div>
       </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
       <div className="flex justify-end">
         <button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || uploading || needsPhoto}
           className="py-2 px-4 bg-blue-600 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-700 transition duration-200"
         >
           {isSubmitting ? (
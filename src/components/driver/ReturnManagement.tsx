@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import BarcodeScanner from "./BarcodeScanner";
 
 interface ReturnItem {
   id: string;
@@ -9,7 +10,15 @@ interface ReturnItem {
   productName: string;
   productCode: string;
   quantity: number;
-  reason: string;
+  reasonCode: string;
+  photoUrls: string[];
+}
+
+interface ReturnReasonOption {
+  code: string;
+  label: string;
+  description: string | null;
+  requiresPhoto: boolean;
 }
 
 interface ExistingReturn {
@@ -56,11 +65,18 @@ export default function ReturnManagement({
   const [searchTerm, setSearchTerm] = useState("");
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [lookingUpBarcode, setLookingUpBarcode] = useState(false);
 
   // State for new return item form
   const [selectedProduct, setSelectedProduct] = useState<any | null>(null);
   const [quantity, setQuantity] = useState(1);
-  const [reason, setReason] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  // Managed return reasons
+  const [reasons, setReasons] = useState<ReturnReasonOption[]>([]);
 
   // State for UI
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -95,6 +111,58 @@ export default function ReturnManagement({
     fetchExistingReturns();
   }, [stopId, token]);
 
+  // Fetch the reasons a driver can pick
+  useEffect(() => {
+    fetch("/api/driver/return-reasons", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load return reasons");
+        }
+        setReasons(data.reasons);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"));
+  }, [token]);
+
+  const findReason = (code: string) => reasons.find((option) => option.code === code);
+
+  const needsPhoto = (code: string, photos: string[]) =>
+    !!findReason(code)?.requiresPhoto && photos.length === 0;
+
+  // Upload photos of the item being added
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError("");
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch(`/api/driver/stops/${stopId}/return-photo`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to upload photo");
+        }
+        setPhotoUrls((prev) => [...prev, data.url]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setUploading(false);
+    }
+  };
+
   // Search for products
   useEffect(() => {
     const searchProducts = async () => {
@@ -133,6 +201,39 @@ export default function ReturnManagement({
     return () => clearTimeout(debounceTimeout);
   }, [searchTerm, token]);
 
+  // Find the scanned product and pre-fill the item being added. An unknown
+  // code falls back to searching by name.
+  const handleBarcode = async (code: string) => {
+    setScanning(false);
+    setLookingUpBarcode(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/products/barcode/${encodeURIComponent(code)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (response.status === 404) {
+        setError(`No product has barcode ${code} - search for it by name instead`);
+        document.getElementById("product-search")?.focus();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to look up barcode");
+      }
+
+      setSelectedProduct(data);
+      setQuantity(1);
+      setSearchTerm("");
+      setSearchResults([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLookingUpBarcode(false);
+    }
+  };
+
   // Add a return item
   const handleAddReturnItem = () => {
     if (!selectedProduct) {
@@ -145,13 +246,24 @@ export default function ReturnManagement({
       return;
     }
 
+    if (!reasonCode) {
+      setError("Please select a reason");
+      return;
+    }
+
+    if (needsPhoto(reasonCode, photoUrls)) {
+      setError(`Please add a photo - it's required for "${findReason(reasonCode)?.label}"`);
+      return;
+    }
+
     const newItem: ReturnItem = {
       id: `temp-${Date.now()}`, // Temporary ID until saved to database
       productId: selectedProduct.id,
       productName: selectedProduct.name,
       productCode: selectedProduct.sku,
       quantity,
-      reason,
+      reasonCode,
+      photoUrls,
     };
 
     setReturnItems([...returnItems, newItem]);
@@ -159,7 +271,8 @@ export default function ReturnManagement({
     // Reset form
     setSelectedProduct(null);
     setQuantity(1);
-    setReason("");
+    setReasonCode("");
+    setPhotoUrls([]);
     setSearchTerm("");
     setSearchResults([]);
     setError("");
@@ -183,9 +296,9 @@ export default function ReturnManagement({
   };
 
   // Update reason for an existing return item
-  const handleUpdateReason = (id: string, newReason: string) => {
+  const handleUpdateReason = (id: string, newReasonCode: string) => {
     setReturnItems(returnItems.map(item =>
-      item.id === id ? { ...item, reason: newReason } : item
+      item.id === id ? { ...item, reasonCode: newReasonCode } : item
     ));
   };
 
@@ -196,6 +309,14 @@ export default function ReturnManagement({
       return;
     }
 
+    const missingPhoto = returnItems.find((item) => needsPhoto(item.reasonCode, item.photoUrls));
+    if (missingPhoto) {
+      setError(
+        `${missingPhoto.productName} needs a photo for "${findReason(missingPhoto.reasonCode)?.label}" - remove it and add it again with a photo`
+      );
+      return;
+    }
+
     setIsSubmitting(true);
     setError("");
     setSuccess("");
@@ -217,7 +338,8 @@ export default function ReturnManagement({
             productName: item.productName,
             productCode: item.productCode,
             quantity: item.quantity,
-            reason: item.reason,
+            reasonCode: item.reasonCode,
+            photoUrls: item.photoUrls,
           })),
         }),
       });
@@ -286,7 +408,7 @@ export default function ReturnManagement({
                       </div>
                       <div className="text-sm text-gray-600 space-y-1">
                         <p><strong>Quantity:</strong> {returnItem.quantity}</p>
-                        <p><strong>Reason:</strong> {returnItem.reasonCode}</p>
+                        <p><strong>Reason:</strong> {findReason(returnItem.reasonCode)?.label || returnItem.reasonCode}</p>
                         {returnItem.warehouseLocation && (
                           <p><strong>Warehouse Location:</strong> {returnItem.warehouseLocation}</p>
                         )}
@@ -374,13 +496,25 @@ export default function ReturnManagement({
                     </td>
 
                     <td className="px-4 py-3 text-sm text-gray-500">
-                      <input
-                        type="text"
-                        value={item.reason}
+                      <select
+                        value={item.reasonCode}
                         onChange={(e) => handleUpdateReason(item.id, e.target.value)}
-                        placeholder="Reason for return"
                         className="w-full p-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
+                      >
+                        {reasons.map((option) => (
+                          <option key={option.code} value={option.code}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      {item.photoUrls.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {item.photoUrls.length} photo{item.photoUrls.length !== 1 ? "s" : ""}
+                        </div>
+                      )}
+                      {needsPhoto(item.reasonCode, item.photoUrls) && (
+                        <div className="text-xs text-red-600 mt-1">Photo required</div>
+                      )}
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
                       <button
@@ -406,6 +540,22 @@ export default function ReturnManagement({
         </h3>
 
         <div className="space-y-4">
+          {/* Barcode Scan */}
+          <div>
+            {scanning ? (
+              <BarcodeScanner onDetected={handleBarcode} onClose={() => setScanning(false)} />
+            ) : (
+              <button
+                type="button"
+                onClick={() => setScanning(true)}
+                disabled={lookingUpBarcode}
+                className="w-full py-2 px-4 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {lookingUpBarcode ? "Looking up barcode..." : "📷 Scan Barcode"}
+              </button>
+            )}
+          </div>
+
           {/* Product Search */}
           <div>
             <label
@@ -486,20 +636,58 @@ export default function ReturnManagement({
             >
               Reason for Return
             </label>
-            <input
-              type="text"
+            <select
               id="reason"
-              value={reason}
-              onChange={(e) => setReason(e.target.value)}
-              placeholder="Why is this item being returned?"
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value)}
               className="w-full p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Why is this item being returned?</option>
+              {reasons.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {findReason(reasonCode)?.description && (
+              <p className="mt-1 text-xs text-gray-500">{findReason(reasonCode)?.description}</p>
+            )}
+          </div>
+
+          {/* Photos */}
+          <div>
+            <label
+              htmlFor="return-photo"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Photos {findReason(reasonCode)?.requiresPhoto ? "(required)" : "(optional)"}
+            </label>
+            <input
+              type="file"
+              id="return-photo"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={handlePhoto}
+              disabled={uploading}
+              className="block w-full text-sm text-gray-700"
             />
+            {uploading && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+            {photoUrls.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {photoUrls.map((url) => (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img key={url} src={url} alt="Returned item" className="h-16 w-16 object-cover rounded" />
+                ))}
+              </div>
+            )}
           </div>
 
           <button
             type="button"
             onClick={handleAddReturnItem}
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded transition duration-200"
+            disabled={uploading}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Add Item to Return
           </button>
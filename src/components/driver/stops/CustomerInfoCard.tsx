@@ -3,6 +3,8 @@
 import { formatDriverNotes } from '@/utils/notesFormatter';
 import GoogleMapsLink from '@/components/ui/GoogleMapsLink';
 import LinkifiedText from '@/components/ui/LinkifiedText';
+import { getPSTDateString } from '@/lib/timezone';
+import { ReceivingWindow, WEEKDAY_NAMES, describeReceivingDay } from '@/utils/receivingHours';
 
 interface Customer {
   id: string;
@@ -12,6 +14,9 @@ interface Customer {
   preferences: string | null;
   paymentTerms?: string | null;
   deliveryInstructions?: string | null;
+  closedWeekdays?: number[];
+  dockNotes?: string | null;
+  receivingWindows?: ReceivingWindow[];
 }
 
 interface Stop {
@@ -47,6 +52,14 @@ interface CustomerInfoCardProps {
 }
 
 export default function CustomerInfoCard({ stop, formatDate }: CustomerInfoCardProps) {
+  const receivingWindows = stop.customer.receivingWindows || [];
+  const closedWeekdays = stop.customer.closedWeekdays || [];
+  const hasReceivingHours =
+    receivingWindows.length > 0 || closedWeekdays.length > 0 || !!stop.customer.dockNotes;
+  // Hours that matter are the ones on the route's day, not the phone's
+  const routeWeekday = new Date(`${getPSTDateString(stop.route.date)}T00:00:00Z`).getUTCDay();
+  const routeDayHours = describeReceivingDay(receivingWindows, closedWeekdays, routeWeekday);
+
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
       <div className="p-4 sm:p-5 border-b border-gray-200">
@@ -204,6 +217,43 @@ export default function CustomerInfoCard({ stop, formatDate }: CustomerInfoCardP
           )}
         </div>
 
+        {/* Receiving Hours */}
+        {hasReceivingHours && (
+          <div
+            className={`mt-5 sm:mt-6 border rounded-lg p-3 sm:p-4 ${
+              routeDayHours === 'Closed' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+            }`}
+          >
+            <h3 className="text-sm font-medium text-amber-900">Receiving Hours</h3>
+            <p
+              className={`mt-1 text-sm font-semibold ${
+                routeDayHours === 'Closed' ? 'text-red-800' : 'text-amber-900'
+              }`}
+            >
+              {WEEKDAY_NAMES[routeWeekday]}: {routeDayHours || 'No hours set'}
+            </p>
+            {receivingWindows.length + closedWeekdays.length > 0 && (
+              <details className="mt-2">
+                <summary className="text-xs text-amber-800 cursor-pointer">Full week</summary>
+                <dl className="mt-1 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs text-amber-900">
+                  {WEEKDAY_NAMES.map((name, weekday) => (
+                    <div key={name} className="contents">
+                      <dt className="font-medium">{name}</dt>
+                      <dd>{describeReceivingDay(receivingWindows, closedWeekdays, weekday) || '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            )}
+            {stop.customer.dockNotes && (
+              <div className="mt-2 text-sm text-amber-900 break-words-safe">
+                <span className="text-xs font-semibold uppercase tracking-wide">Dock: </span>
+                <LinkifiedText text={stop.customer.dockNotes} />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* All Instructions - Mobile Optimized */}
         {(stop.initialDriverNotes || (stop.adminNotes && stop.adminNotes.length > 0) || stop.customer.preferences || stop.customer.deliveryInstructions) && (
           <div className="mt-5 sm:mt-6 bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4">
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from "react";
+
+interface FailureReasonOption {
+  code: string;
+  label: string;
+  requiresPhoto: boolean;
+}
+
+export interface FailureSubmission {
+  reasonCode: string;
+  notes: string;
+  photoUrls: string[];
+}
+
+interface FailStopModalProps {
+  show: boolean;
+  stopId: string;
+  token: string | null;
+  submitting: boolean;
+  onClose: () => void;
+  onSubmit: (failure: FailureSubmission) => void;
+}
+
+export default function FailStopModal({
+  show,
+  stopId,
+  token,
+  submitting,
+  onClose,
+  onSubmit,
+}: FailStopModalProps) {
+  const [reasons, setReasons] = useState<FailureReasonOption[]>([]);
+  const [reasonCode, setReasonCode] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!show || !token) return;
+
+    setReasonCode("");
+    setNotes("");
+    setPhotoUrls([]);
+    setError("");
+
+    fetch("/api/driver/stop-failure-reasons", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load reasons");
+        }
+        setReasons(data.reasons);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"));
+  }, [show, token]);
+
+  if (!show) return null;
+
+  const selected = reasons.find((reason) => reason.code === reasonCode);
+  const needsPhoto = !!selected?.requiresPhoto && photoUrls.length === 0;
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!token || files.length === 0) return;
+
+    setUploading(true);
+    setError("");
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch(`/api/driver/stops/${stopId}/failure-photo`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to upload photo");
+        }
+        setPhotoUrls((prev) => [...prev, data.url]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[100]">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[85vh] overflow-y-auto mb-20 sm:mb-0">
+        <div className="p-6 pb-24 sm:pb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Can&apos;t Deliver</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <div className="space-y-2">
+                {reasons.map((reason) => (
+                  <label
+                    key={reason.code}
+                    className={`flex items-center p-3 border rounded-lg cursor-pointer touch-manipulation ${
+                      reasonCode === reason.code ? "border-red-500 bg-red-50" : "border-gray-300"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="failureReason"
+                      value={reason.code}
+                      checked={reasonCode === reason.code}
+                      onChange={() => setReasonCode(reason.code)}
+                      className="mr-3"
+                    />
+                    <span className="text-sm text-gray-900">{reason.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Photos {selected?.requiresPhoto ? "(required)" : "(optional)"}
+              </label>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                multiple
+                onChange={handlePhoto}
+                disabled={uploading}
+                className="block w-full text-sm text-gray-700"
+              />
+              {uploading && <p className="text-xs text-gray-500 mt-1">Uploading...</p>}
+              {photoUrls.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {photoUrls.map((url) => (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img key={url} src={url} alt="Failure evidence" className="h-16 w-16 object-cover rounded" />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="What happened?"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium touch-manipulation"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onSubmit({ reasonCode, notes, photoUrls })}
+                disabled={!reasonCode || needsPhoto || uploading || submitting}
+                className="flex-1 px-4 py-3 bg-red-600 text-white rounded-lg font-medium disabled:opacity-50 touch-manipulation"
+              >
+                {submitting ? "Saving..." : "Mark Failed"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
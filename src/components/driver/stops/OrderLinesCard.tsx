@@ -0,0 +1,197 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { shortQuantity } from '@/utils/orderLines';
+
+interface OrderLine {
+  id: string;
+  sku: string | null;
+  description: string;
+  unit: string | null;
+  orderedQty: number;
+  unitPrice: number | null;
+  deliveredQty: number | null;
+  shortReason: string | null;
+}
+
+interface Draft {
+  deliveredQty: string;
+  shortReason: string;
+}
+
+interface OrderLinesCardProps {
+  stopId: string;
+  token: string;
+  // Quantities can be recorded until the stop is finished
+  editable: boolean;
+}
+
+export default function OrderLinesCard({ stopId, token, editable }: OrderLinesCardProps) {
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const applyLines = (next: OrderLine[]) => {
+    setLines(next);
+    // Unrecorded lines start at the full ordered quantity
+    setDrafts(
+      Object.fromEntries(
+        next.map((line) => [
+          line.id,
+          {
+            deliveredQty: String(line.deliveredQty ?? line.orderedQty),
+            shortReason: line.shortReason || '',
+          },
+        ])
+      )
+    );
+  };
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/driver/stops/${stopId}/order-lines`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.ok) {
+        const data = await response.json();
+        applyLines(data.lines);
+      }
+    } catch (err) {
+      console.error('Error fetching order lines:', err);
+    }
+  }, [stopId, token]);
+
+  useEffect(() => {
+    fetchLines();
+  }, [fetchLines]);
+
+  if (lines.length === 0) return null;
+
+  const draftShort = (line: OrderLine) => {
+    const delivered = parseInt(drafts[line.id]?.deliveredQty ?? '', 10);
+    return isNaN(delivered) ? 0 : shortQuantity({ orderedQty: line.orderedQty, deliveredQty: delivered });
+  };
+
+  const updateDraft = (lineId: string, changes: Partial<Draft>) => {
+    setDrafts({ ...drafts, [lineId]: { ...drafts[lineId], ...changes } });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/driver/stops/${stopId}/order-lines`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          lines: lines.map((line) => ({
+            lineId: line.id,
+            deliveredQty: parseInt(drafts[line.id].deliveredQty, 10),
+            shortReason: drafts[line.id].shortReason,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save delivered quantities');
+      }
+      applyLines(data.lines);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalShort = lines.reduce(
+    (sum, line) => sum + (editable ? draftShort(line) : shortQuantity(line)),
+    0
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="p-4 sm:p-5 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Order Lines</h2>
+        {totalShort > 0 && (
+          <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+            {totalShort} short
+          </span>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {lines.map((line) => {
+          const short = editable ? draftShort(line) : shortQuantity(line);
+          return (
+            <li key={line.id} className="p-4 sm:px-5">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 break-words">{line.description}</p>
+                  <p className="text-xs text-gray-500">
+                    {line.sku && line.sku !== line.description ? `${line.sku} · ` : ''}
+                    Ordered {line.orderedQty}
+                    {line.unit ? ` ${line.unit}` : ''}
+                  </p>
+                </div>
+                {editable ? (
+                  <input
+                    type="number"
+                    min={0}
+                    max={line.orderedQty}
+                    inputMode="numeric"
+                    aria-label={`Delivered quantity for ${line.description}`}
+                    value={drafts[line.id]?.deliveredQty ?? ''}
+                    onChange={(e) => updateDraft(line.id, { deliveredQty: e.target.value })}
+                    className="w-20 border border-gray-300 rounded-md px-2 py-2 text-sm text-right"
+                  />
+                ) : (
+                  <span className="text-sm text-gray-700 whitespace-nowrap">
+                    {line.deliveredQty === null ? 'Not recorded' : `${line.deliveredQty} delivered`}
+                  </span>
+                )}
+              </div>
+
+              {short > 0 && (
+                <div className="mt-2">
+                  <p className="text-xs font-medium text-orange-700">{short} short</p>
+                  {editable ? (
+                    <input
+                      type="text"
+                      placeholder="Why was it short? (optional)"
+                      value={drafts[line.id]?.shortReason ?? ''}
+                      onChange={(e) => updateDraft(line.id, { shortReason: e.target.value })}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    />
+                  ) : (
+                    line.shortReason && <p className="text-xs text-gray-600 mt-1">{line.shortReason}</p>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {editable && (
+        <div className="p-4 sm:px-5 border-t border-gray-200 flex items-center justify-end gap-3">
+          {error && <span className="text-sm text-red-600">{error}</span>}
+          {saved && !error && <span className="text-sm text-green-600">Saved</span>}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 touch-manipulation"
+          >
+            {saving ? 'Saving...' : 'Save Quantities'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
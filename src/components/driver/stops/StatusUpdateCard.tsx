@@ -6,6 +6,8 @@ interface Stop {
   status: string;
   arrivalTime: string | null;
   completionTime: string | null;
+  failureReason?: { label: string } | null;
+  failureNotes?: string | null;
 }
 
 interface StatusUpdateCardProps {
@@ -15,6 +17,8 @@ interface StatusUpdateCardProps {
   isStatusButtonDisabled: (status: string) => boolean;
   updateStatus: (status: string) => void;
   formatDate: (date: string | null) => string;
+  // Opens the failed delivery form
+  onFail?: () => void;
 }
 
 export default function StatusUpdateCard({
@@ -23,7 +27,8 @@ export default function StatusUpdateCard({
   deliveryTimer,
   isStatusButtonDisabled,
   updateStatus,
-  formatDate
+  formatDate,
+  onFail
 }: StatusUpdateCardProps) {
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
@@ -44,6 +49,8 @@ export default function StatusUpdateCard({
                   ? "bg-blue-500 w-1/3"
                   : stop.status === "ARRIVED"
                   ? "bg-yellow-500 w-2/3"
+                  : stop.status === "FAILED"
+                  ? "bg-red-500 w-full"
                   : "bg-green-500 w-full"
               }`}
             ></div>
@@ -114,8 +121,28 @@ export default function StatusUpdateCard({
             />
           </div>
           {/* Complete Delivery button removed - now handled by the InvoiceUpload component */}
+          {onFail && (stop.status === "ON_THE_WAY" || stop.status === "ARRIVED") && (
+            <button
+              onClick={onFail}
+              disabled={updatingStatus}
+              className="h-10 sm:h-12 text-sm sm:text-base border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50 touch-manipulation mobile-button"
+            >
+              Can&apos;t Deliver
+            </button>
+          )}
         </div>
 
+        {stop.status === "FAILED" && (
+          <div className="mt-5 sm:mt-6 bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4">
+            <h3 className="text-sm font-medium text-red-800">
+              Not delivered{stop.failureReason ? `: ${stop.failureReason.label}` : ""}
+            </h3>
+            {stop.failureNotes && (
+              <p className="text-sm text-red-700 mt-1">{stop.failureNotes}</p>
+            )}
+          </div>
+        )}
+
         {/* Delivery Timer - Mobile Optimized */}
         {deliveryTimer !== null && (
           <div className="mt-5 sm:mt-6 bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4">
@@ -0,0 +1,24 @@
+'use client';
+
+import type { StopEta } from '@/lib/stopEtas';
+import { formatTimePST } from '@/lib/timezone';
+
+interface StopEtaBadgeProps {
+  eta?: StopEta;
+  className?: string;
+}
+
+export default function StopEtaBadge({ eta, className = '' }: StopEtaBadgeProps) {
+  if (!eta) return null;
+
+  const missed = eta.verdict === 'LATE' || eta.verdict === 'CLOSED';
+
+  return (
+    <p className={`text-xs font-medium ${missed ? 'text-red-700' : 'text-blue-700'} ${className}`}>
+      ETA {formatTimePST(eta.projectedArrival)}
+      {eta.verdict === 'LATE' && ` · after receiving hours (${eta.hours})`}
+      {eta.verdict === 'CLOSED' && ' · customer closed today'}
+      {eta.verdict === 'EARLY' && eta.waitMinutes >= 15 && ` · opens ${eta.waitMinutes} min later`}
+    </p>
+  );
+}
@@ -0,0 +1,187 @@
+/** @jest-environment node */
+import prisma from "../db";
+import {
+  approveCreditMemo,
+  draftCreditMemoForStop,
+  issueCreditMemo,
+  sanitizeLineChanges,
+  updateCreditMemoLines,
+} from "../creditMemoDrafts";
+
+jest.mock("../db", () => {
+  const db = {
+    return: { findMany: jest.fn() },
+    stopOrderLine: { findMany: jest.fn() },
+    creditMemo: { findFirst: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    creditMemoLine: { update: jest.fn() },
+    document: { create: jest.fn() },
+    stopDocument: { create: jest.fn() },
+    stop: { update: jest.fn() },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((operations: unknown) =>
+    typeof operations === "function" ? operations(db) : Promise.all(operations as unknown[])
+  );
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  return: { findMany: jest.Mock };
+  stopOrderLine: { findMany: jest.Mock };
+  creditMemo: { findFirst: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  creditMemoLine: { update: jest.Mock };
+  document: { create: jest.Mock };
+  stopDocument: { create: jest.Mock };
+  $queryRaw: jest.Mock;
+  stop: { update: jest.Mock };
+};
+
+const RETURN = {
+  id: "return-1",
+  productId: "product-1",
+  orderItemIdentifier: "MLK-1G",
+  productDescription: "Whole milk (MLK-1G)",
+  product: { sku: "MLK-1G", name: "Whole milk 1 gal" },
+  receivedAt: new Date(),
+  receivedQty: 3,
+  creditMemoLines: [],
+};
+
+const MEMO = {
+  id: "memo-1",
+  stopId: "stop-1",
+  status: "DRAFT",
+  creditMemoAmount: 9.75,
+  lines: [{ id: "line-1", description: "Whole milk 1 gal", quantity: 3, unitPrice: 3.25 }],
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.stopOrderLine.findMany.mockResolvedValue([
+    { productId: "product-1", sku: "MLK-1G", unitPrice: 3.25 },
+  ]);
+  db.creditMemo.findFirst.mockResolvedValue(MEMO);
+});
+
+describe("draftCreditMemoForStop", () => {
+  it("prices received returns from the stop's order lines", async () => {
+    db.return.findMany.mockResolvedValue([
+      RETURN,
+      {
+        ...RETURN,
+        id: "return-2",
+        productId: null,
+        product: null,
+        orderItemIdentifier: "EGG-30",
+        productDescription: "Eggs (EGG-30)",
+        receivedQty: 2,
+      },
+      // Already credited
+      { ...RETURN, id: "return-3", creditMemoLines: [{ id: "line-9" }] },
+    ]);
+
+    await draftCreditMemoForStop("stop-1");
+
+    // The stop is locked before its returns are read
+    expect(db.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      db.return.findMany.mock.invocationCallOrder[0]
+    );
+    expect(db.$queryRaw.mock.calls[0][0].join("?")).toContain("FOR UPDATE");
+    expect(db.creditMemo.create.mock.calls[0][0].data).toEqual({
+      stop: { connect: { id: "stop-1" } },
+      status: "DRAFT",
+      creditMemoAmount: 9.75,
+      lines: {
+        create: [
+          { returnId: "return-1", description: "Whole milk 1 gal", quantity: 3, unitPrice: 3.25 },
+          { returnId: "return-2", description: "Eggs (EGG-30)", quantity: 2, unitPrice: null },
+        ],
+      },
+    });
+  });
+
+  it("waits until every return on the stop is received", async () => {
+    db.return.findMany.mockResolvedValue([RETURN, { ...RETURN, id: "return-2", receivedAt: null }]);
+
+    await expect(draftCreditMemoForStop("stop-1")).resolves.toBeNull();
+    expect(db.creditMemo.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("sanitizeLineChanges", () => {
+  it("reads quantities and prices, clearing a blank price", () => {
+    expect(
+      sanitizeLineChanges([
+        { lineId: "line-1", quantity: "2", unitPrice: "" },
+        { lineId: "line-2", unitPrice: -1 },
+      ])
+    ).toEqual({
+      changes: [{ lineId: "line-1", quantity: 2, unitPrice: null }],
+      errors: ["Line 2: unitPrice must be a number of 0 or more"],
+    });
+  });
+});
+
+describe("reviewing a draft", () => {
+  it("recalculates the amount when a line changes", async () => {
+    await updateCreditMemoLines("memo-1", [{ lineId: "line-1", unitPrice: 4 }]);
+
+    // The memo is locked before its status is checked
+    expect(db.$queryRaw.mock.calls[0][0].join("?")).toContain("FOR UPDATE");
+    expect(db.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      db.creditMemo.findFirst.mock.invocationCallOrder[0]
+    );
+    expect(db.creditMemo.update).toHaveBeenCalledWith({
+      where: { id: "memo-1" },
+      data: { creditMemoAmount: 12 },
+    });
+  });
+
+  it("won't approve a draft with an unpriced line", async () => {
+    db.creditMemo.findFirst.mockResolvedValue({
+      ...MEMO,
+      lines: [{ ...MEMO.lines[0], unitPrice: null }],
+    });
+
+    await expect(approveCreditMemo("memo-1", "admin-1")).rejects.toThrow(
+      "Enter a unit price for Whole milk 1 gal"
+    );
+    expect(db.creditMemo.update).not.toHaveBeenCalled();
+  });
+
+  it("issues an approved memo onto the stop's credit memo fields", async () => {
+    db.creditMemo.findFirst.mockResolvedValue({ ...MEMO, status: "APPROVED" });
+    db.document.create.mockResolvedValue({ id: "document-1" });
+    const file = {
+      fileName: "cm.pdf",
+      filePath: "/uploads/documents/1_cm.pdf",
+      fileSize: 100,
+      mimeType: "application/pdf",
+    };
+
+    await issueCreditMemo("memo-1", "CM-100", async () => file, "admin-1");
+
+    expect(db.stop.update).toHaveBeenCalledWith({
+      where: { id: "stop-1" },
+      data: { creditMemoNumber: "CM-100", creditMemoAmount: 9.75 },
+    });
+    expect(db.creditMemo.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { status: "ISSUED", creditMemoNumber: "CM-100", documentId: "document-1" },
+      })
+    );
+
+  });
+
+  it("won't issue a memo that isn't approved, or save its document", async () => {
+    const saveDocument = jest.fn();
+
+    await expect(issueCreditMemo("memo-1", "CM-100", saveDocument, "admin-1")).rejects.toThrow(
+      "Only approved credit memos can be issued"
+    );
+    expect(db.$queryRaw.mock.calls[0][0].join("?")).toContain("FOR UPDATE");
+    expect(saveDocument).not.toHaveBeenCalled();
+    expect(db.document.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/** @jest-environment node */
+import {
+  CustomerCandidate,
+  customerInputsFromStops,
+  matchCustomer,
+  normalizeCustomerName,
+} from "../customerMatching";
+import type { ParsedStop } from "../routeParser";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const customer = (overrides: Partial<CustomerCandidate>): CustomerCandidate => ({
+  id: "c1",
+  name: "Corner Market",
+  address: "",
+  email: null,
+  groupCode: null,
+  aliases: [],
+  ...overrides,
+});
+
+describe("normalizeCustomerName", () => {
+  it("ignores case, punctuation, ampersands and company suffixes", () => {
+    expect(normalizeCustomerName("The Smith & Sons Co.")).toBe(
+      normalizeCustomerName("smith and sons")
+    );
+  });
+});
+
+describe("matchCustomer", () => {
+  it("links a normalized name with a matching group code automatically", () => {
+    const match = matchCustomer({ name: "CORNER MARKET, INC", groupCode: "G1" }, [
+      customer({ groupCode: "G1" }),
+      customer({ id: "c2", name: "Blue Cafe" }),
+    ]);
+
+    expect(match.status).toBe("matched");
+    expect(match.customer?.id).toBe("c1");
+  });
+
+  it("links a confirmed alias", () => {
+    const match = matchCustomer({ name: "Crnr Mkt" }, [
+      customer({ aliases: ["Crnr Mkt"] }),
+    ]);
+
+    expect(match).toMatchObject({ status: "matched", customer: { id: "c1" } });
+    expect(match.candidates[0].signals.alias).toBe(true);
+  });
+
+  it("asks for review when the name is close but other details disagree", () => {
+    const match = matchCustomer(
+      { name: "Corner Market", email: "orders@corner.example" },
+      [customer({ email: "ap@other.example" })]
+    );
+
+    expect(match.status).toBe("review");
+    expect(match.candidates[0].customer.id).toBe("c1");
+  });
+
+  it("asks for review when two customers tie", () => {
+    const match = matchCustomer({ name: "Corner Market" }, [
+      customer({}),
+      customer({ id: "c2" }),
+    ]);
+
+    expect(match.status).toBe("review");
+    expect(match.candidates).toHaveLength(2);
+  });
+
+  it("asks for review when only a numbered store name is close", () => {
+    const match = matchCustomer({ name: "Market 101" }, [customer({ name: "Market 102" })]);
+
+    expect(match.candidates[0].score).toBeGreaterThanOrEqual(0.9);
+    expect(match.status).toBe("review");
+    expect(match.customer).toBeNull();
+
+    expect(
+      matchCustomer({ name: "market 102" }, [customer({ name: "Market 102" })]).status
+    ).toBe("matched");
+    expect(
+      matchCustomer({ name: "Market 101", email: "m102@example.com" }, [
+        customer({ name: "Market 102", email: "m102@example.com" }),
+      ]).status
+    ).toBe("matched");
+  });
+
+  it("treats an unrelated name as a new customer", () => {
+    expect(matchCustomer({ name: "Harbor Deli" }, [customer({})]).status).toBe("new");
+  });
+});
+
+describe("customerInputsFromStops", () => {
+  it("collects one input per customer with the first details given", () => {
+    const stops = [
+      { customerName: "Corner Market", customerEmail: undefined },
+      { customerName: "Corner Market", customerEmail: "ap@corner.example", customerAddress: "1 Main St" },
+      { customerName: "Blue Cafe", customerGroupCode: "G2" },
+    ] as ParsedStop[];
+
+    expect(customerInputsFromStops(stops)).toEqual([
+      { name: "Corner Market", email: "ap@corner.example", address: "1 Main St", groupCode: undefined },
+      { name: "Blue Cafe", groupCode: "G2", email: undefined, address: undefined },
+    ]);
+  });
+});
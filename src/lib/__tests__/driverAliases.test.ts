@@ -0,0 +1,65 @@
+/** @jest-environment node */
+import {
+  DriverAccount,
+  loadDriverLookup,
+  normalizeDriverName,
+  suggestDrivers,
+} from "../driverAliases";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const DRIVERS: DriverAccount[] = [
+  { id: "d1", username: "jmartinez", fullName: "José Martinez" },
+  { id: "d2", username: "mgarcia", fullName: "Maria Garcia" },
+  { id: "d3", username: "jsmith", fullName: "John Smith" },
+];
+
+describe("normalizeDriverName", () => {
+  it("drops case, accents, punctuation and extra spaces", () => {
+    expect(normalizeDriverName("  José   M. ")).toBe("jose m");
+  });
+});
+
+describe("suggestDrivers", () => {
+  it("matches an abbreviated last name", () => {
+    const [best] = suggestDrivers("Jose M.", DRIVERS);
+    expect(best.driver.id).toBe("d1");
+    expect(best.reason).toBe("initials");
+  });
+
+  it("matches reordered words and typos", () => {
+    expect(suggestDrivers("Garcia Maria", DRIVERS)[0]).toMatchObject({
+      driver: { id: "d2" },
+      reason: "tokenOverlap",
+    });
+    expect(suggestDrivers("Jon Smith", DRIVERS)[0]).toMatchObject({
+      driver: { id: "d3" },
+      reason: "editDistance",
+    });
+  });
+
+  it("suggests nobody for an unrelated name", () => {
+    expect(suggestDrivers("Xavier Quinn", DRIVERS)).toEqual([]);
+  });
+});
+
+describe("loadDriverLookup", () => {
+  it("resolves usernames, full names and saved aliases", async () => {
+    const client = {
+      user: { findMany: jest.fn().mockResolvedValue(DRIVERS) },
+      driverAlias: {
+        findMany: jest.fn().mockResolvedValue([{ id: "a1", alias: "jose m", driverId: "d1" }]),
+      },
+    };
+
+    const { resolve } = await loadDriverLookup(client as never);
+
+    expect(resolve("MGARCIA")).toMatchObject({ driver: { id: "d2" }, source: "username" });
+    expect(resolve("john smith")).toMatchObject({ driver: { id: "d3" }, source: "fullName" });
+    expect(resolve("Jose M.")).toEqual({ driver: DRIVERS[0], source: "alias", aliasId: "a1" });
+    expect(resolve("Jose Mart")).toBeNull();
+  });
+});
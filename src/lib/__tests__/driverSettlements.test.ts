@@ -0,0 +1,274 @@
+/** @jest-environment node */
+import prisma from "../db";
+import {
+  getDriverSettlement,
+  recordHandIn,
+  sanitizeHandIn,
+  signOffSettlement,
+  signSettlementAsDriver,
+  summarizeSettlementDay,
+} from "../driverSettlements";
+import { createPSTDate, createPSTDateFromString } from "../timezone";
+import { settlementVariances } from "@/utils/settlements";
+
+jest.mock("../db", () => {
+  const db = {
+    stop: { findMany: jest.fn(), updateMany: jest.fn() },
+    user: { findMany: jest.fn() },
+    safetyCheck: { findMany: jest.fn() },
+    driverSettlement: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(db));
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  stop: { findMany: jest.Mock; updateMany: jest.Mock };
+  user: { findMany: jest.Mock };
+  safetyCheck: { findMany: jest.Mock };
+  driverSettlement: {
+    findUnique: jest.Mock;
+    upsert: jest.Mock;
+    update: jest.Mock;
+  };
+  $queryRaw: jest.Mock;
+};
+
+const STOPS = [
+  {
+    isCOD: true,
+    amount: 120.5,
+    payments: [
+      { amount: 100, method: "Cash" },
+      { amount: 20.5, method: "Check" },
+    ],
+  },
+  { isCOD: true, amount: 80, payments: [] },
+  { isCOD: false, amount: 300, payments: [{ amount: 300, method: "Check" }] },
+  { isCOD: false, amount: 45, payments: [{ amount: 45, method: "Credit Card" }] },
+];
+
+const DRIVER = { id: "driver-1", username: "jsmith", fullName: "John Smith" };
+
+// The first two stops on a route the driver ran, dated routeDate. The mock
+// applies the route date filter.
+function mockDay(routeDate: Date) {
+  db.user.findMany.mockResolvedValue([DRIVER]);
+  db.stop.findMany.mockImplementation(
+    ({ where }: { where: { route: { date: { gte: Date; lte: Date } } } }) => {
+      const { gte, lte } = where.route.date;
+      const stops = STOPS.slice(0, 2).map((stop, index) => ({
+        ...stop,
+        id: `stop-${index + 1}`,
+        driverNameFromUpload: index === 0 ? "John Smith" : null,
+        route: { id: "route-1", routeNumber: "7", driverId: "driver-1" },
+      }));
+      return Promise.resolve(routeDate >= gte && routeDate <= lte ? stops : []);
+    }
+  );
+  db.safetyCheck.findMany.mockResolvedValue([
+    { driverId: "driver-1", routeId: "route-1", cashBackAmount: 40 },
+  ]);
+}
+
+const DAY_TOTALS = {
+  expectedCod: 200.5,
+  codCollected: 120.5,
+  cashCollected: 100,
+  checkCollected: 20.5,
+  cardCollected: 0,
+  checksRecorded: 1,
+  cashBackAmount: 40,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("summarizeSettlementDay", () => {
+  it("totals expected COD and recorded payments by method", () => {
+    expect(summarizeSettlementDay(STOPS, [{ cashBackAmount: 40 }, { cashBackAmount: null }])).toEqual({
+      expectedCod: 200.5,
+      codCollected: 120.5,
+      cashCollected: 100,
+      checkCollected: 320.5,
+      cardCollected: 45,
+      checksRecorded: 2,
+      cashBackAmount: 40,
+    });
+  });
+
+  it("computes variances against what was handed in", () => {
+    const totals = summarizeSettlementDay(STOPS, [{ cashBackAmount: 40 }]);
+
+    expect(settlementVariances(totals, { countedCash: 135, checkCount: 2 })).toEqual({
+      cash: -5,
+      checks: 0,
+      cod: -80,
+    });
+    expect(settlementVariances(totals, { countedCash: null, checkCount: null })).toMatchObject({
+      cash: null,
+      checks: null,
+    });
+  });
+});
+
+describe("getDriverSettlement", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("counts a route uploaded without a date on its own day", async () => {
+    // Routes uploaded without a date are stored at midnight PST
+    jest.useFakeTimers({ now: new Date("2027-02-15T18:00:00Z") });
+    mockDay(createPSTDate());
+    db.driverSettlement.findUnique.mockResolvedValue(null);
+
+    await expect(getDriverSettlement("driver-1", "2027-02-15")).resolves.toMatchObject({
+      totals: DAY_TOTALS,
+    });
+    await expect(getDriverSettlement("driver-1", "2027-02-14")).resolves.toBeNull();
+  });
+
+  it("matches upload names whatever their case, else uses the route's driver", async () => {
+    db.user.findMany.mockResolvedValue([DRIVER, { id: "driver-2", username: "mlee", fullName: null }]);
+    db.stop.findMany.mockResolvedValue(
+      [" JOHN SMITH", "Jon Smith", null].map((driverNameFromUpload, index) => ({
+        ...STOPS[3],
+        id: `stop-${index + 1}`,
+        driverNameFromUpload,
+        route: { id: "route-1", routeNumber: "7", driverId: "driver-2" },
+      }))
+    );
+    db.safetyCheck.findMany.mockResolvedValue([]);
+    db.driverSettlement.findUnique.mockResolvedValue(null);
+
+    const john = await getDriverSettlement("driver-1", "2027-02-15");
+    const mike = await getDriverSettlement("driver-2", "2027-02-15");
+
+    expect(john?.stops.map((stop) => stop.id)).toEqual(["stop-1"]);
+    expect(mike?.stops.map((stop) => stop.id)).toEqual(["stop-2", "stop-3"]);
+  });
+});
+
+describe("sanitizeHandIn", () => {
+  it("validates the counted cash and check count", () => {
+    expect(sanitizeHandIn({ countedCash: "135.004", checkCount: "2", notes: " short $5 " })).toEqual({
+      handIn: { countedCash: 135, checkCount: 2, notes: "short $5" },
+      errors: [],
+    });
+    expect(sanitizeHandIn({ countedCash: "", checkCount: 1.5 }).errors).toEqual([
+      "countedCash must be a number of 0 or more",
+      "checkCount must be a whole number of 0 or more",
+    ]);
+  });
+});
+
+describe("sign-off", () => {
+  const handIn = { countedCash: 135, checkCount: 2, notes: null };
+
+  it("asks the driver to sign again when the count changes", async () => {
+    db.driverSettlement.findUnique.mockResolvedValue({ id: "settlement-1", status: "DRIVER_SIGNED" });
+
+    await recordHandIn("driver-1", "2027-02-15", handIn);
+
+    expect(db.driverSettlement.upsert.mock.calls[0][0].update).toEqual({
+      ...handIn,
+      status: "OPEN",
+      driverSignedAt: null,
+    });
+
+    db.driverSettlement.findUnique.mockResolvedValue({ id: "settlement-1", status: "SETTLED" });
+    await expect(recordHandIn("driver-1", "2027-02-15", handIn)).rejects.toThrow(
+      "This day has already been settled"
+    );
+  });
+
+  it("waits for the office's count before the driver signs", async () => {
+    db.driverSettlement.findUnique.mockResolvedValue(null);
+
+    await expect(signSettlementAsDriver("driver-1", "2027-02-15")).rejects.toThrow(
+      "The office hasn't recorded your hand-in yet"
+    );
+  });
+
+  it("keeps the totals the driver signed", async () => {
+    mockDay(createPSTDateFromString("2027-02-15"));
+    db.driverSettlement.findUnique.mockResolvedValue({ id: "settlement-1", status: "OPEN" });
+
+    await signSettlementAsDriver("driver-1", "2027-02-15");
+
+    expect(db.driverSettlement.update.mock.calls[0][0].data).toEqual({
+      ...DAY_TOTALS,
+      status: "DRIVER_SIGNED",
+      driverSignedAt: expect.any(Date),
+    });
+  });
+
+  const SIGNED = {
+    id: "settlement-1",
+    driverId: "driver-1",
+    status: "DRIVER_SIGNED",
+    date: createPSTDateFromString("2027-02-15"),
+    ...DAY_TOTALS,
+  };
+
+  it("locks the day's stops when the totals still match", async () => {
+    mockDay(SIGNED.date);
+    db.driverSettlement.findUnique.mockResolvedValue(SIGNED);
+
+    await signOffSettlement("settlement-1", "admin-1");
+
+    // The settlement is locked before its status and totals are read
+    expect(db.$queryRaw.mock.calls[0][0].join("?")).toContain("FOR UPDATE");
+    expect(db.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      db.driverSettlement.findUnique.mock.invocationCallOrder[0]
+    );
+    expect(db.driverSettlement.update).toHaveBeenCalledWith({
+      where: { id: "settlement-1" },
+      data: { status: "SETTLED", officeSignedAt: expect.any(Date), officeSignedById: "admin-1" },
+    });
+    expect(db.stop.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["stop-1", "stop-2"] } },
+      data: { settlementId: "settlement-1" },
+    });
+  });
+
+  it("sends the settlement back to the driver when payments changed", async () => {
+    mockDay(SIGNED.date);
+    db.driverSettlement.findUnique.mockResolvedValue({ ...SIGNED, cashCollected: 80 });
+
+    await expect(signOffSettlement("settlement-1", "admin-1")).rejects.toThrow(
+      "Payments changed after the driver signed"
+    );
+    expect(db.driverSettlement.update).toHaveBeenCalledWith({
+      where: { id: "settlement-1" },
+      data: { status: "OPEN", driverSignedAt: null },
+    });
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("won't sign off a day that's already settled", async () => {
+    db.driverSettlement.findUnique.mockResolvedValue({ ...SIGNED, status: "SETTLED" });
+
+    await expect(signOffSettlement("settlement-1", "admin-1")).rejects.toThrow(
+      "This day has already been settled"
+    );
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("won't sign off before the driver has signed", async () => {
+    db.driverSettlement.findUnique.mockResolvedValue({ id: "settlement-1", status: "OPEN" });
+
+    await expect(signOffSettlement("settlement-1", "admin-1")).rejects.toThrow(
+      "The driver has to sign the settlement first"
+    );
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { FileGeocoder } from "../geocoders";
+import {
+  addressChangeData,
+  geocodeCustomer,
+  parseServiceArea,
+  suspicionReasons,
+} from "../geocoding";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    customer: { findFirst: jest.fn(), update: jest.fn() },
+    geocodeCache: { findUnique: jest.fn(), upsert: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  customer: { findFirst: jest.Mock; update: jest.Mock };
+  geocodeCache: { findUnique: jest.Mock; upsert: jest.Mock };
+};
+
+const geocoder = new FileGeocoder({
+  "1200 W Olympic Blvd, Los Angeles, CA": { lat: 34.0442, lng: -118.2669 },
+  "Main St, Springfield": { lat: 39.8, lng: -89.65, precision: "locality" },
+});
+
+describe("FileGeocoder", () => {
+  it("matches addresses regardless of case and street abbreviations", async () => {
+    expect(await geocoder.geocode("1200 west olympic boulevard, los angeles, ca")).toEqual({
+      latitude: 34.0442,
+      longitude: -118.2669,
+      precision: "rooftop",
+      formattedAddress: null,
+      partialMatch: false,
+    });
+    expect(await geocoder.geocode("9 Nowhere Ln")).toBeNull();
+  });
+});
+
+describe("suspicionReasons", () => {
+  const result = {
+    latitude: 34.0442,
+    longitude: -118.2669,
+    precision: "rooftop" as const,
+    formattedAddress: null,
+    partialMatch: false,
+  };
+
+  it("trusts precise, full matches inside the service area", () => {
+    expect(suspicionReasons(result, parseServiceArea("34.05,-118.24,80"))).toEqual([]);
+  });
+
+  it("flags rough, partial and out-of-area pins", () => {
+    expect(
+      suspicionReasons(
+        { ...result, precision: "approximate", partialMatch: true },
+        parseServiceArea("37.77,-122.42,80")
+      )
+    ).toEqual([
+      "Only placed at approximate precision",
+      "The geocoder matched only part of the address",
+      expect.stringMatching(/^\d+ km from the service area center$/),
+    ]);
+  });
+
+  it("ignores a malformed service area", () => {
+    expect(parseServiceArea("34.05,-118.24")).toBeNull();
+  });
+});
+
+describe("geocodeCustomer", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.geocodeCache.findUnique.mockResolvedValue(null);
+  });
+
+  it("stores the pin and caches the answer", async () => {
+    db.customer.findFirst.mockResolvedValue({
+      id: "c1",
+      address: "1200 W Olympic Blvd, Los Angeles, CA",
+      geocodeStatus: "PENDING",
+    });
+
+    const outcome = await geocodeCustomer("c1", { geocoder });
+
+    expect(outcome).toMatchObject({ status: "OK", latitude: 34.0442, fromCache: false });
+    expect(db.geocodeCache.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { addressKey: "1200 w olympic blvd los angeles ca" },
+      })
+    );
+    expect(db.customer.update).toHaveBeenCalledWith({
+      where: { id: "c1" },
+      data: expect.objectContaining({
+        latitude: 34.0442,
+        longitude: -118.2669,
+        geocodeStatus: "OK",
+        geocodeSource: "file",
+      }),
+    });
+  });
+
+  it("uses a cached answer without asking the provider", async () => {
+    const geocode = jest.spyOn(geocoder, "geocode");
+    db.customer.findFirst.mockResolvedValue({
+      id: "c2",
+      address: "Main St, Springfield",
+      geocodeStatus: "PENDING",
+    });
+    db.geocodeCache.findUnique.mockResolvedValue({
+      latitude: 39.8,
+      longitude: -89.65,
+      precision: "locality",
+      formattedAddress: null,
+      partialMatch: false,
+    });
+
+    const outcome = await geocodeCustomer("c2", { geocoder });
+
+    expect(geocode).not.toHaveBeenCalled();
+    expect(outcome).toMatchObject({
+      status: "SUSPICIOUS",
+      fromCache: true,
+      reasons: ["Only placed at locality precision"],
+    });
+    geocode.mockRestore();
+  });
+
+  it("fails addresses the provider doesn't know and leaves manual pins alone", async () => {
+    db.customer.findFirst.mockResolvedValueOnce({
+      id: "c3",
+      address: "9 Nowhere Ln",
+      geocodeStatus: "PENDING",
+    });
+    expect(await geocodeCustomer("c3", { geocoder })).toMatchObject({
+      status: "FAILED",
+      reasons: ["Address not found"],
+    });
+
+    db.customer.findFirst.mockResolvedValueOnce({
+      id: "c4",
+      address: "9 Nowhere Ln",
+      latitude: 1,
+      longitude: 2,
+      geocodeStatus: "MANUAL",
+    });
+    db.customer.update.mockClear();
+    expect(await geocodeCustomer("c4", { geocoder })).toMatchObject({ status: "MANUAL" });
+    expect(db.customer.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("addressChangeData", () => {
+  it("resets the pin only when the address really changes", () => {
+    expect(addressChangeData("12 Oak St.", "12 oak street")).toEqual({});
+    expect(addressChangeData("12 Oak St", undefined)).toEqual({});
+    expect(addressChangeData("12 Oak St", "14 Oak St")).toMatchObject({
+      latitude: null,
+      geocodeStatus: "PENDING",
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { evaluateGeofence, parseGeofenceRadius } from "../geofences";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    stop: { findFirst: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+    route: { updateMany: jest.fn() },
+    customer: { findMany: jest.fn() },
+    driverLocation: { findMany: jest.fn() },
+    geofenceEvent: { create: jest.fn() },
+    stopStatusEvent: { create: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  stop: { findFirst: jest.Mock; findMany: jest.Mock; updateMany: jest.Mock };
+  route: { updateMany: jest.Mock };
+  customer: { findMany: jest.Mock };
+  driverLocation: { findMany: jest.Mock };
+  geofenceEvent: { create: jest.Mock };
+  stopStatusEvent: { create: jest.Mock };
+};
+
+const PIN = { latitude: 34, longitude: -118 };
+// 0.001 degrees of latitude is about 111 m
+const fixAt = (metersNorth: number, accuracy: number | null = 10) => ({
+  driverId: "d1",
+  stopId: "s1",
+  latitude: PIN.latitude + metersNorth / 111195,
+  longitude: PIN.longitude,
+  accuracy,
+  timestamp: new Date("2026-07-13T15:00:00Z"),
+});
+
+const mockStop = (
+  status: string,
+  recorded: string[] = [],
+  geofenceRadiusMeters: number | null = null,
+  customerId = "c1"
+) =>
+  db.stop.findFirst.mockResolvedValue({
+    id: "s1",
+    status,
+    routeId: "r1",
+    customerId,
+    customer: { geofenceRadiusMeters },
+    geofenceEvents: recorded.map((type) => ({ type })),
+  });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.GEOFENCE_RADIUS_METERS;
+  delete process.env.GEOFENCE_AUTO_ARRIVE;
+  db.customer.findMany.mockResolvedValue([{ id: "c1", ...PIN, geocodeStatus: "MANUAL" }]);
+  db.stop.findMany.mockResolvedValue([]);
+  db.driverLocation.findMany.mockResolvedValue([]);
+  db.stop.updateMany.mockResolvedValue({ count: 1 });
+  db.route.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe("evaluateGeofence", () => {
+  it("asks the driver to mark arrived on entry and records it once", async () => {
+    mockStop("ON_THE_WAY");
+
+    const outcome = await evaluateGeofence(fixAt(50));
+
+    expect(outcome).toMatchObject({ event: "ENTERED", suggestArrival: true, autoArrived: false });
+    expect(db.geofenceEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "ENTERED", radiusMeters: 150, pointSource: "manual" }),
+    });
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+
+    mockStop("ON_THE_WAY", ["ENTERED"]);
+    db.geofenceEvent.create.mockClear();
+
+    expect(await evaluateGeofence(fixAt(40))).toMatchObject({ event: null, suggestArrival: true });
+    expect(db.geofenceEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("sets the stop to ARRIVED when auto-arrive is on", async () => {
+    process.env.GEOFENCE_AUTO_ARRIVE = "true";
+    mockStop("ON_THE_WAY");
+    const fix = fixAt(50);
+
+    const outcome = await evaluateGeofence(fix);
+
+    expect(outcome).toMatchObject({
+      event: "ENTERED",
+      suggestArrival: false,
+      autoArrived: true,
+      routeStarted: true,
+    });
+    expect(db.stop.updateMany).toHaveBeenCalledWith({
+      where: { id: "s1", status: "ON_THE_WAY" },
+      data: { status: "ARRIVED", arrivalTime: fix.timestamp },
+    });
+    expect(db.stopStatusEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: "ON_THE_WAY", toStatus: "ARRIVED", automatic: true }),
+    });
+    expect(db.route.updateMany).toHaveBeenCalledWith({
+      where: { id: "r1", status: "PENDING" },
+      data: { status: "IN_PROGRESS" },
+    });
+  });
+
+  it("falls back to asking when the driver changed the stop first", async () => {
+    process.env.GEOFENCE_AUTO_ARRIVE = "true";
+    mockStop("ON_THE_WAY");
+    db.stop.updateMany.mockResolvedValue({ count: 0 });
+
+    const outcome = await evaluateGeofence(fixAt(50));
+
+    expect(outcome).toMatchObject({ suggestArrival: true, autoArrived: false, routeStarted: false });
+    expect(db.stopStatusEvent.create).not.toHaveBeenCalled();
+    expect(db.route.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("alerts when the driver leaves an arrived stop well outside the fence", async () => {
+    mockStop("ARRIVED", [], 100);
+
+    // Past the radius but not clear of the exit margin
+    expect(await evaluateGeofence(fixAt(130))).toMatchObject({ event: null, alert: false });
+
+    const outcome = await evaluateGeofence(fixAt(300));
+    expect(outcome).toMatchObject({ event: "EXITED", alert: true });
+    expect(db.geofenceEvent.create).toHaveBeenCalledTimes(1);
+    expect(db.geofenceEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "EXITED", radiusMeters: 100 }),
+    });
+  });
+
+  it("ignores geocoded-only customers and inaccurate fixes", async () => {
+    mockStop("ON_THE_WAY", [], null, "c2");
+    db.customer.findMany.mockResolvedValue([{ id: "c2", ...PIN, geocodeStatus: "OK" }]);
+
+    expect(await evaluateGeofence(fixAt(0))).toMatchObject({ event: null, suggestArrival: false });
+
+    mockStop("ON_THE_WAY");
+
+    expect(await evaluateGeofence(fixAt(0, 500))).toMatchObject({ event: null, suggestArrival: false });
+    expect(db.geofenceEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("looks a customer's geofence up once rather than on every update", async () => {
+    mockStop("ON_THE_WAY", ["ENTERED"], null, "c3");
+    db.customer.findMany.mockResolvedValue([{ id: "c3", ...PIN, geocodeStatus: "MANUAL" }]);
+
+    await evaluateGeofence(fixAt(500));
+    await evaluateGeofence(fixAt(400));
+
+    expect(db.customer.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips an arrived stop that has already been left", async () => {
+    mockStop("ARRIVED", ["ENTERED", "EXITED"]);
+
+    expect(await evaluateGeofence(fixAt(300))).toMatchObject({ event: null, alert: false });
+    expect(db.customer.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseGeofenceRadius", () => {
+  it("accepts whole meters in range and clears on empty", () => {
+    expect(parseGeofenceRadius("200")).toBe(200);
+    expect(parseGeofenceRadius("")).toBeNull();
+    expect(parseGeofenceRadius(null)).toBeNull();
+    expect(() => parseGeofenceRadius(10)).toThrow("Geofence radius must be");
+    expect(() => parseGeofenceRadius("12.5")).toThrow("Geofence radius must be");
+  });
+});
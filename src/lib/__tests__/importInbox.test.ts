@@ -0,0 +1,145 @@
+/** @jest-environment node */
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import prisma from "../db";
+import { parseRouteFile, saveRoutesToDatabase } from "../routeParser";
+import {
+  FAILED_DIR,
+  PROCESSED_DIR,
+  classifyInboxFile,
+  listReadyFiles,
+  moveInboxFile,
+  processImportInbox,
+} from "../importInbox";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    user: { findFirst: jest.fn() },
+    routeUpload: { create: jest.fn(), update: jest.fn() },
+    documentIntakeBatch: { create: jest.fn() },
+  },
+}));
+
+jest.mock("../routeParser", () => ({
+  parseRouteFile: jest.fn(),
+  saveRoutesToDatabase: jest.fn(),
+}));
+
+jest.mock("../routeMappingProfiles", () => ({
+  resolveParseOptions: jest.fn(),
+}));
+
+jest.mock("../routeUploadHistory", () => ({
+  storeRouteUploadFile: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock("../documentIntakeService", () => ({
+  commitIntakeAssignment: jest.fn(),
+  processIntakeFile: jest.fn(),
+}));
+
+const db = prisma as unknown as {
+  user: { findFirst: jest.Mock };
+  routeUpload: { create: jest.Mock; update: jest.Mock };
+  documentIntakeBatch: { create: jest.Mock };
+};
+
+describe("classifyInboxFile", () => {
+  it("sorts route files from documents by extension", () => {
+    expect(classifyInboxFile("Route 12.XLSX")).toBe("route");
+    expect(classifyInboxFile("routes.csv")).toBe("route");
+    expect(classifyInboxFile("Invoice 10045.pdf")).toBe("document");
+    expect(classifyInboxFile("notes.txt")).toBeNull();
+  });
+});
+
+describe("inbox files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "import-inbox-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists settled files oldest first, skipping folders, hidden and lock files", async () => {
+    const now = Date.now();
+    const write = async (name: string, ageMs: number) => {
+      await fs.writeFile(path.join(dir, name), "x");
+      const time = new Date(now - ageMs);
+      await fs.utimes(path.join(dir, name), time, time);
+    };
+
+    await write("newer.xlsx", 60_000);
+    await write("older.pdf", 120_000);
+    await write("copying.xlsx", 1_000);
+    await write(".DS_Store", 120_000);
+    await write("~$newer.xlsx", 120_000);
+    await fs.mkdir(path.join(dir, PROCESSED_DIR));
+
+    expect(await listReadyFiles(dir, now)).toEqual(["older.pdf", "newer.xlsx"]);
+  });
+
+  it("moves failed files aside with the reason, without overwriting", async () => {
+    await fs.mkdir(path.join(dir, FAILED_DIR));
+    await fs.writeFile(path.join(dir, FAILED_DIR, "route.csv"), "old");
+    await fs.writeFile(path.join(dir, "route.csv"), "new");
+
+    const destination = await moveInboxFile(dir, "route.csv", FAILED_DIR, "Missing Route # column");
+
+    expect(path.dirname(destination)).toBe(path.join(dir, FAILED_DIR));
+    expect(path.basename(destination)).toMatch(/^route_\d+\.csv$/);
+    expect(await fs.readFile(destination, "utf8")).toBe("new");
+    expect(await fs.readFile(`${destination}.error.txt`, "utf8")).toBe("Missing Route # column\n");
+    await expect(fs.access(path.join(dir, "route.csv"))).rejects.toThrow();
+  });
+});
+
+describe("processImportInbox", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "import-inbox-"));
+    process.env.IMPORT_INBOX_DIR = dir;
+    db.user.findFirst.mockResolvedValue({ id: "admin-1" });
+    db.routeUpload.create.mockResolvedValue({ id: "upload-1", fileName: "route_1.csv" });
+    (parseRouteFile as jest.Mock).mockResolvedValue({
+      success: true,
+      errors: [],
+      routes: [{ route: { routeNumber: "12" } }],
+    });
+    (saveRoutesToDatabase as jest.Mock).mockResolvedValue([
+      { route: { routeNumber: "12" }, isUpdate: true },
+    ]);
+  });
+
+  afterEach(async () => {
+    delete process.env.IMPORT_INBOX_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("moves an imported route file out even when the documents fail", async () => {
+    const old = new Date(Date.now() - 60_000);
+    for (const name of ["route.csv", "invoice.pdf"]) {
+      await fs.writeFile(path.join(dir, name), "x");
+      await fs.utimes(path.join(dir, name), old, old);
+    }
+    db.documentIntakeBatch.create.mockRejectedValue(new Error("database unavailable"));
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const run = await processImportInbox();
+    consoleError.mockRestore();
+
+    expect(run.files).toEqual([
+      expect.objectContaining({ fileName: "route.csv", outcome: "processed" }),
+    ]);
+    expect(await fs.readdir(path.join(dir, PROCESSED_DIR))).toEqual(["route.csv"]);
+    // Left for the next run
+    await expect(fs.access(path.join(dir, "invoice.pdf"))).resolves.toBeUndefined();
+  });
+});
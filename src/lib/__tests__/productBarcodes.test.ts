@@ -0,0 +1,122 @@
+/** @jest-environment node */
+import * as XLSX from "xlsx";
+import prisma from "../db";
+import { findProductByBarcode, setProductBarcodes } from "../productBarcodes";
+import { parseProductFile } from "../productParser";
+import { splitBarcodes } from "@/utils/productBarcodes";
+
+jest.mock("../db", () => {
+  const db = {
+    productBarcode: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  productBarcode: {
+    findMany: jest.Mock;
+    findFirst: jest.Mock;
+    deleteMany: jest.Mock;
+    createMany: jest.Mock;
+  };
+};
+
+function buildWorkbook(rows: unknown[][]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Products");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("splitBarcodes", () => {
+  it("splits, normalises and de-duplicates codes", () => {
+    expect(splitBarcodes("012345678905; 10012345678902, 012345678905")).toEqual({
+      barcodes: ["012345678905", "10012345678902"],
+      invalid: [],
+    });
+    expect(splitBarcodes("abc-1234;12;#99")).toEqual({
+      barcodes: ["ABC-1234"],
+      invalid: ["12", "#99"],
+    });
+  });
+});
+
+describe("parseProductFile", () => {
+  it("reads several barcodes per product and warns about bad ones", async () => {
+    const result = await parseProductFile(
+      buildWorkbook([
+        ["Product Name", "SKU", "Unit", "Barcodes"],
+        ["Whole milk 1 gal", "MLK-1G", "Each", "012345678905; 10012345678902"],
+        ["Eggs 30ct", "EGG-30", "Case", ""],
+        ["Butter", "BTR-1", "Each", "12"],
+      ])
+    );
+
+    expect(result.products).toEqual([
+      expect.objectContaining({ sku: "MLK-1G", barcodes: ["012345678905", "10012345678902"] }),
+      expect.objectContaining({ sku: "EGG-30", barcodes: undefined }),
+      expect.objectContaining({ sku: "BTR-1", barcodes: undefined }),
+    ]);
+    expect(result.warnings).toEqual(['Row 4: Barcode "12" is not valid and was skipped.']);
+  });
+
+  it("puts back the leading zeros of barcodes in numeric cells", async () => {
+    const result = await parseProductFile(
+      buildWorkbook([
+        ["Product Name", "SKU", "Barcodes"],
+        ["Whole milk 1 gal", "MLK-1G", 12345678905],
+        ["Gum", "GUM-1", 1234565],
+        ["Eggs 30ct", "EGG-30", 4006381333931],
+      ])
+    );
+
+    expect(result.products).toEqual([
+      expect.objectContaining({ sku: "MLK-1G", barcodes: ["012345678905"] }),
+      expect.objectContaining({ sku: "GUM-1", barcodes: ["01234565"] }),
+      expect.objectContaining({ sku: "EGG-30", barcodes: ["4006381333931"] }),
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe("setProductBarcodes", () => {
+  it("leaves codes on other products and replaces the rest", async () => {
+    db.productBarcode.findMany.mockResolvedValue([
+      { code: "4006381333931", product: { sku: "EGG-30" } },
+    ]);
+
+    await expect(
+      setProductBarcodes("product-1", ["012345678905", "4006381333931"])
+    ).resolves.toEqual([
+      "Barcode 4006381333931 is already on product EGG-30 and was not added",
+    ]);
+    expect(db.productBarcode.createMany).toHaveBeenCalledWith({
+      data: [{ productId: "product-1", code: "012345678905" }],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("findProductByBarcode", () => {
+  it("looks up the normalised code", async () => {
+    db.productBarcode.findFirst.mockResolvedValue({ product: { id: "product-1", sku: "MLK-1G" } });
+
+    await expect(findProductByBarcode(" 0123 4567 8905 ")).resolves.toEqual({
+      id: "product-1",
+      sku: "MLK-1G",
+    });
+    expect(db.productBarcode.findFirst.mock.calls[0][0].where).toEqual({
+      code: "012345678905",
+      product: { isDeleted: false },
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/** @jest-environment node */
+import { evaluateArrival, pacificTime, sanitizeReceivingHours } from "../receivingWindows";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// Mondays
+const WINTER_MONDAY = "2026-01-12";
+const SUMMER_MONDAY = "2026-07-13";
+
+describe("sanitizeReceivingHours", () => {
+  it("accepts split windows and closed days", () => {
+    const { hours, errors } = sanitizeReceivingHours({
+      windows: [
+        { weekday: 1, opensAt: "13:00", closesAt: "16:00" },
+        { weekday: 1, opensAt: "07:00", closesAt: "11:00" },
+      ],
+      closedWeekdays: [6, 0, 0],
+      dockNotes: "  Rear dock  ",
+    });
+
+    expect(errors).toEqual([]);
+    expect(hours.closedWeekdays).toEqual([0, 6]);
+    expect(hours.dockNotes).toBe("Rear dock");
+    expect(hours.windows).toHaveLength(2);
+  });
+
+  it("rejects bad times, overlaps and windows on closed days", () => {
+    const { errors } = sanitizeReceivingHours({
+      windows: [
+        { weekday: 7, opensAt: "07:00", closesAt: "11:00" },
+        { weekday: 2, opensAt: "7am", closesAt: "11:00" },
+        { weekday: 3, opensAt: "11:00", closesAt: "07:00" },
+        { weekday: 4, opensAt: "07:00", closesAt: "11:00" },
+        { weekday: 4, opensAt: "10:00", closesAt: "12:00" },
+        { weekday: 5, opensAt: "07:00", closesAt: "11:00" },
+      ],
+      closedWeekdays: [5],
+    });
+
+    expect(errors).toEqual([
+      "Window 1: weekday must be 0 (Sunday) to 6 (Saturday)",
+      "Window 2: opensAt and closesAt must be HH:MM",
+      "Window 3: must close after it opens",
+      "Thursday: receiving windows overlap",
+      "Friday is marked closed but has receiving windows",
+    ]);
+  });
+});
+
+describe("pacificTime", () => {
+  it("follows daylight saving time", () => {
+    expect(pacificTime(WINTER_MONDAY, 7 * 60).toISOString()).toBe("2026-01-12T15:00:00.000Z");
+    expect(pacificTime(SUMMER_MONDAY, 7 * 60).toISOString()).toBe("2026-07-13T14:00:00.000Z");
+  });
+});
+
+describe("evaluateArrival", () => {
+  const windows = [
+    { weekday: 1, opensAt: "07:00", closesAt: "11:00" },
+    { weekday: 1, opensAt: "13:00", closesAt: "16:00" },
+  ];
+  const at = (minutes: number) => pacificTime(SUMMER_MONDAY, minutes);
+
+  it("waits for the next window to open and flags arrivals after the last one", () => {
+    expect(evaluateArrival(at(8 * 60), windows, [])).toMatchObject({ verdict: "OK" });
+
+    const lunch = evaluateArrival(at(12 * 60), windows, []);
+    expect(lunch.verdict).toBe("EARLY");
+    expect(lunch.startAt).toEqual(at(13 * 60));
+
+    expect(evaluateArrival(at(16 * 60 + 30), windows, [])).toEqual({
+      verdict: "LATE",
+      startAt: at(16 * 60 + 30),
+      hours: "7:00 AM – 11:00 AM, 1:00 PM – 4:00 PM",
+    });
+  });
+
+  it("separates closed days from days without hours", () => {
+    expect(evaluateArrival(at(8 * 60), [], [1])).toMatchObject({ verdict: "CLOSED" });
+    expect(evaluateArrival(at(8 * 60), [], [])).toMatchObject({ verdict: "NO_HOURS" });
+  });
+});
@@ -0,0 +1,160 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { scheduleRedelivery } from "../redeliveries";
+
+jest.mock("../db", () => {
+  const db = {
+    stop: { findFirst: jest.fn(), count: jest.fn(), create: jest.fn(), update: jest.fn() },
+    route: { findFirst: jest.fn() },
+    adminNote: { createMany: jest.fn() },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  stop: { findFirst: jest.Mock; count: jest.Mock; create: jest.Mock; update: jest.Mock };
+  route: { findFirst: jest.Mock };
+  adminNote: { createMany: jest.Mock };
+  $queryRaw: jest.Mock;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const FAILED_STOP = {
+  id: "stop-1",
+  routeId: "route-old",
+  customerId: "customer-1",
+  status: "FAILED",
+  address: "1 Main St",
+  customerNameFromUpload: "Cafe One",
+  driverNameFromUpload: "alice",
+  orderNumberWeb: "W-100",
+  quickbooksInvoiceNum: "INV-100",
+  initialDriverNotes: "Back door",
+  isCOD: true,
+  paymentTerms: null,
+  paymentTermsOther: null,
+  amount: 250,
+  route: { routeNumber: "7", date: new Date(Date.now() - DAY) },
+  stopDocuments: [{ documentId: "doc-1" }],
+  orderLines: [
+    {
+      productId: "product-1",
+      sku: "MLK-1G",
+      description: "Whole milk 1 gal",
+      unit: "cs",
+      orderedQty: 4,
+      unitPrice: 3.25,
+      deliveredQty: 0,
+      shortReason: "Refused",
+      sortOrder: 0,
+    },
+  ],
+};
+
+const futureRoute = (overrides: Record<string, unknown> = {}) => ({
+  id: "route-new",
+  routeNumber: "9",
+  date: new Date(Date.now() + 2 * DAY),
+  status: "PENDING",
+  driver: { username: "bob" },
+  stops: [{ sequence: 12 }],
+  ...overrides,
+});
+
+describe("scheduleRedelivery", () => {
+  beforeEach(() => {
+    db.stop.findFirst.mockReset().mockResolvedValue(FAILED_STOP);
+    db.stop.count.mockReset().mockResolvedValue(1);
+    db.stop.create.mockReset().mockResolvedValue({ id: "stop-2" });
+    db.stop.update.mockReset();
+    db.route.findFirst.mockReset().mockResolvedValue(futureRoute());
+    db.adminNote.createMany.mockReset();
+    db.$queryRaw.mockReset();
+  });
+
+  it("copies the stop to the end of the new route, linked to the original", async () => {
+    await expect(scheduleRedelivery("stop-1", "route-new", "admin-1")).resolves.toEqual({
+      id: "stop-2",
+    });
+
+    const { data } = db.stop.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      routeId: "route-new",
+      customerId: "customer-1",
+      sequence: 13,
+      driverNameFromUpload: "bob",
+      quickbooksInvoiceNum: "INV-100",
+      amount: 250,
+      status: "PENDING",
+      redeliveryOfId: "stop-1",
+      stopDocuments: { create: [{ documentId: "doc-1" }] },
+    });
+    // The order goes out again in full
+    expect(data.orderLines.create).toEqual([
+      {
+        productId: "product-1",
+        sku: "MLK-1G",
+        description: "Whole milk 1 gal",
+        unit: "cs",
+        orderedQty: 4,
+        unitPrice: 3.25,
+        sortOrder: 0,
+      },
+    ]);
+    // A failed original keeps its status and failure details
+    expect(db.stop.update).not.toHaveBeenCalled();
+    expect(db.adminNote.createMany.mock.calls[0][0].data).toHaveLength(2);
+  });
+
+  it("cancels an original that was left undelivered", async () => {
+    db.stop.findFirst.mockResolvedValue({ ...FAILED_STOP, status: "ARRIVED" });
+
+    await scheduleRedelivery("stop-1", "route-new", "admin-1");
+
+    expect(db.stop.update).toHaveBeenCalledWith({
+      where: { id: "stop-1" },
+      data: { status: "CANCELLED" },
+    });
+  });
+
+  it("refuses stops that aren't queued", async () => {
+    db.stop.count.mockResolvedValue(0);
+
+    await expect(scheduleRedelivery("stop-1", "route-new", "admin-1")).rejects.toThrow(
+      "Only failed or undelivered stops that haven't been rescheduled can be redelivered"
+    );
+    // The stop is locked before it's checked against the queue
+    expect(db.$queryRaw.mock.calls[0][0].join("?")).toContain("FOR UPDATE");
+    expect(db.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      db.stop.count.mock.invocationCallOrder[0]
+    );
+    expect(db.stop.create).not.toHaveBeenCalled();
+  });
+
+  it("only schedules onto a different, open route from today on", async () => {
+    db.route.findFirst.mockResolvedValue(futureRoute({ id: "route-old" }));
+    await expect(scheduleRedelivery("stop-1", "route-old", "admin-1")).rejects.toThrow(
+      "Pick a different route"
+    );
+
+    db.route.findFirst.mockResolvedValue(futureRoute({ date: new Date(Date.now() - 3 * DAY) }));
+    await expect(scheduleRedelivery("stop-1", "route-new", "admin-1")).rejects.toThrow(
+      "today's or a future route"
+    );
+
+    db.route.findFirst.mockResolvedValue(futureRoute({ status: "COMPLETED" }));
+    await expect(scheduleRedelivery("stop-1", "route-new", "admin-1")).rejects.toThrow(
+      "Route 9 is completed"
+    );
+
+    db.route.findFirst.mockResolvedValue(null);
+    await expect(scheduleRedelivery("stop-1", "route-new", "admin-1")).rejects.toThrow(
+      "Route not found"
+    );
+    expect(db.stop.create).not.toHaveBeenCalled();
+  });
+});
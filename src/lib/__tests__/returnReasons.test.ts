@@ -0,0 +1,139 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { sanitizeReturnReason, validateReturnReasons } from "../returnReasons";
+import { receiveReturn, sanitizeReceipt } from "../returnReceiving";
+import { draftCreditMemoForStop, syncDraftForReceipt } from "../creditMemoDrafts";
+
+jest.mock("../db", () => {
+  const db = {
+    returnReason: { findMany: jest.fn() },
+    return: { findFirst: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((run: (tx: unknown) => unknown) => run(db));
+  return { __esModule: true, default: db };
+});
+
+jest.mock("../creditMemoDrafts", () => ({
+  draftCreditMemoForStop: jest.fn(),
+  syncDraftForReceipt: jest.fn(),
+}));
+
+const db = prisma as unknown as {
+  returnReason: { findMany: jest.Mock };
+  return: { findFirst: jest.Mock; update: jest.Mock };
+};
+const draftCreditMemo = draftCreditMemoForStop as jest.Mock;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.returnReason.findMany.mockResolvedValue([
+    { code: "DAMAGED", label: "Damaged", requiresPhoto: true },
+    { code: "WRONG_ITEM", label: "Wrong Item", requiresPhoto: false },
+  ]);
+});
+
+describe("validateReturnReasons", () => {
+  it("returns each item's photos when the reasons are known", async () => {
+    await expect(
+      validateReturnReasons(
+        [
+          { reasonCode: " DAMAGED ", photoUrls: ["/uploads/returns/stop-1_1700000000000.jpg"] },
+          { reasonCode: "WRONG_ITEM" },
+        ],
+        "stop-1"
+      )
+    ).resolves.toEqual([["/uploads/returns/stop-1_1700000000000.jpg"], []]);
+  });
+
+  it("only takes photos uploaded for the stop", async () => {
+    await expect(
+      validateReturnReasons(
+        [{ reasonCode: "DAMAGED", photoUrls: ["/uploads/returns/stop-2_1700000000000.jpg"] }],
+        "stop-1"
+      )
+    ).rejects.toThrow("photoUrls must be photos uploaded for this stop");
+    await expect(
+      validateReturnReasons(
+        [{ reasonCode: "DAMAGED", photoUrls: ["https://example.com/a.jpg"] }],
+        "stop-1"
+      )
+    ).rejects.toThrow("photoUrls must be photos uploaded for this stop");
+  });
+
+  it("rejects missing, unknown or photo-less reasons", async () => {
+    await expect(validateReturnReasons([{ reasonCode: "" }], "stop-1")).rejects.toThrow(
+      "Each returned item needs a reason"
+    );
+    await expect(
+      validateReturnReasons([{ reasonCode: "Customer didn't like it" }], "stop-1")
+    ).rejects.toThrow("Unknown return reason: Customer didn't like it");
+    await expect(
+      validateReturnReasons([{ reasonCode: "DAMAGED", photoUrls: [] }], "stop-1")
+    ).rejects.toThrow('A photo is required for returns marked "Damaged"');
+  });
+});
+
+describe("sanitizeReturnReason", () => {
+  it("normalises the code and only takes it when creating", () => {
+    expect(
+      sanitizeReturnReason(
+        { code: "short dated", label: " Short dated ", description: "", requiresPhoto: true },
+        { creating: true }
+      )
+    ).toEqual({
+      reason: { code: "SHORT_DATED", label: "Short dated", description: null, requiresPhoto: true },
+      errors: [],
+    });
+    expect(sanitizeReturnReason({ code: "NEW", isActive: "no" }, { creating: false })).toEqual({
+      reason: {},
+      errors: ["isActive must be true or false"],
+    });
+  });
+});
+
+describe("warehouse receiving", () => {
+  it("validates the count and condition", () => {
+    expect(sanitizeReceipt({ receivedQty: 3, receivedCondition: "DAMAGED", warehouseLocation: " B-12 " }))
+      .toEqual({
+        receipt: {
+          receivedQty: 3,
+          receivedCondition: "DAMAGED",
+          warehouseLocation: "B-12",
+          receivingNotes: null,
+        },
+        errors: [],
+      });
+    expect(sanitizeReceipt({ receivedQty: -1, receivedCondition: "LOST" }).errors).toEqual([
+      "receivedQty must be a whole number of 0 or more",
+      "receivedCondition must be GOOD, DAMAGED or UNSELLABLE",
+    ]);
+  });
+
+  it("records who received the item and drafts the stop's credit memo", async () => {
+    db.return.findFirst.mockResolvedValue({ id: "return-1", stopId: "stop-1" });
+    db.return.update.mockResolvedValue({ id: "return-1" });
+    draftCreditMemo.mockResolvedValue({ id: "memo-1" });
+    const receipt = {
+      receivedQty: 2,
+      receivedCondition: "GOOD" as const,
+      warehouseLocation: "A-1",
+      receivingNotes: null,
+    };
+
+    await expect(receiveReturn("return-1", receipt, "admin-1")).resolves.toEqual({
+      received: { id: "return-1" },
+      creditMemo: { id: "memo-1" },
+    });
+
+    expect(db.return.update).toHaveBeenCalledWith({
+      where: { id: "return-1" },
+      data: { ...receipt, receivedAt: expect.any(Date), receivedById: "admin-1" },
+    });
+    expect(syncDraftForReceipt).toHaveBeenCalledWith(prisma, "return-1", 2);
+    expect(draftCreditMemo).toHaveBeenCalledWith("stop-1");
+
+    db.return.findFirst.mockResolvedValue(null);
+    await expect(receiveReturn("return-9", receipt, "admin-1")).rejects.toThrow("Return not found");
+  });
+});
@@ -0,0 +1,188 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { applyRouteMove, checkRouteMove, getRouteCalendar } from "../routeCalendar";
+
+jest.mock("../db", () => {
+  const db = {
+    route: { findMany: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+    user: { findMany: jest.fn(), findFirst: jest.fn() },
+    stop: { findMany: jest.fn(), updateMany: jest.fn() },
+    vehicleAssignment: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  route: { findMany: jest.Mock; findFirst: jest.Mock; update: jest.Mock };
+  user: { findMany: jest.Mock; findFirst: jest.Mock };
+  stop: { findMany: jest.Mock; updateMany: jest.Mock };
+  vehicleAssignment: { findMany: jest.Mock };
+};
+
+const ALICE = { id: "driver-alice", username: "alice" };
+const BOB = { id: "driver-bob", username: "bob" };
+
+// 2027-03-10 in PST
+const ROUTE = {
+  id: "route-1",
+  routeNumber: "7",
+  date: new Date("2027-03-10T08:00:00.000Z"),
+  status: "PENDING",
+  driverId: ALICE.id,
+  driver: { username: "alice" },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.route.findFirst.mockImplementation(({ where }) =>
+    Promise.resolve(where.id === ROUTE.id ? ROUTE : null)
+  );
+  db.route.findMany.mockResolvedValue([]);
+  db.stop.findMany.mockResolvedValue([]);
+  db.user.findFirst.mockImplementation(({ where }) =>
+    Promise.resolve([ALICE, BOB].find((d) => d.id === where.id || d.username === where.username) ?? null)
+  );
+  db.vehicleAssignment.findMany.mockResolvedValue([]);
+  db.stop.updateMany.mockResolvedValue({ count: 3 });
+});
+
+describe("getRouteCalendar", () => {
+  it("splits each route into one entry per driver, unnamed stops going to the default driver", async () => {
+    db.route.findMany.mockResolvedValue([
+      {
+        ...ROUTE,
+        stops: [
+          { driverNameFromUpload: null, status: "COMPLETED", amount: 100 },
+          { driverNameFromUpload: "alice", status: "PENDING", amount: 50 },
+          { driverNameFromUpload: "temp driver", status: "PENDING", amount: null },
+        ],
+      },
+    ]);
+    db.user.findMany.mockResolvedValue([{ ...ALICE, fullName: "Alice A" }]);
+
+    const calendar = await getRouteCalendar("2027-03-08", "2027-03-14");
+
+    expect(calendar.days).toHaveLength(7);
+    expect(calendar.entries).toEqual([
+      expect.objectContaining({
+        date: "2027-03-10",
+        driverName: "alice",
+        driverId: ALICE.id,
+        stopCount: 2,
+        completedStops: 1,
+        totalAmount: 150,
+      }),
+      expect.objectContaining({ driverName: "temp driver", driverId: null, stopCount: 1 }),
+    ]);
+  });
+});
+
+describe("checkRouteMove", () => {
+  it("flags a driver already on another route that day and a vehicle in maintenance", async () => {
+    db.route.findMany.mockResolvedValue([{ routeNumber: "12" }]);
+    db.vehicleAssignment.findMany.mockResolvedValue([
+      { routeId: null, vehicle: { vehicleNumber: "T-4", status: "MAINTENANCE" } },
+    ]);
+
+    await expect(
+      checkRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-11", toDriverId: BOB.id })
+    ).resolves.toEqual([
+      "bob is already on route 12 on 2027-03-11",
+      "bob's vehicle T-4 is in MAINTENANCE",
+    ]);
+  });
+
+  it("prefers the vehicle assigned to the route over the everyday one", async () => {
+    db.vehicleAssignment.findMany.mockResolvedValue([
+      { routeId: null, vehicle: { vehicleNumber: "T-4", status: "MAINTENANCE" } },
+      { routeId: "route-1", vehicle: { vehicleNumber: "T-9", status: "ACTIVE" } },
+    ]);
+
+    await expect(
+      checkRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-11" })
+    ).resolves.toEqual([]);
+  });
+
+  it("checks every driver on the route and its number when the day changes", async () => {
+    const CAROL = { id: "driver-carol", username: "carol" };
+    db.stop.findMany.mockResolvedValue([
+      { driverNameFromUpload: null },
+      { driverNameFromUpload: "bob" },
+      { driverNameFromUpload: "carol" },
+    ]);
+    db.user.findMany.mockResolvedValue([CAROL]);
+    db.route.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === ROUTE.id ? ROUTE : { id: "route-2" })
+    );
+    db.route.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(where.OR[0].driverId === CAROL.id ? [{ routeNumber: "9" }] : [])
+    );
+
+    await expect(
+      checkRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-11", toDriverId: BOB.id })
+    ).resolves.toEqual([
+      "There is already a route 7 on 2027-03-11",
+      "carol is already on route 9 on 2027-03-11",
+    ]);
+    // alice's stops go to bob, who is checked already
+    expect(db.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ username: { in: ["carol"] } }) })
+    );
+  });
+
+  it("only checks the new driver when the day stays the same", async () => {
+    await checkRouteMove({ routeId: "route-1", fromDriverName: "alice", toDriverId: BOB.id });
+
+    expect(db.stop.findMany).not.toHaveBeenCalled();
+    expect(db.route.findFirst).toHaveBeenCalledTimes(1);
+  });
+
+  it("only moves pending routes", async () => {
+    db.route.findFirst.mockResolvedValue({ ...ROUTE, status: "IN_PROGRESS" });
+
+    await expect(
+      checkRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-11" })
+    ).rejects.toThrow("Only pending routes can be moved");
+  });
+});
+
+describe("applyRouteMove", () => {
+  it("moves the date and hands the default driver's stops and the route to the new driver", async () => {
+    await expect(
+      applyRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-11", toDriverId: BOB.id })
+    ).resolves.toEqual({ reassignedStops: 3 });
+
+    expect(db.route.update).toHaveBeenCalledWith({
+      where: { id: "route-1" },
+      data: { date: expect.any(Date) },
+    });
+    expect(db.stop.updateMany).toHaveBeenCalledWith({
+      where: {
+        routeId: "route-1",
+        isDeleted: false,
+        OR: [{ driverNameFromUpload: "alice" }, { driverNameFromUpload: null }],
+      },
+      data: { driverNameFromUpload: "bob" },
+    });
+    expect(db.route.update).toHaveBeenCalledWith({
+      where: { id: "route-1" },
+      data: { driverId: BOB.id },
+    });
+  });
+
+  it("only changes the date when the driver stays the same", async () => {
+    await applyRouteMove({ routeId: "route-1", fromDriverName: "alice", toDate: "2027-03-12" });
+
+    expect(db.route.update).toHaveBeenCalledTimes(1);
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("won't unassign another driver's stops on a route with a default driver", async () => {
+    await expect(
+      applyRouteMove({ routeId: "route-1", fromDriverName: "bob", toDriverId: null })
+    ).rejects.toThrow("move them to another driver instead");
+    expect(db.stop.updateMany).not.toHaveBeenCalled();
+  });
+});
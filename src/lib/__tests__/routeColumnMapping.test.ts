@@ -0,0 +1,226 @@
+/** @jest-environment node */
+import * as XLSX from "xlsx";
+import {
+  BUILT_IN_PROFILE,
+  DEFAULT_COLUMN_MAPPING,
+  MappingProfile,
+  columnIndexToLetter,
+  columnLetterToIndex,
+  detectMappingProfile,
+  resolveColumnIndices,
+  sanitizeColumnMapping,
+} from "../routeColumnMapping";
+import { parseRouteExcel } from "../routeParser";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const ALT_PROFILE: MappingProfile = {
+  id: "profile-alt",
+  name: "Warehouse export",
+  mapping: {
+    dataStartRow: 2,
+    fields: {
+      routeNumber: { headers: ["Route"] },
+      driver: { headers: ["Driver Name"] },
+      sequence: { headers: ["Stop"] },
+      customerName: { headers: ["Customer", "Account Name"] },
+      quickbooksInvoiceNum: { headers: ["Invoice Number"] },
+      amount: { headers: ["Total"] },
+    },
+  },
+};
+
+function buildWorkbook(rows: unknown[][]): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Route");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("column letters", () => {
+  it("converts letters to 0-based indices and back", () => {
+    expect(columnLetterToIndex("A")).toBe(0);
+    expect(columnLetterToIndex("c")).toBe(2);
+    expect(columnLetterToIndex("AJ")).toBe(35);
+    expect(columnIndexToLetter(35)).toBe("AJ");
+    expect(columnIndexToLetter(39)).toBe("AN");
+  });
+
+  it("returns -1 for non-letters", () => {
+    expect(columnLetterToIndex("")).toBe(-1);
+    expect(columnLetterToIndex("1")).toBe(-1);
+    expect(columnLetterToIndex("A1")).toBe(-1);
+  });
+});
+
+describe("resolveColumnIndices", () => {
+  it("keeps the fixed office-export columns for the default mapping", () => {
+    const indices = resolveColumnIndices(
+      ["S No", "Route #", "Driver", "Customers"],
+      DEFAULT_COLUMN_MAPPING
+    );
+    expect(indices.sequence).toBe(0);
+    expect(indices.routeNumber).toBe(1);
+    expect(indices.driver).toBe(2);
+    expect(indices.customerName).toBe(3);
+    expect(indices.quickbooksInvoiceNum).toBe(35);
+    expect(indices.amount).toBe(36);
+    expect(indices.paymentAmountCC).toBe(39);
+    expect(indices.customerEmail).toBe(-1);
+  });
+
+  it("matches headers case-insensitively and tries alternatives in order", () => {
+    const indices = resolveColumnIndices(
+      ["route", "DRIVER NAME", "stop", "account  name"],
+      ALT_PROFILE.mapping
+    );
+    expect(indices.routeNumber).toBe(0);
+    expect(indices.driver).toBe(1);
+    expect(indices.sequence).toBe(2);
+    expect(indices.customerName).toBe(3);
+  });
+});
+
+describe("detectMappingProfile", () => {
+  const profiles = [ALT_PROFILE, BUILT_IN_PROFILE];
+
+  it("picks the profile whose headers match the sheet", () => {
+    const headers = ["Route", "Stop", "Driver Name", "Customer", "Invoice Number", "Total"];
+    expect(detectMappingProfile(headers, profiles)?.id).toBe("profile-alt");
+  });
+
+  it("picks the built-in layout for the office export", () => {
+    const headers = ["S No", "Route #", "Driver", "Customers", "Customer Email"];
+    expect(detectMappingProfile(headers, profiles)).toBe(BUILT_IN_PROFILE);
+  });
+
+  it("returns null when no profile resolves the required fields", () => {
+    expect(detectMappingProfile(["Foo", "Bar"], [ALT_PROFILE])).toBeNull();
+  });
+
+  it("prefers the default profile on a tie", () => {
+    const twin = { ...ALT_PROFILE, id: "profile-twin", isDefault: true };
+    const headers = ["Route", "Stop", "Driver Name", "Customer"];
+    expect(detectMappingProfile(headers, [ALT_PROFILE, twin])?.id).toBe("profile-twin");
+  });
+});
+
+describe("sanitizeColumnMapping", () => {
+  it("accepts a valid mapping and upper-cases column letters", () => {
+    const { mapping, errors } = sanitizeColumnMapping({
+      dataStartRow: 2,
+      fields: {
+        routeNumber: { headers: [" Route "] },
+        driver: { headers: [], fallbackColumn: "c" },
+        sequence: { headers: ["Stop"] },
+        customerName: { headers: ["Customer", ""] },
+      },
+    });
+    expect(errors).toEqual([]);
+    expect(mapping.dataStartRow).toBe(2);
+    expect(mapping.fields.routeNumber).toEqual({ headers: ["Route"] });
+    expect(mapping.fields.driver).toEqual({ headers: [], fallbackColumn: "C" });
+    expect(mapping.fields.customerName).toEqual({ headers: ["Customer"] });
+  });
+
+  it("reports unknown fields, bad columns and missing required fields", () => {
+    const { errors } = sanitizeColumnMapping({
+      fields: {
+        bogus: { headers: ["x"] },
+        routeNumber: { headers: [], fallbackColumn: "12" },
+      },
+    });
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        "Unknown field 'bogus'",
+        "Route Number: '12' is not a column letter",
+        "Driver must have a header or column",
+        "Customer Name must have a header or column",
+      ])
+    );
+  });
+});
+
+describe("parseRouteExcel with mapping profiles", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("parses a non-standard export using an auto-detected profile", async () => {
+    const buffer = buildWorkbook([
+      ["Route", "Stop", "Driver Name", "Customer", "Invoice Number", "Total"],
+      ["R-9", 1, "Maria Garcia", "Corner Market", "INV-1", 120.5],
+      ["R-9", 2, "Maria Garcia", "Blue Cafe", "INV-2", 80],
+    ]);
+
+    const result = await parseRouteExcel(buffer, {
+      profiles: [ALT_PROFILE, BUILT_IN_PROFILE],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.mappingProfile).toEqual({
+      id: "profile-alt",
+      name: "Warehouse export",
+      autoDetected: true,
+    });
+    expect(result.route?.routeNumber).toBe("R-9");
+    expect(result.route?.stops).toHaveLength(2);
+    expect(result.route?.stops[0]).toMatchObject({
+      sequence: 1,
+      customerName: "Corner Market",
+      driverName: "Maria Garcia",
+      quickbooksInvoiceNum: "INV-1",
+      amount: 120.5,
+    });
+  });
+
+  it("falls back to the built-in layout when no profiles are given", async () => {
+    const header = Array(40).fill("");
+    header[0] = "S No";
+    header[1] = "Route #";
+    header[2] = "Driver";
+    header[3] = "Customers";
+    const summary = Array(40).fill("");
+    const row = Array(40).fill("");
+    row[0] = 1;
+    row[1] = "R-1";
+    row[2] = "John Smith";
+    row[3] = "Sample Customer";
+    row[35] = "INV-35";
+    row[36] = 500;
+
+    const result = await parseRouteExcel(buildWorkbook([header, summary, row]));
+
+    expect(result.success).toBe(true);
+    expect(result.mappingProfile).toEqual({
+      id: null,
+      name: BUILT_IN_PROFILE.name,
+      autoDetected: false,
+    });
+    expect(result.route?.stops[0]).toMatchObject({
+      customerName: "Sample Customer",
+      driverName: "John Smith",
+      quickbooksInvoiceNum: "INV-35",
+      amount: 500,
+    });
+  });
+
+  it("reports the required columns an explicit profile cannot find", async () => {
+    const buffer = buildWorkbook([
+      ["Foo", "Bar"],
+      ["a", "b"],
+    ]);
+
+    const result = await parseRouteExcel(buffer, { profile: ALT_PROFILE });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("Required column 'routeNumber' not found");
+  });
+});
@@ -0,0 +1,114 @@
+/** @jest-environment node */
+import { ExistingStop, diffRoute, getStopProgress } from "../routeDiff";
+import { ParsedRoute, ParsedStop } from "../routeParser";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+function newStop(sequence: number, customerName: string, extra: Partial<ParsedStop> = {}): ParsedStop {
+  return {
+    sequence,
+    customerName,
+    driverName: "Alex",
+    isCOD: false,
+    paymentFlagCash: false,
+    paymentFlagCheck: false,
+    paymentFlagCC: false,
+    paymentFlagNotPaid: false,
+    returnFlagInitial: false,
+    ...extra,
+  };
+}
+
+function liveStop(id: string, sequence: number, customerName: string, extra: Partial<ExistingStop> = {}): ExistingStop {
+  return {
+    id,
+    sequence,
+    status: "PENDING",
+    customerNameFromUpload: customerName,
+    quickbooksInvoiceNum: null,
+    orderNumberWeb: null,
+    amount: null,
+    paymentAmountCash: 0,
+    paymentAmountCheck: 0,
+    paymentAmountCC: 0,
+    onTheWayTime: null,
+    arrivalTime: null,
+    completionTime: null,
+    invoiceImageUrls: [],
+    signedInvoicePdfUrl: null,
+    customer: { name: customerName },
+    _count: { payments: 0, returns: 0 },
+    ...extra,
+  } as ExistingStop;
+}
+
+function route(stops: ParsedStop[]): ParsedRoute {
+  return { routeNumber: "101", driverName: "Alex", date: new Date("2026-03-02"), stops };
+}
+
+describe("getStopProgress", () => {
+  it("is null for an untouched stop", () => {
+    expect(getStopProgress(liveStop("s1", 1, "Acme"))).toBeNull();
+  });
+
+  it("counts status, payments, returns and photos as progress", () => {
+    expect(getStopProgress(liveStop("s1", 1, "Acme", { status: "ARRIVED" }))?.status).toBe("ARRIVED");
+    expect(
+      getStopProgress(
+        liveStop("s1", 1, "Acme", {
+          _count: { payments: 1, returns: 2 },
+          invoiceImageUrls: ["a.jpg"],
+          signedInvoicePdfUrl: "a.pdf",
+        })
+      )
+    ).toEqual({ status: "PENDING", paymentCount: 1, returnCount: 2, photoCount: 2 });
+  });
+});
+
+describe("diffRoute", () => {
+  const existing = [
+    liveStop("s1", 1, "Acme", { quickbooksInvoiceNum: "INV-1", amount: 10 }),
+    liveStop("s2", 2, "Bolt", { status: "COMPLETED" }),
+    liveStop("s3", 3, "Crane"),
+  ];
+
+  it("lists added, missing, resequenced and changed stops", () => {
+    const diff = diffRoute(
+      "route-1",
+      route([
+        newStop(1, "Bolt"),
+        newStop(2, "Acme", { quickbooksInvoiceNum: "INV-2", amount: 10 }),
+        newStop(4, "Delta"),
+      ]),
+      existing
+    );
+
+    expect(diff.summary).toEqual({
+      added: 1,
+      removed: 1,
+      resequenced: 2,
+      changed: 1,
+      withProgress: 1,
+      protected: 1,
+    });
+
+    const acme = diff.stops.find((s) => s.customerName === "Acme");
+    expect(acme?.changes).toEqual([
+      { field: "quickbooksInvoiceNum", from: "INV-1", to: "INV-2" },
+    ]);
+    expect(diff.stops.find((s) => s.customerName === "Bolt")?.protected).toBe(true);
+    expect(diff.stops.find((s) => s.customerName === "Crane")?.kind).toBe("removed");
+    expect(diff.stops.find((s) => s.customerName === "Delta")?.kind).toBe("added");
+  });
+
+  it("falls back to sequence when the customer isn't on the live route", () => {
+    const diff = diffRoute("route-1", route([newStop(3, "Crane Co")]), existing, false);
+    const entry = diff.stops.find((s) => s.kind === "matched");
+
+    expect(entry?.stopId).toBe("s3");
+    expect(diff.summary.protected).toBe(0);
+  });
+});
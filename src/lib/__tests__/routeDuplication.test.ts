@@ -0,0 +1,147 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { findExistingRoute } from "../routeConflicts";
+import { duplicateRoute, sanitizeDuplicateOptions } from "../routeDuplication";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    route: { findFirst: jest.fn(), create: jest.fn() },
+  },
+}));
+
+jest.mock("../routeConflicts", () => ({
+  findExistingRoute: jest.fn(),
+}));
+
+const db = prisma as unknown as {
+  route: { findFirst: jest.Mock; create: jest.Mock };
+};
+const existingRoute = findExistingRoute as jest.Mock;
+
+const STOP = {
+  customerId: "customer-1",
+  sequence: 3,
+  sequenceLocked: true,
+  address: "1 Main St",
+  customerNameFromUpload: "Cafe One",
+  driverNameFromUpload: "alice",
+  initialDriverNotes: "Back door",
+  driverRemarkInitial: null,
+  returnFlagInitial: false,
+  isCOD: true,
+  paymentTerms: "NET30",
+  paymentTermsOther: null,
+  orderNumberWeb: "W-100",
+  quickbooksInvoiceNum: "INV-100",
+  amount: 250,
+  paymentFlagCash: true,
+  paymentFlagCheck: false,
+  paymentFlagCC: false,
+  paymentFlagNotPaid: false,
+  // Things that happened on the day
+  status: "COMPLETED",
+  driverNotes: "Left with manager",
+  signedInvoicePdfUrl: "/uploads/signed.pdf",
+  invoiceImageUrls: ["/uploads/photo.jpg"],
+  completionTime: new Date(),
+  totalPaymentAmount: 250,
+};
+
+const OPTIONS = {
+  date: "2999-01-05",
+  clearInvoiceNumbers: true,
+  clearAmounts: true,
+  clearPaymentFlags: true,
+};
+
+describe("sanitizeDuplicateOptions", () => {
+  it("clears everything by default and rejects past or malformed dates", () => {
+    expect(sanitizeDuplicateOptions({ date: "2999-01-05" })).toEqual({
+      options: OPTIONS,
+      errors: [],
+    });
+    expect(sanitizeDuplicateOptions({ date: "2000-01-01" }).errors).toEqual([
+      "date can't be in the past",
+    ]);
+    expect(
+      sanitizeDuplicateOptions({ date: "01/05/2999", clearAmounts: "no" }).errors
+    ).toEqual([
+      "date must be a date in YYYY-MM-DD format",
+      "clearAmounts must be true or false",
+    ]);
+  });
+});
+
+describe("duplicateRoute", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.route.findFirst.mockResolvedValue({
+      id: "route-1",
+      routeNumber: "7",
+      date: new Date("2998-12-29T08:00:00.000Z"),
+      driverId: "driver-1",
+      stops: [STOP],
+    });
+    db.route.create.mockResolvedValue({ id: "route-2" });
+    existingRoute.mockResolvedValue(null);
+  });
+
+  const copiedStop = () => db.route.create.mock.calls[0][0].data.stops.create[0];
+
+  it("copies stops, order, notes and drivers but nothing from the day itself", async () => {
+    await expect(duplicateRoute("route-1", OPTIONS, "admin-1")).resolves.toEqual({
+      routeId: "route-2",
+      stopCount: 1,
+    });
+
+    const { data } = db.route.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      routeNumber: "7",
+      driverId: "driver-1",
+      uploadedBy: "admin-1",
+      status: "PENDING",
+    });
+    expect(copiedStop()).toEqual({
+      customerId: "customer-1",
+      sequence: 3,
+      sequenceLocked: true,
+      address: "1 Main St",
+      customerNameFromUpload: "Cafe One",
+      driverNameFromUpload: "alice",
+      initialDriverNotes: "Back door",
+      driverRemarkInitial: null,
+      returnFlagInitial: false,
+      isCOD: true,
+      paymentTerms: "NET30",
+      paymentTermsOther: null,
+      status: "PENDING",
+    });
+  });
+
+  it("keeps invoice numbers, amounts and payment flags when asked to", async () => {
+    await duplicateRoute(
+      "route-1",
+      { ...OPTIONS, clearInvoiceNumbers: false, clearAmounts: false, clearPaymentFlags: false },
+      "admin-1"
+    );
+
+    expect(copiedStop()).toMatchObject({
+      orderNumberWeb: "W-100",
+      quickbooksInvoiceNum: "INV-100",
+      amount: 250,
+      paymentFlagCash: true,
+    });
+    expect(copiedStop()).not.toHaveProperty("invoiceImageUrls");
+    expect(copiedStop()).not.toHaveProperty("totalPaymentAmount");
+  });
+
+  it("refuses a date that already has the route", async () => {
+    existingRoute.mockResolvedValue({ id: "route-9" });
+
+    await expect(duplicateRoute("route-1", OPTIONS, "admin-1")).rejects.toThrow(
+      "Route 7 already exists on 2999-01-05"
+    );
+    expect(db.route.create).not.toHaveBeenCalled();
+  });
+});
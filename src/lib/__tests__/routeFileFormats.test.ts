@@ -0,0 +1,194 @@
+/** @jest-environment node */
+import {
+  decodeTextBuffer,
+  detectDelimiter,
+  detectRouteFileFormat,
+  jsonRouteToRows,
+  parseDelimitedText,
+} from "../routeFileFormats";
+import { parseRouteFile } from "../routeParser";
+import { BUILT_IN_PROFILE, MappingProfile } from "../routeColumnMapping";
+import { createPSTDate } from "../timezone";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const CSV_PROFILE: MappingProfile = {
+  id: "profile-csv",
+  name: "CSV export",
+  mapping: {
+    dataStartRow: 2,
+    fields: {
+      routeNumber: { headers: ["Route"] },
+      driver: { headers: ["Driver"] },
+      sequence: { headers: ["Stop"] },
+      customerName: { headers: ["Customer"] },
+      quickbooksInvoiceNum: { headers: ["Invoice"] },
+      amount: { headers: ["Amount"] },
+      date: { headers: ["Date"] },
+    },
+  },
+};
+
+describe("detectRouteFileFormat", () => {
+  it("uses the file extension when present", () => {
+    const empty = Buffer.from("");
+    expect(detectRouteFileFormat("route.CSV", empty)).toBe("csv");
+    expect(detectRouteFileFormat("route.json", empty)).toBe("json");
+    expect(detectRouteFileFormat("route.xlsx", empty)).toBe("xlsx");
+  });
+
+  it("sniffs the content when the name has no known extension", () => {
+    expect(detectRouteFileFormat(null, Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe("xlsx");
+    expect(detectRouteFileFormat("upload", Buffer.from('  {"routeNumber":"1"}'))).toBe("json");
+    expect(detectRouteFileFormat("upload", Buffer.from("Route,Stop\n"))).toBe("csv");
+  });
+});
+
+describe("decodeTextBuffer", () => {
+  it("strips a UTF-8 BOM", () => {
+    const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("Café")]);
+    expect(decodeTextBuffer(buffer)).toEqual({ text: "Café", encoding: "utf-8" });
+  });
+
+  it("reads UTF-16 LE and BE", () => {
+    const le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("Route", "utf16le")]);
+    expect(decodeTextBuffer(le)).toEqual({ text: "Route", encoding: "utf-16le" });
+
+    const be = Buffer.from(Buffer.from("Route", "utf16le"));
+    be.swap16();
+    expect(decodeTextBuffer(Buffer.concat([Buffer.from([0xfe, 0xff]), be]))).toEqual({
+      text: "Route",
+      encoding: "utf-16be",
+    });
+  });
+
+  it("falls back to Windows-1252 for invalid UTF-8", () => {
+    // "Café" with é as the single byte 0xE9
+    const buffer = Buffer.from([0x43, 0x61, 0x66, 0xe9]);
+    expect(decodeTextBuffer(buffer)).toEqual({ text: "Café", encoding: "windows-1252" });
+  });
+});
+
+describe("delimited text", () => {
+  it("detects the delimiter from the header line", () => {
+    expect(detectDelimiter("Route;Stop;Customer\n1;2;3")).toBe(";");
+    expect(detectDelimiter("Route\tStop\tCustomer")).toBe("\t");
+    expect(detectDelimiter('"A,B";C\n')).toBe(";");
+    expect(detectDelimiter("Route")).toBe(",");
+  });
+
+  it("handles quotes, escaped quotes, embedded newlines and blank lines", () => {
+    const rows = parseDelimitedText(
+      'Customer,Notes\r\n"Smith, Jones & Co","He said ""hi""\nthen left"\r\n\r\n007,\n',
+      ","
+    );
+    expect(rows).toEqual([
+      ["Customer", "Notes"],
+      ["Smith, Jones & Co", 'He said "hi"\nthen left'],
+      ["007", null],
+    ]);
+  });
+});
+
+describe("jsonRouteToRows", () => {
+  it("rejects payloads without routeNumber or stops", () => {
+    expect(jsonRouteToRows([]).errors).toHaveLength(1);
+    expect(jsonRouteToRows({ stops: [] }).errors).toEqual([
+      "JSON payload is missing routeNumber",
+      "JSON payload must contain a non-empty stops array",
+    ]);
+  });
+});
+
+describe("parseRouteFile", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("parses a semicolon CSV with a saved profile and keeps leading zeros", async () => {
+    const csv = [
+      "Route;Stop;Driver;Customer;Invoice;Amount;Date",
+      'R-7;1;Maria Garcia;"Corner; Market";00123;12.50;2026-01-10',
+      "R-7;2;Maria Garcia;Blue Cafe;00124;8;2026-01-10",
+    ].join("\n");
+
+    const result = await parseRouteFile(Buffer.from(csv), "route.csv", {
+      profiles: [CSV_PROFILE, BUILT_IN_PROFILE],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.source).toEqual({ format: "csv", encoding: "utf-8", delimiter: ";" });
+    expect(result.mappingProfile?.id).toBe("profile-csv");
+    expect(result.route?.routeNumber).toBe("R-7");
+    expect(result.route?.date).toEqual(createPSTDate(2026, 1, 10));
+    expect(result.route?.stops[0]).toMatchObject({
+      sequence: 1,
+      customerName: "Corner; Market",
+      driverName: "Maria Garcia",
+      quickbooksInvoiceNum: "00123",
+      amount: 12.5,
+    });
+  });
+
+  it("produces the same stops from the documented JSON payload", async () => {
+    const payload = {
+      routeNumber: "R-7",
+      date: "2026-01-10",
+      stops: [
+        {
+          sequence: 1,
+          customerName: "Corner Market",
+          driverName: "Maria Garcia",
+          quickbooksInvoiceNum: "00123",
+          amount: 12.5,
+          isCOD: true,
+          paymentFlagCash: true,
+          returnFlagInitial: true,
+          paymentAmountCash: 12.5,
+        },
+        { sequence: 2, customerName: "Blue Cafe", driverName: "Maria Garcia" },
+      ],
+    };
+
+    const result = await parseRouteFile(Buffer.from(JSON.stringify(payload)), "route.json", {
+      profiles: [CSV_PROFILE],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.source).toEqual({ format: "json" });
+    expect(result.mappingProfile?.name).toBe("JSON payload");
+    expect(result.route?.stops).toHaveLength(2);
+    expect(result.route?.stops[0]).toMatchObject({
+      sequence: 1,
+      customerName: "Corner Market",
+      quickbooksInvoiceNum: "00123",
+      amount: 12.5,
+      isCOD: true,
+      paymentFlagCash: true,
+      paymentFlagCheck: false,
+      paymentFlagNotPaid: false,
+      returnFlagInitial: true,
+      paymentAmountCash: 12.5,
+      totalPaymentAmount: 12.5,
+    });
+    expect(result.route?.stops[1]).toMatchObject({
+      isCOD: false,
+      paymentFlagNotPaid: true,
+      returnFlagInitial: false,
+    });
+  });
+
+  it("reports malformed JSON", async () => {
+    const result = await parseRouteFile(Buffer.from("{ nope"), "route.json");
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
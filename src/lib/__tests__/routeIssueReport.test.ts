@@ -0,0 +1,64 @@
+/** @jest-environment node */
+import * as XLSX from "xlsx-js-style";
+import { buildAnnotatedWorkbook, ISSUE_SHEET_NAME } from "../routeIssueReport";
+import type { RouteParseIssue } from "../routeParser";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const issue = (overrides: Partial<RouteParseIssue>): RouteParseIssue => ({
+  severity: "warning",
+  code: "INVALID_SEQUENCE",
+  message: "Row 3: Invalid sequence number",
+  sheet: null,
+  row: 3,
+  column: "B",
+  header: "Stop",
+  ...overrides,
+});
+
+describe("buildAnnotatedWorkbook", () => {
+  it("marks flagged rows and cells of a CSV upload and lists every issue", () => {
+    const csv = Buffer.from("Route,Stop,Customer\nR-1,1,Corner Market\nR-1,x,Blue Cafe\n");
+
+    const buffer = buildAnnotatedWorkbook(csv, "csv", [
+      issue({}),
+      issue({ severity: "error", code: "NO_STOPS", message: "No stops", row: null, column: null }),
+    ]);
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+
+    expect(workbook.SheetNames).toEqual(["Route", ISSUE_SHEET_NAME]);
+
+    const sheet = workbook.Sheets.Route;
+    expect(sheet.D1.v).toBe("Upload Issues");
+    expect(sheet.D3.v).toBe("Row 3: Invalid sequence number");
+    expect(sheet.D2).toBeUndefined();
+    expect(sheet.B3.c?.[0].t).toBe("Row 3: Invalid sequence number");
+
+    const summary = XLSX.utils.sheet_to_json<Record<string, unknown>>(
+      workbook.Sheets[ISSUE_SHEET_NAME]
+    );
+    expect(summary).toEqual([
+      expect.objectContaining({ Severity: "Warning", Code: "INVALID_SEQUENCE", Sheet: "Route", Row: 3 }),
+      expect.objectContaining({ Severity: "Error", Code: "NO_STOPS", Message: "No stops" }),
+    ]);
+  });
+
+  it("annotates the named sheet of a workbook", () => {
+    const source = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(source, XLSX.utils.aoa_to_sheet([["Route"], ["R-1"]]), "North");
+    XLSX.utils.book_append_sheet(source, XLSX.utils.aoa_to_sheet([["Route", "Stop"], ["R-2", "y"]]), "South");
+    const xlsx = XLSX.write(source, { type: "buffer", bookType: "xlsx" }) as Buffer;
+
+    const buffer = buildAnnotatedWorkbook(xlsx, "xlsx", [
+      issue({ sheet: "South", row: 2, column: "B", message: "bad stop" }),
+    ]);
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+
+    expect(workbook.Sheets.North.B1).toBeUndefined();
+    expect(workbook.Sheets.South.C2.v).toBe("bad stop");
+    expect(workbook.Sheets.South["!ref"]).toBe("A1:C2");
+  });
+});
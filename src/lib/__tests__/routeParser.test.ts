@@ -0,0 +1,185 @@
+/** @jest-environment node */
+import * as XLSX from "xlsx";
+import { parseRouteExcel, parseRouteFile } from "../routeParser";
+import { MappingProfile } from "../routeColumnMapping";
+import { createPSTDate } from "../timezone";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const PROFILE: MappingProfile = {
+  id: "profile-simple",
+  name: "Simple export",
+  mapping: {
+    dataStartRow: 2,
+    fields: {
+      routeNumber: { headers: ["Route"] },
+      driver: { headers: ["Driver"] },
+      sequence: { headers: ["Stop"] },
+      customerName: { headers: ["Customer"] },
+      date: { headers: ["Date"] },
+    },
+  },
+};
+
+const HEADER = ["Route", "Date", "Stop", "Driver", "Customer"];
+
+function buildWorkbook(sheets: Record<string, unknown[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("multi-route uploads", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reads every sheet and skips sheets that aren't route sheets", async () => {
+    const buffer = buildWorkbook({
+      North: [
+        HEADER,
+        ["R-1", "2026-01-10", 1, "Maria Garcia", "Corner Market"],
+        ["R-1", "2026-01-10", 2, "Maria Garcia", "Blue Cafe"],
+      ],
+      South: [
+        HEADER,
+        ["R-2", "2026-01-10", 1, "John Smith", "Harbor Deli"],
+      ],
+      Notes: [["Remember to call ahead"], ["and bring ice"]],
+    });
+
+    const result = await parseRouteExcel(buffer, { profile: PROFILE });
+
+    expect(result.success).toBe(true);
+    expect(result.routes?.map((r) => r.key)).toEqual([
+      "R-1|2026-01-10",
+      "R-2|2026-01-10",
+    ]);
+    expect(result.routes?.[0].sheetNames).toEqual(["North"]);
+    expect(result.routes?.[0].route.stops).toHaveLength(2);
+    expect(result.routes?.[1].route.driverName).toBe("John Smith");
+    expect(result.route).toBe(result.routes?.[0].route);
+    expect(result.sheets?.map((s) => [s.name, s.stopCount])).toEqual([
+      ["North", 2],
+      ["South", 1],
+      ["Notes", 0],
+    ]);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('Sheet "Notes" skipped'),
+    ]);
+  });
+
+  it("splits one sheet by route number and date, carrying values down", async () => {
+    const csv = [
+      "Route,Date,Stop,Driver,Customer",
+      "R-1,2026-01-10,1,Maria Garcia,Corner Market",
+      ",,2,Maria Garcia,Blue Cafe",
+      "R-1,2026-01-11,1,Maria Garcia,Corner Market",
+      "R-3,,1,John Smith,Harbor Deli",
+      ",,x,John Smith,Bad Row",
+    ].join("\n");
+
+    const result = await parseRouteFile(Buffer.from(csv), "routes.csv", { profile: PROFILE });
+
+    expect(result.success).toBe(true);
+    expect(
+      result.routes?.map((r) => [r.key, r.route.stops.map((s) => s.customerName)])
+    ).toEqual([
+      ["R-1|2026-01-10", ["Corner Market", "Blue Cafe"]],
+      ["R-1|2026-01-11", ["Corner Market"]],
+      ["R-3|2026-01-11", ["Harbor Deli"]],
+    ]);
+    expect(result.routes?.[1].route.date).toEqual(createPSTDate(2026, 1, 11));
+    // The bad row's warning is attached to the route it sits in
+    expect(result.routes?.[2].warnings).toEqual([
+      'Row 6: Invalid sequence number: "x"',
+    ]);
+    expect(result.sheets).toBeUndefined();
+  });
+
+  it("numbers stops without a stop number within their own route", async () => {
+    const csv = [
+      "Route,Date,Stop,Driver,Customer",
+      "R-1,2026-01-10,1,Maria Garcia,Corner Market",
+      "R-1,2026-01-10,2,Maria Garcia,Blue Cafe",
+      "R-1,2026-01-10,3,Maria Garcia,Harbor Deli",
+      "R-2,2026-01-10,1,John Smith,Main St Grocery",
+      "R-2,2026-01-10,,John Smith,Sunset Market",
+    ].join("\n");
+
+    const result = await parseRouteFile(Buffer.from(csv), "routes.csv", { profile: PROFILE });
+
+    expect(result.routes?.[1].route.stops.map((s) => s.sequence)).toEqual([1, 2]);
+    expect(result.warnings).toEqual([
+      "Row 6: Invalid sequence number for customer Sunset Market",
+    ]);
+  });
+
+  it("still fails a single-sheet upload with missing columns", async () => {
+    const buffer = buildWorkbook({ Only: [["Foo"], ["bar"]] });
+
+    const result = await parseRouteExcel(buffer, { profile: PROFILE });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("Required column 'routeNumber' not found");
+  });
+});
+
+describe("upload issues", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("ties each warning to its sheet row and column, counting blank rows", async () => {
+    const buffer = buildWorkbook({
+      Routes: [
+        HEADER,
+        ["R-1", "2026-01-10", 1, "Maria Garcia", "Corner Market"],
+        [],
+        ["R-1", "2026-01-10", "x", "Maria Garcia", "Blue Cafe"],
+      ],
+    });
+
+    const result = await parseRouteExcel(buffer, { profile: PROFILE });
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toEqual([
+      {
+        severity: "warning",
+        code: "INVALID_SEQUENCE",
+        message: 'Row 4: Invalid sequence number: "x"',
+        sheet: "Routes",
+        row: 4,
+        column: "C",
+        header: "Stop",
+      },
+    ]);
+    expect(result.warnings).toEqual([result.issues[0].message]);
+  });
+
+  it("reports file-level errors without a location", async () => {
+    const result = await parseRouteFile(Buffer.from("{ nope"), "route.json");
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      severity: "error",
+      code: "INVALID_JSON",
+      row: null,
+      column: null,
+    });
+  });
+});
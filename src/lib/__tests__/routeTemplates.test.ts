@@ -0,0 +1,182 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { findExistingRoute } from "../routeConflicts";
+import {
+  generateRoutesFromTemplate,
+  sanitizeRouteTemplate,
+  templateRunDates,
+} from "../routeTemplates";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    routeTemplate: { findFirst: jest.fn() },
+    route: { create: jest.fn() },
+  },
+}));
+
+jest.mock("../routeConflicts", () => ({
+  findExistingRoute: jest.fn(),
+}));
+
+const db = prisma as unknown as {
+  routeTemplate: { findFirst: jest.Mock };
+  route: { create: jest.Mock };
+};
+const mockFindExistingRoute = findExistingRoute as jest.Mock;
+
+describe("templateRunDates", () => {
+  it("lists the matching weekdays in the range, inclusive", () => {
+    // 2026-11-02 is a Monday
+    expect(templateRunDates([1, 3], "2026-11-02", "2026-11-11")).toEqual([
+      "2026-11-02",
+      "2026-11-04",
+      "2026-11-09",
+      "2026-11-11",
+    ]);
+  });
+
+  it("does not skip or repeat a day across the DST change", () => {
+    expect(templateRunDates([0, 1], "2026-10-31", "2026-11-02")).toEqual([
+      "2026-11-01",
+      "2026-11-02",
+    ]);
+  });
+
+  it("rejects reversed, malformed and over-long ranges", () => {
+    expect(() => templateRunDates([1], "2026-11-10", "2026-11-01")).toThrow("on or after");
+    expect(() => templateRunDates([1], "11/01/2026", "2026-11-10")).toThrow("YYYY-MM-DD");
+    expect(() => templateRunDates([1], "2026-01-01", "2026-06-01")).toThrow("at most");
+  });
+});
+
+describe("sanitizeRouteTemplate", () => {
+  it("keeps stop order and de-duplicates weekdays", () => {
+    const { template, errors } = sanitizeRouteTemplate({
+      name: " Valley run ",
+      routeNumber: "12",
+      weekdays: [4, 2, 2],
+      stops: [{ customerId: "c2", isCOD: true }, { customerId: "c1", initialDriverNotes: " Back door " }],
+    });
+
+    expect(errors).toEqual([]);
+    expect(template.name).toBe("Valley run");
+    expect(template.weekdays).toEqual([2, 4]);
+    expect(template.driverId).toBeNull();
+    expect(template.stops).toEqual([
+      { customerId: "c2", initialDriverNotes: null, isCOD: true },
+      { customerId: "c1", initialDriverNotes: "Back door", isCOD: false },
+    ]);
+  });
+
+  it("reports missing fields, bad weekdays and repeated customers", () => {
+    const { errors } = sanitizeRouteTemplate({
+      weekdays: [7],
+      stops: [{ customerId: "c1" }, { customerId: "c1" }],
+    });
+
+    expect(errors).toEqual([
+      expect.stringContaining("name is required"),
+      "routeNumber is required",
+      expect.stringContaining("weekdays"),
+      "Stop 2: customer is already on the template",
+    ]);
+  });
+});
+
+describe("generateRoutesFromTemplate", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.routeTemplate.findFirst.mockResolvedValue({
+      id: "t1",
+      name: "Valley run",
+      routeNumber: "12",
+      weekdays: [1],
+      isActive: true,
+      driver: { id: "d1", username: "jmartinez", isDeleted: false },
+      stops: [
+        {
+          customerId: "c1",
+          initialDriverNotes: "Back door",
+          isCOD: true,
+          customer: { name: "Corner Market", address: "1 Main St", isDeleted: false },
+        },
+        {
+          customerId: "c2",
+          initialDriverNotes: null,
+          isCOD: false,
+          customer: { name: "Closed Deli", address: "2 Main St", isDeleted: true },
+        },
+      ],
+    });
+    db.route.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: `r-${data.stops.create.length}` })
+    );
+  });
+
+  it("creates a route per run day and skips days that already have one", async () => {
+    mockFindExistingRoute
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "existing" });
+
+    const result = await generateRoutesFromTemplate("t1", "2026-11-02", "2026-11-09", "admin1");
+
+    expect(result.created).toEqual([{ date: "2026-11-02", routeId: "r-1", stopCount: 1 }]);
+    expect(result.skipped).toEqual([
+      expect.objectContaining({ date: "2026-11-09", routeId: "existing" }),
+    ]);
+
+    const { data } = db.route.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      routeNumber: "12",
+      driverId: "d1",
+      uploadedBy: "admin1",
+      templateId: "t1",
+      status: "PENDING",
+    });
+    // Deleted customers are left off
+    expect(data.stops.create).toEqual([
+      expect.objectContaining({
+        customerId: "c1",
+        sequence: 1,
+        customerNameFromUpload: "Corner Market",
+        driverNameFromUpload: "jmartinez",
+        initialDriverNotes: "Back door",
+        isCOD: true,
+      }),
+    ]);
+  });
+
+  it("puts the template's notes ahead of each stop's driver notes", async () => {
+    const template = await db.routeTemplate.findFirst();
+    db.routeTemplate.findFirst.mockResolvedValue({
+      ...template,
+      notes: "Use the liftgate truck",
+      stops: [
+        template.stops[0],
+        { ...template.stops[1], customer: { ...template.stops[1].customer, isDeleted: false } },
+      ],
+    });
+    mockFindExistingRoute.mockResolvedValue(null);
+
+    await generateRoutesFromTemplate("t1", "2026-11-02", "2026-11-02", "admin1");
+
+    const { data } = db.route.create.mock.calls[0][0];
+    const notes = data.stops.create.map(
+      (stop: { initialDriverNotes: string | null }) => stop.initialDriverNotes
+    );
+    expect(notes).toEqual([
+      "Use the liftgate truck\nBack door",
+      "Use the liftgate truck",
+    ]);
+  });
+
+  it("refuses inactive templates", async () => {
+    db.routeTemplate.findFirst.mockResolvedValue({ isActive: false, stops: [] });
+
+    await expect(
+      generateRoutesFromTemplate("t1", "2026-11-02", "2026-11-09", "admin1")
+    ).rejects.toThrow("inactive");
+    expect(db.route.create).not.toHaveBeenCalled();
+  });
+});
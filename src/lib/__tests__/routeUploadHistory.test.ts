@@ -0,0 +1,184 @@
+/** @jest-environment node */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import db from "../db";
+import {
+  readRouteUploadFile,
+  rollbackRouteUpload,
+  snapshotStop,
+  storeRouteUploadFile,
+} from "../routeUploadHistory";
+
+jest.mock("../db", () => {
+  const db = {
+    $transaction: jest.fn(),
+    routeUploadChange: { findMany: jest.fn() },
+    routeUpload: { update: jest.fn() },
+    route: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    stop: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    stopOrderLine: { updateMany: jest.fn(), createMany: jest.fn() },
+    adminNote: { createMany: jest.fn() },
+    safetyCheck: { createMany: jest.fn() },
+  };
+  return { __esModule: true, default: db };
+});
+
+const mockDb = db as unknown as {
+  $transaction: jest.Mock;
+  routeUploadChange: { findMany: jest.Mock };
+  stop: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  stopOrderLine: { updateMany: jest.Mock; createMany: jest.Mock };
+  route: { create: jest.Mock };
+};
+
+const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "route-uploads-"));
+
+beforeAll(() => {
+  process.env.ROUTE_UPLOAD_STORAGE_DIR = storageDir;
+});
+
+afterAll(() => {
+  delete process.env.ROUTE_UPLOAD_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe("route upload source files", () => {
+  it("stores and reads back a file under the upload's folder", async () => {
+    const buffer = Buffer.from("Route,Customer\n101,Acme\n");
+    const stored = await storeRouteUploadFile("upload-1", "../Monday routes.csv", buffer);
+
+    expect(stored.storedFilePath).toBe("upload-1/Monday routes.csv");
+    expect(stored.fileSize).toBe(buffer.length);
+    expect(await readRouteUploadFile(stored.storedFilePath)).toEqual(buffer);
+  });
+
+  it("refuses paths outside the storage directory", async () => {
+    expect(await readRouteUploadFile("../../etc/passwd")).toBeNull();
+    expect(await readRouteUploadFile("missing/file.csv")).toBeNull();
+  });
+});
+
+describe("snapshotStop", () => {
+  it("keeps scalar columns and the driver progress at upload time", () => {
+    const snapshot = snapshotStop({
+      id: "stop-1",
+      sequence: 2,
+      status: "COMPLETED",
+      customerNameFromUpload: "Acme",
+      quickbooksInvoiceNum: "INV-1",
+      orderNumberWeb: null,
+      amount: 12.5,
+      paymentAmountCash: 0,
+      paymentAmountCheck: 0,
+      paymentAmountCC: 0,
+      onTheWayTime: null,
+      arrivalTime: null,
+      completionTime: new Date("2026-03-02T18:00:00Z"),
+      invoiceImageUrls: [],
+      signedInvoicePdfUrl: null,
+      customer: { name: "Acme" },
+      _count: { payments: 1, returns: 0 },
+    });
+
+    expect(snapshot.stop).not.toHaveProperty("customer");
+    expect(snapshot.stop).not.toHaveProperty("_count");
+    expect(snapshot.stop.completionTime).toBe("2026-03-02T18:00:00.000Z");
+    expect(snapshot.progress).toEqual({
+      status: "COMPLETED",
+      paymentCount: 1,
+      returnCount: 0,
+      photoCount: 0,
+    });
+  });
+});
+
+describe("rollbackRouteUpload", () => {
+  const pendingStop = {
+    id: "stop-1",
+    routeId: "route-1",
+    status: "PENDING",
+    customerNameFromUpload: "Acme",
+    invoiceImageUrls: [],
+    signedInvoicePdfUrl: null,
+    customer: { name: "Acme" },
+    _count: { payments: 0, returns: 0 },
+  };
+  const line = { id: "line-1", stopId: "stop-1", description: "Flour", orderedQty: 4 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(db));
+  });
+
+  it("brings back the order lines a merge upload replaced", async () => {
+    mockDb.routeUploadChange.findMany.mockResolvedValue([
+      {
+        routeId: "route-1",
+        stopId: "stop-1",
+        entityType: "STOP",
+        changeType: "UPDATED",
+        snapshot: {
+          stop: { id: "stop-1", sequence: 1 },
+          orderLines: [line],
+          progress: null,
+        },
+      },
+    ]);
+    mockDb.stop.findUnique.mockResolvedValue({ ...pendingStop, isDeleted: false });
+
+    const result = await rollbackRouteUpload("upload-1", "admin-1");
+
+    expect(result.stopsRestored).toBe(1);
+    expect(mockDb.stopOrderLine.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { stopId: "stop-1", isDeleted: false },
+      data: { isDeleted: true },
+    });
+    expect(mockDb.stopOrderLine.updateMany).toHaveBeenNthCalledWith(2, {
+      where: { id: { in: ["line-1"] } },
+      data: { isDeleted: false },
+    });
+  });
+
+  it("leaves order lines alone when the upload didn't replace them", async () => {
+    mockDb.routeUploadChange.findMany.mockResolvedValue([
+      {
+        routeId: "route-1",
+        stopId: "stop-1",
+        entityType: "STOP",
+        changeType: "UPDATED",
+        snapshot: { stop: { id: "stop-1", sequence: 1 }, progress: null },
+      },
+    ]);
+    mockDb.stop.findUnique.mockResolvedValue({ ...pendingStop, isDeleted: false });
+
+    await rollbackRouteUpload("upload-1", "admin-1");
+
+    expect(mockDb.stopOrderLine.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("recreates the order lines of stops on a replaced route", async () => {
+    mockDb.routeUploadChange.findMany.mockResolvedValue([
+      {
+        routeId: "route-1",
+        stopId: null,
+        entityType: "ROUTE",
+        changeType: "DELETED",
+        snapshot: { route: { id: "route-1", routeNumber: "101" } },
+      },
+      {
+        routeId: "route-1",
+        stopId: "stop-1",
+        entityType: "STOP",
+        changeType: "DELETED",
+        snapshot: { stop: { id: "stop-1" }, orderLines: [line], progress: null },
+      },
+    ]);
+
+    const result = await rollbackRouteUpload("upload-1", "admin-1");
+
+    expect(result.routesRestored).toBe(1);
+    expect(mockDb.stop.create).toHaveBeenCalledWith({ data: { id: "stop-1" } });
+    expect(mockDb.stopOrderLine.createMany).toHaveBeenCalledWith({ data: [line] });
+  });
+});
@@ -0,0 +1,173 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { checkRouteWindows, projectRouteEtas } from "../stopEtas";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    route: { findFirst: jest.fn() },
+    stop: { findMany: jest.fn() },
+    customer: { findMany: jest.fn() },
+    driverLocation: { findMany: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  route: { findFirst: jest.Mock };
+  stop: { findMany: jest.Mock };
+  customer: { findMany: jest.Mock };
+  driverLocation: { findMany: jest.Mock };
+};
+
+// A Monday, 7:00 AM PDT
+const MONDAY = "2026-07-13";
+const at = (time: string) => new Date(`${MONDAY}T${time}:00-07:00`);
+// Points along a line heading east, about 0.92 km apart
+const point = (step: number) => ({ latitude: 34, longitude: -118 + step * 0.01 });
+
+const routeStop = (id: string, customerId: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  customerId,
+  status: "PENDING",
+  onTheWayTime: null,
+  arrivalTime: null,
+  completionTime: null,
+  driverNameFromUpload: null,
+  customer: { name: customerId, closedWeekdays: [], receivingWindows: [] },
+  ...overrides,
+});
+
+const mockRoute = (stops: ReturnType<typeof routeStop>[]) =>
+  db.route.findFirst.mockResolvedValue({
+    id: "r1",
+    date: new Date(`${MONDAY}T12:00:00Z`),
+    driver: { username: "ana" },
+    stops,
+  });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.DEPOT_LOCATION;
+  delete process.env.ROUTE_START_TIME;
+  db.customer.findMany.mockResolvedValue([]);
+  db.stop.findMany.mockResolvedValue([]);
+  db.driverLocation.findMany.mockResolvedValue([]);
+});
+
+describe("projectRouteEtas", () => {
+  it("uses dwell and travel times learned from past routes", async () => {
+    mockRoute([routeStop("s1", "c1"), routeStop("s2", "c2")]);
+    const pastVisit = (
+      routeId: string,
+      sequence: number,
+      customerId: string,
+      [onTheWay, arrival, completion]: string[]
+    ) => ({
+      routeId,
+      sequence,
+      customerId,
+      driverNameFromUpload: "Ana",
+      onTheWayTime: at(onTheWay),
+      arrivalTime: at(arrival),
+      completionTime: at(completion),
+    });
+    db.stop.findMany
+      // No completion fixes to learn delivery points from
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        pastVisit("h1", 1, "c1", ["07:40", "08:00", "08:20"]),
+        pastVisit("h1", 2, "c2", ["08:20", "08:32", "08:42"]),
+        pastVisit("h2", 1, "c1", ["07:40", "08:00", "08:20"]),
+        pastVisit("h2", 2, "c2", ["08:20", "08:28", "08:38"]),
+      ]);
+
+    const projection = await projectRouteEtas("r1", new Date("2026-07-10T12:00:00Z"));
+
+    expect(projection.stops).toEqual([
+      expect.objectContaining({
+        stopId: "s1",
+        // Typical leg (median of 20, 12, 20 and 8 minutes) from the 7:00 start
+        projectedArrival: at("07:16").toISOString(),
+        travelMinutes: 16,
+        dwellMinutes: 20,
+        basis: "default",
+      }),
+      expect.objectContaining({
+        stopId: "s2",
+        // The c1 to c2 drive took 12 and 8 minutes before
+        projectedArrival: at("07:46").toISOString(),
+        travelMinutes: 10,
+        dwellMinutes: 10,
+        basis: "history",
+      }),
+    ]);
+  });
+
+  it("follows the driver's latest position to the stop they're heading to", async () => {
+    mockRoute([
+      routeStop("s1", "c1", { status: "COMPLETED", arrivalTime: at("09:15"), completionTime: at("09:30") }),
+      routeStop("s2", "c2", { status: "ON_THE_WAY", onTheWayTime: at("09:30") }),
+      routeStop("s3", "c3"),
+    ]);
+    db.customer.findMany.mockResolvedValue([{ id: "c2", ...point(10), geocodeStatus: "OK" }]);
+    db.driverLocation.findMany.mockResolvedValue([
+      { ...point(0), timestamp: at("09:59"), driver: { username: "ana", fullName: null } },
+    ]);
+
+    const projection = await projectRouteEtas("r1", at("10:00"));
+    const [heading, next] = projection.stops;
+
+    expect(heading).toMatchObject({ stopId: "s2", basis: "live" });
+    // About 9.2 km at the default 35 km/h, stretched for roads
+    const minutes = (new Date(heading.projectedArrival).getTime() - at("09:59").getTime()) / 60000;
+    expect(minutes).toBeGreaterThan(20);
+    expect(minutes).toBeLessThan(21);
+    expect(next).toMatchObject({ stopId: "s3", basis: "default" });
+    expect(new Date(next.projectedArrival).getTime()).toBe(
+      new Date(heading.projectedDeparture).getTime() + 15 * 60000
+    );
+  });
+});
+
+describe("checkRouteWindows", () => {
+  const customer = (name: string, opensAt: string, closesAt: string) => ({
+    name,
+    closedWeekdays: [],
+    receivingWindows: [{ weekday: 1, opensAt, closesAt }],
+  });
+
+  it("projects each stop in sequence and flags the ones that will be missed", async () => {
+    mockRoute([
+      routeStop("s1", "c1", { customer: customer("Early Bird", "07:00", "07:30") }),
+      routeStop("s2", "c2", { customer: customer("Tight Dock", "07:00", "07:30") }),
+      routeStop("s3", "c3", { customer: { name: "Shut", closedWeekdays: [1], receivingWindows: [] } }),
+    ]);
+
+    const result = await checkRouteWindows("r1", new Date("2026-07-10T12:00:00Z"));
+
+    expect(result.checks.map((check) => [check.stopId, check.verdict])).toEqual([
+      ["s1", "OK"],
+      ["s2", "LATE"],
+      ["s3", "CLOSED"],
+    ]);
+    // 7:00 start + 15 min drive
+    expect(result.checks[0].projectedArrival).toBe(at("07:15").toISOString());
+    expect(result.flagged).toBe(2);
+  });
+
+  it("skips routes from past days", async () => {
+    mockRoute([]);
+
+    expect(await checkRouteWindows("r1", new Date("2026-07-20T12:00:00Z"))).toEqual({
+      routeId: "r1",
+      checks: [],
+      flagged: 0,
+    });
+  });
+
+  it("throws for an unknown route", async () => {
+    db.route.findFirst.mockResolvedValue(null);
+
+    await expect(checkRouteWindows("missing")).rejects.toThrow("Route not found");
+  });
+});
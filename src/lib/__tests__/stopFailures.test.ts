@@ -0,0 +1,132 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { resolveFailure, sanitizeFailureReason } from "../stopFailures";
+import { transitionError } from "@/utils/stopStatus";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    stopFailureReason: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  stopFailureReason: { findUnique: jest.Mock };
+};
+
+const REFUSED = {
+  id: "reason-1",
+  code: "REFUSED",
+  label: "Delivery refused",
+  requiresPhoto: true,
+  isActive: true,
+};
+
+describe("transitionError", () => {
+  it("lets drivers move a stop forward or fail it, but not skip or reopen", () => {
+    expect(transitionError("PENDING", "ON_THE_WAY", "driver")).toBeNull();
+    expect(transitionError("ARRIVED", "FAILED", "driver")).toBeNull();
+    expect(transitionError("PENDING", "COMPLETED", "driver")).toBe(
+      "A stop can't go from Pending to Completed"
+    );
+    expect(transitionError("COMPLETED", "ARRIVED", "driver")).not.toBeNull();
+    expect(transitionError("FAILED", "PENDING", "driver")).not.toBeNull();
+  });
+
+  it("lets admins correct and retry stops but not jump out of a finished status", () => {
+    expect(transitionError("COMPLETED", "ARRIVED", "admin")).toBeNull();
+    expect(transitionError("FAILED", "PENDING", "admin")).toBeNull();
+    expect(transitionError("ARRIVED", "CANCELLED", "admin")).toBeNull();
+    expect(transitionError("FAILED", "COMPLETED", "admin")).toBe(
+      "A stop can't go from Failed to Completed"
+    );
+  });
+
+  it("allows staying in the same status and rejects unknown ones", () => {
+    expect(transitionError("COMPLETED", "COMPLETED", "driver")).toBeNull();
+    expect(transitionError("PENDING", "DELIVERED", "admin")).toBe("Invalid status");
+  });
+});
+
+describe("resolveFailure", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.stopFailureReason.findUnique.mockResolvedValue(REFUSED);
+  });
+
+  it("requires a known, active reason", async () => {
+    await expect(resolveFailure(undefined, "driver", "stop-1")).rejects.toThrow(
+      "A failure reason is required"
+    );
+
+    db.stopFailureReason.findUnique.mockResolvedValue({ ...REFUSED, isActive: false });
+    await expect(resolveFailure({ reasonCode: "REFUSED" }, "driver", "stop-1")).rejects.toThrow(
+      "Unknown failure reason: REFUSED"
+    );
+  });
+
+  it("makes drivers attach a photo when the reason asks for one", async () => {
+    await expect(resolveFailure({ reasonCode: "REFUSED" }, "driver", "stop-1")).rejects.toThrow(
+      'A photo is required for "Delivery refused"'
+    );
+
+    await expect(
+      resolveFailure(
+        {
+          reasonCode: "REFUSED",
+          notes: "  Manager turned us away ",
+          photoUrls: ["/uploads/failures/stop-1_1700000000000.jpg"],
+        },
+        "driver",
+        "stop-1"
+      )
+    ).resolves.toEqual({
+      failureReasonId: "reason-1",
+      failureNotes: "Manager turned us away",
+      failurePhotoUrls: ["/uploads/failures/stop-1_1700000000000.jpg"],
+    });
+  });
+
+  it("only takes photos uploaded for the stop", async () => {
+    for (const url of [
+      "https://example.com/a.jpg",
+      "/uploads/failures/stop-2_1700000000000.jpg",
+      "/uploads/returns/stop-1_1700000000000.jpg",
+      "/uploads/failures/stop-1_/../../secret.jpg",
+    ]) {
+      await expect(
+        resolveFailure({ reasonCode: "REFUSED", photoUrls: [url] }, "driver", "stop-1")
+      ).rejects.toThrow("photoUrls must be photos uploaded for this stop");
+    }
+  });
+
+  it("lets admins record a failure without a photo", async () => {
+    await expect(resolveFailure({ reasonCode: "REFUSED" }, "admin", "stop-1")).resolves.toEqual({
+      failureReasonId: "reason-1",
+      failureNotes: null,
+      failurePhotoUrls: [],
+    });
+  });
+});
+
+describe("sanitizeFailureReason", () => {
+  it("normalizes the code and requires a label when creating", () => {
+    expect(
+      sanitizeFailureReason({ code: " wrong address ", label: "Wrong address" }, { creating: true })
+    ).toEqual({ reason: { code: "WRONG_ADDRESS", label: "Wrong address" }, errors: [] });
+
+    expect(sanitizeFailureReason({ code: "9x" }, { creating: true }).errors).toEqual([
+      "code must be letters, numbers and underscores, e.g. NO_RECEIVER",
+      "label is required",
+    ]);
+  });
+
+  it("ignores the code on update and checks the other fields", () => {
+    expect(
+      sanitizeFailureReason(
+        { code: "OTHER", isActive: false, sortOrder: 1.5 },
+        { creating: false }
+      )
+    ).toEqual({ reason: { isActive: false }, errors: ["sortOrder must be a whole number"] });
+  });
+});
@@ -0,0 +1,195 @@
+/** @jest-environment node */
+import prisma from "../db";
+import {
+  getStopShortages,
+  orderLineCreateData,
+  parseOrderLinesCell,
+  recordDeliveredQuantities,
+  sanitizeOrderLine,
+} from "../stopOrderLines";
+import { parseRouteFile } from "../routeParser";
+
+jest.mock("../db", () => {
+  const db = {
+    stop: { findFirst: jest.fn() },
+    stopOrderLine: { findMany: jest.fn(), update: jest.fn() },
+    product: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((operations: unknown[]) => Promise.all(operations));
+  return { __esModule: true, default: db };
+});
+
+const db = prisma as unknown as {
+  stop: { findFirst: jest.Mock };
+  stopOrderLine: { findMany: jest.Mock; update: jest.Mock };
+  product: { findMany: jest.Mock };
+};
+
+const LINE = {
+  id: "line-1",
+  productId: "product-1",
+  sku: "MLK-1G",
+  description: "Whole milk 1 gal",
+  unit: "cs",
+  orderedQty: 4,
+  unitPrice: 3.25,
+  deliveredQty: null,
+  shortReason: null,
+  sortOrder: 0,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.stop.findFirst.mockResolvedValue({ status: "ARRIVED" });
+  db.stopOrderLine.findMany.mockResolvedValue([LINE]);
+});
+
+describe("parseOrderLinesCell", () => {
+  it("reads the route sheet text format", () => {
+    expect(parseOrderLinesCell("MLK-1G x 4 cs @ 3.25; EGG-30 x2\nBAD LINE")).toEqual({
+      lines: [
+        { sku: "MLK-1G", description: null, orderedQty: 4, unit: "cs", unitPrice: 3.25 },
+        { sku: "EGG-30", description: null, orderedQty: 2, unit: null, unitPrice: null },
+      ],
+      errors: ['Can\'t read order line "BAD LINE" (expected "SKU x QTY [UNIT] [@ PRICE]")'],
+    });
+  });
+
+  it("reads a JSON lines array and reports bad entries", () => {
+    const { lines, errors } = parseOrderLinesCell([
+      { sku: "MLK-1G", orderedQty: 4 },
+      { description: "Mystery box", orderedQty: 0 },
+    ]);
+    expect(lines).toEqual([
+      { sku: "MLK-1G", orderedQty: 4, unitPrice: null },
+    ]);
+    expect(errors).toEqual(["Line 2: orderedQty must be a whole number above 0"]);
+  });
+});
+
+describe("sanitizeOrderLine", () => {
+  it("needs a sku or description unless it's an update", () => {
+    expect(sanitizeOrderLine({ orderedQty: 2 }).errors).toEqual([
+      "Each line needs a sku or a description",
+    ]);
+    expect(sanitizeOrderLine({ orderedQty: 3 }, { partial: true })).toEqual({
+      line: { orderedQty: 3 },
+      errors: [],
+    });
+  });
+});
+
+describe("orderLineCreateData", () => {
+  it("fills the description and unit from the matching product", async () => {
+    db.product.findMany.mockResolvedValue([
+      { id: "product-1", sku: "MLK-1G", name: "Whole milk 1 gal", unit: "cs" },
+    ]);
+
+    const data = await orderLineCreateData(prisma, [
+      { sku: "MLK-1G", description: null, orderedQty: 4, unit: null, unitPrice: 3.25 },
+      { sku: "NEW-1", description: null, orderedQty: 1, unit: null, unitPrice: null },
+    ]);
+
+    expect(data).toEqual([
+      {
+        product: { connect: { id: "product-1" } },
+        sku: "MLK-1G",
+        description: "Whole milk 1 gal",
+        unit: "cs",
+        orderedQty: 4,
+        unitPrice: 3.25,
+        sortOrder: 0,
+      },
+      {
+        sku: "NEW-1",
+        description: "NEW-1",
+        unit: null,
+        orderedQty: 1,
+        unitPrice: null,
+        sortOrder: 1,
+      },
+    ]);
+  });
+});
+
+describe("recordDeliveredQuantities", () => {
+  it("saves the delivered quantity and keeps the reason only when short", async () => {
+    await recordDeliveredQuantities("stop-1", [
+      { lineId: "line-1", deliveredQty: 3, shortReason: "Damaged" },
+    ]);
+
+    expect(db.stopOrderLine.update).toHaveBeenCalledWith({
+      where: { id: "line-1" },
+      data: { deliveredQty: 3, shortReason: "Damaged" },
+    });
+  });
+
+  it("won't record more than was ordered or change a finished stop", async () => {
+    await expect(
+      recordDeliveredQuantities("stop-1", [{ lineId: "line-1", deliveredQty: 5, shortReason: null }])
+    ).rejects.toThrow("Only 4 of Whole milk 1 gal were ordered");
+
+    db.stop.findFirst.mockResolvedValue({ status: "COMPLETED" });
+    await expect(
+      recordDeliveredQuantities("stop-1", [{ lineId: "line-1", deliveredQty: 4, shortReason: null }])
+    ).rejects.toThrow("can't be changed on a finished stop");
+    expect(db.stopOrderLine.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("getStopShortages", () => {
+  it("lists only recorded lines that came up short", async () => {
+    db.stopOrderLine.findMany.mockResolvedValue([
+      { ...LINE, deliveredQty: 1, shortReason: "Out of stock" },
+      { ...LINE, id: "line-2", sku: "EGG-30", description: "Eggs", deliveredQty: 2, orderedQty: 2 },
+      { ...LINE, id: "line-3", deliveredQty: null },
+    ]);
+
+    await expect(getStopShortages("stop-1")).resolves.toEqual([
+      {
+        sku: "MLK-1G",
+        description: "Whole milk 1 gal",
+        unit: "cs",
+        orderedQty: 4,
+        deliveredQty: 1,
+        shortQty: 3,
+        shortReason: "Out of stock",
+      },
+    ]);
+  });
+});
+
+describe("route sheet import", () => {
+  it("attaches the order lines column to each stop", async () => {
+    const csv = [
+      "Route,Driver,Stop,Customer,Order Lines",
+      "7,alice,1,Cafe One,MLK-1G x 4 cs @ 3.25; EGG-30 x 2",
+      "7,alice,2,Deli Two,",
+    ].join("\n");
+
+    const result = await parseRouteFile(Buffer.from(csv), "route.csv", {
+      profile: {
+        id: "profile-csv",
+        name: "CSV export",
+        mapping: {
+          dataStartRow: 2,
+          fields: {
+            routeNumber: { headers: ["Route"] },
+            driver: { headers: ["Driver"] },
+            sequence: { headers: ["Stop"] },
+            customerName: { headers: ["Customer"] },
+            orderLines: { headers: ["Order Lines"] },
+          },
+        },
+      },
+    });
+
+    const [first, second] = result.route!.stops;
+    expect(first.orderLines).toEqual([
+      { sku: "MLK-1G", description: null, orderedQty: 4, unit: "cs", unitPrice: 3.25 },
+      { sku: "EGG-30", description: null, orderedQty: 2, unit: null, unitPrice: null },
+    ]);
+    expect(second.orderLines).toBeUndefined();
+  });
+});
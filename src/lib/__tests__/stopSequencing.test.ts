@@ -0,0 +1,146 @@
+/** @jest-environment node */
+import prisma from "../db";
+import {
+  optimizeStopOrder,
+  proposeStopOrder,
+  resolveDeliveryPoints,
+  tripDistanceKm,
+} from "../stopSequencing";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    stop: { findMany: jest.fn() },
+    customer: { findMany: jest.fn() },
+    driverLocation: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  stop: { findMany: jest.Mock };
+  customer: { findMany: jest.Mock };
+  driverLocation: { findMany: jest.Mock };
+  user: { findUnique: jest.Mock };
+};
+
+// Points along a line heading east, about 1.1 km apart
+const at = (step: number) => ({ latitude: 34, longitude: -118 + step * 0.01 });
+
+describe("optimizeStopOrder", () => {
+  it("visits stops along the way instead of zig-zagging", () => {
+    const points = [at(3), at(1), at(4), at(2)];
+    const order = optimizeStopOrder(points, [false, false, false, false], at(0));
+
+    expect(order).toEqual([1, 3, 0, 2]);
+    expect(tripDistanceKm(at(0), order.map((i) => points[i]))).toBeLessThan(
+      tripDistanceKm(at(0), points)
+    );
+  });
+
+  it("keeps held stops and stops without a location in their slot", () => {
+    const points = [at(3), at(1), null, at(4), at(2)];
+    const order = optimizeStopOrder(points, [true, false, false, false, false], at(0));
+
+    expect(order[0]).toBe(0);
+    expect(order[2]).toBe(2);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe("resolveDeliveryPoints", () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it("prefers manual pins, then completion fixes, then confident geocodes", async () => {
+    const completedAt = new Date();
+    db.customer.findMany.mockResolvedValue([
+      { id: "manual", latitude: 1, longitude: 1, geocodeStatus: "MANUAL" },
+      { id: "learned", latitude: 9, longitude: 9, geocodeStatus: "OK" },
+      { id: "geocoded", latitude: 3, longitude: 3, geocodeStatus: "OK" },
+      { id: "rough", latitude: 4, longitude: 4, geocodeStatus: "SUSPICIOUS" },
+    ]);
+    db.stop.findMany.mockResolvedValue([
+      { id: "s1", customerId: "learned", completionTime: completedAt },
+      { id: "s2", customerId: "learned", completionTime: completedAt },
+    ]);
+    db.driverLocation.findMany.mockResolvedValue([
+      { stopId: "s1", latitude: 2, longitude: 2, accuracy: 10, timestamp: completedAt },
+      { stopId: "s2", latitude: 2.0002, longitude: 2.0002, accuracy: null, timestamp: completedAt },
+      // Too inaccurate to count
+      { stopId: "s2", latitude: 5, longitude: 5, accuracy: 500, timestamp: completedAt },
+    ]);
+
+    const points = await resolveDeliveryPoints(["manual", "learned", "geocoded", "rough"]);
+
+    expect(points.get("manual")).toEqual({ latitude: 1, longitude: 1, source: "manual" });
+    // Median of the two accurate fixes
+    expect(points.get("learned")?.source).toBe("learned");
+    expect(points.get("learned")?.latitude).toBeCloseTo(2.0001, 6);
+    expect(points.get("geocoded")).toMatchObject({ source: "geocoded" });
+    expect(points.has("rough")).toBe(false);
+  });
+});
+
+describe("proposeStopOrder", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.driverLocation.findMany.mockResolvedValue([]);
+  });
+
+  it("reports before and after distance from the driver's position", async () => {
+    db.stop.findMany
+      .mockResolvedValueOnce([
+        { id: "a", customerId: "c3", status: "PENDING", sequenceLocked: false, sequence: 1, customer: { name: "C3" } },
+        { id: "b", customerId: "c1", status: "PENDING", sequenceLocked: false, sequence: 2, customer: { name: "C1" } },
+        { id: "c", customerId: "c2", status: "PENDING", sequenceLocked: false, sequence: 3, customer: { name: "C2" } },
+      ])
+      // No completed stops to learn from
+      .mockResolvedValueOnce([]);
+    db.customer.findMany.mockResolvedValue(
+      [3, 1, 2].map((step) => ({ id: `c${step}`, ...at(step), geocodeStatus: "OK" }))
+    );
+    db.user.findUnique.mockResolvedValue({
+      lastKnownLatitude: at(0).latitude,
+      lastKnownLongitude: at(0).longitude,
+      lastLocationUpdate: new Date(),
+    });
+
+    const proposal = await proposeStopOrder("r1", ["a", "b", "c"], { driverId: "d1" });
+
+    expect(proposal.start).toMatchObject({ kind: "driver" });
+    expect(proposal.stopIds).toEqual(["b", "c", "a"]);
+    expect(proposal.afterKm).toBeLessThan(proposal.beforeKm);
+    expect(proposal.stops[0]).toMatchObject({ id: "b", previousPosition: 2, position: 1 });
+  });
+
+  it("measures from the driver's position over the stops still to visit", async () => {
+    db.stop.findMany
+      .mockResolvedValueOnce([
+        { id: "v", customerId: "c0", status: "COMPLETED", sequenceLocked: false, sequence: 1, customer: { name: "C0" } },
+        { id: "a", customerId: "c7", status: "PENDING", sequenceLocked: false, sequence: 2, customer: { name: "C7" } },
+        { id: "b", customerId: "c6", status: "PENDING", sequenceLocked: false, sequence: 3, customer: { name: "C6" } },
+      ])
+      .mockResolvedValueOnce([]);
+    db.customer.findMany.mockResolvedValue(
+      [0, 7, 6].map((step) => ({ id: `c${step}`, ...at(step), geocodeStatus: "OK" }))
+    );
+    db.user.findUnique.mockResolvedValue({
+      lastKnownLatitude: at(5).latitude,
+      lastKnownLongitude: at(5).longitude,
+      lastLocationUpdate: new Date(),
+    });
+
+    const proposal = await proposeStopOrder("r1", ["v", "a", "b"], { driverId: "d1" });
+
+    expect(proposal.stopIds).toEqual(["v", "b", "a"]);
+    expect(proposal.stops[0]).toMatchObject({ id: "v", heldBecause: "visited", pointSource: "geocoded" });
+    expect(proposal.beforeKm).toBeCloseTo(tripDistanceKm(at(5), [at(7), at(6)]));
+    expect(proposal.afterKm).toBeCloseTo(tripDistanceKm(at(5), [at(6), at(7)]));
+  });
+
+  it("rejects stops from another route", async () => {
+    db.stop.findMany.mockResolvedValueOnce([]);
+
+    await expect(proposeStopOrder("r1", ["x"])).rejects.toThrow("do not belong");
+  });
+});
@@ -0,0 +1,105 @@
+/** @jest-environment node */
+import prisma from "../db";
+import { parseStatusFix, recordStatusEvent } from "../stopStatusEvents";
+
+jest.mock("../db", () => ({
+  __esModule: true,
+  default: {
+    customer: { findMany: jest.fn() },
+    stop: { findMany: jest.fn() },
+    driverLocation: { findMany: jest.fn() },
+    stopStatusEvent: { create: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  customer: { findMany: jest.Mock };
+  stop: { findMany: jest.Mock };
+  driverLocation: { findMany: jest.Mock };
+  stopStatusEvent: { create: jest.Mock };
+};
+
+const PIN = { latitude: 34, longitude: -118 };
+const fixAt = (metersNorth: number, accuracy: number | null = 10) => ({
+  latitude: PIN.latitude + metersNorth / 111195,
+  longitude: PIN.longitude,
+  accuracy,
+});
+
+const completion = (fix: ReturnType<typeof fixAt> | null, geofenceRadiusMeters: number | null = null) =>
+  recordStatusEvent({
+    stopId: "s1",
+    customerId: "c1",
+    driverId: "d1",
+    fromStatus: "ARRIVED",
+    toStatus: "COMPLETED",
+    fix,
+    geofenceRadiusMeters,
+  });
+
+const recorded = () => db.stopStatusEvent.create.mock.calls[0][0].data;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.COMPLETION_DISTANCE_METERS;
+  db.customer.findMany.mockResolvedValue([{ id: "c1", ...PIN, geocodeStatus: "OK" }]);
+  db.stop.findMany.mockResolvedValue([]);
+  db.driverLocation.findMany.mockResolvedValue([]);
+});
+
+describe("recordStatusEvent", () => {
+  it("stores the fix and its distance from the delivery point", async () => {
+    await completion(fixAt(100));
+
+    expect(recorded()).toMatchObject({
+      stopId: "s1",
+      toStatus: "COMPLETED",
+      latitude: fixAt(100).latitude,
+      accuracy: 10,
+      pointSource: "geocoded",
+      flagged: false,
+      automatic: false,
+    });
+    expect(recorded().distanceMeters).toBeCloseTo(100, 0);
+  });
+
+  it("flags completions far from the customer", async () => {
+    await completion(fixAt(800));
+    expect(recorded().flagged).toBe(true);
+  });
+
+  it("allows for the fix's accuracy and a larger geofence", async () => {
+    await completion(fixAt(400, 150));
+    expect(recorded().flagged).toBe(false);
+
+    db.stopStatusEvent.create.mockClear();
+    await completion(fixAt(450), 500);
+    expect(recorded().flagged).toBe(false);
+  });
+
+  it("records the change without a location when the driver sent none", async () => {
+    await completion(null);
+
+    expect(recorded()).toMatchObject({
+      latitude: null,
+      longitude: null,
+      distanceMeters: null,
+      flagged: false,
+    });
+    expect(db.customer.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseStatusFix", () => {
+  it("accepts a missing fix and rejects malformed ones", () => {
+    expect(parseStatusFix(undefined)).toBeNull();
+    expect(parseStatusFix({ latitude: 34, longitude: -118 })).toEqual({
+      latitude: 34,
+      longitude: -118,
+      accuracy: null,
+    });
+    expect(() => parseStatusFix({ latitude: "34", longitude: -118 })).toThrow("latitude and longitude");
+    expect(() => parseStatusFix({ latitude: 34, longitude: 200 })).toThrow("latitude and longitude");
+    expect(() => parseStatusFix({ latitude: 34, longitude: -118, accuracy: -5 })).toThrow("accuracy");
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Credit memos drafted from driver returns.
+ *
+ * Once every return logged on a stop has been received at the warehouse, a
+ * draft credit memo is created with a line per returned item for the
+ * quantity received. Unit prices come from the stop's order lines where the
+ * product matches; an admin fills in the rest. The admin then approves the
+ * draft and issues it with the credit memo number and document, which also
+ * sets the stop's credit memo fields used by the delivery email and route
+ * exports.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { creditMemoTotal } from "@/utils/creditMemos";
+
+export type CreditMemoFilter = "open" | "issued";
+
+export interface CreditMemoLineChange {
+  lineId: string;
+  quantity?: number;
+  unitPrice?: number | null;
+}
+
+export interface CreditMemoDocumentFile {
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+const CREDIT_MEMO_INCLUDE = {
+  lines: {
+    orderBy: { createdAt: "asc" },
+    include: {
+      return: {
+        select: {
+          id: true,
+          reasonCode: true,
+          quantity: true,
+          receivedQty: true,
+          receivedCondition: true,
+        },
+      },
+    },
+  },
+  stop: {
+    select: {
+      id: true,
+      quickbooksInvoiceNum: true,
+      customerNameFromUpload: true,
+      customer: { select: { name: true } },
+      route: { select: { id: true, routeNumber: true, date: true } },
+    },
+  },
+  approvedBy: { select: { username: true, fullName: true } },
+  document: { select: { id: true, title: true, filePath: true } },
+} satisfies Prisma.CreditMemoInclude;
+
+/**
+ * Draft a credit memo for the stop's received returns that aren't on a
+ * credit memo yet. Returns null while any return on the stop is still
+ * waiting to be received, or when there's nothing left to credit.
+ */
+export async function draftCreditMemoForStop(stopId: string) {
+  return prisma.$transaction(async (tx) => {
+    // Receipts for the same stop draft one at a time, so a return that's
+    // just been credited is seen as already on a memo
+    await tx.$queryRaw`SELECT id FROM stops WHERE id = ${stopId} FOR UPDATE`;
+
+    const returns = await tx.return.findMany({
+      where: { stopId, isDeleted: false },
+      include: {
+        product: { select: { sku: true, name: true } },
+        creditMemoLines: {
+          where: { creditMemo: { isDeleted: false } },
+          select: { id: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    if (returns.length === 0 || returns.some((item) => item.receivedAt === null)) {
+      return null;
+    }
+
+    const toCredit = returns.filter(
+      (item) => item.creditMemoLines.length === 0 && (item.receivedQty ?? 0) > 0
+    );
+    if (toCredit.length === 0) {
+      return null;
+    }
+
+    // Price each item from the stop's order lines, by product then by SKU
+    const orderLines = await tx.stopOrderLine.findMany({
+      where: { stopId, isDeleted: false, unitPrice: { not: null } },
+      select: { productId: true, sku: true, unitPrice: true },
+    });
+    const priceFor = (item: (typeof toCredit)[number]) => {
+      const sku = item.product?.sku ?? item.orderItemIdentifier;
+      const line =
+        (item.productId && orderLines.find((line) => line.productId === item.productId)) ||
+        orderLines.find((line) => line.sku === sku);
+      return line ? line.unitPrice : null;
+    };
+
+    const lines = toCredit.map((item) => ({
+      returnId: item.id,
+      description: item.product?.name || item.productDescription || item.orderItemIdentifier,
+      quantity: item.receivedQty as number,
+      unitPrice: priceFor(item),
+    }));
+
+    return tx.creditMemo.create({
+      data: {
+        stop: { connect: { id: stopId } },
+        status: "DRAFT",
+        creditMemoAmount: creditMemoTotal(lines),
+        lines: { create: lines },
+      },
+      include: CREDIT_MEMO_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Drafts and approved memos waiting to be issued ("open"), or issued memos,
+ * newest first.
+ */
+export async function getCreditMemos(filter: CreditMemoFilter) {
+  return prisma.creditMemo.findMany({
+    where: {
+      isDeleted: false,
+      status: filter === "open" ? { in: ["DRAFT", "APPROVED"] } : "ISSUED",
+      lines: { some: {} },
+    },
+    include: CREDIT_MEMO_INCLUDE,
+    orderBy: { createdAt: "desc" },
+    take: 200,
+  });
+}
+
+async function lockCreditMemo(tx: Prisma.TransactionClient, memoId: string) {
+  // Changes to the same memo run one at a time, so each one checks the
+  // status the last one left
+  await tx.$queryRaw`SELECT id FROM credit_memos WHERE id = ${memoId} FOR UPDATE`;
+
+  const memo = await tx.creditMemo.findFirst({
+    where: { id: memoId, isDeleted: false },
+    include: { lines: true },
+  });
+  if (!memo) {
+    throw new Error("Credit memo not found");
+  }
+  return memo;
+}
+
+/**
+ * Validate the line changes an admin makes to a draft.
+ */
+export function sanitizeLineChanges(value: unknown): {
+  changes: CreditMemoLineChange[];
+  errors: string[];
+} {
+  if (!Array.isArray(value)) {
+    return { changes: [], errors: ["lines must be a list"] };
+  }
+
+  const changes: CreditMemoLineChange[] = [];
+  const errors: string[] = [];
+  value.forEach((entry, index) => {
+    const input = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const change: CreditMemoLineChange = { lineId: "" };
+
+    if (typeof input.lineId !== "string" || !input.lineId) {
+      errors.push(`Line ${index + 1}: lineId is required`);
+      return;
+    }
+    change.lineId = input.lineId;
+
+    if (input.quantity !== undefined) {
+      const quantity = Number(input.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        errors.push(`Line ${index + 1}: quantity must be a whole number above 0`);
+        return;
+      }
+      change.quantity = quantity;
+    }
+
+    if (input.unitPrice === null || input.unitPrice === "") {
+      change.unitPrice = null;
+    } else if (input.unitPrice !== undefined) {
+      const price = Number(input.unitPrice);
+      if (isNaN(price) || price < 0) {
+        errors.push(`Line ${index + 1}: unitPrice must be a number of 0 or more`);
+        return;
+      }
+      change.unitPrice = price;
+    }
+
+    changes.push(change);
+  });
+
+  return { changes, errors };
+}
+
+/**
+ * Change quantities and prices on a draft and recalculate its amount.
+ */
+export async function updateCreditMemoLines(memoId: string, changes: CreditMemoLineChange[]) {
+  return prisma.$transaction(async (tx) => {
+    const memo = await lockCreditMemo(tx, memoId);
+    if (memo.status !== "DRAFT") {
+      throw new Error("Only draft credit memos can be changed");
+    }
+
+    const byId = new Map(memo.lines.map((line) => [line.id, line]));
+    for (const { lineId } of changes) {
+      if (!byId.has(lineId)) {
+        throw new Error("Credit memo line not found");
+      }
+    }
+
+    const lines = memo.lines.map((line) => {
+      const change = changes.find((candidate) => candidate.lineId === line.id);
+      return change ? { ...line, ...change } : line;
+    });
+
+    for (const { lineId, ...data } of changes) {
+      await tx.creditMemoLine.update({ where: { id: lineId }, data });
+    }
+    await tx.creditMemo.update({
+      where: { id: memoId },
+      data: { creditMemoAmount: creditMemoTotal(lines) },
+    });
+
+    return tx.creditMemo.findUnique({ where: { id: memoId }, include: CREDIT_MEMO_INCLUDE });
+  });
+}
+
+/**
+ * Approve a draft once every line has a price.
+ */
+export async function approveCreditMemo(memoId: string, adminId: string) {
+  return prisma.$transaction(async (tx) => {
+    const memo = await lockCreditMemo(tx, memoId);
+    if (memo.status !== "DRAFT") {
+      throw new Error("Only draft credit memos can be approved");
+    }
+    const unpriced = memo.lines.filter((line) => line.unitPrice === null);
+    if (unpriced.length > 0) {
+      throw new Error(
+        `Enter a unit price for ${unpriced.map((line) => line.description).join(", ")}`
+      );
+    }
+
+    return tx.creditMemo.update({
+      where: { id: memoId },
+      data: { status: "APPROVED", approvedAt: new Date(), approvedById: adminId },
+      include: CREDIT_MEMO_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Issue an approved memo with its number and document. The document is
+ * attached to the stop and the stop's credit memo fields are set, as when a
+ * credit memo document is uploaded directly. saveDocument is only called
+ * once the memo is known to be approved, so a refused issue leaves no file
+ * behind.
+ */
+export async function issueCreditMemo(
+  memoId: string,
+  creditMemoNumber: string,
+  saveDocument: () => Promise<CreditMemoDocumentFile>,
+  adminId: string
+) {
+  return prisma.$transaction(async (tx) => {
+    const memo = await lockCreditMemo(tx, memoId);
+    if (memo.status !== "APPROVED") {
+      throw new Error("Only approved credit memos can be issued");
+    }
+
+    const file = await saveDocument();
+    const document = await tx.document.create({
+      data: {
+        title: `Credit Memo ${creditMemoNumber}`,
+        type: "CREDIT_MEMO",
+        ...file,
+        uploadedBy: adminId,
+      },
+    });
+    await tx.stopDocument.create({
+      data: { stopId: memo.stopId, documentId: document.id },
+    });
+    await tx.stop.update({
+      where: { id: memo.stopId },
+      data: { creditMemoNumber, creditMemoAmount: memo.creditMemoAmount },
+    });
+
+    return tx.creditMemo.update({
+      where: { id: memoId },
+      data: { status: "ISSUED", creditMemoNumber, documentId: document.id },
+      include: CREDIT_MEMO_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Throw away a memo that hasn't been issued. Its returns can be drafted
+ * again.
+ */
+export async function discardCreditMemo(memoId: string) {
+  await prisma.$transaction(async (tx) => {
+    const memo = await lockCreditMemo(tx, memoId);
+    if (memo.status === "ISSUED") {
+      throw new Error("Issued credit memos can't be discarded");
+    }
+
+    await tx.creditMemo.update({
+      where: { id: memoId },
+      data: { isDeleted: true },
+    });
+  });
+}
+
+/**
+ * Keep a draft in step when warehouse staff correct a received quantity.
+ * Returns on an approved or issued memo can't be received again.
+ */
+export async function syncDraftForReceipt(
+  tx: Prisma.TransactionClient,
+  returnId: string,
+  receivedQty: number
+) {
+  const lines = await tx.creditMemoLine.findMany({
+    where: { returnId, creditMemo: { isDeleted: false } },
+    include: { creditMemo: { select: { id: true, status: true } } },
+  });
+  if (lines.some((line) => line.creditMemo.status !== "DRAFT")) {
+    throw new Error("This return is on an approved credit memo and can't be received again");
+  }
+
+  for (const line of lines) {
+    await tx.creditMemoLine.update({
+      where: { id: line.id },
+      data: { quantity: receivedQty },
+    });
+    const memoLines = await tx.creditMemoLine.findMany({
+      where: { creditMemoId: line.creditMemo.id },
+    });
+    await tx.creditMemo.update({
+      where: { id: line.creditMemo.id },
+      data: { creditMemoAmount: creditMemoTotal(memoLines) },
+    });
+  }
+}
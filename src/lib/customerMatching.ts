@@ -0,0 +1,305 @@
+/**
+ * Customer matching for route import.
+ *
+ * Each customer name in an upload is scored against the existing customers
+ * on four signals, each only counted when both sides have a value:
+ *
+ *   name       similarity of the normalized name (or a saved alias)  0.55
+ *   group code exact match                                           0.20
+ *   email      exact match                                           0.15
+ *   address    similarity of the normalized address                 0.10
+ *
+ * A best score of AUTO_LINK_THRESHOLD or more, clearly ahead of the runner
+ * up, links automatically when the name (or an alias) matches exactly or
+ * another signal agrees; a close name alone, like "Market 101" against
+ * "Market 102", is never enough. Scores from REVIEW_THRESHOLD up come back in the
+ * upload preview for the admin to confirm; confirming stores the upload
+ * spelling in Customer.aliases so it links automatically next time. Names
+ * left unconfirmed fall back to the exact-name lookup (or a new customer).
+ */
+
+import type { Customer, Prisma, PrismaClient } from "@prisma/client";
+import prisma from "./db";
+import type { ParsedStop } from "./routeParser";
+import { editSimilarity, normalizeName, tokenOverlap } from "./nameMatching";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type CustomerCandidate = Pick<
+  Customer,
+  "id" | "name" | "address" | "email" | "groupCode" | "aliases"
+>;
+
+// What the upload says about one customer
+export interface CustomerMatchInput {
+  name: string;
+  groupCode?: string;
+  email?: string;
+  address?: string;
+}
+
+export interface CustomerMatchSignals {
+  name: number;
+  // The name matched a saved alias exactly
+  alias: boolean;
+  // null when either side has no value
+  groupCode: boolean | null;
+  email: boolean | null;
+  address: number | null;
+}
+
+export interface ScoredCustomer {
+  customer: CustomerCandidate;
+  // 0..1
+  score: number;
+  signals: CustomerMatchSignals;
+}
+
+export type CustomerMatchStatus = "matched" | "review" | "new";
+
+export interface CustomerMatch {
+  name: string;
+  status: CustomerMatchStatus;
+  // The linked customer, for "matched"
+  customer: CustomerCandidate | null;
+  // Best candidates first, for "matched" and "review"
+  candidates: ScoredCustomer[];
+}
+
+export const AUTO_LINK_THRESHOLD = 0.9;
+export const REVIEW_THRESHOLD = 0.6;
+// How far the best candidate must lead the next one to link automatically
+const AUTO_LINK_MARGIN = 0.05;
+// Address similarity that counts as the address agreeing
+const ADDRESS_AGREES = 0.9;
+const MAX_CANDIDATES = 3;
+
+const WEIGHTS = { name: 0.55, groupCode: 0.2, email: 0.15, address: 0.1 };
+
+const NAME_NOISE_WORDS = new Set(["the", "inc", "llc", "ltd", "co", "corp", "corporation", "company"]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  court: "ct",
+  highway: "hwy",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+/**
+ * Normalize a customer name for comparison: "The Corner Market, Inc." and
+ * "corner market" compare equal, as do "&" and "and".
+ */
+export function normalizeCustomerName(name: string): string {
+  return normalizeName(name.replace(/&/g, " and "))
+    .split(" ")
+    .filter((word) => !NAME_NOISE_WORDS.has(word))
+    .join(" ");
+}
+
+export function normalizeAddress(address: string): string {
+  return normalizeName(address)
+    .split(" ")
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+const normalizeCode = (value: string | null | undefined) => (value || "").trim().toLowerCase();
+
+/**
+ * Score one existing customer against an upload customer.
+ */
+export function scoreCustomer(
+  input: CustomerMatchInput,
+  candidate: CustomerCandidate
+): ScoredCustomer {
+  const name = normalizeCustomerName(input.name);
+  const aliases = candidate.aliases.map(normalizeCustomerName);
+  const alias = aliases.includes(name);
+
+  const nameScore = alias
+    ? 1
+    : Math.max(
+        ...[normalizeCustomerName(candidate.name), ...aliases].map((known) =>
+          Math.max(editSimilarity(name, known), 0.95 * tokenOverlap(name, known))
+        )
+      );
+
+  const compare = (a: string | null | undefined, b: string | null | undefined) =>
+    normalizeCode(a) && normalizeCode(b) ? normalizeCode(a) === normalizeCode(b) : null;
+
+  const signals: CustomerMatchSignals = {
+    name: nameScore,
+    alias,
+    groupCode: compare(input.groupCode, candidate.groupCode),
+    email: compare(input.email, candidate.email),
+    address:
+      input.address?.trim() && candidate.address?.trim()
+        ? editSimilarity(normalizeAddress(input.address), normalizeAddress(candidate.address))
+        : null,
+  };
+
+  let total = WEIGHTS.name * signals.name;
+  let weight = WEIGHTS.name;
+  if (signals.groupCode !== null) {
+    total += WEIGHTS.groupCode * (signals.groupCode ? 1 : 0);
+    weight += WEIGHTS.groupCode;
+  }
+  if (signals.email !== null) {
+    total += WEIGHTS.email * (signals.email ? 1 : 0);
+    weight += WEIGHTS.email;
+  }
+  if (signals.address !== null) {
+    total += WEIGHTS.address * signals.address;
+    weight += WEIGHTS.address;
+  }
+
+  return {
+    customer: candidate,
+    score: Math.round((total / weight) * 100) / 100,
+    signals,
+  };
+}
+
+/**
+ * Match one upload customer against the candidates.
+ */
+export function matchCustomer(
+  input: CustomerMatchInput,
+  candidates: CustomerCandidate[]
+): CustomerMatch {
+  const name = normalizeCustomerName(input.name);
+
+  // Cheap pre-filter: a word or first letter in common, or the same group
+  // code or email
+  const plausible = candidates.filter((candidate) => {
+    const known = [candidate.name, ...candidate.aliases].map(normalizeCustomerName);
+    return (
+      known.some((value) => value[0] === name[0] || tokenOverlap(value, name) > 0) ||
+      compareCodes(input.groupCode, candidate.groupCode) ||
+      compareCodes(input.email, candidate.email)
+    );
+  });
+
+  const scored = plausible
+    .map((candidate) => scoreCustomer(input, candidate))
+    .filter((result) => result.score >= REVIEW_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best, runnerUp] = scored;
+  if (!best) {
+    return { name: input.name, status: "new", customer: null, candidates: [] };
+  }
+
+  const clearLead = !runnerUp || best.score - runnerUp.score >= AUTO_LINK_MARGIN;
+  if (best.score >= AUTO_LINK_THRESHOLD && clearLead && isCorroborated(best.signals)) {
+    return { name: input.name, status: "matched", customer: best.customer, candidates: scored };
+  }
+
+  return { name: input.name, status: "review", customer: null, candidates: scored };
+}
+
+/**
+ * An exact name or alias match, or a group code, email or address that
+ * agrees.
+ */
+function isCorroborated(signals: CustomerMatchSignals): boolean {
+  return (
+    signals.alias ||
+    signals.name === 1 ||
+    signals.groupCode === true ||
+    signals.email === true ||
+    (signals.address ?? 0) >= ADDRESS_AGREES
+  );
+}
+
+function compareCodes(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!normalizeCode(a) && normalizeCode(a) === normalizeCode(b);
+}
+
+/**
+ * One match input per distinct customer name in the stops, taking the first
+ * group code, email and address given for it.
+ */
+export function customerInputsFromStops(stops: ParsedStop[]): CustomerMatchInput[] {
+  const inputs = new Map<string, CustomerMatchInput>();
+  for (const stop of stops) {
+    const input = inputs.get(stop.customerName) ?? { name: stop.customerName };
+    input.groupCode = input.groupCode || stop.customerGroupCode;
+    input.email = input.email || stop.customerEmail;
+    input.address = input.address || stop.customerAddress;
+    inputs.set(stop.customerName, input);
+  }
+  return Array.from(inputs.values());
+}
+
+/**
+ * Match every upload customer against the active customers.
+ */
+export async function matchCustomers(
+  inputs: CustomerMatchInput[],
+  client: DbClient = prisma
+): Promise<CustomerMatch[]> {
+  if (inputs.length === 0) return [];
+
+  const candidates = await client.customer.findMany({
+    where: { isDeleted: false },
+    select: { id: true, name: true, address: true, email: true, groupCode: true, aliases: true },
+  });
+
+  return inputs.map((input) => matchCustomer(input, candidates));
+}
+
+/**
+ * Store confirmed upload spellings as aliases of the chosen customers.
+ * Spellings that already normalize to the customer's name or one of its
+ * aliases are skipped. Returns the number of aliases added.
+ */
+export async function addCustomerAliases(
+  entries: { name: string; customerId: string }[]
+): Promise<number> {
+  const customerIds = Array.from(new Set(entries.map((entry) => entry.customerId)));
+  const customers = await prisma.customer.findMany({
+    where: { id: { in: customerIds }, isDeleted: false },
+    select: { id: true, name: true, aliases: true },
+  });
+  const byId = new Map(customers.map((customer) => [customer.id, customer]));
+
+  for (const entry of entries) {
+    if (!byId.has(entry.customerId)) {
+      throw new Error(`Customer ${entry.customerId} not found`);
+    }
+  }
+
+  const additions = new Map<string, string[]>();
+  for (const entry of entries) {
+    const customer = byId.get(entry.customerId);
+    if (!customer) continue;
+    const known = [customer.name, ...customer.aliases, ...(additions.get(customer.id) || [])].map(
+      normalizeCustomerName
+    );
+    if (!known.includes(normalizeCustomerName(entry.name))) {
+      additions.set(customer.id, [...(additions.get(customer.id) || []), entry.name.trim()]);
+    }
+  }
+
+  await prisma.$transaction(
+    Array.from(additions.entries()).map(([id, aliases]) =>
+      prisma.customer.update({
+        where: { id },
+        data: { aliases: { push: aliases } },
+      })
+    )
+  );
+
+  return Array.from(additions.values()).reduce((sum, aliases) => sum + aliases.length, 0);
+}
@@ -0,0 +1,263 @@
+/**
+ * Driver name resolution for route import.
+ *
+ * A driver name from an upload resolves to a driver account by exact
+ * (case-insensitive) username or full name, then by a saved DriverAlias.
+ * Names that still don't resolve get fuzzy suggestions so the admin can pick
+ * the right driver on the upload screen; saving that choice stores an alias,
+ * and the same spelling maps automatically on every later upload.
+ *
+ * Aliases are stored normalized (lower case, accents and punctuation
+ * stripped, whitespace collapsed), so "Jose M." and "jose m" are one alias.
+ */
+
+import type { DriverAlias, Prisma, PrismaClient } from "@prisma/client";
+import prisma from "./db";
+import type { ParsedRoute } from "./routeParser";
+import { editSimilarity, normalizeName, tokenOverlap } from "./nameMatching";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface DriverAccount {
+  id: string;
+  username: string;
+  fullName: string | null;
+}
+
+export type DriverMatchSource = "username" | "fullName" | "alias";
+
+export interface DriverMatch {
+  driver: DriverAccount;
+  source: DriverMatchSource;
+  // Set when the match came from a saved alias
+  aliasId?: string;
+}
+
+export type DriverSuggestionReason = "initials" | "tokenOverlap" | "editDistance";
+
+export interface DriverSuggestion {
+  driver: DriverAccount;
+  // 0..1, higher is closer
+  score: number;
+  reason: DriverSuggestionReason;
+}
+
+export interface DriverNameResolution {
+  name: string;
+  match: DriverMatch | null;
+  // Only filled in for names without a match
+  suggestions: DriverSuggestion[];
+}
+
+// Suggestions scoring below this aren't shown
+export const SUGGESTION_THRESHOLD = 0.6;
+const MAX_SUGGESTIONS = 3;
+
+export function normalizeDriverName(name: string): string {
+  return normalizeName(name);
+}
+
+/**
+ * True when `name` abbreviates `candidate`: each of its words is either the
+ * matching word of the candidate or that word's first letter ("Jose M." →
+ * "Jose Martinez", "J. Martinez"), or it is the candidate's initials ("JM").
+ */
+function matchesInitials(nameTokens: string[], candidateTokens: string[]): boolean {
+  if (candidateTokens.length < 2) return false;
+
+  if (nameTokens.length === 1) {
+    return nameTokens[0] === candidateTokens.map((token) => token[0]).join("");
+  }
+
+  if (nameTokens.length !== candidateTokens.length) return false;
+  let fullWords = 0;
+  for (let i = 0; i < nameTokens.length; i++) {
+    if (nameTokens[i] === candidateTokens[i]) {
+      fullWords++;
+    } else if (nameTokens[i].length !== 1 || !candidateTokens[i].startsWith(nameTokens[i])) {
+      return false;
+    }
+  }
+  // "J M" alone says too little to suggest anyone
+  return fullWords > 0;
+}
+
+/**
+ * Score how close an upload spelling is to one name (username or full name)
+ * of a driver.
+ */
+function scoreName(
+  name: string,
+  candidate: string
+): { score: number; reason: DriverSuggestionReason } {
+  const nameTokens = name.split(" ");
+  const candidateTokens = candidate.split(" ");
+
+  const scores: { score: number; reason: DriverSuggestionReason }[] = [
+    { score: editSimilarity(name, candidate), reason: "editDistance" },
+  ];
+
+  if (matchesInitials(nameTokens, candidateTokens)) {
+    scores.push({ score: 0.9, reason: "initials" });
+  }
+
+  // Shared words, in any order ("Martinez Jose" → "Jose Martinez")
+  const overlap = tokenOverlap(name, candidate);
+  if (overlap > 0) {
+    scores.push({ score: 0.95 * overlap, reason: "tokenOverlap" });
+  }
+
+  return scores.reduce((best, next) => (next.score > best.score ? next : best));
+}
+
+/**
+ * Drivers whose username or full name is close to `name`, best first.
+ */
+export function suggestDrivers(
+  name: string,
+  drivers: DriverAccount[],
+  limit = MAX_SUGGESTIONS
+): DriverSuggestion[] {
+  const normalized = normalizeDriverName(name);
+  if (!normalized) return [];
+
+  const suggestions: DriverSuggestion[] = [];
+  for (const driver of drivers) {
+    const candidates = [driver.username, driver.fullName]
+      .filter((value): value is string => !!value)
+      .map(normalizeDriverName)
+      .filter(Boolean);
+
+    const best = candidates
+      .map((candidate) => scoreName(normalized, candidate))
+      .reduce<{ score: number; reason: DriverSuggestionReason } | null>(
+        (top, next) => (!top || next.score > top.score ? next : top),
+        null
+      );
+
+    if (best && best.score >= SUGGESTION_THRESHOLD) {
+      suggestions.push({ driver, score: Math.round(best.score * 100) / 100, reason: best.reason });
+    }
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Load the active drivers and saved aliases, and return a resolver for
+ * upload driver names.
+ */
+export async function loadDriverLookup(client: DbClient = prisma): Promise<{
+  drivers: DriverAccount[];
+  resolve: (name: string) => DriverMatch | null;
+}> {
+  const drivers = await client.user.findMany({
+    where: { role: "DRIVER", isDeleted: false },
+    select: { id: true, username: true, fullName: true },
+  });
+  const aliases = await client.driverAlias.findMany({
+    where: { isDeleted: false, driver: { role: "DRIVER", isDeleted: false } },
+    select: { id: true, alias: true, driverId: true },
+  });
+
+  const byUsername = new Map<string, DriverAccount>();
+  const byFullName = new Map<string, DriverAccount>();
+  for (const driver of drivers) {
+    byUsername.set(driver.username.toLowerCase(), driver);
+    if (driver.fullName) {
+      byFullName.set(driver.fullName.toLowerCase(), driver);
+    }
+  }
+
+  const driversById = new Map(drivers.map((driver) => [driver.id, driver]));
+  const byAlias = new Map<string, { driver: DriverAccount; aliasId: string }>();
+  for (const alias of aliases) {
+    const driver = driversById.get(alias.driverId);
+    if (driver) {
+      byAlias.set(alias.alias, { driver, aliasId: alias.id });
+    }
+  }
+
+  const resolve = (name: string): DriverMatch | null => {
+    const key = name.trim().toLowerCase();
+    const username = byUsername.get(key);
+    if (username) return { driver: username, source: "username" };
+    const fullName = byFullName.get(key);
+    if (fullName) return { driver: fullName, source: "fullName" };
+    const alias = byAlias.get(normalizeDriverName(name));
+    if (alias) return { driver: alias.driver, source: "alias", aliasId: alias.aliasId };
+    return null;
+  };
+
+  return { drivers, resolve };
+}
+
+/**
+ * Distinct driver names across the stops of the parsed routes, in file order.
+ */
+export function collectDriverNames(routes: ParsedRoute[]): string[] {
+  return Array.from(
+    new Set(routes.flatMap((route) => route.stops.map((stop) => stop.driverName)).filter(Boolean))
+  );
+}
+
+/**
+ * Resolve each distinct upload driver name, with suggestions for the ones
+ * that don't resolve.
+ */
+export async function resolveDriverNames(
+  names: string[],
+  client: DbClient = prisma
+): Promise<DriverNameResolution[]> {
+  const { drivers, resolve } = await loadDriverLookup(client);
+
+  return Array.from(new Set(names.filter(Boolean))).map((name) => {
+    const match = resolve(name);
+    return {
+      name,
+      match,
+      suggestions: match ? [] : suggestDrivers(name, drivers),
+    };
+  });
+}
+
+/**
+ * Save upload spellings as aliases of the chosen drivers. A spelling that
+ * already has an alias (even a deleted one) is pointed at the new driver.
+ */
+export async function saveDriverAliases(
+  entries: { name: string; driverId: string }[],
+  createdBy: string
+): Promise<DriverAlias[]> {
+  const driverIds = Array.from(new Set(entries.map((entry) => entry.driverId)));
+  const drivers = await prisma.user.findMany({
+    where: { id: { in: driverIds }, role: "DRIVER", isDeleted: false },
+    select: { id: true },
+  });
+  const known = new Set(drivers.map((driver) => driver.id));
+
+  for (const entry of entries) {
+    if (!normalizeDriverName(entry.name)) {
+      throw new Error(`"${entry.name}" has no letters or digits to match on`);
+    }
+    if (!known.has(entry.driverId)) {
+      throw new Error(`Driver ${entry.driverId} not found`);
+    }
+  }
+
+  return prisma.$transaction(
+    entries.map((entry) => {
+      const alias = normalizeDriverName(entry.name);
+      return prisma.driverAlias.upsert({
+        where: { alias },
+        create: { alias, rawName: entry.name.trim(), driverId: entry.driverId, createdBy },
+        update: {
+          rawName: entry.name.trim(),
+          driverId: entry.driverId,
+          createdBy,
+          isDeleted: false,
+        },
+      });
+    })
+  );
+}
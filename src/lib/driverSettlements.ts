@@ -0,0 +1,380 @@
+/**
+ * End-of-day settlement of the money a driver collected.
+ *
+ * A driver's day is every stop on that day's routes assigned to them, by
+ * their name on the upload or, for stops whose name doesn't match a driver,
+ * by the route's driver.
+ * The office compares what the driver hands in against the COD stops and
+ * recorded payments, records the count, and the driver signs it, which keeps
+ * the totals they agreed to. The office can sign off while those totals still
+ * hold; the day's stops are then linked to the settlement, which locks their
+ * payments.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { createPSTDateFromString, toPSTEndOfDay } from "./timezone";
+import type { SettlementTotals } from "@/utils/settlements";
+
+export interface SettlementHandIn {
+  countedCash: number;
+  checkCount: number;
+  notes: string | null;
+}
+
+export interface SettlementStopPayment {
+  amount: number;
+  method: string;
+}
+
+export interface SettlementStop {
+  isCOD: boolean;
+  amount: number | null;
+  payments: SettlementStopPayment[];
+}
+
+const SETTLEMENT_INCLUDE = {
+  officeSignedBy: { select: { username: true, fullName: true } },
+} satisfies Prisma.DriverSettlementInclude;
+
+type SettlementRecord = Prisma.DriverSettlementGetPayload<{ include: typeof SETTLEMENT_INCLUDE }>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The route dates on a settlement's day. Routes uploaded with a date are
+ * stored at noon PST and those without one at midnight, so the window starts
+ * at midnight.
+ */
+function dayWindow(day: Date): { start: Date; end: Date } {
+  return { start: new Date(day.getTime() - HALF_DAY_MS), end: toPSTEndOfDay(day) };
+}
+
+/**
+ * The PST day for a YYYY-MM-DD date: the date settlements are stored under
+ * and the window of route dates on it.
+ */
+export function settlementDay(date: string): { day: Date; start: Date; end: Date } {
+  if (!DATE_PATTERN.test(date)) {
+    throw new Error("date must be YYYY-MM-DD");
+  }
+  const day = createPSTDateFromString(date);
+  return { day, ...dayWindow(day) };
+}
+
+const TOTAL_KEYS: (keyof SettlementTotals)[] = [
+  "expectedCod",
+  "codCollected",
+  "cashCollected",
+  "checkCollected",
+  "cardCollected",
+  "checksRecorded",
+  "cashBackAmount",
+];
+
+/**
+ * Expected COD and recorded payments for a driver's stops and END_OF_DAY
+ * checks.
+ */
+export function summarizeSettlementDay(
+  stops: SettlementStop[],
+  endOfDayChecks: { cashBackAmount: number | null }[]
+): SettlementTotals {
+  const payments = stops.flatMap((stop) => stop.payments);
+  const sum = (items: { amount: number }[]) =>
+    toCents(items.reduce((total, item) => total + item.amount, 0));
+  const byMethod = (method: string) => payments.filter((payment) => payment.method === method);
+  const codStops = stops.filter((stop) => stop.isCOD);
+
+  return {
+    expectedCod: toCents(codStops.reduce((total, stop) => total + (stop.amount ?? 0), 0)),
+    codCollected: sum(codStops.flatMap((stop) => stop.payments)),
+    cashCollected: sum(byMethod("Cash")),
+    checkCollected: sum(byMethod("Check")),
+    cardCollected: sum(byMethod("Credit Card")),
+    checksRecorded: byMethod("Check").length,
+    cashBackAmount: toCents(
+      endOfDayChecks.reduce((total, check) => total + (check.cashBackAmount ?? 0), 0)
+    ),
+  };
+}
+
+/**
+ * The day's stops and END_OF_DAY checks, grouped by driver.
+ */
+async function loadDay(start: Date, end: Date, db: Prisma.TransactionClient = prisma) {
+  const [stops, drivers] = await Promise.all([
+    db.stop.findMany({
+      where: {
+        isDeleted: false,
+        route: { isDeleted: false, date: { gte: start, lte: end } },
+      },
+      select: {
+        id: true,
+        sequence: true,
+        isCOD: true,
+        amount: true,
+        quickbooksInvoiceNum: true,
+        customerNameFromUpload: true,
+        driverNameFromUpload: true,
+        customer: { select: { name: true } },
+        route: { select: { id: true, routeNumber: true, driverId: true } },
+        payments: { select: { amount: true, method: true } },
+      },
+      orderBy: [{ routeId: "asc" }, { sequence: "asc" }],
+    }),
+    db.user.findMany({
+      where: { role: "DRIVER", isDeleted: false },
+      select: { id: true, username: true, fullName: true },
+    }),
+  ]);
+
+  const driverByName = new Map<string, (typeof drivers)[number]>();
+  for (const driver of drivers) {
+    driverByName.set(nameKey(driver.username), driver);
+    if (driver.fullName) {
+      driverByName.set(nameKey(driver.fullName), driver);
+    }
+  }
+  const driverById = new Map(drivers.map((driver) => [driver.id, driver]));
+
+  const days = new Map<
+    string,
+    { driver: (typeof drivers)[number]; stops: typeof stops; routeIds: Set<string> }
+  >();
+  for (const stop of stops) {
+    const driver =
+      (stop.driverNameFromUpload && driverByName.get(nameKey(stop.driverNameFromUpload))) ||
+      (stop.route.driverId ? driverById.get(stop.route.driverId) : undefined);
+    if (!driver) continue;
+
+    const day = days.get(driver.id) ?? { driver, stops: [], routeIds: new Set<string>() };
+    day.stops.push(stop);
+    day.routeIds.add(stop.route.id);
+    days.set(driver.id, day);
+  }
+
+  const checks = await db.safetyCheck.findMany({
+    where: {
+      type: "END_OF_DAY",
+      isDeleted: false,
+      routeId: { in: [...new Set(stops.map((stop) => stop.route.id))] },
+    },
+    select: { driverId: true, routeId: true, cashBackAmount: true },
+  });
+
+  return [...days.values()].map((day) => ({
+    ...day,
+    endOfDayChecks: checks.filter(
+      (check) => check.driverId === day.driver.id && day.routeIds.has(check.routeId)
+    ),
+  }));
+}
+
+type LoadedDay = Awaited<ReturnType<typeof loadDay>>[number];
+
+async function loadDriverTotals(driverId: string, day: Date, db: Prisma.TransactionClient = prisma) {
+  const { start, end } = dayWindow(day);
+  const loaded = (await loadDay(start, end, db)).find((candidate) => candidate.driver.id === driverId);
+  return {
+    stops: loaded?.stops ?? [],
+    totals: summarizeSettlementDay(loaded?.stops ?? [], loaded?.endOfDayChecks ?? []),
+  };
+}
+
+function describeDay(day: LoadedDay, settlement: SettlementRecord | null) {
+  // Settled days keep the totals they were signed off with
+  const totals: SettlementTotals =
+    settlement?.status === "SETTLED"
+      ? {
+          expectedCod: settlement.expectedCod ?? 0,
+          codCollected: settlement.codCollected ?? 0,
+          cashCollected: settlement.cashCollected ?? 0,
+          checkCollected: settlement.checkCollected ?? 0,
+          cardCollected: settlement.cardCollected ?? 0,
+          checksRecorded: settlement.checksRecorded ?? 0,
+          cashBackAmount: settlement.cashBackAmount ?? 0,
+        }
+      : summarizeSettlementDay(day.stops, day.endOfDayChecks);
+
+  return {
+    driver: day.driver,
+    settlement,
+    totals,
+    stops: day.stops.map((stop) => ({
+      id: stop.id,
+      sequence: stop.sequence,
+      routeNumber: stop.route.routeNumber,
+      customerName: stop.customer?.name || stop.customerNameFromUpload,
+      invoiceNumber: stop.quickbooksInvoiceNum,
+      isCOD: stop.isCOD,
+      amount: stop.amount,
+      payments: stop.payments,
+    })),
+  };
+}
+
+/**
+ * Every driver with stops on the day, with their totals and settlement.
+ */
+export async function getSettlementsForDay(date: string) {
+  const { day, start, end } = settlementDay(date);
+  const [days, settlements] = await Promise.all([
+    loadDay(start, end),
+    prisma.driverSettlement.findMany({ where: { date: day }, include: SETTLEMENT_INCLUDE }),
+  ]);
+
+  return days
+    .map((day) =>
+      describeDay(day, settlements.find((settlement) => settlement.driverId === day.driver.id) ?? null)
+    )
+    .sort((a, b) =>
+      (a.driver.fullName || a.driver.username).localeCompare(b.driver.fullName || b.driver.username)
+    );
+}
+
+/**
+ * One driver's day. Null when the driver had no stops that day.
+ */
+export async function getDriverSettlement(driverId: string, date: string) {
+  const { day, start, end } = settlementDay(date);
+  const loaded = (await loadDay(start, end)).find((candidate) => candidate.driver.id === driverId);
+  if (!loaded) {
+    return null;
+  }
+
+  const settlement = await prisma.driverSettlement.findUnique({
+    where: { driverId_date: { driverId, date: day } },
+    include: SETTLEMENT_INCLUDE,
+  });
+  return describeDay(loaded, settlement);
+}
+
+/**
+ * Validate the count the office records.
+ */
+export function sanitizeHandIn(body: Record<string, unknown>): {
+  handIn: SettlementHandIn;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  const countedCash = Number(body.countedCash);
+  if (body.countedCash === "" || body.countedCash === null || isNaN(countedCash) || countedCash < 0) {
+    errors.push("countedCash must be a number of 0 or more");
+  }
+
+  const checkCount = Number(body.checkCount);
+  if (body.checkCount === "" || body.checkCount === null || !Number.isInteger(checkCount) || checkCount < 0) {
+    errors.push("checkCount must be a whole number of 0 or more");
+  }
+
+  const notes = typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null;
+
+  return { handIn: { countedCash: toCents(countedCash), checkCount, notes }, errors };
+}
+
+/**
+ * Record what the driver handed in. A changed count has to be signed by the
+ * driver again.
+ */
+export async function recordHandIn(driverId: string, date: string, handIn: SettlementHandIn) {
+  const { day } = settlementDay(date);
+  const existing = await prisma.driverSettlement.findUnique({
+    where: { driverId_date: { driverId, date: day } },
+  });
+  if (existing?.status === "SETTLED") {
+    throw new Error("This day has already been settled");
+  }
+
+  return prisma.driverSettlement.upsert({
+    where: { driverId_date: { driverId, date: day } },
+    create: { driverId, date: day, ...handIn },
+    update: { ...handIn, status: "OPEN", driverSignedAt: null },
+    include: SETTLEMENT_INCLUDE,
+  });
+}
+
+/**
+ * The driver confirms the office's count against the day's totals, which
+ * are kept on the settlement.
+ */
+export async function signSettlementAsDriver(driverId: string, date: string) {
+  const { day } = settlementDay(date);
+  const settlement = await prisma.driverSettlement.findUnique({
+    where: { driverId_date: { driverId, date: day } },
+  });
+  if (!settlement) {
+    throw new Error("The office hasn't recorded your hand-in yet");
+  }
+  if (settlement.status !== "OPEN") {
+    throw new Error("This settlement has already been signed");
+  }
+
+  const { totals } = await loadDriverTotals(driverId, day);
+  return prisma.driverSettlement.update({
+    where: { id: settlement.id },
+    data: { ...totals, status: "DRIVER_SIGNED", driverSignedAt: new Date() },
+    include: SETTLEMENT_INCLUDE,
+  });
+}
+
+/**
+ * The office signs off a driver-signed settlement and its stops' payments
+ * lock. If payments changed since the driver signed, the settlement goes back
+ * to the driver instead.
+ */
+export async function signOffSettlement(settlementId: string, adminId: string) {
+  const settled = await prisma.$transaction(async (tx) => {
+    // Sign-offs of the same settlement run one at a time, and each compares
+    // the totals as they stand once it holds the lock
+    await tx.$queryRaw`SELECT id FROM driver_settlements WHERE id = ${settlementId} FOR UPDATE`;
+
+    const settlement = await tx.driverSettlement.findUnique({ where: { id: settlementId } });
+    if (!settlement) {
+      throw new Error("Settlement not found");
+    }
+    if (settlement.status !== "DRIVER_SIGNED") {
+      throw new Error(
+        settlement.status === "SETTLED"
+          ? "This day has already been settled"
+          : "The driver has to sign the settlement first"
+      );
+    }
+
+    const { stops, totals } = await loadDriverTotals(settlement.driverId, settlement.date, tx);
+    if (TOTAL_KEYS.some((key) => settlement[key] !== totals[key])) {
+      await tx.driverSettlement.update({
+        where: { id: settlementId },
+        data: { status: "OPEN", driverSignedAt: null },
+      });
+      return null;
+    }
+
+    await tx.driverSettlement.update({
+      where: { id: settlementId },
+      data: { status: "SETTLED", officeSignedAt: new Date(), officeSignedById: adminId },
+    });
+    await tx.stop.updateMany({
+      where: { id: { in: stops.map((stop) => stop.id) } },
+      data: { settlementId },
+    });
+
+    return tx.driverSettlement.findUnique({
+      where: { id: settlementId },
+      include: SETTLEMENT_INCLUDE,
+    });
+  });
+
+  if (!settled) {
+    throw new Error(
+      "Payments changed after the driver signed - the driver has to sign the settlement again"
+    );
+  }
+  return settled;
+}
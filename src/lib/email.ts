@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import prisma from './db';
+import { getStopShortages, OrderLineShortage } from './stopOrderLines';
 
 // Email configuration flags
 export const EMAIL_CONFIG = {
@@ -54,7 +55,8 @@ const createDeliveryConfirmationEmail = (
   totalAmount: number = 0,
   driverNotes?: string | null, // Add driverNotes parameter
   creditMemoNumber?: string | null, // Add credit memo number parameter
-  creditMemoAmount?: number | null // Add credit memo amount parameter
+  creditMemoAmount?: number | null, // Add credit memo amount parameter
+  shortages: OrderLineShortage[] = [] // Order lines not delivered in full
 ) => {
   return `
     <!DOCTYPE html>
@@ -185,6 +187,17 @@ const createDeliveryConfirmationEmail = (
             <span class="detail-label">Delivery time:</span>
             <span class="detail-value">${deliveryTime}</span>
           </div>
+          ${shortages.length > 0 ? `
+          <div class="detail-row" style="background-color: #fff7ed; padding: 10px; border-left: 3px solid #ea580c; margin-top: 20px;">
+            <span class="detail-label" style="display: block; margin-bottom: 5px; color: #c2410c;">Short on delivery:</span>
+            ${shortages.map((line) => `
+            <div class="detail-value">
+              ${line.description}${line.sku && line.sku !== line.description ? ` (${line.sku})` : ''}:
+              ${line.deliveredQty} of ${line.orderedQty}${line.unit ? ` ${line.unit}` : ''} delivered, <strong>${line.shortQty} short</strong>${line.shortReason ? ` - ${line.shortReason}` : ''}
+            </div>
+            `).join('')}
+          </div>
+          ` : ''}
           ${driverNotes ? `
           <div class="detail-row" style="background-color: #f8f9fa; padding: 10px; border-left: 3px solid #007bff; margin-top: 20px;">
             <span class="detail-label" style="display: block; margin-bottom: 5px; color: #0056b3;">Driver Notes:</span>
@@ -252,6 +265,7 @@ export const sendDeliveryConfirmationEmail = async (
     const totalAmount = stopData.amount || 0;
     const creditMemoNumber = stopData.creditMemoNumber || null;
     const creditMemoAmount = stopData.creditMemoAmount || null;
+    const shortages = await getStopShortages(stopId);
 
     const emailHtml = createDeliveryConfirmationEmail(
       customerName,
@@ -261,7 +275,8 @@ export const sendDeliveryConfirmationEmail = async (
       totalAmount, // Add total amount parameter
       stopData.driverNotes, // Pass driverNotes
       creditMemoNumber, // Pass credit memo number
-      creditMemoAmount // Pass credit memo amount
+      creditMemoAmount, // Pass credit memo amount
+      shortages
     );
 
     // Determine email recipients based on configuration
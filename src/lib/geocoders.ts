@@ -0,0 +1,144 @@
+/**
+ * Geocoding providers.
+ *
+ * A Geocoder turns a free-text address into coordinates. The provider is
+ * picked from the environment:
+ *
+ *   GEOCODER_PROVIDER         "google" or "file"; defaults to "google" when
+ *                             GOOGLE_GEOCODING_API_KEY is set, else "file"
+ *                             when GEOCODER_FILE is set
+ *   GOOGLE_GEOCODING_API_KEY  key for the Google Geocoding API
+ *   GEOCODER_FILE             JSON file of known addresses for the offline
+ *                             provider (tests, development, air-gapped
+ *                             installs):
+ *                               { "<address>": { "lat": 34.05, "lng": -118.24,
+ *                                                "precision": "rooftop" } }
+ *                             Keys are matched on the normalized address.
+ */
+
+import { promises as fs } from "fs";
+import { normalizeAddress } from "./customerMatching";
+
+export type GeocodePrecision = "rooftop" | "street" | "locality" | "approximate";
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  formattedAddress: string | null;
+  // The provider matched only part of the address
+  partialMatch: boolean;
+}
+
+export interface Geocoder {
+  // Stored as Customer.geocodeSource and GeocodeCache.provider
+  name: string;
+  // null when the address can't be found; throws on provider errors
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+const GOOGLE_GEOCODE_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+
+// Google location_type → precision
+const GOOGLE_PRECISION: Record<string, GeocodePrecision> = {
+  ROOFTOP: "rooftop",
+  RANGE_INTERPOLATED: "street",
+  GEOMETRIC_CENTER: "locality",
+  APPROXIMATE: "approximate",
+};
+
+export class GoogleGeocoder implements Geocoder {
+  name = "google";
+
+  constructor(private apiKey: string) {}
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const url = `${GOOGLE_GEOCODE_URL}?address=${encodeURIComponent(address)}&key=${this.apiKey}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Google geocoder returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.status === "ZERO_RESULTS") {
+      return null;
+    }
+    if (data.status !== "OK") {
+      throw new Error(`Google geocoder returned ${data.status}${data.error_message ? `: ${data.error_message}` : ""}`);
+    }
+
+    const [best] = data.results;
+    return {
+      latitude: best.geometry.location.lat,
+      longitude: best.geometry.location.lng,
+      precision: GOOGLE_PRECISION[best.geometry.location_type] ?? "approximate",
+      formattedAddress: best.formatted_address ?? null,
+      partialMatch: best.partial_match === true,
+    };
+  }
+}
+
+interface FileGeocoderEntry {
+  lat: number;
+  lng: number;
+  precision?: GeocodePrecision;
+  formattedAddress?: string;
+  partialMatch?: boolean;
+}
+
+export class FileGeocoder implements Geocoder {
+  name = "file";
+  private entries: Promise<Map<string, FileGeocoderEntry>> | null = null;
+
+  constructor(private source: string | Record<string, FileGeocoderEntry>) {}
+
+  private load(): Promise<Map<string, FileGeocoderEntry>> {
+    if (!this.entries) {
+      this.entries = (
+        typeof this.source === "string"
+          ? fs.readFile(this.source, "utf8").then((text) => JSON.parse(text))
+          : Promise.resolve(this.source)
+      ).then(
+        (raw: Record<string, FileGeocoderEntry>) =>
+          new Map(Object.entries(raw).map(([address, entry]) => [normalizeAddress(address), entry]))
+      );
+    }
+    return this.entries;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const entry = (await this.load()).get(normalizeAddress(address));
+    if (!entry) {
+      return null;
+    }
+    return {
+      latitude: entry.lat,
+      longitude: entry.lng,
+      precision: entry.precision ?? "rooftop",
+      formattedAddress: entry.formattedAddress ?? null,
+      partialMatch: entry.partialMatch === true,
+    };
+  }
+}
+
+/**
+ * The geocoder configured in the environment, or null when there is none.
+ */
+export function getGeocoder(): Geocoder | null {
+  const apiKey = process.env.GOOGLE_GEOCODING_API_KEY;
+  const file = process.env.GEOCODER_FILE;
+  const provider = process.env.GEOCODER_PROVIDER || (apiKey ? "google" : file ? "file" : null);
+
+  switch (provider) {
+    case "google":
+      if (!apiKey) throw new Error("GOOGLE_GEOCODING_API_KEY is not set");
+      return new GoogleGeocoder(apiKey);
+    case "file":
+      if (!file) throw new Error("GEOCODER_FILE is not set");
+      return new FileGeocoder(file);
+    case null:
+      return null;
+    default:
+      throw new Error(`Unknown GEOCODER_PROVIDER "${provider}"`);
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Customer geocoding.
+ *
+ * Customers start out PENDING and are geocoded by the backfill job
+ * (server.js polls /api/internal/geocode-backfill) or on demand from the
+ * pin review screen. Answers come from the configured provider (see
+ * geocoders.ts) through GeocodeCache, so an address is only looked up once.
+ *
+ * A result is SUSPICIOUS rather than OK when the provider only placed it
+ * roughly (locality or approximate precision), matched part of the address,
+ * or put it outside the service area. Suspicious and FAILED customers are
+ * fixed by hand (status MANUAL), and a manual pin is never overwritten by
+ * the backfill. Changing a customer's address sends it back to PENDING.
+ *
+ * Configuration:
+ *   GEOCODE_SERVICE_AREA           "lat,lng,radiusKm"; pins outside the circle
+ *                                  are suspicious (no check when unset)
+ *   GEOCODE_BACKFILL_BATCH         customers geocoded per backfill run (default 25)
+ *   GEOCODE_BACKFILL_POLL_SECONDS  backfill interval, read by server.js (default 300)
+ */
+
+import { GeocodeStatus, Prisma } from "@prisma/client";
+import prisma from "./db";
+import { normalizeAddress } from "./customerMatching";
+import { GeocodeResult, Geocoder, getGeocoder } from "./geocoders";
+
+export interface GeocodeOutcome {
+  customerId: string;
+  status: GeocodeStatus;
+  latitude: number | null;
+  longitude: number | null;
+  // Why the customer is SUSPICIOUS or FAILED
+  reasons: string[];
+  fromCache: boolean;
+}
+
+export interface BackfillResult {
+  enabled: boolean;
+  attempted: number;
+  counts: Partial<Record<GeocodeStatus, number>>;
+  errors: string[];
+}
+
+interface ServiceArea {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+const DEFAULT_BACKFILL_BATCH = 25;
+
+export function parseServiceArea(value: string | undefined): ServiceArea | null {
+  if (!value) return null;
+  const [latitude, longitude, radiusKm] = value.split(",").map((part) => parseFloat(part));
+  if ([latitude, longitude, radiusKm].some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  return { latitude, longitude, radiusKm };
+}
+
+/**
+ * Great-circle distance in kilometres.
+ */
+export function distanceKm(
+  latitude1: number,
+  longitude1: number,
+  latitude2: number,
+  longitude2: number
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(latitude2 - latitude1);
+  const dLng = toRadians(longitude2 - longitude1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(latitude1)) * Math.cos(toRadians(latitude2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Reasons a geocoder answer shouldn't be trusted without a look.
+ */
+export function suspicionReasons(
+  result: GeocodeResult,
+  serviceArea: ServiceArea | null
+): string[] {
+  const reasons: string[] = [];
+  if (result.precision === "locality" || result.precision === "approximate") {
+    reasons.push(`Only placed at ${result.precision} precision`);
+  }
+  if (result.partialMatch) {
+    reasons.push(
+      result.formattedAddress
+        ? `Partial match: ${result.formattedAddress}`
+        : "The geocoder matched only part of the address"
+    );
+  }
+  if (serviceArea) {
+    const distance = distanceKm(
+      serviceArea.latitude,
+      serviceArea.longitude,
+      result.latitude,
+      result.longitude
+    );
+    if (distance > serviceArea.radiusKm) {
+      reasons.push(`${Math.round(distance)} km from the service area center`);
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Look an address up through the cache. Returns the answer and whether it
+ * came from the cache; a cached "not found" is an answer too.
+ */
+async function lookupAddress(
+  geocoder: Geocoder,
+  address: string,
+  bypassCache: boolean
+): Promise<{ result: GeocodeResult | null; fromCache: boolean }> {
+  const addressKey = normalizeAddress(address);
+
+  if (!bypassCache) {
+    const cached = await prisma.geocodeCache.findUnique({ where: { addressKey } });
+    if (cached) {
+      return {
+        fromCache: true,
+        result:
+          cached.latitude !== null && cached.longitude !== null
+            ? {
+                latitude: cached.latitude,
+                longitude: cached.longitude,
+                precision: (cached.precision ?? "approximate") as GeocodeResult["precision"],
+                formattedAddress: cached.formattedAddress,
+                partialMatch: cached.partialMatch,
+              }
+            : null,
+      };
+    }
+  }
+
+  const result = await geocoder.geocode(address);
+  const data = {
+    address,
+    provider: geocoder.name,
+    latitude: result?.latitude ?? null,
+    longitude: result?.longitude ?? null,
+    precision: result?.precision ?? null,
+    formattedAddress: result?.formattedAddress ?? null,
+    partialMatch: result?.partialMatch ?? false,
+  };
+  await prisma.geocodeCache.upsert({
+    where: { addressKey },
+    create: { addressKey, ...data },
+    update: data,
+  });
+
+  return { result, fromCache: false };
+}
+
+/**
+ * Geocode one customer and store the pin. Manual pins are left alone unless
+ * the admin asks again explicitly (bypassCache).
+ */
+export async function geocodeCustomer(
+  customerId: string,
+  options: { bypassCache?: boolean; geocoder?: Geocoder } = {}
+): Promise<GeocodeOutcome> {
+  const geocoder = options.geocoder ?? getGeocoder();
+  if (!geocoder) {
+    throw new Error("No geocoder configured; set GOOGLE_GEOCODING_API_KEY or GEOCODER_FILE");
+  }
+
+  const customer = await prisma.customer.findFirst({
+    where: { id: customerId, isDeleted: false },
+    select: { id: true, address: true, latitude: true, longitude: true, geocodeStatus: true },
+  });
+  if (!customer) {
+    throw new Error("Customer not found");
+  }
+
+  if (customer.geocodeStatus === "MANUAL" && !options.bypassCache) {
+    return {
+      customerId,
+      status: "MANUAL",
+      latitude: customer.latitude,
+      longitude: customer.longitude,
+      reasons: [],
+      fromCache: false,
+    };
+  }
+
+  let status: GeocodeStatus;
+  let reasons: string[];
+  let result: GeocodeResult | null = null;
+  let fromCache = false;
+
+  if (!customer.address.trim()) {
+    status = "FAILED";
+    reasons = ["Customer has no address"];
+  } else {
+    ({ result, fromCache } = await lookupAddress(
+      geocoder,
+      customer.address,
+      options.bypassCache === true
+    ));
+    reasons = result
+      ? suspicionReasons(result, parseServiceArea(process.env.GEOCODE_SERVICE_AREA))
+      : ["Address not found"];
+    status = !result ? "FAILED" : reasons.length > 0 ? "SUSPICIOUS" : "OK";
+  }
+
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: {
+      latitude: result?.latitude ?? null,
+      longitude: result?.longitude ?? null,
+      geocodeStatus: status,
+      geocodeSource: geocoder.name,
+      geocodedAt: new Date(),
+    },
+  });
+
+  return {
+    customerId,
+    status,
+    latitude: result?.latitude ?? null,
+    longitude: result?.longitude ?? null,
+    reasons,
+    fromCache,
+  };
+}
+
+/**
+ * Place a pin by hand.
+ */
+export async function setManualPin(
+  customerId: string,
+  latitude: number,
+  longitude: number
+): Promise<void> {
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    throw new Error("latitude must be between -90 and 90 and longitude between -180 and 180");
+  }
+
+  const customer = await prisma.customer.findFirst({
+    where: { id: customerId, isDeleted: false },
+    select: { id: true },
+  });
+  if (!customer) {
+    throw new Error("Customer not found");
+  }
+
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: {
+      latitude,
+      longitude,
+      geocodeStatus: "MANUAL",
+      geocodeSource: "manual",
+      geocodedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Accept a suspicious pin as it is.
+ */
+export async function acceptGeocode(customerId: string): Promise<void> {
+  const customer = await prisma.customer.findFirst({
+    where: { id: customerId, isDeleted: false },
+    select: { geocodeStatus: true },
+  });
+  if (!customer) {
+    throw new Error("Customer not found");
+  }
+  if (customer.geocodeStatus !== "SUSPICIOUS") {
+    throw new Error("Only suspicious pins can be accepted");
+  }
+
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: { geocodeStatus: "OK" },
+  });
+}
+
+/**
+ * Fields to add to a customer update so a changed address gets geocoded
+ * again. Empty when the address is unchanged (ignoring case, punctuation
+ * and street abbreviations).
+ */
+export function addressChangeData(
+  previousAddress: string,
+  nextAddress: string | undefined | null
+): Prisma.CustomerUpdateInput {
+  if (nextAddress === undefined || nextAddress === null) return {};
+  if (normalizeAddress(previousAddress) === normalizeAddress(nextAddress)) return {};
+
+  return {
+    latitude: null,
+    longitude: null,
+    geocodeStatus: "PENDING",
+    geocodeSource: null,
+    geocodedAt: null,
+  };
+}
+
+let running = false;
+
+/**
+ * Geocode the next batch of PENDING customers. Does nothing when no
+ * geocoder is configured or a previous run is still going.
+ */
+export async function backfillGeocodes(
+  limit = parseInt(process.env.GEOCODE_BACKFILL_BATCH || "") || DEFAULT_BACKFILL_BATCH
+): Promise<BackfillResult> {
+  const geocoder = getGeocoder();
+  if (!geocoder || running) {
+    return { enabled: !!geocoder, attempted: 0, counts: {}, errors: [] };
+  }
+
+  running = true;
+  try {
+    const customers = await prisma.customer.findMany({
+      where: { geocodeStatus: "PENDING", isDeleted: false },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+      select: { id: true, name: true },
+    });
+
+    const counts: BackfillResult["counts"] = {};
+    const errors: string[] = [];
+
+    for (const customer of customers) {
+      try {
+        const outcome = await geocodeCustomer(customer.id, { geocoder });
+        counts[outcome.status] = (counts[outcome.status] ?? 0) + 1;
+      } catch (error) {
+        // Provider errors (quota, network) leave the customer PENDING for
+        // the next run
+        errors.push(`${customer.name}: ${(error as Error).message}`);
+      }
+    }
+
+    return { enabled: true, attempted: customers.length, counts, errors };
+  } finally {
+    running = false;
+  }
+}
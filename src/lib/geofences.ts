@@ -0,0 +1,233 @@
+/**
+ * Geofences around customer delivery points.
+ *
+ * The geofence is centred on the customer's delivery point when an admin
+ * pinned it by hand or it was learned from GPS fixes at past completions
+ * (see stopSequencing.ts); a geocoded address alone isn't trusted enough.
+ * The radius is the customer's geofenceRadiusMeters, else
+ * GEOFENCE_RADIUS_METERS.
+ *
+ * Each location update a driver sends for a stop is checked against it:
+ *   - inside while the stop is ON_THE_WAY: an ENTERED event is recorded with
+ *     the fix, and the driver is asked to mark the stop arrived (or, with
+ *     GEOFENCE_AUTO_ARRIVE=true, the stop is set to ARRIVED right away, as
+ *     the driver would: an allowed transition, and a PENDING route starts)
+ *   - well outside (EXIT_RADIUS_FACTOR) while the stop is still ARRIVED: the
+ *     driver left without completing it, so an EXITED event is recorded and
+ *     the admins are alerted
+ *
+ * Each event is recorded once per stop, and a stop with nothing left to
+ * record isn't checked. Fixes less accurate than the radius are ignored. A
+ * customer's geofence is looked up at most every GEOFENCE_CACHE_MS rather
+ * than on every location update.
+ *
+ * Configuration (all optional):
+ *   GEOFENCE_RADIUS_METERS   default radius (default 150)
+ *   GEOFENCE_AUTO_ARRIVE     "true" to set ARRIVED on entry instead of asking
+ */
+
+import prisma from "./db";
+import { distanceKm } from "./geocoding";
+import { LatLng, resolveDeliveryPoints } from "./stopSequencing";
+import { recordStatusEvent } from "./stopStatusEvents";
+import { transitionError } from "@/utils/stopStatus";
+
+export interface Geofence extends LatLng {
+  radiusMeters: number;
+  source: "manual" | "learned";
+}
+
+export interface GeofenceFix extends LatLng {
+  driverId: string;
+  stopId: string;
+  accuracy: number | null;
+  timestamp: Date;
+}
+
+export interface GeofenceOutcome {
+  event: "ENTERED" | "EXITED" | null;
+  distanceMeters: number | null;
+  // The driver is at the stop and should be asked whether they've arrived
+  suggestArrival: boolean;
+  autoArrived: boolean;
+  // Auto-arrival moved the stop's route from PENDING to IN_PROGRESS
+  routeStarted: boolean;
+  // The driver left an arrived stop without completing it
+  alert: boolean;
+}
+
+export const MIN_GEOFENCE_RADIUS_METERS = 25;
+export const MAX_GEOFENCE_RADIUS_METERS = 1000;
+const DEFAULT_RADIUS_METERS = 150;
+// Leaving is only counted well clear of the fence, so GPS jitter at the
+// edge doesn't raise alerts
+const EXIT_RADIUS_FACTOR = 1.5;
+const GEOFENCE_CACHE_MS = 5 * 60 * 1000;
+
+const geofenceCache = new Map<string, { geofence: Geofence | null; expiresAt: number }>();
+
+const NO_OUTCOME: GeofenceOutcome = {
+  event: null,
+  distanceMeters: null,
+  suggestArrival: false,
+  autoArrived: false,
+  routeStarted: false,
+  alert: false,
+};
+
+export function defaultGeofenceRadius(): number {
+  const parsed = parseInt(process.env.GEOFENCE_RADIUS_METERS || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RADIUS_METERS;
+}
+
+/**
+ * Validate a geofence radius from the API; null clears it.
+ */
+export function parseGeofenceRadius(value: unknown): number | null {
+  if (value === null || value === "") return null;
+  const radius = typeof value === "string" ? Number(value) : value;
+  if (
+    typeof radius !== "number" ||
+    !Number.isInteger(radius) ||
+    radius < MIN_GEOFENCE_RADIUS_METERS ||
+    radius > MAX_GEOFENCE_RADIUS_METERS
+  ) {
+    throw new Error(
+      `Geofence radius must be a whole number of meters from ${MIN_GEOFENCE_RADIUS_METERS} to ${MAX_GEOFENCE_RADIUS_METERS}`
+    );
+  }
+  return radius;
+}
+
+/**
+ * The geofence around a customer's delivery point, if they have one.
+ */
+export async function resolveGeofence(
+  customerId: string,
+  radiusMeters: number | null
+): Promise<Geofence | null> {
+  const point = (await resolveDeliveryPoints([customerId])).get(customerId);
+  if (!point || point.source === "geocoded") {
+    return null;
+  }
+  return {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    radiusMeters: radiusMeters ?? defaultGeofenceRadius(),
+    source: point.source,
+  };
+}
+
+async function cachedGeofence(
+  customerId: string,
+  radiusMeters: number | null
+): Promise<Geofence | null> {
+  const key = `${customerId}:${radiusMeters ?? ""}`;
+  const cached = geofenceCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.geofence;
+  }
+
+  const geofence = await resolveGeofence(customerId, radiusMeters);
+  geofenceCache.set(key, { geofence, expiresAt: Date.now() + GEOFENCE_CACHE_MS });
+  return geofence;
+}
+
+/**
+ * Check a driver's location update against the geofence of the stop it was
+ * sent for, recording and acting on any crossing.
+ */
+export async function evaluateGeofence(fix: GeofenceFix): Promise<GeofenceOutcome> {
+  const stop = await prisma.stop.findFirst({
+    where: { id: fix.stopId, isDeleted: false },
+    select: {
+      id: true,
+      status: true,
+      routeId: true,
+      customerId: true,
+      customer: { select: { geofenceRadiusMeters: true } },
+      geofenceEvents: { select: { type: true } },
+    },
+  });
+  if (!stop || (stop.status !== "ON_THE_WAY" && stop.status !== "ARRIVED")) {
+    return NO_OUTCOME;
+  }
+  const recorded = new Set(stop.geofenceEvents.map((event) => event.type));
+  if (stop.status === "ARRIVED" && recorded.has("EXITED")) {
+    return NO_OUTCOME;
+  }
+
+  const geofence = await cachedGeofence(stop.customerId, stop.customer.geofenceRadiusMeters);
+  if (!geofence || (fix.accuracy !== null && fix.accuracy > geofence.radiusMeters)) {
+    return NO_OUTCOME;
+  }
+
+  const distanceMeters =
+    distanceKm(fix.latitude, fix.longitude, geofence.latitude, geofence.longitude) * 1000;
+  const eventData = {
+    stopId: stop.id,
+    driverId: fix.driverId,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracy: fix.accuracy,
+    distanceMeters,
+    radiusMeters: geofence.radiusMeters,
+    pointSource: geofence.source,
+  };
+
+  if (stop.status === "ON_THE_WAY" && distanceMeters <= geofence.radiusMeters) {
+    let autoArrive = false;
+    let routeStarted = false;
+    if (
+      process.env.GEOFENCE_AUTO_ARRIVE === "true" &&
+      !transitionError(stop.status, "ARRIVED", "driver")
+    ) {
+      // Only if the driver hasn't changed the stop in the meantime
+      const { count } = await prisma.stop.updateMany({
+        where: { id: stop.id, status: stop.status },
+        data: { status: "ARRIVED", arrivalTime: fix.timestamp },
+      });
+      autoArrive = count > 0;
+    }
+    if (autoArrive) {
+      await recordStatusEvent({
+        stopId: stop.id,
+        customerId: stop.customerId,
+        driverId: fix.driverId,
+        fromStatus: stop.status,
+        toStatus: "ARRIVED",
+        fix,
+        automatic: true,
+      });
+      const { count } = await prisma.route.updateMany({
+        where: { id: stop.routeId, status: "PENDING" },
+        data: { status: "IN_PROGRESS" },
+      });
+      routeStarted = count > 0;
+    }
+    if (!recorded.has("ENTERED")) {
+      await prisma.geofenceEvent.create({
+        data: { ...eventData, type: "ENTERED", autoArrived: autoArrive },
+      });
+    }
+    return {
+      ...NO_OUTCOME,
+      event: recorded.has("ENTERED") ? null : "ENTERED",
+      distanceMeters,
+      suggestArrival: !autoArrive,
+      autoArrived: autoArrive,
+      routeStarted,
+    };
+  }
+
+  if (
+    stop.status === "ARRIVED" &&
+    distanceMeters > geofence.radiusMeters * EXIT_RADIUS_FACTOR &&
+    !recorded.has("EXITED")
+  ) {
+    await prisma.geofenceEvent.create({ data: { ...eventData, type: "EXITED" } });
+    return { ...NO_OUTCOME, event: "EXITED", distanceMeters, alert: true };
+  }
+
+  return { ...NO_OUTCOME, distanceMeters };
+}
@@ -0,0 +1,402 @@
+/**
+ * Watched import folder for unattended route and document ingestion.
+ *
+ * server.js polls /api/internal/process-import-inbox, which picks up every
+ * file sitting in the inbox directory:
+ *
+ *   .xlsx .xls .csv .json  route file, parsed with the saved column mapping
+ *                          profiles and merged into existing routes with
+ *                          driver-progress protection on, as an upload
+ *                          with default settings would be
+ *   .pdf                   document, auto-matched to a stop or customer the
+ *                          same way as on the document intake screen; only
+ *                          confident (MATCHED) files are attached
+ *
+ * As soon as it's handled each file moves to processed/ or failed/ under the
+ * inbox (a failed file gets a "<name>.error.txt" next to it explaining why),
+ * so a run that stops part way never imports a file twice. Route files show
+ * up in route upload history and documents in the intake batches, both
+ * marked with source "INBOX". Documents without a confident match go to
+ * failed/ and have to be uploaded on the document intake screen.
+ *
+ * Configuration:
+ *   IMPORT_INBOX_DIR            directory to watch; the inbox is off when unset
+ *   IMPORT_INBOX_USERNAME       admin account imports are recorded under
+ *                               (defaults to the first super admin)
+ *   IMPORT_INBOX_POLL_SECONDS   polling interval, read by server.js (default 120)
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import prisma from "./db";
+import { parseRouteFile, saveRoutesToDatabase } from "./routeParser";
+import { resolveParseOptions } from "./routeMappingProfiles";
+import { detectRouteFileFormat } from "./routeFileFormats";
+import { storeRouteUploadFile } from "./routeUploadHistory";
+import { commitIntakeAssignment, processIntakeFile } from "./documentIntakeService";
+
+export type InboxFileKind = "route" | "document";
+
+export interface InboxFileResult {
+  fileName: string;
+  kind: InboxFileKind | null;
+  outcome: "processed" | "failed";
+  message: string;
+  // RouteUpload id, for route files
+  uploadId?: string;
+  // DocumentIntakeBatch id, for documents
+  batchId?: string;
+}
+
+export interface InboxRunResult {
+  enabled: boolean;
+  processed: number;
+  failed: number;
+  files: InboxFileResult[];
+}
+
+export const PROCESSED_DIR = "processed";
+export const FAILED_DIR = "failed";
+
+// Files changed more recently than this may still be being copied in
+const SETTLE_MS = 10 * 1000;
+
+// Same look-back as the document intake screen's default
+const DOCUMENT_DATE_SCOPE_DAYS = 7;
+
+const ROUTE_EXTENSIONS = new Set([".xlsx", ".xls", ".csv", ".json"]);
+const DOCUMENT_EXTENSIONS = new Set([".pdf"]);
+
+export function inboxDir(): string | null {
+  return process.env.IMPORT_INBOX_DIR || null;
+}
+
+export function classifyInboxFile(fileName: string): InboxFileKind | null {
+  const extension = path.extname(fileName).toLowerCase();
+  if (ROUTE_EXTENSIONS.has(extension)) return "route";
+  if (DOCUMENT_EXTENSIONS.has(extension)) return "document";
+  return null;
+}
+
+/**
+ * Files in the inbox ready to import, oldest first: skips folders, hidden
+ * files, Office lock files ("~$...") and files still being written.
+ */
+export async function listReadyFiles(dir: string, now = Date.now()): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const ready: { name: string; mtime: number }[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.startsWith(".") || entry.name.startsWith("~$")) {
+      continue;
+    }
+    const stat = await fs.stat(path.join(dir, entry.name));
+    if (now - stat.mtimeMs >= SETTLE_MS) {
+      ready.push({ name: entry.name, mtime: stat.mtimeMs });
+    }
+  }
+
+  return ready.sort((a, b) => a.mtime - b.mtime).map((file) => file.name);
+}
+
+/**
+ * Move a file out of the inbox into processed/ or failed/, renaming it if
+ * a file of that name is already there. Failed files get an .error.txt.
+ */
+export async function moveInboxFile(
+  dir: string,
+  fileName: string,
+  target: typeof PROCESSED_DIR | typeof FAILED_DIR,
+  errorMessage?: string
+): Promise<string> {
+  const targetDir = path.join(dir, target);
+  await fs.mkdir(targetDir, { recursive: true });
+
+  let destination = path.join(targetDir, fileName);
+  try {
+    await fs.access(destination);
+    const { name, ext } = path.parse(fileName);
+    destination = path.join(targetDir, `${name}_${Date.now()}${ext}`);
+  } catch {
+    // Name is free
+  }
+
+  await fs.rename(path.join(dir, fileName), destination);
+  if (errorMessage) {
+    await fs.writeFile(`${destination}.error.txt`, `${errorMessage}\n`);
+  }
+  return destination;
+}
+
+/**
+ * The admin account inbox imports are recorded under.
+ */
+async function resolveInboxUser(): Promise<{ id: string }> {
+  const username = process.env.IMPORT_INBOX_USERNAME;
+  const user = await prisma.user.findFirst({
+    where: username
+      ? { username, role: { in: ["ADMIN", "SUPER_ADMIN"] }, isDeleted: false }
+      : { role: "SUPER_ADMIN", isDeleted: false },
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+
+  if (!user) {
+    throw new Error(
+      username
+        ? `Import inbox user "${username}" not found or not an admin`
+        : "No super admin account to record inbox imports under"
+    );
+  }
+  return user;
+}
+
+async function importRouteFile(
+  dir: string,
+  fileName: string,
+  userId: string
+): Promise<InboxFileResult> {
+  let uploadId: string | undefined;
+
+  try {
+    const buffer = await fs.readFile(path.join(dir, fileName));
+    const uploadRecord = await prisma.routeUpload.create({
+      data: {
+        fileName: `route_${Date.now()}.${detectRouteFileFormat(fileName, buffer)}`,
+        originalFileName: fileName,
+        uploadedBy: userId,
+        status: "PROCESSING",
+        source: "INBOX",
+      },
+    });
+    uploadId = uploadRecord.id;
+    const result = { fileName, kind: "route" as const, uploadId };
+
+    const storedFile = await storeRouteUploadFile(uploadRecord.id, fileName, buffer);
+    const parseResult = await parseRouteFile(buffer, fileName, await resolveParseOptions(null));
+
+    await prisma.routeUpload.update({
+      where: { id: uploadRecord.id },
+      data: {
+        rowsProcessed: parseResult.rowsProcessed,
+        rowsSucceeded: parseResult.rowsSucceeded,
+        rowsFailed: parseResult.rowsFailed,
+        ...storedFile,
+        errorMessage: parseResult.errors.length > 0 ? parseResult.errors.join("; ") : null,
+        processedAt: new Date(),
+      },
+    });
+
+    const routes = parseResult.routes ?? [];
+    if (!parseResult.success || routes.length === 0) {
+      const message = parseResult.errors.join("; ") || "No routes found in the file";
+      await prisma.routeUpload.update({
+        where: { id: uploadRecord.id },
+        data: { status: "FAILED", errorMessage: message },
+      });
+      return { ...result, outcome: "failed", message };
+    }
+
+    // No action: merge into an existing route for the same day, or create
+    const saved = await saveRoutesToDatabase(
+      routes.map((detected) => ({ route: detected.route, action: null })),
+      userId,
+      uploadRecord.fileName,
+      { protectDriverProgress: true, uploadId: uploadRecord.id }
+    );
+    await prisma.routeUpload.update({
+      where: { id: uploadRecord.id },
+      data: { status: "COMPLETED" },
+    });
+
+    return {
+      ...result,
+      outcome: "processed",
+      message: saved
+        .map(({ route, isUpdate }) => `Route ${route.routeNumber ?? "N/A"} ${isUpdate ? "merged" : "created"}`)
+        .join(", "),
+    };
+  } catch (error) {
+    const message = (error as Error).message;
+    if (uploadId) {
+      await prisma.routeUpload.update({
+        where: { id: uploadId },
+        data: { status: "FAILED", errorMessage: message, processedAt: new Date() },
+      });
+    }
+    return { fileName, kind: "route", uploadId, outcome: "failed", message };
+  }
+}
+
+// Move a handled file out of the inbox straight away
+async function settleInboxFile(dir: string, result: InboxFileResult) {
+  try {
+    await moveInboxFile(
+      dir,
+      result.fileName,
+      result.outcome === "processed" ? PROCESSED_DIR : FAILED_DIR,
+      result.outcome === "failed" ? result.message : undefined
+    );
+  } catch (error) {
+    console.error(`Error moving inbox file ${result.fileName}:`, error);
+  }
+}
+
+async function importDocument(
+  batchId: string,
+  dir: string,
+  fileName: string,
+  userId: string
+): Promise<InboxFileResult> {
+  const buffer = await fs.readFile(path.join(dir, fileName));
+  const result = { fileName, kind: "document" as const, batchId };
+
+  const scan = await processIntakeFile(fileName, buffer.length, DOCUMENT_DATE_SCOPE_DAYS);
+  if (scan.status !== "MATCHED" || !scan.resolvedTo) {
+    const message = `${scan.reason || "No confident match"}; the file is in the inbox's ${FAILED_DIR}/ folder - upload it on the document intake screen to assign it`;
+    await prisma.documentIntakeLog.create({
+      data: {
+        batchId,
+        fileName,
+        fileSize: buffer.length,
+        status: "UNMATCHED",
+        errorMessage: message,
+      },
+    });
+    return { ...result, outcome: "failed", message };
+  }
+
+  const commit = await commitIntakeAssignment(
+    batchId,
+    {
+      fileName,
+      stopId: scan.resolvedTo.stopId,
+      customerId: scan.resolvedTo.customerId,
+      docType: scan.docTypeHint ?? "INVOICE",
+      referenceNumber: scan.extractedNumber || scan.triedNumbers[0] || "",
+    },
+    {
+      name: fileName,
+      size: buffer.length,
+      type: "application/pdf",
+      arrayBuffer: async () =>
+        buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+    },
+    userId
+  );
+
+  if (commit.outcome !== "committed") {
+    return {
+      ...result,
+      outcome: "failed",
+      message: commit.outcome === "skipped" ? commit.reason : commit.error,
+    };
+  }
+  return {
+    ...result,
+    outcome: "processed",
+    message: `Attached to ${scan.resolvedTo.customerName}, route ${scan.resolvedTo.routeNumber}`,
+  };
+}
+
+/**
+ * Auto-match and attach the documents, all in one intake batch, moving each
+ * out of the inbox once it's handled. Files that don't match a single stop
+ * or customer with certainty are logged UNMATCHED and go to failed/.
+ */
+async function importDocuments(
+  dir: string,
+  fileNames: string[],
+  userId: string
+): Promise<InboxFileResult[]> {
+  const batch = await prisma.documentIntakeBatch.create({
+    data: { status: "PENDING", totalFiles: fileNames.length, createdBy: userId, source: "INBOX" },
+  });
+
+  const results: InboxFileResult[] = [];
+  for (const fileName of fileNames) {
+    let result: InboxFileResult;
+    try {
+      result = await importDocument(batch.id, dir, fileName, userId);
+    } catch (error) {
+      result = {
+        fileName,
+        kind: "document",
+        batchId: batch.id,
+        outcome: "failed",
+        message: (error as Error).message,
+      };
+    }
+    await settleInboxFile(dir, result);
+    results.push(result);
+  }
+
+  const matched = results.filter((file) => file.outcome === "processed").length;
+  await prisma.documentIntakeBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: "COMMITTED",
+      matchedCount: matched,
+      unmatchedCount: results.length - matched,
+    },
+  });
+
+  return results;
+}
+
+let running = false;
+
+/**
+ * Import everything waiting in the inbox. Does nothing when the inbox isn't
+ * configured or a previous run is still going.
+ */
+export async function processImportInbox(): Promise<InboxRunResult> {
+  const dir = inboxDir();
+  if (!dir || running) {
+    return { enabled: !!dir, processed: 0, failed: 0, files: [] };
+  }
+
+  running = true;
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    const fileNames = await listReadyFiles(dir);
+    if (fileNames.length === 0) {
+      return { enabled: true, processed: 0, failed: 0, files: [] };
+    }
+
+    const user = await resolveInboxUser();
+    const results: InboxFileResult[] = [];
+
+    for (const fileName of fileNames) {
+      const kind = classifyInboxFile(fileName);
+      if (kind === "document") continue;
+
+      const result: InboxFileResult =
+        kind === "route"
+          ? await importRouteFile(dir, fileName, user.id)
+          : {
+              fileName,
+              kind,
+              outcome: "failed",
+              message: `Unsupported file type; the inbox takes ${[...ROUTE_EXTENSIONS, ...DOCUMENT_EXTENSIONS].join(", ")}`,
+            };
+      await settleInboxFile(dir, result);
+      results.push(result);
+    }
+
+    // Documents left in the inbox when this fails are picked up next run
+    const documents = fileNames.filter((fileName) => classifyInboxFile(fileName) === "document");
+    if (documents.length > 0) {
+      try {
+        results.push(...(await importDocuments(dir, documents, user.id)));
+      } catch (error) {
+        console.error("Error importing inbox documents:", error);
+      }
+    }
+
+    const processed = results.filter((result) => result.outcome === "processed").length;
+    return { enabled: true, processed, failed: results.length - processed, files: results };
+  } finally {
+    running = false;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * String comparison helpers shared by driver and customer matching on
+ * route import.
+ */
+
+/**
+ * Lower-case a name and strip accents and punctuation, collapsing whatever
+ * is left into single-spaced words.
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit-distance similarity: 1 for identical strings, 0 for nothing in common.
+ */
+export function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Share of distinct words the two (normalized) strings have in common, in
+ * any order.
+ */
+export function tokenOverlap(a: string, b: string): number {
+  const aTokens = new Set(a.split(" ").filter(Boolean));
+  const bTokens = new Set(b.split(" ").filter(Boolean));
+  if (aTokens.size === 0 || bTokens.size === 0) return 0;
+  let shared = 0;
+  aTokens.forEach((token) => {
+    if (bTokens.has(token)) shared++;
+  });
+  return shared / new Set([...aTokens, ...bTokens]).size;
+}
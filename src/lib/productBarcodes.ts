@@ -0,0 +1,64 @@
+/**
+ * Barcodes (UPC, EAN, case codes) on products.
+ *
+ * A product can carry several barcodes and each code belongs to one active
+ * product. Barcodes are loaded with the product upload and looked up when a
+ * driver scans an item being returned.
+ */
+
+import prisma from "./db";
+import { isValidBarcode, normalizeBarcode } from "@/utils/productBarcodes";
+
+/**
+ * Replace a product's barcodes. Codes already on another active product are
+ * left there and reported back as warnings; codes on deleted products move
+ * to this one.
+ */
+export async function setProductBarcodes(productId: string, codes: string[]): Promise<string[]> {
+  const taken = await prisma.productBarcode.findMany({
+    where: { code: { in: codes }, productId: { not: productId }, product: { isDeleted: false } },
+    include: { product: { select: { sku: true } } },
+  });
+  const takenCodes = new Set(taken.map((barcode) => barcode.code));
+  const keep = codes.filter((code) => !takenCodes.has(code));
+
+  await prisma.$transaction([
+    prisma.productBarcode.deleteMany({
+      where: {
+        OR: [
+          { productId, code: { notIn: keep } },
+          { code: { in: keep }, productId: { not: productId } },
+        ],
+      },
+    }),
+    prisma.productBarcode.createMany({
+      data: keep.map((code) => ({ productId, code })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return taken.map(
+    (barcode) => `Barcode ${barcode.code} is already on product ${barcode.product.sku} and was not added`
+  );
+}
+
+/**
+ * The active product with this barcode, or null when the code is unknown.
+ */
+export async function findProductByBarcode(value: string) {
+  const code = normalizeBarcode(value);
+  if (!isValidBarcode(code)) {
+    return null;
+  }
+
+  const barcode = await prisma.productBarcode.findFirst({
+    where: { code, product: { isDeleted: false } },
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, description: true, unit: true },
+      },
+    },
+  });
+
+  return barcode ? barcode.product : null;
+}
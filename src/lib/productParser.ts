@@ -1,5 +1,7 @@
 import * as XLSX from "xlsx";
 import { PrismaClient } from "@prisma/client";
+import { setProductBarcodes } from "./productBarcodes";
+import { splitBarcodes } from "@/utils/productBarcodes";
 
 const prisma = new PrismaClient();
 
@@ -8,6 +10,7 @@ interface ProductData {
   sku: string;
   description?: string;
   unit?: string;
+  barcodes?: string[];
 }
 
 interface ParseResult {
@@ -97,6 +100,14 @@ export async function parseProductFile(buffer: Buffer): Promise<ParseResult> {
             row["Unit of Measure"] ||
             ""
         ).trim();
+        const { barcodes, invalid } = splitBarcodes(
+          row["Barcodes"] ??
+            row["Barcode"] ??
+            row["barcodes"] ??
+            row["barcode"] ??
+            row["UPC"] ??
+            row["UPCs"]
+        );
 
         // Check for empty values after string conversion
         if (!name || name === "undefined" || name === "null") {
@@ -120,8 +131,13 @@ export async function parseProductFile(buffer: Buffer): Promise<ParseResult> {
               : undefined,
           unit:
             unit && unit !== "undefined" && unit !== "null" ? unit : undefined,
+          barcodes: barcodes.length > 0 ? barcodes : undefined,
         });
 
+        for (const code of invalid) {
+          warnings.push(`Row ${i + 2}: Barcode "${code}" is not valid and was skipped.`);
+        }
+
         rowsSucceeded++;
       } catch (error) {
         warnings.push(
@@ -159,7 +175,8 @@ export async function parseProductFile(buffer: Buffer): Promise<ParseResult> {
 }
 
 /**
- * Process products and save to database
+ * Process products and save to database. A product's barcodes are replaced
+ * when its row lists any; a blank barcode cell keeps the existing ones.
  */
 export async function processProducts(
   products: ProductData[]
@@ -179,8 +196,10 @@ export async function processProducts(
         },
       });
 
+      let productId: string;
       if (existingProduct) {
         // Update existing product
+        productId = existingProduct.id;
         await prisma.product.update({
           where: { id: existingProduct.id },
           data: {
@@ -192,7 +211,7 @@ export async function processProducts(
         productsUpdated++;
       } else {
         // Create new product
-        await prisma.product.create({
+        const created = await prisma.product.create({
           data: {
             name: product.name,
             sku: product.sku,
@@ -200,8 +219,13 @@ export async function processProducts(
             unit: product.unit || null,
           },
         });
+        productId = created.id;
         productsAdded++;
       }
+
+      if (product.barcodes) {
+        warnings.push(...(await setProductBarcodes(productId, product.barcodes)));
+      }
     } catch (error) {
       console.error(`Error processing product ${product.sku}:`, error);
       warnings.push(
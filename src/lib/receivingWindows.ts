@@ -0,0 +1,216 @@
+/**
+ * Customer receiving hours.
+ *
+ * A customer can have receiving windows per weekday (more than one a day),
+ * weekdays they're closed and dock notes. Weekdays with no windows and not
+ * closed have no restriction.
+ *
+ * Route sequences are checked against them with the arrival times projected
+ * in stopEtas.ts: a stop is flagged when the projected arrival is after the
+ * day's last window closes (LATE) or the customer is closed that day
+ * (CLOSED).
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import prisma from "./db";
+import {
+  ReceivingWindow,
+  WEEKDAY_NAMES,
+  describeReceivingDay,
+  parseTimeOfDay,
+  windowsForWeekday,
+} from "@/utils/receivingHours";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReceivingHoursInput {
+  windows: ReceivingWindow[];
+  closedWeekdays: number[];
+  dockNotes: string | null;
+}
+
+export type WindowVerdict = "OK" | "EARLY" | "LATE" | "CLOSED" | "NO_HOURS";
+
+export interface StopWindowCheck {
+  stopId: string;
+  customerName: string;
+  projectedArrival: string;
+  verdict: WindowVerdict;
+  // The customer's hours that day, e.g. "7:00 AM – 11:00 AM"
+  hours: string | null;
+  // Minutes the driver will wait for the window to open
+  waitMinutes: number;
+}
+
+export interface RouteWindowCheck {
+  routeId: string;
+  checks: StopWindowCheck[];
+  // Stops that will probably be missed (LATE or CLOSED)
+  flagged: number;
+}
+
+const PACIFIC = "America/Los_Angeles";
+const MAX_DOCK_NOTES_LENGTH = 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Validate receiving hours from the API.
+ */
+export function sanitizeReceivingHours(value: unknown): {
+  hours: ReceivingHoursInput;
+  errors: string[];
+} {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const isWeekday = (day: unknown): day is number =>
+    typeof day === "number" && Number.isInteger(day) && day >= 0 && day <= 6;
+
+  const windows: ReceivingWindow[] = [];
+  const rawWindows = input.windows ?? [];
+  if (!Array.isArray(rawWindows)) {
+    errors.push("windows must be an array");
+  } else {
+    rawWindows.forEach((raw, index) => {
+      const window = (raw ?? {}) as Record<string, unknown>;
+      const opens = typeof window.opensAt === "string" ? parseTimeOfDay(window.opensAt) : null;
+      const closes = typeof window.closesAt === "string" ? parseTimeOfDay(window.closesAt) : null;
+      if (!isWeekday(window.weekday)) {
+        errors.push(`Window ${index + 1}: weekday must be 0 (Sunday) to 6 (Saturday)`);
+      } else if (opens === null || closes === null) {
+        errors.push(`Window ${index + 1}: opensAt and closesAt must be HH:MM`);
+      } else if (closes <= opens) {
+        errors.push(`Window ${index + 1}: must close after it opens`);
+      } else {
+        windows.push({
+          weekday: window.weekday,
+          opensAt: window.opensAt as string,
+          closesAt: window.closesAt as string,
+        });
+      }
+    });
+  }
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const day = windowsForWeekday(windows, weekday);
+    for (let i = 1; i < day.length; i++) {
+      if (day[i].opensAt < day[i - 1].closesAt) {
+        errors.push(`${WEEKDAY_NAMES[weekday]}: receiving windows overlap`);
+        break;
+      }
+    }
+  }
+
+  const rawClosed = input.closedWeekdays ?? [];
+  if (!Array.isArray(rawClosed) || !rawClosed.every(isWeekday)) {
+    errors.push("closedWeekdays must be weekdays from 0 (Sunday) to 6 (Saturday)");
+  }
+  const closedWeekdays = Array.isArray(rawClosed)
+    ? [...new Set(rawClosed.filter(isWeekday))].sort((a, b) => a - b)
+    : [];
+  for (const weekday of closedWeekdays) {
+    if (windows.some((window) => window.weekday === weekday)) {
+      errors.push(`${WEEKDAY_NAMES[weekday]} is marked closed but has receiving windows`);
+    }
+  }
+
+  const dockNotes =
+    typeof input.dockNotes === "string" && input.dockNotes.trim() ? input.dockNotes.trim() : null;
+  if (dockNotes && dockNotes.length > MAX_DOCK_NOTES_LENGTH) {
+    errors.push(`dockNotes must be ${MAX_DOCK_NOTES_LENGTH} characters or fewer`);
+  }
+
+  return { hours: { windows, closedWeekdays, dockNotes }, errors };
+}
+
+/**
+ * Replace a customer's receiving hours.
+ */
+export async function saveReceivingHours(
+  customerId: string,
+  hours: ReceivingHoursInput,
+  db: DbClient = prisma
+): Promise<void> {
+  await db.customerReceivingWindow.deleteMany({ where: { customerId } });
+  if (hours.windows.length > 0) {
+    await db.customerReceivingWindow.createMany({
+      data: hours.windows.map((window) => ({ customerId, ...window })),
+    });
+  }
+  await db.customer.update({
+    where: { id: customerId },
+    data: { closedWeekdays: hours.closedWeekdays, dockNotes: hours.dockNotes },
+  });
+}
+
+/**
+ * Pacific wall-clock date, weekday and minutes after midnight of an instant.
+ */
+export function pacificParts(date: Date): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: PACIFIC,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  const dateString = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date: dateString,
+    weekday: new Date(`${dateString}T00:00:00Z`).getUTCDay(),
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+  };
+}
+
+/**
+ * The instant a Pacific wall-clock time occurs on a date ("YYYY-MM-DD").
+ */
+export function pacificTime(dateString: string, minutes: number): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Guess PST, then correct by however far the Pacific clock is off at that
+  // instant (an hour during PDT)
+  const guess = wallClock + 8 * 60 * MINUTE_MS;
+  const actual = pacificParts(new Date(guess));
+  const [actualYear, actualMonth, actualDay] = actual.date.split("-").map(Number);
+  const actualWallClock = Date.UTC(actualYear, actualMonth - 1, actualDay, 0, actual.minutes);
+  return new Date(guess - (actualWallClock - wallClock));
+}
+
+/**
+ * Where an arrival falls against a customer's hours that day, and when the
+ * driver can start unloading.
+ */
+export function evaluateArrival(
+  arrival: Date,
+  windows: ReceivingWindow[],
+  closedWeekdays: number[]
+): { verdict: WindowVerdict; startAt: Date; hours: string | null } {
+  const { date, weekday, minutes } = pacificParts(arrival);
+  const hours = describeReceivingDay(windows, closedWeekdays, weekday);
+
+  if (closedWeekdays.includes(weekday)) {
+    return { verdict: "CLOSED", startAt: arrival, hours };
+  }
+  const dayWindows = windowsForWeekday(windows, weekday);
+  if (dayWindows.length === 0) {
+    return { verdict: "NO_HOURS", startAt: arrival, hours };
+  }
+
+  for (const window of dayWindows) {
+    const opens = parseTimeOfDay(window.opensAt)!;
+    const closes = parseTimeOfDay(window.closesAt)!;
+    if (minutes < opens) {
+      return { verdict: "EARLY", startAt: pacificTime(date, opens), hours };
+    }
+    if (minutes < closes) {
+      return { verdict: "OK", startAt: arrival, hours };
+    }
+  }
+  return { verdict: "LATE", startAt: arrival, hours };
+}
@@ -0,0 +1,205 @@
+/**
+ * Redelivery queue.
+ *
+ * A stop is queued for redelivery when it FAILED, or when its route's day
+ * has passed and the stop was never finished. Rescheduling copies the stop
+ * onto a future route as a new PENDING stop linked back to the original
+ * (redeliveryOfId), with the same invoice, order, amount and order lines,
+ * and the same documents attached. Once a stop has a redelivery it leaves
+ * the queue. An unfinished original is cancelled so its old route can be
+ * closed out.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { getTodayStartUTC, formatDatePST } from "./timezone";
+
+// Stops that still need delivering and haven't been rescheduled yet
+export function redeliveryQueueWhere(todayStart: Date): Prisma.StopWhereInput {
+  return {
+    isDeleted: false,
+    route: { isDeleted: false },
+    redeliveries: { none: { isDeleted: false } },
+    OR: [
+      { status: "FAILED" },
+      {
+        status: { in: ["PENDING", "ON_THE_WAY", "ARRIVED"] },
+        route: { date: { lt: todayStart } },
+      },
+    ],
+  };
+}
+
+export async function getRedeliveryQueue() {
+  return prisma.stop.findMany({
+    where: redeliveryQueueWhere(getTodayStartUTC()),
+    include: {
+      customer: { select: { id: true, name: true, address: true } },
+      failureReason: { select: { code: true, label: true } },
+      route: {
+        select: {
+          id: true,
+          routeNumber: true,
+          date: true,
+          driver: { select: { id: true, username: true, fullName: true } },
+        },
+      },
+    },
+    orderBy: [{ route: { date: "asc" } }, { sequence: "asc" }],
+  });
+}
+
+// Routes a queued stop can be moved onto: today or later, not finished
+export async function getRedeliveryTargetRoutes() {
+  return prisma.route.findMany({
+    where: {
+      isDeleted: false,
+      status: { in: ["PENDING", "IN_PROGRESS"] },
+      date: { gte: getTodayStartUTC() },
+    },
+    select: {
+      id: true,
+      routeNumber: true,
+      date: true,
+      driver: { select: { id: true, username: true, fullName: true } },
+    },
+    orderBy: [{ date: "asc" }, { routeNumber: "asc" }],
+    take: 100,
+  });
+}
+
+/**
+ * Copy a queued stop onto `routeId` as the last stop. Returns the new stop.
+ */
+export async function scheduleRedelivery(
+  stopId: string,
+  routeId: string,
+  adminId: string
+) {
+  const todayStart = getTodayStartUTC();
+
+  const stop = await prisma.stop.findFirst({
+    where: { id: stopId, isDeleted: false },
+    include: {
+      route: { select: { routeNumber: true, date: true } },
+      stopDocuments: { where: { isDeleted: false }, select: { documentId: true } },
+      orderLines: { where: { isDeleted: false }, orderBy: { sortOrder: "asc" } },
+    },
+  });
+  if (!stop) {
+    throw new Error("Stop not found");
+  }
+
+  const route = await prisma.route.findFirst({
+    where: { id: routeId, isDeleted: false },
+    include: {
+      driver: { select: { username: true } },
+      stops: {
+        where: { isDeleted: false },
+        orderBy: { sequence: "desc" },
+        take: 1,
+        select: { sequence: true },
+      },
+    },
+  });
+  if (!route) {
+    throw new Error("Route not found");
+  }
+  if (route.id === stop.routeId) {
+    throw new Error("Pick a different route than the one the stop was on");
+  }
+  if (route.date < todayStart) {
+    throw new Error("Redeliveries can only be scheduled on today's or a future route");
+  }
+  if (route.status === "COMPLETED" || route.status === "CANCELLED") {
+    throw new Error(`Route ${route.routeNumber || "N/A"} is ${route.status.toLowerCase()}`);
+  }
+
+  const from = `route ${stop.route.routeNumber || "N/A"} on ${formatDatePST(stop.route.date)}`;
+  const to = `route ${route.routeNumber || "N/A"} on ${formatDatePST(route.date)}`;
+
+  return prisma.$transaction(async (tx) => {
+    // Requests to redeliver the same stop run one at a time, so a stop that's
+    // just been rescheduled is seen as out of the queue
+    await tx.$queryRaw`SELECT id FROM stops WHERE id = ${stopId} FOR UPDATE`;
+
+    const queued = await tx.stop.count({
+      where: { id: stopId, ...redeliveryQueueWhere(todayStart) },
+    });
+    if (queued === 0) {
+      throw new Error("Only failed or undelivered stops that haven't been rescheduled can be redelivered");
+    }
+
+    const redelivery = await tx.stop.create({
+      data: {
+        routeId: route.id,
+        customerId: stop.customerId,
+        sequence: (route.stops[0]?.sequence || 0) + 1,
+        address: stop.address,
+        customerNameFromUpload: stop.customerNameFromUpload,
+        driverNameFromUpload: route.driver?.username ?? stop.driverNameFromUpload,
+        orderNumberWeb: stop.orderNumberWeb,
+        quickbooksInvoiceNum: stop.quickbooksInvoiceNum,
+        initialDriverNotes: stop.initialDriverNotes,
+        isCOD: stop.isCOD,
+        paymentTerms: stop.paymentTerms,
+        paymentTermsOther: stop.paymentTermsOther,
+        amount: stop.amount,
+        status: "PENDING",
+        redeliveryOfId: stop.id,
+        stopDocuments: {
+          create: stop.stopDocuments.map(({ documentId }) => ({ documentId })),
+        },
+        orderLines: {
+          create: stop.orderLines.map((line) => ({
+            productId: line.productId,
+            sku: line.sku,
+            description: line.description,
+            unit: line.unit,
+            orderedQty: line.orderedQty,
+            unitPrice: line.unitPrice,
+            sortOrder: line.sortOrder,
+          })),
+        },
+      },
+      include: {
+        route: { select: { id: true, routeNumber: true, date: true } },
+      },
+    });
+
+    if (stop.status !== "FAILED") {
+      await tx.stop.update({
+        where: { id: stop.id },
+        data: { status: "CANCELLED" },
+      });
+    }
+
+    await tx.adminNote.createMany({
+      data: [
+        { stopId: stop.id, adminId, note: `Rescheduled for redelivery on ${to}` },
+        { stopId: redelivery.id, adminId, note: `Redelivery of the stop on ${from}` },
+      ],
+    });
+
+    return redelivery;
+  });
+}
+
+// Route info shown wherever a stop links to its original or redelivery
+export const REDELIVERY_LINK_INCLUDE = {
+  redeliveryOf: {
+    select: {
+      id: true,
+      status: true,
+      route: { select: { id: true, routeNumber: true, date: true } },
+    },
+  },
+  redeliveries: {
+    where: { isDeleted: false },
+    select: {
+      id: true,
+      status: true,
+      route: { select: { id: true, routeNumber: true, date: true } },
+    },
+  },
+} satisfies Prisma.StopInclude;
@@ -0,0 +1,128 @@
+/**
+ * Return reason codes.
+ *
+ * Drivers pick the reason for each returned item from the managed
+ * return_reasons list; reasons that ask for it need a photo of the item,
+ * taken through the stop's return-photo upload.
+ * Return.reasonCode holds the code, so returns logged before the list
+ * existed keep their free-text reason.
+ */
+
+import prisma from "./db";
+
+export interface ReturnReasonFields {
+  code: string;
+  label: string;
+  description: string | null;
+  requiresPhoto: boolean;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface ReturnReasonInput {
+  reasonCode?: unknown;
+  photoUrls?: unknown;
+}
+
+// Where the return-photo route saves a stop's photos
+function isReturnPhotoUrl(url: unknown, stopId: string): boolean {
+  const prefix = `/uploads/returns/${stopId}_`;
+  return typeof url === "string" && url.startsWith(prefix) && !url.includes("/", prefix.length);
+}
+
+/**
+ * Check the reason and photos given for each item returned at a stop.
+ * Returns the photo URLs per item, in order.
+ */
+export async function validateReturnReasons(
+  items: ReturnReasonInput[],
+  stopId: string
+): Promise<string[][]> {
+  const codes = items.map((item) =>
+    typeof item.reasonCode === "string" ? item.reasonCode.trim() : ""
+  );
+  if (codes.some((code) => !code)) {
+    throw new Error("Each returned item needs a reason");
+  }
+
+  const reasons = await prisma.returnReason.findMany({
+    where: { code: { in: [...new Set(codes)] }, isActive: true },
+  });
+  const byCode = new Map(reasons.map((reason) => [reason.code, reason]));
+
+  return items.map((item, index) => {
+    const reason = byCode.get(codes[index]);
+    if (!reason) {
+      throw new Error(`Unknown return reason: ${codes[index]}`);
+    }
+
+    const photoUrls = item.photoUrls ?? [];
+    if (!Array.isArray(photoUrls) || !photoUrls.every((url) => isReturnPhotoUrl(url, stopId))) {
+      throw new Error("photoUrls must be photos uploaded for this stop");
+    }
+    if (reason.requiresPhoto && photoUrls.length === 0) {
+      throw new Error(`A photo is required for returns marked "${reason.label}"`);
+    }
+    return photoUrls as string[];
+  });
+}
+
+/**
+ * Validate a return reason from the admin API. The code is only set when
+ * the reason is created.
+ */
+export function sanitizeReturnReason(
+  value: unknown,
+  { creating }: { creating: boolean }
+): { reason: Partial<ReturnReasonFields>; errors: string[] } {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const reason: Partial<ReturnReasonFields> = {};
+  const errors: string[] = [];
+
+  if (creating) {
+    const code =
+      typeof input.code === "string" ? input.code.trim().toUpperCase().replace(/\s+/g, "_") : "";
+    if (!/^[A-Z][A-Z0-9_]*$/.test(code)) {
+      errors.push("code must be letters, numbers and underscores, e.g. DAMAGED");
+    } else {
+      reason.code = code;
+    }
+  }
+
+  if (creating || input.label !== undefined) {
+    const label = typeof input.label === "string" ? input.label.trim() : "";
+    if (!label) {
+      errors.push("label is required");
+    } else {
+      reason.label = label;
+    }
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      errors.push("description must be text");
+    } else {
+      reason.description = (input.description as string | null)?.trim() || null;
+    }
+  }
+
+  for (const field of ["requiresPhoto", "isActive"] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== "boolean") {
+        errors.push(`${field} must be true or false`);
+      } else {
+        reason[field] = input[field] as boolean;
+      }
+    }
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      errors.push("sortOrder must be a whole number");
+    } else {
+      reason.sortOrder = input.sortOrder as number;
+    }
+  }
+
+  return { reason, errors };
+}
@@ -0,0 +1,120 @@
+/**
+ * Warehouse receiving of returns.
+ *
+ * Drivers log returned items at the stop. When the goods come back, staff
+ * count each item, record its condition and where it was put away. A
+ * received quantity that differs from what the driver logged is shown as a
+ * discrepancy on the receiving screen. Once everything returned on a stop
+ * has been received, a draft credit memo is created for it.
+ */
+
+import type { Prisma, ReturnCondition } from "@prisma/client";
+import prisma from "./db";
+import { isReturnCondition } from "@/utils/returnReceiving";
+import { draftCreditMemoForStop, syncDraftForReceipt } from "./creditMemoDrafts";
+
+export type ReceivingFilter = "pending" | "received" | "all";
+
+export interface ReturnReceipt {
+  receivedQty: number;
+  receivedCondition: ReturnCondition;
+  warehouseLocation: string | null;
+  receivingNotes: string | null;
+}
+
+/**
+ * Returns logged by drivers, oldest first while waiting and newest first
+ * once received.
+ */
+export async function getReceivingQueue(filter: ReceivingFilter) {
+  const where: Prisma.ReturnWhereInput = {
+    isDeleted: false,
+    stop: { isDeleted: false },
+    ...(filter === "pending" ? { receivedAt: null } : {}),
+    ...(filter === "received" ? { receivedAt: { not: null } } : {}),
+  };
+
+  return prisma.return.findMany({
+    where,
+    include: {
+      product: { select: { id: true, name: true, sku: true, unit: true } },
+      receivedBy: { select: { username: true, fullName: true } },
+      stop: {
+        select: {
+          id: true,
+          customerNameFromUpload: true,
+          driverNameFromUpload: true,
+          customer: { select: { name: true } },
+          route: { select: { id: true, routeNumber: true, date: true } },
+        },
+      },
+    },
+    orderBy: filter === "pending" ? { createdAt: "asc" } : { receivedAt: "desc" },
+    take: 500,
+  });
+}
+
+/**
+ * Validate what warehouse staff counted for a returned item.
+ */
+export function sanitizeReceipt(value: unknown): {
+  receipt: ReturnReceipt;
+  errors: string[];
+} {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const receivedQty = Number(input.receivedQty);
+  if (input.receivedQty === null || input.receivedQty === "" || !Number.isInteger(receivedQty) || receivedQty < 0) {
+    errors.push("receivedQty must be a whole number of 0 or more");
+  }
+  if (!isReturnCondition(input.receivedCondition)) {
+    errors.push("receivedCondition must be GOOD, DAMAGED or UNSELLABLE");
+  }
+
+  const text = (field: string) =>
+    typeof input[field] === "string" && (input[field] as string).trim()
+      ? (input[field] as string).trim()
+      : null;
+
+  return {
+    receipt: {
+      receivedQty,
+      receivedCondition: input.receivedCondition as ReturnCondition,
+      warehouseLocation: text("warehouseLocation"),
+      receivingNotes: text("receivingNotes"),
+    },
+    errors,
+  };
+}
+
+/**
+ * Record the receipt of a returned item. Receiving again corrects the
+ * earlier count (and the draft credit memo, if there is one). Also returns
+ * the credit memo drafted when this was the last item on the stop.
+ */
+export async function receiveReturn(returnId: string, receipt: ReturnReceipt, staffId: string) {
+  const existing = await prisma.return.findFirst({
+    where: { id: returnId, isDeleted: false },
+    select: { id: true, stopId: true },
+  });
+  if (!existing) {
+    throw new Error("Return not found");
+  }
+
+  const received = await prisma.$transaction(async (tx) => {
+    await syncDraftForReceipt(tx, returnId, receipt.receivedQty);
+    return tx.return.update({
+      where: { id: returnId },
+      data: {
+        ...receipt,
+        receivedAt: new Date(),
+        receivedById: staffId,
+      },
+    });
+  });
+
+  const creditMemo = await draftCreditMemoForStop(existing.stopId);
+
+  return { received, creditMemo };
+}
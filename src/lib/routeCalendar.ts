@@ -0,0 +1,358 @@
+/**
+ * Route planning calendar.
+ *
+ * The calendar shows one entry per route and driver per day: a route's
+ * stops can belong to several drivers (driverNameFromUpload), and stops
+ * without a driver name belong to the route's default driver. Each entry
+ * carries that driver's stop count and invoice total.
+ *
+ * Dragging an entry moves the route to another day and/or hands that
+ * driver's stops to another driver. A move is previewed first: the preview
+ * lists conflicts (a driver already has a route that day, their vehicle
+ * isn't ACTIVE, or the day already has a route with the same number) and the
+ * admin decides whether to save anyway.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import {
+  createPSTDateFromString,
+  getPSTDateString,
+  toPSTEndOfDay,
+} from "./timezone";
+import { templateRunDates } from "./routeTemplates";
+
+export interface CalendarDriver {
+  id: string;
+  username: string;
+  fullName: string | null;
+}
+
+export interface CalendarEntry {
+  routeId: string;
+  routeNumber: string | null;
+  // YYYY-MM-DD in PST
+  date: string;
+  status: string;
+  // The driver name on the stops; null when nobody is assigned
+  driverName: string | null;
+  // null when the driver name doesn't match a driver account
+  driverId: string | null;
+  stopCount: number;
+  completedStops: number;
+  totalAmount: number;
+}
+
+export interface RouteCalendar {
+  days: string[];
+  drivers: CalendarDriver[];
+  entries: CalendarEntry[];
+}
+
+export interface RouteMove {
+  routeId: string;
+  // driverName of the entry that was dragged
+  fromDriverName: string | null;
+  toDate?: string;
+  // Leave out to keep the driver; null unassigns the stops
+  toDriverId?: string | null;
+}
+
+const EVERY_WEEKDAY = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Every route between `from` and `to` (YYYY-MM-DD, inclusive), split into
+ * one entry per driver.
+ */
+export async function getRouteCalendar(from: string, to: string): Promise<RouteCalendar> {
+  const days = templateRunDates(EVERY_WEEKDAY, from, to);
+
+  const [routes, drivers] = await Promise.all([
+    prisma.route.findMany({
+      where: {
+        isDeleted: false,
+        date: {
+          gte: createPSTDateFromString(from),
+          lte: toPSTEndOfDay(createPSTDateFromString(to)),
+        },
+      },
+      include: {
+        driver: { select: { username: true } },
+        stops: {
+          where: { isDeleted: false },
+          select: { driverNameFromUpload: true, status: true, amount: true },
+        },
+      },
+      orderBy: [{ date: "asc" }, { routeNumber: "asc" }],
+    }),
+    prisma.user.findMany({
+      where: { role: "DRIVER", isDeleted: false },
+      select: { id: true, username: true, fullName: true },
+      orderBy: { username: "asc" },
+    }),
+  ]);
+
+  const driverIds = new Map(drivers.map((driver) => [driver.username, driver.id]));
+  const entries: CalendarEntry[] = [];
+
+  for (const route of routes) {
+    const byDriver = new Map<string | null, CalendarEntry>();
+    const defaultDriver = route.driver?.username ?? null;
+
+    for (const stop of route.stops) {
+      const driverName = stop.driverNameFromUpload || defaultDriver;
+      let entry = byDriver.get(driverName);
+      if (!entry) {
+        entry = {
+          routeId: route.id,
+          routeNumber: route.routeNumber,
+          date: getPSTDateString(route.date),
+          status: route.status,
+          driverName,
+          driverId: driverName ? driverIds.get(driverName) ?? null : null,
+          stopCount: 0,
+          completedStops: 0,
+          totalAmount: 0,
+        };
+        byDriver.set(driverName, entry);
+      }
+      entry.stopCount += 1;
+      if (stop.status === "COMPLETED") {
+        entry.completedStops += 1;
+      }
+      entry.totalAmount += stop.amount ?? 0;
+    }
+
+    // A route without stops still shows up under its default driver
+    if (byDriver.size === 0) {
+      byDriver.set(defaultDriver, {
+        routeId: route.id,
+        routeNumber: route.routeNumber,
+        date: getPSTDateString(route.date),
+        status: route.status,
+        driverName: defaultDriver,
+        driverId: route.driverId,
+        stopCount: 0,
+        completedStops: 0,
+        totalAmount: 0,
+      });
+    }
+
+    entries.push(...byDriver.values());
+  }
+
+  return { days, drivers, entries };
+}
+
+// The stops on a route that make up a calendar entry
+function entryStopsWhere(
+  routeId: string,
+  driverName: string | null,
+  defaultDriver: string | null
+): Prisma.StopWhereInput {
+  const unnamed = driverName === defaultDriver ? [{ driverNameFromUpload: null }] : [];
+  return {
+    routeId,
+    isDeleted: false,
+    OR: driverName ? [{ driverNameFromUpload: driverName }, ...unnamed] : unnamed,
+  };
+}
+
+async function loadMove(move: RouteMove) {
+  const route = await prisma.route.findFirst({
+    where: { id: move.routeId, isDeleted: false },
+    include: { driver: { select: { username: true } } },
+  });
+  if (!route) {
+    throw new Error("Route not found");
+  }
+  if (route.status !== "PENDING") {
+    throw new Error("Only pending routes can be moved");
+  }
+  if (move.toDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(move.toDate)) {
+    throw new Error("toDate must be a date in YYYY-MM-DD format");
+  }
+
+  const findDriver = async (id: string | null | undefined) => {
+    if (!id) return null;
+    const driver = await prisma.user.findFirst({
+      where: { id, role: "DRIVER", isDeleted: false },
+      select: { id: true, username: true },
+    });
+    if (!driver) {
+      throw new Error("Driver not found");
+    }
+    return driver;
+  };
+
+  const toDriver =
+    move.toDriverId === undefined
+      ? move.fromDriverName
+        ? await prisma.user.findFirst({
+            where: { username: move.fromDriverName, role: "DRIVER", isDeleted: false },
+            select: { id: true, username: true },
+          })
+        : null
+      : await findDriver(move.toDriverId);
+  // Unnamed stops belong to the default driver, so they can't be unassigned
+  // without taking the route's default driver off too
+  if (
+    move.toDriverId === null &&
+    route.driver &&
+    move.fromDriverName !== route.driver.username
+  ) {
+    throw new Error(
+      `Stops on this route without a driver go to ${route.driver.username}; move them to another driver instead`
+    );
+  }
+  const toDate = move.toDate ?? getPSTDateString(route.date);
+
+  return { route, toDriver, toDate };
+}
+
+// Another route that day for the driver, or a vehicle that isn't ACTIVE
+async function driverConflicts(
+  routeId: string,
+  driver: { id: string; username: string },
+  toDate: string
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  const dayStart = createPSTDateFromString(toDate);
+
+  const otherRoutes = await prisma.route.findMany({
+    where: {
+      id: { not: routeId },
+      isDeleted: false,
+      status: { not: "CANCELLED" },
+      date: { gte: dayStart, lte: toPSTEndOfDay(dayStart) },
+      OR: [
+        { driverId: driver.id },
+        { stops: { some: { isDeleted: false, driverNameFromUpload: driver.username } } },
+      ],
+    },
+    select: { routeNumber: true },
+  });
+  for (const other of otherRoutes) {
+    conflicts.push(
+      `${driver.username} is already on route ${other.routeNumber || "N/A"} on ${toDate}`
+    );
+  }
+
+  // The vehicle for this route, else the driver's everyday vehicle
+  const assignments = await prisma.vehicleAssignment.findMany({
+    where: {
+      driverId: driver.id,
+      isActive: true,
+      isDeleted: false,
+      OR: [{ routeId }, { routeId: null }],
+    },
+    include: { vehicle: { select: { vehicleNumber: true, status: true } } },
+  });
+  const assignment =
+    assignments.find((a) => a.routeId === routeId) ?? assignments.find((a) => !a.routeId);
+  if (assignment && assignment.vehicle.status !== "ACTIVE") {
+    conflicts.push(
+      `${driver.username}'s vehicle ${assignment.vehicle.vehicleNumber} is in ${assignment.vehicle.status}`
+    );
+  }
+
+  return conflicts;
+}
+
+/**
+ * What moving the entry would run into. An empty list means the move is
+ * clear. A new day moves the whole route, so every driver on it is checked
+ * along with any route that already has its number that day.
+ */
+export async function checkRouteMove(move: RouteMove): Promise<string[]> {
+  const { route, toDriver, toDate } = await loadMove(move);
+  const conflicts: string[] = [];
+  const drivers = toDriver ? [toDriver] : [];
+
+  if (toDate !== getPSTDateString(route.date)) {
+    const dayStart = createPSTDateFromString(toDate);
+    if (route.routeNumber) {
+      const sameNumber = await prisma.route.findFirst({
+        where: {
+          id: { not: route.id },
+          isDeleted: false,
+          status: { not: "CANCELLED" },
+          routeNumber: route.routeNumber,
+          date: { gte: dayStart, lte: toPSTEndOfDay(dayStart) },
+        },
+        select: { id: true },
+      });
+      if (sameNumber) {
+        conflicts.push(`There is already a route ${route.routeNumber} on ${toDate}`);
+      }
+    }
+
+    // The route's other drivers go with it; the dragged entry's stops go to toDriver
+    const defaultDriver = route.driver?.username ?? null;
+    const stops = await prisma.stop.findMany({
+      where: { routeId: route.id, isDeleted: false },
+      select: { driverNameFromUpload: true },
+      distinct: ["driverNameFromUpload"],
+    });
+    const otherNames = new Set<string>();
+    for (const stop of stops) {
+      const name = stop.driverNameFromUpload || defaultDriver;
+      if (name && name !== move.fromDriverName && name !== toDriver?.username) {
+        otherNames.add(name);
+      }
+    }
+    if (otherNames.size > 0) {
+      drivers.push(
+        ...(await prisma.user.findMany({
+          where: { username: { in: Array.from(otherNames) }, role: "DRIVER", isDeleted: false },
+          select: { id: true, username: true },
+          orderBy: { username: "asc" },
+        }))
+      );
+    }
+  }
+
+  for (const driver of drivers) {
+    conflicts.push(...(await driverConflicts(route.id, driver, toDate)));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Save the move: change the route's date and hand the dragged driver's
+ * stops to the new driver. Returns how many stops changed driver.
+ */
+export async function applyRouteMove(move: RouteMove): Promise<{ reassignedStops: number }> {
+  const { route, toDriver, toDate } = await loadMove(move);
+  const defaultDriver = route.driver?.username ?? null;
+  const toDriverName = toDriver?.username ?? null;
+
+  return prisma.$transaction(async (tx) => {
+    if (toDate !== getPSTDateString(route.date)) {
+      await tx.route.update({
+        where: { id: route.id },
+        data: { date: createPSTDateFromString(toDate) },
+      });
+    }
+
+    if (move.toDriverId === undefined || toDriverName === move.fromDriverName) {
+      return { reassignedStops: 0 };
+    }
+
+    const { count } = await tx.stop.updateMany({
+      where: entryStopsWhere(route.id, move.fromDriverName, defaultDriver),
+      data: { driverNameFromUpload: toDriverName },
+    });
+
+    // The route's default driver follows their stops
+    if (move.fromDriverName === defaultDriver) {
+      await tx.route.update({
+        where: { id: route.id },
+        data: { driverId: toDriver?.id ?? null },
+      });
+    }
+
+    return { reassignedStops: count };
+  });
+}
@@ -0,0 +1,345 @@
+/**
+ * Column mapping for route spreadsheet imports.
+ *
+ * A mapping tells parseRouteExcel which spreadsheet column feeds each
+ * ParsedRoute/ParsedStop field. Every field lists the header names to look
+ * for (first match wins, compared case-insensitively) and an optional fixed
+ * column letter used when none of the headers is present.
+ *
+ * DEFAULT_COLUMN_MAPPING reproduces the layout of the original office export
+ * (driver in column C, invoice # in AJ, amounts in AK–AN) so uploads without
+ * a saved profile behave exactly as before.
+ */
+
+export type MappedField =
+  | "routeNumber"
+  | "driver"
+  | "sequence"
+  | "customerName"
+  | "customerGroupCode"
+  | "customerEmail"
+  | "customerAddress"
+  | "orderNumberWeb"
+  | "date"
+  | "quickbooksInvoiceNum"
+  | "initialDriverNotes"
+  | "adminNotes"
+  | "codFlag"
+  | "paymentFlagCash"
+  | "paymentFlagCheck"
+  | "paymentFlagCC"
+  | "returnFlag"
+  | "driverRemark"
+  | "amount"
+  | "orderLines"
+  | "paymentAmountCash"
+  | "paymentAmountCheck"
+  | "paymentAmountCC";
+
+export interface FieldMapping {
+  // Header names to match, in priority order
+  headers: string[];
+  // Fixed column letter (e.g. "AJ") used when no header matches
+  fallbackColumn?: string;
+}
+
+export interface ColumnMapping {
+  fields: Partial<Record<MappedField, FieldMapping>>;
+  // 1-based spreadsheet row where stop data begins (the header is row 1)
+  dataStartRow?: number;
+}
+
+export type ColumnIndices = Record<MappedField, number>;
+
+export const REQUIRED_FIELDS: MappedField[] = [
+  "routeNumber",
+  "driver",
+  "sequence",
+  "customerName",
+];
+
+// Human-readable labels, used by the mapping editor and error messages
+export const MAPPED_FIELD_LABELS: Record<MappedField, string> = {
+  routeNumber: "Route Number",
+  driver: "Driver",
+  sequence: "Stop Sequence",
+  customerName: "Customer Name",
+  customerGroupCode: "Customer Group Code",
+  customerEmail: "Customer Email",
+  customerAddress: "Customer Address",
+  orderNumberWeb: "Web Order Number",
+  date: "Route Date",
+  quickbooksInvoiceNum: "QuickBooks Invoice #",
+  initialDriverNotes: "Initial Driver Notes",
+  adminNotes: "Admin Notes (Creates Admin Note)",
+  codFlag: "COD Flag",
+  paymentFlagCash: "Cash Payment Flag",
+  paymentFlagCheck: "Check Payment Flag",
+  paymentFlagCC: "Credit Card Payment Flag",
+  returnFlag: "Return Flag",
+  driverRemark: "Driver Remarks",
+  amount: "Invoice Amount",
+  orderLines: "Order Lines",
+  paymentAmountCash: "Cash Payment Amount",
+  paymentAmountCheck: "Check Payment Amount",
+  paymentAmountCC: "Credit Card Payment Amount",
+};
+
+export const MAPPED_FIELDS = Object.keys(MAPPED_FIELD_LABELS) as MappedField[];
+
+export const DEFAULT_DATA_START_ROW = 3;
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  dataStartRow: DEFAULT_DATA_START_ROW,
+  fields: {
+    routeNumber: { headers: ["Route #"] },
+    // Driver, invoice # and amounts always come from fixed columns in the
+    // office export — header names there are not reliable.
+    driver: { headers: [], fallbackColumn: "C" },
+    sequence: { headers: ["S No"], fallbackColumn: "A" },
+    customerName: { headers: ["Customers"] },
+    customerGroupCode: { headers: ["Customer GROUP CODE"] },
+    customerEmail: { headers: ["Customer Email"] },
+    customerAddress: { headers: ["Customer Address"] },
+    orderNumberWeb: { headers: ["Order # (Web)"] },
+    date: {
+      headers: ["Date", "Route Date", "Delivery Date", "Schedule Date"],
+    },
+    quickbooksInvoiceNum: { headers: [], fallbackColumn: "AJ" },
+    initialDriverNotes: {
+      headers: ["NOTES to be updated at top of the INVOICE"],
+    },
+    adminNotes: { headers: ["Notes for Drivers"] },
+    codFlag: { headers: ["COD Account/ Send Inv to Customer"] },
+    paymentFlagCash: { headers: ["Cash"] },
+    paymentFlagCheck: { headers: ["Check"] },
+    paymentFlagCC: { headers: ["Credit Card"] },
+    returnFlag: { headers: ["Payments & Returns Remarks"] },
+    driverRemark: { headers: ["Other Remarks"] },
+    amount: { headers: [], fallbackColumn: "AK" },
+    // "SKU x QTY [UNIT] [@ PRICE]" entries separated by ; (see stopOrderLines.ts)
+    orderLines: { headers: ["Order Lines", "Items"] },
+    paymentAmountCash: { headers: [], fallbackColumn: "AL" },
+    paymentAmountCheck: { headers: [], fallbackColumn: "AM" },
+    paymentAmountCC: { headers: [], fallbackColumn: "AN" },
+  },
+};
+
+function normalizeHeader(header: unknown): string {
+  return header === null || header === undefined
+    ? ""
+    : header.toString().trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Convert a spreadsheet column letter ("A", "AJ") to a 0-based index.
+ * Returns -1 for anything that isn't a column letter.
+ */
+export function columnLetterToIndex(letter: string): number {
+  const normalized = (letter || "").trim().toUpperCase();
+  if (!/^[A-Z]{1,3}$/.test(normalized)) return -1;
+  let index = 0;
+  for (const char of normalized) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert a 0-based column index back to its spreadsheet letter.
+ */
+export function columnIndexToLetter(index: number): string {
+  let letter = "";
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Resolve every mapped field to a 0-based column index for the given header
+ * row. Fields that can't be resolved get -1.
+ */
+export function resolveColumnIndices(
+  headers: unknown[],
+  mapping: ColumnMapping
+): ColumnIndices {
+  const headerMap = new Map<string, number>();
+  headers.forEach((header, index) => {
+    const key = normalizeHeader(header);
+    if (key && !headerMap.has(key)) headerMap.set(key, index);
+  });
+
+  const indices = {} as ColumnIndices;
+  for (const field of MAPPED_FIELDS) {
+    const fieldMapping = mapping.fields[field];
+    let index = -1;
+
+    if (fieldMapping) {
+      for (const header of fieldMapping.headers) {
+        const match = headerMap.get(normalizeHeader(header));
+        if (match !== undefined) {
+          index = match;
+          break;
+        }
+      }
+      if (index === -1 && fieldMapping.fallbackColumn) {
+        index = columnLetterToIndex(fieldMapping.fallbackColumn);
+      }
+    }
+
+    indices[field] = index;
+  }
+
+  return indices;
+}
+
+/**
+ * List the required fields a mapping cannot resolve for this header row.
+ */
+export function findMissingRequiredFields(indices: ColumnIndices): MappedField[] {
+  return REQUIRED_FIELDS.filter((field) => indices[field] === -1);
+}
+
+/**
+ * Score how well a mapping fits a header row: the number of fields whose
+ * headers are actually present. Fixed-column fallbacks don't count, since
+ * any sheet "has" column C. A mapping that can't resolve every required
+ * field scores -1.
+ */
+export function scoreMapping(headers: unknown[], mapping: ColumnMapping): number {
+  const present = new Set(headers.map(normalizeHeader).filter(Boolean));
+  const indices = resolveColumnIndices(headers, mapping);
+  if (findMissingRequiredFields(indices).length > 0) return -1;
+
+  let score = 0;
+  for (const field of MAPPED_FIELDS) {
+    const fieldMapping = mapping.fields[field];
+    if (fieldMapping?.headers.some((h) => present.has(normalizeHeader(h)))) {
+      score++;
+    }
+  }
+  return score;
+}
+
+/**
+ * Pick the best-fitting profile for a header row. Ties go to the profile
+ * flagged as default, then to the first in the list. Returns null when no
+ * profile resolves all required fields.
+ */
+export function detectMappingProfile<
+  T extends { mapping: ColumnMapping; isDefault?: boolean }
+>(headers: unknown[], profiles: T[]): T | null {
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const profile of profiles) {
+    const score = scoreMapping(headers, profile.mapping);
+    if (score < 0) continue;
+    if (
+      score > bestScore ||
+      (score === bestScore && profile.isDefault && !best?.isDefault)
+    ) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Validate and normalize an untrusted mapping (e.g. a request body or a JSON
+ * column read back from the database). Returns the cleaned mapping plus a
+ * list of problems; callers should reject the mapping when errors is
+ * non-empty.
+ */
+export function sanitizeColumnMapping(input: unknown): {
+  mapping: ColumnMapping;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const mapping: ColumnMapping = { fields: {} };
+
+  if (!input || typeof input !== "object") {
+    return { mapping, errors: ["mapping must be an object"] };
+  }
+
+  const raw = input as { fields?: unknown; dataStartRow?: unknown };
+
+  if (raw.dataStartRow !== undefined && raw.dataStartRow !== null) {
+    const row = Number(raw.dataStartRow);
+    if (!Number.isInteger(row) || row < 2 || row > 100) {
+      errors.push("dataStartRow must be a whole number between 2 and 100");
+    } else {
+      mapping.dataStartRow = row;
+    }
+  }
+
+  const fields =
+    raw.fields && typeof raw.fields === "object"
+      ? (raw.fields as Record<string, unknown>)
+      : {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!MAPPED_FIELDS.includes(field as MappedField)) {
+      errors.push(`Unknown field '${field}'`);
+      continue;
+    }
+    if (!value || typeof value !== "object") continue;
+
+    const { headers, fallbackColumn } = value as {
+      headers?: unknown;
+      fallbackColumn?: unknown;
+    };
+
+    const cleanHeaders = Array.isArray(headers)
+      ? headers
+          .map((h) => (typeof h === "string" ? h.trim() : ""))
+          .filter((h) => h.length > 0)
+      : [];
+
+    let cleanColumn: string | undefined;
+    if (typeof fallbackColumn === "string" && fallbackColumn.trim()) {
+      cleanColumn = fallbackColumn.trim().toUpperCase();
+      if (columnLetterToIndex(cleanColumn) === -1) {
+        errors.push(
+          `${MAPPED_FIELD_LABELS[field as MappedField]}: '${fallbackColumn}' is not a column letter`
+        );
+        continue;
+      }
+    }
+
+    if (cleanHeaders.length === 0 && !cleanColumn) continue;
+
+    mapping.fields[field as MappedField] = {
+      headers: cleanHeaders,
+      ...(cleanColumn ? { fallbackColumn: cleanColumn } : {}),
+    };
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!mapping.fields[field]) {
+      errors.push(`${MAPPED_FIELD_LABELS[field]} must have a header or column`);
+    }
+  }
+
+  return { mapping, errors };
+}
+
+// A saved (or built-in) mapping as handed to the parser
+export interface MappingProfile {
+  id: string | null;
+  name: string;
+  isDefault?: boolean;
+  mapping: ColumnMapping;
+}
+
+export const BUILT_IN_PROFILE: MappingProfile = {
+  id: null,
+  name: "Standard office export",
+  mapping: DEFAULT_COLUMN_MAPPING,
+};
@@ -0,0 +1,114 @@
+import prisma from "./db";
+import { loadRouteDiff, type RouteDiff } from "./routeDiff";
+import type { DetectedRoute } from "./routeParser";
+
+// The live route an uploaded route would replace or merge into
+export interface ExistingRouteSummary {
+  id: string;
+  routeNumber: string | null;
+  date: Date;
+  status: string;
+  stopCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One detected route as shown in the upload preview
+export interface DetectedRouteSummary {
+  key: string;
+  routeNumber: string;
+  date: Date;
+  sheetNames: string[];
+  stopCount: number;
+  driverSummary: Record<string, number>;
+  warnings: string[];
+  conflict: ExistingRouteSummary | null;
+  // What a merge into the conflicting route would change
+  diff: RouteDiff | null;
+}
+
+/**
+ * Find a non-deleted route with the same route number on the same day.
+ */
+export async function findExistingRoute(
+  routeNumber: string,
+  routeDate: Date
+): Promise<ExistingRouteSummary | null> {
+  // Normalize the route date to start of day for consistent comparison
+  const normalizedRouteDate = new Date(routeDate);
+  normalizedRouteDate.setHours(0, 0, 0, 0);
+
+  // Find existing route with same route number and date (within the same day)
+  const startOfDay = new Date(normalizedRouteDate);
+  const endOfDay = new Date(normalizedRouteDate);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const existingRoute = await prisma.route.findFirst({
+    where: {
+      routeNumber: routeNumber,
+      date: {
+        gte: startOfDay,
+        lte: endOfDay,
+      },
+      isDeleted: false,
+    },
+    include: {
+      _count: {
+        select: {
+          stops: true,
+        },
+      },
+    },
+  });
+
+  if (!existingRoute) {
+    return null;
+  }
+
+  return {
+    id: existingRoute.id,
+    routeNumber: existingRoute.routeNumber,
+    date: existingRoute.date,
+    status: existingRoute.status,
+    stopCount: existingRoute._count.stops,
+    createdAt: existingRoute.createdAt,
+    updatedAt: existingRoute.updatedAt,
+  };
+}
+
+/**
+ * Build the preview entry for each detected route, including the live route
+ * it conflicts with (if any) and the stop-level diff against it.
+ */
+export async function summarizeDetectedRoutes(
+  routes: DetectedRoute[],
+  protectDriverProgress = true
+): Promise<DetectedRouteSummary[]> {
+  const summaries: DetectedRouteSummary[] = [];
+
+  for (const detected of routes) {
+    const { route } = detected;
+    const conflict = route.routeNumber
+      ? await findExistingRoute(route.routeNumber, route.date)
+      : null;
+    summaries.push({
+      key: detected.key,
+      routeNumber: route.routeNumber,
+      date: route.date,
+      sheetNames: detected.sheetNames,
+      stopCount: route.stops.length,
+      driverSummary: route.stops.reduce((acc, stop) => {
+        const driverName = stop.driverName || "Unknown";
+        acc[driverName] = (acc[driverName] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      warnings: detected.warnings,
+      conflict,
+      diff: conflict
+        ? await loadRouteDiff(conflict.id, route, protectDriverProgress)
+        : null,
+    });
+  }
+
+  return summaries;
+}
@@ -0,0 +1,270 @@
+/**
+ * Diff between an uploaded route and the live route it would merge into.
+ *
+ * Stops are matched the same way saveRouteToDatabase merges them: by
+ * customer name first, then by sequence. The diff lists stops the upload
+ * adds, stops on the live route that aren't in the file (kept on merge,
+ * deleted on replace), resequenced stops, changed invoice numbers and
+ * amounts, and which live stops already have driver progress.
+ *
+ * A stop has driver progress once the driver has touched it: any status
+ * other than PENDING, a recorded on-the-way/arrival/completion time,
+ * payments, returns or invoice photos. With protection on (the default) a
+ * merge leaves those stops exactly as they are, and a replace is refused.
+ */
+
+import type { Prisma, Stop } from "@prisma/client";
+import prisma from "./db";
+import type { ParsedRoute, ParsedStop } from "./routeParser";
+
+// Relations loaded with each live stop for matching and progress checks
+export const EXISTING_STOP_INCLUDE = {
+  customer: true,
+  _count: { select: { payments: true, returns: true } },
+} satisfies Prisma.StopInclude;
+
+export type ExistingStop = Pick<
+  Stop,
+  | "id"
+  | "sequence"
+  | "status"
+  | "customerNameFromUpload"
+  | "quickbooksInvoiceNum"
+  | "orderNumberWeb"
+  | "amount"
+  | "paymentAmountCash"
+  | "paymentAmountCheck"
+  | "paymentAmountCC"
+  | "onTheWayTime"
+  | "arrivalTime"
+  | "completionTime"
+  | "invoiceImageUrls"
+  | "signedInvoicePdfUrl"
+> & {
+  customer: { name: string };
+  _count: { payments: number; returns: number };
+};
+
+export interface StopProgress {
+  status: string;
+  paymentCount: number;
+  returnCount: number;
+  photoCount: number;
+}
+
+export type DiffedField =
+  | "quickbooksInvoiceNum"
+  | "orderNumberWeb"
+  | "amount"
+  | "paymentAmountCash"
+  | "paymentAmountCheck"
+  | "paymentAmountCC";
+
+export interface FieldChange {
+  field: DiffedField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface StopDiffEntry {
+  // added: only in the file; removed: only on the live route; matched: both
+  kind: "added" | "removed" | "matched";
+  stopId: string | null;
+  customerName: string;
+  fromSequence: number | null;
+  toSequence: number | null;
+  resequenced: boolean;
+  changes: FieldChange[];
+  // Driver activity on the live stop, if any
+  progress: StopProgress | null;
+  // The merge would leave this stop untouched because of its progress
+  protected: boolean;
+}
+
+export interface RouteDiff {
+  existingRouteId: string;
+  protectDriverProgress: boolean;
+  summary: {
+    added: number;
+    removed: number;
+    resequenced: number;
+    changed: number;
+    withProgress: number;
+    protected: number;
+  };
+  stops: StopDiffEntry[];
+}
+
+/**
+ * Pair each uploaded stop with the live stop the merge would update, or
+ * null when the merge would create a new stop.
+ */
+export function matchStopsToExisting<T extends ExistingStop>(
+  newStops: ParsedStop[],
+  existingStops: T[]
+): { newStop: ParsedStop; existingStop: T | null }[] {
+  const byCustomer = new Map<string, T>();
+  const bySequence = new Map<number, T>();
+
+  for (const stop of existingStops) {
+    byCustomer.set(stop.customerNameFromUpload || stop.customer.name, stop);
+    bySequence.set(stop.sequence, stop);
+  }
+
+  return newStops.map((newStop) => ({
+    newStop,
+    existingStop:
+      byCustomer.get(newStop.customerName) ??
+      bySequence.get(newStop.sequence) ??
+      null,
+  }));
+}
+
+/**
+ * Driver activity on a live stop, or null if the driver hasn't touched it.
+ */
+export function getStopProgress(stop: ExistingStop): StopProgress | null {
+  const photoCount =
+    (stop.invoiceImageUrls?.length ?? 0) + (stop.signedInvoicePdfUrl ? 1 : 0);
+
+  const hasProgress =
+    stop.status !== "PENDING" ||
+    !!stop.onTheWayTime ||
+    !!stop.arrivalTime ||
+    !!stop.completionTime ||
+    stop._count.payments > 0 ||
+    stop._count.returns > 0 ||
+    photoCount > 0;
+
+  if (!hasProgress) return null;
+
+  return {
+    status: stop.status,
+    paymentCount: stop._count.payments,
+    returnCount: stop._count.returns,
+    photoCount,
+  };
+}
+
+// Fields the merge overwrites, mirroring saveRouteToDatabase: blank invoice
+// numbers keep the live value, and payment amounts only change when one of
+// them differs.
+function diffFields(newStop: ParsedStop, existing: ExistingStop): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of ["quickbooksInvoiceNum", "orderNumberWeb"] as const) {
+    const next = newStop[field];
+    if (next && next !== (existing[field] ?? "")) {
+      changes.push({ field, from: existing[field] ?? null, to: next });
+    }
+  }
+
+  if (newStop.amount !== undefined && newStop.amount !== existing.amount) {
+    changes.push({ field: "amount", from: existing.amount, to: newStop.amount });
+  }
+
+  const paymentFields = ["paymentAmountCash", "paymentAmountCheck", "paymentAmountCC"] as const;
+  const paymentsChange = paymentFields.some(
+    (field) => newStop[field] !== undefined && newStop[field] !== (existing[field] || 0)
+  );
+  if (paymentsChange) {
+    for (const field of paymentFields) {
+      const next = newStop[field] !== undefined ? newStop[field]! : existing[field];
+      if (next !== existing[field]) {
+        changes.push({ field, from: existing[field], to: next ?? null });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare an uploaded route with the live route's stops.
+ */
+export function diffRoute(
+  existingRouteId: string,
+  parsedRoute: ParsedRoute,
+  existingStops: ExistingStop[],
+  protectDriverProgress = true
+): RouteDiff {
+  const entries: StopDiffEntry[] = [];
+  const matchedIds = new Set<string>();
+
+  for (const { newStop, existingStop } of matchStopsToExisting(parsedRoute.stops, existingStops)) {
+    if (!existingStop) {
+      entries.push({
+        kind: "added",
+        stopId: null,
+        customerName: newStop.customerName,
+        fromSequence: null,
+        toSequence: newStop.sequence,
+        resequenced: false,
+        changes: [],
+        progress: null,
+        protected: false,
+      });
+      continue;
+    }
+
+    matchedIds.add(existingStop.id);
+    const progress = getStopProgress(existingStop);
+    entries.push({
+      kind: "matched",
+      stopId: existingStop.id,
+      customerName: newStop.customerName,
+      fromSequence: existingStop.sequence,
+      toSequence: newStop.sequence,
+      resequenced: existingStop.sequence !== newStop.sequence,
+      changes: diffFields(newStop, existingStop),
+      progress,
+      protected: protectDriverProgress && !!progress,
+    });
+  }
+
+  for (const stop of existingStops) {
+    if (matchedIds.has(stop.id)) continue;
+    const progress = getStopProgress(stop);
+    entries.push({
+      kind: "removed",
+      stopId: stop.id,
+      customerName: stop.customerNameFromUpload || stop.customer.name,
+      fromSequence: stop.sequence,
+      toSequence: null,
+      resequenced: false,
+      changes: [],
+      progress,
+      protected: protectDriverProgress && !!progress,
+    });
+  }
+
+  return {
+    existingRouteId,
+    protectDriverProgress,
+    summary: {
+      added: entries.filter((e) => e.kind === "added").length,
+      removed: entries.filter((e) => e.kind === "removed").length,
+      resequenced: entries.filter((e) => e.resequenced).length,
+      changed: entries.filter((e) => e.changes.length > 0).length,
+      withProgress: entries.filter((e) => e.progress).length,
+      protected: entries.filter((e) => e.protected).length,
+    },
+    stops: entries,
+  };
+}
+
+/**
+ * Load the live route's stops and diff the upload against them.
+ */
+export async function loadRouteDiff(
+  existingRouteId: string,
+  parsedRoute: ParsedRoute,
+  protectDriverProgress = true
+): Promise<RouteDiff> {
+  const existingStops = await prisma.stop.findMany({
+    where: { routeId: existingRouteId, isDeleted: false },
+    include: EXISTING_STOP_INCLUDE,
+  });
+
+  return diffRoute(existingRouteId, parsedRoute, existingStops, protectDriverProgress);
+}
@@ -0,0 +1,137 @@
+/**
+ * Duplicating a route to another day.
+ *
+ * The copy keeps the route number and driver, and each stop's customer,
+ * sequence, address, driver and notes. Invoice numbers, amounts and
+ * payment flags are cleared unless the admin chooses to keep them. The copy
+ * never carries over anything that happened on the day: payments, photos,
+ * signatures, times, driver notes and status all start fresh.
+ */
+
+import prisma from "./db";
+import { createPSTDateFromString, getPSTDateString } from "./timezone";
+import { findExistingRoute } from "./routeConflicts";
+
+export interface DuplicateRouteOptions {
+  // YYYY-MM-DD in PST
+  date: string;
+  clearInvoiceNumbers: boolean;
+  clearAmounts: boolean;
+  clearPaymentFlags: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the duplicate options from the API. Everything is cleared unless
+ * asked otherwise.
+ */
+export function sanitizeDuplicateOptions(value: unknown): {
+  options: DuplicateRouteOptions;
+  errors: string[];
+} {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const date = typeof input.date === "string" ? input.date.trim() : "";
+  if (!DATE_PATTERN.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime())) {
+    errors.push("date must be a date in YYYY-MM-DD format");
+  } else if (date < getPSTDateString()) {
+    errors.push("date can't be in the past");
+  }
+
+  const flag = (field: string) => {
+    if (input[field] === undefined) return true;
+    if (typeof input[field] !== "boolean") {
+      errors.push(`${field} must be true or false`);
+      return true;
+    }
+    return input[field] as boolean;
+  };
+
+  return {
+    options: {
+      date,
+      clearInvoiceNumbers: flag("clearInvoiceNumbers"),
+      clearAmounts: flag("clearAmounts"),
+      clearPaymentFlags: flag("clearPaymentFlags"),
+    },
+    errors,
+  };
+}
+
+/**
+ * Copy a route and its stops to `options.date`. Returns the new route's id
+ * and stop count.
+ */
+export async function duplicateRoute(
+  routeId: string,
+  options: DuplicateRouteOptions,
+  createdBy: string
+): Promise<{ routeId: string; stopCount: number }> {
+  const route = await prisma.route.findFirst({
+    where: { id: routeId, isDeleted: false },
+    include: {
+      stops: {
+        where: { isDeleted: false },
+        orderBy: { sequence: "asc" },
+      },
+    },
+  });
+  if (!route) {
+    throw new Error("Route not found");
+  }
+
+  const routeDate = createPSTDateFromString(options.date);
+  if (route.routeNumber) {
+    const existing = await findExistingRoute(route.routeNumber, routeDate);
+    if (existing) {
+      throw new Error(`Route ${route.routeNumber} already exists on ${options.date}`);
+    }
+  }
+
+  const copy = await prisma.route.create({
+    data: {
+      routeNumber: route.routeNumber,
+      date: routeDate,
+      driverId: route.driverId,
+      uploadedBy: createdBy,
+      sourceFile: `Copy of route ${route.routeNumber || "N/A"} (${getPSTDateString(route.date)})`,
+      status: "PENDING",
+      stops: {
+        create: route.stops.map((stop) => ({
+          customerId: stop.customerId,
+          sequence: stop.sequence,
+          sequenceLocked: stop.sequenceLocked,
+          address: stop.address,
+          customerNameFromUpload: stop.customerNameFromUpload,
+          driverNameFromUpload: stop.driverNameFromUpload,
+          initialDriverNotes: stop.initialDriverNotes,
+          driverRemarkInitial: stop.driverRemarkInitial,
+          returnFlagInitial: stop.returnFlagInitial,
+          isCOD: stop.isCOD,
+          paymentTerms: stop.paymentTerms,
+          paymentTermsOther: stop.paymentTermsOther,
+          status: "PENDING" as const,
+          ...(options.clearInvoiceNumbers
+            ? {}
+            : {
+                orderNumberWeb: stop.orderNumberWeb,
+                quickbooksInvoiceNum: stop.quickbooksInvoiceNum,
+              }),
+          ...(options.clearAmounts ? {} : { amount: stop.amount }),
+          ...(options.clearPaymentFlags
+            ? {}
+            : {
+                paymentFlagCash: stop.paymentFlagCash,
+                paymentFlagCheck: stop.paymentFlagCheck,
+                paymentFlagCC: stop.paymentFlagCC,
+                paymentFlagNotPaid: stop.paymentFlagNotPaid,
+              }),
+        })),
+      },
+    },
+  });
+
+  return { routeId: copy.id, stopCount: route.stops.length };
+}
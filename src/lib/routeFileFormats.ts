@@ -0,0 +1,312 @@
+/**
+ * routeFileFormats.ts
+ *
+ * Turns CSV and JSON route uploads into the same row grid that XLSX.read
+ * produces, so every format runs through one parser and yields the same
+ * ParsedRoute / ParsingResult.
+ *
+ * CSV: the encoding is taken from the BOM (UTF-8, UTF-16 LE/BE); without a
+ * BOM the file is read as UTF-8, falling back to Windows-1252 when it isn't
+ * valid UTF-8 (typical of older Excel "Save as CSV"). The delimiter is
+ * whichever of , ; tab | appears most often in the header line.
+ *
+ * JSON payload (POST as a .json file, or as an application/json body to
+ * /api/admin/routes/upload, /preview or /check-conflict; a JSON body may also
+ * carry "action": "create" | "update" and a "fileName" for upload history):
+ *
+ *   {
+ *     "routeNumber": "R-001",            // required
+ *     "date": "2026-01-10",              // optional, defaults to today (PT)
+ *     "stops": [                         // required, at least one
+ *       {
+ *         "sequence": 1,                 // required
+ *         "customerName": "Corner Market", // required
+ *         "driverName": "John Driver",   // required
+ *         "customerGroupCode": "GRP001",
+ *         "customerEmail": "ap@corner.example",
+ *         "customerAddress": "12 Main St, Springfield",
+ *         "orderNumberWeb": "WEB-12345",
+ *         "quickbooksInvoiceNum": "10045",
+ *         "initialDriverNotes": "Handle with care",
+ *         "adminNotes": "Deliver to back door",
+ *         "isCOD": true,
+ *         "paymentFlagCash": true,
+ *         "paymentFlagCheck": false,
+ *         "paymentFlagCC": false,
+ *         "returnFlagInitial": false,
+ *         "driverRemarkInitial": "Call on arrival",
+ *         "amount": 500,
+ *         "lines": [                   // optional order lines
+ *           { "sku": "MLK-1G", "description": "Whole milk 1 gal",
+ *             "orderedQty": 4, "unit": "cs", "unitPrice": 3.25 }
+ *         ],
+ *         "paymentAmountCash": 250,
+ *         "paymentAmountCheck": 150,
+ *         "paymentAmountCC": 100
+ *       }
+ *     ]
+ *   }
+ */
+
+import { ColumnMapping, MappedField, MappingProfile } from "./routeColumnMapping";
+
+export type RouteFileFormat = "xlsx" | "csv" | "json";
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+
+export const ROUTE_FILE_EXTENSIONS = [".xlsx", ".xls", ".csv", ".json"];
+
+const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+
+/**
+ * Work out the upload format from the file name, falling back to sniffing
+ * the content (ZIP/OLE signatures mean a workbook, a leading { means JSON).
+ */
+export function detectRouteFileFormat(
+  fileName: string | null | undefined,
+  buffer: Buffer
+): RouteFileFormat {
+  const extension = (fileName || "").toLowerCase().split(".").pop();
+  if (extension === "csv" || extension === "txt" || extension === "tsv") return "csv";
+  if (extension === "json") return "json";
+  if (extension === "xlsx" || extension === "xls") return "xlsx";
+
+  // ZIP (xlsx) or OLE2 (xls) container
+  if (
+    buffer.length >= 4 &&
+    ((buffer[0] === 0x50 && buffer[1] === 0x4b) ||
+      (buffer[0] === 0xd0 && buffer[1] === 0xcf))
+  ) {
+    return "xlsx";
+  }
+
+  const head = buffer.subarray(0, 64).toString("utf8").replace(/^﻿/, "").trimStart();
+  return head.startsWith("{") ? "json" : "csv";
+}
+
+/**
+ * Decode a text upload, detecting its encoding.
+ */
+export function decodeTextBuffer(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString("utf8"), encoding: "utf-8" };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.subarray(2).toString("utf16le"), encoding: "utf-16le" };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Node has no utf16be decoder — swap byte pairs and read as LE
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return { text: swapped.toString("utf16le"), encoding: "utf-16be" };
+  }
+
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return { text, encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(buffer), encoding: "windows-1252" };
+  }
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most columns,
+ * ignoring delimiters inside quoted fields.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  let headerLine = "";
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === "\n" || char === "\r")) break;
+    headerLine += char;
+  }
+
+  let best: CsvDelimiter = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    let count = 0;
+    let quoted = false;
+    for (const char of headerLine) {
+      if (char === '"') quoted = !quoted;
+      else if (!quoted && char === delimiter) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse delimited text into rows of strings (RFC 4180 quoting: fields may
+ * be wrapped in double quotes, "" is an escaped quote, quoted fields may
+ * span lines). Empty cells become null and blank lines are dropped, to match
+ * what sheet_to_json({ defval: null, blankrows: false }) returns.
+ */
+export function parseDelimitedText(text: string, delimiter: CsvDelimiter): (string | null)[][] {
+  const rows: (string | null)[][] = [];
+  let row: (string | null)[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushField = () => {
+    const value = field.trim();
+    row.push(value === "" ? null : value);
+    field = "";
+  };
+  const pushRow = () => {
+    pushField();
+    if (row.some((cell) => cell !== null)) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) pushRow();
+
+  return rows;
+}
+
+/**
+ * Read a CSV upload into a row grid plus the detected encoding/delimiter.
+ */
+export function readCsvRows(buffer: Buffer): {
+  rows: (string | null)[][];
+  encoding: string;
+  delimiter: CsvDelimiter;
+} {
+  const { text, encoding } = decodeTextBuffer(buffer);
+  const delimiter = detectDelimiter(text);
+  return { rows: parseDelimitedText(text, delimiter), encoding, delimiter };
+}
+
+// JSON stop keys, in the column order used for the synthetic grid
+const JSON_STOP_KEYS: Record<string, MappedField> = {
+  routeNumber: "routeNumber",
+  date: "date",
+  sequence: "sequence",
+  driverName: "driver",
+  customerName: "customerName",
+  customerGroupCode: "customerGroupCode",
+  customerEmail: "customerEmail",
+  customerAddress: "customerAddress",
+  orderNumberWeb: "orderNumberWeb",
+  quickbooksInvoiceNum: "quickbooksInvoiceNum",
+  initialDriverNotes: "initialDriverNotes",
+  adminNotes: "adminNotes",
+  isCOD: "codFlag",
+  paymentFlagCash: "paymentFlagCash",
+  paymentFlagCheck: "paymentFlagCheck",
+  paymentFlagCC: "paymentFlagCC",
+  returnFlagInitial: "returnFlag",
+  driverRemarkInitial: "driverRemark",
+  amount: "amount",
+  lines: "orderLines",
+  paymentAmountCash: "paymentAmountCash",
+  paymentAmountCheck: "paymentAmountCheck",
+  paymentAmountCC: "paymentAmountCC",
+};
+
+const JSON_HEADERS = Object.keys(JSON_STOP_KEYS);
+
+const JSON_MAPPING: ColumnMapping = {
+  dataStartRow: 2,
+  fields: Object.fromEntries(
+    JSON_HEADERS.map((key) => [JSON_STOP_KEYS[key], { headers: [key] }])
+  ),
+};
+
+// JSON uploads always use this mapping — the keys are the documented ones
+export const JSON_ROUTE_PROFILE: MappingProfile = {
+  id: null,
+  name: "JSON payload",
+  mapping: JSON_MAPPING,
+};
+
+/**
+ * Convert a JSON route payload into a header row plus one row per stop, with
+ * values shaped the way the spreadsheet columns are read (flags as 1/0, COD
+ * as "COD", return flag as text). Order lines stay an array; the parser
+ * reads them as they are.
+ */
+export function jsonRouteToRows(payload: unknown): {
+  rows: unknown[][];
+  errors: string[];
+} {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return { rows: [], errors: ["JSON payload must be an object with routeNumber and stops"] };
+  }
+
+  const route = payload as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (route.routeNumber === undefined || route.routeNumber === null || route.routeNumber === "") {
+    errors.push("JSON payload is missing routeNumber");
+  }
+  if (!Array.isArray(route.stops) || route.stops.length === 0) {
+    errors.push("JSON payload must contain a non-empty stops array");
+  }
+  if (errors.length > 0) {
+    return { rows: [], errors };
+  }
+
+  const flag = (value: unknown) => (value === true || value === 1 || value === "true" ? 1 : null);
+
+  const rows: unknown[][] = [JSON_HEADERS];
+  for (const rawStop of route.stops as unknown[]) {
+    const stop =
+      rawStop && typeof rawStop === "object" ? (rawStop as Record<string, unknown>) : {};
+
+    rows.push(
+      JSON_HEADERS.map((key) => {
+        switch (key) {
+          case "routeNumber":
+            return route.routeNumber;
+          case "date":
+            return route.date ?? null;
+          case "isCOD":
+            return stop.isCOD === true ? "COD" : null;
+          case "paymentFlagCash":
+          case "paymentFlagCheck":
+          case "paymentFlagCC":
+            return flag(stop[key]);
+          case "returnFlagInitial":
+            return stop.returnFlagInitial === true ? "Return" : null;
+          default:
+            return stop[key] ?? null;
+        }
+      })
+    );
+  }
+
+  return { rows, errors };
+}
@@ -0,0 +1,194 @@
+/**
+ * Annotated copies of route uploads.
+ *
+ * Takes the uploaded file and the issues the parser found in it and returns
+ * an .xlsx with an "Upload Issues" column next to each flagged row, the
+ * offending cells highlighted (red for errors, yellow for warnings) with the
+ * message as a cell comment, and a summary sheet listing every issue. CSV and
+ * JSON uploads come back as a single-sheet workbook of the rows the parser
+ * read, so row numbers line up with the issue list.
+ */
+
+import * as XLSXStyle from "xlsx-js-style";
+import type { CellObject, CellStyle, WorkSheet } from "xlsx-js-style";
+import type { RouteParseIssue, RouteIssueSeverity } from "./routeParser";
+import {
+  RouteFileFormat,
+  decodeTextBuffer,
+  jsonRouteToRows,
+  readCsvRows,
+} from "./routeFileFormats";
+
+export const ISSUE_COLUMN_HEADER = "Upload Issues";
+export const ISSUE_SHEET_NAME = "Upload Issues";
+
+// Sheet name used for CSV and JSON uploads
+const FLAT_SHEET_NAME = "Route";
+
+const FILLS: Record<RouteIssueSeverity, string> = {
+  error: "FFC7CE",
+  warning: "FFEB9C",
+};
+
+const highlight = (severity: RouteIssueSeverity): CellStyle => ({
+  fill: { patternType: "solid", fgColor: { rgb: FILLS[severity] } },
+});
+
+const HEADER_STYLE: CellStyle = {
+  font: { bold: true },
+  fill: { patternType: "solid", fgColor: { rgb: "D9D9D9" } },
+};
+
+/**
+ * Build the annotated workbook for an upload. Returns the .xlsx bytes.
+ */
+export function buildAnnotatedWorkbook(
+  buffer: Buffer,
+  format: RouteFileFormat,
+  issues: RouteParseIssue[]
+): Buffer {
+  const workbook = readSourceWorkbook(buffer, format);
+
+  // Issues without a sheet name belong to the only (or first) sheet
+  const bySheet = new Map<string, RouteParseIssue[]>();
+  for (const issue of issues) {
+    if (issue.row === null) continue;
+    const sheetName = issue.sheet ?? workbook.SheetNames[0];
+    if (!workbook.Sheets[sheetName]) continue;
+    bySheet.set(sheetName, [...(bySheet.get(sheetName) || []), issue]);
+  }
+
+  bySheet.forEach((sheetIssues, sheetName) => {
+    annotateSheet(workbook.Sheets[sheetName], sheetIssues);
+  });
+
+  XLSXStyle.utils.book_append_sheet(
+    workbook,
+    buildSummarySheet(issues, workbook.SheetNames[0]),
+    uniqueSheetName(workbook.SheetNames, ISSUE_SHEET_NAME)
+  );
+
+  return XLSXStyle.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+/**
+ * File name for the annotated download, e.g. "Monday routes-issues.xlsx"
+ */
+export function annotatedFileName(originalFileName: string): string {
+  const base = originalFileName.replace(/\.[^.]+$/, "").replace(/"/g, "") || "route-upload";
+  return `${base}-issues.xlsx`;
+}
+
+function readSourceWorkbook(buffer: Buffer, format: RouteFileFormat) {
+  if (format === "xlsx") {
+    return XLSXStyle.read(buffer, { type: "buffer", cellDates: true });
+  }
+
+  let rows: unknown[][];
+  if (format === "csv") {
+    rows = readCsvRows(buffer).rows;
+  } else {
+    // An unreadable payload has no rows to annotate; the summary still lists why
+    try {
+      rows = jsonRouteToRows(JSON.parse(decodeTextBuffer(buffer).text)).rows;
+    } catch {
+      rows = [];
+    }
+  }
+
+  const workbook = XLSXStyle.utils.book_new();
+  XLSXStyle.utils.book_append_sheet(
+    workbook,
+    XLSXStyle.utils.aoa_to_sheet(rows.length > 0 ? rows : [[]]),
+    FLAT_SHEET_NAME
+  );
+  return workbook;
+}
+
+/**
+ * Add the issue column and highlight/comment the flagged cells of one sheet
+ */
+function annotateSheet(worksheet: WorkSheet, issues: RouteParseIssue[]) {
+  const range = XLSXStyle.utils.decode_range(worksheet["!ref"] || "A1");
+  const issueColumn = range.e.c + 1;
+
+  const headerAddress = XLSXStyle.utils.encode_cell({ r: range.s.r, c: issueColumn });
+  worksheet[headerAddress] = { t: "s", v: ISSUE_COLUMN_HEADER, s: HEADER_STYLE };
+
+  const byRow = new Map<number, RouteParseIssue[]>();
+  for (const issue of issues) {
+    const row = issue.row as number;
+    byRow.set(row, [...(byRow.get(row) || []), issue]);
+
+    if (issue.column) {
+      const cell = getOrCreateCell(worksheet, `${issue.column}${row}`);
+      // An error outranks a warning already on the same cell
+      if (issue.severity === "error" || !cell.s) {
+        cell.s = highlight(issue.severity);
+      }
+      const comments = cell.c || [];
+      comments.push({ a: "Route upload", t: issue.message });
+      cell.c = comments;
+    }
+  }
+
+  byRow.forEach((rowIssues, row) => {
+    const severity = rowIssues.some((issue) => issue.severity === "error") ? "error" : "warning";
+    worksheet[XLSXStyle.utils.encode_cell({ r: row - 1, c: issueColumn })] = {
+      t: "s",
+      v: rowIssues.map((issue) => issue.message).join("\n"),
+      s: { ...highlight(severity), alignment: { wrapText: true, vertical: "top" } },
+    };
+    range.e.r = Math.max(range.e.r, row - 1);
+  });
+
+  range.e.c = issueColumn;
+  worksheet["!ref"] = XLSXStyle.utils.encode_range(range);
+
+  const cols = worksheet["!cols"] || [];
+  cols[issueColumn] = { wch: 60 };
+  worksheet["!cols"] = cols;
+}
+
+function getOrCreateCell(worksheet: WorkSheet, address: string): CellObject {
+  if (!worksheet[address]) {
+    worksheet[address] = { t: "s", v: "" };
+  }
+  return worksheet[address] as CellObject;
+}
+
+function buildSummarySheet(issues: RouteParseIssue[], defaultSheet: string): WorkSheet {
+  const header = ["Severity", "Code", "Sheet", "Row", "Column", "Message"];
+  const rows = issues.map((issue) => [
+    issue.severity === "error" ? "Error" : "Warning",
+    issue.code,
+    issue.row !== null ? issue.sheet ?? defaultSheet : issue.sheet ?? "",
+    issue.row ?? "",
+    issue.column ? `${issue.column}${issue.header ? ` (${issue.header})` : ""}` : "",
+    issue.message,
+  ]);
+
+  const worksheet = XLSXStyle.utils.aoa_to_sheet(
+    rows.length > 0 ? [header, ...rows] : [header, ["", "", "", "", "", "No issues found"]]
+  );
+
+  header.forEach((_, column) => {
+    const cell = worksheet[XLSXStyle.utils.encode_cell({ r: 0, c: column })] as CellObject;
+    cell.s = HEADER_STYLE;
+  });
+  issues.forEach((issue, index) => {
+    const cell = worksheet[XLSXStyle.utils.encode_cell({ r: index + 1, c: 0 })] as CellObject;
+    cell.s = highlight(issue.severity);
+  });
+  worksheet["!cols"] = [{ wch: 10 }, { wch: 22 }, { wch: 20 }, { wch: 8 }, { wch: 24 }, { wch: 80 }];
+
+  return worksheet;
+}
+
+function uniqueSheetName(existing: string[], name: string): string {
+  let candidate = name;
+  for (let n = 2; existing.includes(candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
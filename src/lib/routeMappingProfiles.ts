@@ -0,0 +1,65 @@
+import type { RouteMappingProfile } from "@prisma/client";
+import prisma from "./db";
+import {
+  BUILT_IN_PROFILE,
+  MappingProfile,
+  sanitizeColumnMapping,
+} from "./routeColumnMapping";
+import type { RouteParseOptions } from "./routeParser";
+
+// Sentinel value the upload screen sends to force the built-in layout
+export const BUILT_IN_PROFILE_ID = "builtin";
+
+/**
+ * Convert a stored profile row into the shape the parser expects. The JSON
+ * column is re-sanitized on the way out so a hand-edited row can't crash an
+ * upload.
+ */
+export function toMappingProfile(row: RouteMappingProfile): MappingProfile {
+  const { mapping } = sanitizeColumnMapping(row.mapping);
+  return {
+    id: row.id,
+    name: row.name,
+    isDefault: row.isDefault,
+    mapping,
+  };
+}
+
+export async function listMappingProfiles(): Promise<RouteMappingProfile[]> {
+  return prisma.routeMappingProfile.findMany({
+    where: { isDeleted: false },
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Build parser options from the "profileId" field of an upload form.
+ *
+ *   missing / ""  → auto-detect among saved profiles and the built-in layout
+ *   "builtin"     → force the built-in office-export layout
+ *   <profile id>  → use that saved profile
+ *
+ * Throws when an explicit profile id doesn't exist.
+ */
+export async function resolveParseOptions(
+  profileId: string | null | undefined
+): Promise<RouteParseOptions> {
+  if (profileId === BUILT_IN_PROFILE_ID) {
+    return { profile: BUILT_IN_PROFILE };
+  }
+
+  if (profileId) {
+    const row = await prisma.routeMappingProfile.findFirst({
+      where: { id: profileId, isDeleted: false },
+    });
+    if (!row) {
+      throw new Error("Column mapping profile not found");
+    }
+    return { profile: toMappingProfile(row) };
+  }
+
+  const saved = await listMappingProfiles();
+  return {
+    profiles: [...saved.map(toMappingProfile), BUILT_IN_PROFILE],
+  };
+}
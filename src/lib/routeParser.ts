@@ -1,9 +1,42 @@
 import * as XLSX from "xlsx";
-import { PrismaClient, User, Customer, Route, Stop } from "@prisma/client";
+import { Prisma, PrismaClient, User, Customer, Route, Stop } from "@prisma/client";
 import prisma from "./db";
 import { InputValidator } from "./security";
 import { createPSTDate, getPSTDateString } from "./timezone";
 import { shouldIgnoreDriver, shouldIgnoreCustomer } from "./routeValidation";
+import {
+  MappingProfile,
+  MappedField,
+  BUILT_IN_PROFILE,
+  DEFAULT_DATA_START_ROW,
+  columnIndexToLetter,
+  detectMappingProfile,
+  findMissingRequiredFields,
+  resolveColumnIndices,
+} from "./routeColumnMapping";
+import {
+  EXISTING_STOP_INCLUDE,
+  getStopProgress,
+  matchStopsToExisting,
+} from "./routeDiff";
+import {
+  RouteSnapshot,
+  RouteUploadChangeInput,
+  recordRouteUploadChanges,
+  snapshotRoute,
+  snapshotStop,
+} from "./routeUploadHistory";
+import { loadDriverLookup } from "./driverAliases";
+import { customerInputsFromStops, matchCustomers } from "./customerMatching";
+import {
+  RouteFileFormat,
+  JSON_ROUTE_PROFILE,
+  decodeTextBuffer,
+  detectRouteFileFormat,
+  jsonRouteToRows,
+  readCsvRows,
+} from "./routeFileFormats";
+import { OrderLineInput, orderLineCreateData, parseOrderLinesCell } from "./stopOrderLines";
 
 // Define the structure for a parsed stop
 export interface ParsedStop {
@@ -12,6 +45,7 @@ export interface ParsedStop {
   driverName: string; // Added driver name to each stop
   customerGroupCode?: string;
   customerEmail?: string; // Added customer email
+  customerAddress?: string; // Used to match and create customers
   orderNumberWeb?: string;
   quickbooksInvoiceNum?: string;
   initialDriverNotes?: string;
@@ -29,6 +63,7 @@ export interface ParsedStop {
   paymentAmountCheck?: number; // Column AL
   paymentAmountCC?: number; // Column AM
   totalPaymentAmount?: number; // Sum of all payment amounts
+  orderLines?: OrderLineInput[];
 }
 
 
@@ -41,27 +76,142 @@ export interface ParsedRoute {
   stops: ParsedStop[];
 }
 
+// "error": the file (or, in a single-sheet upload, the sheet) can't be
+// imported. "warning": a row was skipped or adjusted, or a sheet skipped.
+export type RouteIssueSeverity = "error" | "warning";
+
+export type RouteIssueCode =
+  | "FILE_TOO_LARGE"
+  | "FILE_EMPTY"
+  | "INVALID_JSON"
+  | "INVALID_PAYLOAD"
+  | "PARSE_FAILED"
+  | "NOT_ENOUGH_DATA"
+  | "MISSING_COLUMN"
+  | "SHEET_SKIPPED"
+  | "NO_STOPS"
+  | "IGNORED_DRIVER"
+  | "INVALID_CUSTOMER_NAME"
+  | "MISSING_CUSTOMER_NAME"
+  | "IGNORED_CUSTOMER"
+  | "INVALID_SEQUENCE"
+  | "SEQUENCE_DEFAULTED"
+  | "INVALID_DATE"
+  | "INVALID_ORDER_LINE"
+  | "ROW_ERROR";
+
+// One problem found while parsing, tied to where it is in the file
+export interface RouteParseIssue {
+  severity: RouteIssueSeverity;
+  code: RouteIssueCode;
+  message: string;
+  // Worksheet name; null for CSV and JSON uploads
+  sheet: string | null;
+  // 1-based row in the sheet (CSV: record number; JSON: stop index + 2)
+  row: number | null;
+  // Column letter, e.g. "C"
+  column: string | null;
+  // Header text of that column (the key, for JSON uploads)
+  header: string | null;
+}
+
 // Define the structure for parsing results
 export interface ParsingResult {
   success: boolean;
   route?: ParsedRoute;
+  // Messages of the issues below, kept for callers that only show text
   errors: string[];
   warnings: string[];
+  issues: RouteParseIssue[];
   rowsProcessed: number;
   rowsSucceeded: number;
   rowsFailed: number;
+  // Column mapping profile that was applied
+  mappingProfile?: {
+    id: string | null;
+    name: string;
+    autoDetected: boolean;
+  };
+  // Format of the uploaded file, plus what was detected for CSV
+  source?: {
+    format: RouteFileFormat;
+    encoding?: string;
+    delimiter?: string;
+  };
+  // Every route found in the upload, one per route number + date. `route`
+  // above is the first of these, for callers that handle a single route.
+  routes?: DetectedRoute[];
+  // Per-sheet outcome for workbooks
+  sheets?: ParsedSheetSummary[];
+}
+
+// A route found in an upload, keyed so the admin can pick which to commit
+export interface DetectedRoute {
+  // "<routeNumber>|<YYYY-MM-DD>" (route date in Pacific time)
+  key: string;
+  route: ParsedRoute;
+  sheetNames: string[];
+  // Row warnings from the rows that belong to this route
+  warnings: string[];
+}
+
+export interface ParsedSheetSummary {
+  name: string;
+  stopCount: number;
+  mappingProfile?: ParsingResult["mappingProfile"];
+  // Why the sheet contributed no stops, if it didn't
+  skipped?: string;
+}
+
+// Options controlling how spreadsheet columns are mapped
+export interface RouteParseOptions {
+  // Profile chosen explicitly in the upload screen
+  profile?: MappingProfile | null;
+  // Saved profiles to auto-detect from the header row
+  profiles?: MappingProfile[];
 }
 
 /**
  * Parse an Excel file buffer into route data
  * @param buffer The Excel file buffer
+ * @param options Column mapping profile to use, or profiles to detect from
  * @returns Parsing result with route data or errors
  */
-export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
+export async function parseRouteExcel(
+  buffer: Buffer,
+  options: RouteParseOptions = {}
+): Promise<ParsingResult> {
+  return parseRouteBuffer(buffer, "xlsx", options);
+}
+
+/**
+ * Parse an uploaded route file (XLSX, CSV or JSON) into route data. The
+ * format comes from the file name, or from the content when the name is
+ * missing. JSON payloads always use their own fixed keys, so mapping
+ * profiles only apply to XLSX and CSV.
+ * @param buffer The uploaded file contents
+ * @param fileName Original file name, used to pick the format
+ * @param options Column mapping profile to use, or profiles to detect from
+ * @returns Parsing result with route data or errors
+ */
+export async function parseRouteFile(
+  buffer: Buffer,
+  fileName: string | null | undefined,
+  options: RouteParseOptions = {}
+): Promise<ParsingResult> {
+  return parseRouteBuffer(buffer, detectRouteFileFormat(fileName, buffer), options);
+}
+
+async function parseRouteBuffer(
+  buffer: Buffer,
+  format: RouteFileFormat,
+  options: RouteParseOptions
+): Promise<ParsingResult> {
   const result: ParsingResult = {
     success: false,
     errors: [],
     warnings: [],
+    issues: [],
     rowsProcessed: 0,
     rowsSucceeded: 0,
     rowsFailed: 0,
@@ -70,184 +220,380 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
   try {
     // Validate buffer size (max 10MB for security)
     if (buffer.length > 10 * 1024 * 1024) {
-      result.errors.push("File size too large. Maximum allowed size is 10MB.");
+      addIssue(result, fileIssue("FILE_TOO_LARGE", "File size too large. Maximum allowed size is 10MB."));
       return result;
     }
 
     // Validate buffer is not empty
     if (buffer.length === 0) {
-      result.errors.push("File is empty.");
+      addIssue(result, fileIssue("FILE_EMPTY", "File is empty."));
       return result;
     }
-    // Performance optimization: Use optimized XLSX reading options
-    const workbook = XLSX.read(buffer, {
-      type: "buffer",
-      cellFormula: false, // Disable formula parsing for better performance
-      cellHTML: false, // Disable HTML parsing for better performance
-      cellText: false, // Disable text parsing for better performance
-      cellDates: true, // Keep date parsing for proper date handling
-      cellNF: false, // Disable number format parsing for better performance
-      cellStyles: false, // Disable style parsing for better performance
-      sheetStubs: false, // Ignore empty cells for better performance
-    });
 
-    // Get the first worksheet
-    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    let sheets: SheetRows[];
+    if (format === "csv") {
+      const csv = readCsvRows(buffer);
+      sheets = [{ name: null, rows: csv.rows }];
+      result.source = { format, encoding: csv.encoding, delimiter: csv.delimiter };
+    } else if (format === "json") {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(decodeTextBuffer(buffer).text);
+      } catch (error) {
+        addIssue(result, fileIssue("INVALID_JSON", `Invalid JSON: ${(error as Error).message}`));
+        return result;
+      }
+      const json = jsonRouteToRows(payload);
+      if (json.errors.length > 0) {
+        for (const message of json.errors) {
+          addIssue(result, fileIssue("INVALID_PAYLOAD", message));
+        }
+        return result;
+      }
+      sheets = [{ name: null, rows: json.rows }];
+      options = { profile: JSON_ROUTE_PROFILE };
+      result.source = { format };
+    } else {
+      sheets = readWorkbookSheets(buffer);
+      result.source = { format };
+    }
+
+    return parseRouteSheets(sheets, options, result);
+  } catch (error) {
+    addIssue(
+      result,
+      fileIssue("PARSE_FAILED", `Error parsing ${FORMAT_LABELS[format]} file: ${(error as Error).message}`)
+    );
+    return result;
+  }
+}
+
+function fileIssue(
+  code: RouteIssueCode,
+  message: string,
+  severity: RouteIssueSeverity = "error"
+): RouteParseIssue {
+  return { severity, code, message, sheet: null, row: null, column: null, header: null };
+}
 
-    // Convert to JSON with headers - optimize with defval to handle empty cells
-    const data = XLSX.utils.sheet_to_json(worksheet, {
+// Record an issue and its message in the matching errors/warnings list
+function addIssue(result: ParsingResult, issue: RouteParseIssue) {
+  result.issues.push(issue);
+  (issue.severity === "error" ? result.errors : result.warnings).push(issue.message);
+}
+
+// Rows of cell values, header row first, as produced by sheet_to_json
+type RouteRows = any[][];
+
+const FORMAT_LABELS: Record<RouteFileFormat, string> = {
+  xlsx: "Excel",
+  csv: "CSV",
+  json: "JSON",
+};
+
+// One worksheet's rows; name is null for CSV and JSON uploads
+export interface SheetRows {
+  name: string | null;
+  rows: RouteRows;
+  // Sheet row number of each entry in rows, when blank rows were dropped
+  rowNumbers?: number[];
+  // Index of the sheet's first used column (rows start there)
+  firstColumn?: number;
+}
+
+/**
+ * Read every worksheet of a workbook as arrays of rows
+ */
+export function readWorkbookSheets(buffer: Buffer): SheetRows[] {
+  // Performance optimization: Use optimized XLSX reading options
+  const workbook = XLSX.read(buffer, {
+    type: "buffer",
+    cellFormula: false, // Disable formula parsing for better performance
+    cellHTML: false, // Disable HTML parsing for better performance
+    cellText: false, // Disable text parsing for better performance
+    cellDates: true, // Keep date parsing for proper date handling
+    cellNF: false, // Disable number format parsing for better performance
+    cellStyles: false, // Disable style parsing for better performance
+    sheetStubs: false, // Ignore empty cells for better performance
+  });
+
+  return workbook.SheetNames.map((name) => {
+    const worksheet = workbook.Sheets[name];
+    const range = worksheet["!ref"]
+      ? XLSX.utils.decode_range(worksheet["!ref"])
+      : null;
+    // Convert to JSON with headers - optimize with defval to handle empty cells.
+    // Blank rows are kept here and dropped below so each row's sheet row
+    // number is known for issue reports.
+    const allRows = XLSX.utils.sheet_to_json(worksheet, {
       header: 1,
       defval: null, // Use null for empty cells for faster processing
-      blankrows: false, // Skip blank rows for better performance
-    }) as any[][];
+      blankrows: true,
+    }) as RouteRows;
+
+    const rows: RouteRows = [];
+    const rowNumbers: number[] = [];
+    allRows.forEach((row, index) => {
+      if (row.some((value) => value !== null)) {
+        rows.push(row);
+        rowNumbers.push((range?.s.r ?? 0) + index + 1);
+      }
+    });
 
-    if (data.length < 2) {
-      result.errors.push("Excel file does not contain enough data");
-      return result;
+    return { name, rows, rowNumbers, firstColumn: range?.s.c ?? 0 };
+  });
+}
+
+/**
+ * Parse every sheet and group the stops into routes by route number and
+ * date. A single sheet keeps the old strict behaviour (missing columns fail
+ * the upload); in a multi-sheet workbook a sheet that doesn't look like a
+ * route sheet is skipped with a warning instead.
+ */
+function parseRouteSheets(
+  sheets: SheetRows[],
+  options: RouteParseOptions,
+  result: ParsingResult
+): ParsingResult {
+  const formatLabel = FORMAT_LABELS[result.source?.format ?? "xlsx"];
+  const multiSheet = sheets.length > 1;
+  const summaries: ParsedSheetSummary[] = [];
+  const groups = new Map<string, DetectedRoute>();
+
+  // Initialize route dates with today's date in PST timezone
+  // createPSTDate() without parameters now correctly returns start of today in PST
+  const today = createPSTDate();
+
+  for (const sheet of sheets) {
+    const sheetName = sheet.name ?? "";
+    const parsed = parseRouteRows(sheet, options, result, multiSheet);
+
+    if (parsed.errors.length > 0) {
+      if (!multiSheet) {
+        for (const issue of parsed.errors) {
+          addIssue(result, issue);
+        }
+        return result;
+      }
+      const reasons = parsed.errors.map((issue) => issue.message).join("; ");
+      summaries.push({ name: sheetName, stopCount: 0, skipped: reasons });
+      // Blank sheets are skipped quietly; sheets with data get a warning
+      if (sheet.rows.length >= 2) {
+        addIssue(result, {
+          ...fileIssue("SHEET_SKIPPED", `Sheet "${sheetName}" skipped: ${reasons}`, "warning"),
+          sheet: sheetName,
+        });
+      }
+      continue;
     }
 
-    // Extract headers (first row)
-    const headers = data[0] as string[];
+    if (!result.mappingProfile) {
+      result.mappingProfile = parsed.mappingProfile;
+    }
+
+    // Rows above the first route number / date belong to the first route
+    const firstRouteNumber = parsed.rows.find((r) => r.routeNumber)?.routeNumber ?? "";
+    const firstDate = parsed.rows.find((r) => r.date)?.date ?? today;
+
+    let stopCount = 0;
+    for (const row of parsed.rows) {
+      const routeNumber = row.routeNumber || firstRouteNumber;
+      const date = row.date ?? firstDate;
+      const key = `${routeNumber}|${getPSTDateString(date)}`;
+
+      let group = groups.get(key);
+      if (!group) {
+        if (!row.stop) continue; // warning for a route with no stops
+        group = {
+          key,
+          route: { routeNumber, driverName: "", date, stops: [] },
+          sheetNames: [],
+          warnings: [],
+        };
+        groups.set(key, group);
+      }
+
+      if (sheet.name && !group.sheetNames.includes(sheet.name)) {
+        group.sheetNames.push(sheet.name);
+      }
+      if (row.warning) {
+        group.warnings.push(row.warning);
+      }
+      if (row.stop) {
+        if (!group.route.driverName) {
+          group.route.driverName = row.stop.driverName;
+        }
+        if (row.sequenceDefaulted) {
+          row.stop.sequence = group.route.stops.length + 1;
+        }
+        group.route.stops.push(row.stop);
+        stopCount++;
+      }
+    }
 
-    // Performance optimization: Create a map of header names to indices for faster lookups
-    const headerMap = new Map<string, number>();
-    headers.forEach((header, index) => {
-      if (header) headerMap.set(header, index);
+    summaries.push({
+      name: sheetName,
+      stopCount,
+      mappingProfile: parsed.mappingProfile,
+      ...(stopCount === 0 ? { skipped: "No valid stops" } : {}),
     });
+  }
 
-    // Find column indices based on headers - optimized with Map for O(1) lookups
-    const columnIndices = {
-      routeNumber: headerMap.get("Route #") ?? -1,
-      driver: headerMap.get("Driver") ?? -1, // Use the Driver column from headers
-      sequence: headerMap.get("S No") ?? 0, // Use S No column for sequence numbers
-      customerName: headerMap.get("Customers") ?? -1,
-      customerGroupCode: headerMap.get("Customer GROUP CODE") ?? -1,
-      customerEmail: headerMap.get("Customer Email") ?? -1,
-      orderNumberWeb: headerMap.get("Order # (Web)") ?? -1,
-      // Try multiple possible column names for date
-      date:
-        headerMap.get("Date") ??
-        headerMap.get("Route Date") ??
-        headerMap.get("Delivery Date") ??
-        headerMap.get("Schedule Date") ??
-        -1,
-      // Try multiple possible column names for invoice number
-      quickbooksInvoiceNum:
-        headerMap.get("Invoice #") ??
-        headerMap.get("Invoice#") ??
-        headerMap.get("Invoice") ??
-        headerMap.get("QB Invoice #") ??
-        headerMap.get("QB Invoice") ??
-        -1,
-      initialDriverNotes:
-        headerMap.get("NOTES to be updated at top of the INVOICE") ?? -1,
-      adminNotes: headerMap.get("Notes for Drivers") ?? -1, // AC column - Notes for Drivers
-      codFlag: headerMap.get("COD Account/ Send Inv to Customer") ?? -1,
-      paymentFlagCash: headerMap.get("Cash") ?? -1,
-      paymentFlagCheck: headerMap.get("Check") ?? -1,
-      paymentFlagCC: headerMap.get("Credit Card") ?? -1,
-      returnFlag: headerMap.get("Payments & Returns Remarks") ?? -1,
-      driverRemark: headerMap.get("Other Remarks") ?? -1,
-      amount: headerMap.get("Amount") ?? -1,
-      // Payment amount columns (will be overridden with fixed positions)
-      paymentAmountCash: headerMap.get("Cash Amount") ?? -1, // Column AK
-      paymentAmountCheck: headerMap.get("Check Amount") ?? -1, // Column AL
-      paymentAmountCC: headerMap.get("Credit Card Amount") ?? -1, // Column AM
-    };
+  if (result.source?.format === "xlsx") {
+    result.sheets = summaries;
+  }
 
-    // Always use column AJ (index 35) for invoice numbers as specified
-    // This overrides any column mapping that might have been found by name
-    columnIndices.quickbooksInvoiceNum = 35; // Column AJ (0-based index)
-    console.log("Using column AJ (index 35) for invoice numbers as specified");
-
-    // Always use column C (index 2) for driver names as specified
-    // This overrides any column mapping that might have been found by name
-    columnIndices.driver = 2; // Column C (0-based index)
-    console.log("Using column C (index 2) for driver names as specified");
-
-    // Fix column mapping: AK is for Amount, AL/AM/AN are for payment amounts
-    // AK = 36 (Amount - invoice total)
-    // AL = 37 (Cash Payment Amount)
-    // AM = 38 (Check Payment Amount)
-    // AN = 39 (Credit Card Payment Amount)
-    columnIndices.amount = 36; // Column AK - Invoice Amount
-    columnIndices.paymentAmountCash = 37; // Column AL - Cash Payment
-    columnIndices.paymentAmountCheck = 38; // Column AM - Check Payment
-    columnIndices.paymentAmountCC = 39; // Column AN - Credit Card Payment
-    console.log("Fixed column mapping: AK=Amount(36), AL=Cash(37), AM=Check(38), AN=CC(39)");
+  const routes = Array.from(groups.values());
 
-    // Log the headers and column indices for debugging
-    console.log("Excel Headers:", headers);
-    console.log("Column Indices:", columnIndices);
+  // Final validation
+  if (routes.length === 0) {
+    addIssue(result, fileIssue("NO_STOPS", `No valid stops found in the ${formatLabel} file`));
+    return result;
+  }
 
-    // CRITICAL DEBUG: Check for column conflicts
-    console.log("=== COLUMN MAPPING DEBUG ===");
-    console.log(`Amount column index: ${columnIndices.amount} (Header: "${headers[columnIndices.amount]}")`);
-    console.log(`Cash payment column index: ${columnIndices.paymentAmountCash} (Header: "${headers[columnIndices.paymentAmountCash]}")`);
-    console.log(`Check payment column index: ${columnIndices.paymentAmountCheck} (Header: "${headers[columnIndices.paymentAmountCheck]}")`);
-    console.log(`CC payment column index: ${columnIndices.paymentAmountCC} (Header: "${headers[columnIndices.paymentAmountCC]}")`);
+  if (routes.length > 1) {
+    console.log(
+      `[ROUTE PARSER] Found ${routes.length} routes:`,
+      routes.map((r) => `${r.key} (${r.route.stops.length} stops)`)
+    );
+  }
+
+  result.routes = routes;
+  result.route = routes[0].route;
+  result.success = true;
+
+  return result;
+}
+
+// A stop (or a skipped row's warning) with the route number and date read
+// from its row, or carried down from the rows above
+interface ParsedRow {
+  routeNumber: string;
+  date: Date | null;
+  stop?: ParsedStop;
+  warning?: string;
+  // No usable stop number: numbered after the stops before it on its route
+  sequenceDefaulted?: boolean;
+}
+
+interface ParsedSheet {
+  errors: RouteParseIssue[];
+  rows: ParsedRow[];
+  mappingProfile?: ParsingResult["mappingProfile"];
+}
+
+/**
+ * Turn one grid of rows (header first) into stops tagged with their route
+ * number and date. Shared by every upload format so they all produce the
+ * same ParsedStop. Row counters and warnings go straight onto `result`;
+ * sheet-level errors are returned so the caller can decide whether they
+ * fail the upload. Messages name the sheet only in multi-sheet workbooks.
+ */
+function parseRouteRows(
+  source: SheetRows,
+  options: RouteParseOptions,
+  result: ParsingResult,
+  multiSheet: boolean
+): ParsedSheet {
+  const data = source.rows;
+  const formatLabel = FORMAT_LABELS[result.source?.format ?? "xlsx"];
+  const sheet: ParsedSheet = { errors: [], rows: [] };
+  const sheetRow = (dataIndex: number) =>
+    source.rowNumbers?.[dataIndex] ?? dataIndex + 1;
+  const rowLabel = (rowNumber: number) =>
+    multiSheet ? `Sheet "${source.name}" row ${rowNumber}` : `Row ${rowNumber}`;
+  const sheetError = (code: RouteIssueCode, message: string): RouteParseIssue => ({
+    ...fileIssue(code, message),
+    sheet: source.name,
+  });
 
-    // Check for conflicts
-    if (columnIndices.amount === columnIndices.paymentAmountCash) {
-      console.error("🚨 CONFLICT: Amount and Cash Payment are using the same column!");
+  try {
+    if (data.length < 2) {
+      sheet.errors.push(sheetError("NOT_ENOUGH_DATA", `${formatLabel} file does not contain enough data`));
+      return sheet;
     }
-    if (columnIndices.amount === columnIndices.paymentAmountCheck) {
-      console.error("🚨 CONFLICT: Amount and Check Payment are using the same column!");
+
+    // Extract headers (first row)
+    const headers = data[0] as unknown[];
+
+    // Pick the column mapping: an explicitly chosen profile wins, otherwise
+    // auto-detect from the saved profiles, otherwise the standard layout.
+    let profile = options.profile ?? null;
+    let autoDetected = false;
+    if (!profile && options.profiles && options.profiles.length > 0) {
+      profile = detectMappingProfile(headers, options.profiles);
+      autoDetected = !!profile;
     }
-    if (columnIndices.amount === columnIndices.paymentAmountCC) {
-      console.error("🚨 CONFLICT: Amount and Credit Card Payment are using the same column!");
+    if (!profile) {
+      profile = BUILT_IN_PROFILE;
     }
-    console.log("=== END COLUMN DEBUG ===");
 
-    // Validate that we found all required columns
-    const requiredColumns = [
-      "routeNumber",
-      "driver",
-      "sequence",
-      "customerName",
-    ];
-    for (const col of requiredColumns) {
-      if (columnIndices[col as keyof typeof columnIndices] === -1) {
-        result.errors.push(
-          `Required column '${col}' not found in the Excel file`
-        );
-      }
-    }
+    sheet.mappingProfile = {
+      id: profile.id,
+      name: profile.name,
+      autoDetected,
+    };
 
-    if (result.errors.length > 0) {
-      return result;
-    }
+    // Resolve every field to a column index (header match first, then the
+    // profile's fixed-column fallback)
+    const columnIndices = resolveColumnIndices(headers, profile.mapping);
 
-    // Initialize route data with today's date in PST timezone
-    // createPSTDate() without parameters now correctly returns start of today in PST
-    const today = createPSTDate();
+    // Log the headers and column indices for debugging
+    console.log(`[ROUTE PARSER] Using column mapping "${profile.name}"${autoDetected ? " (auto-detected)" : ""}${multiSheet ? ` for sheet "${source.name}"` : ""}`);
+    console.log("Excel Headers:", headers);
+    console.log("Column Indices:", columnIndices);
 
-    // Debug logging for route initialization
-    console.log(`[ROUTE PARSER] Initializing route with today's date:`, {
-      todayUTC: today.toISOString(),
-      todayPST: today.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }),
-      isDST: today.toLocaleString("en-US", { timeZone: "America/Los_Angeles", timeZoneName: "short" }).includes("PDT")
-    });
+    // Validate that we found all required columns
+    for (const col of findMissingRequiredFields(columnIndices)) {
+      sheet.errors.push({
+        ...sheetError(
+          "MISSING_COLUMN",
+          `Required column '${col}' not found in the ${formatLabel} file (mapping: ${profile.name})`
+        ),
+        row: sheetRow(0),
+      });
+    }
 
-    const route: ParsedRoute = {
-      routeNumber: "",
-      driverName: "",
-      date: today, // Will be updated from Excel data if available
-      stops: [],
-    };
+    if (sheet.errors.length > 0) {
+      return sheet;
+    }
 
-    // Performance optimization: Pre-allocate array for stops to avoid resizing
-    const estimatedStopCount = Math.max(50, Math.floor(data.length * 0.8));
-    const stops: ParsedStop[] = [];
-    stops.length = estimatedStopCount;
-    let stopIndex = 0;
+    // Route number and date carry down to the rows below them, so a sheet
+    // can hold several routes one after another
+    let currentRouteNumber = "";
+    let currentDate: Date | null = null;
 
     // Process data rows (skip header row and summary rows)
     // Performance optimization: Use for-of loop for better performance with large arrays
-    let rowIndex = 2; // Start from row 3 (index 2)
-    for (const row of data.slice(2)) {
+    const dataStartRow = profile.mapping.dataStartRow ?? DEFAULT_DATA_START_ROW;
+    let dataIndex = dataStartRow - 2;
+    let rowIndex = 0;
+
+    // Record a row issue against the cell of `field` (if given)
+    const warn = (code: RouteIssueCode, message: string, field?: MappedField) => {
+      const columnIndex = field ? columnIndices[field] : -1;
+      addIssue(result, {
+        severity: "warning",
+        code,
+        message,
+        sheet: source.name,
+        row: rowIndex,
+        column:
+          columnIndex >= 0
+            ? columnIndexToLetter((source.firstColumn ?? 0) + columnIndex)
+            : null,
+        header:
+          columnIndex >= 0 && headers[columnIndex] != null
+            ? String(headers[columnIndex])
+            : null,
+      });
+      sheet.rows.push({ routeNumber: currentRouteNumber, date: currentDate, warning: message });
+    };
+
+    for (const row of data.slice(dataStartRow - 1)) {
       result.rowsProcessed++;
-      rowIndex++;
+      dataIndex++;
+      rowIndex = sheetRow(dataIndex);
 
       // Skip empty rows or summary rows - optimized null check
       if (!row || !(row as any[])[columnIndices.customerName]) {
@@ -255,9 +601,9 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
       }
 
       try {
-        // Extract route information from the first valid row
-        if (!route.routeNumber && row[columnIndices.routeNumber]) {
-          route.routeNumber = row[columnIndices.routeNumber].toString();
+        // Extract route information from the row
+        if (row[columnIndices.routeNumber]) {
+          currentRouteNumber = row[columnIndices.routeNumber].toString().trim();
         }
 
         // Extract route date from Excel if available
@@ -271,16 +617,28 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
             } else if (typeof dateValue === 'number') {
               // Excel date serial number
               parsedDate = new Date((dateValue - 25569) * 86400 * 1000);
+            } else if (/^\d{4}-\d{2}-\d{2}$/.test(dateValue.toString().trim())) {
+              // ISO date (JSON/CSV) - read as a calendar day, not UTC midnight
+              const [year, month, day] = dateValue.toString().trim().split("-").map(Number);
+              parsedDate = new Date(year, month - 1, day);
             } else {
               // Try to parse as string
               parsedDate = new Date(dateValue.toString());
             }
 
+            if (isNaN(parsedDate.getTime())) {
+              warn(
+                "INVALID_DATE",
+                `${rowLabel(rowIndex)}: Unrecognized date "${dateValue}"; using the date from the rows above`,
+                "date"
+              );
+            }
+
             // Validate and normalize the parsed date to PST timezone
             if (!isNaN(parsedDate.getTime())) {
               // Convert to PST timezone - createPSTDate now handles timezone correctly
               const pstDate = createPSTDate(parsedDate.getFullYear(), parsedDate.getMonth() + 1, parsedDate.getDate());
-              route.date = pstDate;
+              currentDate = pstDate;
 
               // Debug logging for route date assignment
               console.log(`[ROUTE PARSER] Route date set from Excel:`, {
@@ -295,21 +653,15 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
           }
         }
 
-        // Only set the route's driver name if it's not already set and the current row has a valid driver
-        if (!route.driverName && row[columnIndices.driver]) {
-          const driverName = row[columnIndices.driver].toString();
-          if (!shouldIgnoreDriver(driverName)) {
-            route.driverName = driverName;
-          }
-        }
-
         // Get the driver name from the row — trim whitespace to prevent invisible mismatches
         const rawDriverName = row[columnIndices.driver]?.toString().trim() || "";
 
         // Check if this driver should be ignored
         if (shouldIgnoreDriver(rawDriverName)) {
-          result.warnings.push(
-            `Row ${rowIndex}: Ignored row with invalid driver name: "${rawDriverName}"`
+          warn(
+            "IGNORED_DRIVER",
+            `${rowLabel(rowIndex)}: Ignored row with invalid driver name: "${rawDriverName}"`,
+            "driver"
           );
           result.rowsFailed++;
           continue;
@@ -328,8 +680,10 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
             throw new Error("Customer name too short");
           }
         } catch (error) {
-          result.warnings.push(
-            `Row ${rowIndex}: Invalid customer name: "${rawCustomerName}"`
+          warn(
+            "INVALID_CUSTOMER_NAME",
+            `${rowLabel(rowIndex)}: Invalid customer name: "${rawCustomerName}"`,
+            "customerName"
           );
           result.rowsFailed++;
           continue;
@@ -338,8 +692,10 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
         // Validate sequence number
         const sequence = parseInt(rawSequence);
         if (isNaN(sequence) || sequence < 0 || sequence > 9999) {
-          result.warnings.push(
-            `Row ${rowIndex}: Invalid sequence number: "${rawSequence}"`
+          warn(
+            "INVALID_SEQUENCE",
+            `${rowLabel(rowIndex)}: Invalid sequence number: "${rawSequence}"`,
+            "sequence"
           );
           result.rowsFailed++;
           continue;
@@ -353,6 +709,8 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
             row[columnIndices.customerGroupCode]?.toString() || undefined,
           customerEmail:
             row[columnIndices.customerEmail]?.toString() || undefined,
+          customerAddress:
+            row[columnIndices.customerAddress]?.toString().trim() || undefined,
           orderNumberWeb: (() => {
             const rawValue = row[columnIndices.orderNumberWeb];
             return rawValue !== undefined && rawValue !== null
@@ -360,29 +718,12 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
               : "";
           })(),
           quickbooksInvoiceNum: (() => {
-            // ONLY use column AJ (index 35) for invoice numbers - no fallback logic
-            // This prevents web order numbers from being incorrectly used as invoice numbers
-
-            let rawValue = row[35]; // Column AJ (0-based index)
-            let invoiceNum: string = "";
-
-            if (rawValue !== undefined && rawValue !== null) {
-              // Convert to string and trim whitespace
-              invoiceNum = rawValue.toString().trim();
-            }
-
-            // Enhanced debug logging to track the exact values
-            console.log(`Row ${rowIndex} - Invoice # Debug:`, {
-              customerName: row[columnIndices.customerName]?.toString() || "",
-              columnAJ_index35: row[35],
-              columnAJ_type: typeof row[35],
-              columnAJ_isEmpty: row[35] === undefined || row[35] === null || row[35] === "",
-              finalInvoiceNum: invoiceNum,
-              webOrderColumn: row[columnIndices.orderNumberWeb],
-              webOrderValue: row[columnIndices.orderNumberWeb]?.toString() || "",
-            });
-
-            return invoiceNum; // Return empty string if column AJ is empty
+            // Invoice numbers come only from the mapped invoice column — no
+            // fallback to the web order number, which would be misleading
+            const rawValue = row[columnIndices.quickbooksInvoiceNum];
+            return rawValue !== undefined && rawValue !== null
+              ? rawValue.toString().trim()
+              : "";
           })(),
           initialDriverNotes:
             row[columnIndices.initialDriverNotes]?.toString() || undefined,
@@ -429,6 +770,18 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
           })(),
         };
 
+        // Order lines: unreadable entries are skipped with a warning, the
+        // stop itself is still imported
+        if (columnIndices.orderLines !== -1) {
+          const { lines, errors } = parseOrderLinesCell(row[columnIndices.orderLines]);
+          for (const error of errors) {
+            warn("INVALID_ORDER_LINE", `${rowLabel(rowIndex)}: ${error}`, "orderLines");
+          }
+          if (lines.length > 0) {
+            stop.orderLines = lines;
+          }
+        }
+
         // Calculate total payment amount only if any payment amounts are defined
         const hasPaymentAmounts = stop.paymentAmountCash !== undefined ||
                                  stop.paymentAmountCheck !== undefined ||
@@ -450,61 +803,51 @@ export async function parseRouteExcel(buffer: Buffer): Promise<ParsingResult> {
 
         // Validate stop data
         if (!stop.customerName) {
-          result.warnings.push(`Row ${rowIndex}: Missing customer name`);
+          warn("MISSING_CUSTOMER_NAME", `${rowLabel(rowIndex)}: Missing customer name`, "customerName");
           result.rowsFailed++;
           continue;
         }
 
         // Check if this customer should be ignored (email addresses, documentation entries, etc.)
         if (shouldIgnoreCustomer(stop.customerName)) {
-          result.warnings.push(
-            `Row ${rowIndex}: Ignored row with invalid customer name: "${stop.customerName}"`
+          warn(
+            "IGNORED_CUSTOMER",
+            `${rowLabel(rowIndex)}: Ignored row with invalid customer name: "${stop.customerName}"`,
+            "customerName"
           );
           result.rowsFailed++;
           continue;
         }
 
         if (isNaN(stop.sequence) || stop.sequence <= 0) {
-          result.warnings.push(
-            `Row ${rowIndex}: Invalid sequence number for customer ${stop.customerName}`
+          warn(
+            "SEQUENCE_DEFAULTED",
+            `${rowLabel(rowIndex)}: Invalid sequence number for customer ${stop.customerName}`,
+            "sequence"
           );
-          // Still add the stop but with a default sequence
-          stop.sequence = route.stops.length + 1;
         }
 
-        // Add the stop to our pre-allocated array
-        if (stopIndex < estimatedStopCount) {
-          stops[stopIndex++] = stop;
-        } else {
-          // If we exceed our pre-allocated size, push to the array
-          stops.push(stop);
-          stopIndex++;
-        }
+        // Still add the stop; a default sequence is given once its route is known
+        sheet.rows.push({
+          routeNumber: currentRouteNumber,
+          date: currentDate,
+          stop,
+          ...((isNaN(stop.sequence) || stop.sequence <= 0) && { sequenceDefaulted: true }),
+        });
         result.rowsSucceeded++;
       } catch (error) {
-        result.warnings.push(
-          `Row ${rowIndex}: Error processing row - ${(error as Error).message}`
+        warn(
+          "ROW_ERROR",
+          `${rowLabel(rowIndex)}: Error processing row - ${(error as Error).message}`
         );
         result.rowsFailed++;
       }
     }
 
-    // Trim the stops array to the actual size and assign to route
-    route.stops = stops.slice(0, stopIndex);
-
-    // Final validation
-    if (route.stops.length === 0) {
-      result.errors.push("No valid stops found in the Excel file");
-      return result;
-    }
-
-    result.route = route;
-    result.success = true;
-
-    return result;
+    return sheet;
   } catch (error) {
-    result.errors.push(`Error parsing Excel file: ${(error as Error).message}`);
-    return result;
+    sheet.errors.push(sheetError("PARSE_FAILED", `Error parsing ${formatLabel} file: ${(error as Error).message}`));
+    return sheet;
   }
 }
 
@@ -520,579 +863,754 @@ export async function saveRouteToDatabase(
   parsedRoute: ParsedRoute,
   uploadedBy: string,
   fileName: string,
-  action?: string | null
-): Promise<{ route: Route; isUpdate: boolean; unmatchedDriverNames: string[] }> {
+  action?: string | null,
+  options: SaveRouteOptions = {}
+): Promise<SavedRoute> {
   // Performance optimization: Use a more efficient transaction with optimized batch operations
-  return await prisma.$transaction(async (tx) => {
-    // Initialize customerInvoiceMap at the top level of the transaction
-    // This map will store existing invoice numbers for customers when updating a route
-    const customerInvoiceMap = new Map<
-      string,
-      {
-        quickbooksInvoiceNum: string | null;
-        orderNumberWeb: string | null;
-      }
-    >();
-
-    // Flag to track if this is an update to an existing route
-    let isUpdate = false;
-
-    // Filter out any stops with invalid driver names or customer names that might have slipped through
-    // Performance optimization: Use a more efficient filter with early returns
-    const validStops: ParsedStop[] = [];
-    for (const stop of parsedRoute.stops) {
-      if (
-        shouldIgnoreDriver(stop.driverName) ||
-        shouldIgnoreCustomer(stop.customerName)
-      ) {
-        continue;
-      }
-      validStops.push(stop);
-    }
-    parsedRoute.stops = validStops;
+  return await prisma.$transaction((tx) =>
+    saveParsedRoute(tx, parsedRoute, uploadedBy, fileName, action, options)
+  );
+}
 
-    // Collect unique trimmed driver name strings from the CSV
-    const driverNamesSet = new Set<string>();
-    for (const stop of parsedRoute.stops) {
-      if (stop.driverName) {
-        driverNamesSet.add(stop.driverName); // already trimmed at parse time
+/**
+ * Save several parsed routes in one transaction — if any route fails, none
+ * of them are saved.
+ * @param routes The routes to save, each with its own create/update action
+ * @param uploadedBy ID of the admin who uploaded the routes
+ * @param fileName Name of the uploaded file
+ * @param options Whether to protect stops with driver progress
+ * @returns The created or updated routes, in the order given
+ */
+export async function saveRoutesToDatabase(
+  routes: { route: ParsedRoute; action?: string | null }[],
+  uploadedBy: string,
+  fileName: string,
+  options: SaveRouteOptions = {}
+): Promise<SavedRoute[]> {
+  return await prisma.$transaction(
+    async (tx) => {
+      const saved: SavedRoute[] = [];
+      for (const { route, action } of routes) {
+        saved.push(await saveParsedRoute(tx, route, uploadedBy, fileName, action, options));
       }
-    }
-    const csvDriverNames = Array.from(driverNamesSet);
-
-    // Load ALL active DRIVER accounts from the DB so we can do a
-    // case-insensitive match against both username and fullName.
-    // This prevents split sections caused by casing / whitespace differences.
-    const allDriverUsers = await tx.user.findMany({
-      where: { role: "DRIVER", isDeleted: false },
-      select: { id: true, username: true, fullName: true },
-    });
+      return saved;
+    },
+    // Each route takes a few seconds on a large sheet
+    { maxWait: 10000, timeout: 60000 }
+  );
+}
 
-    // Build a lookup: lowercased key → canonical username
-    // We index both username and fullName so either can match the CSV value.
-    const driverLookup = new Map<string, string>(); // lowerKey → username
-    for (const u of allDriverUsers) {
-      driverLookup.set(u.username.toLowerCase(), u.username);
-      if (u.fullName) {
-        driverLookup.set(u.fullName.toLowerCase(), u.username);
-      }
-    }
+export interface SaveRouteOptions {
+  // Leave stops with driver progress untouched on merge and refuse to
+  // replace a route that has any (default true). See routeDiff.ts.
+  protectDriverProgress?: boolean;
+  // Log every change against this RouteUpload so it can be rolled back.
+  // See routeUploadHistory.ts.
+  uploadId?: string;
+}
 
-    // Map: CSV raw name → canonical username (or null if no match found)
-    const csvToCanonical = new Map<string, string | null>();
-    const unmatchedDriverNames: string[] = [];
-
-    for (const csvName of csvDriverNames) {
-      const canonical = driverLookup.get(csvName.toLowerCase()) ?? null;
-      csvToCanonical.set(csvName, canonical);
-      if (!canonical) {
-        unmatchedDriverNames.push(csvName);
-        console.warn(
-          `[ROUTE UPLOAD] Driver "${csvName}" not found in the system. ` +
-          `Stops will be saved with the raw CSV name until a matching account is created.`
-        );
-      } else {
-        console.log(
-          `[ROUTE UPLOAD] Driver "${csvName}" resolved to canonical username "${canonical}".`
-        );
-      }
+export interface SavedRoute {
+  route: Route;
+  isUpdate: boolean;
+  unmatchedDriverNames: string[];
+  // Matched stops skipped because the driver had already worked them
+  protectedStopCount: number;
+}
+
+async function saveParsedRoute(
+  tx: Prisma.TransactionClient,
+  parsedRoute: ParsedRoute,
+  uploadedBy: string,
+  fileName: string,
+  action?: string | null,
+  options: SaveRouteOptions = {}
+): Promise<SavedRoute> {
+  const protectDriverProgress = options.protectDriverProgress ?? true;
+  let protectedStopCount = 0;
+
+  // Change log for rollback, written at the end when there's an uploadId
+  const changes: RouteUploadChangeInput[] = [];
+  let replacedRouteSnapshot: RouteSnapshot | null = null;
+
+  // Initialize customerInvoiceMap at the top level of the transaction
+  // This map will store existing invoice numbers for customers when updating a route
+  const customerInvoiceMap = new Map<
+    string,
+    {
+      quickbooksInvoiceNum: string | null;
+      orderNumberWeb: string | null;
+    }
+  >();
+
+  // Flag to track if this is an update to an existing route
+  let isUpdate = false;
+
+  // Filter out any stops with invalid driver names or customer names that might have slipped through
+  // Performance optimization: Use a more efficient filter with early returns
+  const validStops: ParsedStop[] = [];
+  for (const stop of parsedRoute.stops) {
+    if (
+      shouldIgnoreDriver(stop.driverName) ||
+      shouldIgnoreCustomer(stop.customerName)
+    ) {
+      continue;
     }
+    validStops.push(stop);
+  }
+  parsedRoute.stops = validStops;
 
-    // Rewrite each stop's driverName to the canonical username where possible.
-    // If no match, keep the trimmed CSV value so it is at least consistent.
-    for (const stop of parsedRoute.stops) {
-      const canonical = csvToCanonical.get(stop.driverName);
-      if (canonical) {
-        stop.driverName = canonical;
-      }
-      // If null (unmatched), leave stop.driverName as-is (trimmed CSV string)
+  // Collect unique trimmed driver name strings from the CSV
+  const driverNamesSet = new Set<string>();
+  for (const stop of parsedRoute.stops) {
+    if (stop.driverName) {
+      driverNamesSet.add(stop.driverName); // already trimmed at parse time
     }
+  }
+  const csvDriverNames = Array.from(driverNamesSet);
+
+  // Match each name against active DRIVER accounts (case-insensitive
+  // username or full name), then saved aliases. This prevents split
+  // sections caused by casing / spelling differences.
+  const { drivers: allDriverUsers, resolve: resolveDriver } = await loadDriverLookup(tx);
+
+  // Map: CSV raw name → canonical username (or null if no match found)
+  const csvToCanonical = new Map<string, string | null>();
+  const unmatchedDriverNames: string[] = [];
+
+  for (const csvName of csvDriverNames) {
+    const match = resolveDriver(csvName);
+    const canonical = match?.driver.username ?? null;
+    csvToCanonical.set(csvName, canonical);
+    if (!canonical) {
+      unmatchedDriverNames.push(csvName);
+      console.warn(
+        `[ROUTE UPLOAD] Driver "${csvName}" not found in the system. ` +
+        `Stops will be saved with the raw CSV name until a matching account is created.`
+      );
+    } else {
+      console.log(
+        `[ROUTE UPLOAD] Driver "${csvName}" resolved to canonical username "${canonical}"` +
+        `${match?.source === "alias" ? " via alias" : ""}.`
+      );
+    }
+  }
 
-    // driverMap is still used by legacy code paths below — populate from allDriverUsers
-    const driverMap = new Map<string, User>();
-    for (const u of allDriverUsers as User[]) {
-      driverMap.set(u.username, u);
+  // Rewrite each stop's driverName to the canonical username where possible.
+  // If no match, keep the trimmed CSV value so it is at least consistent.
+  for (const stop of parsedRoute.stops) {
+    const canonical = csvToCanonical.get(stop.driverName);
+    if (canonical) {
+      stop.driverName = canonical;
     }
+    // If null (unmatched), leave stop.driverName as-is (trimmed CSV string)
+  }
 
-    // Expose unmatched names on parsedRoute so the caller can surface them
-    // in the API response. We attach them as a non-schema property.
-    (parsedRoute as any).unmatchedDriverNames = unmatchedDriverNames;
+  // driverMap is still used by legacy code paths below — populate from allDriverUsers
+  const driverMap = new Map<string, User>();
+  for (const u of allDriverUsers as User[]) {
+    driverMap.set(u.username, u);
+  }
 
-    // Find the admin user who is uploading the route
-    const adminUser = await tx.user.findUnique({
-      where: {
-        id: uploadedBy,
-        isDeleted: false,
-      },
-    });
+  // Expose unmatched names on parsedRoute so the caller can surface them
+  // in the API response. We attach them as a non-schema property.
+  (parsedRoute as any).unmatchedDriverNames = unmatchedDriverNames;
 
-    if (!adminUser) {
-      throw new Error(`Admin user with ID ${uploadedBy} not found`);
-    }
+  // Find the admin user who is uploading the route
+  const adminUser = await tx.user.findUnique({
+    where: {
+      id: uploadedBy,
+      isDeleted: false,
+    },
+  });
 
-    // Ensure the user has admin privileges
-    if (!["ADMIN", "SUPER_ADMIN"].includes(adminUser.role)) {
-      throw new Error(
-        `User ${adminUser.username} does not have admin privileges`
-      );
-    }
+  if (!adminUser) {
+    throw new Error(`Admin user with ID ${uploadedBy} not found`);
+  }
 
-    // Check if a route with the same route number AND date already exists
-    let route: Route | null = null;
+  // Ensure the user has admin privileges
+  if (!["ADMIN", "SUPER_ADMIN"].includes(adminUser.role)) {
+    throw new Error(
+      `User ${adminUser.username} does not have admin privileges`
+    );
+  }
 
-    if (parsedRoute.routeNumber) {
-      // Normalize the route date for consistent comparison
-      const normalizedRouteDate = new Date(parsedRoute.date);
-      normalizedRouteDate.setHours(0, 0, 0, 0);
+  // Check if a route with the same route number AND date already exists
+  let route: Route | null = null;
 
-      const startOfDay = new Date(normalizedRouteDate);
-      const endOfDay = new Date(normalizedRouteDate);
-      endOfDay.setHours(23, 59, 59, 999);
+  if (parsedRoute.routeNumber) {
+    // Normalize the route date for consistent comparison
+    const normalizedRouteDate = new Date(parsedRoute.date);
+    normalizedRouteDate.setHours(0, 0, 0, 0);
 
-      const existingRoute = await tx.route.findFirst({
-        where: {
-          routeNumber: parsedRoute.routeNumber,
-          date: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
-          isDeleted: false,
+    const startOfDay = new Date(normalizedRouteDate);
+    const endOfDay = new Date(normalizedRouteDate);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const existingRoute = await tx.route.findFirst({
+      where: {
+        routeNumber: parsedRoute.routeNumber,
+        date: {
+          gte: startOfDay,
+          lte: endOfDay,
         },
-      });
+        isDeleted: false,
+      },
+    });
 
-      if (existingRoute) {
-        console.log(`Existing route found. Action: ${action || 'default'}`);
+    if (existingRoute) {
+      console.log(`Existing route found. Action: ${action || 'default'}`);
 
-        if (action === 'create') {
-          // Delete the existing route completely and create a fresh one
-          console.log(`Deleting existing route ${existingRoute.routeNumber} to create fresh one`);
+      if (action === 'create') {
+        // Delete the existing route completely and create a fresh one
+        console.log(`Deleting existing route ${existingRoute.routeNumber} to create fresh one`);
 
-          // First, get all stops for this route to delete admin notes
-          const existingStops = await tx.stop.findMany({
-            where: { routeId: existingRoute.id },
-            select: { id: true },
-          });
+        // First, get all stops for this route to delete admin notes
+        const existingStops = await tx.stop.findMany({
+          where: { routeId: existingRoute.id },
+          include: EXISTING_STOP_INCLUDE,
+        });
 
-          // Delete all admin notes associated with these stops
-          if (existingStops.length > 0) {
-            await tx.adminNote.deleteMany({
-              where: {
-                stopId: {
-                  in: existingStops.map((stop) => stop.id),
-                },
-              },
-            });
-          }
+        // Replacing would throw away the driver's work on these stops
+        const progressedStops = existingStops.filter((stop) => getStopProgress(stop));
+        if (protectDriverProgress && progressedStops.length > 0) {
+          throw new Error(
+            `Route ${existingRoute.routeNumber} has ${progressedStops.length} stop(s) with driver progress; ` +
+            `merge into it instead, or turn off driver-progress protection to replace it`
+          );
+        }
 
-          // Delete all stops for this route
-          await tx.stop.deleteMany({
+        // Snapshot the route, its safety checks, stops and notes for rollback
+        if (options.uploadId) {
+          const safetyChecks = await tx.safetyCheck.findMany({
             where: { routeId: existingRoute.id },
           });
-
-          // Delete all safety checks for this route
-          await tx.safetyCheck.deleteMany({
-            where: { routeId: existingRoute.id },
+          const adminNotes = await tx.adminNote.findMany({
+            where: { stopId: { in: existingStops.map((stop) => stop.id) } },
           });
-
-          // Delete the route itself
-          await tx.route.delete({
-            where: { id: existingRoute.id },
+          const orderLines = await tx.stopOrderLine.findMany({
+            where: { stopId: { in: existingStops.map((stop) => stop.id) } },
           });
 
-          console.log(`Deleted existing route ${existingRoute.routeNumber} completely`);
-          // Route will be created fresh below with same route number
-        } else {
-          // Smart update: merge new data with existing route
-          console.log(`Performing smart update for route ${existingRoute.routeNumber}`);
-          route = await tx.route.update({
-            where: { id: existingRoute.id },
-            data: {
-              date: parsedRoute.date,
-              uploadedBy: uploadedBy,
-              sourceFile: fileName,
-              // Don't change the status if it's already in progress or completed
-              status: ["IN_PROGRESS", "COMPLETED"].includes(existingRoute.status)
-                ? existingRoute.status
-                : "PENDING",
-            },
+          replacedRouteSnapshot = snapshotRoute(existingRoute, safetyChecks);
+          changes.push({
+            routeId: existingRoute.id,
+            entityType: "ROUTE",
+            changeType: "DELETED",
+            snapshot: replacedRouteSnapshot,
           });
+          for (const stop of existingStops) {
+            changes.push({
+              routeId: existingRoute.id,
+              stopId: stop.id,
+              entityType: "STOP",
+              changeType: "DELETED",
+              snapshot: snapshotStop(
+                stop,
+                adminNotes.filter((note) => note.stopId === stop.id),
+                orderLines.filter((line) => line.stopId === stop.id)
+              ),
+            });
+          }
+        }
 
-          // Get all existing stops with full data for intelligent merging
-          const existingStopsWithData = await tx.stop.findMany({
-            where: { routeId: route.id },
-            include: {
-              customer: true,
+        // Delete all admin notes associated with these stops
+        if (existingStops.length > 0) {
+          await tx.adminNote.deleteMany({
+            where: {
+              stopId: {
+                in: existingStops.map((stop) => stop.id),
+              },
             },
           });
+        }
 
-          // Create maps for quick lookup
-          const existingStopsByCustomer = new Map<string, any>();
-          const existingStopsBySequence = new Map<number, any>();
+        // Delete all stops for this route
+        await tx.stop.deleteMany({
+          where: { routeId: existingRoute.id },
+        });
 
-          for (const stop of existingStopsWithData) {
-            const customerKey = stop.customerNameFromUpload || stop.customer.name;
-            existingStopsByCustomer.set(customerKey, stop);
-            existingStopsBySequence.set(stop.sequence, stop);
-          }
+        // Delete all safety checks for this route
+        await tx.safetyCheck.deleteMany({
+          where: { routeId: existingRoute.id },
+        });
 
-          // Track which existing stops we've matched
-          const matchedStopIds = new Set<string>();
+        // Delete the route itself
+        await tx.route.delete({
+          where: { id: existingRoute.id },
+        });
 
-          // Process each new stop for intelligent merging
-          const newStopsToProcess: ParsedStop[] = [];
+        console.log(`Deleted existing route ${existingRoute.routeNumber} completely`);
+        // Route will be created fresh below with same route number
+      } else {
+        // Smart update: merge new data with existing route
+        console.log(`Performing smart update for route ${existingRoute.routeNumber}`);
+        changes.push({
+          routeId: existingRoute.id,
+          entityType: "ROUTE",
+          changeType: "UPDATED",
+          snapshot: snapshotRoute(existingRoute),
+        });
+        route = await tx.route.update({
+          where: { id: existingRoute.id },
+          data: {
+            date: parsedRoute.date,
+            uploadedBy: uploadedBy,
+            sourceFile: fileName,
+            // Don't change the status if it's already in progress or completed
+            status: ["IN_PROGRESS", "COMPLETED"].includes(existingRoute.status)
+              ? existingRoute.status
+              : "PENDING",
+          },
+        });
 
-          for (const newStop of parsedRoute.stops) {
-            // Try to find existing stop by customer name first
-            let existingStop = existingStopsByCustomer.get(newStop.customerName);
+        // Get all existing stops with full data for intelligent merging
+        const existingStopsWithData = await tx.stop.findMany({
+          where: { routeId: route.id, isDeleted: false },
+          include: EXISTING_STOP_INCLUDE,
+        });
 
-            // If not found by customer, try by sequence number
-            if (!existingStop) {
-              existingStop = existingStopsBySequence.get(newStop.sequence);
+        // Track which existing stops we've matched
+        const matchedStopIds = new Set<string>();
+
+        // Process each new stop for intelligent merging
+        const newStopsToProcess: ParsedStop[] = [];
+
+        // Match by customer name first, then by sequence number
+        for (const { newStop, existingStop } of matchStopsToExisting(
+          parsedRoute.stops,
+          existingStopsWithData
+        )) {
+          if (existingStop && protectDriverProgress && getStopProgress(existingStop)) {
+            // The driver has already worked this stop - leave it exactly as is
+            console.log(`Protecting stop for ${newStop.customerName} (status ${existingStop.status}) from update`);
+            matchedStopIds.add(existingStop.id);
+            customerInvoiceMap.set(newStop.customerName, {
+              quickbooksInvoiceNum: existingStop.quickbooksInvoiceNum,
+              orderNumberWeb: existingStop.orderNumberWeb,
+            });
+            protectedStopCount++;
+            continue;
+          }
+
+          if (existingStop) {
+            // Update existing stop with new information
+            console.log(`Updating existing stop for ${newStop.customerName} (sequence ${newStop.sequence})`);
+
+            // Preserve existing payment amounts unless they were explicitly changed
+            // Only update payment amounts if new values are provided and different from existing
+            const shouldUpdatePaymentAmounts =
+              (newStop.paymentAmountCash !== undefined && newStop.paymentAmountCash !== (existingStop.paymentAmountCash || 0)) ||
+              (newStop.paymentAmountCheck !== undefined && newStop.paymentAmountCheck !== (existingStop.paymentAmountCheck || 0)) ||
+              (newStop.paymentAmountCC !== undefined && newStop.paymentAmountCC !== (existingStop.paymentAmountCC || 0));
+
+            const updateData: any = {
+              sequence: newStop.sequence,
+              customerNameFromUpload: newStop.customerName,
+              driverNameFromUpload: newStop.driverName,
+              // Update invoice numbers only if they're provided and different
+              quickbooksInvoiceNum: newStop.quickbooksInvoiceNum || existingStop.quickbooksInvoiceNum,
+              orderNumberWeb: newStop.orderNumberWeb || existingStop.orderNumberWeb,
+              initialDriverNotes: newStop.initialDriverNotes || existingStop.initialDriverNotes,
+              isCOD: newStop.isCOD,
+              paymentFlagCash: newStop.paymentFlagCash,
+              paymentFlagCheck: newStop.paymentFlagCheck,
+              paymentFlagCC: newStop.paymentFlagCC,
+              paymentFlagNotPaid: newStop.paymentFlagNotPaid,
+              returnFlagInitial: newStop.returnFlagInitial,
+              driverRemarkInitial: newStop.driverRemarkInitial,
+              amount: newStop.amount !== undefined ? newStop.amount : existingStop.amount,
+            };
+
+            // Only update payment amounts if they were actually changed in the Excel file
+            if (shouldUpdatePaymentAmounts) {
+              updateData.paymentAmountCash = newStop.paymentAmountCash !== undefined ? newStop.paymentAmountCash : existingStop.paymentAmountCash;
+              updateData.paymentAmountCheck = newStop.paymentAmountCheck !== undefined ? newStop.paymentAmountCheck : existingStop.paymentAmountCheck;
+              updateData.paymentAmountCC = newStop.paymentAmountCC !== undefined ? newStop.paymentAmountCC : existingStop.paymentAmountCC;
+              updateData.totalPaymentAmount = (updateData.paymentAmountCash || 0) +
+                                             (updateData.paymentAmountCheck || 0) +
+                                             (updateData.paymentAmountCC || 0);
+              console.log(`Payment amounts updated for ${newStop.customerName}: Cash=${updateData.paymentAmountCash}, Check=${updateData.paymentAmountCheck}, CC=${updateData.paymentAmountCC}`);
+            } else {
+              // Preserve existing payment amounts - don't include them in updateData
+              console.log(`Preserving existing payment amounts for ${newStop.customerName}`);
             }
 
-            if (existingStop) {
-              // Update existing stop with new information
-              console.log(`Updating existing stop for ${newStop.customerName} (sequence ${newStop.sequence})`);
-
-              // Preserve existing payment amounts unless they were explicitly changed
-              // Only update payment amounts if new values are provided and different from existing
-              const shouldUpdatePaymentAmounts =
-                (newStop.paymentAmountCash !== undefined && newStop.paymentAmountCash !== (existingStop.paymentAmountCash || 0)) ||
-                (newStop.paymentAmountCheck !== undefined && newStop.paymentAmountCheck !== (existingStop.paymentAmountCheck || 0)) ||
-                (newStop.paymentAmountCC !== undefined && newStop.paymentAmountCC !== (existingStop.paymentAmountCC || 0));
-
-              const updateData: any = {
-                sequence: newStop.sequence,
-                customerNameFromUpload: newStop.customerName,
-                driverNameFromUpload: newStop.driverName,
-                // Update invoice numbers only if they're provided and different
-                quickbooksInvoiceNum: newStop.quickbooksInvoiceNum || existingStop.quickbooksInvoiceNum,
-                orderNumberWeb: newStop.orderNumberWeb || existingStop.orderNumberWeb,
-                initialDriverNotes: newStop.initialDriverNotes || existingStop.initialDriverNotes,
-                isCOD: newStop.isCOD,
-                paymentFlagCash: newStop.paymentFlagCash,
-                paymentFlagCheck: newStop.paymentFlagCheck,
-                paymentFlagCC: newStop.paymentFlagCC,
-                paymentFlagNotPaid: newStop.paymentFlagNotPaid,
-                returnFlagInitial: newStop.returnFlagInitial,
-                driverRemarkInitial: newStop.driverRemarkInitial,
-                amount: newStop.amount !== undefined ? newStop.amount : existingStop.amount,
-              };
-
-              // Only update payment amounts if they were actually changed in the Excel file
-              if (shouldUpdatePaymentAmounts) {
-                updateData.paymentAmountCash = newStop.paymentAmountCash !== undefined ? newStop.paymentAmountCash : existingStop.paymentAmountCash;
-                updateData.paymentAmountCheck = newStop.paymentAmountCheck !== undefined ? newStop.paymentAmountCheck : existingStop.paymentAmountCheck;
-                updateData.paymentAmountCC = newStop.paymentAmountCC !== undefined ? newStop.paymentAmountCC : existingStop.paymentAmountCC;
-                updateData.totalPaymentAmount = (updateData.paymentAmountCash || 0) +
-                                               (updateData.paymentAmountCheck || 0) +
-                                               (updateData.paymentAmountCC || 0);
-                console.log(`Payment amounts updated for ${newStop.customerName}: Cash=${updateData.paymentAmountCash}, Check=${updateData.paymentAmountCheck}, CC=${updateData.paymentAmountCC}`);
-              } else {
-                // Preserve existing payment amounts - don't include them in updateData
-                console.log(`Preserving existing payment amounts for ${newStop.customerName}`);
-              }
+            // Keep the lines this upload replaces so rollback can bring them back
+            const replacedOrderLines = newStop.orderLines
+              ? await tx.stopOrderLine.findMany({
+                  where: { stopId: existingStop.id, isDeleted: false },
+                })
+              : undefined;
+
+            changes.push({
+              routeId: existingRoute.id,
+              stopId: existingStop.id,
+              entityType: "STOP",
+              changeType: "UPDATED",
+              snapshot: snapshotStop(existingStop, undefined, replacedOrderLines),
+            });
+
+            await tx.stop.update({
+              where: { id: existingStop.id },
+              data: updateData,
+            });
 
+            // A sheet with order lines replaces the stop's lines
+            if (newStop.orderLines) {
+              await tx.stopOrderLine.updateMany({
+                where: { stopId: existingStop.id, isDeleted: false },
+                data: { isDeleted: true },
+              });
               await tx.stop.update({
                 where: { id: existingStop.id },
-                data: updateData,
-              });
-
-              matchedStopIds.add(existingStop.id);
-
-              // Preserve existing invoice data in the map for any new stops
-              customerInvoiceMap.set(newStop.customerName, {
-                quickbooksInvoiceNum: existingStop.quickbooksInvoiceNum,
-                orderNumberWeb: existingStop.orderNumberWeb,
+                data: {
+                  orderLines: { create: await orderLineCreateData(tx, newStop.orderLines) },
+                },
               });
-            } else {
-              // This is a new stop, add it to the list to be created
-              newStopsToProcess.push(newStop);
-              console.log(`New stop detected for ${newStop.customerName} (sequence ${newStop.sequence})`);
             }
-          }
 
-          // Update parsedRoute.stops to only contain the new stops that need to be created
-          parsedRoute.stops = newStopsToProcess;
+            matchedStopIds.add(existingStop.id);
 
-          isUpdate = true;
-          console.log(`Smart update completed for route: ${parsedRoute.routeNumber}`);
-          console.log(`- Updated ${matchedStopIds.size} existing stops`);
-          console.log(`- Will create ${newStopsToProcess.length} new stops`);
+            // Preserve existing invoice data in the map for any new stops
+            customerInvoiceMap.set(newStop.customerName, {
+              quickbooksInvoiceNum: existingStop.quickbooksInvoiceNum,
+              orderNumberWeb: existingStop.orderNumberWeb,
+            });
+          } else {
+            // This is a new stop, add it to the list to be created
+            newStopsToProcess.push(newStop);
+            console.log(`New stop detected for ${newStop.customerName} (sequence ${newStop.sequence})`);
+          }
         }
-      }
-    }
 
-    // If no existing route was found or updated, create a new one
-    if (!route) {
-      route = await tx.route.create({
-        data: {
-          routeNumber: parsedRoute.routeNumber,
-          date: parsedRoute.date,
-          driverId: null, // Routes can have multiple drivers, so we don't set a primary driver
-          uploadedBy: uploadedBy,
-          sourceFile: fileName,
-          status: "PENDING",
-        },
-      });
-    }
+        // Update parsedRoute.stops to only contain the new stops that need to be created
+        parsedRoute.stops = newStopsToProcess;
 
-    // Performance optimization: Batch process customers
-    // First, get all unique customer names (only for new stops if this is an update)
-    const customerNamesSet = new Set<string>();
-    for (const stop of parsedRoute.stops) {
-      customerNamesSet.add(stop.customerName);
+        isUpdate = true;
+        console.log(`Smart update completed for route: ${parsedRoute.routeNumber}`);
+        console.log(`- Updated ${matchedStopIds.size} existing stops`);
+        console.log(`- Will create ${newStopsToProcess.length} new stops`);
+      }
     }
-    const customerNames = Array.from(customerNamesSet);
-
-    console.log(`Processing ${parsedRoute.stops.length} stops for customer creation/updates`);
+  }
 
-    // Batch query existing customers
-    const existingCustomers = await tx.customer.findMany({
-      where: {
-        name: {
-          in: customerNames,
-        },
-        isDeleted: false,
+  // If no existing route was found or updated, create a new one
+  if (!route) {
+    route = await tx.route.create({
+      data: {
+        routeNumber: parsedRoute.routeNumber,
+        date: parsedRoute.date,
+        driverId: null, // Routes can have multiple drivers, so we don't set a primary driver
+        uploadedBy: uploadedBy,
+        sourceFile: fileName,
+        status: "PENDING",
       },
     });
 
-    // Create a map for quick customer lookup
-    const customerMap = new Map<string, Customer>();
-    for (const customer of existingCustomers) {
-      customerMap.set(customer.name, customer);
+    changes.push({ routeId: route.id, entityType: "ROUTE", changeType: "CREATED" });
+    if (replacedRouteSnapshot) {
+      replacedRouteSnapshot.replacedBy = route.id;
     }
+  }
 
-    // Prepare batch creation for missing customers
-    const customersToCreate: {
-      name: string;
-      address: string;
-      groupCode?: string;
-      email?: string;
-    }[] = [];
-    const customersToUpdate: {
-      id: string;
-      groupCode?: string;
-      email?: string;
-    }[] = [];
-
-    // Identify customers that need to be created or updated
-    for (const customerName of customerNames) {
-      const customer = customerMap.get(customerName);
-
-      // Find the first stop with this customer to get the group code and email
-      const stopWithCustomer = parsedRoute.stops.find(
-        (stop) => stop.customerName === customerName
-      );
+  // Performance optimization: Batch process customers
+  // First, get all unique customer names (only for new stops if this is an update)
+  const customerNamesSet = new Set<string>();
+  for (const stop of parsedRoute.stops) {
+    customerNamesSet.add(stop.customerName);
+  }
+  const customerNames = Array.from(customerNamesSet);
 
-      if (!customer && stopWithCustomer) {
-        // Check if there are any customers with the same name (including deleted ones)
-        const allCustomersWithName = await tx.customer.findMany({
-          where: {
-            name: customerName,
-          },
-          orderBy: {
-            createdAt: 'desc', // Get the most recent one first
-          },
-        });
+  console.log(`Processing ${parsedRoute.stops.length} stops for customer creation/updates`);
 
-        if (allCustomersWithName.length > 0) {
-          // Use the most recent customer (likely the manually created one)
-          const mostRecentCustomer = allCustomersWithName[0];
-
-          if (mostRecentCustomer.isDeleted) {
-            // Restore the deleted customer instead of creating a new one
-            await tx.customer.update({
-              where: { id: mostRecentCustomer.id },
-              data: {
-                isDeleted: false,
-                groupCode: stopWithCustomer.customerGroupCode || mostRecentCustomer.groupCode,
-                email: stopWithCustomer.customerEmail || mostRecentCustomer.email,
-              },
-            });
-            customerMap.set(customerName, mostRecentCustomer);
-            console.log(`🔄 Restored deleted customer: ${customerName}`);
-          } else {
-            // Customer exists and is active, use it
-            customerMap.set(customerName, mostRecentCustomer);
-            console.log(`✅ Using existing customer: ${customerName}`);
-          }
-        } else {
-          // No customer with this name exists, create new one
-          customersToCreate.push({
-            name: customerName,
-            address: "", // This will need to be updated later
-            groupCode: stopWithCustomer.customerGroupCode,
-            email: stopWithCustomer.customerEmail,
-          });
-        }
-      } else if (
-        customer &&
-        stopWithCustomer &&
-        ((stopWithCustomer.customerGroupCode && !customer.groupCode) ||
-          (stopWithCustomer.customerEmail && !customer.email))
-      ) {
-        // Need to update this customer's group code or email
-        const updateData: { id: string; groupCode?: string; email?: string } = {
-          id: customer.id,
-        };
+  // Batch query existing customers
+  const existingCustomers = await tx.customer.findMany({
+    where: {
+      name: {
+        in: customerNames,
+      },
+      isDeleted: false,
+    },
+  });
 
-        if (stopWithCustomer.customerGroupCode && !customer.groupCode) {
-          updateData.groupCode = stopWithCustomer.customerGroupCode;
-        }
+  // Create a map for quick customer lookup
+  const customerMap = new Map<string, Customer>();
+  for (const customer of existingCustomers) {
+    customerMap.set(customer.name, customer);
+  }
 
-        if (stopWithCustomer.customerEmail && !customer.email) {
-          updateData.email = stopWithCustomer.customerEmail;
+  // Confident fuzzy matches (normalized name or alias, group code, email,
+  // address) win over the exact-name lookup; uncertain ones were shown for
+  // review in the preview and otherwise fall back to it. See customerMatching.ts.
+  const customerMatches = await matchCustomers(customerInputsFromStops(parsedRoute.stops), tx);
+  const matchedCustomerIds = new Map<string, string>();
+  for (const match of customerMatches) {
+    if (match.status === "matched" && match.customer) {
+      matchedCustomerIds.set(match.name, match.customer.id);
+    }
+  }
+  if (matchedCustomerIds.size > 0) {
+    const matchedCustomers = await tx.customer.findMany({
+      where: { id: { in: Array.from(new Set(matchedCustomerIds.values())) } },
+    });
+    const matchedById = new Map(matchedCustomers.map((customer) => [customer.id, customer]));
+    matchedCustomerIds.forEach((customerId, customerName) => {
+      const customer = matchedById.get(customerId);
+      if (customer) {
+        customerMap.set(customerName, customer);
+        if (customer.name !== customerName) {
+          console.log(`🔗 Matched customer "${customerName}" to "${customer.name}"`);
         }
-
-        customersToUpdate.push(updateData);
       }
-    }
+    });
+  }
 
-    // Batch create missing customers
-    if (customersToCreate.length > 0) {
-      const newCustomers = await Promise.all(
-        customersToCreate.map((customerData) =>
-          tx.customer.create({ data: customerData })
-        )
-      );
+  // Prepare batch creation for missing customers
+  const customersToCreate: {
+    name: string;
+    address: string;
+    groupCode?: string;
+    email?: string;
+  }[] = [];
+  const customersToUpdate: {
+    id: string;
+    groupCode?: string;
+    email?: string;
+  }[] = [];
+
+  // Identify customers that need to be created or updated
+  for (const customerName of customerNames) {
+    const customer = customerMap.get(customerName);
+
+    // Find the first stop with this customer to get the group code and email
+    const stopWithCustomer = parsedRoute.stops.find(
+      (stop) => stop.customerName === customerName
+    );
+
+    if (!customer && stopWithCustomer) {
+      // Check if there are any customers with the same name (including deleted ones)
+      const allCustomersWithName = await tx.customer.findMany({
+        where: {
+          name: customerName,
+        },
+        orderBy: {
+          createdAt: 'desc', // Get the most recent one first
+        },
+      });
 
-      // Add new customers to the map
-      for (const customer of newCustomers) {
-        customerMap.set(customer.name, customer);
-      }
-    }
+      if (allCustomersWithName.length > 0) {
+        // Use the most recent customer (likely the manually created one)
+        const mostRecentCustomer = allCustomersWithName[0];
 
-    // Batch update customers that need group code or email updates
-    if (customersToUpdate.length > 0) {
-      await Promise.all(
-        customersToUpdate.map((update) =>
-          tx.customer.update({
-            where: { id: update.id },
+        if (mostRecentCustomer.isDeleted) {
+          // Restore the deleted customer instead of creating a new one
+          await tx.customer.update({
+            where: { id: mostRecentCustomer.id },
             data: {
-              groupCode: update.groupCode,
-              email: update.email,
+              isDeleted: false,
+              groupCode: stopWithCustomer.customerGroupCode || mostRecentCustomer.groupCode,
+              email: stopWithCustomer.customerEmail || mostRecentCustomer.email,
             },
-          })
-        )
-      );
-    }
+          });
+          customerMap.set(customerName, mostRecentCustomer);
+          console.log(`🔄 Restored deleted customer: ${customerName}`);
+        } else {
+          // Customer exists and is active, use it
+          customerMap.set(customerName, mostRecentCustomer);
+          console.log(`✅ Using existing customer: ${customerName}`);
+        }
+      } else {
+        // No customer with this name exists, create new one
+        customersToCreate.push({
+          name: customerName,
+          // Without an address column this will need to be updated later
+          address: stopWithCustomer.customerAddress || "",
+          groupCode: stopWithCustomer.customerGroupCode,
+          email: stopWithCustomer.customerEmail,
+        });
+      }
+    } else if (
+      customer &&
+      stopWithCustomer &&
+      ((stopWithCustomer.customerGroupCode && !customer.groupCode) ||
+        (stopWithCustomer.customerEmail && !customer.email))
+    ) {
+      // Need to update this customer's group code or email
+      const updateData: { id: string; groupCode?: string; email?: string } = {
+        id: customer.id,
+      };
 
-    // Process each stop (only new stops if this is an update)
-    for (const parsedStop of parsedRoute.stops) {
-      // Get the customer for this stop
-      const customer = customerMap.get(parsedStop.customerName);
+      if (stopWithCustomer.customerGroupCode && !customer.groupCode) {
+        updateData.groupCode = stopWithCustomer.customerGroupCode;
+      }
 
-      if (!customer) {
-        console.warn(`Customer not found for stop: ${parsedStop.customerName}`);
-        continue;
+      if (stopWithCustomer.customerEmail && !customer.email) {
+        updateData.email = stopWithCustomer.customerEmail;
       }
 
-      // Check if we have existing invoice data for this customer
-      const existingInvoiceData = customerInvoiceMap.get(
-        parsedStop.customerName
-      );
+      customersToUpdate.push(updateData);
+    }
+  }
 
-      // Use existing invoice numbers if available and new ones are not provided
-      // Convert undefined to empty string to avoid null values in the database
-      const quickbooksInvoiceNum =
-        parsedStop.quickbooksInvoiceNum ||
-        (existingInvoiceData ? existingInvoiceData.quickbooksInvoiceNum : "") ||
-        "";
-
-      const orderNumberWeb =
-        parsedStop.orderNumberWeb ||
-        (existingInvoiceData ? existingInvoiceData.orderNumberWeb : "") ||
-        "";
-
-      // If the customer has an email in the Excel file, update it in the database
-      if (
-        parsedStop.customerEmail &&
-        customer.email !== parsedStop.customerEmail
-      ) {
-        await tx.customer.update({
-          where: { id: customer.id },
-          data: { email: parsedStop.customerEmail },
-        });
+  // Batch create missing customers
+  if (customersToCreate.length > 0) {
+    const newCustomers = await Promise.all(
+      customersToCreate.map((customerData) =>
+        tx.customer.create({ data: customerData })
+      )
+    );
 
-        console.log(
-          `Updated email for customer ${parsedStop.customerName}: ${parsedStop.customerEmail}`
-        );
-      }
+    // Add new customers to the map
+    for (const customer of newCustomers) {
+      customerMap.set(customer.name, customer);
+    }
+  }
 
-      // Enhanced logging to track invoice number assignment
-      console.log(`=== INVOICE NUMBER TRACKING for ${parsedStop.customerName} ===`);
-      console.log(`Parsed from Excel:`, {
-        quickbooksInvoiceNum: parsedStop.quickbooksInvoiceNum,
-        quickbooksInvoiceNum_type: typeof parsedStop.quickbooksInvoiceNum,
-        quickbooksInvoiceNum_isEmpty: !parsedStop.quickbooksInvoiceNum || parsedStop.quickbooksInvoiceNum === "",
-        orderNumberWeb: parsedStop.orderNumberWeb,
-        orderNumberWeb_type: typeof parsedStop.orderNumberWeb,
-        orderNumberWeb_isEmpty: !parsedStop.orderNumberWeb || parsedStop.orderNumberWeb === "",
-      });
-      console.log(`Final values being saved to database:`, {
-        finalInvoiceNum: quickbooksInvoiceNum,
-        finalOrderNum: orderNumberWeb,
-        isUpdate,
-        existingInvoiceData: existingInvoiceData,
-      });
-      console.log(`=== END INVOICE NUMBER TRACKING ===`);
-
-      // Log the data being used to create the stop
-      const stopData = {
-        routeId: route.id,
-        customerId: customer.id,
-        sequence: parsedStop.sequence,
-        address: customer.address || "",
-        customerNameFromUpload: parsedStop.customerName,
-        orderNumberWeb: orderNumberWeb,
-        quickbooksInvoiceNum: quickbooksInvoiceNum,
-        initialDriverNotes: parsedStop.initialDriverNotes,
-        isCOD: parsedStop.isCOD,
-        paymentFlagCash: parsedStop.paymentFlagCash,
-        paymentFlagCheck: parsedStop.paymentFlagCheck,
-        paymentFlagCC: parsedStop.paymentFlagCC,
-        paymentFlagNotPaid: parsedStop.paymentFlagNotPaid,
-        returnFlagInitial: parsedStop.returnFlagInitial,
-        driverRemarkInitial: parsedStop.driverRemarkInitial,
-        amount: parsedStop.amount,
-        // Payment amounts from Excel columns AK, AL, AM
-        paymentAmountCash: parsedStop.paymentAmountCash || null,
-        paymentAmountCheck: parsedStop.paymentAmountCheck || null,
-        paymentAmountCC: parsedStop.paymentAmountCC || null,
-        totalPaymentAmount: parsedStop.totalPaymentAmount || null,
-        status: "PENDING" as const,
-        // Store the driver name for reference
-        driverNameFromUpload: parsedStop.driverName,
-      };
+  // Batch update customers that need group code or email updates
+  if (customersToUpdate.length > 0) {
+    await Promise.all(
+      customersToUpdate.map((update) =>
+        tx.customer.update({
+          where: { id: update.id },
+          data: {
+            groupCode: update.groupCode,
+            email: update.email,
+          },
+        })
+      )
+    );
+  }
 
-      console.log(`Creating stop for ${parsedStop.customerName} with data:`, {
-        quickbooksInvoiceNum: stopData.quickbooksInvoiceNum,
-        orderNumberWeb: stopData.orderNumberWeb,
-      });
+  // Process each stop (only new stops if this is an update)
+  for (const parsedStop of parsedRoute.stops) {
+    // Get the customer for this stop
+    const customer = customerMap.get(parsedStop.customerName);
+
+    if (!customer) {
+      console.warn(`Customer not found for stop: ${parsedStop.customerName}`);
+      continue;
+    }
 
-      // Create the stop
-      const createdStop = await tx.stop.create({
-        data: stopData,
+    // Check if we have existing invoice data for this customer
+    const existingInvoiceData = customerInvoiceMap.get(
+      parsedStop.customerName
+    );
+
+    // Use existing invoice numbers if available and new ones are not provided
+    // Convert undefined to empty string to avoid null values in the database
+    const quickbooksInvoiceNum =
+      parsedStop.quickbooksInvoiceNum ||
+      (existingInvoiceData ? existingInvoiceData.quickbooksInvoiceNum : "") ||
+      "";
+
+    const orderNumberWeb =
+      parsedStop.orderNumberWeb ||
+      (existingInvoiceData ? existingInvoiceData.orderNumberWeb : "") ||
+      "";
+
+    // If the customer has an email in the Excel file, update it in the database
+    if (
+      parsedStop.customerEmail &&
+      customer.email !== parsedStop.customerEmail
+    ) {
+      await tx.customer.update({
+        where: { id: customer.id },
+        data: { email: parsedStop.customerEmail },
       });
 
-      // If admin notes are provided, create an admin note for this stop
-      if (parsedStop.adminNotes && parsedStop.adminNotes.trim() !== "") {
-        await tx.adminNote.create({
-          data: {
-            stopId: createdStop.id,
-            adminId: adminUser.id, // Use the admin who uploaded the route as the creator of the note
-            note: parsedStop.adminNotes,
-            readByDriver: false,
-          },
-        });
-      }
+      console.log(
+        `Updated email for customer ${parsedStop.customerName}: ${parsedStop.customerEmail}`
+      );
     }
 
-    return {
-      route,
+    // Enhanced logging to track invoice number assignment
+    console.log(`=== INVOICE NUMBER TRACKING for ${parsedStop.customerName} ===`);
+    console.log(`Parsed from Excel:`, {
+      quickbooksInvoiceNum: parsedStop.quickbooksInvoiceNum,
+      quickbooksInvoiceNum_type: typeof parsedStop.quickbooksInvoiceNum,
+      quickbooksInvoiceNum_isEmpty: !parsedStop.quickbooksInvoiceNum || parsedStop.quickbooksInvoiceNum === "",
+      orderNumberWeb: parsedStop.orderNumberWeb,
+      orderNumberWeb_type: typeof parsedStop.orderNumberWeb,
+      orderNumberWeb_isEmpty: !parsedStop.orderNumberWeb || parsedStop.orderNumberWeb === "",
+    });
+    console.log(`Final values being saved to database:`, {
+      finalInvoiceNum: quickbooksInvoiceNum,
+      finalOrderNum: orderNumberWeb,
       isUpdate,
-      unmatchedDriverNames: (parsedRoute as any).unmatchedDriverNames ?? [],
+      existingInvoiceData: existingInvoiceData,
+    });
+    console.log(`=== END INVOICE NUMBER TRACKING ===`);
+
+    // Log the data being used to create the stop
+    const stopData = {
+      routeId: route.id,
+      customerId: customer.id,
+      sequence: parsedStop.sequence,
+      address: customer.address || "",
+      customerNameFromUpload: parsedStop.customerName,
+      orderNumberWeb: orderNumberWeb,
+      quickbooksInvoiceNum: quickbooksInvoiceNum,
+      initialDriverNotes: parsedStop.initialDriverNotes,
+      isCOD: parsedStop.isCOD,
+      paymentFlagCash: parsedStop.paymentFlagCash,
+      paymentFlagCheck: parsedStop.paymentFlagCheck,
+      paymentFlagCC: parsedStop.paymentFlagCC,
+      paymentFlagNotPaid: parsedStop.paymentFlagNotPaid,
+      returnFlagInitial: parsedStop.returnFlagInitial,
+      driverRemarkInitial: parsedStop.driverRemarkInitial,
+      amount: parsedStop.amount,
+      // Payment amounts from Excel columns AK, AL, AM
+      paymentAmountCash: parsedStop.paymentAmountCash || null,
+      paymentAmountCheck: parsedStop.paymentAmountCheck || null,
+      paymentAmountCC: parsedStop.paymentAmountCC || null,
+      totalPaymentAmount: parsedStop.totalPaymentAmount || null,
+      status: "PENDING" as const,
+      // Store the driver name for reference
+      driverNameFromUpload: parsedStop.driverName,
     };
-  });
+
+    console.log(`Creating stop for ${parsedStop.customerName} with data:`, {
+      quickbooksInvoiceNum: stopData.quickbooksInvoiceNum,
+      orderNumberWeb: stopData.orderNumberWeb,
+    });
+
+    // Create the stop
+    const createdStop = await tx.stop.create({
+      data: {
+        ...stopData,
+        ...(parsedStop.orderLines
+          ? { orderLines: { create: await orderLineCreateData(tx, parsedStop.orderLines) } }
+          : {}),
+      },
+    });
+    changes.push({
+      routeId: route.id,
+      stopId: createdStop.id,
+      entityType: "STOP",
+      changeType: "CREATED",
+    });
+
+    // If admin notes are provided, create an admin note for this stop
+    if (parsedStop.adminNotes && parsedStop.adminNotes.trim() !== "") {
+      await tx.adminNote.create({
+        data: {
+          stopId: createdStop.id,
+          adminId: adminUser.id, // Use the admin who uploaded the route as the creator of the note
+          note: parsedStop.adminNotes,
+          readByDriver: false,
+        },
+      });
+    }
+  }
+
+  if (options.uploadId) {
+    await recordRouteUploadChanges(tx, options.uploadId, changes);
+  }
+
+  return {
+    route,
+    isUpdate,
+    unmatchedDriverNames: (parsedRoute as any).unmatchedDriverNames ?? [],
+    protectedStopCount,
+  };
 }
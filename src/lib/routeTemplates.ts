@@ -0,0 +1,333 @@
+/**
+ * Recurring route templates.
+ *
+ * A template describes a standing route: its route number, driver, the
+ * weekdays it runs and its customers in delivery order, each with default
+ * driver notes and a COD flag. Generating a template for a date range
+ * creates one PENDING route per matching day, with the stops filled in from
+ * the template; the template's notes go ahead of each stop's driver notes. Generated routes are ordinary routes: they can be edited,
+ * and an upload for the same route number and day merges into them (stops
+ * match on customer name), which is how invoice numbers get filled in.
+ *
+ * Days that already have a route with the template's route number are
+ * skipped, so generating the same range twice is harmless.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { createPSTDateFromString } from "./timezone";
+import { findExistingRoute } from "./routeConflicts";
+
+export interface RouteTemplateStopInput {
+  customerId: string;
+  initialDriverNotes: string | null;
+  isCOD: boolean;
+}
+
+export interface RouteTemplateInput {
+  name: string;
+  routeNumber: string;
+  driverId: string | null;
+  // 0 = Sunday .. 6 = Saturday
+  weekdays: number[];
+  notes: string | null;
+  isActive: boolean;
+  // In delivery order
+  stops: RouteTemplateStopInput[];
+}
+
+export interface GeneratedRoute {
+  date: string;
+  routeId: string;
+  stopCount: number;
+}
+
+export interface SkippedRouteDate {
+  date: string;
+  // The route already on that day
+  routeId: string;
+  reason: string;
+}
+
+export interface RouteGenerationResult {
+  created: GeneratedRoute[];
+  skipped: SkippedRouteDate[];
+}
+
+// Longest range one generate call may cover, in days
+export const MAX_GENERATION_DAYS = 62;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTES_LENGTH = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const ROUTE_TEMPLATE_INCLUDE = {
+  driver: { select: { id: true, username: true, fullName: true } },
+  stops: {
+    orderBy: { sequence: "asc" },
+    include: { customer: { select: { id: true, name: true, address: true } } },
+  },
+} satisfies Prisma.RouteTemplateInclude;
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/**
+ * Validate a template body from the API. Stop order in the array is the
+ * delivery order.
+ */
+export function sanitizeRouteTemplate(value: unknown): {
+  template: RouteTemplateInput;
+  errors: string[];
+} {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = optionalText(body.name) ?? "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    errors.push(`name is required and must be ${MAX_NAME_LENGTH} characters or fewer`);
+  }
+
+  const routeNumber = optionalText(body.routeNumber) ?? "";
+  if (!routeNumber) {
+    errors.push("routeNumber is required");
+  }
+
+  const notes = optionalText(body.notes);
+  if (notes && notes.length > MAX_NOTES_LENGTH) {
+    errors.push(`notes must be ${MAX_NOTES_LENGTH} characters or fewer`);
+  }
+
+  const weekdays = Array.isArray(body.weekdays) ? body.weekdays : [];
+  if (
+    weekdays.length === 0 ||
+    !weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  ) {
+    errors.push("weekdays must list at least one day, 0 (Sunday) to 6 (Saturday)");
+  }
+
+  const rawStops = Array.isArray(body.stops) ? body.stops : [];
+  if (rawStops.length === 0) {
+    errors.push("A template needs at least one stop");
+  }
+
+  const stops: RouteTemplateStopInput[] = [];
+  rawStops.forEach((raw, index) => {
+    const stop = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const customerId = optionalText(stop.customerId);
+    if (!customerId) {
+      errors.push(`Stop ${index + 1}: customerId is required`);
+      return;
+    }
+    if (stops.some((existing) => existing.customerId === customerId)) {
+      errors.push(`Stop ${index + 1}: customer is already on the template`);
+      return;
+    }
+    stops.push({
+      customerId,
+      initialDriverNotes: optionalText(stop.initialDriverNotes),
+      isCOD: stop.isCOD === true,
+    });
+  });
+
+  return {
+    template: {
+      name,
+      routeNumber,
+      driverId: optionalText(body.driverId),
+      weekdays: Array.from(new Set(weekdays as number[])).sort((a, b) => a - b),
+      notes,
+      isActive: body.isActive !== false,
+      stops,
+    },
+    errors,
+  };
+}
+
+/**
+ * The dates (YYYY-MM-DD) from `from` to `to`, inclusive, that fall on one of
+ * the weekdays. Throws on malformed dates, a reversed range, or a range over
+ * MAX_GENERATION_DAYS.
+ */
+export function templateRunDates(weekdays: number[], from: string, to: string): string[] {
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    throw new Error("from and to must be dates in YYYY-MM-DD format");
+  }
+
+  // Calendar arithmetic in UTC so DST changes can't skip or repeat a day
+  const start = new Date(`${from}T00:00:00.000Z`);
+  const end = new Date(`${to}T00:00:00.000Z`);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error("from and to must be valid dates");
+  }
+  if (end < start) {
+    throw new Error("to must be on or after from");
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  if (days > MAX_GENERATION_DAYS) {
+    throw new Error(`A date range can cover at most ${MAX_GENERATION_DAYS} days`);
+  }
+
+  const dates: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const day = new Date(start.getTime() + i * 86400000);
+    if (weekdays.includes(day.getUTCDay())) {
+      dates.push(day.toISOString().slice(0, 10));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Check that the template's driver and customers exist. Throws otherwise.
+ */
+async function assertReferencesExist(input: RouteTemplateInput): Promise<void> {
+  if (input.driverId) {
+    const driver = await prisma.user.findFirst({
+      where: { id: input.driverId, role: "DRIVER", isDeleted: false },
+      select: { id: true },
+    });
+    if (!driver) {
+      throw new Error(`Driver ${input.driverId} not found`);
+    }
+  }
+
+  const customerIds = input.stops.map((stop) => stop.customerId);
+  const customers = await prisma.customer.findMany({
+    where: { id: { in: customerIds }, isDeleted: false },
+    select: { id: true },
+  });
+  const known = new Set(customers.map((customer) => customer.id));
+  const missing = customerIds.find((id) => !known.has(id));
+  if (missing) {
+    throw new Error(`Customer ${missing} not found`);
+  }
+}
+
+const stopRows = (stops: RouteTemplateStopInput[]) =>
+  stops.map((stop, index) => ({ ...stop, sequence: index + 1 }));
+
+export async function createRouteTemplate(input: RouteTemplateInput, createdBy: string) {
+  await assertReferencesExist(input);
+
+  const { stops, ...fields } = input;
+  return prisma.routeTemplate.create({
+    data: {
+      ...fields,
+      createdBy,
+      stops: { create: stopRows(stops) },
+    },
+    include: ROUTE_TEMPLATE_INCLUDE,
+  });
+}
+
+/**
+ * Update a template. Its stops are replaced wholesale by the new list;
+ * routes already generated from it are left as they are.
+ */
+export async function updateRouteTemplate(
+  id: string,
+  input: RouteTemplateInput,
+  updatedBy: string
+) {
+  await assertReferencesExist(input);
+
+  const { stops, ...fields } = input;
+  return prisma.$transaction(async (tx) => {
+    await tx.routeTemplateStop.deleteMany({ where: { templateId: id } });
+    return tx.routeTemplate.update({
+      where: { id },
+      data: {
+        ...fields,
+        updatedBy,
+        stops: { create: stopRows(stops) },
+      },
+      include: ROUTE_TEMPLATE_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Create a route for every day from `from` to `to` (YYYY-MM-DD, inclusive)
+ * that falls on one of the template's weekdays. Days that already have a
+ * route with the template's route number are skipped.
+ */
+export async function generateRoutesFromTemplate(
+  templateId: string,
+  from: string,
+  to: string,
+  generatedBy: string
+): Promise<RouteGenerationResult> {
+  const template = await prisma.routeTemplate.findFirst({
+    where: { id: templateId, isDeleted: false },
+    include: {
+      driver: { select: { id: true, username: true, isDeleted: true } },
+      stops: {
+        orderBy: { sequence: "asc" },
+        include: { customer: { select: { name: true, address: true, isDeleted: true } } },
+      },
+    },
+  });
+
+  if (!template) {
+    throw new Error("Route template not found");
+  }
+  if (!template.isActive) {
+    throw new Error("Route template is inactive");
+  }
+
+  const dates = templateRunDates(template.weekdays, from, to);
+  const stops = template.stops.filter((stop) => !stop.customer.isDeleted);
+  if (stops.length === 0) {
+    throw new Error("Route template has no active customers");
+  }
+
+  const driver = template.driver && !template.driver.isDeleted ? template.driver : null;
+  const driverNotes = (stopNotes: string | null) =>
+    [template.notes, stopNotes].filter(Boolean).join("\n") || null;
+  const result: RouteGenerationResult = { created: [], skipped: [] };
+
+  for (const date of dates) {
+    const routeDate = createPSTDateFromString(date);
+    const existing = await findExistingRoute(template.routeNumber, routeDate);
+    if (existing) {
+      result.skipped.push({
+        date,
+        routeId: existing.id,
+        reason: `Route ${template.routeNumber} already exists on this day`,
+      });
+      continue;
+    }
+
+    const route = await prisma.route.create({
+      data: {
+        routeNumber: template.routeNumber,
+        date: routeDate,
+        driverId: driver?.id ?? null,
+        uploadedBy: generatedBy,
+        sourceFile: `Template: ${template.name}`,
+        status: "PENDING",
+        templateId: template.id,
+        stops: {
+          create: stops.map((stop, index) => ({
+            customerId: stop.customerId,
+            sequence: index + 1,
+            address: stop.customer.address || "",
+            // Uploads merge into these stops by customer name, and the
+            // driver app finds stops by driver name
+            customerNameFromUpload: stop.customer.name,
+            driverNameFromUpload: driver?.username ?? null,
+            initialDriverNotes: driverNotes(stop.initialDriverNotes),
+            isCOD: stop.isCOD,
+            status: "PENDING",
+          })),
+        },
+      },
+    });
+
+    result.created.push({ date, routeId: route.id, stopCount: stops.length });
+  }
+
+  return result;
+}
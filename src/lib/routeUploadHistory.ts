@@ -0,0 +1,515 @@
+/**
+ * Route upload history: source file retention, the per-upload change log
+ * and rollback.
+ *
+ * Every upload keeps its source file under ROUTE_UPLOAD_STORAGE_DIR (default
+ * storage/route-uploads, outside public/ so files are only reachable through
+ * the admin download route).
+ * saveRouteToDatabase records one RouteUploadChange per route and stop it
+ * creates, updates or deletes, with a snapshot of the prior row (and of the
+ * stop's order lines when the upload replaces or deletes them).
+ *
+ * Rolling an upload back walks that log: created stops and routes are soft
+ * deleted, updated stops get their uploaded fields and order lines back, and
+ * routes replaced by the upload are recreated. Stops the driver has worked since the upload
+ * (see getStopProgress in routeDiff.ts) are left untouched and reported,
+ * along with the routes they keep alive. Customers created or updated by the
+ * upload are shared records and are not rolled back.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import {
+  Prisma,
+  RouteUploadChangeType,
+  RouteUploadEntityType,
+} from "@prisma/client";
+import prisma from "./db";
+import { EXISTING_STOP_INCLUDE, StopProgress, getStopProgress } from "./routeDiff";
+
+// Read on each call so the location can be set per environment
+function storageDir(): string {
+  return (
+    process.env.ROUTE_UPLOAD_STORAGE_DIR ||
+    path.join(process.cwd(), "storage", "route-uploads")
+  );
+}
+
+// Stop fields an upload writes when it merges into an existing stop
+const UPLOAD_STOP_FIELDS = [
+  "sequence",
+  "customerNameFromUpload",
+  "driverNameFromUpload",
+  "quickbooksInvoiceNum",
+  "orderNumberWeb",
+  "initialDriverNotes",
+  "isCOD",
+  "paymentFlagCash",
+  "paymentFlagCheck",
+  "paymentFlagCC",
+  "paymentFlagNotPaid",
+  "returnFlagInitial",
+  "driverRemarkInitial",
+  "amount",
+  "paymentAmountCash",
+  "paymentAmountCheck",
+  "paymentAmountCC",
+  "totalPaymentAmount",
+] as const;
+
+// Route fields an upload writes when it merges into an existing route
+const UPLOAD_ROUTE_FIELDS = ["date", "uploadedBy", "sourceFile"] as const;
+
+type Row = Record<string, unknown>;
+
+export interface RouteSnapshot {
+  route: Row;
+  safetyChecks?: Row[];
+  // The route created in place of a replaced one
+  replacedBy?: string;
+}
+
+export interface StopSnapshot {
+  stop: Row;
+  adminNotes?: Row[];
+  // Order lines before the upload, when it replaced or deleted them
+  orderLines?: Row[];
+  // Driver progress at upload time, to tell later activity apart
+  progress: StopProgress | null;
+}
+
+export interface RouteUploadChangeInput {
+  routeId: string;
+  stopId?: string | null;
+  entityType: RouteUploadEntityType;
+  changeType: RouteUploadChangeType;
+  snapshot?: RouteSnapshot | StopSnapshot | null;
+}
+
+export interface RollbackSkip {
+  routeId: string;
+  stopId: string | null;
+  customerName: string | null;
+  reason: string;
+}
+
+export interface RollbackResult {
+  uploadId: string;
+  stopsRemoved: number;
+  stopsRestored: number;
+  routesRemoved: number;
+  routesRestored: number;
+  skipped: RollbackSkip[];
+}
+
+// Scalar columns only, as plain JSON (dates become ISO strings)
+function pickScalars(row: object, fields: Record<string, string>): Row {
+  const picked: Row = {};
+  for (const field of Object.values(fields)) {
+    if (field in row) {
+      picked[field] = (row as Row)[field];
+    }
+  }
+  return JSON.parse(JSON.stringify(picked));
+}
+
+export function snapshotRoute(
+  route: object,
+  safetyChecks?: object[]
+): RouteSnapshot {
+  return {
+    route: pickScalars(route, Prisma.RouteScalarFieldEnum),
+    ...(safetyChecks && {
+      safetyChecks: safetyChecks.map((check) =>
+        pickScalars(check, Prisma.SafetyCheckScalarFieldEnum)
+      ),
+    }),
+  };
+}
+
+export function snapshotStop(
+  stop: Parameters<typeof getStopProgress>[0],
+  adminNotes?: object[],
+  orderLines?: object[]
+): StopSnapshot {
+  return {
+    stop: pickScalars(stop, Prisma.StopScalarFieldEnum),
+    ...(adminNotes && {
+      adminNotes: adminNotes.map((note) =>
+        pickScalars(note, Prisma.AdminNoteScalarFieldEnum)
+      ),
+    }),
+    ...(orderLines && {
+      orderLines: orderLines.map((line) =>
+        pickScalars(line, Prisma.StopOrderLineScalarFieldEnum)
+      ),
+    }),
+    progress: getStopProgress(stop),
+  };
+}
+
+export async function recordRouteUploadChanges(
+  tx: Prisma.TransactionClient,
+  uploadId: string,
+  changes: RouteUploadChangeInput[]
+) {
+  if (changes.length === 0) return;
+
+  await tx.routeUploadChange.createMany({
+    data: changes.map((change) => ({
+      uploadId,
+      routeId: change.routeId,
+      stopId: change.stopId ?? null,
+      entityType: change.entityType,
+      changeType: change.changeType,
+      snapshot: change.snapshot
+        ? (change.snapshot as unknown as Prisma.InputJsonValue)
+        : Prisma.JsonNull,
+    })),
+  });
+}
+
+/**
+ * Save an upload's source file. Returns the path relative to the storage
+ * directory, which is what RouteUpload.storedFilePath holds.
+ */
+export async function storeRouteUploadFile(
+  uploadId: string,
+  originalFileName: string,
+  buffer: Buffer
+): Promise<{ storedFilePath: string; fileSize: number; checksum: string }> {
+  const safeName =
+    path.basename(originalFileName).replace(/[^\w.\- ]/g, "_") || "route";
+  const storedFilePath = `${uploadId}/${safeName}`;
+  const fullPath = path.join(storageDir(), storedFilePath);
+
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, buffer);
+
+  return {
+    storedFilePath,
+    fileSize: buffer.length,
+    checksum: crypto.createHash("sha256").update(buffer).digest("hex"),
+  };
+}
+
+/**
+ * Read a stored source file, or null if it's missing.
+ */
+export async function readRouteUploadFile(
+  storedFilePath: string
+): Promise<Buffer | null> {
+  const root = path.resolve(storageDir());
+  const fullPath = path.resolve(root, storedFilePath);
+  if (!fullPath.startsWith(root + path.sep)) {
+    return null;
+  }
+
+  try {
+    return await fs.readFile(fullPath);
+  } catch {
+    return null;
+  }
+}
+
+export interface RouteUploadChangeSummary {
+  routes: {
+    routeId: string;
+    routeNumber: string | null;
+    changeType: RouteUploadChangeType;
+  }[];
+  stopsCreated: number;
+  stopsUpdated: number;
+  stopsDeleted: number;
+}
+
+/**
+ * What each upload changed, for the history page.
+ */
+export async function summarizeUploadChanges(
+  uploadIds: string[]
+): Promise<Record<string, RouteUploadChangeSummary>> {
+  const summaries: Record<string, RouteUploadChangeSummary> = {};
+  for (const id of uploadIds) {
+    summaries[id] = { routes: [], stopsCreated: 0, stopsUpdated: 0, stopsDeleted: 0 };
+  }
+  if (uploadIds.length === 0) return summaries;
+
+  const routeChanges = await prisma.routeUploadChange.findMany({
+    where: { uploadId: { in: uploadIds }, entityType: "ROUTE" },
+    select: { uploadId: true, routeId: true, changeType: true, snapshot: true },
+    orderBy: { createdAt: "asc" },
+  });
+  const routes = await prisma.route.findMany({
+    where: { id: { in: routeChanges.map((change) => change.routeId) } },
+    select: { id: true, routeNumber: true },
+  });
+  const routeNumbers = new Map(routes.map((route) => [route.id, route.routeNumber]));
+
+  for (const change of routeChanges) {
+    const snapshot = change.snapshot as RouteSnapshot | null;
+    summaries[change.uploadId].routes.push({
+      routeId: change.routeId,
+      routeNumber:
+        routeNumbers.get(change.routeId) ??
+        ((snapshot?.route.routeNumber as string | undefined) || null),
+      changeType: change.changeType,
+    });
+  }
+
+  const stopCounts = await prisma.routeUploadChange.groupBy({
+    by: ["uploadId", "changeType"],
+    where: { uploadId: { in: uploadIds }, entityType: "STOP" },
+    _count: { _all: true },
+  });
+  for (const row of stopCounts) {
+    const summary = summaries[row.uploadId];
+    if (row.changeType === "CREATED") summary.stopsCreated = row._count._all;
+    if (row.changeType === "UPDATED") summary.stopsUpdated = row._count._all;
+    if (row.changeType === "DELETED") summary.stopsDeleted = row._count._all;
+  }
+
+  return summaries;
+}
+
+/**
+ * Later uploads, not yet rolled back, that changed any route this upload
+ * touched. They have to be rolled back first.
+ */
+export async function findLaterUploads(uploadId: string) {
+  const upload = await prisma.routeUpload.findUnique({
+    where: { id: uploadId },
+    include: { changes: { select: { routeId: true, snapshot: true } } },
+  });
+  if (!upload) return [];
+
+  const routeIds = new Set<string>();
+  for (const change of upload.changes) {
+    routeIds.add(change.routeId);
+    const replacedBy = (change.snapshot as RouteSnapshot | null)?.replacedBy;
+    if (replacedBy) routeIds.add(replacedBy);
+  }
+
+  return prisma.routeUpload.findMany({
+    where: {
+      uploadedAt: { gt: upload.uploadedAt },
+      rolledBackAt: null,
+      isDeleted: false,
+      changes: { some: { routeId: { in: Array.from(routeIds) } } },
+    },
+    select: { id: true, originalFileName: true, uploadedAt: true },
+    orderBy: { uploadedAt: "asc" },
+  });
+}
+
+function progressChanged(
+  current: StopProgress | null,
+  atUpload: StopProgress | null
+): boolean {
+  return JSON.stringify(current) !== JSON.stringify(atUpload);
+}
+
+/**
+ * Undo an upload's changes. Callers check the upload exists, isn't rolled
+ * back already and has no later uploads (findLaterUploads) first.
+ */
+export async function rollbackRouteUpload(
+  uploadId: string,
+  rolledBackBy: string
+): Promise<RollbackResult> {
+  return prisma.$transaction(
+    async (tx) => {
+      const changes = await tx.routeUploadChange.findMany({
+        where: { uploadId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      const result: RollbackResult = {
+        uploadId,
+        stopsRemoved: 0,
+        stopsRestored: 0,
+        routesRemoved: 0,
+        routesRestored: 0,
+        skipped: [],
+      };
+
+      const byType = (entity: RouteUploadEntityType, type: RouteUploadChangeType) =>
+        changes.filter((c) => c.entityType === entity && c.changeType === type);
+
+      // 1. Remove stops the upload created, unless the driver has worked them
+      for (const change of byType("STOP", "CREATED")) {
+        const stop = await tx.stop.findUnique({
+          where: { id: change.stopId! },
+          include: EXISTING_STOP_INCLUDE,
+        });
+        if (!stop || stop.isDeleted) continue;
+
+        if (getStopProgress(stop)) {
+          result.skipped.push({
+            routeId: stop.routeId,
+            stopId: stop.id,
+            customerName: stop.customerNameFromUpload || stop.customer.name,
+            reason: `Driver activity since upload (status ${stop.status})`,
+          });
+          continue;
+        }
+
+        await tx.stop.update({
+          where: { id: stop.id },
+          data: { isDeleted: true },
+        });
+        result.stopsRemoved++;
+      }
+
+      // 2. Put back the uploaded fields on stops the upload merged into
+      for (const change of byType("STOP", "UPDATED")) {
+        const snapshot = change.snapshot as unknown as StopSnapshot;
+        const stop = await tx.stop.findUnique({
+          where: { id: change.stopId! },
+          include: EXISTING_STOP_INCLUDE,
+        });
+        if (!stop || stop.isDeleted) continue;
+
+        if (progressChanged(getStopProgress(stop), snapshot.progress)) {
+          result.skipped.push({
+            routeId: stop.routeId,
+            stopId: stop.id,
+            customerName: stop.customerNameFromUpload || stop.customer.name,
+            reason: `Driver activity since upload (status ${stop.status})`,
+          });
+          continue;
+        }
+
+        const data: Row = {};
+        for (const field of UPLOAD_STOP_FIELDS) {
+          data[field] = snapshot.stop[field];
+        }
+        await tx.stop.update({
+          where: { id: stop.id },
+          data: data as Prisma.StopUpdateInput,
+        });
+
+        // The upload soft deleted these lines when it replaced them
+        if (snapshot.orderLines) {
+          await tx.stopOrderLine.updateMany({
+            where: { stopId: stop.id, isDeleted: false },
+            data: { isDeleted: true },
+          });
+          await tx.stopOrderLine.updateMany({
+            where: { id: { in: snapshot.orderLines.map((line) => line.id as string) } },
+            data: { isDeleted: false },
+          });
+        }
+        result.stopsRestored++;
+      }
+
+      // 3. Remove routes the upload created once they have no stops left
+      const removedRouteIds = new Set<string>();
+      for (const change of byType("ROUTE", "CREATED")) {
+        const route = await tx.route.findUnique({
+          where: { id: change.routeId },
+          include: {
+            _count: {
+              select: {
+                stops: { where: { isDeleted: false } },
+                safetyChecks: true,
+              },
+            },
+          },
+        });
+        if (!route || route.isDeleted) {
+          removedRouteIds.add(change.routeId);
+          continue;
+        }
+
+        if (route._count.stops > 0 || route._count.safetyChecks > 0) {
+          result.skipped.push({
+            routeId: route.id,
+            stopId: null,
+            customerName: null,
+            reason: `Route ${route.routeNumber} kept: it still has stops or safety checks with driver activity`,
+          });
+          continue;
+        }
+
+        await tx.route.update({
+          where: { id: route.id },
+          data: { isDeleted: true },
+        });
+        removedRouteIds.add(route.id);
+        result.routesRemoved++;
+      }
+
+      // 4. Put back the uploaded fields on routes the upload merged into
+      for (const change of byType("ROUTE", "UPDATED")) {
+        const snapshot = change.snapshot as unknown as RouteSnapshot;
+        const data: Row = {};
+        for (const field of UPLOAD_ROUTE_FIELDS) {
+          data[field] = snapshot.route[field];
+        }
+        await tx.route.updateMany({
+          where: { id: change.routeId },
+          data: data as Prisma.RouteUpdateManyMutationInput,
+        });
+      }
+
+      // 5. Recreate routes the upload replaced, once their replacement is gone
+      for (const change of byType("ROUTE", "DELETED")) {
+        const snapshot = change.snapshot as unknown as RouteSnapshot;
+        if (snapshot.replacedBy && !removedRouteIds.has(snapshot.replacedBy)) {
+          result.skipped.push({
+            routeId: change.routeId,
+            stopId: null,
+            customerName: null,
+            reason: `Replaced route ${snapshot.route.routeNumber} not restored: its replacement has driver activity`,
+          });
+          continue;
+        }
+
+        await tx.route.create({
+          data: snapshot.route as Prisma.RouteUncheckedCreateInput,
+        });
+        if (snapshot.safetyChecks?.length) {
+          await tx.safetyCheck.createMany({
+            data: snapshot.safetyChecks as Prisma.SafetyCheckCreateManyInput[],
+          });
+        }
+
+        const stopChanges = byType("STOP", "DELETED").filter(
+          (c) => c.routeId === change.routeId
+        );
+        for (const stopChange of stopChanges) {
+          const stopSnapshot = stopChange.snapshot as unknown as StopSnapshot;
+          await tx.stop.create({
+            data: stopSnapshot.stop as Prisma.StopUncheckedCreateInput,
+          });
+          if (stopSnapshot.adminNotes?.length) {
+            await tx.adminNote.createMany({
+              data: stopSnapshot.adminNotes as Prisma.AdminNoteCreateManyInput[],
+            });
+          }
+          if (stopSnapshot.orderLines?.length) {
+            await tx.stopOrderLine.createMany({
+              data: stopSnapshot.orderLines as Prisma.StopOrderLineCreateManyInput[],
+            });
+          }
+          result.stopsRestored++;
+        }
+        result.routesRestored++;
+      }
+
+      await tx.routeUpload.update({
+        where: { id: uploadId },
+        data: {
+          status: "ROLLED_BACK",
+          rolledBackAt: new Date(),
+          rolledBackBy,
+        },
+      });
+
+      return result;
+    },
+    { maxWait: 10000, timeout: 60000 }
+  );
+}
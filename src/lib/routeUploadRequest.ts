@@ -0,0 +1,122 @@
+/**
+ * Reads a route upload from either a multipart form (file, profileId,
+ * action, routes) or an application/json body holding the route payload
+ * documented in routeFileFormats.ts. A JSON body may also carry "action"
+ * and "fileName" at the top level.
+ *
+ * "routes" picks which of the routes found in a multi-route file to commit:
+ * a JSON array of { key, action? } using the keys returned by the preview.
+ * When it's missing every route is committed with the top-level action.
+ *
+ * "protectDriverProgress" defaults to on; send "false" to let a re-upload
+ * overwrite stops the driver has already worked (see routeDiff.ts).
+ */
+
+export interface RouteUploadRequest {
+  buffer: Buffer;
+  fileName: string;
+  // Column mapping profile, or null to auto-detect
+  profileId: string | null;
+  // 'create', 'update', or null for auto-detect
+  action: string | null;
+  // Raw "routes" selection, checked with parseRouteSelection
+  routes: unknown;
+  // Leave stops with driver progress untouched
+  protectDriverProgress: boolean;
+}
+
+export interface RouteSelection {
+  key: string;
+  action?: string | null;
+}
+
+/**
+ * Parse the "routes" field into the routes chosen for commit, or null for
+ * all of them. Throws on anything that isn't an array of { key, action? }
+ * objects.
+ */
+export function parseRouteSelection(value: unknown): RouteSelection[] | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = typeof value === "string" ? JSON.parse(value) : value;
+  if (!Array.isArray(parsed)) {
+    throw new Error("routes must be an array");
+  }
+
+  const seen = new Set<string>();
+  return parsed.map((entry) => {
+    if (!entry || typeof entry.key !== "string") {
+      throw new Error("Each selected route needs a key");
+    }
+    if (seen.has(entry.key)) {
+      throw new Error(`Route ${entry.key} is selected more than once`);
+    }
+    seen.add(entry.key);
+    if (
+      entry.action !== undefined &&
+      entry.action !== null &&
+      entry.action !== "create" &&
+      entry.action !== "update"
+    ) {
+      throw new Error(`Invalid action '${entry.action}' for route ${entry.key}`);
+    }
+    return { key: entry.key, action: entry.action ?? null };
+  });
+}
+
+/**
+ * Returns null when the request carries no file.
+ */
+export async function readRouteUpload(
+  request: Request
+): Promise<RouteUploadRequest | null> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.includes("application/json")) {
+    const text = await request.text();
+    if (!text.trim()) {
+      return null;
+    }
+
+    let meta: {
+      action?: unknown;
+      fileName?: unknown;
+      routes?: unknown;
+      protectDriverProgress?: unknown;
+    } = {};
+    try {
+      meta = JSON.parse(text);
+    } catch {
+      // Leave the body as-is so the parser reports the JSON error
+    }
+
+    return {
+      buffer: Buffer.from(text, "utf8"),
+      fileName:
+        typeof meta?.fileName === "string" && meta.fileName
+          ? meta.fileName
+          : "route.json",
+      profileId: null,
+      action: typeof meta?.action === "string" ? meta.action : null,
+      routes: meta?.routes ?? null,
+      protectDriverProgress: meta?.protectDriverProgress !== false,
+    };
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file") as File | null;
+  if (!file) {
+    return null;
+  }
+
+  return {
+    buffer: Buffer.from(await file.arrayBuffer()),
+    fileName: file.name,
+    profileId: formData.get("profileId") as string | null,
+    action: formData.get("action") as string | null,
+    routes: formData.get("routes"),
+    protectDriverProgress: formData.get("protectDriverProgress") !== "false",
+  };
+}
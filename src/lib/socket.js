@@ -64,6 +64,7 @@ const SocketEvents = {
   ROUTE_STATUS_UPDATED: "route_status_updated",
   ADMIN_NOTE_CREATED: "admin_note_created",
   DRIVER_LOCATION_UPDATED: "driver_location_updated",
+  GEOFENCE_ALERT: "geofence_alert",
   // Room events
   JOIN_ROUTE_ROOM: "join_route_room",
   JOIN_DRIVER_ROOM: "join_driver_room",
@@ -647,6 +648,26 @@ const emitDriverLocationUpdate = (data) => {
 
   // Emit to admin room
   io.to("admin").emit(SocketEvents.DRIVER_LOCATION_UPDATED, optimizedData);
+
+  // Emit to route room, so open route pages can refresh their ETAs
+  if (data.routeId) {
+    io.to(`route:${data.routeId}`).emit(SocketEvents.DRIVER_LOCATION_UPDATED, optimizedData);
+  }
+};
+
+const emitGeofenceAlert = (data) => {
+  if (!io) return;
+
+  // Emit to admin room
+  io.to("admin").emit(SocketEvents.GEOFENCE_ALERT, {
+    stopId: data.stopId,
+    routeId: data.routeId,
+    driverId: data.driverId,
+    driverName: data.driverName,
+    customerName: data.customerName,
+    distanceMeters: data.distanceMeters,
+    timestamp: data.timestamp,
+  });
 };
 
 const getSocketServer = () => {
@@ -663,6 +684,7 @@ module.exports = {
   emitRouteStatusUpdate,
   emitAdminNoteCreated,
   emitDriverLocationUpdate,
+  emitGeofenceAlert,
   getSocketServer,
   SocketEvents,
 };
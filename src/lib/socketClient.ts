@@ -14,6 +14,7 @@ export enum SocketEvents {
   ROUTE_STATUS_UPDATED = "route_status_updated",
   ADMIN_NOTE_CREATED = "admin_note_created",
   DRIVER_LOCATION_UPDATED = "driver_location_updated",
+  GEOFENCE_ALERT = "geofence_alert",
   // Room events
   JOIN_ROUTE_ROOM = "join_route_room",
   JOIN_DRIVER_ROOM = "join_driver_room",
@@ -62,6 +63,16 @@ export interface DriverLocationData {
   timestamp: string;
 }
 
+export interface GeofenceAlertData {
+  stopId: string;
+  routeId: string;
+  driverId: string;
+  driverName: string;
+  customerName: string;
+  distanceMeters: number;
+  timestamp: string;
+}
+
 export interface AuthErrorData {
   type: 'TOKEN_EXPIRED' | 'INVALID_TOKEN' | 'VERIFICATION_ERROR' | 'MISSING_TOKEN' | 'REAUTH_FAILED' | 'REAUTH_TOKEN_EXPIRED';
   message: string;
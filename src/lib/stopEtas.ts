@@ -0,0 +1,394 @@
+/**
+ * Predicted arrival times for the remaining stops of a route.
+ *
+ * Timings are learned from past stops of the route's customers:
+ *   - dwell: how long drivers spend at a customer (arrival to completion)
+ *   - travel: how long the drive to a stop takes (on-the-way to arrival),
+ *     per pair of consecutive customers when they've been driven before,
+ *     else from the distance between delivery points (see stopSequencing.ts)
+ *     at the minutes per km drivers actually achieved, else a typical leg
+ *
+ * Each driver's stops are projected in sequence order: visited stops use
+ * their actual times, the stop a driver is heading to uses their latest GPS
+ * fix, and a driver who arrives before a receiving window opens waits for
+ * it (see receivingWindows.ts). Routes from past days aren't projected.
+ *
+ * Nothing is stored; projections are recomputed on every request, so they
+ * move with status changes and location updates.
+ *
+ * Configuration (all optional):
+ *   ROUTE_START_TIME       "HH:MM" drivers leave the depot (default 07:00)
+ *   AVERAGE_SPEED_KMH      speed assumed before any is learned (default 35)
+ *   STOP_SERVICE_MINUTES   dwell assumed before any is learned (default 15)
+ *   ETA_HISTORY_DAYS       how far back timings are learned from (default 90)
+ */
+
+import prisma from "./db";
+import { distanceKm } from "./geocoding";
+import { RouteWindowCheck, StopWindowCheck, evaluateArrival, pacificTime } from "./receivingWindows";
+import { LatLng, median, parseLatLng, resolveDeliveryPoints } from "./stopSequencing";
+import { getPSTDateString } from "./timezone";
+import { parseTimeOfDay } from "@/utils/receivingHours";
+import { FINISHED_STOP_STATUSES } from "@/utils/stopStatus";
+
+// How the drive to a stop was estimated
+export type TravelBasis = "history" | "distance" | "live" | "default";
+
+export interface StopEta extends StopWindowCheck {
+  routeId: string;
+  projectedDeparture: string;
+  travelMinutes: number;
+  dwellMinutes: number;
+  basis: TravelBasis;
+}
+
+export interface RouteEtaProjection {
+  routeId: string;
+  generatedAt: string;
+  stops: StopEta[];
+  // Stops that will probably be missed (LATE or CLOSED)
+  flagged: number;
+}
+
+export interface TimingModel {
+  dwellByCustomer: Map<string, number>;
+  defaultDwellMinutes: number;
+  // Keyed "fromCustomerId>toCustomerId"
+  travelByPair: Map<string, number>;
+  minutesPerKm: number;
+  defaultTravelMinutes: number;
+}
+
+const DEFAULT_START_TIME = "07:00";
+const DEFAULT_SPEED_KMH = 35;
+const DEFAULT_SERVICE_MINUTES = 15;
+const DEFAULT_HISTORY_DAYS = 90;
+const FALLBACK_LEG_MINUTES = 15;
+// Straight-line distance undercounts the road distance
+const ROAD_DISTANCE_FACTOR = 1.3;
+const HISTORY_MAX_STOPS = 2000;
+const MAX_SAMPLES_PER_KEY = 10;
+const MIN_SAMPLES = 2;
+// Samples outside these are a forgotten tap, not a real visit or drive
+const MAX_DWELL_MINUTES = 240;
+const MAX_TRAVEL_MINUTES = 180;
+// Legs this short say more about parking than about speed
+const MIN_SPEED_SAMPLE_KM = 0.5;
+const LIVE_FIX_MAX_AGE_MS = 30 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / MINUTE_MS;
+
+const driverKey = (name: string | null | undefined) => (name || "").trim().toLowerCase();
+
+/**
+ * Learn dwell and travel times from the completed stops of these customers,
+ * given their delivery points.
+ */
+export async function learnTimings(
+  customerIds: string[],
+  points: Map<string, LatLng>
+): Promise<TimingModel> {
+  const defaultSpeedKmh = numberFromEnv(process.env.AVERAGE_SPEED_KMH, DEFAULT_SPEED_KMH);
+  const fallbackDwell = numberFromEnv(process.env.STOP_SERVICE_MINUTES, DEFAULT_SERVICE_MINUTES);
+  const historyDays = numberFromEnv(process.env.ETA_HISTORY_DAYS, DEFAULT_HISTORY_DAYS);
+
+  const history =
+    customerIds.length === 0
+      ? []
+      : await prisma.stop.findMany({
+          where: {
+            customerId: { in: customerIds },
+            status: "COMPLETED",
+            arrivalTime: { not: null },
+            completionTime: { gte: new Date(Date.now() - historyDays * 24 * 60 * MINUTE_MS) },
+            isDeleted: false,
+          },
+          orderBy: { completionTime: "desc" },
+          take: HISTORY_MAX_STOPS,
+          select: {
+            routeId: true,
+            customerId: true,
+            sequence: true,
+            driverNameFromUpload: true,
+            onTheWayTime: true,
+            arrivalTime: true,
+            completionTime: true,
+          },
+        });
+
+  // Most recent samples first, so capping keeps the freshest
+  const addSample = (samples: Map<string, number[]>, key: string, value: number) => {
+    const values = samples.get(key) ?? [];
+    if (values.length < MAX_SAMPLES_PER_KEY) {
+      values.push(value);
+      samples.set(key, values);
+    }
+  };
+
+  const dwellSamples = new Map<string, number[]>();
+  const allDwell: number[] = [];
+  const travelSamples = new Map<string, number[]>();
+  const allTravel: number[] = [];
+  const bySlot = new Map<string, (typeof history)[number]>();
+  for (const stop of history) {
+    bySlot.set(`${stop.routeId}|${driverKey(stop.driverNameFromUpload)}|${stop.sequence}`, stop);
+  }
+
+  const minutesPerKmSamples: number[] = [];
+
+  for (const stop of history) {
+    const dwell = minutesBetween(stop.arrivalTime!, stop.completionTime!);
+    if (dwell > 0 && dwell <= MAX_DWELL_MINUTES) {
+      addSample(dwellSamples, stop.customerId, dwell);
+      allDwell.push(dwell);
+    }
+
+    if (!stop.onTheWayTime) continue;
+    const travel = minutesBetween(stop.onTheWayTime, stop.arrivalTime!);
+    if (travel <= 0 || travel > MAX_TRAVEL_MINUTES) continue;
+    allTravel.push(travel);
+
+    const previous = bySlot.get(
+      `${stop.routeId}|${driverKey(stop.driverNameFromUpload)}|${stop.sequence - 1}`
+    );
+    if (!previous) continue;
+    addSample(travelSamples, `${previous.customerId}>${stop.customerId}`, travel);
+
+    const from = points.get(previous.customerId);
+    const to = points.get(stop.customerId);
+    if (from && to) {
+      const km = distanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+      if (km >= MIN_SPEED_SAMPLE_KM) {
+        minutesPerKmSamples.push(travel / km);
+      }
+    }
+  }
+
+  const medians = (samples: Map<string, number[]>) =>
+    new Map(
+      [...samples]
+        .filter(([, values]) => values.length >= MIN_SAMPLES)
+        .map(([key, values]) => [key, median(values)])
+    );
+
+  return {
+    dwellByCustomer: medians(dwellSamples),
+    defaultDwellMinutes: allDwell.length >= MIN_SAMPLES ? median(allDwell) : fallbackDwell,
+    travelByPair: medians(travelSamples),
+    minutesPerKm:
+      minutesPerKmSamples.length >= MIN_SAMPLES
+        ? median(minutesPerKmSamples)
+        : (60 / defaultSpeedKmh) * ROAD_DISTANCE_FACTOR,
+    defaultTravelMinutes: allTravel.length >= MIN_SAMPLES ? median(allTravel) : FALLBACK_LEG_MINUTES,
+  };
+}
+
+/**
+ * Project arrival times for the remaining stops of a route, one driver at a
+ * time.
+ */
+export async function projectRouteEtas(
+  routeId: string,
+  now = new Date()
+): Promise<RouteEtaProjection> {
+  const route = await prisma.route.findFirst({
+    where: { id: routeId, isDeleted: false },
+    select: {
+      id: true,
+      date: true,
+      driver: { select: { username: true } },
+      stops: {
+        where: { isDeleted: false },
+        orderBy: { sequence: "asc" },
+        select: {
+          id: true,
+          customerId: true,
+          status: true,
+          onTheWayTime: true,
+          arrivalTime: true,
+          completionTime: true,
+          driverNameFromUpload: true,
+          customer: {
+            select: { name: true, closedWeekdays: true, receivingWindows: true },
+          },
+        },
+      },
+    },
+  });
+  if (!route) {
+    throw new Error("Route not found");
+  }
+
+  const generatedAt = now.toISOString();
+  const routeDay = getPSTDateString(route.date);
+  const today = getPSTDateString(now);
+  if (routeDay < today) {
+    return { routeId, generatedAt, stops: [], flagged: 0 };
+  }
+  const isToday = routeDay === today;
+
+  const startMinutes =
+    parseTimeOfDay(process.env.ROUTE_START_TIME || "") ?? parseTimeOfDay(DEFAULT_START_TIME)!;
+  const depot = parseLatLng(process.env.DEPOT_LOCATION);
+  const customerIds = [...new Set(route.stops.map((stop) => stop.customerId))];
+  const points = await resolveDeliveryPoints(customerIds);
+  const model = await learnTimings(customerIds, points);
+
+  // Each driver's latest fix on this route, by username and full name
+  const liveFixes = new Map<string, LatLng & { timestamp: Date }>();
+  if (isToday) {
+    const fixes = await prisma.driverLocation.findMany({
+      where: { routeId, timestamp: { gte: new Date(now.getTime() - LIVE_FIX_MAX_AGE_MS) } },
+      orderBy: { timestamp: "desc" },
+      select: {
+        latitude: true,
+        longitude: true,
+        timestamp: true,
+        driver: { select: { username: true, fullName: true } },
+      },
+    });
+    for (const fix of fixes) {
+      for (const name of [fix.driver.username, fix.driver.fullName]) {
+        const key = driverKey(name);
+        if (key && !liveFixes.has(key)) liveFixes.set(key, fix);
+      }
+    }
+  }
+
+  // Stops grouped by the driver delivering them, in sequence order
+  const groups = new Map<string, typeof route.stops>();
+  for (const stop of route.stops) {
+    const key = driverKey(stop.driverNameFromUpload || route.driver?.username);
+    groups.set(key, [...(groups.get(key) ?? []), stop]);
+  }
+
+  const etas: StopEta[] = [];
+  for (const [key, stops] of groups) {
+    let clock = pacificTime(routeDay, startMinutes).getTime();
+    let position: LatLng | null = depot;
+    let previousCustomerId: string | null = null;
+    let liveFix = liveFixes.get(key) ?? null;
+
+    for (const stop of stops) {
+      const point = points.get(stop.customerId) ?? null;
+      const dwellMinutes = model.dwellByCustomer.get(stop.customerId) ?? model.defaultDwellMinutes;
+
+      if (FINISHED_STOP_STATUSES.includes(stop.status) || stop.status === "ARRIVED") {
+        const leftAt =
+          stop.completionTime?.getTime() ??
+          (stop.arrivalTime ? stop.arrivalTime.getTime() + dwellMinutes * MINUTE_MS : null);
+        if (leftAt !== null) {
+          clock = Math.max(clock, leftAt);
+          // A fix from before the driver left this stop says nothing about the next leg
+          if (liveFix && liveFix.timestamp.getTime() < leftAt) liveFix = null;
+        }
+        position = point ?? position;
+        previousCustomerId = stop.customerId;
+        continue;
+      }
+
+      let travelMinutes: number;
+      let basis: TravelBasis;
+      let departedAt = clock;
+      const pairMinutes = previousCustomerId
+        ? model.travelByPair.get(`${previousCustomerId}>${stop.customerId}`)
+        : undefined;
+
+      if (liveFix && point) {
+        // The driver is somewhere on the way; only the rest of the drive counts
+        departedAt = Math.max(clock, liveFix.timestamp.getTime());
+        travelMinutes =
+          distanceKm(liveFix.latitude, liveFix.longitude, point.latitude, point.longitude) *
+          model.minutesPerKm;
+        basis = "live";
+      } else if (pairMinutes !== undefined) {
+        travelMinutes = pairMinutes;
+        basis = "history";
+      } else if (position && point) {
+        travelMinutes =
+          distanceKm(position.latitude, position.longitude, point.latitude, point.longitude) *
+          model.minutesPerKm;
+        basis = "distance";
+      } else {
+        travelMinutes = model.defaultTravelMinutes;
+        basis = "default";
+      }
+      if (basis !== "live") {
+        if (stop.status === "ON_THE_WAY" && stop.onTheWayTime) {
+          departedAt = Math.max(clock, stop.onTheWayTime.getTime());
+        } else if (isToday) {
+          departedAt = Math.max(departedAt, now.getTime());
+        }
+      }
+      liveFix = null;
+
+      let arrivalAt = departedAt + travelMinutes * MINUTE_MS;
+      if (isToday) {
+        // A driver who isn't there yet will get there no earlier than now
+        arrivalAt = Math.max(arrivalAt, now.getTime());
+      }
+      const arrival = new Date(arrivalAt);
+      const { verdict, startAt, hours } = evaluateArrival(
+        arrival,
+        stop.customer.receivingWindows,
+        stop.customer.closedWeekdays
+      );
+      const departure = startAt.getTime() + dwellMinutes * MINUTE_MS;
+
+      etas.push({
+        stopId: stop.id,
+        routeId,
+        customerName: stop.customer.name,
+        projectedArrival: arrival.toISOString(),
+        projectedDeparture: new Date(departure).toISOString(),
+        travelMinutes: Math.round(travelMinutes),
+        dwellMinutes: Math.round(dwellMinutes),
+        basis,
+        verdict,
+        hours,
+        waitMinutes: Math.round((startAt.getTime() - arrivalAt) / MINUTE_MS),
+      });
+
+      clock = departure;
+      position = point ?? position;
+      previousCustomerId = stop.customerId;
+    }
+  }
+
+  return {
+    routeId,
+    generatedAt,
+    stops: etas,
+    flagged: etas.filter((eta) => eta.verdict === "LATE" || eta.verdict === "CLOSED").length,
+  };
+}
+
+/**
+ * The receiving-window side of a route's projection.
+ */
+export async function checkRouteWindows(
+  routeId: string,
+  now = new Date()
+): Promise<RouteWindowCheck> {
+  const projection = await projectRouteEtas(routeId, now);
+  return {
+    routeId,
+    checks: projection.stops.map(
+      ({ stopId, customerName, projectedArrival, verdict, hours, waitMinutes }) => ({
+        stopId,
+        customerName,
+        projectedArrival,
+        verdict,
+        hours,
+        waitMinutes,
+      })
+    ),
+    flagged: projection.flagged,
+  };
+}
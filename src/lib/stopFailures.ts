@@ -0,0 +1,134 @@
+/**
+ * Failure reasons for stops.
+ *
+ * A FAILED stop needs a reason from the managed stop_failure_reasons list.
+ * Drivers must also attach photo evidence when the reason asks for it, taken
+ * through the stop's failure-photo upload. The allowed status changes
+ * themselves are in utils/stopStatus.ts.
+ */
+
+import prisma from "./db";
+import { StatusActor } from "@/utils/stopStatus";
+
+export interface FailureInput {
+  reasonCode?: unknown;
+  notes?: unknown;
+  photoUrls?: unknown;
+}
+
+export interface FailureDetails {
+  failureReasonId: string;
+  failureNotes: string | null;
+  failurePhotoUrls: string[];
+}
+
+// Where the failure-photo route saves a stop's photos
+function isFailurePhotoUrl(url: unknown, stopId: string): boolean {
+  const prefix = `/uploads/failures/${stopId}_`;
+  return typeof url === "string" && url.startsWith(prefix) && !url.includes("/", prefix.length);
+}
+
+/**
+ * Check the reason, notes and photos given for marking a stop FAILED.
+ */
+export async function resolveFailure(
+  input: FailureInput | undefined,
+  actor: StatusActor,
+  stopId: string
+): Promise<FailureDetails> {
+  const reasonCode = typeof input?.reasonCode === "string" ? input.reasonCode.trim() : "";
+  if (!reasonCode) {
+    throw new Error("A failure reason is required");
+  }
+
+  const reason = await prisma.stopFailureReason.findUnique({
+    where: { code: reasonCode },
+  });
+  if (!reason || !reason.isActive) {
+    throw new Error(`Unknown failure reason: ${reasonCode}`);
+  }
+
+  const photoUrls = input?.photoUrls ?? [];
+  if (!Array.isArray(photoUrls) || !photoUrls.every((url) => isFailurePhotoUrl(url, stopId))) {
+    throw new Error("photoUrls must be photos uploaded for this stop");
+  }
+  if (actor === "driver" && reason.requiresPhoto && photoUrls.length === 0) {
+    throw new Error(`A photo is required for "${reason.label}"`);
+  }
+
+  const notes = typeof input?.notes === "string" ? input.notes.trim() : "";
+
+  return {
+    failureReasonId: reason.id,
+    failureNotes: notes || null,
+    failurePhotoUrls: photoUrls as string[],
+  };
+}
+
+// Clears the failure details when a failed stop is retried
+export const CLEARED_FAILURE = {
+  failureReasonId: null,
+  failureNotes: null,
+  failurePhotoUrls: [] as string[],
+  failedAt: null,
+};
+
+export interface FailureReasonFields {
+  code: string;
+  label: string;
+  requiresPhoto: boolean;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+/**
+ * Validate a failure reason from the admin API. The code is only set when
+ * the reason is created.
+ */
+export function sanitizeFailureReason(
+  value: unknown,
+  { creating }: { creating: boolean }
+): { reason: Partial<FailureReasonFields>; errors: string[] } {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const reason: Partial<FailureReasonFields> = {};
+  const errors: string[] = [];
+
+  if (creating) {
+    const code =
+      typeof input.code === "string" ? input.code.trim().toUpperCase().replace(/\s+/g, "_") : "";
+    if (!/^[A-Z][A-Z0-9_]*$/.test(code)) {
+      errors.push("code must be letters, numbers and underscores, e.g. NO_RECEIVER");
+    } else {
+      reason.code = code;
+    }
+  }
+
+  if (creating || input.label !== undefined) {
+    const label = typeof input.label === "string" ? input.label.trim() : "";
+    if (!label) {
+      errors.push("label is required");
+    } else {
+      reason.label = label;
+    }
+  }
+
+  for (const field of ["requiresPhoto", "isActive"] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== "boolean") {
+        errors.push(`${field} must be true or false`);
+      } else {
+        reason[field] = input[field] as boolean;
+      }
+    }
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      errors.push("sortOrder must be a whole number");
+    } else {
+      reason.sortOrder = input.sortOrder as number;
+    }
+  }
+
+  return { reason, errors };
+}
@@ -0,0 +1,360 @@
+/**
+ * Order lines on a stop.
+ *
+ * Each line is a product (matched to the product list by SKU when one is
+ * given), the ordered quantity, unit and unit price. Lines come in with the
+ * route sheet or are added by an admin. At the stop the driver records how
+ * many were delivered; anything less than ordered is a shortage, which shows
+ * on the admin stop view and in the delivery confirmation email.
+ *
+ * In a route sheet the order lines column holds one line per entry,
+ * separated by ";" or new lines: "SKU x QTY [UNIT] [@ PRICE]", e.g.
+ * "MLK-1G x 4 cs @ 3.25; EGG-30 x 2". A JSON upload gives a "lines" array of
+ * { sku, description, orderedQty, unit, unitPrice } instead.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./db";
+import { FINISHED_STOP_STATUSES } from "@/utils/stopStatus";
+import { shortQuantity } from "@/utils/orderLines";
+
+export interface OrderLineInput {
+  sku: string | null;
+  description: string | null;
+  orderedQty: number;
+  unit: string | null;
+  unitPrice: number | null;
+}
+
+export interface DeliveredQuantity {
+  lineId: string;
+  deliveredQty: number;
+  shortReason: string | null;
+}
+
+export interface OrderLineShortage {
+  sku: string | null;
+  description: string;
+  unit: string | null;
+  orderedQty: number;
+  deliveredQty: number;
+  shortQty: number;
+  shortReason: string | null;
+}
+
+// "MLK-1G x 4 cs @ 3.25"
+const LINE_PATTERN = /^(.+?)\s+x\s*(\d+)(?:\s+([A-Za-z][\w.]*))?(?:\s*@\s*\$?([\d.]+))?$/i;
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/**
+ * Validate one order line from the admin API or a JSON upload. With
+ * `partial`, missing fields are left out (for updates).
+ */
+export function sanitizeOrderLine(
+  value: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): { line: Partial<OrderLineInput>; errors: string[] } {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const line: Partial<OrderLineInput> = {};
+  const errors: string[] = [];
+
+  for (const field of ["sku", "description", "unit"] as const) {
+    if (input[field] === undefined) continue;
+    if (input[field] !== null && typeof input[field] !== "string") {
+      errors.push(`${field} must be text`);
+      continue;
+    }
+    line[field] = text(input[field]);
+  }
+
+  if (input.orderedQty !== undefined) {
+    const qty = Number(input.orderedQty);
+    if (!Number.isInteger(qty) || qty <= 0) {
+      errors.push("orderedQty must be a whole number above 0");
+    } else {
+      line.orderedQty = qty;
+    }
+  } else if (!partial) {
+    errors.push("orderedQty is required");
+  }
+
+  if (input.unitPrice !== undefined && input.unitPrice !== null && input.unitPrice !== "") {
+    const price = Number(input.unitPrice);
+    if (isNaN(price) || price < 0) {
+      errors.push("unitPrice must be a number of 0 or more");
+    } else {
+      line.unitPrice = price;
+    }
+  } else if (input.unitPrice !== undefined || !partial) {
+    line.unitPrice = null;
+  }
+
+  if (!partial && !line.sku && !line.description) {
+    errors.push("Each line needs a sku or a description");
+  }
+
+  return { line, errors };
+}
+
+/**
+ * Read the order lines cell of a route sheet row (text) or JSON stop (an
+ * array of line objects).
+ */
+export function parseOrderLinesCell(value: unknown): {
+  lines: OrderLineInput[];
+  errors: string[];
+} {
+  const lines: OrderLineInput[] = [];
+  const errors: string[] = [];
+
+  if (value === null || value === undefined || value === "") {
+    return { lines, errors };
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => {
+      const { line, errors: lineErrors } = sanitizeOrderLine(entry);
+      if (lineErrors.length > 0) {
+        errors.push(`Line ${index + 1}: ${lineErrors.join("; ")}`);
+      } else {
+        lines.push(line as OrderLineInput);
+      }
+    });
+    return { lines, errors };
+  }
+
+  for (const entry of value.toString().split(/[;\n]/)) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(LINE_PATTERN);
+    const qty = match ? parseInt(match[2], 10) : 0;
+    if (!match || qty <= 0) {
+      errors.push(`Can't read order line "${trimmed}" (expected "SKU x QTY [UNIT] [@ PRICE]")`);
+      continue;
+    }
+    const price = match[4] !== undefined ? parseFloat(match[4]) : null;
+    lines.push({
+      sku: match[1].trim(),
+      description: null,
+      orderedQty: qty,
+      unit: match[3] ?? null,
+      unitPrice: price !== null && !isNaN(price) ? price : null,
+    });
+  }
+
+  return { lines, errors };
+}
+
+/**
+ * Build the create data for a stop's lines, filling the description and
+ * unit from the product list where the SKU matches a product.
+ */
+export async function orderLineCreateData(
+  tx: Prisma.TransactionClient,
+  lines: OrderLineInput[],
+  firstSortOrder = 0
+): Promise<Prisma.StopOrderLineCreateWithoutStopInput[]> {
+  const skus = [...new Set(lines.map((line) => line.sku).filter((sku): sku is string => !!sku))];
+  const products =
+    skus.length > 0
+      ? await tx.product.findMany({
+          where: { sku: { in: skus }, isDeleted: false },
+          select: { id: true, sku: true, name: true, unit: true },
+        })
+      : [];
+  const bySku = new Map(products.map((product) => [product.sku, product]));
+
+  return lines.map((line, index) => {
+    const product = line.sku ? bySku.get(line.sku) : undefined;
+    return {
+      ...(product ? { product: { connect: { id: product.id } } } : {}),
+      sku: line.sku,
+      description: line.description || product?.name || line.sku || "",
+      unit: line.unit || product?.unit || null,
+      orderedQty: line.orderedQty,
+      unitPrice: line.unitPrice,
+      sortOrder: firstSortOrder + index,
+    };
+  });
+}
+
+export async function getStopOrderLines(stopId: string) {
+  return prisma.stopOrderLine.findMany({
+    where: { stopId, isDeleted: false },
+    orderBy: { sortOrder: "asc" },
+  });
+}
+
+/**
+ * Add a line to a stop from the admin stop view.
+ */
+export async function addStopOrderLine(stopId: string, input: OrderLineInput) {
+  const stop = await prisma.stop.findFirst({
+    where: { id: stopId, isDeleted: false },
+    select: { id: true },
+  });
+  if (!stop) {
+    throw new Error("Stop not found");
+  }
+
+  const last = await prisma.stopOrderLine.findFirst({
+    where: { stopId, isDeleted: false },
+    orderBy: { sortOrder: "desc" },
+    select: { sortOrder: true },
+  });
+  const [data] = await orderLineCreateData(prisma, [input], (last?.sortOrder ?? -1) + 1);
+
+  return prisma.stopOrderLine.create({
+    data: { ...data, stop: { connect: { id: stopId } } },
+  });
+}
+
+async function findLine(stopId: string, lineId: string) {
+  const line = await prisma.stopOrderLine.findFirst({
+    where: { id: lineId, stopId, isDeleted: false },
+  });
+  if (!line) {
+    throw new Error("Order line not found");
+  }
+  return line;
+}
+
+/**
+ * Change a line from the admin stop view. Changing the SKU re-matches the
+ * product.
+ */
+export async function updateStopOrderLine(
+  stopId: string,
+  lineId: string,
+  changes: Partial<OrderLineInput>
+) {
+  const line = await findLine(stopId, lineId);
+
+  let productId = line.productId;
+  if (changes.sku !== undefined && changes.sku !== line.sku) {
+    const product = changes.sku
+      ? await prisma.product.findFirst({
+          where: { sku: changes.sku, isDeleted: false },
+          select: { id: true },
+        })
+      : null;
+    productId = product?.id ?? null;
+  }
+
+  const orderedQty = changes.orderedQty ?? line.orderedQty;
+  if (line.deliveredQty !== null && line.deliveredQty > orderedQty) {
+    throw new Error(`${line.deliveredQty} were already delivered; orderedQty can't be less`);
+  }
+
+  // A cleared description falls back to the SKU
+  const sku = changes.sku !== undefined ? changes.sku : line.sku;
+  const description = changes.description === undefined ? line.description : changes.description || sku;
+  if (!description) {
+    throw new Error("Each line needs a sku or a description");
+  }
+
+  return prisma.stopOrderLine.update({
+    where: { id: line.id },
+    data: { ...changes, sku, description, orderedQty, productId },
+  });
+}
+
+export async function deleteStopOrderLine(stopId: string, lineId: string) {
+  const line = await findLine(stopId, lineId);
+  await prisma.stopOrderLine.update({
+    where: { id: line.id },
+    data: { isDeleted: true },
+  });
+}
+
+/**
+ * Validate the delivered quantities the driver sends for a stop.
+ */
+export function sanitizeDeliveredQuantities(value: unknown): {
+  quantities: DeliveredQuantity[];
+  errors: string[];
+} {
+  if (!Array.isArray(value)) {
+    return { quantities: [], errors: ["lines must be a list"] };
+  }
+
+  const quantities: DeliveredQuantity[] = [];
+  const errors: string[] = [];
+  value.forEach((entry, index) => {
+    const input = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const qty = Number(input.deliveredQty);
+    if (typeof input.lineId !== "string" || !input.lineId) {
+      errors.push(`Line ${index + 1}: lineId is required`);
+    } else if (input.deliveredQty === null || input.deliveredQty === "" || !Number.isInteger(qty) || qty < 0) {
+      errors.push(`Line ${index + 1}: deliveredQty must be a whole number of 0 or more`);
+    } else {
+      quantities.push({ lineId: input.lineId, deliveredQty: qty, shortReason: text(input.shortReason) });
+    }
+  });
+
+  return { quantities, errors };
+}
+
+/**
+ * Record what the driver delivered on each line. Quantities can be changed
+ * until the stop is finished.
+ */
+export async function recordDeliveredQuantities(stopId: string, quantities: DeliveredQuantity[]) {
+  const stop = await prisma.stop.findFirst({
+    where: { id: stopId, isDeleted: false },
+    select: { status: true },
+  });
+  if (!stop) {
+    throw new Error("Stop not found");
+  }
+  if (FINISHED_STOP_STATUSES.includes(stop.status)) {
+    throw new Error("Delivered quantities can't be changed on a finished stop");
+  }
+
+  const lines = await getStopOrderLines(stopId);
+  const byId = new Map(lines.map((line) => [line.id, line]));
+  for (const { lineId, deliveredQty } of quantities) {
+    const line = byId.get(lineId);
+    if (!line) {
+      throw new Error("Order line not found");
+    }
+    if (deliveredQty > line.orderedQty) {
+      throw new Error(`Only ${line.orderedQty} of ${line.description} were ordered`);
+    }
+  }
+
+  await prisma.$transaction(
+    quantities.map(({ lineId, deliveredQty, shortReason }) =>
+      prisma.stopOrderLine.update({
+        where: { id: lineId },
+        data: {
+          deliveredQty,
+          shortReason: deliveredQty < byId.get(lineId)!.orderedQty ? shortReason : null,
+        },
+      })
+    )
+  );
+
+  return getStopOrderLines(stopId);
+}
+
+/**
+ * The lines on a stop that weren't delivered in full.
+ */
+export async function getStopShortages(stopId: string): Promise<OrderLineShortage[]> {
+  const lines = await getStopOrderLines(stopId);
+  return lines
+    .filter((line) => shortQuantity(line) > 0)
+    .map((line) => ({
+      sku: line.sku,
+      description: line.description,
+      unit: line.unit,
+      orderedQty: line.orderedQty,
+      deliveredQty: line.deliveredQty as number,
+      shortQty: shortQuantity(line),
+      shortReason: line.shortReason,
+    }));
+}
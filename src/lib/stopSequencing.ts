@@ -0,0 +1,415 @@
+/**
+ * Stop sequence optimization.
+ *
+ * Proposes a visiting order for a driver's stops on a route; nothing is
+ * saved until the admin accepts, which goes through the normal
+ * reorder-driver-stops endpoint.
+ *
+ * Each stop is placed at its customer's delivery point, taken in order of
+ * preference from:
+ *   1. a pin the admin placed by hand on the map pins screen
+ *   2. where drivers actually were when completing past stops for the
+ *      customer (DriverLocation fixes recorded against the stop)
+ *   3. the customer's geocoded address, when the geocoder was confident
+ *
+ * Stops stay where they are when they're locked, already visited (arrived,
+ * completed, cancelled or failed) or have no delivery point; the rest are
+ * ordered around them by nearest neighbour, then improved by swapping and
+ * reversing runs of stops while that shortens the trip. Distances are
+ * straight-line, from the start point to the last stop. From the driver's
+ * position, visited stops are behind them and left out of the trip.
+ *
+ * The trip starts at the driver's last known position when it's recent,
+ * else the depot. Configuration:
+ *   DEPOT_LOCATION   "lat,lng" of the depot drivers leave from
+ */
+
+import { StopStatus } from "@prisma/client";
+import prisma from "./db";
+import { distanceKm } from "./geocoding";
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export type DeliveryPointSource = "manual" | "learned" | "geocoded";
+
+export interface DeliveryPoint extends LatLng {
+  source: DeliveryPointSource;
+}
+
+export type StartKind = "driver" | "depot";
+
+export interface ProposedStop {
+  id: string;
+  customerName: string;
+  previousPosition: number;
+  position: number;
+  // Why the stop wasn't moved, if it was held in place
+  heldBecause: "locked" | "visited" | "unlocated" | null;
+  pointSource: DeliveryPointSource | null;
+}
+
+export interface StopOrderProposal {
+  // The stops in the proposed order, for reorder-driver-stops
+  stopIds: string[];
+  stops: ProposedStop[];
+  start: (LatLng & { kind: StartKind }) | null;
+  beforeKm: number;
+  afterKm: number;
+}
+
+// Only stops still to be visited are moved
+const MOVABLE_STATUSES: StopStatus[] = ["PENDING", "ON_THE_WAY"];
+
+// A driver position older than this isn't where the trip starts from
+const DRIVER_POSITION_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+// Completed stops looked at when learning a customer's delivery point
+const LEARN_LOOKBACK_DAYS = 180;
+const LEARN_MAX_STOPS_PER_CUSTOMER = 10;
+// A fix must be this close to the completion time and at least this
+// accurate to count
+const LEARN_FIX_WINDOW_MS = 10 * 60 * 1000;
+const LEARN_MAX_ACCURACY_M = 100;
+// Fewer fixes than this could just be a driver who tapped complete late
+const LEARN_MIN_FIXES = 2;
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+export function parseLatLng(value: string | undefined): LatLng | null {
+  if (!value) return null;
+  const [latitude, longitude] = value.split(",").map((part) => parseFloat(part));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+  return { latitude, longitude };
+}
+
+export const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * The delivery point for each customer that has one.
+ */
+export async function resolveDeliveryPoints(
+  customerIds: string[]
+): Promise<Map<string, DeliveryPoint>> {
+  const points = new Map<string, DeliveryPoint>();
+  if (customerIds.length === 0) return points;
+
+  const customers = await prisma.customer.findMany({
+    where: { id: { in: customerIds } },
+    select: { id: true, latitude: true, longitude: true, geocodeStatus: true },
+  });
+  for (const customer of customers) {
+    if (
+      customer.geocodeStatus === "MANUAL" &&
+      customer.latitude !== null &&
+      customer.longitude !== null
+    ) {
+      points.set(customer.id, {
+        latitude: customer.latitude,
+        longitude: customer.longitude,
+        source: "manual",
+      });
+    }
+  }
+
+  const learnFor = customerIds.filter((id) => !points.has(id));
+  if (learnFor.length > 0) {
+    for (const [customerId, point] of await learnDeliveryPoints(learnFor)) {
+      points.set(customerId, point);
+    }
+  }
+
+  for (const customer of customers) {
+    if (
+      !points.has(customer.id) &&
+      customer.geocodeStatus === "OK" &&
+      customer.latitude !== null &&
+      customer.longitude !== null
+    ) {
+      points.set(customer.id, {
+        latitude: customer.latitude,
+        longitude: customer.longitude,
+        source: "geocoded",
+      });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Delivery points learned from the GPS fixes drivers sent while completing
+ * past stops: per stop the fix nearest the completion time, then the median
+ * of those per customer.
+ */
+async function learnDeliveryPoints(customerIds: string[]): Promise<Map<string, DeliveryPoint>> {
+  const since = new Date(Date.now() - LEARN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const completedStops = await prisma.stop.findMany({
+    where: {
+      customerId: { in: customerIds },
+      status: "COMPLETED",
+      completionTime: { gte: since },
+      isDeleted: false,
+    },
+    orderBy: { completionTime: "desc" },
+    select: { id: true, customerId: true, completionTime: true },
+  });
+
+  const stopsByCustomer = new Map<string, typeof completedStops>();
+  for (const stop of completedStops) {
+    const stops = stopsByCustomer.get(stop.customerId) ?? [];
+    if (stops.length < LEARN_MAX_STOPS_PER_CUSTOMER) {
+      stops.push(stop);
+      stopsByCustomer.set(stop.customerId, stops);
+    }
+  }
+
+  const stops = [...stopsByCustomer.values()].flat();
+  if (stops.length === 0) return new Map();
+
+  const fixes = await prisma.driverLocation.findMany({
+    where: { stopId: { in: stops.map((stop) => stop.id) } },
+    select: { stopId: true, latitude: true, longitude: true, accuracy: true, timestamp: true },
+  });
+
+  const learned = new Map<string, DeliveryPoint>();
+  for (const [customerId, customerStops] of stopsByCustomer) {
+    const bestFixes: LatLng[] = [];
+    for (const stop of customerStops) {
+      const completedAt = stop.completionTime!.getTime();
+      let best: { fix: LatLng; gap: number } | null = null;
+      for (const fix of fixes) {
+        if (fix.stopId !== stop.id) continue;
+        if (fix.accuracy !== null && fix.accuracy > LEARN_MAX_ACCURACY_M) continue;
+        const gap = Math.abs(fix.timestamp.getTime() - completedAt);
+        if (gap <= LEARN_FIX_WINDOW_MS && (!best || gap < best.gap)) {
+          best = { fix, gap };
+        }
+      }
+      if (best) bestFixes.push(best.fix);
+    }
+
+    if (bestFixes.length >= LEARN_MIN_FIXES) {
+      learned.set(customerId, {
+        latitude: median(bestFixes.map((fix) => fix.latitude)),
+        longitude: median(bestFixes.map((fix) => fix.longitude)),
+        source: "learned",
+      });
+    }
+  }
+  return learned;
+}
+
+/**
+ * Straight-line length of a trip through the points in order, skipping
+ * stops without a point.
+ */
+export function tripDistanceKm(start: LatLng | null, points: (LatLng | null)[]): number {
+  let total = 0;
+  let previous = start;
+  for (const point of points) {
+    if (!point) continue;
+    if (previous) {
+      total += distanceKm(previous.latitude, previous.longitude, point.latitude, point.longitude);
+    }
+    previous = point;
+  }
+  return total;
+}
+
+/**
+ * Order stops to shorten the trip. Stops marked held (or without a point)
+ * keep their index; the others fill the remaining slots. Returns the new
+ * order as indexes into the input.
+ */
+export function optimizeStopOrder(
+  points: (LatLng | null)[],
+  held: boolean[],
+  start: LatLng | null
+): number[] {
+  const fixed = points.map((point, index) => held[index] || !point);
+  const free = points.map((_, index) => index).filter((index) => !fixed[index]);
+
+  // Nearest neighbour, walking the slots in order
+  const order: number[] = [];
+  const unplaced = new Set(free);
+  let current = start;
+  for (let slot = 0; slot < points.length; slot++) {
+    let chosen = slot;
+    if (!fixed[slot]) {
+      chosen = [...unplaced].reduce((best, candidate) =>
+        current &&
+        distanceKm(current.latitude, current.longitude, points[candidate]!.latitude, points[candidate]!.longitude) <
+          distanceKm(current.latitude, current.longitude, points[best]!.latitude, points[best]!.longitude)
+          ? candidate
+          : best
+      );
+      unplaced.delete(chosen);
+    }
+    order.push(chosen);
+    current = points[chosen] ?? current;
+  }
+
+  // Swap any two free slots, or reverse a run of free slots, while it helps
+  const cost = (candidate: number[]) =>
+    tripDistanceKm(start, candidate.map((index) => points[index]));
+  const freeSlots = order.map((_, slot) => slot).filter((slot) => !fixed[slot]);
+  let best = cost(order);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let a = 0; a < freeSlots.length; a++) {
+      for (let b = a + 1; b < freeSlots.length; b++) {
+        const i = freeSlots[a];
+        const j = freeSlots[b];
+
+        const swapped = [...order];
+        [swapped[i], swapped[j]] = [swapped[j], swapped[i]];
+        const swappedCost = cost(swapped);
+        if (swappedCost < best - 1e-9) {
+          order.splice(0, order.length, ...swapped);
+          best = swappedCost;
+          improved = true;
+          continue;
+        }
+
+        // Reversal only within a run of consecutive free slots
+        if (j - i === b - a && j - i > 1) {
+          const reversed = [
+            ...order.slice(0, i),
+            ...order.slice(i, j + 1).reverse(),
+            ...order.slice(j + 1),
+          ];
+          const reversedCost = cost(reversed);
+          if (reversedCost < best - 1e-9) {
+            order.splice(0, order.length, ...reversed);
+            best = reversedCost;
+            improved = true;
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return order;
+}
+
+/**
+ * Where the trip starts: the driver's recent position or the depot. With
+ * no preference, whichever is available, driver first.
+ */
+async function resolveStart(
+  driverId: string | null,
+  preference: StartKind | null
+): Promise<(LatLng & { kind: StartKind }) | null> {
+  if (preference !== "depot" && driverId) {
+    const driver = await prisma.user.findUnique({
+      where: { id: driverId },
+      select: { lastKnownLatitude: true, lastKnownLongitude: true, lastLocationUpdate: true },
+    });
+    if (
+      driver?.lastKnownLatitude != null &&
+      driver.lastKnownLongitude != null &&
+      driver.lastLocationUpdate &&
+      Date.now() - driver.lastLocationUpdate.getTime() <= DRIVER_POSITION_MAX_AGE_MS
+    ) {
+      return {
+        kind: "driver",
+        latitude: driver.lastKnownLatitude,
+        longitude: driver.lastKnownLongitude,
+      };
+    }
+    if (preference === "driver") {
+      throw new Error("The driver has not reported a position in the last 2 hours");
+    }
+  } else if (preference === "driver") {
+    throw new Error("driverId is required to start from the driver's position");
+  }
+
+  const depot = parseLatLng(process.env.DEPOT_LOCATION);
+  if (depot) {
+    return { kind: "depot", ...depot };
+  }
+  if (preference === "depot") {
+    throw new Error('DEPOT_LOCATION is not set; set it to the depot\'s "lat,lng"');
+  }
+  return null;
+}
+
+/**
+ * Propose a new order for the given stops of a route (one driver's stops,
+ * in their current order).
+ */
+export async function proposeStopOrder(
+  routeId: string,
+  stopIds: string[],
+  options: { driverId?: string | null; start?: StartKind | null } = {}
+): Promise<StopOrderProposal> {
+  const stops = await prisma.stop.findMany({
+    where: { id: { in: stopIds }, routeId, isDeleted: false },
+    select: {
+      id: true,
+      customerId: true,
+      status: true,
+      sequenceLocked: true,
+      sequence: true,
+      customer: { select: { name: true } },
+    },
+  });
+  if (stops.length !== new Set(stopIds).size) {
+    throw new Error("One or more stopIds do not belong to this route");
+  }
+  stops.sort((a, b) => a.sequence - b.sequence);
+
+  const [deliveryPoints, start] = await Promise.all([
+    resolveDeliveryPoints([...new Set(stops.map((stop) => stop.customerId))]),
+    resolveStart(options.driverId ?? null, options.start ?? null),
+  ]);
+
+  const points = stops.map((stop) => deliveryPoints.get(stop.customerId) ?? null);
+  const heldBecause = stops.map((stop, index) =>
+    stop.sequenceLocked
+      ? ("locked" as const)
+      : !MOVABLE_STATUSES.includes(stop.status)
+        ? ("visited" as const)
+        : !points[index]
+          ? ("unlocated" as const)
+          : null
+  );
+
+  // The trip from the driver's position only covers the stops still to visit
+  const tripPoints =
+    start?.kind === "driver"
+      ? points.map((point, index) => (MOVABLE_STATUSES.includes(stops[index].status) ? point : null))
+      : points;
+
+  const order = optimizeStopOrder(
+    tripPoints,
+    heldBecause.map((reason) => reason !== null),
+    start
+  );
+
+  return {
+    stopIds: order.map((index) => stops[index].id),
+    stops: order.map((index, position) => ({
+      id: stops[index].id,
+      customerName: stops[index].customer.name,
+      previousPosition: index + 1,
+      position: position + 1,
+      heldBecause: heldBecause[index],
+      pointSource: points[index]?.source ?? null,
+    })),
+    start,
+    beforeKm: tripDistanceKm(start, tripPoints),
+    afterKm: tripDistanceKm(start, order.map((index) => tripPoints[index])),
+  };
+}
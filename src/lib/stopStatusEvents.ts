@@ -0,0 +1,116 @@
+/**
+ * Proof of location for stop status changes.
+ *
+ * The driver app sends its GPS fix with every status change. Each change is
+ * stored in stop_status_events with the fix and its distance from the
+ * customer's delivery point (see stopSequencing.ts). A completion further
+ * from the delivery point than COMPLETION_DISTANCE_METERS, or the customer's
+ * geofence radius when that's larger, is flagged for review. The fix's
+ * accuracy is given the benefit of the doubt.
+ *
+ * Configuration (optional):
+ *   COMPLETION_DISTANCE_METERS   default 300
+ */
+
+import { StopStatus } from "@prisma/client";
+import prisma from "./db";
+import { distanceKm } from "./geocoding";
+import { resolveDeliveryPoints } from "./stopSequencing";
+
+export interface StatusFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+}
+
+export interface StatusEventInput {
+  stopId: string;
+  customerId: string;
+  driverId: string;
+  fromStatus: StopStatus;
+  toStatus: StopStatus;
+  fix: StatusFix | null;
+  geofenceRadiusMeters?: number | null;
+  automatic?: boolean;
+}
+
+const DEFAULT_COMPLETION_DISTANCE_METERS = 300;
+
+/**
+ * Validate the GPS fix sent with a status change; missing is allowed.
+ */
+export function parseStatusFix(value: unknown): StatusFix | null {
+  if (value === undefined || value === null) return null;
+
+  const { latitude, longitude, accuracy } = value as Record<string, unknown>;
+  if (
+    typeof latitude !== "number" ||
+    typeof longitude !== "number" ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    throw new Error("location must have a valid latitude and longitude");
+  }
+  if (
+    accuracy !== undefined &&
+    accuracy !== null &&
+    (typeof accuracy !== "number" || !Number.isFinite(accuracy) || accuracy < 0)
+  ) {
+    throw new Error("location accuracy must be a positive number of meters");
+  }
+
+  return {
+    latitude,
+    longitude,
+    accuracy: typeof accuracy === "number" ? accuracy : null,
+  };
+}
+
+export function completionDistanceLimit(geofenceRadiusMeters: number | null = null): number {
+  const parsed = parseInt(process.env.COMPLETION_DISTANCE_METERS || "");
+  const limit =
+    Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_COMPLETION_DISTANCE_METERS;
+  return Math.max(limit, geofenceRadiusMeters ?? 0);
+}
+
+/**
+ * Record a stop status change with the driver's fix, measuring it against the
+ * customer's delivery point.
+ */
+export async function recordStatusEvent(input: StatusEventInput) {
+  let distanceMeters: number | null = null;
+  let pointSource: string | null = null;
+  let flagged = false;
+
+  if (input.fix) {
+    const point = (await resolveDeliveryPoints([input.customerId])).get(input.customerId);
+    if (point) {
+      distanceMeters =
+        distanceKm(input.fix.latitude, input.fix.longitude, point.latitude, point.longitude) *
+        1000;
+      pointSource = point.source;
+      flagged =
+        input.toStatus === "COMPLETED" &&
+        distanceMeters - (input.fix.accuracy ?? 0) >
+          completionDistanceLimit(input.geofenceRadiusMeters ?? null);
+    }
+  }
+
+  return prisma.stopStatusEvent.create({
+    data: {
+      stopId: input.stopId,
+      driverId: input.driverId,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      latitude: input.fix?.latitude ?? null,
+      longitude: input.fix?.longitude ?? null,
+      accuracy: input.fix?.accuracy ?? null,
+      distanceMeters,
+      pointSource,
+      flagged,
+      automatic: input.automatic ?? false,
+    },
+  });
+}
@@ -97,6 +97,20 @@ export function formatDateTimePST(date: Date | string): string {
   });
 }
 
+/**
+ * Format just the time of day in PST timezone, e.g. "9:40 AM"
+ */
+export function formatTimePST(date: Date | string): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+
+  return dateObj.toLocaleTimeString("en-US", {
+    timeZone: "America/Los_Angeles",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
+
 /**
  * Get a date string in YYYY-MM-DD format for PST timezone
  * Useful for database queries and comparisons
@@ -9,6 +9,8 @@
  * - Minimal database writes
  */
 
+import type { GeofenceOutcome } from '@/lib/geofences';
+
 export interface LocationData {
   latitude: number;
   longitude: number;
@@ -20,6 +22,8 @@ export interface LocationTrackingOptions {
   stopId: string;
   routeId: string;
   onLocationUpdate?: (location: LocationData) => void;
+  // Called with the server's geofence check of each update
+  onGeofence?: (outcome: GeofenceOutcome) => void;
   onError?: (error: Error) => void;
 }
 
@@ -269,14 +273,56 @@ class LocationTrackingService {
       const data = await response.json();
       console.log('Location updated successfully:', data);
 
-      // Notify callback
+      // Notify callbacks
       this.options.onLocationUpdate?.(this.currentLocation);
+      if (data.geofence) {
+        this.options.onGeofence?.(data.geofence);
+      }
     } catch (error) {
       console.error('Error sending location update:', error);
       this.options?.onError?.(error as Error);
     }
   }
 
+  /**
+   * Get a fix to send with a stop status change (proof of location).
+   * Uses the tracked position when it's recent, otherwise asks for one;
+   * resolves null rather than holding up the status change.
+   */
+  async getFix(timeoutMs: number = 8000): Promise<LocationData | null> {
+    if (
+      this.currentLocation &&
+      Date.now() - this.currentLocation.timestamp.getTime() < 2 * 60 * 1000
+    ) {
+      return this.currentLocation;
+    }
+
+    if (!this.isSupported() || !this.isSecureContext()) {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          resolve({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            timestamp: new Date(position.timestamp),
+          }),
+        (error) => {
+          console.warn('Could not get location for status change:', error.message);
+          resolve(null);
+        },
+        {
+          enableHighAccuracy: true,
+          timeout: timeoutMs,
+          maximumAge: 60000,
+        }
+      );
+    });
+  }
+
   /**
    * Get current tracking status
    */
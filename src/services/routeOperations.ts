@@ -1,5 +1,5 @@
 /**
- * Service for route operations (export, email, image generation)
+ * Service for route operations (export, email, image generation, duplication)
  * Extracted from route details page to improve modularity
  */
 
@@ -247,3 +247,42 @@ export async function deleteRoute(routeId: string, force: boolean = false): Prom
 
   return await response.json();
 }
+
+/**
+ * Duplicate a route to another date
+ */
+export async function duplicateRoute(
+  routeId: string,
+  options: {
+    date: string;
+    clearInvoiceNumbers: boolean;
+    clearAmounts: boolean;
+    clearPaymentFlags: boolean;
+  }
+): Promise<{ routeId: string; stopCount: number }> {
+  // Check both localStorage and sessionStorage for token
+  let token = localStorage.getItem("token");
+  if (!token) {
+    token = sessionStorage.getItem("token");
+  }
+
+  if (!token) {
+    throw new Error("Authentication required");
+  }
+
+  const response = await fetch(`/api/admin/routes/${routeId}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || "Failed to duplicate route");
+  }
+
+  return await response.json();
+}
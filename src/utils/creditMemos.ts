@@ -0,0 +1,16 @@
+/**
+ * Credit memo amounts, shared by the API and the credit memo review screen.
+ */
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * What a line credits. Lines without a unit price yet credit nothing.
+ */
+export function creditMemoLineAmount(line: { quantity: number; unitPrice: number | null }): number {
+  return line.unitPrice === null ? 0 : toCents(line.quantity * line.unitPrice);
+}
+
+export function creditMemoTotal(lines: { quantity: number; unitPrice: number | null }[]): number {
+  return toCents(lines.reduce((sum, line) => sum + creditMemoLineAmount(line), 0));
+}
@@ -48,6 +48,14 @@ export function generateSingleAddressMapLink(address: string): string {
   return `https://www.google.com/maps/search/?api=1&query=${formattedAddress}`;
 }
 
+/**
+ * Generates a Google Maps search link for a geocoded pin
+ * Drops the marker exactly where the customer's coordinates are
+ */
+export function generateCoordinateMapLink(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+}
+
 /**
  * Generates a Google Maps directions link for a single destination
  * This opens Google Maps with directions to the specific address
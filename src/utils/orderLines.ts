@@ -0,0 +1,13 @@
+/**
+ * Order line quantities, shared by the API and the driver and admin stop
+ * screens.
+ */
+
+/**
+ * How many of the line weren't delivered. Lines the driver hasn't recorded
+ * yet count as not short.
+ */
+export function shortQuantity(line: { orderedQty: number; deliveredQty: number | null }): number {
+  if (line.deliveredQty === null) return 0;
+  return Math.max(0, line.orderedQty - line.deliveredQty);
+}
@@ -0,0 +1,56 @@
+/**
+ * Product barcode formatting, shared by the product upload and the driver
+ * barcode scanner.
+ */
+
+const BARCODE_PATTERN = /^[0-9A-Z-]{4,48}$/;
+
+/**
+ * Barcodes are stored without spaces and in upper case, so a scanned code
+ * and a typed one match.
+ */
+export function normalizeBarcode(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+export function isValidBarcode(code: string): boolean {
+  return BARCODE_PATTERN.test(code);
+}
+
+/**
+ * A barcode typed into a cell Excel treats as a number loses its leading
+ * zeros. Pad 7 digits back to EAN-8/UPC-E and 9 to 11 digits back to UPC-A.
+ */
+function numericCellBarcode(value: number): string {
+  const digits = value.toFixed(0);
+  if (digits.length === 7) return digits.padStart(8, "0");
+  if (digits.length >= 9 && digits.length <= 11) return digits.padStart(12, "0");
+  return digits;
+}
+
+/**
+ * Split a spreadsheet cell holding one or more barcodes separated by
+ * semicolons, commas or spaces.
+ */
+export function splitBarcodes(value: unknown): { barcodes: string[]; invalid: string[] } {
+  if (value === undefined || value === null) {
+    return { barcodes: [], invalid: [] };
+  }
+
+  const barcodes: string[] = [];
+  const invalid: string[] = [];
+  const text = typeof value === "number" ? numericCellBarcode(value) : String(value);
+  for (const part of text.split(/[;,\s]+/)) {
+    const code = normalizeBarcode(part);
+    if (!code) {
+      continue;
+    }
+    if (!isValidBarcode(code)) {
+      invalid.push(part);
+    } else if (!barcodes.includes(code)) {
+      barcodes.push(code);
+    }
+  }
+
+  return { barcodes, invalid };
+}
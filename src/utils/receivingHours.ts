@@ -0,0 +1,72 @@
+/**
+ * Customer receiving hours helpers, shared by the admin customer form, the
+ * driver stop screen and the server-side window checks
+ */
+
+export interface ReceivingWindow {
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number;
+  // "HH:MM", 24-hour, Pacific time
+  opensAt: string;
+  closesAt: string;
+}
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Minutes after midnight for an "HH:MM" time, or null if it isn't one
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+/**
+ * "7:00 AM" for 420
+ */
+export const formatTimeOfDay = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60) % 24;
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, "0")} ${suffix}`;
+};
+
+/**
+ * The windows for one weekday, earliest first
+ */
+export const windowsForWeekday = (
+  windows: ReceivingWindow[],
+  weekday: number
+): ReceivingWindow[] =>
+  windows
+    .filter((window) => window.weekday === weekday)
+    .sort((a, b) => a.opensAt.localeCompare(b.opensAt));
+
+/**
+ * "7:00 AM – 11:00 AM, 1:00 PM – 4:00 PM", "Closed", or null when the
+ * customer has no hours set for the day
+ */
+export const describeReceivingDay = (
+  windows: ReceivingWindow[],
+  closedWeekdays: number[],
+  weekday: number
+): string | null => {
+  if (closedWeekdays.includes(weekday)) return "Closed";
+  const dayWindows = windowsForWeekday(windows, weekday);
+  if (dayWindows.length === 0) return null;
+  return dayWindows
+    .map(
+      (window) =>
+        `${formatTimeOfDay(parseTimeOfDay(window.opensAt) ?? 0)} – ${formatTimeOfDay(
+          parseTimeOfDay(window.closesAt) ?? 0
+        )}`
+    )
+    .join(", ");
+};
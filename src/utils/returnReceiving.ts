@@ -0,0 +1,16 @@
+/**
+ * Conditions warehouse staff record when returned goods come back, shared
+ * by the API and the receiving screen.
+ */
+
+import type { ReturnCondition } from "@prisma/client";
+
+export const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+  GOOD: "Good - back to stock",
+  DAMAGED: "Damaged",
+  UNSELLABLE: "Unsellable - dispose",
+};
+
+export function isReturnCondition(value: unknown): value is ReturnCondition {
+  return typeof value === "string" && value in RETURN_CONDITION_LABELS;
+}
@@ -0,0 +1,55 @@
+/**
+ * Driver settlement totals and variances, shared by the API and the
+ * settlement screens.
+ */
+
+export type SettlementStatusValue = "OPEN" | "DRIVER_SIGNED" | "SETTLED";
+
+export const SETTLEMENT_STATUS_LABELS: Record<SettlementStatusValue, string> = {
+  OPEN: "Waiting for driver",
+  DRIVER_SIGNED: "Driver signed",
+  SETTLED: "Settled",
+};
+
+export interface SettlementTotals {
+  // Invoice amounts of the day's COD stops
+  expectedCod: number;
+  // Payments recorded on those COD stops
+  codCollected: number;
+  // Every payment recorded for the day, by method
+  cashCollected: number;
+  checkCollected: number;
+  cardCollected: number;
+  checksRecorded: number;
+  // Cash back taken on the fuel card, declared at end of day
+  cashBackAmount: number;
+}
+
+export interface SettlementVariances {
+  // Counted cash less the cash the driver should hand in
+  cash: number | null;
+  // Checks handed in less checks recorded
+  checks: number | null;
+  // Collected on COD stops less expected
+  cod: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Cash the driver should hand in: cash payments plus fuel card cash back.
+ */
+export function expectedCash(totals: SettlementTotals): number {
+  return toCents(totals.cashCollected + totals.cashBackAmount);
+}
+
+export function settlementVariances(
+  totals: SettlementTotals,
+  handIn: { countedCash: number | null; checkCount: number | null }
+): SettlementVariances {
+  return {
+    cash: handIn.countedCash === null ? null : toCents(handIn.countedCash - expectedCash(totals)),
+    checks: handIn.checkCount === null ? null : handIn.checkCount - totals.checksRecorded,
+    cod: toCents(totals.codCollected - totals.expectedCod),
+  };
+}
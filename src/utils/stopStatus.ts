@@ -0,0 +1,68 @@
+/**
+ * The stop status state machine, shared by the API and the UI.
+ *
+ * Drivers move a stop forward: PENDING -> ON_THE_WAY -> ARRIVED ->
+ * COMPLETED, or to FAILED once they've set off for it. Admins can also
+ * cancel a stop, step it back to correct a mistake, reopen a completed stop
+ * and retry a failed or cancelled one.
+ */
+
+import type { StopStatus } from "@prisma/client";
+
+export type StatusActor = "driver" | "admin";
+
+export const DRIVER_TRANSITIONS: Record<StopStatus, StopStatus[]> = {
+  PENDING: ["ON_THE_WAY"],
+  ON_THE_WAY: ["ARRIVED", "FAILED"],
+  ARRIVED: ["COMPLETED", "FAILED"],
+  COMPLETED: [],
+  FAILED: [],
+  CANCELLED: [],
+};
+
+export const ADMIN_TRANSITIONS: Record<StopStatus, StopStatus[]> = {
+  PENDING: ["ON_THE_WAY", "ARRIVED", "COMPLETED", "FAILED", "CANCELLED"],
+  ON_THE_WAY: ["PENDING", "ARRIVED", "COMPLETED", "FAILED", "CANCELLED"],
+  ARRIVED: ["PENDING", "ON_THE_WAY", "COMPLETED", "FAILED", "CANCELLED"],
+  COMPLETED: ["ARRIVED"],
+  FAILED: ["PENDING"],
+  CANCELLED: ["PENDING"],
+};
+
+// Statuses that end the driver's work on a stop
+export const FINISHED_STOP_STATUSES: StopStatus[] = ["COMPLETED", "FAILED", "CANCELLED"];
+
+export const STOP_STATUS_LABELS: Record<StopStatus, string> = {
+  PENDING: "Pending",
+  ON_THE_WAY: "On The Way",
+  ARRIVED: "Arrived",
+  COMPLETED: "Completed",
+  FAILED: "Failed",
+  CANCELLED: "Cancelled",
+};
+
+export function isStopStatus(value: unknown): value is StopStatus {
+  return typeof value === "string" && value in DRIVER_TRANSITIONS;
+}
+
+export function allowedTransitions(from: StopStatus, actor: StatusActor): StopStatus[] {
+  return (actor === "driver" ? DRIVER_TRANSITIONS : ADMIN_TRANSITIONS)[from];
+}
+
+/**
+ * Why a status change isn't allowed, or null when it is. Staying in the
+ * same status is always allowed.
+ */
+export function transitionError(
+  from: StopStatus,
+  to: unknown,
+  actor: StatusActor
+): string | null {
+  if (!isStopStatus(to)) {
+    return "Invalid status";
+  }
+  if (from === to || allowedTransitions(from, actor).includes(to)) {
+    return null;
+  }
+  return `A stop can't go from ${STOP_STATUS_LABELS[from]} to ${STOP_STATUS_LABELS[to]}`;
+}